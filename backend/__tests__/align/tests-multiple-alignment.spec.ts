@@ -0,0 +1,44 @@
+import MultipleAlignment, { getAlignedIdentity, getConservation } from '../../src/align/multiple-alignment'
+
+describe('align/multiple-alignment', function () {
+  it('conservation', function () {
+    const conservation = getConservation(['AAC', 'AGD', 'AT-', 'AV-'])
+    expect(conservation[0]).toBeCloseTo(1)
+    expect(conservation[1]).toBeCloseTo(0)
+    expect(conservation[2]).toBeGreaterThan(0)
+    expect(conservation[2]).toBeLessThan(1)
+
+    expect(getConservation(['MKV'])).toEqual([1, 1, 1])
+  })
+
+  it('identity', function () {
+    expect(getAlignedIdentity('AC-DE', 'ACGDF')).toBeCloseTo(0.75)
+    expect(getAlignedIdentity('--', 'AC')).toBe(0)
+  })
+
+  it('align', function () {
+    const sequences = [
+      'MKTAYIAKQRQISFVKSHFSRQ',
+      'MKTAYIAKQRQISFVKSHFSRQLEERLGLIE',
+      'MKTAYIAKRQISFVKSHFSRQ',
+      'GSHMKTAYIAKQRQISFVKSHFSRQ'
+    ]
+    const msa = new MultipleAlignment(sequences)
+    msa.calc()
+
+    expect(msa.rows.length).toBe(sequences.length)
+    msa.rows.forEach((row, i) => {
+      expect(row.length).toBe(msa.rows[0].length)
+      expect(row.replace(/-/g, '')).toBe(sequences[i])
+    })
+    expect(msa.conservation.length).toBe(msa.rows[0].length)
+
+    // The common core is aligned in the same columns
+    const column = msa.rows[0].indexOf('MKTAYIAK')
+    msa.rows.forEach(row => expect(row.substr(column, 8)).toBe('MKTAYIAK'))
+    expect(msa.conservation[column]).toBeCloseTo(1)
+
+    // The residue missing in the third sequence is replaced by a gap
+    expect(msa.rows[2].substr(column + 8, 2)).toBe('-R')
+  })
+})
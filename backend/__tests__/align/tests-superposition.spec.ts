@@ -0,0 +1,78 @@
+import { Euler, Matrix4, Vector3 } from 'three'
+import Superposition from '../../src/align/superposition'
+import { icp } from '../../src/align/icp'
+
+/**
+ * Points on a helix-like curve (asymmetric enough to have a unique superposition)
+ */
+function makePoints(n: number): Float32Array {
+    const points = new Float32Array(n * 3);
+    for (let i = 0; i < n; ++i) {
+        points[i * 3] = 10 * Math.cos(i * 0.6);
+        points[i * 3 + 1] = 10 * Math.sin(i * 0.6);
+        points[i * 3 + 2] = i * 3.4 + 0.05 * i * i;
+    }
+    return points;
+}
+
+function transformPoints(points: Float32Array, m: Matrix4): Float32Array {
+    const result = new Float32Array(points.length);
+    const v = new Vector3();
+    for (let i = 0; i < points.length; i += 3) {
+        v.fromArray(points as unknown as number[], i).applyMatrix4(m).toArray(result as unknown as number[], i);
+    }
+    return result;
+}
+
+describe('align/superposition', function () {
+    it('rmsd and pair count', function () {
+        const points = makePoints(20);
+        const m = new Matrix4().makeRotationFromEuler(new Euler(0.3, -0.2, 0.5)).setPosition(5, -3, 2);
+        const moved = transformPoints(points, m);
+
+        const sp = new Superposition(moved, points);
+        expect(sp.pairCount).toBe(20);
+        expect(sp.rmsd).toBeCloseTo(0, 3);
+
+        const superposed = transformPoints(moved, sp.transformationMatrix);
+        for (let i = 0; i < points.length; ++i) {
+            expect(superposed[i]).toBeCloseTo(points[i], 2);
+        }
+
+        const shifted = new Float32Array(points);
+        shifted[2] += 2;
+        expect(new Superposition(shifted, points).rmsd).toBeGreaterThan(0.1);
+    })
+
+    it('iterative closest point', function () {
+        const target = makePoints(60);
+        const m = new Matrix4().makeRotationFromEuler(new Euler(0.05, 0.1, -0.08)).setPosition(1.5, -1, 2);
+
+        // Source with a different point order and a few points missing (no known correspondences)
+        const shuffled: number[] = [];
+        for (let i = 59; i >= 0; --i) {
+            if (i % 10 !== 3) {
+                shuffled.push(target[i * 3], target[i * 3 + 1], target[i * 3 + 2]);
+            }
+        }
+        const source = transformPoints(new Float32Array(shuffled), m);
+
+        const result = icp(source, target)!;
+        expect(result.rmsd).toBeLessThan(0.01);
+        expect(result.pairCount).toBe(54);
+
+        const superposed = transformPoints(source, result.matrix);
+        const expected = new Float32Array(shuffled);
+        for (let i = 0; i < expected.length; ++i) {
+            expect(superposed[i]).toBeCloseTo(expected[i], 1);
+        }
+    })
+
+    it('iterative closest point without pairs', function () {
+        const target = makePoints(20);
+        const source = transformPoints(new Float32Array(target), new Matrix4().makeTranslation(100, 0, 0));
+
+        expect(icp(new Float32Array(0), target)).toBeNull();
+        expect(icp(source, target, { maxPairDistance: 5, initialTransformation: new Matrix4() })).toBeNull();
+    })
+})
@@ -0,0 +1,153 @@
+import { Matrix4 } from "three";
+import CgStructure from "../../src/catana/data_model/cg-structure";
+import CgNucleicAcidStrand from "../../src/catana/data_model/cg-nucleic-acid-strand";
+import { NucleicAcidType } from "../../src/catana/data_model/types_declarations/polymer-types";
+import { NucleobaseType } from "../../src/catana/data_model/types_declarations/monomer-types";
+import NucleicAcidStructuresProvider from "../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import { CatanaState } from "../../src/catana/actions/catana-state";
+import Lattice from "../../src/catana/nanomodeling/lattices/lattice";
+import { HoneycombLattice } from "../../src/catana/nanomodeling/lattices/honeycomb-lattice";
+import { SquareLattice } from "../../src/catana/nanomodeling/lattices/square-lattice";
+import LatticeLocator from "../../src/catana/nanomodeling/lattices/lattice-locator";
+import { autoStaple } from "../../src/catana/nanomodeling/auto-staple";
+
+/**
+ * Builds scaffold going back and forth along the given lattice cells
+ */
+function buildScaffold(lattice: Lattice, cells: [number, number][], length: number): CgNucleicAcidStrand {
+    const structure = new CgStructure(0, "design");
+    const scaffold = new CgNucleicAcidStrand(0, "A", NucleicAcidType.DNA, structure, cells.length * length);
+    const baseTwist = 360 / lattice.basePairsPerTurn;
+
+    cells.forEach(([row, col], i) => {
+        for (let j = 0; j < length; ++j) {
+            const depth = i % 2 === 0 ? j : length - 1 - j;
+            CatanaState.dnaFactory.buildLatticeNucleotide(lattice, row, col, depth, 0, i % 2 === 0,
+                NucleobaseType.A, scaffold, undefined, baseTwist);
+        }
+    });
+
+    structure.addNaStrand(scaffold);
+    return scaffold;
+}
+
+function stapleLocations(staple: CgNucleicAcidStrand, lattice: Lattice): { cell: string, depth: number }[] {
+    const locator = new LatticeLocator(lattice);
+    const result: { cell: string, depth: number }[] = [];
+    staple.forEachNucleotide(nt => {
+        const loc = locator.locate(nt.nucleobaseCenter, nt.baseNormal)!;
+        result.push({ cell: loc.row + ":" + loc.col, depth: loc.depth });
+    });
+    return result;
+}
+
+describe('catana/auto-staple', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    })
+
+    it('honeycomb staples', function () {
+        const lattice = new HoneycombLattice(4, 1);
+        const scaffold = buildScaffold(lattice, [[0, 0], [0, 1], [0, 2], [0, 3]], 84);
+        const structure = scaffold.parentStructure!;
+
+        const result = autoStaple(scaffold, lattice, { minLength: 18, maxLength: 60 });
+
+        expect(result.unalignedScaffoldNucleotides).toBe(0);
+        expect(result.crossoverCount).toBeGreaterThan(0);
+        expect(scaffold.isScaffold).toBe(true);
+        expect(structure.naStrands.length).toBe(result.staples.length + 1);
+
+        // All scaffold nucleotides are paired with complementary staple nucleotides
+        let unpaired = 0;
+        scaffold.forEachNucleotide(nt => {
+            const pair = nt.pairedNucleotide;
+            if (!pair || pair.nucleobaseType !== NucleobaseType.T || pair.pairedNucleotide?.globalId !== nt.globalId) {
+                ++unpaired;
+            }
+        });
+        expect(unpaired).toBe(0);
+
+        expect(result.staples.reduce((sum, s) => sum + s.length, 0)).toBe(scaffold.length);
+        result.staples.forEach(s => {
+            expect(s.length).toBeLessThanOrEqual(60);
+        });
+        expect(result.staples.filter(s => s.length < 18).length).toBe(result.shortStapleCount);
+        expect(result.shortStapleCount).toBe(0);
+
+        // Double crossovers between two helices are separated by multiples of 21 base-pairs (two turns).
+        // Connections at the helix ends come from merging the staples next to the scaffold crossovers.
+        const crossovers = new Map<string, number[]>();
+        result.staples.forEach(s => {
+            const locs = stapleLocations(s, lattice);
+            for (let i = 1; i < locs.length; ++i) {
+                if (locs[i].cell !== locs[i - 1].cell && locs[i].depth > 0 && locs[i].depth < 83) {
+                    const key = [locs[i].cell, locs[i - 1].cell].sort().join("-");
+                    crossovers.set(key, (crossovers.get(key) ?? []).concat(locs[i].depth));
+                }
+            }
+        });
+        expect(crossovers.size).toBeGreaterThan(0);
+        crossovers.forEach(depths => {
+            const first = Math.min(...depths);
+            depths.forEach(d => expect((d - first) % 21).toBeLessThanOrEqual(1));
+        });
+    })
+
+    it('square staples without crossovers', function () {
+        const lattice = new SquareLattice(2, 1);
+        const scaffold = buildScaffold(lattice, [[0, 0], [0, 1]], 64);
+
+        const result = autoStaple(scaffold, lattice, { minLength: 20, maxLength: 40, crossovers: false });
+
+        expect(result.crossoverCount).toBe(0);
+        expect(result.unalignedScaffoldNucleotides).toBe(0);
+        result.staples.forEach(s => {
+            expect(s.length).toBeGreaterThanOrEqual(20);
+            expect(s.length).toBeLessThanOrEqual(40);
+        });
+        expect(result.staples.reduce((sum, s) => sum + s.length, 0)).toBe(128);
+    })
+
+    it('square staples', function () {
+        const lattice = new SquareLattice(2, 1);
+        const scaffold = buildScaffold(lattice, [[0, 0], [0, 1]], 96);
+
+        const result = autoStaple(scaffold, lattice, { minLength: 18, maxLength: 60 });
+
+        // Double crossovers are separated by whole turns of the helices (up to a fraction of a base-pair step)
+        expect(result.crossoverCount).toBeGreaterThan(0);
+        const depths: number[] = [];
+        result.staples.forEach(s => {
+            const locs = stapleLocations(s, lattice);
+            for (let i = 1; i < locs.length; ++i) {
+                if (locs[i].cell !== locs[i - 1].cell && locs[i].cell === "0:0" && locs[i].depth > 0 && locs[i].depth < 95) {
+                    depths.push(locs[i].depth);
+                }
+            }
+        });
+        expect(depths.length).toBe(result.crossoverCount / 2);
+        depths.forEach(d => {
+            const turns = (d - depths[0]) / lattice.basePairsPerTurn;
+            expect(Math.abs(turns - Math.round(turns))).toBeLessThan(0.1);
+        });
+        expect(result.shortStapleCount).toBe(0);
+        expect(result.staples.reduce((sum, s) => sum + s.length, 0)).toBe(192);
+    })
+
+    it('already paired and misaligned nucleotides', function () {
+        const lattice = new SquareLattice(2, 1);
+        const scaffold = buildScaffold(lattice, [[0, 0], [0, 1]], 32);
+        const other = new SquareLattice(2, 1, 20, new Matrix4().makeRotationX(Math.PI / 2));
+
+        expect(autoStaple(scaffold, other).unalignedScaffoldNucleotides).toBe(64);
+
+        const first = autoStaple(scaffold, lattice, { minLength: 10, maxLength: 20 });
+        expect(first.staples.length).toBeGreaterThan(0);
+
+        // Second run finds no unpaired nucleotides
+        const second = autoStaple(scaffold, lattice);
+        expect(second.staples.length).toBe(0);
+        expect(second.crossoverCount).toBe(0);
+    })
+})
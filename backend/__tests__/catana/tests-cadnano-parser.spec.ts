@@ -0,0 +1,155 @@
+import { createCadnanoJson, detectCadnanoLatticeType, readCadnanoDesign, traceCadnanoStrands } from "../../src/catana/parsers/cadnano-design";
+import CadnanoParser from "../../src/catana/parsers/cadnano-parser";
+import StringStreamer from "../../src/streamer/string-streamer";
+import CgStructure from "../../src/catana/data_model/cg-structure";
+import Lattice from "../../src/catana/nanomodeling/lattices/lattice";
+import LatticeLocator from "../../src/catana/nanomodeling/lattices/lattice-locator";
+import MultiObjectsStorage from "../../src/catana/utils/multi-objects-storage";
+
+import { join } from 'path'
+import * as fs from 'fs'
+
+function loadJson(fileName: string) {
+    const file = join(__dirname, '../data/' + fileName);
+    return JSON.parse(fs.readFileSync(file, 'utf-8'));
+}
+
+function loadDesign(fileName: string) {
+    return readCadnanoDesign(loadJson(fileName));
+}
+
+describe('catana/cadnano-parser', function () {
+    it('lattice type detection', function () {
+        expect(detectCadnanoLatticeType(32)).toBe("square");
+        expect(detectCadnanoLatticeType(42)).toBe("honeycomb");
+        expect(detectCadnanoLatticeType(672)).toBeUndefined();
+        expect(detectCadnanoLatticeType(50)).toBeUndefined();
+
+        expect(loadDesign('cadnano_square.json').latticeType).toBe("square");
+        expect(loadDesign('cadnano_honeycomb.json').latticeType).toBe("honeycomb");
+    })
+
+    it('invalid data', function () {
+        expect(() => readCadnanoDesign({ name: "not-cadnano" })).toThrow();
+    })
+
+    it('square design strands', function () {
+        const design = loadDesign('cadnano_square.json');
+        const paths = traceCadnanoStrands(design);
+
+        expect(design.name).toBe("square-test");
+        expect(design.helixLength).toBe(32);
+        expect(design.helices.size).toBe(2);
+
+        const scaffolds = paths.filter(p => p.isScaffold);
+        const staples = paths.filter(p => !p.isScaffold);
+        expect(scaffolds.length).toBe(1);
+        expect(staples.length).toBe(2);
+
+        // 56 positions, one skipped and one insertion
+        const scaf = scaffolds[0];
+        expect(scaf.isCircular).toBe(false);
+        expect(scaf.bases.length).toBe(56);
+        expect(scaf.bases[0]).toEqual({ helixNum: 0, baseIndex: 2, depth: 2, isForward: true });
+        expect(scaf.bases[scaf.bases.length - 1]).toEqual({ helixNum: 1, baseIndex: 2, depth: 2, isForward: false });
+        expect(scaf.bases.some(b => b.helixNum === 0 && b.baseIndex === 10)).toBe(false);
+
+        // Insertion is placed between base indices, in the direction of the strand
+        const insIdx = scaf.bases.findIndex(b => b.helixNum === 1 && b.baseIndex === 20);
+        expect(scaf.bases[insIdx].depth).toBeCloseTo(20.5);
+        expect(scaf.bases[insIdx + 1].depth).toBe(20);
+
+        const stapA = staples.find(p => p.bases[0].helixNum === 1 && p.bases[0].baseIndex === 2)!;
+        const stapB = staples.find(p => p.bases[0].helixNum === 1 && p.bases[0].baseIndex === 16)!;
+        expect(stapA.bases.length).toBe(27);
+        expect(stapB.bases.length).toBe(29);
+        expect(stapA.color).toBe(0xff0000);
+        expect(stapB.color).toBe(0x00ff00);
+        expect(stapA.bases[0].isForward).toBe(true);
+        expect(stapA.bases[stapA.bases.length - 1]).toEqual({ helixNum: 0, baseIndex: 2, depth: 2, isForward: false });
+    })
+
+    it('honeycomb design strands', function () {
+        const design = loadDesign('cadnano_honeycomb.json');
+        const paths = traceCadnanoStrands(design);
+
+        const scaf = paths.find(p => p.isScaffold)!;
+        expect(scaf.isCircular).toBe(true);
+        expect(scaf.bases.length).toBe(80);
+        expect(scaf.color).toBeUndefined();
+
+        const staples = paths.filter(p => !p.isScaffold);
+        expect(staples.length).toBe(2);
+        staples.forEach(p => {
+            expect(p.isCircular).toBe(false);
+            expect(p.bases.length).toBe(40);
+        });
+
+        const colored = staples.find(p => p.bases[0].helixNum === 0)!;
+        expect(colored.bases[0].baseIndex).toBe(40);
+        expect(colored.color).toBe(0x333333);
+        expect(staples.find(p => p !== colored)!.color).toBeUndefined();
+    })
+
+    it('writing designs', function () {
+        ['cadnano_square.json', 'cadnano_honeycomb.json'].forEach(fileName => {
+            const json = loadJson(fileName);
+            const design = readCadnanoDesign(json);
+            const helices = Array.from(design.helices.values());
+
+            expect(createCadnanoJson(design.name, design.helixLength, helices, traceCadnanoStrands(design))).toEqual(json);
+        });
+    })
+
+    it('parsing square design', function () {
+        const text = JSON.stringify(loadJson('cadnano_square.json'));
+        const design = readCadnanoDesign(JSON.parse(text));
+        const paths = traceCadnanoStrands(design);
+
+        return new CadnanoParser(new StringStreamer(text)).parse().then((storage: MultiObjectsStorage) => {
+            const lattice = storage.storedObjects[0] as Lattice;
+            const structure = storage.storedObjects[1] as CgStructure;
+            expect(lattice).toBeInstanceOf(Lattice);
+            expect(structure).toBeInstanceOf(CgStructure);
+            expect(structure.name).toBe("square-test");
+
+            // One strand per traced path: scaffold of 56 nt and staples of 27 and 29 nt
+            const strands = structure.naStrands;
+            expect(strands.length).toBe(3);
+            expect(strands.map(s => s.length)).toEqual(paths.map(p => p.bases.length));
+            expect(strands.filter(s => s.isScaffold).map(s => s.length)).toEqual([56]);
+            expect(strands.filter(s => !s.isScaffold).map(s => s.length).sort()).toEqual([27, 29]);
+
+            // Every staple nucleotide lies on a scaffold position and is paired with the scaffold nucleotide there
+            let pairCount = 0;
+            strands.filter(s => !s.isScaffold).forEach(staple => staple.forEachNucleotide(nt => {
+                const pair = nt.pairedNucleotide;
+                if (pair) {
+                    expect(pair.parentStrand.isScaffold).toBe(true);
+                    expect(pair.pairedNucleotide!.globalId).toBe(nt.globalId);
+                    ++pairCount;
+                }
+            }));
+            const scaffoldKeys = new Set(paths.filter(p => p.isScaffold)[0].bases.map(b => b.helixNum + ":" + b.depth));
+            const expectedPairCount = paths.filter(p => !p.isScaffold)
+                .reduce((sum, p) => sum + p.bases.filter(b => scaffoldKeys.has(b.helixNum + ":" + b.depth)).length, 0);
+            expect(expectedPairCount).toBeGreaterThan(0);
+            expect(pairCount).toBe(expectedPairCount);
+
+            // Nucleotides are placed in the lattice cells given by the design, base indices are flipped
+            // (and so are the strand directions) as the design is rotated to match Catana's lattice rows
+            const locator = new LatticeLocator(lattice);
+            strands.forEach((strand, i) => strand.forEachNucleotide((nt, j) => {
+                const base = paths[i].bases[j];
+                if (!Number.isInteger(base.depth)) {
+                    return; // Insertion
+                }
+                const helix = design.helices.get(base.helixNum)!;
+                const loc = locator.locate(nt.nucleobaseCenter, nt.baseNormal)!;
+                expect(loc).not.toBeNull();
+                expect([loc.row, loc.col, loc.depth, loc.isFiveToThree]).toEqual(
+                    [helix.row, helix.col, design.helixLength - 1 - base.depth, !base.isForward]);
+            }));
+        });
+    })
+})
@@ -0,0 +1,111 @@
+import { Matrix4, Quaternion } from "three";
+import CgStructure from "../../src/catana/data_model/cg-structure";
+import CgNucleicAcidStrand from "../../src/catana/data_model/cg-nucleic-acid-strand";
+import { NucleicAcidType } from "../../src/catana/data_model/types_declarations/polymer-types";
+import { NucleobaseType } from "../../src/catana/data_model/types_declarations/monomer-types";
+import NucleicAcidStructuresProvider from "../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import { CatanaState } from "../../src/catana/actions/catana-state";
+import Lattice from "../../src/catana/nanomodeling/lattices/lattice";
+import { SquareLattice } from "../../src/catana/nanomodeling/lattices/square-lattice";
+import { autoStaple } from "../../src/catana/nanomodeling/auto-staple";
+import CadnanoWriter from "../../src/catana/writer/cadnano-writer";
+import { readCadnanoDesign, traceCadnanoStrands } from "../../src/catana/parsers/cadnano-design";
+
+/**
+ * Builds scaffold going back and forth along the given lattice cells
+ */
+function buildScaffold(lattice: Lattice, cells: [number, number][], length: number): CgNucleicAcidStrand {
+    const structure = new CgStructure(0, "design");
+    const scaffold = new CgNucleicAcidStrand(0, "A", NucleicAcidType.DNA, structure, cells.length * length);
+    const baseTwist = 360 / lattice.basePairsPerTurn;
+
+    cells.forEach(([row, col], i) => {
+        for (let j = 0; j < length; ++j) {
+            const depth = i % 2 === 0 ? j : length - 1 - j;
+            CatanaState.dnaFactory.buildLatticeNucleotide(lattice, row, col, depth, 0, i % 2 === 0,
+                NucleobaseType.A, scaffold, undefined, baseTwist);
+        }
+    });
+
+    structure.addNaStrand(scaffold);
+    return scaffold;
+}
+
+describe('catana/cadnano-writer', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    })
+
+    it('exports lattice-aligned strands', function () {
+        const lattice = new SquareLattice(2, 1);
+        const scaffold = buildScaffold(lattice, [[0, 0], [0, 1]], 64);
+        const structure = scaffold.parentStructure!;
+        const result = autoStaple(scaffold, lattice, { minLength: 18, maxLength: 60 });
+        expect(result.crossoverCount).toBeGreaterThan(0);
+
+        // Strand built along the x axis is not aligned with the lattice
+        const unaligned = CatanaState.dnaFactory.buildHelixFromSequence("ACGTACGT")!;
+        structure.addNaStrand(unaligned);
+        unaligned.name = structure.generateChainName();
+
+        const writer = new CadnanoWriter(lattice, [{ cgStructure: structure, matrix: new Matrix4(), quaternion: new Quaternion() }], {
+            designName: "exported"
+        });
+        const json = JSON.parse(writer.getData());
+
+        expect(writer.skippedStrands.length).toBe(1);
+        expect(writer.skippedStrands[0].structureName).toBe("design");
+        expect(writer.skippedStrands[0].strandName).toBe(unaligned.name);
+        expect(writer.skippedStrands[0].reason.startsWith("nucleotide 0 ")).toBe(true);
+
+        // Helix with even parity gets an even number
+        expect(json.name).toBe("exported");
+        expect(json.vstrands.map((vs: any) => [vs.num, vs.row, vs.col])).toEqual([[0, 0, 0], [1, 0, 1]]);
+        json.vstrands.forEach((vs: any) => {
+            expect(vs.scaf.length).toBe(64);
+            expect(vs.stap.length).toBe(64);
+        });
+
+        const design = readCadnanoDesign(json);
+        const paths = traceCadnanoStrands(design);
+        const scaffolds = paths.filter(p => p.isScaffold);
+        const staples = paths.filter(p => !p.isScaffold);
+
+        // Scaffold runs forward on the even helix and crosses over to the odd one at its end
+        expect(scaffolds.length).toBe(1);
+        expect(scaffolds[0].bases.length).toBe(128);
+        expect(scaffolds[0].bases[0]).toEqual({ helixNum: 0, baseIndex: 0, depth: 0, isForward: true });
+        expect(scaffolds[0].bases[63]).toEqual({ helixNum: 0, baseIndex: 63, depth: 63, isForward: true });
+        expect(scaffolds[0].bases[64]).toEqual({ helixNum: 1, baseIndex: 63, depth: 63, isForward: false });
+
+        expect(staples.length).toBe(result.staples.length);
+        expect(staples.reduce((sum, p) => sum + p.bases.length, 0)).toBe(128);
+        let stapleCrossovers = 0;
+        staples.forEach(p => {
+            for (let i = 1; i < p.bases.length; ++i) {
+                if (p.bases[i].helixNum !== p.bases[i - 1].helixNum) ++stapleCrossovers;
+            }
+        });
+        expect(stapleCrossovers).toBe(result.crossoverCount);
+    })
+
+    it('skips conflicting strands', function () {
+        const lattice = new SquareLattice(2, 1);
+        const scaffold = buildScaffold(lattice, [[0, 0], [0, 1]], 32);
+        const structure = scaffold.parentStructure!;
+        const copy = buildScaffold(lattice, [[0, 0], [0, 1]], 32);
+
+        const writer = new CadnanoWriter(lattice, [
+            { cgStructure: structure, matrix: new Matrix4(), quaternion: new Quaternion() },
+            { cgStructure: copy.parentStructure!, matrix: new Matrix4(), quaternion: new Quaternion() }
+        ]);
+        const paths = traceCadnanoStrands(readCadnanoDesign(JSON.parse(writer.getData())));
+
+        expect(paths.length).toBe(1);
+        expect(writer.skippedStrands).toEqual([{
+            structureName: "design",
+            strandName: "A",
+            reason: "it occupies already occupied base positions"
+        }]);
+    })
+});
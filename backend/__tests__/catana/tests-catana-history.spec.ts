@@ -0,0 +1,180 @@
+import CatanaHistory from "../../src/catana/history/catana-history";
+import Command from "../../src/catana/history/command";
+
+class PushCommand extends Command {
+    public disposed: boolean = false;
+
+    constructor(private readonly target: number[], private readonly value: number,
+        private readonly size: number = 0) {
+        super();
+    }
+
+    public do() {
+        this.target.push(this.value);
+    }
+
+    public undo() {
+        this.target.pop();
+    }
+
+    public get memorySize(): number {
+        return this.size;
+    }
+
+    public dispose() {
+        this.disposed = true;
+    }
+
+    get name(): string {
+        return "Push " + this.value;
+    }
+}
+
+describe('catana/history', function () {
+    it('undo and redo', function () {
+        const history = new CatanaHistory();
+        const data: number[] = [];
+
+        history.do(new PushCommand(data, 1));
+        history.do(new PushCommand(data, 2));
+        expect(data).toEqual([1, 2]);
+        expect(history.canUndo).toBe(true);
+        expect(history.canRedo).toBe(false);
+
+        history.undo();
+        history.undo();
+        expect(data).toEqual([]);
+        expect(history.canUndo).toBe(false);
+
+        // Nothing happens when there is nothing to undo
+        history.undo();
+        expect(data).toEqual([]);
+
+        history.redo();
+        expect(data).toEqual([1]);
+        expect(history.last?.name).toBe("Push 1");
+
+        // New command discards the redoable ones
+        const undone = new PushCommand(data, 2);
+        history.do(new PushCommand(data, 5));
+        history.do(undone);
+        history.undo();
+        history.do(new PushCommand(data, 3));
+        expect(data).toEqual([1, 5, 3]);
+        expect(history.canRedo).toBe(false);
+        expect(undone.disposed).toBe(true);
+
+        const names: string[] = [];
+        history.forEachCommand(c => names.push(c.name));
+        expect(names).toEqual(["Push 3", "Push 5", "Push 1"]);
+    })
+
+    it('jumping through the history', function () {
+        const history = new CatanaHistory();
+        const data: number[] = [];
+        const commands = [1, 2, 3, 4].map(v => new PushCommand(data, v));
+        commands.forEach(c => history.do(c));
+
+        let undoneCount = 0;
+        let redoneCount = 0;
+        history.signals.commandUndone.add(() => ++undoneCount);
+        history.signals.commandRedone.add(() => ++redoneCount);
+
+        history.goTo(commands[1]);
+        expect(data).toEqual([1, 2]);
+        expect(history.last).toBe(commands[1]);
+        expect(undoneCount).toBe(2);
+
+        history.goTo(commands[2]);
+        expect(data).toEqual([1, 2, 3]);
+        expect(redoneCount).toBe(1);
+
+        history.goTo(null);
+        expect(data).toEqual([]);
+        expect(history.canUndo).toBe(false);
+
+        history.goTo(commands[3]);
+        expect(data).toEqual([1, 2, 3, 4]);
+        expect(history.canRedo).toBe(false);
+
+        // Commands which are not a part of the history are ignored
+        history.goTo(new PushCommand(data, 5));
+        expect(data).toEqual([1, 2, 3, 4]);
+    })
+
+    it('command groups', function () {
+        const history = new CatanaHistory();
+        const data: number[] = [];
+
+        history.beginGroup("Outer");
+        history.do(new PushCommand(data, 1));
+        history.beginGroup("Inner");
+        history.do(new PushCommand(data, 2));
+        history.do(new PushCommand(data, 3));
+        history.endGroup();
+        history.endGroup();
+
+        // Empty groups are not stored
+        history.beginGroup("Empty");
+        history.endGroup();
+
+        expect(history.last?.name).toBe("Outer");
+
+        history.undo();
+        expect(data).toEqual([]);
+        expect(history.canUndo).toBe(false);
+
+        history.redo();
+        expect(data).toEqual([1, 2, 3]);
+    })
+
+    it('commands issued during undo are not stored', function () {
+        const history = new CatanaHistory();
+        const data: number[] = [];
+
+        class ReactingCommand extends PushCommand {
+            public undo() {
+                super.undo();
+                history.do(new PushCommand(data, 100));
+            }
+        }
+
+        history.do(new PushCommand(data, 1));
+        history.do(new ReactingCommand(data, 2));
+        history.undo();
+
+        expect(data).toEqual([1, 100]);
+        expect(history.canRedo).toBe(true);
+        expect(history.last?.name).toBe("Push 1");
+    })
+
+    it('bounded history', function () {
+        const history = new CatanaHistory(3, 1000);
+        const data: number[] = [];
+        const commands = [1, 2, 3, 4].map(x => new PushCommand(data, x, 100));
+
+        commands.forEach(c => history.do(c));
+
+        let count = 0;
+        history.forEachCommand(() => ++count);
+        expect(count).toBe(3);
+        expect(commands[0].disposed).toBe(true);
+        expect(history.memorySize).toBe(300);
+
+        // Memory limit
+        history.maxMemory = 150;
+        count = 0;
+        history.forEachCommand(() => ++count);
+        expect(count).toBe(1);
+        expect(history.memorySize).toBe(100);
+
+        // The most recent command is always kept
+        history.do(new PushCommand(data, 5, 500));
+        expect(history.canUndo).toBe(true);
+        expect(history.memorySize).toBe(500);
+
+        history.clear();
+        expect(history.canUndo).toBe(false);
+        expect(history.memorySize).toBe(0);
+    })
+})
@@ -0,0 +1,124 @@
+import NucleicAcidStructuresProvider from "../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import DnaFactory from "../../src/catana/nanomodeling/dna-factory";
+import CgStructure from "../../src/catana/data_model/cg-structure";
+import CgTrajectory from "../../src/catana/trajectory/cg-trajectory";
+import { getCgFrame, getCgFrameSize, InMemoryCgFrames, OxDnaCgFrames, setCgFrame } from "../../src/catana/trajectory/cg-frames";
+import { parseOxDnaConfiguration, writeOxDnaConfiguration } from "../../src/catana/parsers/oxdna-format";
+import OxDnaParser from "../../src/catana/parsers/oxdna-parser";
+import StringStreamer from "../../src/streamer/string-streamer";
+import MultiObjectsStorage from "../../src/catana/utils/multi-objects-storage";
+
+import { join } from 'path'
+import * as fs from 'fs'
+
+function loadFile(fileName: string) {
+    return fs.readFileSync(join(__dirname, '../data/' + fileName), 'utf-8');
+}
+
+function buildDuplex(sequence: string): CgStructure {
+    const factory = new DnaFactory();
+    const structure = new CgStructure(0, "duplex");
+    const strand = factory.buildHelixFromSequence(sequence)!;
+    structure.addNaStrand(strand);
+    structure.addNaStrand(factory.buildComplementaryHelix(strand));
+    return structure;
+}
+
+function loadOxDnaDuplex(): Promise<CgStructure> {
+    return new OxDnaParser(new StringStreamer(loadFile('oxdna_duplex.top')), { configuration: loadFile('oxdna_duplex.dat') })
+        .parse().then((storage: MultiObjectsStorage) => storage.storedObjects[0] as CgStructure);
+}
+
+describe('catana/cg-frames', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    });
+
+    it('stores and restores frame data', function () {
+        const structure = buildDuplex("ACGTACGT");
+        const frame = getCgFrame(structure);
+        expect(frame.length).toBe(getCgFrameSize(structure));
+        expect(frame.length).toBe(16 * 12);
+
+        // Shifted positions and non-unit directions
+        const modified = frame.map((x, i) => Math.floor(i / 24) % 4 < 2 ? x + 10 : 2 * x);
+        setCgFrame(structure, modified);
+        const strand = structure.naStrands[0];
+        expect(strand.getNucleotideProxy(0)!.nucleobaseCenter.x).toBeCloseTo(frame[0] + 10, 4);
+        strand.forEachNucleotide(nt => {
+            expect(nt.baseNormal.length()).toBeCloseTo(1, 5);
+            expect(nt.hydrogenFaceDir.length()).toBeCloseTo(1, 5);
+        });
+
+        setCgFrame(structure, frame);
+        const restored = getCgFrame(structure);
+        restored.forEach((x, i) => expect(x).toBeCloseTo(frame[i], 4));
+    });
+
+    it('steps through trajectory frames', function (done) {
+        const structure = buildDuplex("ACGTACGT");
+        const initial = getCgFrame(structure);
+        const frames = new InMemoryCgFrames("frames", "frames");
+        for (let f = 0; f < 3; ++f) {
+            frames.frames.push({ coords: initial.map(x => x + f) });
+        }
+        expect(frames.frameSize).toBe(initial.length);
+
+        const trajectory = new CgTrajectory(frames, structure);
+        expect(trajectory.frameCount).toBe(3);
+        expect(() => new CgTrajectory(frames, buildDuplex("ACGT"))).toThrow();
+
+        const nbCenterX = () => structure.naStrands[0].getNucleotideProxy(0)!.nucleobaseCenter.x;
+        trajectory.setFrame(2, () => {
+            expect(trajectory.currentFrame).toBe(2);
+            expect(nbCenterX()).toBeCloseTo(initial[0] + 2, 4);
+
+            trajectory.setFrame(1, () => {
+                expect(nbCenterX()).toBeCloseTo(initial[0] + 1, 4);
+
+                // Frame -1 restores the initial state of the structure
+                trajectory.setFrame(-1, () => {
+                    expect(nbCenterX()).toBeCloseTo(initial[0], 4);
+                    done();
+                });
+            });
+        });
+    });
+
+    it('reads oxDNA trajectory frames from file', function () {
+        const conf = parseOxDnaConfiguration(loadFile('oxdna_duplex.dat'));
+        const shifted = Object.assign({}, conf, {
+            time: 300,
+            nucleotides: conf.nucleotides.map(nt => Object.assign({}, nt, { position: nt.position.map(x => x + 1) }))
+        });
+        const trajectory = new Blob([loadFile('oxdna_duplex.dat'), writeOxDnaConfiguration(shifted)]);
+
+        return loadOxDnaDuplex().then(structure =>
+            OxDnaCgFrames.load(structure, loadFile('oxdna_duplex.top'), trajectory).then(frames => {
+                expect(frames.frameCount).toBe(2);
+                expect(frames.timeOffset).toBe(100);
+                expect(frames.deltaTime).toBe(200);
+                expect(frames.frameSize).toBe(getCgFrameSize(structure));
+
+                return Promise.all([frames.getFrame(0), frames.getFrame(1)]).then(([first, second]) => {
+                    // The first configuration is the one the structure was loaded from
+                    const initial = getCgFrame(structure);
+                    first.coords.forEach((x, i) => expect(x).toBeCloseTo(initial[i], 3));
+
+                    expect(second.coords.length).toBe(initial.length);
+                    expect(second.coords[0] - first.coords[0]).toBeGreaterThan(1);
+                    expect(second.box![0]).toBeGreaterThan(0);
+                });
+            }));
+    });
+
+    it('rejects mismatching oxDNA topology', function () {
+        const trajectory = new Blob([loadFile('oxdna_duplex.dat')]);
+        const topology = loadFile('oxdna_duplex.top');
+
+        expect(() => new OxDnaCgFrames(buildDuplex("ACGTA"), topology, trajectory, [])).toThrow(
+            "oxDNA topology does not match the strands of the structure.");
+        return expect(OxDnaCgFrames.load(buildDuplex("ACGTA"), topology, trajectory)).rejects.toThrow(
+            "oxDNA topology does not match the strands of the structure.");
+    });
+});
@@ -0,0 +1,164 @@
+import { Matrix4, Vector3 } from 'three'
+import CgRelaxationSystem, {
+    CgRelaxationParameters,
+    DefaultCgRelaxationParameters
+} from '../../src/catana/dynamics/relaxation/cg-relaxation-system'
+import CgRelaxation from '../../src/catana/dynamics/relaxation/cg-relaxation'
+import CgStructure from '../../src/catana/data_model/cg-structure'
+import CgNucleotideProxy from '../../src/catana/data_model/proxy/cg-nucleotide-proxy'
+import DnaFactory from '../../src/catana/nanomodeling/dna-factory'
+import NucleicAcidStructuresProvider from '../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider'
+
+// Six values per nucleotide: backbone center followed by nucleobase center (shifted by 'nbOffset' along Y)
+function getPositions(bbCenters: number[][], nbOffset: number = 4): Float32Array {
+    const positions = new Float32Array(bbCenters.length * 6);
+    bbCenters.forEach((c, i) => positions.set([c[0], c[1], c[2], c[0], c[1] + nbOffset, c[2]], i * 6));
+    return positions;
+}
+
+function distance(positions: Float32Array, i: number, j: number, offset: number = 0): number {
+    const dx = positions[j * 6 + offset] - positions[i * 6 + offset];
+    const dy = positions[j * 6 + offset + 1] - positions[i * 6 + offset + 1];
+    const dz = positions[j * 6 + offset + 2] - positions[i * 6 + offset + 2];
+    return Math.sqrt(dx * dx + dy * dy + dz * dz);
+}
+
+function createDuplex(sequence: string): CgStructure {
+    const factory = new DnaFactory();
+    const structure = new CgStructure(0, "duplex");
+    const strand = factory.buildHelixFromSequence(sequence)!;
+    structure.addNaStrand(strand);
+    structure.addNaStrand(factory.buildComplementaryHelix(strand));
+    return structure;
+}
+
+function getNucleotides(structure: CgStructure): CgNucleotideProxy[] {
+    const result: CgNucleotideProxy[] = [];
+    structure.forEachNaStrand(s => s.forEachNucleotide(nt => { result.push(nt) }));
+    return result;
+}
+
+function expectVectorCloseTo(actual: Vector3, expected: Vector3) {
+    expect(actual.distanceTo(expected)).toBeCloseTo(0, 3);
+}
+
+describe('catana/cg-relaxation', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    })
+
+    it('relaxing an overstretched bond', function () {
+        // Strand of 5 nucleotides with one overstretched bond (crossover-like) in the middle
+        const positions = getPositions([[0, 0, 0], [6, 0, 0], [12, 0, 0], [32, 0, 0], [38, 0, 0]]);
+        const bonds = new Uint32Array([0, 1, 1, 2, 2, 3, 3, 4]);
+        const system = new CgRelaxationSystem(positions, bonds, new Uint32Array(0), new Uint32Array(0),
+            DefaultCgRelaxationParameters);
+
+        expect(system.restBackboneLength).toBeCloseTo(6, 5);
+        const initial = system.progress;
+        expect(initial.overstretchedBonds).toBe(1);
+        expect(initial.clashes).toBe(0);
+
+        const final = system.run(500);
+        expect(final.iteration).toBe(500);
+        expect(final.energy).toBeLessThan(initial.energy * 0.01);
+        expect(final.overstretchedBonds).toBe(0);
+        expect(distance(system.positions, 2, 3)).toBeLessThan(7);
+
+        // Nucleotides are only translated
+        for (let i = 0; i < system.count; ++i) {
+            expect(system.positions[i * 6 + 4] - system.positions[i * 6 + 1]).toBeCloseTo(4, 4);
+        }
+    })
+
+    it('resolving clashes', function () {
+        // Two unbonded nucleotides too close to each other, and a bonded pair which must not repel
+        const positions = getPositions([[0, 0, 0], [1, 0, 0], [20, 0, 0], [21, 0, 0]]);
+        const params: CgRelaxationParameters = Object.assign({}, DefaultCgRelaxationParameters, { backboneLength: 1 });
+        const system = new CgRelaxationSystem(positions, new Uint32Array([2, 3]), new Uint32Array(0),
+            new Uint32Array(0), params);
+
+        expect(system.progress.clashes).toBe(1);
+
+        const final = system.run(200);
+        expect(final.clashes).toBe(0);
+        expect(distance(system.positions, 0, 1)).toBeGreaterThanOrEqual(params.exclusionDistance - 0.01);
+        expect(distance(system.positions, 2, 3)).toBeCloseTo(1, 2);
+    })
+
+    it('keeping base pairs', function () {
+        // Two antiparallel strands of 3 nucleotides, paired; the second strand is shifted away
+        const positions = new Float32Array([
+            0, 0, 0, 0, 4, 0,
+            6, 0, 0, 6, 4, 0,
+            12, 0, 0, 12, 4, 0,
+            12, 10, 0, 12, 6, 0,
+            6, 10, 0, 6, 6, 0,
+            0, 10, 0, 0, 6, 0
+        ]);
+        const bonds = new Uint32Array([0, 1, 1, 2, 3, 4, 4, 5]);
+        const pairs = new Uint32Array([0, 5, 1, 4, 2, 3]);
+        const stacks = new Uint32Array([0, 1, 1, 2, 3, 4, 4, 5]);
+        // Disturb the system
+        positions[3 * 6 + 1] += 5;
+        positions[3 * 6 + 4] += 5;
+
+        const system = new CgRelaxationSystem(positions, bonds, pairs, stacks, DefaultCgRelaxationParameters);
+        const initialEnergy = system.progress.energy;
+        const final = system.run(300);
+
+        expect(final.energy).toBeLessThanOrEqual(initialEnergy);
+        expect(final.clashes).toBe(0);
+        expect(final.overstretchedBonds).toBe(0);
+        // Pairs stay close to their (initial) rest length
+        expect(distance(system.positions, 0, 5, 3)).toBeCloseTo(2, 0);
+    })
+
+    it('rotating orientations with the applied positions', function () {
+        const structure = createDuplex("ACGTTGCAAC");
+        const expected = getNucleotides(structure).map(nt => [nt.backboneCenter, nt.nucleobaseCenter,
+            nt.baseNormal, nt.hydrogenFaceDir]);
+        const relaxation = new CgRelaxation(structure);
+
+        // Moving the structure after the relaxation was created, applying the (initial) positions moves it back
+        structure.transform(new Matrix4().makeRotationAxis(new Vector3(1, 2, 3).normalize(), 1).setPosition(5, -3, 2));
+        expect(getNucleotides(structure)[0].baseNormal.distanceTo(expected[0][2])).toBeGreaterThan(0.1);
+        relaxation.applyPositions();
+
+        getNucleotides(structure).forEach((nt, i) => {
+            expectVectorCloseTo(nt.backboneCenter, expected[i][0]);
+            expectVectorCloseTo(nt.nucleobaseCenter, expected[i][1]);
+            expectVectorCloseTo(nt.baseNormal, expected[i][2]);
+            expectVectorCloseTo(nt.hydrogenFaceDir, expected[i][3]);
+        });
+    })
+
+    it('keeping orientations relative to the relaxed nucleotides', function () {
+        const structure = createDuplex("ACGTTGCAAC");
+        const nucleotides = getNucleotides(structure);
+        // Displace one nucleotide so that the relaxation moves it (and its neighbours)
+        nucleotides[4].backboneCenter = nucleotides[4].backboneCenter.add(new Vector3(0, 4, 0));
+
+        const localAngles = (nt: CgNucleotideProxy) => {
+            const dir = nt.nucleobaseCenter.sub(nt.backboneCenter).normalize();
+            return [dir.dot(nt.hydrogenFaceDir), dir.dot(nt.baseNormal), nt.hydrogenFaceDir.dot(nt.baseNormal)];
+        };
+        const initialAngles = nucleotides.map(localAngles);
+        const initialBackbone = nucleotides[4].backboneCenter;
+        const initialNormal = nucleotides[4].baseNormal;
+
+        const relaxation = new CgRelaxation(structure);
+        return relaxation.run(200).then(() => {
+            relaxation.applyPositions();
+
+            const relaxed = getNucleotides(structure);
+            expect(relaxed[4].backboneCenter.distanceTo(initialBackbone)).toBeGreaterThan(0.1);
+            expect(relaxed[4].baseNormal.distanceTo(initialNormal)).toBeGreaterThan(1e-3);
+            relaxed.forEach((nt, i) => {
+                expect(nt.baseNormal.length()).toBeCloseTo(1, 4);
+                expect(nt.hydrogenFaceDir.length()).toBeCloseTo(1, 4);
+                localAngles(nt).forEach((a, j) => expect(a).toBeCloseTo(initialAngles[i][j], 3));
+            });
+        });
+    })
+})
@@ -0,0 +1,113 @@
+import StringStreamer from '../../src/streamer/string-streamer'
+import PdbParser from '../../src/parser/pdb-parser'
+import Structure from '../../src/structure/structure'
+import RadiusFactory from '../../src/utils/radius-factory'
+import { BitArray } from '../../src/utils/bitarray'
+import {
+    CollisionElements,
+    createCollisionElements,
+    detectCollisions,
+    fillCollisionElements
+} from '../../src/catana/dynamics/cpu-collision-algorithm'
+
+import { join } from 'path'
+import * as fs from 'fs'
+import { Box3, Matrix4, Vector3 } from 'three'
+
+function countCollisions(collisions: BitArray): number {
+    let count = 0;
+    collisions.forEach1(() => ++count);
+    return count;
+}
+
+// O(n^2) reference implementation
+function detectCollisionsBruteForce(elements: CollisionElements, box: Box3, lenience: number): BitArray {
+    const n = elements.radii.length;
+    const p = elements.positions;
+    const inBox = (i: number) => box.containsPoint(new Vector3(p[i * 3], p[i * 3 + 1], p[i * 3 + 2])) &&
+        p[i * 3] < box.max.x && p[i * 3 + 1] < box.max.y && p[i * 3 + 2] < box.max.z;
+    const collides: number[] = new Array(n).fill(0);
+    for (let i = 0; i < n; ++i) {
+        if (!inBox(i)) continue;
+        for (let j = 0; j < n && !collides[i]; ++j) {
+            if (i === j || !inBox(j)) continue;
+            if (Array.from(elements.bonds.slice(i * 4, i * 4 + 4)).indexOf(j) !== -1) continue;
+            const minDistance = elements.radii[i] + elements.radii[j] - lenience;
+            const dx = p[j * 3] - p[i * 3], dy = p[j * 3 + 1] - p[i * 3 + 1], dz = p[j * 3 + 2] - p[i * 3 + 2];
+            if (dx * dx + dy * dy + dz * dz < minDistance * minDistance) collides[i] = 1;
+        }
+    }
+    return BitArray.convert(collides);
+}
+
+function getElements(positions: number[], radii: number[], bonds: [number, number][] = []): CollisionElements {
+    const elements = createCollisionElements(radii.length);
+    elements.positions.set(positions);
+    elements.radii.set(radii);
+    const bondCount = new Array(radii.length).fill(0);
+    for (const [a, b] of bonds) {
+        elements.bonds[a * 4 + bondCount[a]++] = b;
+        elements.bonds[b * 4 + bondCount[b]++] = a;
+    }
+    return elements;
+}
+
+describe('catana/collision', function () {
+    it('detecting collisions of simple elements', function () {
+        const elements = getElements([
+            0, 0, 0,  // 0: collides with 1
+            1, 0, 0,  // 1: collides with 0
+            0, 0.5, 0, // 2: bonded to 0 and 1 (no collision)
+            10, 0, 0, // 3: far away from everything
+            11, 0, 0  // 4: touching 3 only (no collision)
+        ], [0.7, 0.7, 0.7, 0.5, 0.5], [[0, 2], [1, 2]]);
+        const box = new Box3(new Vector3(-2, -2, -2), new Vector3(12, 2, 2));
+
+        let collisions = detectCollisions(elements, box, 0);
+        expect(collisions.length).toBe(5);
+        expect([0, 1, 2, 3, 4].map(i => collisions.get(i))).toEqual([true, true, false, false, false]);
+
+        // Lenience makes elements collide less
+        collisions = detectCollisions(elements, box, 0.5);
+        expect(countCollisions(collisions)).toBe(0);
+
+        // Elements outside of the box are ignored
+        collisions = detectCollisions(elements, new Box3(new Vector3(0.5, -2, -2), new Vector3(12, 2, 2)), 0);
+        expect(countCollisions(collisions)).toBe(0);
+    })
+
+    it('detecting collisions of a structure', function () {
+        const file = join(__dirname, "../data/1crn.pdb");
+        const str = fs.readFileSync(file, "utf-8");
+        const streamer = new StringStreamer(str);
+        const pdbParser = new PdbParser(streamer);
+
+        return pdbParser.parse().then(function (structure: Structure) {
+            const rf = new RadiusFactory({ type: "covalent" });
+            const count = structure.atomCount;
+
+            // Two copies of the same structure, the second one shifted
+            const elements = createCollisionElements(count * 2);
+            const shift = new Matrix4().makeTranslation(3, 0, 0);
+            const radiusMin = Math.min(
+                fillCollisionElements(structure, new Matrix4(), 0, rf, elements),
+                fillCollisionElements(structure, shift, count, rf, elements));
+            expect(elements.bonds[count * 4]).toBeGreaterThanOrEqual(count);
+
+            const box = structure.getBoundingBox().union(structure.getBoundingBox().applyMatrix4(shift));
+            box.max.addScalar(radiusMin * 2);
+
+            const clashCounts: [number, number][] = [[0, 251], [0.25, 171], [0.5, 102]];
+            for (const [lenience, clashCount] of clashCounts) {
+                const collisions = detectCollisions(elements, box, lenience);
+                expect(countCollisions(collisions)).toBe(clashCount);
+                expect(collisions.equals(detectCollisionsBruteForce(elements, box, lenience))).toBe(true);
+            }
+
+            // A single copy does not collide with itself
+            const single = createCollisionElements(count);
+            fillCollisionElements(structure, new Matrix4(), 0, rf, single);
+            expect(countCollisions(detectCollisions(single, box, 0))).toBe(0);
+        })
+    })
+})
@@ -0,0 +1,95 @@
+import { Box3, CylinderBufferGeometry, Matrix4, SphereBufferGeometry, Vector3 } from "three";
+import SphereImpostorBuffer from "../../src/buffer/sphereimpostor-buffer";
+import CylinderImpostorBuffer from "../../src/buffer/cylinderimpostor-buffer";
+import { getGltfComponentNode, GltfPrimitive } from "../../src/catana/geometry/gltf-scene";
+
+function getBounds(prim: GltfPrimitive): Box3 {
+    return new Box3().setFromArray(prim.position);
+}
+
+function expectVectorCloseTo(v: Vector3, x: number, y: number, z: number) {
+    expect(v.x).toBeCloseTo(x, 4);
+    expect(v.y).toBeCloseTo(y, 4);
+    expect(v.z).toBeCloseTo(z, 4);
+}
+
+// Buffers only read the usage constant from the WebGL context (jsdom does not provide WebGL)
+if (typeof WebGLRenderingContext === "undefined") {
+    (global as any).WebGLRenderingContext = { DYNAMIC_DRAW: 35048 };
+}
+
+describe('catana/gltf-scene', function () {
+    const params = { sphereSegments: 12, radialSegments: 12 };
+    const sphereVertexCount = new SphereBufferGeometry(1, 12, 8).attributes.position.count;
+    const cylinderVertexCount = new CylinderBufferGeometry(1, 1, 1, 12, 1, true).attributes.position.count;
+    const compMatrix = new Matrix4().makeTranslation(1, 2, 3);
+
+    it('converts sphere impostors', function () {
+        const buffer = new SphereImpostorBuffer({
+            position: new Float32Array([0, 0, 0, 5, 0, 0]),
+            color: new Float32Array([1, 0, 0, 0, 0, 1]),
+            radius: new Float32Array([1, 2])
+        });
+
+        const node = getGltfComponentNode("spheres", compMatrix, [{ name: "spacefill", bufferList: [buffer] }], params);
+        expect(node.matrix!.equals(compMatrix)).toBe(true);
+        expect(node.children.length).toBe(1);
+        expect(node.children[0].name).toBe("spacefill");
+
+        const prims = node.children[0].primitives;
+        expect(prims.length).toBe(1);
+        expect(prims[0].mode).toBe("triangles");
+        expect(prims[0].position.length).toBe(2 * sphereVertexCount * 3);
+        expect(prims[0].normal!.length).toBe(prims[0].position.length);
+        expect(prims[0].color!.length).toBe(prims[0].position.length);
+
+        // Buffer positions are in world space, the node positions relative to the component
+        const bounds = getBounds(prims[0]);
+        expectVectorCloseTo(bounds.min, -2, -4, -5);
+        expectVectorCloseTo(bounds.max, 6, 0, -1);
+
+        expect(Array.from(prims[0].color!.subarray(0, 3))).toEqual([1, 0, 0]);
+        expect(Array.from(prims[0].color!.subarray(sphereVertexCount * 3, sphereVertexCount * 3 + 3))).toEqual([0, 0, 1]);
+    });
+
+    it('converts cylinder impostors', function () {
+        const buffer = new CylinderImpostorBuffer({
+            position1: new Float32Array([0, 0, 0]),
+            position2: new Float32Array([0, 4, 0]),
+            color: new Float32Array([1, 0, 0]),
+            color2: new Float32Array([0, 1, 0]),
+            radius: new Float32Array([0.5])
+        });
+
+        const node = getGltfComponentNode("cylinders", compMatrix, [{ name: "licorice", bufferList: [buffer] }], params);
+        expect(node.matrix!.equals(compMatrix)).toBe(true);
+
+        const prims = node.children[0].primitives;
+        expect(prims.length).toBe(1);
+        // Every cylinder is split into two halves
+        expect(prims[0].position.length).toBe(2 * cylinderVertexCount * 3);
+        expect(prims[0].index!.length).toBe(2 * new CylinderBufferGeometry(1, 1, 1, 12, 1, true).index!.count);
+
+        const bounds = getBounds(prims[0]);
+        expectVectorCloseTo(bounds.min, -1.5, -2, -3.5);
+        expectVectorCloseTo(bounds.max, -0.5, 2, -2.5);
+
+        const half = cylinderVertexCount * 3;
+        const firstHalf = new Box3().setFromArray(prims[0].position.subarray(0, half));
+        expect(firstHalf.max.y).toBeCloseTo(0, 4);
+        expect(Array.from(prims[0].color!.subarray(0, 3))).toEqual([1, 0, 0]);
+        expect(Array.from(prims[0].color!.subarray(half, half + 3))).toEqual([0, 1, 0]);
+    });
+
+    it('skips invisible buffers and empty representations', function () {
+        const buffer = new SphereImpostorBuffer({
+            position: new Float32Array([0, 0, 0]),
+            color: new Float32Array([1, 0, 0]),
+            radius: new Float32Array([1])
+        });
+        buffer.setVisibility(false);
+
+        const node = getGltfComponentNode("hidden", new Matrix4(), [{ name: "spacefill", bufferList: [buffer] }]);
+        expect(node.children.length).toBe(0);
+    });
+});
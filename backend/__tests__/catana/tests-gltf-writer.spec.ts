@@ -0,0 +1,92 @@
+import { Matrix4 } from "three";
+import GltfWriter from "../../src/catana/writer/gltf-writer";
+import { GltfNode } from "../../src/catana/geometry/gltf-scene";
+
+function readJson(bytes: Uint8Array): any {
+    let str = "";
+    bytes.forEach(b => str += String.fromCharCode(b));
+    return JSON.parse(str);
+}
+
+describe('catana/gltf-writer', function () {
+    const scene: GltfNode[] = [{
+        name: "component",
+        matrix: new Matrix4().makeTranslation(1, 2, 3),
+        primitives: [],
+        children: [{
+            name: "cartoon",
+            primitives: [{
+                mode: "triangles",
+                position: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]),
+                normal: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1]),
+                color: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]),
+                index: new Uint32Array([0, 1, 2]),
+                opacity: 1, metalness: 0, roughness: 1
+            }, {
+                mode: "lines",
+                position: new Float32Array([0, 0, 0, 0, 0, -2]),
+                opacity: 0.5, metalness: 0, roughness: 1
+            }],
+            children: []
+        }]
+    }];
+
+    it('GLB', function () {
+        const data = new GltfWriter(scene).getData() as ArrayBuffer;
+        const view = new DataView(data);
+
+        // Header
+        expect(view.getUint32(0, true)).toBe(0x46546C67);
+        expect(view.getUint32(4, true)).toBe(2);
+        expect(view.getUint32(8, true)).toBe(data.byteLength);
+
+        // JSON chunk
+        const jsonLength = view.getUint32(12, true);
+        expect(jsonLength % 4).toBe(0);
+        expect(view.getUint32(16, true)).toBe(0x4E4F534A);
+        const json = readJson(new Uint8Array(data, 20, jsonLength));
+
+        expect(json.asset.version).toBe("2.0");
+        expect(json.scenes[0].nodes).toEqual([0]);
+        expect(json.nodes[0].name).toBe("component");
+        expect(json.nodes[0].matrix.slice(12, 15)).toEqual([1, 2, 3]);
+        expect(json.nodes[0].children).toEqual([1]);
+        expect(json.nodes[1].mesh).toBe(0);
+
+        const primitives = json.meshes[0].primitives;
+        expect(primitives.map((p: any) => p.mode)).toEqual([4, 1]);
+        expect(primitives[0].attributes.COLOR_0).toBeDefined();
+        expect(primitives[1].attributes.NORMAL).toBeUndefined();
+        expect(json.materials.length).toBe(2);
+        expect(json.materials[1].alphaMode).toBe("BLEND");
+
+        const position = json.accessors[primitives[0].attributes.POSITION];
+        expect(position.count).toBe(3);
+        expect(position.min).toEqual([0, 0, 0]);
+        expect(position.max).toEqual([1, 1, 0]);
+
+        // Binary chunk
+        const binOffset = 20 + jsonLength;
+        const binLength = view.getUint32(binOffset, true);
+        expect(view.getUint32(binOffset + 4, true)).toBe(0x004E4942);
+        expect(binLength).toBe(json.buffers[0].byteLength);
+        expect(binOffset + 8 + binLength).toBe(data.byteLength);
+
+        const bin = new DataView(data, binOffset + 8, binLength);
+        const colorView = json.bufferViews[json.accessors[primitives[0].attributes.COLOR_0].bufferView];
+        expect(bin.getFloat32(colorView.byteOffset + 16, true)).toBe(1); // green of the second vertex
+
+        const indexAccessor = json.accessors[primitives[0].indices];
+        expect(indexAccessor.componentType).toBe(5125);
+        expect(bin.getUint32(json.bufferViews[indexAccessor.bufferView].byteOffset + 8, true)).toBe(2);
+
+        const linePosition = json.accessors[primitives[1].attributes.POSITION];
+        expect(bin.getFloat32(json.bufferViews[linePosition.bufferView].byteOffset + 20, true)).toBe(-2);
+    })
+
+    it('JSON', function () {
+        const json = JSON.parse(new GltfWriter(scene, { binary: false }).getData() as string);
+        expect(json.buffers[0].uri.startsWith("data:application/octet-stream;base64,")).toBe(true);
+        expect(json.nodes.length).toBe(2);
+    })
+})
@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+import { join } from 'path'
+import * as fs from 'fs'
+import * as os from 'os'
+
+import {
+    buildDsDna, buildPeptide, CgStructure, CliIo, exportStructures, loadStructures, parseData, runCli, Structure
+} from '../../src/catana-headless'
+
+function dataPath(fileName: string) {
+    return join(__dirname, '../data/' + fileName);
+}
+
+function createIo() {
+    const io = {
+        out: [] as string[],
+        err: [] as string[],
+        files: new Map<string, string>(),
+    };
+    const cliIo: CliIo = {
+        print: text => io.out.push(text),
+        printError: text => io.err.push(text),
+        writeFile: (path, content) => io.files.set(path, content)
+    };
+    return { io, cliIo };
+}
+
+describe('catana/headless', function () {
+    it('builds dsDNA and peptide', function () {
+        const peptide = buildPeptide("MKV");
+        expect(peptide.aaChains.length).toBe(1);
+        expect(peptide.aaChains[0].length).toBe(3);
+
+        return buildDsDna("GATTACA").then(cgStructure => {
+            expect(cgStructure.naStrands.length).toBe(2);
+            expect(cgStructure.naStrands[0].sequence.join("")).toBe("GATTACA");
+            expect(cgStructure.naStrands[1].sequence.join("")).toBe("TGTAATC");
+            expect(cgStructure.naStrands[0].fivePrime!.pairedNucleotide).toBeDefined();
+        });
+    })
+
+    it('loads PDB and exports UNF and mmCIF', function () {
+        return loadStructures(dataPath('1crn.pdb')).then(objects => {
+            expect(objects.length).toBe(1);
+            expect(objects[0]).toBeInstanceOf(Structure);
+            expect((objects[0] as Structure).atomCount).toBe(327);
+
+            return Promise.all([exportStructures(objects, "unf"), exportStructures(objects, "cif")]);
+        }).then(([unf, cif]) => {
+            return Promise.all([parseData(unf, "unf"), parseData(cif, "cif")]);
+        }).then(([fromUnf, fromCif]) => {
+            expect((fromUnf[0] as Structure).atomCount).toBe(327);
+            expect((fromCif[0] as Structure).atomCount).toBe(327);
+        });
+    })
+
+    it('converts coarse-grained structure to PDB', function () {
+        return buildDsDna("ACGT").then(cgStructure => exportStructures([cgStructure], "pdb")).then(pdb => {
+            return parseData(pdb, "pdb");
+        }).then(objects => {
+            const structure = objects[0] as Structure;
+            expect(structure.chainStore.count).toBe(2);
+            expect(structure.residueStore.count).toBe(8);
+        });
+    })
+
+    it('CLI build commands', function () {
+        const { io, cliIo } = createIo();
+
+        return runCli(["build-dsdna", "ACGTACGT", "-o", "ds.unf"], cliIo).then(code => {
+            expect(code).toBe(0);
+            return parseData(io.files.get("ds.unf")!, "unf");
+        }).then(objects => {
+            expect(objects.length).toBe(1);
+            expect((objects[0] as CgStructure).naStrands.length).toBe(2);
+            expect((objects[0] as CgStructure).naStrands[0].sequence.join("")).toBe("ACGTACGT");
+
+            return runCli(["build-peptide", "MKVLA"], cliIo);
+        }).then(code => {
+            expect(code).toBe(0);
+            return parseData(io.out[0], "unf");
+        }).then(objects => {
+            expect((objects[0] as CgStructure).aaChains[0].length).toBe(5);
+        });
+    })
+
+    it('CLI convert', function () {
+        const { io, cliIo } = createIo();
+        const dir = fs.mkdtempSync(join(os.tmpdir(), "catana-"));
+        const input = join(dir, "duplex.unf");
+        const output = join(dir, "duplex.pdb");
+
+        return runCli(["build-dsdna", "GGCC", "-o", input]).then(code => {
+            expect(code).toBe(0);
+            return runCli(["convert", input, output]);
+        }).then(code => {
+            expect(code).toBe(0);
+            return loadStructures(output);
+        }).then(objects => {
+            expect((objects[0] as Structure).residueStore.count).toBe(8);
+            return runCli(["convert", dataPath('1crn.pdb'), "crn.unf", "--cg"], cliIo);
+        }).then(code => {
+            expect(code).toBe(0);
+            expect(io.err).toEqual([]);
+            return parseData(io.files.get("crn.unf")!, "unf");
+        }).then(objects => {
+            expect(objects[0]).toBeInstanceOf(CgStructure);
+            expect((objects[0] as CgStructure).aaChains[0].length).toBe(46);
+            [input, output].forEach(f => fs.unlinkSync(f));
+            fs.rmdirSync(dir);
+        });
+    })
+
+    it('CLI run', function () {
+        const { io, cliIo } = createIo();
+        const dir = fs.mkdtempSync(join(os.tmpdir(), "catana-"));
+        const script = join(dir, "duplex.jspy");
+
+        fs.writeFileSync(script, [
+            "s = buildDsDna(seq)",
+            "log('Built ' + s.name)",
+            "writeFile('duplex.pdb', exportStructures([s], 'pdb'))",
+            "return {'structure': s, 'length': len(seq)}"
+        ].join("\n"));
+
+        return runCli(["run", script, "seq=ACGT"], cliIo).then(code => {
+            expect(code).toBe(0);
+            expect(io.err).toEqual([]);
+            expect(JSON.parse(io.out[0])).toEqual({
+                exitCode: 0,
+                returnValue: {
+                    structure: { type: "cg-structure", name: "dsDNA", polymerCount: 2, monomerCount: 8 },
+                    length: 4
+                },
+                log: ["Built dsDNA"]
+            });
+            expect(io.files.get("duplex.pdb")).toContain("ATOM");
+            return runCli(["run", script, "-o", "result.json"], cliIo);
+        }).then(code => {
+            expect(code).toBe(1);
+            expect(JSON.parse(io.files.get("result.json")!).exitCode).toBe(1);
+            expect(io.err[0]).toContain("Error: ");
+            return runCli(["run", script, "seq"], cliIo);
+        }).then(code => {
+            expect(code).toBe(2);
+            expect(io.err[1]).toContain("Invalid script argument: seq");
+            fs.unlinkSync(script);
+            fs.rmdirSync(dir);
+        });
+    })
+
+    it('CLI errors', function () {
+        const { io, cliIo } = createIo();
+
+        const codes: number[] = [];
+        const commands = [
+            ["convert", "only-input.pdb"],
+            ["unknown"],
+            ["build-dsdna", "ACGT", "-o", "out.xyz"],
+            ["convert", dataPath("missing.pdb"), "out.pdb"]
+        ];
+
+        return commands.reduce((p, args) => p.then(() => runCli(args, cliIo)).then(code => {
+            codes.push(code);
+        }), Promise.resolve()).then(() => {
+            expect(codes).toEqual([1, 1, 1, 1]);
+            expect(io.err[0]).toContain("Usage: catana convert");
+            expect(io.err[1]).toContain("Unknown command: unknown");
+            expect(io.err[2]).toContain("Unsupported output format: xyz");
+            expect(io.err[3]).toMatch(/^Error: ENOENT/);
+            expect(io.files.size).toBe(0);
+        });
+    })
+})
@@ -0,0 +1,124 @@
+import NucleicAcidStructuresProvider from "../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import DnaFactory from "../../src/catana/nanomodeling/dna-factory";
+import CgStructure from "../../src/catana/data_model/cg-structure";
+import { NucleobaseType } from "../../src/catana/data_model/types_declarations/monomer-types";
+import { BDnaIdealisticForm, BDnaSequenceDependentForm, DnaForm } from "../../src/catana/nanomodeling/dna-forms";
+import { getDinucleotideStepParams, Olson1998StepParams } from "../../src/catana/nanomodeling/dinucleotide-step-params";
+import { computeHelicalParameters, createHelicalParametersCsv } from "../../src/catana/nanomodeling/helical-parameters";
+import { generateAtomisticStructure } from "../../src/catana/nanomodeling/atom-generation";
+
+function addDuplex(structure: CgStructure, sequence: string, form: DnaForm): void {
+    const factory = new DnaFactory();
+    factory.dnaForm = form;
+    const strand = factory.buildHelixFromSequence(sequence)!;
+    structure.addNaStrand(strand);
+    structure.addNaStrand(factory.buildComplementaryHelix(strand));
+}
+
+describe('catana/helical-parameters', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    });
+
+    it('analyzes idealistic double helix', function () {
+        const structure = new CgStructure(0, "ideal");
+        addDuplex(structure, "A".repeat(21), BDnaIdealisticForm);
+
+        const helices = computeHelicalParameters(structure);
+        expect(helices.length).toBe(1);
+        expect(helices[0].basePairs.length).toBe(21);
+        expect(helices[0].steps.length).toBe(20);
+
+        helices[0].basePairs.forEach(bp => {
+            expect(bp.name).toBe("A-T");
+            expect(bp.shear).toBeCloseTo(0, 2);
+            expect(bp.buckle).toBeCloseTo(0, 2);
+            expect(bp.propeller).toBeCloseTo(0, 2);
+            expect(bp.opening).toBeCloseTo(0, 2);
+            if (bp.minorGrooveWidth !== null) {
+                expect(bp.minorGrooveWidth).toBeLessThan(bp.majorGrooveWidth!);
+            }
+        });
+        expect(helices[0].basePairs.filter(bp => bp.minorGrooveWidth !== null).length).toBe(13);
+
+        helices[0].steps.forEach(s => {
+            expect(s.name).toBe("AA/TT");
+            expect(s.rise).toBeCloseTo(BDnaIdealisticForm.defaultBaseParams.baseRise, 2);
+            expect(s.twist).toBeCloseTo(BDnaIdealisticForm.defaultBaseParams.baseTwist, 2);
+            expect(s.roll).toBeCloseTo(0, 2);
+            expect(s.axisBend ?? 0).toBeCloseTo(0, 2);
+        });
+        expect(helices[0].steps[0].axisBend).toBeNull();
+    });
+
+    it('recovers dinucleotide step parameters of sequence-dependent geometry', function () {
+        const structure = new CgStructure(0, "curved");
+        const sequence = "CGCAAAAAACGCATGCAACGTCATCG";
+        addDuplex(structure, sequence, BDnaSequenceDependentForm);
+
+        const steps = computeHelicalParameters(structure)[0].steps;
+        expect(steps.length).toBe(sequence.length - 1);
+
+        steps.forEach((s, i) => {
+            const p = getDinucleotideStepParams(Olson1998StepParams, sequence[i] as NucleobaseType, sequence[i + 1] as NucleobaseType)!;
+            expect(s.shift).toBeCloseTo(p.baseShift, 2);
+            expect(s.slide).toBeCloseTo(p.baseSlide, 2);
+            expect(s.rise).toBeCloseTo(p.baseRise, 2);
+            expect(s.tilt).toBeCloseTo(p.baseTilt, 2);
+            expect(s.roll).toBeCloseTo(p.baseRoll, 2);
+            expect(s.twist).toBeCloseTo(p.baseTwist, 2);
+        });
+    });
+
+    it('analyzes all-atom double helix', function () {
+        const structure = new CgStructure(0, "all-atom");
+        addDuplex(structure, "CGCAAAAAACGCATGCAACG", BDnaSequenceDependentForm);
+        const cgHelix = computeHelicalParameters(structure)[0];
+
+        return generateAtomisticStructure(structure).then(atomistic => {
+            const helices = computeHelicalParameters(atomistic);
+            expect(helices.length).toBe(1);
+
+            const helix = helices[0];
+            expect(helix.basePairs.map(bp => bp.name)).toEqual(cgHelix.basePairs.map(bp => bp.name));
+            expect(helix.steps.length).toBe(cgHelix.steps.length);
+            helix.steps.forEach((s, i) => {
+                expect(s.name).toBe(cgHelix.steps[i].name);
+                expect(s.rise).toBeCloseTo(cgHelix.steps[i].rise, 2);
+                expect(s.twist).toBeCloseTo(cgHelix.steps[i].twist, 2);
+            });
+
+            // Backbone centers of the all-atom nucleotides are the centroids of their backbone atoms
+            // which deviate from the coarse-grained backbone centers by up to about 1.3 angstrom
+            helix.basePairs.forEach((bp, i) => {
+                const cgBp = cgHelix.basePairs[i];
+                if (cgBp.minorGrooveWidth === null) {
+                    expect(bp.minorGrooveWidth).toBeNull();
+                    expect(bp.majorGrooveWidth).toBeNull();
+                } else {
+                    expect(Math.abs(bp.minorGrooveWidth! - cgBp.minorGrooveWidth)).toBeLessThan(2);
+                    expect(Math.abs(bp.majorGrooveWidth! - cgBp.majorGrooveWidth!)).toBeLessThan(2);
+                }
+            });
+            expect(helix.basePairs.filter(bp => bp.minorGrooveWidth !== null).length).toBe(12);
+        });
+    });
+
+    it('splits structure into helices and exports CSV', function () {
+        const structure = new CgStructure(0, "two helices");
+        addDuplex(structure, "ACGTACGTAC", BDnaIdealisticForm);
+        addDuplex(structure, "GGGCCC", BDnaIdealisticForm);
+        structure.addNaStrand(new DnaFactory().buildHelixFromSequence("TTTT")!);
+
+        const helices = computeHelicalParameters(structure);
+        expect(helices.map(h => h.basePairs.length)).toEqual([10, 6]);
+        expect(helices[1].steps[0].name).toBe("GG/CC");
+
+        const lines = createHelicalParametersCsv(helices).trim().split("\n");
+        expect(lines.length).toBe(17);
+        expect(lines[0].split(",").length).toBe(22);
+        expect(lines[1].startsWith("1," + helices[0].strandName + "," + helices[0].complementaryStrandName + ",1,1,A-T,")).toBe(true);
+        // The last base-pair of a helix has no step and no groove widths
+        expect(lines[10].split(",").slice(12)).toEqual(new Array(10).fill(""));
+    });
+});
@@ -0,0 +1,131 @@
+import { indexOxDnaTrajectory, isOxDnaTopology, parseOxDnaConfiguration, parseOxDnaTopology, writeOxDnaConfiguration, writeOxDnaTopology } from "../../src/catana/parsers/oxdna-format";
+import OxDnaParser from "../../src/catana/parsers/oxdna-parser";
+import StringStreamer from "../../src/streamer/string-streamer";
+import Structure from "../../src/structure/structure";
+import CgStructure from "../../src/catana/data_model/cg-structure";
+import MultiObjectsStorage from "../../src/catana/utils/multi-objects-storage";
+
+import { join } from 'path'
+import * as fs from 'fs'
+
+function loadFile(fileName: string) {
+    return fs.readFileSync(join(__dirname, '../data/' + fileName), 'utf-8');
+}
+
+describe('catana/oxdna-parser', function () {
+    it('classic topology', function () {
+        const topology = parseOxDnaTopology(loadFile('oxdna_duplex.top'));
+
+        expect(topology.nucleotideCount).toBe(8);
+        expect(topology.strands.length).toBe(2);
+
+        // Nucleotides are listed from 3' to 5' in the file
+        expect(topology.strands[0].sequence.join("")).toBe("ATGC");
+        expect(topology.strands[0].nucleotideIndices).toEqual([3, 2, 1, 0]);
+        expect(topology.strands[0].isCircular).toBe(false);
+        expect(topology.strands[0].isRna).toBe(false);
+        expect(topology.strands[1].sequence.join("")).toBe("GCAT");
+        expect(topology.strands[1].nucleotideIndices).toEqual([7, 6, 5, 4]);
+    })
+
+    it('new-style topology', function () {
+        const topology = parseOxDnaTopology(loadFile('oxdna_duplex_new.top'));
+
+        expect(topology.nucleotideCount).toBe(8);
+        expect(topology.strands[0].sequence.join("")).toBe("ATGC");
+        expect(topology.strands[0].nucleotideIndices).toEqual([0, 1, 2, 3]);
+        expect(topology.strands[0].isCircular).toBe(false);
+        expect(topology.strands[1].sequence.join("")).toBe("GCAT");
+        expect(topology.strands[1].nucleotideIndices).toEqual([4, 5, 6, 7]);
+        expect(topology.strands[1].isCircular).toBe(true);
+
+        const custom = parseOxDnaTopology("5 1 5->3\nAC(X)GU\n");
+        expect(custom.strands[0].sequence).toEqual(["A", "C", "N", "G", "U"]);
+        expect(custom.strands[0].isRna).toBe(true);
+    })
+
+    it('invalid topology', function () {
+        expect(() => parseOxDnaTopology("")).toThrow();
+        expect(() => parseOxDnaTopology("3 1\n1 A -1 1\n1 T 0 -1\n")).toThrow();
+        expect(() => parseOxDnaTopology("2 2 5->3\nAT\n")).toThrow();
+    })
+
+    it('writing topology', function () {
+        const topology = parseOxDnaTopology(loadFile('oxdna_duplex.top'));
+        expect(writeOxDnaTopology(topology.strands)).toBe(loadFile('oxdna_duplex.top'));
+
+        const newStyle = parseOxDnaTopology(loadFile('oxdna_duplex_new.top'));
+        expect(writeOxDnaTopology(newStyle.strands, true)).toBe(loadFile('oxdna_duplex_new.top'));
+
+        // Circular strands are preserved in the classic format as well
+        const reparsed = parseOxDnaTopology(writeOxDnaTopology(newStyle.strands));
+        expect(reparsed.strands[1].isCircular).toBe(true);
+        expect(reparsed.strands[1].nucleotideIndices.length).toBe(4);
+    })
+
+    it('configuration', function () {
+        const conf = parseOxDnaConfiguration(loadFile('oxdna_duplex.dat'));
+
+        expect(conf.time).toBe(100);
+        expect(conf.box).toEqual([20, 20, 20]);
+        expect(conf.energy).toEqual([-1.5, -1.6, 0.1]);
+        expect(conf.nucleotides.length).toBe(8);
+        expect(conf.nucleotides[1].position).toEqual([0.495201, 0.338785, 0.39]);
+        expect(conf.nucleotides[1].a1).toEqual([-0.825336, -0.564642, 0]);
+        expect(conf.nucleotides[4].a3).toEqual([0, 0, -1]);
+
+        expect(parseOxDnaConfiguration(writeOxDnaConfiguration(conf))).toEqual(conf);
+
+        // Only the first configuration of a trajectory is read
+        const trajectory = loadFile('oxdna_duplex.dat') + loadFile('oxdna_duplex.dat');
+        expect(parseOxDnaConfiguration(trajectory).nucleotides.length).toBe(8);
+    })
+
+    it('trajectory', function () {
+        const conf = parseOxDnaConfiguration(loadFile('oxdna_duplex.dat'));
+        const second = writeOxDnaConfiguration(Object.assign({}, conf, { time: 200 }));
+        const trajectory = loadFile('oxdna_duplex.dat') + second;
+
+        const ranges = indexOxDnaTrajectory(trajectory);
+        expect(ranges.length).toBe(2);
+        expect(ranges[1][1]).toBe(trajectory.length);
+
+        const frames = ranges.map(r => parseOxDnaConfiguration(trajectory.substring(r[0], r[1])));
+        expect(frames[0].time).toBe(100);
+        expect(frames[1].time).toBe(200);
+        expect(frames[1].nucleotides).toEqual(conf.nucleotides);
+
+        expect(indexOxDnaTrajectory("")).toEqual([]);
+    })
+
+    it('GROMACS topology fallback', function () {
+        const gromacsTopology = "; water\n[ moleculetype ]\nSOL 2\n\n[ atoms ]\n" +
+            "1 OW 1 SOL OW 1 -0.834\n2 HW 1 SOL HW1 1 0.417\n3 HW 1 SOL HW2 1 0.417\n\n" +
+            "[ bonds ]\n1 2\n1 3\n\n[ system ]\nWater\n\n[ molecules ]\nSOL 2\n";
+
+        expect(isOxDnaTopology(loadFile('oxdna_duplex.top'))).toBe(true);
+        expect(isOxDnaTopology(loadFile('oxdna_duplex_new.top'))).toBe(true);
+        expect(isOxDnaTopology(gromacsTopology)).toBe(false);
+        expect(isOxDnaTopology("")).toBe(false);
+
+        const gromacsStreamer = new StringStreamer(gromacsTopology);
+        const oxDnaStreamer = new StringStreamer(loadFile('oxdna_duplex.top'));
+        const reads = [jest.spyOn(gromacsStreamer, "read"), jest.spyOn(oxDnaStreamer, "read")];
+
+        const gromacs = new OxDnaParser(gromacsStreamer, { name: "water" }).parse();
+        const oxDna = new OxDnaParser(oxDnaStreamer, { name: "duplex", configuration: loadFile('oxdna_duplex.dat') }).parse();
+
+        return Promise.all([gromacs, oxDna]).then(([structure, storage]) => {
+            // Streamers are read only once (for both the detection and the parsing)
+            reads.forEach(read => expect(read).toHaveBeenCalledTimes(1));
+
+            expect(structure).toBeInstanceOf(Structure);
+            expect(structure.atomCount).toBe(6);
+            expect(structure.bondCount).toBe(4);
+
+            expect(storage).toBeInstanceOf(MultiObjectsStorage);
+            expect(storage.storedObjects[0]).toBeInstanceOf(CgStructure);
+            expect(storage.storedObjects[0].naStrandsCount).toBe(2);
+        });
+    })
+})
@@ -0,0 +1,122 @@
+import { Vector3 } from "three";
+import NucleicAcidStructuresProvider from "../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import { HoneycombLattice } from "../../src/catana/nanomodeling/lattices/honeycomb-lattice";
+import { SquareLattice } from "../../src/catana/nanomodeling/lattices/square-lattice";
+import LatticeLocator from "../../src/catana/nanomodeling/lattices/lattice-locator";
+import CgNucleicAcidStrand from "../../src/catana/data_model/cg-nucleic-acid-strand";
+import { generateScaffoldRouting, getScaffoldRoutingSummary } from "../../src/catana/nanomodeling/scaffold-routing";
+import { autoStaple } from "../../src/catana/nanomodeling/auto-staple";
+
+/**
+ * @returns distances between the backbones of consecutive nucleotides on different helices
+ */
+function crossoverDistances(scaffold: CgNucleicAcidStrand, locator: LatticeLocator): number[] {
+    const result: number[] = [];
+    let prevCell = "";
+    let prevBackbone: Vector3 | null = null;
+
+    const visit = (i: number) => {
+        const nt = scaffold.getNucleotideProxy(i % scaffold.length)!;
+        const loc = locator.locate(nt.nucleobaseCenter, nt.baseNormal)!;
+        const cell = loc.row + ":" + loc.col;
+        if (prevBackbone && cell !== prevCell) {
+            result.push(nt.backboneCenter.distanceTo(prevBackbone));
+        }
+        prevCell = cell;
+        prevBackbone = nt.backboneCenter.clone();
+    };
+
+    for (let i = 0; i < scaffold.length; ++i) {
+        visit(i);
+    }
+    if (scaffold.isCircular) {
+        visit(scaffold.length);
+    }
+
+    return result;
+}
+
+describe('catana/scaffold-routing', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    })
+
+    it('cyclic square routing', function () {
+        const lattice = new SquareLattice(2, 2);
+        const locator = new LatticeLocator(lattice);
+
+        // Cells are reordered so that the consecutive ones are neighbours
+        const result = generateScaffoldRouting(lattice,
+            [{ row: 0, col: 0 }, { row: 1, col: 1 }, { row: 0, col: 1 }, { row: 1, col: 0 }],
+            { helixLength: 64, isCircular: true, scaffoldLength: 7249 });
+
+        expect(result.error).toBeUndefined();
+        expect(result.cells.length).toBe(4);
+        result.cells.forEach((c, i) => {
+            const next = result.cells[(i + 1) % 4];
+            expect(Math.abs(c.row - next.row) + Math.abs(c.col - next.col)).toBe(1);
+        });
+
+        const scaffold = result.scaffold!;
+        expect(scaffold.isScaffold).toBe(true);
+        expect(scaffold.isCircular).toBe(true);
+        expect(result.structure!.naStrands).toEqual([scaffold]);
+        expect(result.crossoverCount).toBe(4);
+
+        // Helices are shortened by less than one turn at each end
+        expect(scaffold.length).toBeLessThanOrEqual(4 * 64);
+        expect(scaffold.length).toBeGreaterThan(4 * (64 - 2 * 11));
+        expect(result.unusedBases).toBe(7249 - scaffold.length);
+        expect(result.missingBases).toBe(0);
+
+        // Backbones of the crossing-over nucleotides point towards each other
+        const distances = crossoverDistances(scaffold, locator);
+        expect(distances.length).toBe(4);
+        distances.forEach(d => expect(d).toBeLessThan(8));
+
+        expect(getScaffoldRoutingSummary(result)).toContain((7249 - scaffold.length) + " bases of the scaffold sequence");
+    })
+
+    it('linear honeycomb routing', function () {
+        const lattice = new HoneycombLattice(3, 1);
+        const locator = new LatticeLocator(lattice);
+
+        const result = generateScaffoldRouting(lattice, [{ row: 0, col: 1 }, { row: 0, col: 0 }, { row: 0, col: 2 }],
+            { helixLength: 42, isCircular: false, scaffoldLength: 90 });
+
+        // Route has to start at one of the outer cells
+        expect(result.cells[1]).toEqual({ row: 0, col: 1 });
+        expect(result.crossoverCount).toBe(2);
+        expect(result.missingBases).toBe(result.scaffold!.length - 90);
+        expect(getScaffoldRoutingSummary(result)).toContain("bases short");
+
+        const distances = crossoverDistances(result.scaffold!, locator);
+        expect(distances.length).toBe(2);
+        distances.forEach(d => expect(d).toBeLessThan(8));
+
+        // Generated scaffold can be stapled right away
+        const stapling = autoStaple(result.scaffold!, lattice, { minLength: 10, maxLength: 50 });
+        expect(stapling.unalignedScaffoldNucleotides).toBe(0);
+        expect(stapling.crossoverCount).toBeGreaterThan(0);
+        expect(stapling.staples.reduce((sum, s) => sum + s.length, 0)).toBe(result.scaffold!.length);
+    })
+
+    it('invalid input', function () {
+        const lattice = new SquareLattice(3, 3);
+
+        expect(generateScaffoldRouting(lattice, [], { helixLength: 64 }).error).toBeDefined();
+        expect(generateScaffoldRouting(lattice, [{ row: 0, col: 0 }, { row: 0, col: 1 }], { helixLength: 16 }).error)
+            .toContain("at least 22");
+
+        // Cyclic scaffold needs an even number of helices, linear one a continuous path
+        const odd = generateScaffoldRouting(lattice, [{ row: 0, col: 0 }, { row: 0, col: 1 }, { row: 0, col: 2 }],
+            { helixLength: 32, isCircular: true });
+        expect(odd.structure).toBeNull();
+        expect(odd.error).toContain("cyclic");
+
+        const disconnected = generateScaffoldRouting(lattice, [{ row: 0, col: 0 }, { row: 2, col: 2 }],
+            { helixLength: 32, isCircular: false });
+        expect(disconnected.scaffold).toBeNull();
+        expect(getScaffoldRoutingSummary(disconnected)).toContain("failed");
+    })
+})
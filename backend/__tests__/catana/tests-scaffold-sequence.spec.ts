@@ -0,0 +1,72 @@
+import { assignScaffoldSequence, BuiltInScaffolds, getBuiltInScaffold, parseFastaSequence, ScaffoldSequenceRecord, validateBuiltInScaffoldSequence } from "../../src/catana/nanomodeling/scaffold-sequence";
+import { NucleobaseType } from "../../src/catana/data_model/types_declarations/monomer-types";
+import { NucleicAcidType } from "../../src/catana/data_model/types_declarations/polymer-types";
+
+// Minimal stand-ins of strands and nucleotides providing the members used by the assignment
+function createStrand(length: number, naType: NucleicAcidType = NucleicAcidType.DNA): any {
+    const strand: any = { naType: naType, length: length, nucleotides: [] };
+    for (let i = 0; i < length; ++i) {
+        strand.nucleotides.push({ parentStrand: strand, pairedNucleotide: null, nucleobaseType: NucleobaseType.ANY });
+    }
+    strand.forEachNucleotide = (cb: (nt: any, i: number) => void) => strand.nucleotides.forEach(cb);
+    return strand;
+}
+
+function pair(a: any, b: any) {
+    a.pairedNucleotide = b;
+    b.pairedNucleotide = a;
+}
+
+function sequenceOf(strand: any): string {
+    return strand.nucleotides.map((nt: any) => nt.nucleobaseType).join("");
+}
+
+describe('catana/scaffold-sequence', function () {
+    it('FASTA parsing', function () {
+        expect(parseFastaSequence(">scaffold\n; comment\nacgt\r\nAC GT\n")).toEqual([
+            NucleobaseType.A, NucleobaseType.C, NucleobaseType.G, NucleobaseType.T,
+            NucleobaseType.A, NucleobaseType.C, NucleobaseType.G, NucleobaseType.T
+        ]);
+        expect(parseFastaSequence("")).toEqual([]);
+    })
+
+    it('built-in scaffolds', function () {
+        BuiltInScaffolds.forEach(s => expect(getBuiltInScaffold(s.name.toUpperCase())).toBe(s));
+        expect(getBuiltInScaffold("p1234")).toBeUndefined();
+
+        const record: ScaffoldSequenceRecord = { name: "test", description: "Test scaffold", length: 10, path: "test.fasta" };
+        const seq = parseFastaSequence("ACGTACGTAC");
+        expect(() => validateBuiltInScaffoldSequence(record, seq)).not.toThrow();
+        expect(() => validateBuiltInScaffoldSequence(record, seq.slice(1))).toThrow(/nt were expected/);
+        expect(() => validateBuiltInScaffoldSequence(record, [NucleobaseType.ANY, ...seq.slice(1)])).toThrow(/position 1/);
+    })
+
+    it('assignment propagates to staples', function () {
+        const scaffold = createStrand(6);
+        const stapleDna = createStrand(4);
+        const stapleRna = createStrand(2, NucleicAcidType.RNA);
+        pair(scaffold.nucleotides[0], stapleDna.nucleotides[3]);
+        pair(scaffold.nucleotides[1], stapleDna.nucleotides[2]);
+        pair(scaffold.nucleotides[2], stapleDna.nucleotides[1]);
+        pair(scaffold.nucleotides[4], stapleRna.nucleotides[1]);
+        pair(scaffold.nucleotides[5], stapleRna.nucleotides[0]);
+
+        const result = assignScaffoldSequence(scaffold, parseFastaSequence("ACGTA"), {
+            startIndex: 1, fillerBase: NucleobaseType.G
+        });
+
+        // Sequence starts at the second nucleotide and wraps around, the first position is filled
+        expect(sequenceOf(scaffold)).toBe("GACGTA");
+        expect(sequenceOf(stapleDna)).toBe("GGTC");
+        expect(sequenceOf(stapleRna)).toBe("UA");
+        expect(result).toEqual({ scaffoldFilled: 1, sequenceUnused: 0, staplesCount: 2, staplesFilled: 1 });
+    })
+
+    it('start index and long sequences', function () {
+        const scaffold = createStrand(3);
+        const result = assignScaffoldSequence(scaffold, parseFastaSequence("ACGTT"), { startIndex: -1 });
+
+        expect(sequenceOf(scaffold)).toBe("CGA");
+        expect(result).toEqual({ scaffoldFilled: 0, sequenceUnused: 2, staplesCount: 0, staplesFilled: 0 });
+    })
+})
@@ -0,0 +1,75 @@
+/**
+ * @jest-environment node
+ */
+import { Vector3 } from 'three'
+
+import {
+    parseScriptArguments, runJsPyScript, ScriptExitCode, splitCommandLine
+} from '../../src/catana/scripting/script-runner'
+import { toJsonValue } from '../../src/catana/utils/json-utils'
+
+describe('catana/script-runner', function () {
+    it('returns value and log', function () {
+        const script = [
+            "log('Hello ' + name)",
+            "log(n * 2)",
+            "return {'length': len(name), 'n': n}"
+        ].join("\n");
+
+        return runJsPyScript(script, { namedArgs: { name: "Catana", n: 21 } }).then(result => {
+            expect(result.exitCode).toBe(ScriptExitCode.SUCCESS);
+            expect(result.returnValue).toEqual({ length: 6, n: 21 });
+            expect(result.log).toEqual(["Hello Catana", 42]);
+            expect(result.error).toBeUndefined();
+        });
+    });
+
+    it('calls additional functions', function () {
+        return runJsPyScript("return double(x)", {
+            namedArgs: { x: 4 },
+            functions: { double: (v: number) => Promise.resolve(v * 2) }
+        }).then(result => {
+            expect(result.exitCode).toBe(ScriptExitCode.SUCCESS);
+            expect(result.returnValue).toBe(8);
+        });
+    });
+
+    it('reports errors', function () {
+        return runJsPyScript("log('before')\nx = undefinedFunction(1)").then(result => {
+            expect(result.exitCode).toBe(ScriptExitCode.SCRIPT_ERROR);
+            expect(result.returnValue).toBeNull();
+            expect(result.log).toEqual(["before"]);
+            expect(result.error).toContain("undefinedFunction");
+            return runJsPyScript("return 1", { namedArgs: { stage: 1 } });
+        }).then(result => {
+            expect(result.exitCode).toBe(ScriptExitCode.INVALID_INPUT);
+            expect(result.error).toContain("stage");
+        });
+    });
+
+    it('parses arguments', function () {
+        expect(parseScriptArguments(["seq=ACGT", "n=5", "flag=true", "pos=[1,2,3]", "text=a=b"])).toEqual({
+            seq: "ACGT", n: 5, flag: true, pos: [1, 2, 3], text: "a=b"
+        });
+        expect(() => parseScriptArguments(["seq"])).toThrow("Invalid script argument: seq");
+        expect(() => parseScriptArguments(["1n=5"])).toThrow();
+        expect(() => parseScriptArguments(["args=5"])).toThrow();
+        expect(splitCommandLine("run  design.jspy name=\"O'Brien\" 'text=say \"hi\"' seq=\"AC GT\"")).toEqual([
+            "run", "design.jspy", "name=O'Brien", "text=say \"hi\"", "seq=AC GT"
+        ]);
+        expect(splitCommandLine("")).toEqual([]);
+    });
+
+    it('converts values to JSON', function () {
+        const cyclic: any = { a: 1 };
+        cyclic.self = cyclic;
+
+        expect(toJsonValue(new Vector3(1, 2, 3), true)).toEqual([1, 2, 3]);
+        expect(toJsonValue(new Vector3(1, 2, 3))).toBeUndefined();
+        expect(toJsonValue(new Map<string, any>([["a", 1], ["b", undefined]]), true)).toEqual({ a: 1 });
+        expect(toJsonValue(new Float32Array([0.5, 1]), true)).toEqual([0.5, 1]);
+        expect(toJsonValue([NaN, () => 1, "x"], true)).toEqual([null, null, "x"]);
+        expect(toJsonValue(cyclic, true)).toEqual({ a: 1 });
+        expect(toJsonValue([cyclic, cyclic], true)).toEqual([{ a: 1 }, { a: 1 }]);
+    });
+});
@@ -0,0 +1,63 @@
+import {
+    analyzeSequences,
+    getGcContent,
+    getHairpinStem,
+    getLongestComplementarity,
+    getLongestRun,
+    getMeltingTemperature
+} from "../../src/catana/utils/catana-sequence-analysis";
+
+describe('catana/sequence-analysis', function () {
+    it('GC content and runs', function () {
+        expect(getGcContent("GCAT")).toBeCloseTo(0.5);
+        expect(getGcContent("gggc")).toBeCloseTo(1);
+        expect(getGcContent("")).toBe(0);
+
+        expect(getLongestRun("ACGGGGTTA")).toEqual({ base: "G", length: 4 });
+        expect(getLongestRun("")).toEqual({ base: "", length: 0 });
+    })
+
+    it('melting temperature', function () {
+        const conditions = { oligoConcentration: 250e-9, naConcentration: 0.05, mgConcentration: 0 };
+        const tm = getMeltingTemperature("ACGTCAGTCGATCGATGCAT", conditions);
+
+        expect(tm).toBeGreaterThan(50);
+        expect(tm).toBeLessThan(65);
+        // GC-rich sequences melt at higher temperatures
+        expect(getMeltingTemperature("GCGCCGGCGCGGCCGCGGCC", conditions)).toBeGreaterThan(tm);
+        expect(getMeltingTemperature("ATATTAATATAATTATATTA", conditions)).toBeLessThan(tm);
+        // Higher salt concentration stabilizes the duplex
+        expect(getMeltingTemperature("ACGTCAGTCGATCGATGCAT", { ...conditions, mgConcentration: 0.0125 })).toBeGreaterThan(tm);
+        // RNA is approximated by DNA
+        expect(getMeltingTemperature("ACGUCAGUCGAUCGAUGCAU", conditions)).toBeCloseTo(tm);
+
+        expect(getMeltingTemperature("A")).toBeNaN();
+        expect(getMeltingTemperature("ACGNT")).toBeNaN();
+    })
+
+    it('complementarity', function () {
+        // GGGAAA-loop-TTTCCC forms a 6 bp stem
+        expect(getHairpinStem("GGGAAATTTTTTTCCC")).toBe(6);
+        // Loop of the palindrome would be too short
+        expect(getHairpinStem("AAATTT", 3)).toBe(1);
+        expect(getHairpinStem("AAAAAA")).toBe(0);
+
+        expect(getLongestComplementarity("AAACGTAAA", "TTTACGTTT")).toBe(9);
+        expect(getLongestComplementarity("CCCCAGTCCC", "GGACTGG")).toBe(7);
+        expect(getLongestComplementarity("AAAA", "AAAA")).toBe(0);
+    })
+
+    it('off-targets', function () {
+        const results = analyzeSequences([
+            { name: "s1", sequence: "AAAAGGGCCTTAAAA", partners: [1] },
+            { name: "s2", sequence: "TTTTAAGGCCCTTTT", partners: [0] },
+            { name: "s3", sequence: "CGCGCAAGGCCCAC" }
+        ]);
+
+        expect(results[0].offTarget).toBe(7);
+        expect(results[0].offTargetStrand).toBe("s3");
+        expect(results[2].offTarget).toBe(7);
+        expect(results[2].offTargetStrand).toBe("s1");
+        expect(results[0].length).toBe(15);
+    })
+})
@@ -0,0 +1,163 @@
+import { Vector3 } from "three";
+import NucleicAcidStructuresProvider from "../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import DnaFactory from "../../src/catana/nanomodeling/dna-factory";
+import CgStructure from "../../src/catana/data_model/cg-structure";
+import CgNucleicAcidStrand from "../../src/catana/data_model/cg-nucleic-acid-strand";
+import CgNucleotideProxy from "../../src/catana/data_model/proxy/cg-nucleotide-proxy";
+import { NucleobaseType } from "../../src/catana/data_model/types_declarations/monomer-types";
+import { BDnaIdealisticForm, BDnaSequenceDependentForm } from "../../src/catana/nanomodeling/dna-forms";
+import { getDinucleotideStepParams, Olson1998StepParams } from "../../src/catana/nanomodeling/dinucleotide-step-params";
+import { NucleicAcidStrandEnd } from "../../src/catana/data_model/types_declarations/polymer-types";
+import SetPolymerSequenceCommand from "../../src/catana/history/c-set-polymer-sequence";
+
+/**
+ * @returns centers of the base-pairs of a double strand (given by one of its strands)
+ */
+function basePairCenters(strand: CgNucleicAcidStrand): Vector3[] {
+    const result: Vector3[] = [];
+    strand.forEachNucleotide(nt => {
+        result.push(nt.nucleobaseCenter.add(nt.pairedNucleotide!.nucleobaseCenter).multiplyScalar(0.5));
+    });
+    return result;
+}
+
+/**
+ * @returns the largest distance of the helical axis (smoothed over one helical turn) from the line connecting its ends
+ */
+function axisDeviation(strand: CgNucleicAcidStrand): number {
+    const centers = basePairCenters(strand);
+    const axis: Vector3[] = [];
+    for (let i = 0; i + 10 < centers.length; ++i) {
+        const sum = new Vector3();
+        centers.slice(i, i + 11).forEach(c => sum.add(c));
+        axis.push(sum.divideScalar(11));
+    }
+    const start = axis[0];
+    const dir = axis[axis.length - 1].clone().sub(start).normalize();
+    return Math.max(...axis.map(p => {
+        const v = p.clone().sub(start);
+        return v.sub(dir.clone().multiplyScalar(v.dot(dir))).length();
+    }));
+}
+
+/**
+ * @returns the largest distance between the backbones of consecutive nucleotides
+ */
+function maxBackboneStep(strand: CgNucleicAcidStrand): number {
+    let result = 0;
+    for (let i = 0; i < strand.length - 1; ++i) {
+        result = Math.max(result, strand.getNucleotideProxy(i)!.backboneCenter
+            .distanceTo(strand.getNucleotideProxy(i + 1)!.backboneCenter));
+    }
+    return result;
+}
+
+function buildDuplex(factory: DnaFactory, sequence: string): CgNucleicAcidStrand {
+    const structure = new CgStructure(0, "duplex");
+    const strand = factory.buildHelixFromSequence(sequence)!;
+    structure.addNaStrand(strand);
+    structure.addNaStrand(factory.buildComplementaryHelix(strand));
+    return strand;
+}
+
+// Three A-tracts phased with the helical repeat
+const aTractSequence = "CGCAAAAAACGCAAAAAACGCAAAAAACGCAAAAAACGCAAAAAACGC";
+const mixedSequence = "CGCATGCAACGTCATCGTACGCAAGTCACGTACGTCAGCATGGACGC";
+
+describe('catana/sequence-geometry', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    });
+
+    it('provides parameters of all dinucleotide steps', function () {
+        const bases = [NucleobaseType.A, NucleobaseType.C, NucleobaseType.G, NucleobaseType.T];
+        bases.forEach(a => bases.forEach(b => expect(getDinucleotideStepParams(Olson1998StepParams, a, b)).toBeDefined()));
+
+        const aa = getDinucleotideStepParams(Olson1998StepParams, NucleobaseType.A, NucleobaseType.A)!;
+        const tt = getDinucleotideStepParams(Olson1998StepParams, NucleobaseType.T, NucleobaseType.T)!;
+        expect(tt.baseTwist).toBe(aa.baseTwist);
+        expect(tt.baseRoll).toBe(aa.baseRoll);
+        expect(tt.baseTilt).toBe(-aa.baseTilt);
+        expect(getDinucleotideStepParams(Olson1998StepParams, NucleobaseType.U, NucleobaseType.U)).toBe(tt);
+        expect(getDinucleotideStepParams(Olson1998StepParams, NucleobaseType.ANY, NucleobaseType.A)).toBeUndefined();
+    });
+
+    it('reproduces the curvature of phased A-tracts', function () {
+        const factory = new DnaFactory();
+        factory.dnaForm = BDnaSequenceDependentForm;
+
+        const aTracts = buildDuplex(factory, aTractSequence);
+        const mixed = buildDuplex(factory, mixedSequence);
+
+        expect(aTracts.length).toBe(aTractSequence.length);
+        expect(maxBackboneStep(aTracts)).toBeLessThan(8);
+        expect(maxBackboneStep(aTracts.getNucleotideProxy(0)!.pairedNucleotide!.parentStrand)).toBeLessThan(8);
+        expect(axisDeviation(aTracts)).toBeGreaterThan(2 * axisDeviation(mixed));
+
+        factory.dnaForm = BDnaIdealisticForm;
+        expect(axisDeviation(buildDuplex(factory, aTractSequence))).toBeLessThan(axisDeviation(aTracts));
+    });
+
+    it('extends strands consistently in both directions', function () {
+        const factory = new DnaFactory();
+        factory.dnaForm = BDnaSequenceDependentForm;
+
+        const strand = factory.buildHelixFromSequence("ACGTTA")!;
+        factory.extendHelix(strand, NucleicAcidStrandEnd.FIVE_PRIME, 6);
+        factory.extendHelix(strand, NucleicAcidStrandEnd.THREE_PRIME, 6);
+        const positions: Vector3[] = [];
+        strand.forEachNucleotide(nt => positions.push(nt.backboneCenter.clone()));
+
+        // Recomputing the geometry from the 5' end must keep the generated positions
+        expect(strand.length).toBe(18);
+        expect(factory.updateStrandGeometry(strand)).toBe(1);
+        strand.forEachNucleotide(nt => expect(nt.backboneCenter.distanceTo(positions[nt.index])).toBeLessThan(1e-3));
+    });
+
+    it('updates geometry of double strand after sequence change', function () {
+        const factory = new DnaFactory();
+        const strand = buildDuplex(factory, mixedSequence);
+        const reference = buildDuplex(factory, aTractSequence);
+        const pairDistance = (nt: CgNucleotideProxy) => nt.nucleobaseCenter.distanceTo(nt.pairedNucleotide!.nucleobaseCenter);
+
+        strand.setSequence(aTractSequence.split("").map(c => c as NucleobaseType));
+        const before = axisDeviation(strand);
+
+        expect(factory.updateStrandGeometry(strand, BDnaSequenceDependentForm)).toBe(1);
+        expect(axisDeviation(strand)).toBeGreaterThan(before);
+
+        strand.forEachNucleotide(nt => {
+            const pair = nt.pairedNucleotide!;
+            expect(pair.nucleobaseType).toBe(reference.getNucleotideProxy(nt.index)!.pairedNucleotide!.nucleobaseType);
+            expect(pairDistance(nt)).toBeCloseTo(pairDistance(reference.getNucleotideProxy(nt.index)!), 2);
+            expect(nt.hydrogenFaceDir.dot(pair.hydrogenFaceDir)).toBeCloseTo(-1, 3);
+        });
+    });
+
+    it('changes sequence and geometry in one undoable command', function () {
+        const strand = buildDuplex(new DnaFactory(), mixedSequence);
+        const structure = strand.parentStructure!;
+        // Undo/redo restore the strands of the structure from snapshots
+        const current = () => structure.naStrands.find(s => s.name === strand.name)!;
+        const sequences = () => structure.naStrands.map(s => s.sequence.join("")).join("/");
+        const oldSequences = sequences();
+        const oldDeviation = axisDeviation(strand);
+
+        const command = new SetPolymerSequenceCommand(strand, aTractSequence.split("").map(c => c as NucleobaseType),
+            true, BDnaSequenceDependentForm);
+        command.do();
+        const newSequences = sequences();
+        const newDeviation = axisDeviation(current());
+        expect(current().sequence.join("")).toBe(aTractSequence.substring(0, strand.length));
+        expect(newSequences).not.toBe(oldSequences);
+        expect(newDeviation).toBeGreaterThan(oldDeviation);
+
+        command.undo();
+        expect(sequences()).toBe(oldSequences);
+        expect(axisDeviation(current())).toBeCloseTo(oldDeviation, 4);
+
+        command.redo();
+        expect(sequences()).toBe(newSequences);
+        expect(axisDeviation(current())).toBeCloseTo(newDeviation, 4);
+    });
+});
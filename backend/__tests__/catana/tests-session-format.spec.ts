@@ -0,0 +1,81 @@
+import { parseSessionData, SessionFormatName, SessionFormatVersion } from "../../src/catana/parsers/session-format";
+import { toJsonValue } from "../../src/catana/utils/json-utils";
+
+describe('catana/session-format', function () {
+    it('JSON values', function () {
+        class Custom {
+            public value = 1;
+        }
+
+        expect(toJsonValue({
+            a: 1,
+            b: "text",
+            c: [true, null],
+            d: new Float32Array([0.5, 2]),
+            e: { nested: [1, 2] },
+            f: new Custom(),
+            g: () => 1,
+            h: NaN,
+            i: [1, undefined]
+        })).toEqual({
+            a: 1,
+            b: "text",
+            c: [true, null],
+            d: [0.5, 2],
+            e: { nested: [1, 2] },
+            i: [1, null]
+        });
+
+        expect(toJsonValue(new Custom())).toBeUndefined();
+    })
+
+    it('parsing and defaults', function () {
+        const data = parseSessionData(JSON.stringify({
+            format: SessionFormatName,
+            version: SessionFormatVersion,
+            components: [
+                {
+                    type: "lattice",
+                    name: "Lattice",
+                    data: { latticeType: "square", width: 2, height: 3, cellDiameter: 20, matrix: [] },
+                    representations: [{ type: "lattice" }]
+                },
+                { type: "structure", data: "{}", locked: true }
+            ],
+            cameraOrientation: [1, 2, 3]
+        }));
+
+        expect(data.components.length).toBe(2);
+        expect(data.components[0].position).toEqual([0, 0, 0]);
+        expect(data.components[0].quaternion).toEqual([0, 0, 0, 1]);
+        expect(data.components[0].scale).toBe(1);
+        expect(data.components[0].visible).toBe(true);
+        expect(data.components[0].representations[0]).toEqual({
+            type: "lattice", name: "lattice", filter: "", params: {}, colorDataList: undefined
+        });
+        expect(data.components[1].locked).toBe(true);
+        expect(data.components[1].annotations).toEqual([]);
+        // Invalid orientation is ignored
+        expect(data.cameraOrientation).toEqual([]);
+        expect(data.plugins).toEqual([]);
+        expect(data.scripts).toEqual([]);
+    })
+
+    it('invalid sessions', function () {
+        const session = (o: any) => JSON.stringify(Object.assign({
+            format: SessionFormatName,
+            version: SessionFormatVersion,
+            components: []
+        }, o));
+
+        expect(() => parseSessionData("{")).toThrow();
+        expect(() => parseSessionData(session({ format: "unf" }))).toThrow();
+        expect(() => parseSessionData(session({ version: "2.0" }))).toThrow();
+        expect(() => parseSessionData(session({ components: undefined }))).toThrow();
+        expect(() => parseSessionData(session({ components: [{ type: "volume", data: "" }] }))).toThrow();
+        expect(() => parseSessionData(session({ components: [{ type: "structure", data: {} }] }))).toThrow();
+        expect(() => parseSessionData(session({ components: [{ type: "shape", data: "" }] }))).toThrow();
+
+        expect(parseSessionData(session({ version: "1.5" })).components).toEqual([]);
+    })
+})
@@ -0,0 +1,71 @@
+import { Matrix4, Quaternion } from "three";
+import CgStructure from "../../src/catana/data_model/cg-structure";
+import CgNucleicAcidStrand from "../../src/catana/data_model/cg-nucleic-acid-strand";
+import { NucleicAcidType } from "../../src/catana/data_model/types_declarations/polymer-types";
+import { NucleobaseType } from "../../src/catana/data_model/types_declarations/monomer-types";
+import NucleicAcidStructuresProvider from "../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import { CatanaState } from "../../src/catana/actions/catana-state";
+import { SquareLattice } from "../../src/catana/nanomodeling/lattices/square-lattice";
+import { buildComplementaryDomain, copyDomainNucleotides } from "../../src/catana/nanomodeling/nanostructure-utils";
+import StapleListWriter, { StapleListExportedStructure } from "../../src/catana/writer/staple-list-writer";
+
+const lattice = new SquareLattice(1, 1);
+const scaffoldSequence = "ACGTTGCAAGGCCTTAACGGATC";
+
+/**
+ * Builds design with scaffold along the lattice cell (0, 0) and two staples
+ * complementary to the scaffold nucleotides [0, 10) and [10, 23)
+ */
+function buildDesign(name: string): StapleListExportedStructure {
+    const structure = new CgStructure(0, name);
+    const scaffold = new CgNucleicAcidStrand(0, "A", NucleicAcidType.DNA, structure, scaffoldSequence.length);
+    for (let i = 0; i < scaffoldSequence.length; ++i) {
+        CatanaState.dnaFactory.buildLatticeNucleotide(lattice, 0, 0, i, 0, true,
+            scaffoldSequence[i] as NucleobaseType, scaffold, undefined, 360 / lattice.basePairsPerTurn);
+    }
+    structure.addNaStrand(scaffold);
+    scaffold.isScaffold = true;
+
+    [[0, 10], [10, scaffoldSequence.length]].forEach(([from, to], i) => {
+        // Staples run antiparallel to the scaffold, i.e., their 5' end pairs with the last scaffold nucleotide
+        const indices = Array.from({ length: to - from }, (_, j) => to - 1 - j);
+        const domain = buildComplementaryDomain(scaffold, indices, structure);
+        const staple = new CgNucleicAcidStrand(i + 1, "S" + (i + 1), NucleicAcidType.DNA, structure, indices.length);
+        copyDomainNucleotides(staple, domain, 0, indices.length);
+        structure.addNaStrand(staple);
+    });
+
+    return { name: name, cgStructure: structure, matrix: new Matrix4(), quaternion: new Quaternion() };
+}
+
+describe('catana/staple-list-writer', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    })
+
+    it('exports staples of a design', function () {
+        const design = buildDesign("design");
+        const lines = new StapleListWriter([design], { lattice: lattice }).getData().trim().split("\n");
+        const helix = lattice.getIndex(0, 0);
+
+        // Scaffold is not listed
+        expect(lines.length).toBe(3);
+        expect(lines[0]).toBe("Pool,Plate,Well,Name,Sequence,Length,GC content (%),5' end,3' end");
+        expect(lines[1]).toBe("Staples,Plate 1,A1,S1,CTTGCAACGT,10,50.0," + helix + "[9]," + helix + "[0]");
+        expect(lines[2]).toBe("Staples,Plate 1,B1,S2,GATCCGTTAAGGC,13,53.8," + helix + "[22]," + helix + "[10]");
+    })
+
+    it('exports staples of multiple structures', function () {
+        const designs = [buildDesign("first"), buildDesign("second")];
+        const records = new StapleListWriter(designs, { grouping: "component" }).getStaples();
+
+        expect(records.map(r => [r.pool, r.name])).toEqual([
+            ["first", "first_S1"], ["first", "first_S2"], ["second", "second_S1"], ["second", "second_S2"]
+        ]);
+        // Without a lattice, the locations of the ends are not known
+        records.forEach(r => {
+            expect(r.fivePrimeLocation).toBe("");
+            expect(r.threePrimeLocation).toBe("");
+        });
+    })
+})
@@ -0,0 +1,41 @@
+import { assignStapleWells, createStapleCsv, getStapleWell, StapleRecord } from "../../src/catana/nanomodeling/staple-list";
+
+function staple(name: string, sequence: string, pool: string = "Staples"): StapleRecord {
+    return { name: name, sequence: sequence, pool: pool, fivePrimeLocation: "", threePrimeLocation: "" };
+}
+
+describe('catana/staple-list', function () {
+    it('wells', function () {
+        expect(getStapleWell(0)).toEqual({ index: 0, plate: 1, well: "A1" });
+        expect(getStapleWell(9, "96", "column")).toEqual({ index: 9, plate: 1, well: "B2" });
+        expect(getStapleWell(13, "96", "row")).toEqual({ index: 13, plate: 1, well: "B2" });
+        expect(getStapleWell(95)).toEqual({ index: 95, plate: 1, well: "H12" });
+        expect(getStapleWell(96)).toEqual({ index: 96, plate: 2, well: "A1" });
+        expect(getStapleWell(383, "384")).toEqual({ index: 383, plate: 1, well: "P24" });
+    })
+
+    it('pools', function () {
+        const staples = [staple("s1", "A", "red"), staple("s2", "A", "blue"), staple("s3", "A", "red")];
+
+        expect(assignStapleWells(staples).map(w => w.plate + w.well)).toEqual(["1A1", "2A1", "1B1"]);
+        expect(assignStapleWells(staples, { newPlatePerPool: false, wellOrder: "row" })
+            .map(w => w.plate + w.well)).toEqual(["1A1", "1A3", "1A2"]);
+    })
+
+    it('CSV', function () {
+        const staples = [
+            staple("s1", "GCAT", "red"),
+            staple("s,2", "GGTA", "blue"),
+            staple("s3", "TTTT", "red")
+        ];
+        staples[0].fivePrimeLocation = "3[45]";
+        staples[0].threePrimeLocation = "4[42]";
+
+        const lines = createStapleCsv(staples).trim().split("\n");
+        expect(lines.length).toBe(4);
+        expect(lines[0]).toBe("Pool,Plate,Well,Name,Sequence,Length,GC content (%),5' end,3' end");
+        expect(lines[1]).toBe("red,Plate 1,A1,s1,GCAT,4,50.0,3[45],4[42]");
+        expect(lines[2]).toBe("red,Plate 1,B1,s3,TTTT,4,0.0,,");
+        expect(lines[3]).toBe("blue,Plate 2,A1,\"s,2\",GGTA,4,50.0,,");
+    })
+})
@@ -0,0 +1,123 @@
+import { Vector3 } from "three";
+import NucleicAcidStructuresProvider from "../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import CgNucleicAcidStrand from "../../src/catana/data_model/cg-nucleic-acid-strand";
+import { NucleobaseType } from "../../src/catana/data_model/types_declarations/monomer-types";
+import { generateWireframeDna, getWireframeDnaSummary, WireframeMesh } from "../../src/catana/nanomodeling/wireframe-dna";
+
+const tetrahedron: WireframeMesh = {
+    position: [1, 1, 1, 1, -1, -1, -1, 1, -1, -1, -1, 1],
+    index: [0, 1, 2, 0, 3, 1, 0, 2, 3, 1, 3, 2]
+};
+
+/**
+ * @returns unindexed cube with each square face split into two triangles (as done by the OBJ parser)
+ */
+function cube(): WireframeMesh {
+    const quads = [
+        [0, 1, 3, 2], [4, 6, 7, 5], [0, 4, 5, 1], [2, 3, 7, 6], [0, 2, 6, 4], [1, 5, 7, 3]
+    ];
+    const corner = (i: number) => [(i & 4) ? 1 : 0, (i & 2) ? 1 : 0, (i & 1) ? 1 : 0];
+    const position: number[] = [];
+    quads.forEach(q => [q[0], q[1], q[2], q[0], q[2], q[3]].forEach(i => position.push(...corner(i))));
+    return { position: position };
+}
+
+/**
+ * @returns the largest distance between the backbones of consecutive nucleotides
+ */
+function maxBackboneStep(strand: CgNucleicAcidStrand): number {
+    let result = 0;
+    const count = strand.isCircular ? strand.length : strand.length - 1;
+    for (let i = 0; i < count; ++i) {
+        const a = strand.getNucleotideProxy(i)!.backboneCenter;
+        const b = strand.getNucleotideProxy((i + 1) % strand.length)!.backboneCenter;
+        result = Math.max(result, a.distanceTo(b));
+    }
+    return result;
+}
+
+describe('catana/wireframe-dna', function () {
+    beforeAll(function () {
+        return NucleicAcidStructuresProvider.loadStructures();
+    })
+
+    it('tetrahedron', function () {
+        const result = generateWireframeDna(tetrahedron, { minEdgeTurns: 3, scaffoldLength: 7249 });
+
+        expect(result.error).toBeUndefined();
+        expect(result.vertexCount).toBe(4);
+        expect(result.edgeLengths).toEqual([31, 31, 31, 31, 31, 31]);
+
+        // Spanning tree has 3 edges, the remaining 3 edges contain two scaffold crossovers each
+        expect(result.scaffoldCrossoverCount).toBe(6);
+        expect(result.stapleCrossoverCount).toBe(12);
+
+        const scaffold = result.scaffold!;
+        expect(scaffold.isScaffold).toBe(true);
+        expect(scaffold.isCircular).toBe(true);
+        expect(scaffold.length).toBeGreaterThanOrEqual(2 * 6 * 31);
+        expect(result.unusedBases).toBe(7249 - scaffold.length);
+
+        // Helices of each edge are paired with the staples
+        let paired = 0;
+        scaffold.forEachNucleotide(nt => {
+            if (nt.pairedNucleotide) {
+                ++paired;
+                expect(result.staples.indexOf(nt.pairedNucleotide.parentStrand)).toBeGreaterThanOrEqual(0);
+            }
+        });
+        expect(paired).toBe(2 * 6 * 31);
+
+        // One staple per vertex and incident edge, all of them crossing a vertex through a poly-T linker
+        expect(result.staples.length).toBe(12);
+        result.staples.forEach(s => {
+            expect(s.isCircular).toBe(false);
+            let linker = 0;
+            s.forEachNucleotide(nt => {
+                if (!nt.pairedNucleotide) {
+                    ++linker;
+                    expect(nt.nucleobaseType).toBe(NucleobaseType.T);
+                }
+            });
+            expect(linker).toBeGreaterThanOrEqual(1);
+            expect(s.length).toBeLessThanOrEqual(60);
+        });
+
+        expect(result.structure!.naStrands.length).toBe(13);
+
+        // Continuous strands without long bonds
+        expect(maxBackboneStep(scaffold)).toBeLessThan(9);
+        result.staples.forEach(s => expect(maxBackboneStep(s)).toBeLessThan(12));
+
+        expect(getWireframeDnaSummary(result)).toContain("4 vertices and 6 edges (31-31 bp)");
+    })
+
+    it('cube with triangulated faces', function () {
+        const result = generateWireframeDna(cube(), { scale: 250, scaffoldLength: 1000 });
+
+        expect(result.vertexCount).toBe(8);
+        expect(result.edgeLengths.length).toBe(12);
+        result.edgeLengths.forEach(l => expect([31, 42, 52, 63, 73, 84, 94]).toContain(l));
+        expect(result.scaffoldCrossoverCount).toBe(2 * 5);
+        expect(result.missingBases).toBe(result.scaffold!.length - 1000);
+        expect(maxBackboneStep(result.scaffold!)).toBeLessThan(9);
+
+        // Scaffold is centered in the scaled mesh
+        const center = new Vector3();
+        result.scaffold!.forEachNucleotide(nt => center.add(nt.backboneCenter));
+        center.divideScalar(result.scaffold!.length);
+        expect(center.distanceTo(new Vector3(125, 125, 125))).toBeLessThan(10);
+
+        // Merging of coplanar faces can be turned off
+        expect(generateWireframeDna(cube(), { scale: 150, mergeCoplanarFaces: false }).edgeLengths.length).toBe(18);
+    })
+
+    it('invalid mesh', function () {
+        expect(generateWireframeDna({ position: [] }).error).toBeDefined();
+
+        const twoTriangles = { position: [0, 0, 0, 1, 0, 0, 0, 1, 0, 5, 5, 5, 6, 5, 5, 5, 6, 5] };
+        const result = generateWireframeDna(twoTriangles);
+        expect(result.structure).toBeNull();
+        expect(getWireframeDnaSummary(result)).toContain("connected");
+    })
+})
@@ -11,6 +11,10 @@ import { kwd } from '../../src/filtering/filtering-constants'
 import { join } from 'path'
 import * as fs from 'fs'
 import AtomProxy from '../../src/proxy/atom-proxy'
+import { Matrix4, Vector3 } from 'three'
+import NucleicAcidStructuresProvider from '../../src/catana/nanomodeling/structure-providers/nucleic-acid-structures-provider'
+import DnaFactory from '../../src/catana/nanomodeling/dna-factory'
+import CgStructure from '../../src/catana/data_model/cg-structure'
 
 
 describe('filtering/filter', function () {
@@ -732,6 +736,101 @@ describe('filtering/filter', function () {
       }
       expect(filter.filter).toEqual(filterObj)
     })
+
+    it('nanostructure keywords', function () {
+      var filt = 'staple and unpaired and not 5end and not 3END'
+      var filter = new Filter(filt)
+      var filterObj = {
+        'operator': 'AND',
+        'rules': [
+          { 'keyword': kwd.STAPLE },
+          { 'keyword': kwd.UNPAIRED },
+          {
+            'operator': undefined,
+            'negate': true,
+            'rules': [
+              { 'keyword': kwd.FIVEEND }
+            ]
+          },
+          {
+            'operator': undefined,
+            'negate': true,
+            'rules': [
+              { 'keyword': kwd.THREEEND }
+            ]
+          }
+        ]
+      }
+      expect(filter.filter).toEqual(filterObj)
+    })
+
+    it('strandlength', function () {
+      expect(new Filter('strandlength > 40').filter).toEqual({
+        'operator': undefined,
+        'rules': [
+          { 'strandlength': [ '>', 40 ] }
+        ]
+      })
+      expect(new Filter('strandlength<=32 or strandlength 21').filter).toEqual({
+        'operator': 'OR',
+        'rules': [
+          { 'strandlength': [ '<=', 32 ] },
+          { 'strandlength': [ '=', 21 ] }
+        ]
+      })
+      expect(new Filter('strandlength long').filter).toEqual({
+        'error': 'strandlength must be followed by an integer, optionally preceded by a comparison operator'
+      })
+    })
+
+    it('within', function () {
+      var filt = 'within 10 of ( :A and crossover ) and nick'
+      var filter = new Filter(filt)
+      var filterObj = {
+        'operator': 'AND',
+        'rules': [
+          {
+            'within': {
+              'distance': 10,
+              'rule': {
+                'operator': 'AND',
+                'rules': [
+                  { 'chainname': 'A' },
+                  { 'keyword': kwd.CROSSOVER }
+                ]
+              }
+            }
+          },
+          { 'keyword': kwd.NICK }
+        ]
+      }
+      expect(filter.filter).toEqual(filterObj)
+      expect(new Filter('within 10 :A').filter).toEqual({
+        'error': 'within must be followed by a distance and of'
+      })
+      expect(new Filter('within 0 of :A').filter).toEqual({
+        'error': 'within distance must be a positive number'
+      })
+      expect(new Filter('within -2.5 of :A').filter).toEqual({
+        'error': 'within distance must be a positive number'
+      })
+    })
+
+    it('lattice helix', function () {
+      expect(new Filter('helix 3 and paired').filter).toEqual({
+        'operator': 'AND',
+        'rules': [
+          { 'latticeHelix': 3 },
+          { 'keyword': kwd.PAIRED }
+        ]
+      })
+      expect(new Filter('helix').filter).toEqual({
+        'operator': undefined,
+        'rules': [
+          { 'keyword': kwd.HELIX }
+        ]
+      })
+    })
   })
 
   function getNthFilteredAtom (structure: Structure|StructureView, nth: number) {
@@ -917,4 +1016,45 @@ describe('filtering/filter', function () {
       })
     })
   })
+
+  describe('cg monomer filter', function () {
+    beforeAll(function () {
+      return NucleicAcidStructuresProvider.loadStructures()
+    })
+
+    function countMonomers (structure: CgStructure, filter: Filter) {
+      var count = 0
+      var test = filter.cgMonomerTest
+      structure.forEachMonomer(function (m) {
+        if (test && test(m)) ++count
+      })
+      return count
+    }
+
+    it('within', function () {
+      var factory = new DnaFactory()
+      var structure = new CgStructure(0, 'within')
+      var strand1 = factory.buildHelixFromSequence('ACGTACGTAC')!
+      var strand2 = factory.buildHelixFromSequence('ACGTACGTAC')!
+      structure.addNaStrand(strand1)
+      structure.addNaStrand(strand2)
+      strand2.name = structure.generateChainName()
+      strand2.applyMatrixTransformation(new Matrix4().makeTranslation(0, 100, 0))
+
+      var filt = 'within 1 of :' + strand1.name
+      var filter = new Filter(filt)
+      expect(countMonomers(structure, filter)).toBe(10)
+      expect(countMonomers(structure, filter)).toBe(10)
+
+      // Evaluating the same filter again after the structure changed uses the new positions
+      strand2.applyMatrixTransformation(new Matrix4().makeTranslation(0, -100, 0))
+      expect(countMonomers(structure, filter)).toBe(20)
+
+      // Moving a single monomer away excludes it
+      var nt = strand2.getNucleotideProxy(0)!
+      nt.nucleobaseCenter = nt.nucleobaseCenter.add(new Vector3(0, 100, 0))
+      nt.backboneCenter = nt.backboneCenter.add(new Vector3(0, 100, 0))
+      expect(countMonomers(structure, filter)).toBe(19)
+    })
+  })
 })
@@ -0,0 +1,66 @@
+import StringStreamer from '../../src/streamer/string-streamer'
+import PdbParser from '../../src/parser/pdb-parser'
+import CifParser from '../../src/parser/cif-parser'
+import MmcifWriter from '../../src/writer/mmcif-writer'
+import Structure from '../../src/structure/structure'
+import { PolymerEntity } from '../../src/structure/structure-constants'
+
+import { join } from 'path'
+import * as fs from 'fs'
+
+function parsePdb (name: string) {
+  var str = fs.readFileSync(join(__dirname, '/../data/', name), 'utf-8')
+  return new PdbParser(new StringStreamer(str)).parse()
+}
+
+function parseCif (str: string) {
+  return new CifParser(new StringStreamer(str), { name: 'written' }).parse()
+}
+
+describe('writer/mmcif-writer', function () {
+  describe('writing', function () {
+    it('round-trip', function () {
+      var structure: Structure
+      return parsePdb('1crn.pdb').then(function (s) {
+        structure = s
+        return parseCif(new MmcifWriter(s).getData())
+      }).then(function (written) {
+        expect(written.atomStore.count).toBe(structure.atomStore.count)
+        expect(written.residueStore.count).toBe(structure.residueStore.count)
+        expect(written.chainStore.count).toBe(structure.chainStore.count)
+        expect(written.getSequence()).toEqual(structure.getSequence())
+
+        var ap1 = structure.getAtomProxy()
+        var ap2 = written.getAtomProxy()
+        for (var i = 0; i < structure.atomStore.count; i += 50) {
+          ap1.index = i
+          ap2.index = i
+          expect(ap2.atomname).toBe(ap1.atomname)
+          expect(ap2.resno).toBe(ap1.resno)
+          expect(ap2.x).toBeCloseTo(ap1.x, 3)
+          expect(ap2.y).toBeCloseTo(ap1.y, 3)
+          expect(ap2.z).toBeCloseTo(ap1.z, 3)
+        }
+
+        expect(written.entityList.length).toBe(1)
+        expect(written.entityList[0].entityType).toBe(PolymerEntity)
+      })
+    })
+
+    it('multi-character chain names', function () {
+      var structure: Structure
+      return parsePdb('1crn.pdb').then(function (s) {
+        structure = s
+        structure.chainStore.setChainname(0, 'ST12')
+
+        var data = new MmcifWriter(structure).getData()
+        expect(data).toContain('_entity_poly.pdbx_seq_one_letter_code_can')
+        expect(data).toContain('polypeptide(L)')
+        return parseCif(data)
+      }).then(function (written) {
+        expect(written.getChainProxy(0).chainname).toBe('ST12')
+        expect(written.atomStore.count).toBe(structure.atomStore.count)
+      })
+    })
+  })
+})
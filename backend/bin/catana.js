@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+/**
+ * Command line interface of Catana (requires the headless build, see rollup.config.js)
+ *
+ * Usage: catana <command> [arguments], e.g.,
+ *   catana convert in.unf out.pdb
+ *   catana build-dsdna GATTACA -o gattaca.unf
+ */
+const { runCli } = require('../build/catana-headless.js')
+
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code
+})
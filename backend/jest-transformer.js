@@ -0,0 +1,15 @@
+// Jest counterpart of the module handling done by the rollup plugins (see rollup.config.js),
+// so that the modules are imported the same way in the tests as in the bundle:
+// - the content of the text files (wgsl, pdb, glsl) is provided as the default export,
+// - CommonJS modules imported via their default export (e.g., "import md5 from 'blueimp-md5'")
+//   are provided as the default export as well (as done by the commonjs plugin).
+module.exports = {
+    process(src, filename) {
+        if (filename.endsWith(".js")) {
+            return src + '\nif (module.exports.default === undefined) module.exports.default = module.exports;\n';
+        }
+        const code = filename.endsWith(".pdb") ? src.replace(/\r\n/g, '\n') : src;
+        return 'Object.defineProperty(exports, "__esModule", { value: true });\n' +
+            'exports.default = ' + JSON.stringify(code) + ';';
+    }
+};
@@ -190,6 +190,41 @@ const bundleConfig = {
   }
 }
 
+// Catana addition: headless build for Node.js (CLI and scripts, no WebGL/DOM)
+const headlessConfig = {
+  input: 'build/js/src/catana-headless.js',
+  plugins: [
+    resolve({
+      jsnext: true,
+      main: true,
+      preferBuiltins: true
+    }),
+    commonjs({
+      namedExports: {
+        'chroma-js': ['scale'],
+        'signals': ['Signal'],
+        'sprintf-js': ['sprintf']
+      }
+    }),
+    glsl(),
+    wgsl(),
+    pdb(),
+    text(),
+    json()
+  ],
+  output: {
+    file: "build/catana-headless.js",
+    format: 'cjs',
+    sourcemap: true
+  },
+  // jspython-interpreter is bundled since Node.js cannot require its ES module distribution
+  external: moduleExternals.filter(d => d !== 'jspython-interpreter').concat(['fs', 'path']),
+  onwarn: function (warning) {
+    if (warning.code === 'THIS_IS_UNDEFINED') { return; }
+    console.warn(warning.message);
+  }
+}
+
 export default [
-  moduleConfig, bundleConfig
+  moduleConfig, bundleConfig, headlessConfig
 ]
@@ -8,6 +8,8 @@ import Structure from '../structure/structure';
 import Filter from '../filtering/filter';
 import Alignment, { SubstitutionMatrix } from './alignment';
 import Superposition from './superposition';
+import { icp, IcpParameters } from './icp';
+import { Matrix4, Vector3 } from 'three';
 import CgStructure from '../catana/data_model/cg-structure';
 import { MonomerType, monomerTypeToOneLetterCode } from '../catana/data_model/types_declarations/monomer-types';
 import CgPolymer from '../catana/data_model/cg-polymer';
@@ -25,6 +27,131 @@ import StructureView from '../structure/structure-view';
  * @return {undefined}
  */
 function superpose(s1: Structure | CgStructure, s2: Structure | CgStructure, align = false, filt1 = '', filt2 = '') {
+  const [positions1, positions2] = getSuperpositionPositions(s1, s2, align, filt1, filt2);
+
+  const superpose = new Superposition(positions1, positions2);
+  let result = superpose.transform(s1);
+
+  if (s1 instanceof Structure) {
+    s1.refreshPosition();
+  }
+
+  return result;
+}
+
+// Catana addition
+/**
+ * Parameters of {@link computeSuperposition}
+ */
+export interface SuperpositionParameters {
+  /**
+   * Guide the superposition by a sequence alignment
+   */
+  align: boolean,
+  /**
+   * Filter strings for structure 1 and 2
+   */
+  filt1: string,
+  filt2: string,
+  /**
+   * World transformations (e.g., component matrices) of structure 1 and 2
+   */
+  matrix1: Matrix4,
+  matrix2: Matrix4,
+  /**
+   * Superpose coarse-grained structures without using their sequences, i.e., by pairing each monomer
+   * with the nearest monomer of the other structure (iterative closest point).
+   * Useful for structures with different sequences or strand layouts, e.g., DNA origami variants with different staples.
+   */
+  sequenceIndependent: boolean,
+  /**
+   * Parameters of the iterative closest point algorithm (sequence-independent mode only)
+   */
+  icp: Partial<IcpParameters>
+}
+
+// Catana addition
+/**
+ * Result of {@link computeSuperposition}
+ */
+export interface SuperpositionResult {
+  /**
+   * World-space transformation superposing structure 1 onto structure 2
+   */
+  matrix: Matrix4,
+  /**
+   * Root-mean-square deviation of the superposed pairs (in Angstroms)
+   */
+  rmsd: number,
+  /**
+   * Number of position pairs used for the superposition
+   */
+  pairCount: number
+}
+
+// Catana addition
+/**
+ * Computes the superposition of structure 1 onto structure 2 in world space without modifying the structures
+ * @param  {Structure|CgStructure} s1 - structure 1 which is superposed onto structure 2
+ * @param  {Structure|CgStructure} s2 - structure 2 onto which structure 1 is superposed
+ * @param  {Partial<SuperpositionParameters>} [params] - superposition parameters
+ * @return {SuperpositionResult} world-space transformation together with the RMSD and the number of aligned pairs
+ * @throws {Error} if the superposition cannot be computed (e.g., no monomers are paired in the sequence-independent mode)
+ */
+function computeSuperposition(s1: Structure | CgStructure, s2: Structure | CgStructure,
+  params: Partial<SuperpositionParameters> = {}): SuperpositionResult {
+  const matrix1 = params.matrix1 ?? new Matrix4();
+  const matrix2 = params.matrix2 ?? new Matrix4();
+
+  if (params.sequenceIndependent) {
+    if (!(s1 instanceof CgStructure) || !(s2 instanceof CgStructure)) {
+      throw new Error("Sequence-independent superposition is supported only for coarse-grained structures.");
+    }
+
+    const positions1 = applyMatrix(getCgMonomerPositions(s1, params.filt1 ?? ''), matrix1);
+    const positions2 = applyMatrix(getCgMonomerPositions(s2, params.filt2 ?? ''), matrix2);
+
+    const result = icp(positions1, positions2, params.icp);
+    if (!result) {
+      throw new Error("Not enough pairs of monomers closer than the maximal pair distance were found.");
+    }
+    return { matrix: result.matrix, rmsd: result.rmsd, pairCount: result.pairCount };
+  }
+
+  const [positions1, positions2] = getSuperpositionPositions(s1, s2, params.align ?? false, params.filt1 ?? '', params.filt2 ?? '');
+  const sp = new Superposition(applyMatrix(positions1, matrix1), applyMatrix(positions2, matrix2));
+
+  return {
+    matrix: new Matrix4().fromArray(sp.transformationMatrix.elements),
+    rmsd: sp.rmsd,
+    pairCount: sp.pairCount
+  };
+}
+
+function applyMatrix(positions: Float32Array, matrix: Matrix4): Float32Array {
+  const v = new Vector3();
+  for (let i = 0; i < positions.length; i += 3) {
+    v.fromArray(positions, i).applyMatrix4(matrix).toArray(positions, i);
+  }
+  return positions;
+}
+
+function getCgMonomerPositions(struc: CgStructure, filt: string): Float32Array {
+  const test = filt ? new Filter(filt).cgMonomerTest : undefined;
+  const positions: number[] = [];
+
+  struc.forEachMonomer(m => {
+    if (!test || test(m)) {
+      const pos = m.position;
+      positions.push(pos.x, pos.y, pos.z);
+    }
+  });
+
+  return new Float32Array(positions);
+}
+
+function getSuperpositionPositions(s1: Structure | CgStructure, s2: Structure | CgStructure,
+  align: boolean, filt1: string, filt2: string): [Float32Array, Float32Array] {
   let i: number;
   let j: number;
   let n: number;
@@ -143,14 +270,7 @@ function superpose(s1: Structure | CgStructure, s2: Structure | CgStructure, ali
     positions2 = new Float32Array(_positions2);
   }
 
-  const superpose = new Superposition(positions1, positions2);
-  let result = superpose.transform(s1);
-
-  if (s1 instanceof Structure) {
-    s1.refreshPosition();
-  }
-
-  return result;
+  return [positions1, positions2];
 }
 
 function getStrucSeq(struc: Structure | CgStructure, filt: string, alignOnProteins: boolean): [Structure | CgStructure, string[]] {
@@ -247,5 +367,6 @@ function checkProteinBasedAlignment(s1: Structure | CgStructure, s2: Structure |
 }
 
 export {
-  superpose
+  superpose,
+  computeSuperposition
 }
@@ -99,7 +99,7 @@ function prepareMatrix(cellNames: string, mat: number[][]) {
   return matDict
 }
 
-const SubstitutionMatrices = (function () {
+export const SubstitutionMatrices = (function () {
   return {
     blosum62: prepareMatrix(aminoacids, blosum62),
     blosum62x: prepareMatrix(aminoacidsX, blosum62x),
@@ -0,0 +1,151 @@
+import { Matrix4, Vector3 } from 'three'
+import Kdtree from '../utils/kdtree'
+import Superposition from './superposition'
+
+/**
+ * Parameters of the iterative closest point registration
+ */
+export interface IcpParameters {
+  /**
+   * Maximal number of iterations
+   */
+  maxIterations: number,
+  /**
+   * The iteration stops when the RMSD changes by less than this value (in Angstroms)
+   */
+  tolerance: number,
+  /**
+   * Point pairs further apart than this distance (in Angstroms) are not used for the superposition
+   */
+  maxPairDistance: number,
+  /**
+   * Maximal number of source points used (larger point sets are evenly subsampled)
+   */
+  maxPoints: number,
+  /**
+   * Initial transformation of the source points. If not provided, the centroids of both point sets are aligned.
+   */
+  initialTransformation?: Matrix4
+}
+
+export const IcpDefaultParameters: IcpParameters = {
+  maxIterations: 50,
+  tolerance: 1e-3,
+  maxPairDistance: Infinity,
+  maxPoints: 5000
+}
+
+/**
+ * Result of the iterative closest point registration
+ */
+export interface IcpResult {
+  /**
+   * Transformation superposing the source points onto the target points
+   */
+  matrix: Matrix4,
+  /**
+   * RMSD of the matched point pairs after the superposition
+   */
+  rmsd: number,
+  /**
+   * Number of matched point pairs used in the last iteration
+   */
+  pairCount: number,
+  iterations: number
+}
+
+function euclideanDistSq (a: ArrayLike<number>, b: ArrayLike<number>) {
+  const dx = a[0] - b[0]
+  const dy = a[1] - b[1]
+  const dz = a[2] - b[2]
+  return dx * dx + dy * dy + dz * dz
+}
+
+function getCentroid (points: Float32Array) {
+  const c = new Vector3()
+  const n = points.length / 3
+  for (let i = 0; i < points.length; i += 3) {
+    c.x += points[i]
+    c.y += points[i + 1]
+    c.z += points[i + 2]
+  }
+  return n > 0 ? c.divideScalar(n) : c
+}
+
+function subsample (points: Float32Array, maxPoints: number) {
+  const n = points.length / 3
+  if (n <= maxPoints) return points
+
+  const result = new Float32Array(maxPoints * 3)
+  const step = n / maxPoints
+  for (let i = 0; i < maxPoints; ++i) {
+    const j = Math.floor(i * step) * 3
+    result[i * 3] = points[j]
+    result[i * 3 + 1] = points[j + 1]
+    result[i * 3 + 2] = points[j + 2]
+  }
+  return result
+}
+
+/**
+ * Superposes two point sets without known correspondences using the iterative closest point (ICP) algorithm.
+ * In each iteration, every source point is paired with its nearest target point
+ * and the source points are superposed onto their pairs.
+ * As the algorithm converges to a local optimum, the point sets should be roughly pre-aligned.
+ *
+ * @param source coordinates (x, y, z, x, y, z, ...) to be superposed
+ * @param target coordinates onto which the source is superposed
+ * @param params registration parameters
+ * @returns transformation of the source points together with the resulting RMSD,
+ * null if there were not enough point pairs (closer than the maximal pair distance) to superpose the point sets
+ */
+export function icp (source: Float32Array, target: Float32Array, params: Partial<IcpParameters> = {}): IcpResult | null {
+  const p = Object.assign({}, IcpDefaultParameters, params)
+  const src = subsample(source, p.maxPoints)
+  const n = src.length / 3
+
+  let matrix: Matrix4
+  if (p.initialTransformation) {
+    matrix = p.initialTransformation.clone()
+  } else {
+    const t = getCentroid(target).sub(getCentroid(src))
+    matrix = new Matrix4().makeTranslation(t.x, t.y, t.z)
+  }
+
+  const result: IcpResult = { matrix, rmsd: Infinity, pairCount: 0, iterations: 0 }
+  if (n === 0 || target.length === 0) return null
+
+  const kdtree = new Kdtree(target, euclideanDistSq)
+  const maxDistSq = p.maxPairDistance * p.maxPairDistance
+  const point = new Vector3()
+  const pointArray = [0, 0, 0]
+
+  for (let iter = 0; iter < p.maxIterations; ++iter) {
+    const srcPairs: number[] = []
+    const tgtPairs: number[] = []
+
+    for (let i = 0; i < n; ++i) {
+      point.fromArray(src, i * 3).applyMatrix4(result.matrix).toArray(pointArray)
+      const nearest = kdtree.nearest(pointArray, 1, maxDistSq)
+      if (nearest.length === 0) continue
+
+      const j = kdtree.indices[kdtree.nodes[nearest[0][0]]] * 3
+      srcPairs.push(src[i * 3], src[i * 3 + 1], src[i * 3 + 2])
+      tgtPairs.push(kdtree.points[j], kdtree.points[j + 1], kdtree.points[j + 2])
+    }
+
+    if (srcPairs.length < 9) break
+
+    const sp = new Superposition(new Float32Array(srcPairs), new Float32Array(tgtPairs))
+    const converged = Math.abs(result.rmsd - sp.rmsd) < p.tolerance
+
+    result.matrix = new Matrix4().fromArray(sp.transformationMatrix.elements)
+    result.rmsd = sp.rmsd
+    result.pairCount = sp.pairCount
+    result.iterations = iter + 1
+
+    if (converged) break
+  }
+
+  return result.iterations > 0 ? result : null
+}
@@ -0,0 +1,302 @@
+/**
+ * @file Multiple Alignment
+ * @private
+ */
+
+import { Debug, Log } from '../globals'
+import Alignment, { SubstitutionMatrices, SubstitutionMatrix } from './alignment'
+
+const Gap = '-'
+
+interface Cluster {
+  members: number[]
+  rows: string[]
+}
+
+/**
+ * Computes the percent identity of two aligned sequences,
+ * i.e., the fraction of identical residues among the positions where neither sequence has a gap
+ */
+export function getAlignedIdentity (ali1: string, ali2: string) {
+  let aligned = 0
+  let identical = 0
+
+  for (let i = 0; i < ali1.length; ++i) {
+    if (ali1[i] === Gap || ali2[i] === Gap) continue
+    aligned += 1
+    if (ali1[i] === ali2[i]) identical += 1
+  }
+
+  return aligned > 0 ? identical / aligned : 0
+}
+
+/**
+ * Computes the conservation of every column of the alignment based on the Shannon entropy
+ * of its residue distribution (gaps count as an additional residue type).
+ * The entropy is normalized by its maximum possible value, so a fully conserved column
+ * has conservation 1 and a column with maximal variability has conservation 0.
+ *
+ * @param rows aligned sequences of the same length
+ * @returns conservation (between 0 and 1) of every column
+ */
+export function getConservation (rows: string[]) {
+  const n = rows.length
+  const length = n > 0 ? rows[0].length : 0
+  const conservation: number[] = []
+
+  // Maximal entropy is reached when every sequence has a different residue (out of 20 amino acids and a gap)
+  const maxEntropy = Math.log(Math.min(21, n))
+
+  for (let i = 0; i < length; ++i) {
+    const counts: { [k: string]: number } = {}
+    rows.forEach(row => {
+      counts[row[i]] = (counts[row[i]] || 0) + 1
+    })
+
+    let entropy = 0
+    for (const k in counts) {
+      const p = counts[k] / n
+      entropy -= p * Math.log(p)
+    }
+
+    conservation.push(maxEntropy > 0 ? Math.max(0, 1 - entropy / maxEntropy) : 1)
+  }
+
+  return conservation
+}
+
+/**
+ * Progressive multiple sequence alignment.
+ * A guide tree is built by UPGMA clustering of the pairwise distances (1 - identity of the pairwise alignments)
+ * and the clusters are merged by aligning their profiles, using the sum-of-pairs score
+ * with affine gap penalties.
+ *
+ * @example
+ * var msa = new MultipleAlignment([ 'MKVLA', 'MKLA', 'MRVLAG' ])
+ * msa.calc()
+ * console.log(msa.rows, msa.conservation)
+ */
+class MultipleAlignment {
+  substMatrix: { [k: string]: { [k: string]: number } }
+
+  /**
+   * Aligned sequences (in the order of the input sequences)
+   */
+  rows: string[] = []
+  /**
+   * Conservation of every alignment column (see {@link getConservation})
+   */
+  conservation: number[] = []
+  /**
+   * Pairwise distances of the input sequences used to build the guide tree
+   */
+  distances: number[][] = []
+
+  constructor (readonly sequences: string[], readonly gapPenalty = -10, readonly gapExtensionPenalty = -1, readonly substMatrixName: SubstitutionMatrix = 'blosum62') {
+    if (substMatrixName) {
+      this.substMatrix = SubstitutionMatrices[substMatrixName]
+    }
+  }
+
+  calc () {
+    if (Debug) Log.time('MultipleAlignment.calc')
+
+    const n = this.sequences.length
+    this.rows = []
+    this.conservation = []
+    this.distances = []
+
+    if (n === 0) return
+
+    this.calcDistances()
+
+    let clusters: Cluster[] = this.sequences.map((seq, i) => ({ members: [i], rows: [seq] }))
+    const dist = this.distances.map(row => row.slice())
+
+    // UPGMA clustering, the closest clusters are merged first
+    while (clusters.length > 1) {
+      let minI = 0
+      let minJ = 1
+      for (let i = 0; i < clusters.length; ++i) {
+        for (let j = i + 1; j < clusters.length; ++j) {
+          if (dist[i][j] < dist[minI][minJ]) {
+            minI = i
+            minJ = j
+          }
+        }
+      }
+
+      const c1 = clusters[minI]
+      const c2 = clusters[minJ]
+      const merged: Cluster = {
+        members: c1.members.concat(c2.members),
+        rows: this.alignProfiles(c1.rows, c2.rows)
+      }
+
+      const newDist = clusters.map((c, k) => {
+        return (dist[minI][k] * c1.members.length + dist[minJ][k] * c2.members.length) /
+          (c1.members.length + c2.members.length)
+      })
+
+      // Replace the first merged cluster and remove the second one
+      clusters[minI] = merged
+      dist[minI] = newDist
+      dist.forEach((row, k) => { row[minI] = newDist[k] })
+      dist[minI][minI] = 0
+
+      clusters.splice(minJ, 1)
+      dist.splice(minJ, 1)
+      dist.forEach(row => row.splice(minJ, 1))
+    }
+
+    const rows: string[] = []
+    clusters[0].members.forEach((m, i) => { rows[m] = clusters[0].rows[i] })
+
+    this.rows = rows
+    this.conservation = getConservation(rows)
+
+    if (Debug) Log.timeEnd('MultipleAlignment.calc')
+  }
+
+  private calcDistances () {
+    const n = this.sequences.length
+
+    for (let i = 0; i < n; ++i) {
+      this.distances[i] = []
+      this.distances[i][i] = 0
+    }
+
+    for (let i = 0; i < n; ++i) {
+      for (let j = i + 1; j < n; ++j) {
+        const ali = new Alignment(this.sequences[i], this.sequences[j],
+          this.gapPenalty, this.gapExtensionPenalty, this.substMatrixName)
+        ali.calc()
+        ali.trace()
+
+        const d = 1 - getAlignedIdentity(ali.ali1, ali.ali2)
+        this.distances[i][j] = d
+        this.distances[j][i] = d
+      }
+    }
+  }
+
+  private getColumnCounts (rows: string[]) {
+    const length = rows.length > 0 ? rows[0].length : 0
+    const counts: { [k: string]: number }[] = []
+
+    for (let i = 0; i < length; ++i) {
+      const c: { [k: string]: number } = {}
+      rows.forEach(row => {
+        if (row[i] !== Gap) c[row[i]] = (c[row[i]] || 0) + 1
+      })
+      counts.push(c)
+    }
+
+    return counts
+  }
+
+  private score (c1: string, c2: string) {
+    const substMatrix = this.substMatrix
+
+    if (!substMatrix) return c1 === c2 ? 5 : -3
+
+    const row = substMatrix[c1]
+    return row && row[c2] !== undefined ? row[c2] : -4
+  }
+
+  /**
+   * Aligns two profiles (sets of aligned sequences) using the average score of all residue pairs of the columns
+   */
+  private alignProfiles (rows1: string[], rows2: string[]) {
+    const counts1 = this.getColumnCounts(rows1)
+    const counts2 = this.getColumnCounts(rows2)
+    const n = counts1.length
+    const m = counts2.length
+    const norm = rows1.length * rows2.length
+
+    const gap0 = this.gapPenalty
+    const gapExt = this.gapExtensionPenalty
+
+    const scoreFn = (i: number, j: number) => {
+      let s = 0
+      const ci = counts1[i]
+      const cj = counts2[j]
+      for (const a in ci) {
+        for (const b in cj) {
+          s += ci[a] * cj[b] * this.score(a, b)
+        }
+      }
+      return s / norm
+    }
+
+    // S: best score ending with a match, V: ending with a gap in profile 2, H: ending with a gap in profile 1
+    const S: Float64Array[] = []
+    const V: Float64Array[] = []
+    const H: Float64Array[] = []
+    for (let i = 0; i <= n; ++i) {
+      S[i] = new Float64Array(m + 1)
+      V[i] = new Float64Array(m + 1).fill(-Infinity)
+      H[i] = new Float64Array(m + 1).fill(-Infinity)
+    }
+    for (let i = 1; i <= n; ++i) S[i][0] = V[i][0] = gap0 + i * gapExt
+    for (let j = 1; j <= m; ++j) S[0][j] = H[0][j] = gap0 + j * gapExt
+
+    for (let i = 1; i <= n; ++i) {
+      for (let j = 1; j <= m; ++j) {
+        V[i][j] = Math.max(S[i - 1][j] + gap0, V[i - 1][j] + gapExt)
+        H[i][j] = Math.max(S[i][j - 1] + gap0, H[i][j - 1] + gapExt)
+        S[i][j] = Math.max(S[i - 1][j - 1] + scoreFn(i - 1, j - 1), V[i][j], H[i][j])
+      }
+    }
+
+    // Traceback, columns are collected in reverse order
+    const gaps1 = Gap.repeat(rows1.length)
+    const gaps2 = Gap.repeat(rows2.length)
+    const column = (rows: string[], i: number) => rows.map(r => r[i]).join('')
+    const columns1: string[] = []
+    const columns2: string[] = []
+
+    let i = n
+    let j = m
+    let mat = 'S'
+
+    while (i > 0 || j > 0) {
+      if (i === 0) {
+        mat = 'H'
+      } else if (j === 0) {
+        mat = 'V'
+      } else if (mat === 'S') {
+        if (S[i][j] === V[i][j]) mat = 'V'
+        else if (S[i][j] === H[i][j]) mat = 'H'
+      }
+
+      if (mat === 'S') {
+        columns1.push(column(rows1, i - 1))
+        columns2.push(column(rows2, j - 1))
+        --i
+        --j
+      } else if (mat === 'V') {
+        columns1.push(column(rows1, i - 1))
+        columns2.push(gaps2)
+        if (j > 0 && i > 1 && V[i][j] !== V[i - 1][j] + gapExt) mat = 'S'
+        --i
+      } else {
+        columns1.push(gaps1)
+        columns2.push(column(rows2, j - 1))
+        if (i > 0 && j > 1 && H[i][j] !== H[i][j - 1] + gapExt) mat = 'S'
+        --j
+      }
+    }
+
+    columns1.reverse()
+    columns2.reverse()
+
+    const result: string[] = []
+    rows1.forEach((_, k) => result.push(columns1.map(c => c[k]).join('')))
+    rows2.forEach((_, k) => result.push(columns2.map(c => c[k]).join('')))
+
+    return result
+  }
+}
+
+export default MultipleAlignment
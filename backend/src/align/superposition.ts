@@ -5,7 +5,7 @@
  */
 
 import { Matrix4 } from 'three'
-import CgStructure from '../catana/data_model/cg-structure'
+import type CgStructure from '../catana/data_model/cg-structure'
 import { Debug, Log } from '../globals'
 import {
   Matrix, svd, meanRows, subRows, transpose,
@@ -22,6 +22,16 @@ class Superposition {
   mean1: number[]
   mean2: number[]
 
+  // Catana addition
+  /**
+   * Root-mean-square deviation of the superposed coordinates
+   */
+  rmsd: number
+  /**
+   * Number of coordinate pairs used for the superposition
+   */
+  pairCount: number
+
   A = new Matrix(3, 3)
   W = new Matrix(1, 3)
   U = new Matrix(3, 3)
@@ -73,6 +83,37 @@ class Superposition {
     // superpose
 
     this._superpose(coords1, coords2)
+
+    // Catana addition
+    this.pairCount = n
+    this.rmsd = this._computeRmsd()
+  }
+
+  // Catana addition
+  /**
+   * Computes the RMSD between the rotated centered coordinates 1 and the centered coordinates 2
+   */
+  _computeRmsd() {
+    const n = this.pairCount
+    if (n === 0) return 0
+
+    const R = this.R.data
+    const c1 = this.coords1t.data
+    const c2 = this.coords2t.data
+    let sum = 0
+
+    // Transposed coordinates store all x values first, then all y and z values
+    for (let i = 0; i < n; ++i) {
+      const x = c1[i]
+      const y = c1[n + i]
+      const z = c1[2 * n + i]
+      const dx = R[0] * x + R[1] * y + R[2] * z - c2[i]
+      const dy = R[3] * x + R[4] * y + R[5] * z - c2[n + i]
+      const dz = R[6] * x + R[7] * y + R[8] * z - c2[2 * n + i]
+      sum += dx * dx + dy * dy + dz * dz
+    }
+
+    return Math.sqrt(sum / n)
   }
 
   _superpose(coords1: Matrix, coords2: Matrix) {
@@ -175,7 +216,8 @@ class Superposition {
   }
 
   transform(atoms: Structure | CgStructure | Float32Array) {
-    if (atoms instanceof CgStructure) {
+    // Catana addition (coarse-grained structures transform their polymers directly)
+    if (!(atoms instanceof Structure) && !(atoms instanceof Float32Array)) {
       atoms.transform(this.transformationMatrix);
       return this.transformationMatrix;
     }
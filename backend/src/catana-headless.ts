@@ -0,0 +1,94 @@
+/**
+ * @file catana-headless
+ * @private
+ * @author Catana team
+ */
+
+/**
+ * Entry point of the headless build (`catana-headless.js`) running in Node.js without WebGL or DOM.
+ * It provides the structure parsers, the coarse-grained modelling functionality and the writers,
+ * so that repetitive modelling tasks can be executed from scripts and the command line
+ * (see {@link runCli}).
+ * @module CATANA-HEADLESS
+ */
+
+export { Debug, setDebug, Log, ParserRegistry } from './globals'
+
+import './parser/cif-parser'
+import './parser/gro-parser'
+import './parser/mmtf-parser'
+import './parser/mol2-parser'
+import './parser/pdb-parser'
+import './parser/pdbqt-parser'
+import './parser/pqr-parser'
+import './parser/sdf-parser'
+
+import './catana/parsers/unf-parser'
+import './catana/parsers/cadnano-parser'
+import './catana/parsers/oxdna-parser'
+
+import Structure from './structure/structure'
+import CgStructure from './catana/data_model/cg-structure'
+import CgNucleicAcidStrand from './catana/data_model/cg-nucleic-acid-strand'
+import CgAminoAcidChain from './catana/data_model/cg-amino-acid-chain'
+import StringStreamer from './streamer/string-streamer'
+import BinaryStreamer from './streamer/binary-streamer'
+import DnaFactory from './catana/nanomodeling/dna-factory'
+import ProteinFactory from './catana/nanomodeling/protein-factory'
+import NucleicAcidStructuresProvider from './catana/nanomodeling/structure-providers/nucleic-acid-structures-provider'
+import { AminoAcidStructuresProvider } from './catana/nanomodeling/structure-providers/amino-acid-structures-provider'
+import { convertAllAtomStructureToCoarseGrained } from './catana/nanomodeling/aa-to-cg-structure-conversion'
+import { AtomGenerationLimit, generateAtomisticStructure } from './catana/nanomodeling/atom-generation'
+import PdbWriter from './writer/pdb-writer'
+import MmcifWriter from './writer/mmcif-writer'
+import UnfWriter from './catana/writer/unf-writer'
+import {
+  buildDsDna, buildPeptide, exportStructures, HeadlessExportFormat, HeadlessObject, loadStructures, parseData,
+  toAllAtom, toCoarseGrained
+} from './catana/headless/headless-utils'
+import { CliIo, runCli } from './catana/headless/catana-cli'
+import ScriptingApi from './catana/scripting/scripting-api'
+import JSPyScript from './catana/scripting/jspyscript'
+import {
+  parseScriptArguments, splitCommandLine, runJsPyScript, ScriptExitCode, ScriptRunParams, ScriptRunResult
+} from './catana/scripting/script-runner'
+import { toJsonValue } from './catana/utils/json-utils'
+
+export {
+  Structure,
+  CgStructure,
+  CgNucleicAcidStrand,
+  CgAminoAcidChain,
+  StringStreamer,
+  BinaryStreamer,
+  DnaFactory,
+  ProteinFactory,
+  NucleicAcidStructuresProvider,
+  AminoAcidStructuresProvider,
+  convertAllAtomStructureToCoarseGrained,
+  generateAtomisticStructure,
+  AtomGenerationLimit,
+  PdbWriter,
+  MmcifWriter,
+  UnfWriter,
+  HeadlessObject,
+  HeadlessExportFormat,
+  parseData,
+  loadStructures,
+  exportStructures,
+  toCoarseGrained,
+  toAllAtom,
+  buildDsDna,
+  buildPeptide,
+  CliIo,
+  runCli,
+  ScriptingApi,
+  JSPyScript,
+  runJsPyScript,
+  parseScriptArguments,
+  splitCommandLine,
+  toJsonValue,
+  ScriptExitCode,
+  ScriptRunParams,
+  ScriptRunResult
+}
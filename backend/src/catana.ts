@@ -31,10 +31,11 @@ import Filter from './filtering/filter'
 import { getSuggestions, applySuggestion, getKeywords } from "./filtering/filtering-autocompleter" // Catana addition
 import {
   addComponentFromSequence, getAminoAcidSequenceType, threeLetterToOneLetter, oneLetterToThreeLetter,
-  PROTEIN_VALUES_THREE_LETTER, PROTEIN_VALUES_ONE_LETTER, DNA_VALUES
+  PROTEIN_VALUES_THREE_LETTER, PROTEIN_VALUES_ONE_LETTER, DNA_VALUES, loadScaffoldSequence
 } from "./catana/utils/catana-sequence-utils"; // Catana addition
 import * as chroma from "chroma-js" // Catana addition
 import PdbWriter from './writer/pdb-writer'
+import MmcifWriter, { MmcifWriterParams } from './writer/mmcif-writer'
 import SdfWriter from './writer/sdf-writer'
 import StlWriter from './writer/stl-writer'
 import Stage, { StageLoadFileParams } from './stage/stage'
@@ -49,7 +50,8 @@ import RepresentationCollection from './component/representation-collection'
 import Assembly from './symmetry/assembly'
 import TrajectoryPlayer from './trajectory/trajectory-player'
 import Superposition from './align/superposition'
-export { superpose } from './align/align-utils'
+export { superpose, computeSuperposition, SuperpositionParameters, SuperpositionResult } from './align/align-utils'
+export { icp, IcpParameters, IcpResult } from './align/icp'
 export { guessElement, concatStructures } from './structure/structure-utils'
 
 export { flatten, throttle, download, getQuery, uniqueArray } from './utils'
@@ -237,11 +239,16 @@ import { GizmoMode } from "./catana/visualizations/gizmos-transform";
 // Parsers
 import "./catana/parsers/unf-parser";
 import "./catana/parsers/cadnano-parser";
+import "./catana/parsers/oxdna-parser";
+export { OxDnaParserParameters } from './catana/parsers/oxdna-parser'
+import "./catana/parsers/session-parser";
 
 // Color makers
 import "./catana/color/cg-custom-color-maker";
 import "./catana/color/cg-start-end-gradient-color-maker";
 import "./catana/color/cg-crossover-color-maker";
+import "./catana/color/cg-melting-temperature-color-maker";
+import "./catana/color/conservation-color-maker";
 
 // Representations
 import "./catana/representation/structure/cg-structure-atomic-representation";
@@ -257,7 +264,7 @@ import "./catana/examples/active-examples";
 
 
 
-import { mergeStructureComponentsIntoOne, mergeComponentsContainingStructureIntoOne, duplicateComponentContainingStructure, mergeStructures, appendAnyStructureComps, convertCgStrucCompToAaStrucComp, convertAaStrucCompToCgStrucComp } from './catana/utils/catana-utils'
+import { mergeStructureComponentsIntoOne, mergeComponentsContainingStructureIntoOne, duplicateComponentContainingStructure, mergeStructures, appendAnyStructureComps, convertCgStrucCompToAaStrucComp, convertAaStrucCompToCgStrucComp, convertSurfaceCompToWireframeDna, superposeComponents, applyWorldTransformation } from './catana/utils/catana-utils'
 import MultiObjectsStorage from './catana/utils/multi-objects-storage'
 import UnfWriter from './catana/writer/unf-writer'
 import { LatticeType } from './catana/nanomodeling/lattices/lattice'
@@ -279,6 +286,32 @@ import CgStructure from './catana/data_model/cg-structure'
 import CgMonomerProxy from './catana/data_model/proxy/cg-monomer-proxy'
 import FilterColormaker from './color/filter-colormaker'
 import FastaWriter from './catana/writer/fasta-writer'
+import CadnanoWriter from './catana/writer/cadnano-writer'
+import StapleListWriter, { StapleListWriterParams, StaplePoolGrouping } from './catana/writer/staple-list-writer'
+import HelicalParametersWriter from './catana/writer/helical-parameters-writer'
+import {
+  BasePairParameters, BasePairStepParameters, computeHelicalParameters, createHelicalParametersCsv, HelixParameters
+} from './catana/nanomodeling/helical-parameters'
+import { PlateFormat, PlateFormats, WellOrder } from './catana/nanomodeling/staple-list'
+import {
+  analyzeSequences, analyzeStrandSequences, getMeltingTemperature, SequenceAnalysisInput,
+  SequenceAnalysisParameters, SequenceAnalysisResult
+} from './catana/utils/catana-sequence-analysis'
+import MultipleAlignment, { getConservation } from './align/multiple-alignment'
+import {
+  alignProteinSequences, getMsaResidueIndex, getProteinSequences, MsaParams, MsaSequence, StructureMsa
+} from './catana/utils/catana-sequence-alignment'
+import ConservationColorMaker, { setConservationAlignment } from './catana/color/conservation-color-maker'
+import OxDnaWriter from './catana/writer/oxdna-writer'
+import GltfWriter, { GltfWriterParams } from './catana/writer/gltf-writer'
+import {
+  getGltfComponentNode, getGltfScene, GltfNode, GltfPrimitive, GltfRepresentationData, GltfSceneParams
+} from './catana/geometry/gltf-scene'
+import CgTrajectory from './catana/trajectory/cg-trajectory'
+import { CgFrame, CgFrames, InMemoryCgFrames, OxDnaCgFrames, getCgFrame, setCgFrame } from './catana/trajectory/cg-frames'
+import CatanaSessionWriter from './catana/writer/session-writer'
+import CatanaSession from './catana/utils/catana-session'
+import { SessionExtension } from './catana/parsers/session-format'
 import CLICommandsParser from './catana/scripting/cli-commands-parser'
 import { transformStructureToOxDnaGeometry } from './catana/nanomodeling/nucleic-acid-utils'
 import { CgStructureElementType, StructureElementType } from './catana/data_model/types_declarations/element-type'
@@ -286,8 +319,27 @@ import RigidBodySimulator from './catana/dynamics/rigidbody-simulator'
 import StructureCluster from './catana/dynamics/structure-cluster'
 import RbJoint from './catana/dynamics/joints/rb-joint'
 import ClusterAlgorithms from './catana/dynamics/clustering/cluster-algorithms'
+import CgRelaxation from './catana/dynamics/relaxation/cg-relaxation'
+import { CgRelaxationProgress } from './catana/dynamics/relaxation/cg-relaxation-system'
+import RelaxCgStructureCommand from './catana/history/c-relax-cg-structure'
+import CatanaHistory from './catana/history/catana-history'
+import Command from './catana/history/command'
+import ApplyScaffoldSequenceCommand from './catana/history/c-apply-scaffold-sequence'
+import { BuiltInScaffolds, ScaffoldSequenceRecord, ScaffoldSequenceResult } from './catana/nanomodeling/scaffold-sequence'
+import AutoStapleCommand from './catana/history/c-auto-staple'
+import { autoStaple, AutoStapleParameters, AutoStapleResult } from './catana/nanomodeling/auto-staple'
 import CgNucleicAcidCreateComplementaryState from './catana/actions/cg-nucleic-acid-create-complementary-state'
-import { BDnaForm, BDnaIdealisticForm, DnaForm } from './catana/nanomodeling/dna-forms'
+import CgScaffoldRoutingState from './catana/actions/cg-scaffold-routing-state'
+import {
+  generateScaffoldRouting, getScaffoldRoutingSummary, LatticeCell, ScaffoldRoutingParameters, ScaffoldRoutingResult
+} from './catana/nanomodeling/scaffold-routing'
+import {
+  generateWireframeDna, getWireframeDnaSummary, WireframeDnaParameters, WireframeDnaResult, WireframeMesh
+} from './catana/nanomodeling/wireframe-dna'
+import { BDnaForm, BDnaIdealisticForm, BDnaSequenceDependentForm, DnaForm } from './catana/nanomodeling/dna-forms'
+import { DinucleotideStepTable, getDinucleotideStepParams, Olson1998StepParams } from './catana/nanomodeling/dinucleotide-step-params'
+import UpdateStrandGeometryCommand from './catana/history/c-update-strand-geometry'
+import SetPolymerSequenceCommand from './catana/history/c-set-polymer-sequence'
 import { convertAllAtomStructureToCoarseGrained } from './catana/nanomodeling/aa-to-cg-structure-conversion'
 import { AtomGenerationLimit } from './catana/nanomodeling/atom-generation'
 import StructureAnalysis from './catana/visualizations/structure-analysis'
@@ -298,6 +350,8 @@ import TrajectoryElement from './component/trajectory-element'
 import PluginManager from './catana/scripting/plugin-manager'
 import { PluginUIElemType, PluginUIElemTypeRecord, PluginUIModal } from './catana/scripting/plugin-ui'
 import ScriptingApi from './catana/scripting/scripting-api'
+import { parseScriptArguments, splitCommandLine, runJsPyScript, ScriptExitCode, ScriptRunParams, ScriptRunResult } from './catana/scripting/script-runner'
+import { toJsonValue } from './catana/utils/json-utils'
 
 if (!(window as any).Promise) {
   (window as any).Promise = _Promise
@@ -315,6 +369,8 @@ export {
   Colormaker,
   Filter,
   PdbWriter,
+  MmcifWriter,
+  MmcifWriterParams,
   SdfWriter,
   StlWriter,
   Stage,
@@ -390,28 +446,112 @@ export {
   duplicateComponentContainingStructure,
   convertCgStrucCompToAaStrucComp,
   convertAaStrucCompToCgStrucComp,
+  convertSurfaceCompToWireframeDna,
+  superposeComponents,
+  applyWorldTransformation,
   mergeStructures,
   transformStructureToOxDnaGeometry,
   MultiObjectsStorage,
   UnfWriter,
   FastaWriter,
+  CadnanoWriter,
+  StapleListWriter,
+  StapleListWriterParams,
+  HelicalParametersWriter,
+  computeHelicalParameters,
+  createHelicalParametersCsv,
+  HelixParameters,
+  BasePairParameters,
+  BasePairStepParameters,
+  StaplePoolGrouping,
+  PlateFormat,
+  PlateFormats,
+  WellOrder,
+  analyzeSequences,
+  analyzeStrandSequences,
+  getMeltingTemperature,
+  SequenceAnalysisInput,
+  SequenceAnalysisParameters,
+  SequenceAnalysisResult,
+  MultipleAlignment,
+  getConservation,
+  alignProteinSequences,
+  getMsaResidueIndex,
+  getProteinSequences,
+  MsaParams,
+  MsaSequence,
+  StructureMsa,
+  ConservationColorMaker,
+  setConservationAlignment,
+  OxDnaWriter,
+  GltfWriter,
+  GltfWriterParams,
+  getGltfScene,
+  getGltfComponentNode,
+  GltfNode,
+  GltfPrimitive,
+  GltfRepresentationData,
+  GltfSceneParams,
+  CatanaSessionWriter,
+  CatanaSession,
+  SessionExtension,
   LatticeType,
   CLICommandsParser,
   RigidBodySimulator,
   StructureCluster,
   RbJoint,
   ClusterAlgorithms,
+  CgRelaxation,
+  CgRelaxationProgress,
+  RelaxCgStructureCommand,
+  CatanaHistory,
+  Command,
+  ApplyScaffoldSequenceCommand,
+  BuiltInScaffolds,
+  ScaffoldSequenceRecord,
+  ScaffoldSequenceResult,
+  loadScaffoldSequence,
+  AutoStapleCommand,
+  autoStaple,
+  AutoStapleParameters,
+  AutoStapleResult,
+  generateScaffoldRouting,
+  getScaffoldRoutingSummary,
+  LatticeCell,
+  ScaffoldRoutingParameters,
+  ScaffoldRoutingResult,
+  generateWireframeDna,
+  getWireframeDnaSummary,
+  WireframeDnaParameters,
+  WireframeDnaResult,
+  WireframeMesh,
+  UpdateStrandGeometryCommand,
+  SetPolymerSequenceCommand,
   AtomGenerationLimit,
   StructureAnalysis,
   LineChart,
   BarChart,
   D3Chart,
   TrajectoryElement,
+  CgTrajectory,
+  CgFrame,
+  CgFrames,
+  InMemoryCgFrames,
+  OxDnaCgFrames,
+  getCgFrame,
+  setCgFrame,
   PluginManager,
   PluginUIModal,
   PluginUIElemTypeRecord,
   PluginUIElemType,
   ScriptingApi,
+  runJsPyScript,
+  parseScriptArguments,
+  splitCommandLine,
+  toJsonValue,
+  ScriptExitCode,
+  ScriptRunParams,
+  ScriptRunResult,
   // Catana enums
   GizmoMode,
   StructureElementType,
@@ -419,12 +559,13 @@ export {
   // Catana states
   CatanaStateData,
   CgNucleicAcidCreateState, CreateLatticeState, CgRemoveState, CgNucleicAcidCreateComplementaryState,
-  CgNucleicAcidConnectState, CgNucleicAcidExtendState, CgNucleicAcidChangeTypeState,
+  CgNucleicAcidConnectState, CgNucleicAcidExtendState, CgNucleicAcidChangeTypeState, CgScaffoldRoutingState,
   ProteinRemoveState, ProteinAddAminoAcidsState, ProteinMutateAminoAcidState,
   MoveState, CenterState,
   // Sequence providers
   FastaSequenceProvider, RandomNaSequenceProvider,
   CatanaState,
   // DNA forms
-  DnaForm, BDnaForm, BDnaIdealisticForm
+  DnaForm, BDnaForm, BDnaIdealisticForm, BDnaSequenceDependentForm,
+  DinucleotideStepTable, Olson1998StepParams, getDinucleotideStepParams
 }
\ No newline at end of file
@@ -2,10 +2,11 @@ import PickingProxy from "../../controls/picking-proxy";
 import Stage from "../../stage/stage";
 import CgStructureComponent from "../component/cg-structure-component";
 import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
-import {getComplementaryBase, oneLetterCodeToNucleobaseType} from "../data_model/types_declarations/monomer-types";
+import {oneLetterCodeToNucleobaseType} from "../data_model/types_declarations/monomer-types";
 import {CatanaState} from "./catana-state";
 import CatanaStateData from "./catana-state-data";
 import CatanaRendering from "../webgl/catana-rendering";
+import ChangeNucleobaseTypeCommand from "../history/c-change-nucleobase-type";
 
 /**
  * CatanaState to change the type of a nucleic acid (A, C, T, G, U)
@@ -32,12 +33,8 @@ export class CgNucleicAcidChangeTypeState extends CatanaState {
 
         const np: CgNucleotideProxy = pickingProxy.cgNucleotide;
         const thisNbType = oneLetterCodeToNucleobaseType(this._stateData.ntName);
-        np.nucleobaseType = thisNbType;
 
-        const compNp = np.pairedNucleotide;
-        if (this._stateData.changeAlsoComplementary && compNp) {
-            compNp.nucleobaseType = getComplementaryBase(thisNbType, np.parentStrand.naType);
-        }
+        stage.catanaHistory.do(new ChangeNucleobaseTypeCommand(np, thisNbType, this._stateData.changeAlsoComplementary));
 
         if (pickingProxy.component instanceof CgStructureComponent) {
             (pickingProxy.component as CgStructureComponent).updateRepresentations(CatanaState.WHAT);
@@ -9,7 +9,6 @@ import CgNucleotideBondProxy from "../data_model/proxy/cg-nucleotide-bond-proxy"
 import { CgNucleotideBondComponent } from "../component/cg-nucleotide-bond-component";
 import CgStructure from "../data_model/cg-structure";
 import ConnectNaStrandsCommand from "../history/c-connect-na-strands";
-import { appendCgStructuresShallow } from "../utils/catana-utils";
 import { Matrix4 } from "three";
 import CatanaRendering from "../webgl/catana-rendering";
 
@@ -125,19 +124,14 @@ export class CgNucleicAcidConnectState extends CatanaState {
             const np = this._endData.endNucleotide;
 
             const npParentStrand = np.parentStrand;
-            const npParentStructure = np.parentStructure!;
-            const npComponent = npParentStructure.parentComponent!;
-
-            if (this._data.structure !== npParentStructure) {
-                const transfMatrix = new Matrix4().getInverse(this._data.pickingComponent.matrix).clone().multiply(npComponent.matrix);
-                appendCgStructuresShallow(this._data.structure, npParentStructure, transfMatrix);
-                stage.removeComponent(npComponent);
-            }
+            const npComponent = np.parentStructure!.parentComponent!;
+            const transfMatrix = new Matrix4().getInverse(this._data.pickingComponent.matrix).clone().multiply(npComponent.matrix);
 
             stage.catanaHistory.do(new ConnectNaStrandsCommand(
                 this._data.naStrand,
                 this._data.directionality,
-                npParentStrand));
+                npParentStrand,
+                transfMatrix));
 
             this._data.pickingComponent.updateRepresentations(CatanaState.WHAT);
             this._data.pickingComponent.updateMatrix();
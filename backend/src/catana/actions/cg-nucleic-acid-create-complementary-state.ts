@@ -5,6 +5,7 @@ import CgStructureComponent from "../component/cg-structure-component";
 import CatanaRendering from "../webgl/catana-rendering";
 import {getRepresentationByOid} from "../utils/catana-utils";
 import {CgStructureRepresentation} from "../representation/structure/cg-structure-representation";
+import CreateComplementaryStrandCommand from "../history/c-create-complementary-strand";
 
 /**
  * CatanaState to create a complementary nucleic acid strand
@@ -25,10 +26,7 @@ export class CgNucleicAcidCreateComplementaryState extends CatanaState {
         const strand = pickingProxy.cgNucleotide?.parentStrand ?? pickingProxy.cgNucleotideBond?.parentStrand;
 
         if (strand) {
-            const newHelix = CatanaState.dnaFactory.buildComplementaryHelix(strand);
-            if (newHelix.length > 0) {
-                strand.parentStructure?.addNaStrand(newHelix);
-            }
+            stage.catanaHistory.do(new CreateComplementaryStrandCommand(strand, CatanaState.dnaFactory));
 
             if (component instanceof CgStructureComponent) {
                 (component as CgStructureComponent).updateRepresentations(CatanaState.WHAT);
@@ -8,6 +8,7 @@ import {NucleicAcidStrandEnd} from "../data_model/types_declarations/polymer-typ
 import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
 import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
 import {NaStrandCreatorComponent} from "../component/cg-na-strand-creator-component";
+import ExtendNaStrandCommand from "../history/c-extend-na-strand";
 import NucleicAcidStrandCreator from "../nanomodeling/nucleic-acid-strand-creator";
 import {getPointOnLine1ClosestToLine2, getStageCameraPointOnPlane} from "../utils/catana-utils";
 
@@ -91,12 +92,14 @@ export class CgNucleicAcidExtendState extends CatanaState {
             const matrixInverse = new Matrix4().getInverse(this.data.pickingComponent.matrix);
             const direction = CgNucleicAcidExtendState._transform(0, matrixInverse, directionTransformed);
 
-            if (this.stateData.extendDoubleStrand) {
-                CatanaState.dnaFactory.extendDoubleHelix(this.data.naStrand, this.data.directionality,
-                    numOfNewNucleotides, direction);
+            const command = new ExtendNaStrandCommand(this.data.naStrand, this.data.directionality,
+                numOfNewNucleotides, direction, this.stateData.extendDoubleStrand, CatanaState.dnaFactory);
+
+            // Strands not belonging to any structure (e.g., of the strand creator) are not tracked by the history
+            if (this.data.naStrand.parentStructure) {
+                this.data.stage.catanaHistory.do(command);
             } else {
-                CatanaState.dnaFactory.extendHelix(this.data.naStrand, this.data.directionality,
-                    numOfNewNucleotides, direction);
+                command.do();
             }
 
 
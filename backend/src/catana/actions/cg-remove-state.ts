@@ -6,6 +6,7 @@ import CatanaRendering from "../webgl/catana-rendering";
 import {CgStructureElementType, StructureElementType} from "../data_model/types_declarations/element-type";
 import {getCursorType, getRepresentationByOid, setCursorType, setCursorTypeCustom} from "../utils/catana-utils";
 import {CgStructureRepresentation} from "../representation/structure/cg-structure-representation";
+import RemoveCgElementCommand from "../history/c-remove-cg-element";
 
 /**
  * CatanaState to remove a structure element (see StructureElementType)
@@ -43,41 +44,8 @@ export class CgRemoveState extends CatanaState {
 
         const component = pickingProxy.component;
 
-        if (pickingProxy.cgNucleotide !== undefined) {
-            const parentStrand = pickingProxy.cgNucleotide.parentStrand;
-            if (this._removalType === StructureElementType.RESIDUE) {
-                const strToAdd = parentStrand.breakAtNucleotide(pickingProxy.cgNucleotide);
-                if (strToAdd !== undefined) {
-                    parentStrand.parentStructure!.addNaStrand(strToAdd);
-                }
-            } else {
-                parentStrand.parentStructure?.removeNaStrand(parentStrand);
-            }
-        } else if (pickingProxy.cgNucleotideBond !== undefined) {
-            const nts = pickingProxy.cgNucleotideBond.nucleotides;
-            const parentStrand = nts[0]?.parentStrand;
-
-            if (this._removalType === StructureElementType.RESIDUE) {
-                if (parentStrand !== undefined) {
-                    const strToAdd = parentStrand.breakAfterNucleotide(nts[0]!);
-                    if (strToAdd !== undefined) {
-                        parentStrand.parentStructure!.addNaStrand(strToAdd);
-                    }
-                }
-            } else {
-                parentStrand?.parentStructure?.removeNaStrand(parentStrand);
-            }
-        } else if (pickingProxy.cgAminoAcid !== undefined) {
-            const parentChain = pickingProxy.cgAminoAcid.parentChain;
-            if (this._removalType === StructureElementType.RESIDUE) {
-                const chainToAdd = parentChain.breakAtAminoAcid(pickingProxy.cgAminoAcid);
-                if (chainToAdd !== undefined) {
-                    parentChain.parentStructure!.addAaChain(chainToAdd);
-                }
-            } else {
-                parentChain.parentStructure?.removeAaChain(parentChain);
-            }
-        }
+        const element = pickingProxy.cgNucleotide ?? pickingProxy.cgNucleotideBond ?? pickingProxy.cgAminoAcid!;
+        stage.catanaHistory.do(new RemoveCgElementCommand(element, this._removalType));
 
         if (component instanceof CgStructureComponent) {
             (component as CgStructureComponent).updateRepresentations(CatanaState.WHAT);
@@ -0,0 +1,193 @@
+import {CatanaState} from "./catana-state";
+import Stage from "../../stage/stage";
+import PickingProxy from "../../controls/picking-proxy";
+import Annotation from "../../component/annotation";
+import {Log} from "../../globals";
+import CatanaRendering from "../webgl/catana-rendering";
+import Lattice from "../nanomodeling/lattices/lattice";
+import {generateScaffoldRouting, getScaffoldRoutingSummary, LatticeCell} from "../nanomodeling/scaffold-routing";
+import {getScaffoldSequenceLength} from "../nanomodeling/scaffold-sequence";
+import MultiObjectsStorage from "../utils/multi-objects-storage";
+
+/**
+ * CatanaState to generate a scaffold routed through the selected lattice cells
+ */
+export class CgScaffoldRoutingState extends CatanaState {
+
+    /**
+     * Length of the generated helices (in base-pairs)
+     */
+    public helixLength: number = 64;
+
+    /**
+     * If true, the generated scaffold is cyclic
+     */
+    public isCircular: boolean = true;
+
+    /**
+     * Name of a built-in scaffold or a custom sequence intended for the design (empty if none is intended)
+     */
+    public scaffold: string = "";
+
+    private lattice: Lattice | null = null;
+    private cells: LatticeCell[] = [];
+    private annotations: Annotation[] = [];
+
+    /**
+     * @returns lattice cells selected so far (in the order of selection)
+     */
+    public get selectedCells(): LatticeCell[] {
+        return this.cells.slice();
+    }
+
+    /**
+     * Generates the scaffold through the selected cells and adds it to the stage.
+     * The selection is cleared if the generation succeeds.
+     *
+     * @returns true if the scaffold was generated
+     */
+    public generate(stage: Stage): boolean {
+        if (!this.lattice || this.cells.length === 0) {
+            Log.warn("No lattice cells selected.");
+            return false;
+        }
+
+        const result = generateScaffoldRouting(this.lattice, this.cells, {
+            helixLength: this.helixLength,
+            isCircular: this.isCircular,
+            scaffoldLength: this.scaffold ? getScaffoldSequenceLength(this.scaffold) : undefined,
+            name: "Scaffold_" + stage.compList.length
+        });
+
+        if (!result.structure) {
+            Log.error(getScaffoldRoutingSummary(result));
+            return false;
+        }
+
+        Log.info(getScaffoldRoutingSummary(result));
+
+        const comps = stage.addComponentFromObject(new MultiObjectsStorage([result.structure]));
+        stage.defaultFileRepresentation(comps[0]);
+
+        this.clearData();
+
+        return true;
+    }
+
+    /**
+     * Selects the clicked lattice cell (or deselects it if it was already selected).
+     * Selecting a cell of a different lattice clears the current selection.
+     * @returns True if a lattice cell was clicked. False otherwise
+     */
+    public _click_left(stage: Stage, pickingProxy: PickingProxy | undefined): boolean {
+        if (!pickingProxy || !pickingProxy.latticeCell) {
+            return false;
+        }
+
+        const lattice = pickingProxy.latticeCell.lattice;
+        const coords = pickingProxy.latticeCell.coordinates;
+        const cell: LatticeCell = {row: coords.rowi, col: coords.coli};
+
+        if (lattice !== this.lattice) {
+            this.clearData();
+            this.lattice = lattice;
+        }
+
+        const idx = this.cells.findIndex(c => c.row === cell.row && c.col === cell.col);
+        if (idx >= 0) {
+            this.cells.splice(idx, 1);
+        } else {
+            this.cells.push(cell);
+        }
+
+        this.updateAnnotations();
+
+        return true;
+    }
+
+    /**
+     * If a lattice cell is being picked, highlight it visually
+     * @returns False
+     */
+    public _hover(stage: Stage, pickingProxy: PickingProxy | undefined): boolean {
+        if (pickingProxy && pickingProxy.latticeCell) {
+            stage.viewer.smartSelect(undefined, undefined, pickingProxy, CatanaRendering.SELECTION_COLORS.POSITIVE);
+        }
+        return false;
+    }
+
+    /**
+     * Do nothing
+     * @returns False
+     */
+    public _down_left(stage: Stage, pickingProxy: PickingProxy | undefined): boolean {
+        return false;
+    }
+    public _up_left(stage: Stage, pickingProxy: PickingProxy | undefined): boolean {
+        return false;
+    }
+    public _drag_left(stage: Stage, pickingProxy: PickingProxy | undefined): boolean {
+        return false;
+    }
+
+    /**
+     * If "Enter" is pressed, the scaffold is generated (and this state exited, see 'CatanaState.done()').
+     * If "Escape" is pressed, the selection is cleared
+     * @returns True if the key was handled. False otherwise
+     */
+    public _keyDown(stage: Stage, key: string): boolean {
+        if (key === "Enter") {
+            if (this.generate(stage)) this.done(stage);
+            return true;
+        } else if (key === "Escape" && this.cells.length > 0) {
+            this.clearData();
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Do nothing
+     */
+    public _enter(): void { }
+
+    /**
+     * Cleans up side effects
+     */
+    public _exit(): void {
+        this.clearData();
+    }
+
+    /**
+     * Shows the order of the selected cells
+     */
+    private updateAnnotations() {
+        const comp = this.lattice?.parentComponent;
+        this.annotations.forEach(a => comp?.removeAnnotation(a));
+        this.annotations = [];
+
+        if (!comp || !this.lattice) return;
+
+        this.cells.forEach((c, i) => {
+            this.annotations.push(comp.addAnnotation(this.lattice!.getPosition(c.row, c.col, 0, false),
+                (i + 1).toString(), {applyFog: false}));
+        });
+    }
+
+    private clearData() {
+        this.cells = [];
+        this.updateAnnotations();
+        this.lattice = null;
+    }
+
+    protected _descriptions(): [string, string][] {
+        return [
+            ["Click", "Select or deselect lattice cell"],
+            ["Enter", "Generate scaffold"],
+            ["Escape", "Clear selection"],
+            ["Hold shift", "Continue creating"]
+        ];
+    }
+}
+
+export default CgScaffoldRoutingState;
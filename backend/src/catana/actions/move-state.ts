@@ -9,6 +9,7 @@ import CatanaStateData from "./catana-state-data";
 import StructureComponent from "../../component/structure-component";
 import CgStructureComponent from "../component/cg-structure-component";
 import Component from "../../component/component";
+import TransformComponentCommand from "../history/c-transform-component";
 
 class MoveStateClickData {
     stage: Stage;
@@ -38,6 +39,15 @@ class MoveStateDragData {
 
 type Mode = "translate" | "rotate";
 
+/**
+ * Placement of a component at the start of its transformation
+ */
+interface TransformStart {
+    component: Component;
+    position: Vector3;
+    rotation: Quaternion;
+}
+
 /**
  * CatanaState to move (translate or rotate) components
  */
@@ -49,12 +59,21 @@ class MoveState extends CatanaState {
     private clickData: MoveStateClickData | null = null;
     private dragData: MoveStateDragData | null = null;
 
+    private transformStart: TransformStart | null = null;
+
     private blockUpdate: boolean = false;
     private readonly onComponentMatrixChangedFun = () => {
         if (this.blockUpdate) return;
         // TODO: Don't just exit... update the stage.catanaVisManager.transformGizmo's position and rotation
         this.exit();
     }
+    private readonly onGizmoDragStartedFun = () => {
+        const comp = this.clickData?.pickingProxy?.component;
+        if (comp) this.startTransform(comp);
+    }
+    private readonly onGizmoDragEndedFun = () => {
+        if (this.clickData) this.finishTransform(this.clickData.stage);
+    }
 
     public constructor(mode: Mode, stateData: CatanaStateData) {
         super();
@@ -166,6 +185,7 @@ class MoveState extends CatanaState {
             const pos = pickingProxy.position.clone();
             const mousePos = stage.mouseObserver.canvasPosition;
             this.dragData = new MoveStateDragData(pos, pickingProxy, mousePos.x, mousePos.y);
+            this.startTransform(pickingProxy.component);
             stage.viewer.setCursor("grabbing");
             return true;
         }
@@ -179,6 +199,7 @@ class MoveState extends CatanaState {
         this._hover(stage, pickingProxy); // TODO: Not very elegant.
         if (this.dragData) {
             this.dragData = null;
+            this.finishTransform(stage);
             return true;
         }
         return false;
@@ -262,6 +283,8 @@ class MoveState extends CatanaState {
 
         const comp = data.pickingProxy.component;
         comp.signals.matrixChanged.add(this.onComponentMatrixChangedFun);
+        data.stage.catanaVisManager.gizmoTransform.signals.dragStarted.add(this.onGizmoDragStartedFun);
+        data.stage.catanaVisManager.gizmoTransform.signals.dragEnded.add(this.onGizmoDragEndedFun);
 
         this.clickData = data;
 
@@ -273,6 +296,8 @@ class MoveState extends CatanaState {
             this.clickData.stage.catanaVisManager.gizmoTransform.setVisible(false);
             this.clickData.stage.catanaVisManager.gizmoTransform.setMode(GizmoMode.NONE);
             this.clickData.pickingProxy?.component?.signals.matrixChanged.remove(this.onComponentMatrixChangedFun); // TODO: hotfix
+            this.clickData.stage.catanaVisManager.gizmoTransform.signals.dragStarted.remove(this.onGizmoDragStartedFun);
+            this.clickData.stage.catanaVisManager.gizmoTransform.signals.dragEnded.remove(this.onGizmoDragEndedFun);
             this.clickData.stage.viewer.requestRender();
         }
         this.clickData = null;
@@ -281,6 +306,35 @@ class MoveState extends CatanaState {
     private clearData() {
         this.clearClickData();
         this.dragData = null;
+        this.transformStart = null;
+    }
+
+    /**
+     * Stores the placement of the component before it gets transformed
+     */
+    private startTransform(comp: Component) {
+        this.transformStart = {
+            component: comp,
+            position: comp.position.clone(),
+            rotation: comp.quaternion.clone()
+        };
+    }
+
+    /**
+     * Stores the finished transformation in the history (if the component was really transformed)
+     */
+    private finishTransform(stage: Stage) {
+        if (!this.transformStart) return;
+
+        const start = this.transformStart;
+        this.transformStart = null;
+
+        const command = new TransformComponentCommand(start.component, start.position, start.rotation);
+        if (command.isTransformed) {
+            this.blockUpdate = true;
+            stage.catanaHistory.do(command);
+            this.blockUpdate = false;
+        }
     }
 
     protected _descriptions(): [string, string][] {
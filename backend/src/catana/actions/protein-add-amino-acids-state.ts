@@ -4,6 +4,7 @@ import {getChainTerminusDirection, getChainTerminusResidue} from "../../structur
 import {getCursorType, getRepresentationByOid, setCursorType, setCursorTypeCustom} from "../utils/catana-utils";
 import ProteinBaseState from "./protein-base-state";
 import StructureComponent from "../../component/structure-component";
+import ProteinAddAminoAcidsCommand from "../history/c-protein-add-amino-acids";
 import CatanaStateData from "./catana-state-data";
 import StructureRepresentation from "../../representation/structure-representation";
 import AtomProxy from "../../proxy/atom-proxy";
@@ -207,8 +208,14 @@ export class ProteinAddAminoAcidsState extends ProteinBaseState {
         if (!this.data) return;
         const direction = this.data.stage.catanaVisManager.dirSel.hemisphere.direction;
         const scope = this;
-        for (const aaName of ProteinAddAminoAcidsState.parseAAString(this.stateData.aaName)) {
-            this.catanaProteinActions.addAminoAcids(this.data.stage, this.data.pickingProxy, direction,
+        const stage = this.data.stage;
+        const aaNames = ProteinAddAminoAcidsState.parseAAString(this.stateData.aaName);
+        const component = this.data.pickingProxy.component;
+        const command = component instanceof StructureComponent ?
+            new ProteinAddAminoAcidsCommand(component, aaNames) : undefined;
+
+        const promises = aaNames.map(aaName =>
+            this.catanaProteinActions.addAminoAcids(stage, this.data!.pickingProxy, direction,
                 aaName,
                 this.stateData.chainEndToAppendAATo,
                 this.stateData.count).then(() => {
@@ -216,8 +223,14 @@ export class ProteinAddAminoAcidsState extends ProteinBaseState {
                     (scope.data.pickingProxy.component as StructureComponent).rebuildRepresentations();
                     scope.showTerminusVis(scope.data.stage, scope.data.pickingProxy);
                     scope.data.stage.viewer.requestRender();
-                });
-        }
+                }));
+
+        // All the additions are undone at once
+        Promise.all(promises).then(() => {
+            if (command) {
+                stage.catanaHistory.do(command);
+            }
+        });
     }
 
     private static parseAAString(aas: string): string[] {
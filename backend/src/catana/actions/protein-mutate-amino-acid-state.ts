@@ -4,6 +4,7 @@ import {getCursorType, setCursorType, setCursorTypeCustom} from "../utils/catana
 import ProteinBaseState from "./protein-base-state";
 import CatanaStateData from "./catana-state-data";
 import StructureComponent from "../../component/structure-component";
+import ProteinMutateAminoAcidCommand from "../history/c-protein-mutate-amino-acid";
 
 /**
  * CatanaState to mutate amino acids
@@ -22,10 +23,17 @@ class ProteinMutateAminoAcidState extends ProteinBaseState {
      */
     public _click_left(stage: Stage, pickingProxy: PickingProxy): boolean {
         if (pickingProxy && pickingProxy.residue) {
+            const component = pickingProxy.component;
+            const command = component instanceof StructureComponent ?
+                new ProteinMutateAminoAcidCommand(component, this.stateData.aaName) : undefined;
+
             this.catanaProteinActions.mutateAminoAcid(stage, pickingProxy,
                 this.stateData.aaName).then(() => {
-                    if (pickingProxy.component instanceof StructureComponent) {
-                        pickingProxy.component.rebuildRepresentations();
+                    if (component instanceof StructureComponent) {
+                        component.rebuildRepresentations();
+                    }
+                    if (command) {
+                        stage.catanaHistory.do(command);
                     }
                 });
             this.done(stage);
@@ -5,6 +5,8 @@ import ProteinBaseState from "./protein-base-state";
 import CatanaRendering from "../webgl/catana-rendering";
 import {StructureElementType} from "../data_model/types_declarations/element-type";
 import StructureRepresentation from "../../representation/structure-representation";
+import StructureComponent from "../../component/structure-component";
+import ProteinRemoveCommand from "../history/c-protein-remove";
 
 /**
  * CatanaState for the removal of proteins/protein elements (see StructureElementType)
@@ -42,7 +44,14 @@ class ProteinRemoveState extends ProteinBaseState {
      * Removed the clicked element
      */
     public _click_left(stage: Stage, pickingProxy: PickingProxy): boolean {
+        const command = pickingProxy?.component instanceof StructureComponent && pickingProxy.atom ?
+            new ProteinRemoveCommand(pickingProxy.component, this._removalType) : undefined;
+
         this.removalFunction(stage, pickingProxy);
+
+        if (command) {
+            stage.catanaHistory.do(command);
+        }
         this.done(stage);
         return true; // TODO Since there was an issue with removal when false was returned, I am returning true now just in case
     }
@@ -194,6 +194,16 @@ export class CatanaSelection {
         this.signals.selectionChanged.dispatch();
     }
 
+    public selectComponents(components: Component[]) {
+        if (components.length === 0) {
+            this.unselect();
+            return;
+        }
+        this._selection = new ComponentSelection();
+        components.forEach(c => this._selection!.add(c));
+        this.signals.selectionChanged.dispatch();
+    }
+
     public selectRepresentation(representation: Representation | RepresentationElement, parentComponent: Component) {
         this._selection = new RepresentationSelection();
         representation = CatanaSelection.getRepresentation(representation);
@@ -39,16 +39,7 @@ export class CgCrossoverColorMaker extends Colormaker {
     }
 
     private isInCrossover(m: CgMonomerProxy | null): boolean {
-        if (!m || !(m instanceof CgNucleotideProxy)) {
-            return false;
-        }
-
-        const prevNt = m.parentStrand.getNucleotideProxy(m.index - 1);
-        const nextNt = m.parentStrand.getNucleotideProxy(m.index + 1);
-        const bn = m.baseNormal;
-
-        return (!!nextNt && bn.dot(nextNt.baseNormal) < 0) ||
-            (!!prevNt && bn.dot(prevNt.baseNormal) < 0);
+        return m instanceof CgNucleotideProxy && m.isInCrossover();
     }
 }
 
@@ -0,0 +1,62 @@
+import Colormaker, { CgStructureColormakerParams, ColormakerScale } from "../../color/colormaker";
+import { ColormakerRegistry } from "../../globals";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import CgMonomerBondProxy from "../data_model/proxy/cg-monomer-bond-proxy";
+import CgMonomerProxy from "../data_model/proxy/cg-monomer-proxy";
+import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
+import { getMeltingTemperature } from "../utils/catana-sequence-analysis";
+
+/**
+  * Colors nucleic acid strands by the nearest-neighbour melting temperature of their sequence
+  * (see {@link getMeltingTemperature}). By default, the min and max temperatures are used for the scale's domain.
+  * Other polymers and strands whose temperature cannot be computed get the 'value' color.
+  */
+export class CgMeltingTemperatureColorMaker extends Colormaker {
+    private readonly _temperatures = new Map<CgNucleicAcidStrand, number>();
+    private readonly _tmScale: ColormakerScale;
+
+    constructor(params: CgStructureColormakerParams) {
+        super(params);
+
+        if (!params.scale) {
+            // Reversed so that high temperatures are red and low ones blue
+            this.parameters.scale = "RdYlBu";
+            this.parameters.reverse = !params.reverse;
+        }
+
+        let min = Infinity;
+        let max = -Infinity;
+
+        params.cgStructure?.forEachNaStrand(strand => {
+            const tm = getMeltingTemperature(strand.sequence.join(""));
+            if (!isNaN(tm)) {
+                this._temperatures.set(strand, tm);
+                min = Math.min(min, tm);
+                max = Math.max(max, tm);
+            }
+        });
+
+        if (!params.domain) {
+            this.parameters.domain = min <= max ? [min, max] : [0, 1];
+        }
+
+        this._tmScale = this.getScale();
+    }
+
+    public monomerColor(m: CgMonomerProxy): number {
+        return this.getColor(m);
+    }
+
+    public monomerBondColor(b: CgMonomerBondProxy): number {
+        return this.getColor(b.bondStartPolymer.proxyAtIndex(b.bondStartIndex));
+    }
+
+    private getColor(m: CgMonomerProxy | null): number {
+        const tm = m instanceof CgNucleotideProxy ? this._temperatures.get(m.parentStrand) : undefined;
+        return tm !== undefined ? this._tmScale(tm) : this.parameters.value;
+    }
+}
+
+ColormakerRegistry.add("melting temperature", CgMeltingTemperatureColorMaker as any);
+
+export default CgMeltingTemperatureColorMaker;
@@ -0,0 +1,98 @@
+import Colormaker, { CgStructureColormakerParams, ColormakerScale } from "../../color/colormaker";
+import { ColormakerRegistry } from "../../globals";
+import AtomProxy from "../../proxy/atom-proxy";
+import Structure from "../../structure/structure";
+import CgPolymer from "../data_model/cg-polymer";
+import CgMonomerBondProxy from "../data_model/proxy/cg-monomer-bond-proxy";
+import CgMonomerProxy from "../data_model/proxy/cg-monomer-proxy";
+import { getMsaResidueIndex, StructureMsa } from "../utils/catana-sequence-alignment";
+
+// Conservation values of the aligned residues (all-atom structures) and monomers (coarse-grained structures).
+// Weak maps are used so that the values do not keep removed structures alive.
+let _residueConservation = new WeakMap<Structure, Map<number, number>>();
+let _monomerConservation = new WeakMap<CgPolymer, Map<number, number>>();
+
+/**
+ * Sets the multiple sequence alignment whose column conservation is used by the "conservation" color scheme.
+ * Residues of the aligned chains get the conservation of their alignment column,
+ * the values of a previously set alignment are discarded.
+ *
+ * @param msa multiple sequence alignment (see {@link alignProteinSequences})
+ */
+export function setConservationAlignment(msa: StructureMsa): void {
+    _residueConservation = new WeakMap();
+    _monomerConservation = new WeakMap();
+
+    msa.sequences.forEach((seq, row) => {
+        const values = new Map<number, number>();
+        msa.conservation.forEach((c, column) => {
+            const idx = getMsaResidueIndex(msa, row, column);
+            if (idx >= 0) values.set(idx, c);
+        });
+
+        if (seq.polymer) {
+            _monomerConservation.set(seq.polymer, values);
+        } else if (seq.component.type === "structure") {
+            const structure = (seq.component.object as Structure).getStructure() as Structure;
+            const existing = _residueConservation.get(structure);
+            if (existing) {
+                values.forEach((c, idx) => existing.set(idx, c));
+            } else {
+                _residueConservation.set(structure, values);
+            }
+        }
+    });
+}
+
+/**
+ * Colors protein residues by the conservation of their column in the multiple sequence alignment
+ * set via {@link setConservationAlignment}. Conservation is computed from the Shannon entropy of the column
+ * (see {@link getConservation}), so the domain of the scale is [0, 1].
+ * Residues not taking part in the alignment get the 'value' color.
+ */
+export class ConservationColorMaker extends Colormaker {
+    private readonly _conservationScale: ColormakerScale;
+
+    constructor(params: CgStructureColormakerParams) {
+        super(params);
+
+        if (!params.scale) {
+            // Reversed so that conserved residues are red and variable ones blue
+            this.parameters.scale = "RdYlBu";
+            this.parameters.reverse = !params.reverse;
+        }
+        if (!params.domain) {
+            this.parameters.domain = [0, 1];
+        }
+        if (params.value === undefined) {
+            this.parameters.value = 0xCCCCCC;
+        }
+
+        this._conservationScale = this.getScale();
+    }
+
+    public atomColor(a: AtomProxy): number {
+        const values = _residueConservation.get(a.structure.getStructure() as Structure);
+        return this.conservationColor(values?.get(a.residueIndex));
+    }
+
+    public monomerColor(m: CgMonomerProxy): number {
+        return this.conservationColor(_monomerConservation.get(m.getParentPolymer())?.get(m.index));
+    }
+
+    public monomerBondColor(b: CgMonomerBondProxy): number {
+        return this.monomerColor(b.bondStartPolymer.proxyAtIndex(b.bondStartIndex)!);
+    }
+
+    /**
+     * @param conservation conservation value between 0 and 1
+     * @returns color of the given conservation value, or the 'value' color if undefined
+     */
+    public conservationColor(conservation: number | undefined): number {
+        return conservation !== undefined ? this._conservationScale(conservation) : this.parameters.value;
+    }
+}
+
+ColormakerRegistry.add("conservation", ConservationColorMaker as any);
+
+export default ConservationColorMaker;
@@ -1,19 +1,37 @@
 import { Box3 } from "three";
-import { ComponentParameters } from "../../component/component";
+import { Signal } from "signals";
+import Component, { ComponentParameters, ComponentSignals } from "../../component/component";
 import { ComponentRegistry } from "../../globals";
-import { Component, Stage } from "../../catana";
+import Stage from "../../stage/stage";
 import AtomProxy from "../../proxy/atom-proxy";
 import Representation from "../../representation/representation";
 import CgStructure from "../data_model/cg-structure";
 import Colormaker from "../../color/colormaker";
+import TrajectoryElement from "../../component/trajectory-element";
+import { TrajectoryParameters } from "../../trajectory/trajectory";
+import { CgFrames } from "../trajectory/cg-frames";
+import CgTrajectory from "../trajectory/cg-trajectory";
+
+export interface CgStructureComponentSignals extends ComponentSignals {
+    trajectoryAdded: Signal  // when a trajectory is added
+    trajectoryRemoved: Signal  // when a trajectory is removed
+}
 
 /**
  * Component representing an instance of coarse-grained structure.
  */
 class CgStructureComponent extends Component {
+    readonly signals: CgStructureComponentSignals;
+    readonly trajList: TrajectoryElement[] = [];
+
     constructor(stage: Stage, cgStructure: CgStructure, params: Partial<ComponentParameters> = {}) {
         super(stage, cgStructure, Object.assign({ name: cgStructure.name }, params));
 
+        this.signals = Object.assign(this.signals, {
+            trajectoryAdded: new Signal(),
+            trajectoryRemoved: new Signal()
+        });
+
         cgStructure.parentComponent = this;
     }
 
@@ -62,12 +80,49 @@ class CgStructureComponent extends Component {
         super.updateRepresentations(what);
     }
 
+    /**
+     * Adds a new coarse-grained trajectory to the structure.
+     * Representations are updated on every frame change without rebuilding their buffers.
+     *
+     * @param frames frames of the trajectory
+     * @param params trajectory parameters
+     * @returns element of the created trajectory
+     */
+    public addTrajectory(frames: CgFrames, params: { [k: string]: any } = {}): TrajectoryElement {
+        const traj = new CgTrajectory(frames, this.cgStructure, params as TrajectoryParameters);
+
+        traj.signals.frameChanged.add(() => {
+            this.updateRepresentations({ position: true });
+        });
+
+        const trajComp = new TrajectoryElement(this.stage, traj, params);
+        this.trajList.push(trajComp);
+        this.signals.trajectoryAdded.dispatch(trajComp);
+
+        return trajComp;
+    }
+
+    public removeTrajectory(traj: TrajectoryElement): void {
+        const idx = this.trajList.indexOf(traj);
+        if (idx !== -1) {
+            this.trajList.splice(idx, 1);
+        }
+
+        traj.dispose();
+
+        this.signals.trajectoryRemoved.dispatch(traj);
+    }
+
     public onUpdate(delta: number): void {
         super.onUpdate(delta);
         this.cgStructure?.refreshStructureIfNeeded();
     }
 
     public dispose() {
+        // copy via .slice because side effects may change trajList
+        this.trajList.slice().forEach(traj => traj.dispose());
+        this.trajList.length = 0;
+
         super.dispose();
         this.cgStructure.parentComponent = null;
         this.cgStructure.dispose();
@@ -5,6 +5,7 @@ import { DummyHoneycombLattice } from "../nanomodeling/lattices/dummy-honeycomb-
 import { DummySquareLattice } from "../nanomodeling/lattices/dummy-square-lattice";
 import { SquareLattice } from "../nanomodeling/lattices/square-lattice";
 import { Lattice, LatticeType } from "../nanomodeling/lattices/lattice";
+import LatticeLocator from "../nanomodeling/lattices/lattice-locator";
 import { Box3 } from "three";
 import { ComponentRegistry } from "../../globals";
 
@@ -87,6 +88,13 @@ export class LatticeComponent extends Component {
         }
     }
 
+    /**
+     * @returns locator mapping positions to the cells of this lattice in its current placement
+     */
+    public createLocator(): LatticeLocator {
+        return new LatticeLocator(this.lattice);
+    }
+
     public supportsColorScheme(scheme: any): boolean {
         return false;
     }
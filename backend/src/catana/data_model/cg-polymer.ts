@@ -1,5 +1,5 @@
 import { Color, Matrix4 } from "three";
-import { Filter } from "../../catana";
+import Filter from "../../filtering/filter";
 import { MethodInfluencesAtomData } from "../decorators/atom-generation-decorators";
 import GlobalIdGenerator from "../utils/global-id-generator";
 import CgStructure from "./cg-structure";
@@ -85,10 +85,11 @@ export abstract class CgPolymer {
             result.push(new CgPolymerView(this));
         } else if (!filter.isNoneFilter()) {
             let from: number = -1;
+            const test = filter.cgMonomerTest;
 
             this.forEachMonomer((mp, i) => {
                 // If this monomer should not be included
-                if (filter.cgMonomerTest && !filter.cgMonomerTest(mp)) {
+                if (test && !test(mp)) {
                     if (from >= 0) {
                         result.push(new CgPolymerView(this, from, i, false));
                         from = -1;
@@ -1,5 +1,7 @@
 import { Box3, Matrix4 } from "three";
-import { Log, RepresentationElement, Structure } from "../../catana";
+import { Log } from "../../globals";
+import Structure from "../../structure/structure";
+import type RepresentationElement from "../../component/representation-element";
 import MultiArrayIterator from "../utils/multi-array-iterator";
 import CgAminoAcidChain from "./cg-amino-acid-chain";
 import CgNucleicAcidStrand from "./cg-nucleic-acid-strand";
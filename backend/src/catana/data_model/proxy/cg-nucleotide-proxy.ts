@@ -276,6 +276,45 @@ class CgNucleotideProxy extends CgMonomerProxy {
         return this.isChainEnd();
     }
 
+    /**
+     * Checks if this nucleotide takes part in a crossover, i.e., if its base normal points
+     * in the opposite direction than the base normal of one of its neighbours.
+     * The result is approximate and may be incorrect for strongly deformed structures.
+     *
+     * @returns True if this nucleotide lies at a crossover
+     */
+    public isInCrossover(): boolean {
+        const prevNt = this.parentStrand.getNucleotideProxy(this.index - 1);
+        const nextNt = this.parentStrand.getNucleotideProxy(this.index + 1);
+        const bn = this.baseNormal;
+
+        return (!!nextNt && bn.dot(nextNt.baseNormal) < 0) ||
+            (!!prevNt && bn.dot(prevNt.baseNormal) < 0);
+    }
+
+    /**
+     * Checks if this nucleotide is a strand end separated from the end of another strand by a nick,
+     * i.e., if both ends are paired to consecutive nucleotides of the complementary strand.
+     *
+     * @returns True if this nucleotide lies at a nick
+     */
+    public isAtNick(): boolean {
+        const pair = this.pairedNucleotide;
+        if (!pair) {
+            return false;
+        }
+
+        // The complementary strand runs antiparallel, so the nucleotide paired with the one preceding
+        // this nucleotide's position follows the pair and vice versa
+        const isNeighbourEnd = (pairNeighbourIndex: number, fivePrime: boolean): boolean => {
+            const other = pair.parentStrand.getNucleotideProxy(pairNeighbourIndex)?.pairedNucleotide;
+            return !!other && (fivePrime ? other.isFivePrime() : other.isThreePrime());
+        };
+
+        return (this.isFivePrime() && isNeighbourEnd(pair.index + 1, false)) ||
+            (this.isThreePrime() && isNeighbourEnd(pair.index - 1, true));
+    }
+
     /**
      * @returns True if this nucleotide contains purine nucleobase
      */
@@ -90,11 +90,11 @@ class ClusterAlgorithms {
             const thisMonomers: CgMonomerProxy[] = [];
             const filterString = filters[i];
             const filt = new Filter(filterString);
+            const mt = filt.cgMonomerTest;
 
             for (let j = 0; j < allMonomers.length; ++j) {
                 if (!bitArray.isSet(j)) {
                     if (filt && filt.test) {
-                        const mt = filt.cgMonomerTest;
                         if (mt && mt(allMonomers[j])) {
                             thisMonomers.push(allMonomers[j]);
                             bitArray.set(j);
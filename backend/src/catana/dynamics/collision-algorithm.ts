@@ -0,0 +1,68 @@
+import {Box3, Matrix4} from "three";
+import StructureComponent from "../../component/structure-component";
+import CgStructureComponent from "../component/cg-structure-component";
+import Structure from "../../structure/structure";
+import {BitArray} from "../../utils/bitarray";
+
+export type AtomicComponent = StructureComponent | CgStructureComponent;
+
+export interface ComponentObject {
+    readonly c: AtomicComponent;
+    readonly s: Structure;
+}
+
+export interface CollisionAlgorithmCollisionParameters {
+    lenience: number
+}
+
+/**
+ * The collision detection part shared by all collision algorithms (WebGPU and CPU),
+ * so that CatanaCollision can use any of them interchangeably.
+ *
+ * The elements (atoms) of all components are indexed consecutively, i.e., the elements of a component
+ * are offset by the number of elements of all previous components (see CatanaCollision.collisions)
+ */
+export default interface CollisionAlgorithm {
+
+    /**
+     * The box where the collision detection is active
+     */
+    readonly gridBox: Box3;
+
+    /**
+     * Performs the first iteration of the collision detection
+     */
+    start(): Promise<any>;
+
+    /**
+     * Updates the matrix of a component and detects the collisions again
+     * @param c Component whose matrix will be updated
+     * @param matrix The new matrix of Component 'c'
+     */
+    updateComponent(c: AtomicComponent, matrix?: Matrix4): Promise<any>;
+
+    /**
+     * Resets the element positions of a component (making them precise again)
+     */
+    resetComponent(c: ComponentObject): void;
+
+    /**
+     * Gets the error/imprecision of the collision detection calculations for a specific component
+     * See WgCollisionAlgorithm.getError for a full explanation
+     */
+    getError(c: AtomicComponent): null | number;
+
+    /**
+     * Sets the parameters for the collision detection calculations
+     */
+    setCollisionUniforms(uniforms: CollisionAlgorithmCollisionParameters): void;
+
+    /**
+     * Reads the collision detection results as a BitArray
+     * 1 means this element collides with at least one other element
+     * 0 means this element does not collide with any other element
+     */
+    readAsBitArray(): Promise<BitArray>;
+
+    dispose(): void;
+}
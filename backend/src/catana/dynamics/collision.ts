@@ -1,6 +1,5 @@
 import Stage from "../../stage/stage";
 import WgCollisionAlgorithm, {
-    ComponentObject, WgCollisionAlgorithmCollisionParameters,
     WgCollisionAlgorithmRenderingParameters
 } from "../webgpu/algorithms/wg-collision-algorithm";
 import {Debug, Log} from "../../globals";
@@ -23,20 +22,27 @@ import {WgRendCollisionShaderMode} from "../webgpu/shaders/wg-rend-collision-sha
 import Viewer from "../../viewer/viewer";
 import {createBoundingBox} from "../../viewer/viewer-utils";
 import WgContext from "../webgpu/wg-context";
+import CollisionAlgorithm, {
+    AtomicComponent,
+    CollisionAlgorithmCollisionParameters,
+    ComponentObject
+} from "./collision-algorithm";
+import CpuCollisionAlgorithm from "./cpu-collision-algorithm";
+import CollisionMarkers from "../visualizations/collision-markers";
 
 interface CatanaCollisionSignals {
     collisionChanged: Signal;
     errorChanged: Signal;
 }
 
-type AtomicComponent = StructureComponent | CgStructureComponent;
-
 type ProcessData = { c: AtomicComponent, matrix: Matrix4 };
 
 /**
  * Manages the communication between Catana's back/frontend and the WebGPU classes
  * This achieves a nice isolation of the WebGPU code, so very few components of Catana have to be aware of its inner
  * workings. This class is one of these few components
+ * When WebGPU is not available, the collisions are detected on the CPU instead (see CpuCollisionAlgorithm)
+ * and rendered with WebGL (see CollisionMarkers)
  */
 class CatanaCollision extends Renderable {
 
@@ -69,21 +75,26 @@ class CatanaCollision extends Renderable {
     private readonly _componentSignals: readonly (() => void)[]; // Per component matrixChanged signal
     public get components(): readonly AtomicComponent[] { return this._components; }
 
-    private readonly algorithm: WgCollisionAlgorithm;
-    public readonly domElement: HTMLCanvasElement; // HTMLCanvasElement that will be used for WebGPU rendering
+    private readonly algorithm: CollisionAlgorithm;
+    public readonly domElement: null | HTMLCanvasElement; // HTMLCanvasElement that will be used for WebGPU rendering (null for the CPU fallback)
+    private readonly markers: null | CollisionMarkers;    // Markers rendered with WebGL (CPU fallback only)
+    private readonly viewer: Viewer;
     private processing: null | ProcessData = null; // The data for the next collision to be processed
     private isProcessing: boolean = false;         // Whether the collisions are currently in the process of being detected
 
     private readonly boundingBoxMesh: LineSegments; // Box representing the volume where collisions can be detected
     private boundingBoxVisible: boolean = true;
 
-    private constructor(algorithm: WgCollisionAlgorithm, comps: ComponentObject[], domElement: HTMLCanvasElement) {
+    private constructor(algorithm: CollisionAlgorithm, comps: ComponentObject[], viewer: Viewer,
+                        domElement: null | HTMLCanvasElement, markers: null | CollisionMarkers) {
         super();
 
-        console.assert(comps.length <= WgCollisionAlgorithm.MAX_COMPONENTS);
+        console.assert(!(algorithm instanceof WgCollisionAlgorithm) || comps.length <= WgCollisionAlgorithm.MAX_COMPONENTS);
 
         this.algorithm = algorithm;
         this.domElement = domElement;
+        this.markers = markers;
+        this.viewer = viewer;
 
         // Populate the component data
         // Components, per component atomCounts, per component matrixChanged signals
@@ -116,7 +127,8 @@ class CatanaCollision extends Renderable {
             c.signals.matrixChanged.remove(signal);
         }
         this.algorithm.dispose();
-        WgPass.deleteOutputs(CatanaCollision.DEBUG_NAME);
+        this.markers?.dispose();
+        if (this.domElement) WgPass.deleteOutputs(CatanaCollision.DEBUG_NAME);
     }
 
     private static async createComponentObject(c: AtomicComponent): Promise<ComponentObject> {
@@ -150,6 +162,7 @@ class CatanaCollision extends Renderable {
 
     /**
      * Initializes a CatanaCollision instance based on the given components
+     * If WebGPU is not available, the collisions will be detected on the CPU
      * @param components The components that will take part in collision detection
      * @param viewer The viewer where the collision will be visualized
      * @param radius The radius value of the collision rendering (negative values have special meaning... see WgRendCollisionShader > WgRendCollisionShaderRadiusMode)
@@ -169,15 +182,16 @@ class CatanaCollision extends Renderable {
                                        thickness: number): Promise<string | CatanaCollision> {
         const context = await WgContext.get();
         if (typeof context === "string") {
-            //Log.error(context);
-            return context || "WebGPU not supported. Try using Google Chrome.";
+            Log.warn("WebGPU is not available (" + (context || "WebGPU not supported") + "). " +
+                "Collisions will be detected on the CPU instead, which may be slower.");
         }
+        const maxComponents = typeof context === "string" ? Infinity : WgCollisionAlgorithm.MAX_COMPONENTS;
 
         // Extract a structure from all components
         const comps_promises: Promise<ComponentObject>[] = [];
         const rejectedComponents: Component[] = [];
         for (const c of components) {
-            if (comps_promises.length > WgCollisionAlgorithm.MAX_COMPONENTS) {
+            if (comps_promises.length > maxComponents) {
                 rejectedComponents.push(c);
             } else {
                 comps_promises.push(this.createComponentObject(c));
@@ -199,6 +213,16 @@ class CatanaCollision extends Renderable {
 
         // With the structures initialized, now set up the CatanaCollision
         return Promise.all(comps_promises).then((comps) => {
+            mode = this.getMode(mode);
+            const collisionParams: CollisionAlgorithmCollisionParameters = { lenience };
+
+            // CPU fallback
+            if (typeof context === "string") {
+                const algorithm = new CpuCollisionAlgorithm(comps, collisionParams);
+                const markers = new CollisionMarkers({ radius, mode, color, opacity, lenience, thickness });
+                return new CatanaCollision(algorithm, comps, viewer, null, markers);
+            }
+
             const debug = Debug ? this.DEBUG_NAME : undefined; // TODO remove the 'true'
 
             // Rendering stuff
@@ -208,13 +232,11 @@ class CatanaCollision extends Renderable {
             target.domElement.style.pointerEvents = "none";
 
             // Final preparation
-            mode = this.getMode(mode);
             const renderingParams: WgCollisionAlgorithmRenderingParameters = { target, camera, radius, mode, color, opacity, thickness };
-            const collisionParams: WgCollisionAlgorithmCollisionParameters = { lenience }
             const algorithm = new WgCollisionAlgorithm(context, comps, collisionParams, renderingParams, debug);
 
             // Voila!
-            return new CatanaCollision(algorithm, comps, target.domElement);
+            return new CatanaCollision(algorithm, comps, viewer, target.domElement, null);
         });
     }
 
@@ -253,8 +275,23 @@ class CatanaCollision extends Renderable {
         }
     }
 
+    /**
+     * Whether the collisions are detected on the CPU (because WebGPU is not available)
+     */
+    public get isCpuFallback(): boolean {
+        return !(this.algorithm instanceof WgCollisionAlgorithm);
+    }
+
     public async setSize(width: number, height: number) {
-        return this.algorithm.setSize(width, height);
+        if (this.algorithm instanceof WgCollisionAlgorithm) return this.algorithm.setSize(width, height);
+    }
+
+    public setOpacity(opacity: number) {
+        if (this.domElement) this.domElement.style.opacity = "" + opacity;
+        if (this.markers) {
+            this.markers.setParameters({opacity});
+            this.viewer.requestRender();
+        }
     }
 
     public setBoxVisible(visible: boolean) {
@@ -263,17 +300,42 @@ class CatanaCollision extends Renderable {
 
     public setCollisionParams(params: { lenience: number }) {
         this.algorithm.setCollisionUniforms(params);
+        if (this.markers) {
+            this.markers.setParameters(params);
+            this.updateMarkers();
+        }
     }
 
     public setRenderingParams(params: { radius?: number, mode?: "x" | "o" | WgRendCollisionShaderMode, color?: string, opacity?: number, lenience?: number, thickness?: number }) {
-        this.algorithm.setRenderUniforms({
+        const uniforms = {
             radius: params.radius,
             color: params.color,
             opacity: params.opacity,
             mode: (params.mode !== undefined) ? CatanaCollision.getMode(params.mode) : undefined,
             lenience: params.lenience,
             thickness: params.thickness
-        });
+        };
+        if (this.algorithm instanceof WgCollisionAlgorithm) {
+            this.algorithm.setRenderUniforms(uniforms);
+        }
+        if (this.markers) {
+            // Remove undefined entries so that they do not override the current parameters
+            const markerParams = Object.assign({}, uniforms) as any;
+            Object.keys(markerParams).forEach(k => markerParams[k] === undefined && delete markerParams[k]);
+            this.markers.setParameters(markerParams);
+            if (params.radius !== undefined || params.lenience !== undefined) this.updateMarkers();
+            else this.viewer.requestRender();
+        }
+    }
+
+    /**
+     * Places the WebGL markers on the currently colliding elements (CPU fallback only)
+     */
+    private updateMarkers() {
+        if (!this.markers || !(this.algorithm instanceof CpuCollisionAlgorithm)) return;
+        const algorithm = this.algorithm;
+        this.markers.update((callback) => algorithm.forEachCollision(callback));
+        this.viewer.requestRender();
     }
 
     private forEachComponent(callback: (c: Component, atomStart: number, atomEnd: number) => void) {
@@ -350,7 +412,8 @@ class CatanaCollision extends Renderable {
                 }
             });
         }
-        WgPass.printOutputs(CatanaCollision.DEBUG_NAME);
+        this.updateMarkers();
+        if (this.domElement) WgPass.printOutputs(CatanaCollision.DEBUG_NAME);
     }
 
     /**
@@ -359,6 +422,7 @@ class CatanaCollision extends Renderable {
      */
     public async start() {
         this.algorithm.start().then(() => {
+            this.updateMarkers();
             if (this.signals.collisionChanged.getNumListeners() > 0) {
                 this.algorithm.readAsBitArray().then((collisions) => {
                     this._collisions = collisions;
@@ -370,7 +434,7 @@ class CatanaCollision extends Renderable {
                 });
             }
         });
-        WgPass.printOutputs(CatanaCollision.DEBUG_NAME);
+        if (this.domElement) WgPass.printOutputs(CatanaCollision.DEBUG_NAME);
     }
 
     // Renderer overrides ----------------------------------------------------------------------------------------------
@@ -404,6 +468,13 @@ class CatanaCollision extends Renderable {
             r.render(this.boundingBoxMesh, camera);
         }
 
+        // CPU fallback: the markers are rendered with WebGL, together with the rest of the scene
+        if (this.markers) {
+            r.setRenderTarget(target);
+            r.render(this.markers, camera);
+            return;
+        }
+
         if (superSampleIndex !== -1) return;
 
         camera = camera.clone();
@@ -419,8 +490,9 @@ class CatanaCollision extends Renderable {
         }
         this.lastCamMatrix = camera.matrix;
         this.lastCamProjMat = camera.projectionMatrix;
-        this.algorithm.setRenderUniforms({camera});
-        this.algorithm.draw();
+        const algorithm = this.algorithm as WgCollisionAlgorithm;
+        algorithm.setRenderUniforms({camera});
+        algorithm.draw();
     }
 
     //public setSize(width: number, height: number): void
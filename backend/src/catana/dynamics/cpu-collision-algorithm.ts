@@ -0,0 +1,362 @@
+import {Box3, Matrix4, Vector3} from "three";
+import Structure from "../../structure/structure";
+import RadiusFactory from "../../utils/radius-factory";
+import {BitArray} from "../../utils/bitarray";
+import CollisionAlgorithm, {
+    AtomicComponent,
+    CollisionAlgorithmCollisionParameters,
+    ComponentObject
+} from "./collision-algorithm";
+
+const NO_BOND = 0xffffffff;
+
+/**
+ * Per-element data used by the CPU collision detection
+ * - positions: XYZ (world space) of each element
+ * - radii: radius (in Angstrom) of each element
+ * - bonds: global indices of (up to) 4 bonded elements per element, or 0xffffffff if there is no such bond
+ */
+export interface CollisionElements {
+    readonly positions: Float32Array;
+    readonly radii: Float32Array;
+    readonly bonds: Uint32Array;
+}
+
+interface ComponentData {
+    readonly offset: number,
+    readonly length: number,
+    matrix: Matrix4,
+    error: number
+}
+
+/**
+ * Creates empty (zeroed) element data for the given number of elements
+ */
+export function createCollisionElements(count: number): CollisionElements {
+    return {
+        positions: new Float32Array(count * 3),
+        radii: new Float32Array(count),
+        bonds: new Uint32Array(count * 4).fill(NO_BOND)
+    };
+}
+
+/**
+ * Fills the element data with the atoms of the given structure
+ * The radii are rounded to picometers and at most 4 bonds are stored per element,
+ * exactly like the WebGPU collision algorithm does
+ * @param s The structure whose atoms will be stored
+ * @param matrix The matrix applied to the atom positions
+ * @param offset The global index of the first atom of this structure
+ * @param rf The radius factory providing the atom radii
+ * @param elements The element data to be filled
+ * @returns Smallest element radius of this structure
+ */
+export function fillCollisionElements(s: Structure, matrix: Matrix4, offset: number, rf: RadiusFactory,
+                                      elements: CollisionElements): number {
+    let radiusMin: number = Infinity;
+    const pos = new Vector3();
+    s.eachAtom((ap) => {
+        const elemId = offset + ap.index;
+
+        // For this atom, set the bonds
+        let bondi = 0;
+        ap.eachBond((bp) => {
+            if (bondi === 4) return;
+            let atom2i = bp.atomIndex1;
+            if (atom2i === ap.index) atom2i = bp.atomIndex2;
+            elements.bonds[elemId * 4 + bondi++] = atom2i + offset;
+        });
+        while (bondi < 4) elements.bonds[elemId * 4 + bondi++] = NO_BOND;
+
+        // For this atom, set the position and radius
+        pos.set(ap.x, ap.y, ap.z).applyMatrix4(matrix);
+        elements.positions[elemId * 3] = pos.x;
+        elements.positions[elemId * 3 + 1] = pos.y;
+        elements.positions[elemId * 3 + 2] = pos.z;
+
+        const radiusAngstrom = rf.atomRadius(ap);
+        radiusMin = Math.min(radiusMin, radiusAngstrom);
+        elements.radii[elemId] = Math.round(radiusAngstrom * 100) * 0.01; // Picometer precision
+    });
+    return radiusMin;
+}
+
+/**
+ * Detects which elements collide with at least one other element
+ *
+ * Two elements collide when their distance is smaller than the sum of their radii minus the lenience.
+ * Elements never collide with themselves nor with the elements they are bonded to.
+ * Elements outside of the box are not taken into account at all.
+ *
+ * The elements are sorted into a uniform grid (counting sort) whose cells are as large as the largest possible
+ * collision distance, so that each element needs to be compared only with the elements of the 27 neighboring cells
+ *
+ * @param elements The element data
+ * @param box The box where the collision detection is active
+ * @param lenience How lenient the collision detection should be (in Angstrom)
+ * @returns A BitArray where each bit represents an element (1 if it collides, 0 otherwise)
+ */
+export function detectCollisions(elements: CollisionElements, box: Box3, lenience: number): BitArray {
+    const numElems = elements.radii.length;
+    const raw = new Uint32Array(Math.ceil(numElems / 32));
+    if (numElems === 0 || box.isEmpty()) return new BitArray(numElems, raw);
+
+    const {positions, radii, bonds} = elements;
+
+    // Define grid
+    let radiusMin = Infinity;
+    let radiusMax = -Infinity;
+    for (let i = 0; i < numElems; ++i) {
+        radiusMin = Math.min(radiusMin, radii[i]);
+        radiusMax = Math.max(radiusMax, radii[i]);
+    }
+    const maxDistance = Math.max(Math.abs(radiusMax * 2 - lenience), Math.abs(radiusMin * 2 - lenience));
+    const range = box.max.clone().sub(box.min);
+    let binSize = Math.max(maxDistance, CpuCollisionAlgorithm.MIN_BIN_SIZE);
+    let shape = range.clone().divideScalar(binSize).floor().addScalar(1);
+    while (shape.x * shape.y * shape.z > CpuCollisionAlgorithm.MAX_BINS) {
+        binSize *= Math.cbrt(2);
+        shape = range.clone().divideScalar(binSize).floor().addScalar(1);
+    }
+    const numBins = shape.x * shape.y * shape.z;
+
+    // Assign each element to a grid cell
+    const perElem_binId = new Int32Array(numElems);
+    const perBin_elemCountScan = new Uint32Array(numBins + 1);
+    for (let i = 0; i < numElems; ++i) {
+        const x = positions[i * 3] - box.min.x;
+        const y = positions[i * 3 + 1] - box.min.y;
+        const z = positions[i * 3 + 2] - box.min.z;
+        if (x < 0 || y < 0 || z < 0 || x >= range.x || y >= range.y || z >= range.z) {
+            perElem_binId[i] = -1;
+            continue;
+        }
+        const binId = Math.floor(x / binSize) + Math.floor(y / binSize) * shape.x +
+            Math.floor(z / binSize) * shape.x * shape.y;
+        perElem_binId[i] = binId;
+        ++perBin_elemCountScan[binId + 1];
+    }
+
+    // Sort the elements by their cell
+    for (let i = 1; i <= numBins; ++i) perBin_elemCountScan[i] += perBin_elemCountScan[i - 1];
+    const perBin_next = perBin_elemCountScan.slice(0, numBins);
+    const elemId_sorted = new Uint32Array(perBin_elemCountScan[numBins]);
+    for (let i = 0; i < numElems; ++i) {
+        const binId = perElem_binId[i];
+        if (binId !== -1) elemId_sorted[perBin_next[binId]++] = i;
+    }
+
+    // Compare each element with the elements of the neighboring cells
+    for (let i = 0; i < numElems; ++i) {
+        const binId = perElem_binId[i];
+        if (binId === -1) continue;
+
+        const bx = binId % shape.x;
+        const by = Math.floor(binId / shape.x) % shape.y;
+        const bz = Math.floor(binId / (shape.x * shape.y));
+        const x = positions[i * 3];
+        const y = positions[i * 3 + 1];
+        const z = positions[i * 3 + 2];
+        const radius = radii[i];
+
+        let collides = false;
+        for (let zi = Math.max(0, bz - 1); zi <= Math.min(shape.z - 1, bz + 1) && !collides; ++zi) {
+            for (let yi = Math.max(0, by - 1); yi <= Math.min(shape.y - 1, by + 1) && !collides; ++yi) {
+                for (let xi = Math.max(0, bx - 1); xi <= Math.min(shape.x - 1, bx + 1) && !collides; ++xi) {
+                    const neighborBinId = xi + yi * shape.x + zi * shape.x * shape.y;
+                    const end = perBin_elemCountScan[neighborBinId + 1];
+                    for (let k = perBin_elemCountScan[neighborBinId]; k < end && !collides; ++k) {
+                        const j = elemId_sorted[k];
+                        if (j === i) continue;
+
+                        const minDistance = radius + radii[j] - lenience;
+                        const dx = positions[j * 3] - x;
+                        const dy = positions[j * 3 + 1] - y;
+                        const dz = positions[j * 3 + 2] - z;
+                        if (dx * dx + dy * dy + dz * dz >= minDistance * minDistance) continue;
+
+                        collides = bonds[i * 4] !== j && bonds[i * 4 + 1] !== j &&
+                            bonds[i * 4 + 2] !== j && bonds[i * 4 + 3] !== j;
+                    }
+                }
+            }
+        }
+
+        if (collides) raw[i >>> 5] |= 0x80000000 >>> (i & 31);
+    }
+
+    return new BitArray(numElems, raw);
+}
+
+/**
+ * Implements the collision algorithm on the CPU
+ * Used as a fallback when WebGPU is not available (see CatanaCollision)
+ *
+ * The results (collisions and errors) match the ones of WgCollisionAlgorithm:
+ * the elements have the same radii, the same bonds are ignored, only the elements inside of the same box are
+ * taken into account, and component matrix updates are applied incrementally to the current element positions
+ * (see WgCollisionAlgorithm.getError)
+ */
+export default class CpuCollisionAlgorithm implements CollisionAlgorithm {
+
+    public static readonly MAX_BINS = 4194304;
+    public static readonly MIN_BIN_SIZE = 0.1; // Angstrom
+
+    private readonly rf: RadiusFactory;
+    private readonly componentData: Map<AtomicComponent, ComponentData>;
+    private readonly elements: CollisionElements;
+    private readonly box: Box3;
+
+    private lenience: number;
+    private collisions: BitArray;
+
+    /**
+     * Initializes the element data necessary for the collision detection (based on provided Components)
+     * @param comps The components that will take part in the collision detection
+     * @param collisionParams The parameters for the collision detection
+     */
+    public constructor(comps: ComponentObject[], collisionParams: CollisionAlgorithmCollisionParameters) {
+        this.rf = new RadiusFactory({ type: "covalent" });
+        this.lenience = collisionParams.lenience;
+
+        const numElems = comps.map(v => v.s.atomCount).reduce((a, b) => a + b, 0);
+        this.elements = createCollisionElements(numElems);
+        this.collisions = new BitArray(numElems);
+
+        // Calculate bounding box (same as in WgCollisionAlgorithm)
+        this.componentData = new Map<AtomicComponent, ComponentData>();
+        const box = new Box3();
+        let radiusMin: number = Infinity;
+        let offset = 0;
+        for (const c of comps) {
+            this.componentData.set(c.c, {
+                offset: offset,
+                length: c.s.atomCount,
+                matrix: c.c.matrix.clone(),
+                error: 0
+            });
+            radiusMin = Math.min(radiusMin, fillCollisionElements(c.s, c.c.matrix, offset, this.rf, this.elements));
+            box.union(c.s.getBoundingBox().applyMatrix4(c.c.matrix));
+            offset += c.s.atomCount;
+        }
+        if (!box.isEmpty()) box.max.addScalar(radiusMin * 2);
+        this.box = box;
+    }
+
+    public dispose() {
+        // Nothing to dispose... the garbage collector takes care of it
+    }
+
+    private run() {
+        this.collisions = detectCollisions(this.elements, this.box, this.lenience);
+    }
+
+    /**
+     * Performs the first iteration of this algorithm
+     */
+    public async start() {
+        this.run();
+    }
+
+    /**
+     * Resets the atom positions of a component
+     * This recomputes all atom positions from the structure, removing any imprecision
+     */
+    public resetComponent(c: ComponentObject) {
+        const data = this.componentData.get(c.c);
+        if (!data) {
+            console.error("Failed to resetComponent: component " + c.c.name + " not found (it was probably not " +
+                "initialized with the collision detection. Try restarting the collision detection.");
+            return;
+        }
+        fillCollisionElements(c.s, c.c.matrix, data.offset, this.rf, this.elements);
+        data.matrix = c.c.matrix.clone();
+        data.error = 0;
+        this.run();
+    }
+
+    /**
+     * Updates the matrix of a component
+     * @param c Component whose matrix will be updated
+     * @param matrix The new matrix of Component 'c'
+     */
+    public async updateComponent(c: AtomicComponent, matrix?: Matrix4) {
+        const compData = this.componentData.get(c);
+        if (compData === undefined) {
+            console.warn("Component " + c.name + " is not in CpuCollisionAlgorithm, so this method should not" +
+                " have been called. This call will be ignored.");
+            return this;
+        }
+
+        // Calculates the matrix that will get us from the old matrix to the new one
+        const oldMatrix = compData.matrix;
+        const newMatrix = matrix?.clone() || c.matrix.clone();
+        const transform = new Matrix4().getInverse(oldMatrix).premultiply(newMatrix);
+
+        // Transforms the current positions of the elements of the given component
+        const positions = this.elements.positions;
+        const pos = new Vector3();
+        for (let i = compData.offset; i < compData.offset + compData.length; ++i) {
+            pos.fromArray(positions, i * 3).applyMatrix4(transform).toArray(positions, i * 3);
+        }
+        this.run();
+
+        // Compute the error (imprecision) of the matrix we calculate
+        // See WgCollisionAlgorithm.getError() for a full explanation
+        const newMatrix_computed = oldMatrix.premultiply(transform); // In-place premultiplication!
+        compData.error = newMatrix_computed.elements
+            .map((v, i) => Math.abs(v - newMatrix.elements[i]))
+            .reduce((a, b) => a + b);
+
+        return this;
+    }
+
+    /**
+     * The box where the collision detection is active
+     */
+    public get gridBox(): Box3 {
+        return new Box3(this.box.min, this.box.max);
+    }
+
+    /**
+     * Gets the error/imprecision of the collision detection calculations for a specific component
+     * See WgCollisionAlgorithm.getError() for a full explanation
+     */
+    public getError(c: AtomicComponent): null | number {
+        const data = this.componentData.get(c);
+        if (!data) {
+            console.error("Cannot get error of component " + c.name + " because there is no such component in the " +
+                "collision system (it was probably not initialized with the collision detection. Try restarting the " +
+                "collision detection.");
+            return null;
+        }
+        return data.error;
+    }
+
+    /**
+     * Sets the parameters for the collision detection calculations
+     */
+    public setCollisionUniforms(uniforms: CollisionAlgorithmCollisionParameters) {
+        this.lenience = uniforms.lenience;
+        this.run();
+    }
+
+    /**
+     * Returns the collision detection results
+     * Each bit represents an element/atom
+     */
+    public async readAsBitArray(): Promise<BitArray> {
+        return this.collisions.clone();
+    }
+
+    /**
+     * Calls the callback for each element colliding with at least one other element
+     * @param callback Function called with the current position and the radius of the colliding element
+     */
+    public forEachCollision(callback: (position: Vector3, radius: number) => void) {
+        const pos = new Vector3();
+        this.collisions.forEach1((i) => {
+            callback(pos.fromArray(this.elements.positions, i * 3), this.elements.radii[i]);
+        });
+    }
+}
@@ -0,0 +1,386 @@
+/**
+ * Parameters of the coarse-grained relaxation force field
+ * Distances are in Angstroms, stiffnesses in arbitrary energy units per squared Angstrom
+ */
+export interface CgRelaxationParameters {
+    /**
+     * Stiffness of the springs connecting backbone centers of consecutive nucleotides
+     */
+    backboneStiffness: number;
+    /**
+     * Rest length of the backbone springs
+     * Non-positive values mean that the median length of the initial backbone bonds is used
+     */
+    backboneLength: number;
+    /**
+     * Stiffness of the springs connecting nucleobase centers of paired nucleotides
+     * (their rest length is the initial distance of the paired nucleobases)
+     */
+    basePairStiffness: number;
+    /**
+     * Stiffness of the springs connecting nucleobase centers of consecutive paired nucleotides
+     * (their rest length is the initial distance of the stacked nucleobases)
+     */
+    stackingStiffness: number;
+    /**
+     * Stiffness of the excluded-volume repulsion
+     */
+    repulsionStiffness: number;
+    /**
+     * Backbone and nucleobase centers of non-bonded nucleotides closer than this distance repel each other
+     */
+    exclusionDistance: number;
+    /**
+     * Backbone bonds longer than (backboneLength * stretchTolerance) are reported as overstretched
+     */
+    stretchTolerance: number;
+    /**
+     * Maximum displacement of a nucleotide in one iteration
+     */
+    maxStep: number;
+}
+
+export const DefaultCgRelaxationParameters: CgRelaxationParameters = {
+    backboneStiffness: 1,
+    backboneLength: 0,
+    basePairStiffness: 1,
+    stackingStiffness: 0.5,
+    repulsionStiffness: 2,
+    exclusionDistance: 3,
+    stretchTolerance: 1.5,
+    maxStep: 0.5
+};
+
+/**
+ * Information about the state of the relaxation after an iteration
+ */
+export interface CgRelaxationProgress {
+    iteration: number;
+    energy: number;
+    maxForce: number;
+    overstretchedBonds: number;
+    clashes: number;
+}
+
+/**
+ * Coarse-grained relaxation of nucleic acid structures.
+ * Every nucleotide is represented by two sites (backbone center and nucleobase center) which move together,
+ * i.e., nucleotides are only translated, their orientation does not change.
+ *
+ * The force field consists of:
+ * - harmonic backbone springs between consecutive nucleotides (pulling overstretched crossovers together)
+ * - harmonic base-pair springs between paired nucleotides
+ * - harmonic stacking springs between consecutive paired nucleotides
+ * - soft excluded-volume repulsion between sites of non-bonded nucleotides (resolving clashes)
+ *
+ * The energy is minimized by steepest descent with an adaptive step size.
+ *
+ * NOTE: This class is sent to web workers as a string (see CgRelaxation),
+ *       so it must not reference anything outside of its own body (no imports, no static members)
+ */
+export class CgRelaxationSystem {
+
+    public readonly count: number;
+    public readonly positions: Float32Array;
+
+    private readonly params: CgRelaxationParameters;
+    private readonly backboneBonds: Uint32Array;
+    private readonly basePairs: Uint32Array;
+    private readonly stacks: Uint32Array;
+    private readonly basePairLengths: Float32Array;
+    private readonly stackLengths: Float32Array;
+    private readonly backboneLength: number;
+
+    // Per nucleotide lists of bonded/paired nucleotides (excluded from the repulsion), in CSR format
+    private readonly exclStart: Uint32Array;
+    private readonly exclList: Uint32Array;
+
+    private readonly forces: Float32Array;
+    private readonly previousPositions: Float32Array;
+    private previousEnergy: number = Infinity;
+    private stepScale: number = 1;
+    private _iteration: number = 0;
+    private _progress: CgRelaxationProgress | null = null;
+
+    /**
+     * @param positions Six values per nucleotide: XYZ of the backbone center followed by XYZ of the nucleobase center
+     * @param backboneBonds Pairs of indices of nucleotides connected by backbone
+     * @param basePairs Pairs of indices of paired nucleotides
+     * @param stacks Pairs of indices of stacked nucleotides
+     * @param params Force field parameters
+     */
+    public constructor(positions: Float32Array, backboneBonds: Uint32Array, basePairs: Uint32Array,
+                       stacks: Uint32Array, params: CgRelaxationParameters) {
+        this.count = positions.length / 6;
+        this.positions = new Float32Array(positions);
+        this.previousPositions = new Float32Array(positions);
+        this.forces = new Float32Array(this.count * 3);
+        this.params = params;
+        this.backboneBonds = backboneBonds;
+        this.basePairs = basePairs;
+        this.stacks = stacks;
+
+        this.basePairLengths = this.computeLengths(basePairs, 3);
+        this.stackLengths = this.computeLengths(stacks, 3);
+
+        if (params.backboneLength > 0) {
+            this.backboneLength = params.backboneLength;
+        } else {
+            const lengths = Array.from(this.computeLengths(backboneBonds, 0)).sort((a, b) => a - b);
+            this.backboneLength = lengths.length > 0 ? lengths[Math.floor(lengths.length / 2)] : 0;
+        }
+
+        // Exclusions (bonded and paired nucleotides)
+        const exclCount = new Uint32Array(this.count + 1);
+        for (const pairs of [backboneBonds, basePairs]) {
+            for (let i = 0; i < pairs.length; i += 2) {
+                ++exclCount[pairs[i] + 1];
+                ++exclCount[pairs[i + 1] + 1];
+            }
+        }
+        for (let i = 1; i <= this.count; ++i) exclCount[i] += exclCount[i - 1];
+        this.exclStart = exclCount.slice();
+        this.exclList = new Uint32Array(exclCount[this.count]);
+        for (const pairs of [backboneBonds, basePairs]) {
+            for (let i = 0; i < pairs.length; i += 2) {
+                this.exclList[exclCount[pairs[i]]++] = pairs[i + 1];
+                this.exclList[exclCount[pairs[i + 1]]++] = pairs[i];
+            }
+        }
+    }
+
+    /**
+     * @returns Rest length of the backbone springs
+     */
+    public get restBackboneLength(): number {
+        return this.backboneLength;
+    }
+
+    public get iteration(): number {
+        return this._iteration;
+    }
+
+    /**
+     * @returns Information about the state after the last iteration (or the initial state if no iteration was run)
+     */
+    public get progress(): CgRelaxationProgress {
+        if (!this._progress) this._progress = this.evaluate();
+        return this._progress;
+    }
+
+    /**
+     * Performs the given number of minimization iterations
+     * @returns Information about the state after the last iteration
+     */
+    public run(iterations: number): CgRelaxationProgress {
+        for (let i = 0; i < iterations; ++i) this.step();
+        this._progress = this.evaluate();
+        return this._progress;
+    }
+
+    /**
+     * Performs one minimization iteration
+     */
+    public step() {
+        const progress = this.evaluate();
+
+        if (progress.energy > this.previousEnergy) {
+            // The last step was too large: go back and try a smaller one
+            this.positions.set(this.previousPositions);
+            this.stepScale *= 0.5;
+            this._progress = this.evaluate();
+        } else {
+            this.previousPositions.set(this.positions);
+            this.previousEnergy = progress.energy;
+            this.stepScale = Math.min(1, this.stepScale * 1.2);
+            this._progress = progress;
+        }
+
+        // Move every nucleotide along its force, the largest force corresponding to the maximum step
+        const maxForce = this._progress.maxForce;
+        if (maxForce > 0) {
+            const scale = this.params.maxStep * this.stepScale / maxForce;
+            for (let i = 0; i < this.count; ++i) {
+                for (let d = 0; d < 3; ++d) {
+                    const disp = this.forces[i * 3 + d] * scale;
+                    this.positions[i * 6 + d] += disp;
+                    this.positions[i * 6 + 3 + d] += disp;
+                }
+            }
+        }
+        ++this._iteration;
+    }
+
+    /**
+     * Computes the energy and the forces (stored in this.forces) for the current positions
+     */
+    public evaluate(): CgRelaxationProgress {
+        const p = this.params;
+        this.forces.fill(0);
+
+        let energy = 0;
+        let overstretchedBonds = 0;
+        const maxBondLength = this.backboneLength * p.stretchTolerance;
+
+        for (let i = 0; i < this.backboneBonds.length; i += 2) {
+            const d = this.spring(this.backboneBonds[i], this.backboneBonds[i + 1], 0, this.backboneLength, p.backboneStiffness);
+            energy += d[0];
+            if (d[1] > maxBondLength) ++overstretchedBonds;
+        }
+        for (let i = 0; i < this.basePairs.length; i += 2) {
+            energy += this.spring(this.basePairs[i], this.basePairs[i + 1], 3, this.basePairLengths[i / 2], p.basePairStiffness)[0];
+        }
+        for (let i = 0; i < this.stacks.length; i += 2) {
+            energy += this.spring(this.stacks[i], this.stacks[i + 1], 3, this.stackLengths[i / 2], p.stackingStiffness)[0];
+        }
+
+        const repulsion = this.repulsion();
+        energy += repulsion[0];
+
+        let maxForce = 0;
+        for (let i = 0; i < this.count; ++i) {
+            const fx = this.forces[i * 3], fy = this.forces[i * 3 + 1], fz = this.forces[i * 3 + 2];
+            maxForce = Math.max(maxForce, Math.sqrt(fx * fx + fy * fy + fz * fz));
+        }
+
+        return {
+            iteration: this._iteration,
+            energy: energy,
+            maxForce: maxForce,
+            overstretchedBonds: overstretchedBonds,
+            clashes: repulsion[1]
+        };
+    }
+
+    /**
+     * Applies a harmonic spring between the given sites of two nucleotides
+     * @param offset 0 for backbone centers, 3 for nucleobase centers
+     * @returns Energy of the spring and its current length
+     */
+    private spring(i: number, j: number, offset: number, restLength: number, stiffness: number): [number, number] {
+        const pos = this.positions;
+        const dx = pos[j * 6 + offset] - pos[i * 6 + offset];
+        const dy = pos[j * 6 + offset + 1] - pos[i * 6 + offset + 1];
+        const dz = pos[j * 6 + offset + 2] - pos[i * 6 + offset + 2];
+        const length = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (length === 0) return [0, 0];
+
+        const stretch = length - restLength;
+        const f = stiffness * stretch / length;
+        this.addForce(i, dx * f, dy * f, dz * f);
+        this.addForce(j, -dx * f, -dy * f, -dz * f);
+        return [0.5 * stiffness * stretch * stretch, length];
+    }
+
+    /**
+     * Applies the excluded-volume repulsion between sites of non-bonded nucleotides
+     * Close sites are found with a spatial hash whose cells are as large as the exclusion distance
+     * @returns Energy of the repulsion and the number of clashing nucleotide pairs
+     */
+    private repulsion(): [number, number] {
+        const sigma = this.params.exclusionDistance;
+        const stiffness = this.params.repulsionStiffness;
+        if (sigma <= 0 || stiffness <= 0 || this.count === 0) return [0, 0];
+
+        const pos = this.positions;
+        const numSites = this.count * 2;
+
+        // Spatial hash (counting sort by hashed cell)
+        let tableSize = 1;
+        while (tableSize < numSites * 2) tableSize *= 2;
+        const mask = tableSize - 1;
+        const hashCell = (x: number, y: number, z: number) =>
+            (Math.imul(x, 73856093) ^ Math.imul(y, 19349663) ^ Math.imul(z, 83492791)) & mask;
+
+        const siteCell = new Int32Array(numSites * 3);
+        const siteHash = new Uint32Array(numSites);
+        const bucketStart = new Uint32Array(tableSize + 1);
+        for (let s = 0; s < numSites; ++s) {
+            const o = (s >> 1) * 6 + (s & 1) * 3;
+            const cx = Math.floor(pos[o] / sigma);
+            const cy = Math.floor(pos[o + 1] / sigma);
+            const cz = Math.floor(pos[o + 2] / sigma);
+            siteCell[s * 3] = cx;
+            siteCell[s * 3 + 1] = cy;
+            siteCell[s * 3 + 2] = cz;
+            siteHash[s] = hashCell(cx, cy, cz);
+            ++bucketStart[siteHash[s] + 1];
+        }
+        for (let h = 1; h <= tableSize; ++h) bucketStart[h] += bucketStart[h - 1];
+        const bucketNext = bucketStart.slice(0, tableSize);
+        const sorted = new Uint32Array(numSites);
+        for (let s = 0; s < numSites; ++s) sorted[bucketNext[siteHash[s]]++] = s;
+
+        let energy = 0;
+        const visited: number[] = [];
+        const clashing = new Set<number>();
+        for (let s = 0; s < numSites; ++s) {
+            const i = s >> 1;
+            const o = i * 6 + (s & 1) * 3;
+            visited.length = 0;
+
+            for (let dz = -1; dz <= 1; ++dz) {
+                for (let dy = -1; dy <= 1; ++dy) {
+                    for (let dx = -1; dx <= 1; ++dx) {
+                        const h = hashCell(siteCell[s * 3] + dx, siteCell[s * 3 + 1] + dy, siteCell[s * 3 + 2] + dz);
+                        if (visited.indexOf(h) !== -1) continue; // Different cells may share a bucket
+                        visited.push(h);
+
+                        for (let k = bucketStart[h]; k < bucketStart[h + 1]; ++k) {
+                            const s2 = sorted[k];
+                            const j = s2 >> 1;
+                            if (s2 <= s || j === i || this.isExcluded(i, j)) continue;
+
+                            const o2 = j * 6 + (s2 & 1) * 3;
+                            const vx = pos[o2] - pos[o];
+                            const vy = pos[o2 + 1] - pos[o + 1];
+                            const vz = pos[o2 + 2] - pos[o + 2];
+                            const d2 = vx * vx + vy * vy + vz * vz;
+                            if (d2 >= sigma * sigma || d2 === 0) continue;
+
+                            const d = Math.sqrt(d2);
+                            const overlap = sigma - d;
+                            const f = -stiffness * overlap / d;
+                            this.addForce(i, vx * f, vy * f, vz * f);
+                            this.addForce(j, -vx * f, -vy * f, -vz * f);
+                            energy += 0.5 * stiffness * overlap * overlap;
+                            clashing.add(i < j ? i * this.count + j : j * this.count + i);
+                        }
+                    }
+                }
+            }
+        }
+        return [energy, clashing.size];
+    }
+
+    private isExcluded(i: number, j: number): boolean {
+        for (let k = this.exclStart[i]; k < this.exclStart[i + 1]; ++k) {
+            if (this.exclList[k] === j) return true;
+        }
+        return false;
+    }
+
+    private addForce(i: number, x: number, y: number, z: number) {
+        this.forces[i * 3] += x;
+        this.forces[i * 3 + 1] += y;
+        this.forces[i * 3 + 2] += z;
+    }
+
+    /**
+     * @param offset 0 for backbone centers, 3 for nucleobase centers
+     * @returns Current distances between the given sites of the given pairs of nucleotides
+     */
+    private computeLengths(pairs: Uint32Array, offset: number): Float32Array {
+        const lengths = new Float32Array(pairs.length / 2);
+        const pos = this.positions;
+        for (let k = 0; k < lengths.length; ++k) {
+            const i = pairs[k * 2] * 6 + offset;
+            const j = pairs[k * 2 + 1] * 6 + offset;
+            const dx = pos[j] - pos[i], dy = pos[j + 1] - pos[i + 1], dz = pos[j + 2] - pos[i + 2];
+            lengths[k] = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        }
+        return lengths;
+    }
+}
+
+export default CgRelaxationSystem;
@@ -0,0 +1,310 @@
+import { Signal } from "signals";
+import { Matrix4, Quaternion, Vector3 } from "three";
+import { WorkerRegistry } from "../../../globals";
+import _Worker from "../../../worker/worker";
+import CgStructure from "../../data_model/cg-structure";
+import CgNucleicAcidStrand from "../../data_model/cg-nucleic-acid-strand";
+import CgRelaxationSystem, {
+    CgRelaxationParameters,
+    CgRelaxationProgress,
+    DefaultCgRelaxationParameters
+} from "./cg-relaxation-system";
+
+WorkerRegistry.add('cgrelax', function func (e: any, callback: (data: any, transferList: any) => void) {
+    const a = e.data.args;
+    const p = e.data.params;
+    if (a) {
+        /* global self */
+        (self as any).cgrelax = new CgRelaxationSystem(a[0], a[1], a[2], a[3], a[4]);
+    }
+    if (p) {
+        const system = (self as any).cgrelax as CgRelaxationSystem;
+        const progress = system.run(p.iterations);
+        const positions = new Float32Array(system.positions);
+        callback({ progress, positions }, [positions.buffer]);
+    }
+}, [CgRelaxationSystem]);
+
+interface CgRelaxationSignals {
+    progress: Signal; // Dispatched with CgRelaxationProgress after every batch of iterations
+}
+
+/**
+ * Relaxes the nucleic acid strands of a coarse-grained structure using the CgRelaxationSystem force field.
+ * The computation runs in a web worker (if available) so that the UI stays responsive,
+ * the progress is reported after every batch of iterations.
+ *
+ * The structure itself is not modified while relaxing. The relaxed positions are written
+ * to the nucleotide stores by applyPositions (see also RelaxCgStructureCommand),
+ * the orientations of the nucleotides are rotated to follow them.
+ */
+export class CgRelaxation {
+
+    public readonly signals: CgRelaxationSignals = {
+        progress: new Signal()
+    };
+
+    private readonly _structure: CgStructure;
+    private readonly _strands: CgNucleicAcidStrand[];
+    private readonly _strandLengths: number[];
+    private readonly _params: CgRelaxationParameters;
+
+    private readonly _initialPositions: Float32Array;
+    private readonly _backboneBonds: Uint32Array;
+    private readonly _basePairs: Uint32Array;
+    private readonly _stacks: Uint32Array;
+
+    private _positions: Float32Array;
+    private _progress: CgRelaxationProgress | null = null;
+    private _running: boolean = false;
+    private _stopRequested: boolean = false;
+
+    /**
+     * @param structure structure whose nucleic acid strands will be relaxed (amino acid chains stay untouched)
+     * @param params force field parameters (defaults are used for the missing ones)
+     */
+    constructor(structure: CgStructure, params: Partial<CgRelaxationParameters> = {}) {
+        this._structure = structure;
+        this._strands = structure.naStrands.slice();
+        this._strandLengths = this._strands.map(s => s.length);
+        this._params = Object.assign({}, DefaultCgRelaxationParameters, params);
+
+        const count = this._strandLengths.reduce((a, b) => a + b, 0);
+        const positions = new Float32Array(count * 6);
+        const globalIdToIndex = new Map<number, number>();
+        const backboneBonds: number[] = [];
+        const stacks: number[] = [];
+
+        let index = 0;
+        for (const strand of this._strands) {
+            const store = strand.nucleotideStore;
+            const start = index;
+            for (let i = 0; i < strand.length; ++i, ++index) {
+                positions.set(store.bbCenter.subarray(i * 3, i * 3 + 3), index * 6);
+                positions.set(store.nbCenter.subarray(i * 3, i * 3 + 3), index * 6 + 3);
+                globalIdToIndex.set(store.globalId[i], index);
+
+                if (i > 0) {
+                    backboneBonds.push(index - 1, index);
+                    if (store.pairId[i - 1] !== -1 && store.pairId[i] !== -1) stacks.push(index - 1, index);
+                }
+            }
+            if (strand.isCircular && strand.length > 2) backboneBonds.push(index - 1, start);
+        }
+
+        const basePairs: number[] = [];
+        index = 0;
+        for (const strand of this._strands) {
+            const store = strand.nucleotideStore;
+            for (let i = 0; i < strand.length; ++i, ++index) {
+                const pairIndex = globalIdToIndex.get(store.pairId[i]);
+                if (pairIndex !== undefined && pairIndex > index) basePairs.push(index, pairIndex);
+            }
+        }
+
+        this._initialPositions = positions;
+        this._positions = positions;
+        this._backboneBonds = new Uint32Array(backboneBonds);
+        this._basePairs = new Uint32Array(basePairs);
+        this._stacks = new Uint32Array(stacks);
+    }
+
+    public get structure(): CgStructure {
+        return this._structure;
+    }
+
+    /**
+     * @returns current (relaxed) positions, six values per nucleotide: XYZ of backbone center and nucleobase center
+     */
+    public get positions(): Float32Array {
+        return this._positions;
+    }
+
+    /**
+     * @returns progress reported after the last batch of iterations (null if the relaxation did not run yet)
+     */
+    public get progress(): CgRelaxationProgress | null {
+        return this._progress;
+    }
+
+    public get isRunning(): boolean {
+        return this._running;
+    }
+
+    /**
+     * @returns true if the strands of the structure did not change since the relaxation was created,
+     * i.e., the relaxed positions can be applied
+     */
+    public get isUpToDate(): boolean {
+        const strands = this._structure.naStrands;
+        return strands.length === this._strands.length &&
+            this._strands.every((s, i) => strands[i] === s && s.length === this._strandLengths[i]);
+    }
+
+    /**
+     * Runs the relaxation
+     *
+     * @param maxIterations maximum number of iterations
+     * @param iterationsPerUpdate number of iterations between two progress reports
+     * @param forceTolerance the relaxation stops when the largest force acting on a nucleotide is smaller than this
+     * @returns promise resolving with the final progress once the relaxation finished (or was stopped)
+     */
+    public run(maxIterations: number = 2000, iterationsPerUpdate: number = 25,
+               forceTolerance: number = 0.01): Promise<CgRelaxationProgress> {
+        if (this._running) {
+            return Promise.reject("Relaxation of " + this._structure.name + " is already running");
+        }
+        this._running = true;
+        this._stopRequested = false;
+
+        const isFinished = (progress: CgRelaxationProgress) => {
+            return this._stopRequested || progress.iteration >= maxIterations || progress.maxForce < forceTolerance;
+        };
+        const args = [this._initialPositions, this._backboneBonds, this._basePairs, this._stacks, this._params];
+        const promise = typeof Worker !== "undefined"
+            ? this.runInWorker(args, iterationsPerUpdate, isFinished)
+            : this.runInMainThread(args, iterationsPerUpdate, isFinished);
+
+        return promise.then(progress => {
+            this._running = false;
+            return progress;
+        }, error => {
+            this._running = false;
+            throw error;
+        });
+    }
+
+    /**
+     * Stops the running relaxation after the current batch of iterations
+     */
+    public stop() {
+        this._stopRequested = true;
+    }
+
+    /**
+     * Writes the current (relaxed) positions into the nucleotide stores of the structure.
+     * The base normal and the hydrogen face direction of each nucleotide are rotated
+     * by the rotation of its local frame (see getNucleotideFrame) between the stored and the relaxed positions.
+     */
+    public applyPositions() {
+        if (!this.isUpToDate) {
+            console.error("Relaxed positions cannot be applied to " + this._structure.name +
+                " because its strands changed in the meantime.");
+            return;
+        }
+
+        const vec = new Vector3();
+        const rotation = new Matrix4();
+
+        let index = 0;
+        for (const strand of this._strands) {
+            const store = strand.nucleotideStore;
+            const stored = new Float32Array(strand.length * 6);
+            for (let i = 0; i < strand.length; ++i) {
+                stored.set(store.bbCenter.subarray(i * 3, i * 3 + 3), i * 6);
+                stored.set(store.nbCenter.subarray(i * 3, i * 3 + 3), i * 6 + 3);
+            }
+            const relaxed = this._positions.subarray(index * 6, (index + strand.length) * 6);
+
+            for (let i = 0; i < strand.length; ++i, ++index) {
+                getNucleotideRotation(stored, relaxed, i, strand.length, strand.isCircular, rotation);
+                for (const arr of [store.baseNormal, store.hydrogenFaceDir]) {
+                    vec.fromArray(arr, i * 3).applyMatrix4(rotation).normalize().toArray(arr, i * 3);
+                }
+                store.bbCenter.set(relaxed.subarray(i * 6, i * 6 + 3), i * 3);
+                store.nbCenter.set(relaxed.subarray(i * 6 + 3, i * 6 + 6), i * 3);
+            }
+        }
+        this._structure.isAtomDataDirty = true;
+    }
+
+    private update(positions: Float32Array, progress: CgRelaxationProgress) {
+        this._positions = positions;
+        this._progress = progress;
+        this.signals.progress.dispatch(progress);
+    }
+
+    private runInWorker(args: any[], iterationsPerUpdate: number,
+                        isFinished: (p: CgRelaxationProgress) => boolean): Promise<CgRelaxationProgress> {
+        return new Promise((resolve, reject) => {
+            const worker = new _Worker('cgrelax');
+            const post = (data: any) => {
+                worker.post(data, undefined, (e: any) => {
+                    this.update(e.data.positions, e.data.progress);
+                    if (isFinished(e.data.progress)) {
+                        worker.terminate();
+                        resolve(e.data.progress);
+                    } else {
+                        post({ params: { iterations: iterationsPerUpdate } });
+                    }
+                }, (e: any) => {
+                    worker.terminate();
+                    reject(e);
+                });
+            };
+            post({ args: args, params: { iterations: iterationsPerUpdate } });
+        });
+    }
+
+    private async runInMainThread(args: any[], iterationsPerUpdate: number,
+                                  isFinished: (p: CgRelaxationProgress) => boolean): Promise<CgRelaxationProgress> {
+        const system = new CgRelaxationSystem(args[0], args[1], args[2], args[3], args[4]);
+        while (true) {
+            const progress = system.run(iterationsPerUpdate);
+            this.update(new Float32Array(system.positions), progress);
+            if (isFinished(progress)) return progress;
+
+            // Give the UI a chance to update
+            await new Promise(resolve => setTimeout(resolve, 0));
+        }
+    }
+}
+
+/**
+ * Computes the local frame of a nucleotide of a strand. Its first axis goes from the backbone center
+ * to the nucleobase center, the second one follows the strand (from the backbone center of the previous
+ * nucleotide to the one of the next nucleotide) perpendicularly to the first axis.
+ *
+ * @param positions six values per nucleotide of the strand: XYZ of backbone center and nucleobase center
+ * @returns true if the frame was computed, false if it is degenerate (e.g., for a strand of one nucleotide)
+ */
+function getNucleotideFrame(positions: ArrayLike<number>, i: number, length: number, isCircular: boolean,
+                            target: Matrix4): boolean {
+    const prev = i > 0 ? i - 1 : (isCircular ? length - 1 : i);
+    const next = i < length - 1 ? i + 1 : (isCircular ? 0 : i);
+
+    const x = new Vector3().fromArray(positions, i * 6 + 3).sub(new Vector3().fromArray(positions, i * 6));
+    const y = new Vector3().fromArray(positions, next * 6).sub(new Vector3().fromArray(positions, prev * 6));
+    if (x.lengthSq() < 1e-8) return false;
+
+    x.normalize();
+    y.addScaledVector(x, -y.dot(x));
+    if (y.lengthSq() < 1e-8) return false;
+
+    y.normalize();
+    target.makeBasis(x, y, new Vector3().crossVectors(x, y));
+    return true;
+}
+
+/**
+ * Computes the rotation of the local frame of a nucleotide between two sets of positions of its strand.
+ * If the frame is degenerate, the rotation between the backbone-to-nucleobase directions is used.
+ */
+function getNucleotideRotation(from: ArrayLike<number>, to: ArrayLike<number>, i: number, length: number,
+                               isCircular: boolean, target: Matrix4): Matrix4 {
+    const fromFrame = new Matrix4();
+    if (getNucleotideFrame(from, i, length, isCircular, fromFrame) &&
+        getNucleotideFrame(to, i, length, isCircular, target)) {
+        // Frames are orthonormal, i.e., the inverse of a frame is its transpose
+        return target.multiply(fromFrame.transpose());
+    }
+
+    const fromDir = new Vector3().fromArray(from, i * 6 + 3).sub(new Vector3().fromArray(from, i * 6)).normalize();
+    const toDir = new Vector3().fromArray(to, i * 6 + 3).sub(new Vector3().fromArray(to, i * 6)).normalize();
+    if (fromDir.lengthSq() === 0 || toDir.lengthSq() === 0) {
+        return target.identity();
+    }
+    return target.makeRotationFromQuaternion(new Quaternion().setFromUnitVectors(fromDir, toDir));
+}
+
+export default CgRelaxation;
@@ -0,0 +1,327 @@
+import { BufferAttribute, BufferGeometry, Color, CylinderBufferGeometry, Matrix3, Matrix4, Quaternion, SphereBufferGeometry, Vector3 } from "three";
+import type Buffer from "../../buffer/buffer";
+import type Stage from "../../stage/stage";
+import { Log } from "../../globals";
+import DoubleSidedBuffer from "../../buffer/doublesided-buffer";
+import ArrowBuffer from "../../buffer/arrow-buffer";
+import MappedBuffer from "../../buffer/mapped-buffer";
+
+/**
+ * Drawing mode of a glTF primitive
+ */
+export type GltfPrimitiveMode = "points" | "lines" | "triangles";
+
+/**
+ * Geometry (with per-vertex colors) and material of a single glTF primitive
+ */
+export interface GltfPrimitive {
+    mode: GltfPrimitiveMode,
+    position: Float32Array,
+    normal?: Float32Array,
+    color?: Float32Array,
+    index?: Uint32Array,
+    opacity: number,
+    metalness: number,
+    roughness: number
+}
+
+/**
+ * Node of the exported scene hierarchy
+ */
+export interface GltfNode {
+    name: string,
+    /**
+     * Transformation of the node relative to its parent (identity if not provided)
+     */
+    matrix?: Matrix4,
+    primitives: GltfPrimitive[],
+    children: GltfNode[]
+}
+
+/**
+ * Customizable parameters of the scene extraction
+ */
+export interface GltfSceneParams {
+    /**
+     * Number of width/height segments of the spheres replacing sphere impostors
+     */
+    sphereSegments: number,
+    /**
+     * Number of radial segments of the cylinders replacing cylinder impostors
+     */
+    radialSegments: number
+}
+
+export const GltfSceneDefaultParams: GltfSceneParams = {
+    sphereSegments: 12,
+    radialSegments: 10
+};
+
+/**
+ * Buffers which can be exported. Besides regular buffers, representations store
+ * composite buffers (double-sided buffers and arrows) in their buffer lists.
+ */
+export type GltfExportableBuffer = Buffer | DoubleSidedBuffer | ArrowBuffer;
+
+/**
+ * Representation (its name and buffers) to be exported as a child node of a component node
+ */
+export interface GltfRepresentationData {
+    name: string,
+    bufferList: GltfExportableBuffer[]
+}
+
+/**
+ * Collects the geometry of all visible components of the stage as a node hierarchy.
+ * Every component becomes a root node (carrying the component transformation)
+ * whose children are its visible representations. Mesh buffers are exported directly,
+ * impostors (spheres and cylinders) are converted to triangle meshes
+ * and line and point buffers are kept as lines and points.
+ *
+ * @param stage stage whose components are exported
+ * @param params extraction parameters
+ * @returns root nodes of the scene (one per component with exportable geometry)
+ */
+export function getGltfScene(stage: Stage, params: Partial<GltfSceneParams> = {}): GltfNode[] {
+    const templates = createTemplates(params);
+    const nodes: GltfNode[] = [];
+
+    stage.compList.forEach(comp => {
+        if (!comp.visible) return;
+
+        const reprs = comp.reprList.filter(reprElem => reprElem.getVisibility())
+            .map(reprElem => ({ name: reprElem.name, bufferList: reprElem.repr.bufferList }));
+        const compNode = createComponentNode(comp.name, comp.matrix, reprs, templates);
+        if (compNode.children.length > 0) {
+            nodes.push(compNode);
+        }
+    });
+
+    disposeTemplates(templates);
+
+    return nodes;
+}
+
+/**
+ * Collects the geometry of the provided representations as a component node
+ * (see {@link getGltfScene}).
+ *
+ * @param name name of the node
+ * @param matrix transformation of the component
+ * @param reprs representations whose buffers are exported (as child nodes)
+ * @param params extraction parameters
+ * @returns node carrying the component transformation
+ */
+export function getGltfComponentNode(name: string, matrix: Matrix4, reprs: GltfRepresentationData[],
+    params: Partial<GltfSceneParams> = {}): GltfNode {
+    const templates = createTemplates(params);
+    const node = createComponentNode(name, matrix, reprs, templates);
+    disposeTemplates(templates);
+    return node;
+}
+
+type PrimitiveTemplates = { sphere: BufferGeometry, cylinder: BufferGeometry };
+
+function createTemplates(params: Partial<GltfSceneParams>): PrimitiveTemplates {
+    const p = Object.assign({}, GltfSceneDefaultParams, params);
+    return {
+        sphere: new SphereBufferGeometry(1, p.sphereSegments, Math.max(2, Math.round(p.sphereSegments * 2 / 3))),
+        cylinder: new CylinderBufferGeometry(1, 1, 1, p.radialSegments, 1, true)
+    };
+}
+
+function disposeTemplates(templates: PrimitiveTemplates): void {
+    templates.sphere.dispose();
+    templates.cylinder.dispose();
+}
+
+function createComponentNode(name: string, matrix: Matrix4, reprs: GltfRepresentationData[],
+    templates: PrimitiveTemplates): GltfNode {
+    const compMatrixInv = new Matrix4().getInverse(matrix);
+    const compNode: GltfNode = {
+        name: name,
+        matrix: matrix.clone(),
+        primitives: [],
+        children: []
+    };
+
+    reprs.forEach(repr => {
+        const primitives: GltfPrimitive[] = [];
+        repr.bufferList.forEach(buffer => {
+            // Buffers are stored in world space, the component transformation is stored in the node
+            const relMatrix = compMatrixInv.clone().multiply(buffer.matrix);
+            getBufferPrimitives(buffer, templates).forEach(prim => {
+                primitives.push(transformPrimitive(prim, relMatrix));
+            });
+        });
+
+        if (primitives.length > 0) {
+            compNode.children.push({ name: repr.name, primitives: primitives, children: [] });
+        }
+    });
+
+    return compNode;
+}
+
+function getBufferPrimitives(buffer: GltfExportableBuffer, templates: PrimitiveTemplates): GltfPrimitive[] {
+    // Composite buffers (double-sided buffers and arrows)
+    if (buffer instanceof DoubleSidedBuffer) {
+        return getBufferPrimitives(buffer.frontBuffer, templates);
+    }
+    if (buffer instanceof ArrowBuffer) {
+        return getBufferPrimitives(buffer.cylinderBuffer, templates)
+            .concat(getBufferPrimitives(buffer.coneBuffer, templates));
+    }
+
+    if (!buffer.visible || buffer.isText || buffer.size === 0) return [];
+
+    const attr = buffer.geometry.attributes as { [name: string]: BufferAttribute };
+    const material = {
+        opacity: buffer.parameters.opacity,
+        metalness: buffer.parameters.metalness,
+        roughness: buffer.parameters.roughness
+    };
+
+    if (buffer instanceof MappedBuffer) {
+        const mappingSize = buffer.mappingSize;
+        const read = (name: string, i: number, target: Vector3 | Color) => {
+            return target.fromArray(attr[name].array as ArrayLike<number> as number[], i * mappingSize * 3);
+        };
+        const readScalar = (name: string, i: number) => attr[name].array[i * mappingSize];
+
+        if (buffer.isImpostor && attr.radius && !attr.position1) {
+            return [Object.assign(createInstances(templates.sphere, buffer.size, (i, matrix, color) => {
+                const r = readScalar("radius", i);
+                matrix.makeScale(r, r, r).setPosition(read("position", i, new Vector3()) as Vector3);
+                read("color", i, color);
+            }), material)];
+        } else if (buffer.isImpostor && attr.radius && attr.position1 && !attr.radius2) {
+            const p1 = new Vector3();
+            const p2 = new Vector3();
+            const mid = new Vector3();
+
+            // Every cylinder consists of two halves colored by the colors of its ends
+            return [Object.assign(createInstances(templates.cylinder, buffer.size * 2, (i, matrix, color) => {
+                const k = i >> 1;
+                read("position1", k, p1);
+                read("position2", k, p2);
+                mid.addVectors(p1, p2).multiplyScalar(0.5);
+                getCylinderMatrix(i % 2 === 0 ? p1 : mid, i % 2 === 0 ? mid : p2, readScalar("radius", k), matrix);
+                read(i % 2 === 0 ? "color" : "color2", k, color);
+            }), material)];
+        } else if (!buffer.isImpostor && attr.position1 && attr.color2) {
+            // Wide lines
+            const n = buffer.size;
+            const position = new Float32Array(n * 12);
+            const color = new Float32Array(n * 12);
+            const p1 = new Vector3();
+            const p2 = new Vector3();
+            const mid = new Vector3();
+            const c = new Color();
+
+            for (let i = 0; i < n; ++i) {
+                read("position1", i, p1);
+                read("position2", i, p2);
+                mid.addVectors(p1, p2).multiplyScalar(0.5);
+                p1.toArray(position, i * 12);
+                mid.toArray(position, i * 12 + 3);
+                mid.toArray(position, i * 12 + 6);
+                p2.toArray(position, i * 12 + 9);
+
+                read("color", i, c);
+                c.toArray(color, i * 12);
+                c.toArray(color, i * 12 + 3);
+                read("color2", i, c);
+                c.toArray(color, i * 12 + 6);
+                c.toArray(color, i * 12 + 9);
+            }
+
+            return [Object.assign({ mode: "lines" as GltfPrimitiveMode, position: position, color: color }, material)];
+        }
+
+        Log.warn("glTF export: buffer of type " + buffer.constructor.name + " is not supported and was skipped");
+        return [];
+    }
+
+    if (!attr.position) return [];
+
+    const index = buffer.geometry.index;
+    const hasNormals = !buffer.isLine && !buffer.isPoint && attr.normal;
+
+    return [Object.assign({
+        mode: (buffer.isLine ? "lines" : buffer.isPoint ? "points" : "triangles") as GltfPrimitiveMode,
+        position: new Float32Array(attr.position.array as ArrayLike<number>),
+        normal: hasNormals ? new Float32Array(attr.normal.array as ArrayLike<number>) : undefined,
+        color: attr.color ? new Float32Array(attr.color.array as ArrayLike<number>) : undefined,
+        index: index ? new Uint32Array(index.array as ArrayLike<number>) : undefined
+    }, material)];
+}
+
+function getCylinderMatrix(from: Vector3, to: Vector3, radius: number, target: Matrix4): Matrix4 {
+    const dir = new Vector3().subVectors(to, from);
+    const length = dir.length();
+    const rotation = new Quaternion().setFromUnitVectors(new Vector3(0, 1, 0),
+        length > 0 ? dir.divideScalar(length) : new Vector3(0, 1, 0));
+
+    return target.compose(new Vector3().addVectors(from, to).multiplyScalar(0.5), rotation,
+        new Vector3(radius, length, radius));
+}
+
+/**
+ * Creates a triangle mesh consisting of transformed and colored copies of the template geometry
+ */
+function createInstances(template: BufferGeometry, count: number,
+    setInstance: (i: number, matrix: Matrix4, color: Color) => void): GltfPrimitive {
+    const tPosition = template.attributes.position.array as ArrayLike<number>;
+    const tNormal = template.attributes.normal.array as ArrayLike<number>;
+    const tIndex = template.index!.array as ArrayLike<number>;
+    const nv = tPosition.length / 3;
+    const ni = tIndex.length;
+
+    const position = new Float32Array(count * nv * 3);
+    const normal = new Float32Array(count * nv * 3);
+    const color = new Float32Array(count * nv * 3);
+    const index = new Uint32Array(count * ni);
+
+    const matrix = new Matrix4();
+    const normalMatrix = new Matrix3();
+    const c = new Color();
+    const v = new Vector3();
+
+    for (let i = 0; i < count; ++i) {
+        setInstance(i, matrix, c);
+        normalMatrix.getNormalMatrix(matrix);
+
+        const vOffset = i * nv;
+        for (let j = 0; j < nv; ++j) {
+            const o = (vOffset + j) * 3;
+            v.fromArray(tPosition as number[], j * 3).applyMatrix4(matrix).toArray(position, o);
+            v.fromArray(tNormal as number[], j * 3).applyMatrix3(normalMatrix).normalize().toArray(normal, o);
+            c.toArray(color, o);
+        }
+        for (let j = 0; j < ni; ++j) {
+            index[i * ni + j] = tIndex[j] + vOffset;
+        }
+    }
+
+    return { mode: "triangles", position, normal, color, index, opacity: 1, metalness: 0, roughness: 1 };
+}
+
+/**
+ * Applies the transformation to the positions and normals of the primitive (in place)
+ */
+function transformPrimitive(prim: GltfPrimitive, matrix: Matrix4): GltfPrimitive {
+    if (matrix.equals(new Matrix4())) return prim;
+
+    const v = new Vector3();
+    const normalMatrix = new Matrix3().getNormalMatrix(matrix);
+
+    for (let i = 0; i < prim.position.length; i += 3) {
+        v.fromArray(prim.position as unknown as number[], i).applyMatrix4(matrix).toArray(prim.position, i);
+        if (prim.normal) {
+            v.fromArray(prim.normal as unknown as number[], i).applyMatrix3(normalMatrix).normalize().toArray(prim.normal, i);
+        }
+    }
+
+    return prim;
+}
@@ -0,0 +1,213 @@
+import * as fs from "fs";
+import * as path from "path";
+import { parseScriptArguments, runJsPyScript, ScriptExitCode } from "../scripting/script-runner";
+import {
+    buildDsDna, buildPeptide, exportStructures, HeadlessExportFormat, HeadlessObject, loadStructures,
+    toAllAtom, toCoarseGrained
+} from "./headless-utils";
+
+/**
+ * Input/output functions used by the command line interface
+ */
+export interface CliIo {
+    /**
+     * Prints the given text to the standard output
+     */
+    print: (text: string) => void,
+    /**
+     * Prints the given text to the standard error output
+     */
+    printError: (text: string) => void,
+    /**
+     * Writes the content to the given file
+     */
+    writeFile: (filePath: string, content: string) => void
+}
+
+const DefaultCliIo: CliIo = {
+    print: text => process.stdout.write(text + "\n"),
+    printError: text => process.stderr.write(text + "\n"),
+    writeFile: (filePath, content) => fs.writeFileSync(filePath, content)
+};
+
+/**
+ * Commands of the command line interface
+ */
+const CliCommands: { [name: string]: { usage: string, description: string } } = {
+    "convert": {
+        usage: "convert <input> <output> [--cg | --aa]",
+        description: "Converts the input file to the output format determined by the extension (pdb, cif, unf). " +
+            "With --cg (--aa), all-atom (coarse-grained) structures are converted to coarse-grained (all-atom) ones."
+    },
+    "build-dsdna": {
+        usage: "build-dsdna <sequence> [-o <output>]",
+        description: "Builds coarse-grained double-stranded B-DNA with the given sequence."
+    },
+    "build-peptide": {
+        usage: "build-peptide <sequence> [-o <output>]",
+        description: "Builds coarse-grained peptide with the given one-letter sequence."
+    },
+    "run": {
+        usage: "run <script.jspy> [name=value ...] [-o <output.json>]",
+        description: "Runs the JSPython script with the given named arguments and prints the result " +
+            "(exit code, return value and log) as JSON. Besides the scripting API, the script can call " +
+            "loadFile, buildDsDna, buildPeptide, toCoarseGrained, toAllAtom, exportStructures and writeFile. " +
+            "The exit code is 1 if the script fails and 2 if the script or its arguments are invalid."
+    },
+    "help": {
+        usage: "help",
+        description: "Prints this help."
+    }
+};
+
+const SupportedFormats: HeadlessExportFormat[] = ["pdb", "cif", "unf"];
+
+/**
+ * Runs a command of the Catana command line interface.
+ * If no output file is provided to the build commands, UNF is printed to the standard output.
+ *
+ * @example
+ * catana convert design.unf design.pdb
+ * catana build-dsdna GATTACA -o gattaca.pdb
+ *
+ * @param args command line arguments (without the node executable and the script path)
+ * @param io input/output functions (standard output and file system by default)
+ * @returns promise resolving to the exit code (0 on success)
+ */
+export function runCli(args: string[], io: CliIo = DefaultCliIo): Promise<number> {
+    const [command, ...rest] = args;
+    const options = parseOptions(rest);
+
+    let result: Promise<void>;
+
+    switch (command) {
+        case "convert":
+            if (options.positional.length !== 2) {
+                return usageError(io, command);
+            }
+            result = loadStructures(options.positional[0]).then(objects => {
+                if (options.flags.has("cg")) return toCoarseGrained(objects);
+                if (options.flags.has("aa")) return toAllAtom(objects);
+                return objects;
+            }).then(objects => writeOutput(io, objects, options.positional[1]));
+            break;
+        case "build-dsdna":
+            if (options.positional.length !== 1) {
+                return usageError(io, command);
+            }
+            result = buildDsDna(options.positional[0])
+                .then(s => writeOutput(io, [s], options.output));
+            break;
+        case "build-peptide":
+            if (options.positional.length !== 1) {
+                return usageError(io, command);
+            }
+            result = Promise.resolve()
+                .then(() => writeOutput(io, [buildPeptide(options.positional[0])], options.output));
+            break;
+        case "run":
+            if (options.positional.length < 1) {
+                return usageError(io, command);
+            }
+            return runScriptFile(io, options.positional[0], options.positional.slice(1), options.output);
+        case "help":
+        case "--help":
+        case undefined:
+            io.print(getHelp());
+            return Promise.resolve(0);
+        default:
+            io.printError("Unknown command: " + command + "\n\n" + getHelp());
+            return Promise.resolve(1);
+    }
+
+    return result.then(() => 0, reason => {
+        io.printError("Error: " + (reason && reason.message !== undefined ? reason.message : reason));
+        return 1;
+    });
+}
+
+function getHelp(): string {
+    let help = "Usage: catana <command> [arguments]\n\nCommands:\n";
+    for (const name in CliCommands) {
+        help += "  " + CliCommands[name].usage + "\n      " + CliCommands[name].description + "\n";
+    }
+    return help;
+}
+
+function usageError(io: CliIo, command: string): Promise<number> {
+    io.printError("Usage: catana " + CliCommands[command].usage);
+    return Promise.resolve(1);
+}
+
+function parseOptions(args: string[]): { positional: string[], flags: Set<string>, output?: string } {
+    const result: { positional: string[], flags: Set<string>, output?: string } = {
+        positional: [],
+        flags: new Set()
+    };
+
+    for (let i = 0; i < args.length; ++i) {
+        const arg = args[i];
+        if (arg === "-o" || arg === "--output") {
+            result.output = args[++i];
+        } else if (arg.startsWith("--")) {
+            result.flags.add(arg.substr(2));
+        } else {
+            result.positional.push(arg);
+        }
+    }
+
+    return result;
+}
+
+function runScriptFile(io: CliIo, filePath: string, args: string[], output?: string): Promise<number> {
+    let scriptBody: string;
+    let namedArgs: { [name: string]: any };
+
+    try {
+        scriptBody = fs.readFileSync(filePath, "utf-8");
+        namedArgs = parseScriptArguments(args);
+    } catch (e) {
+        io.printError("Error: " + e.message);
+        return Promise.resolve(ScriptExitCode.INVALID_INPUT);
+    }
+
+    const functions: { [name: string]: (...args: any[]) => any } = {
+        "loadFile": (p: string) => loadStructures(p),
+        "buildDsDna": (seq: string) => buildDsDna(seq),
+        "buildPeptide": (seq: string) => buildPeptide(seq),
+        "toCoarseGrained": (objects: HeadlessObject[]) => toCoarseGrained(objects),
+        "toAllAtom": (objects: HeadlessObject[]) => toAllAtom(objects),
+        "exportStructures": (objects: HeadlessObject[], format: HeadlessExportFormat) => exportStructures(objects, format),
+        "writeFile": (p: string, content: string) => io.writeFile(p, content)
+    };
+
+    return runJsPyScript(scriptBody, { namedArgs: namedArgs, functions: functions }).then(result => {
+        const json = JSON.stringify(result, null, 2);
+        if (output) {
+            io.writeFile(output, json);
+        } else {
+            io.print(json);
+        }
+        if (result.error) {
+            io.printError("Error: " + result.error);
+        }
+        return result.exitCode;
+    });
+}
+
+function writeOutput(io: CliIo, objects: HeadlessObject[], output?: string): Promise<void> {
+    const format = (output ? path.extname(output).substr(1).toLowerCase() : "unf") as HeadlessExportFormat;
+
+    if (SupportedFormats.indexOf(format) < 0) {
+        return Promise.reject(new Error("Unsupported output format: " + format +
+            " (supported: " + SupportedFormats.join(", ") + ")"));
+    }
+
+    return exportStructures(objects, format).then(content => {
+        if (output) {
+            io.writeFile(output, content);
+        } else {
+            io.print(content);
+        }
+    });
+}
@@ -0,0 +1,175 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Vector3 } from "three";
+import { Log, ParserRegistry } from "../../globals";
+import { ParserParams } from "../../loader/parser-loader";
+import Structure from "../../structure/structure";
+import StringStreamer from "../../streamer/string-streamer";
+import BinaryStreamer from "../../streamer/binary-streamer";
+import PdbWriter from "../../writer/pdb-writer";
+import MmcifWriter from "../../writer/mmcif-writer";
+import CgStructure from "../data_model/cg-structure";
+import DnaFactory from "../nanomodeling/dna-factory";
+import ProteinFactory from "../nanomodeling/protein-factory";
+import NucleicAcidStructuresProvider from "../nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import { FastaSequenceProvider } from "../nanomodeling/sequence-providers/fasta-sequence-provider";
+import { convertAllAtomStructureToCoarseGrained } from "../nanomodeling/aa-to-cg-structure-conversion";
+import { generateAtomisticStructure } from "../nanomodeling/atom-generation";
+import UnfWriter from "../writer/unf-writer";
+import MultiObjectsStorage from "../utils/multi-objects-storage";
+import GlobalIdGenerator from "../utils/global-id-generator";
+
+/**
+ * Structure processed by the headless mode (all-atom or coarse-grained)
+ */
+export type HeadlessObject = Structure | CgStructure;
+
+/**
+ * Output formats supported by {@link exportStructures}
+ */
+export type HeadlessExportFormat = "pdb" | "cif" | "unf";
+
+/**
+ * Parses the provided file content with the parser registered for the given extension.
+ *
+ * @param data content of the file (binary data for binary formats, such as MMTF)
+ * @param ext extension of the file determining the parser (e.g., "pdb", "unf", "json" for caDNAno files)
+ * @param params parser parameters (e.g., "configuration" in case of oxDNA topologies)
+ * @returns promise resolving to the parsed all-atom and coarse-grained structures
+ */
+export function parseData(data: string | ArrayBuffer | Uint8Array, ext: string,
+    params: ParserParams & { [k: string]: any } = {}): Promise<HeadlessObject[]> {
+    ext = ext.toLowerCase();
+    const ParserClass = ParserRegistry.get(ext);
+
+    if (!ParserClass) {
+        return Promise.reject(new Error("Unsupported file extension: " + ext));
+    }
+
+    const streamer = ParserRegistry.isBinary(ext) ?
+        new BinaryStreamer(data instanceof Uint8Array ? data : new Uint8Array(data as ArrayBuffer)) :
+        new StringStreamer(typeof data === "string" ? data : Buffer.from(data as ArrayBuffer).toString("utf-8"));
+
+    // Nucleotide reference structures are needed by the coarse-grained parsers (e.g., UNF)
+    return NucleicAcidStructuresProvider.loadStructures().then(() => {
+        return new ParserClass(streamer, params).parse();
+    }).then((result: any) => {
+        const objects: any[] = result instanceof MultiObjectsStorage ? result.storedObjects : [result];
+        return objects.filter(o => o instanceof Structure || o instanceof CgStructure);
+    });
+}
+
+/**
+ * Loads structures from the given file. The parser is determined by the file extension.
+ * In case of oxDNA topologies (.top), the configuration is expected in a file
+ * with the same name and ".dat" extension. Topologies without an oxDNA header are loaded as GROMACS ones.
+ *
+ * @param filePath path to the file
+ * @returns promise resolving to the loaded all-atom and coarse-grained structures
+ */
+export function loadStructures(filePath: string): Promise<HeadlessObject[]> {
+    const ext = path.extname(filePath).substr(1).toLowerCase();
+    const name = path.basename(filePath, path.extname(filePath));
+    const params: ParserParams & { [k: string]: any } = { name: name, path: filePath };
+
+    try {
+        const configurationPath = filePath.replace(/\.top$/i, ".dat");
+        if (ext === "top" && fs.existsSync(configurationPath)) {
+            params.configuration = fs.readFileSync(configurationPath, "utf-8");
+        }
+        const data = ParserRegistry.isBinary(ext) ? fs.readFileSync(filePath) : fs.readFileSync(filePath, "utf-8");
+        return parseData(data, ext, params);
+    } catch (e) {
+        return Promise.reject(e);
+    }
+}
+
+/**
+ * Exports the structures in the given format.
+ * Coarse-grained structures are converted to all-atom ones when exported to PDB or PDBx/mmCIF.
+ *
+ * @param objects structures to be exported
+ * @param format output format
+ * @returns promise resolving to the content of the output file
+ */
+export function exportStructures(objects: HeadlessObject[], format: HeadlessExportFormat): Promise<string> {
+    if (objects.length === 0) {
+        return Promise.reject(new Error("There are no structures to be exported."));
+    }
+
+    if (format === "unf") {
+        return Promise.resolve(new UnfWriter(objects).getData());
+    }
+
+    if (objects.length > 1) {
+        Log.warn("Only the first of " + objects.length + " structures is exported to " + format.toUpperCase() + ".");
+    }
+
+    const o = objects[0];
+    const structure = o instanceof CgStructure ? generateAtomisticStructure(o) : Promise.resolve(o);
+
+    return structure.then(s => {
+        return format === "pdb" ? new PdbWriter(s).getData() : new MmcifWriter(s).getData();
+    });
+}
+
+/**
+ * Converts all-atom structures to coarse-grained ones. Coarse-grained structures are kept as they are.
+ */
+export function toCoarseGrained(objects: HeadlessObject[]): HeadlessObject[] {
+    return objects.map(o => o instanceof Structure ? convertAllAtomStructureToCoarseGrained(o) : o);
+}
+
+/**
+ * Converts coarse-grained structures to all-atom ones. All-atom structures are kept as they are.
+ */
+export function toAllAtom(objects: HeadlessObject[]): Promise<HeadlessObject[]> {
+    return Promise.all(objects.map(o => o instanceof CgStructure ? generateAtomisticStructure(o) : o));
+}
+
+/**
+ * Builds coarse-grained double-stranded B-DNA with the given sequence.
+ * The helical axis starts at the origin and goes in the direction of the x axis.
+ *
+ * @param sequence sequence of the first strand (the second strand is complementary)
+ * @param name name of the structure
+ * @returns promise resolving to the new coarse-grained structure
+ */
+export function buildDsDna(sequence: string, name: string = "dsDNA"): Promise<CgStructure> {
+    return NucleicAcidStructuresProvider.loadStructures().then(() => {
+        const dnaFactory = new DnaFactory();
+        const strand = dnaFactory.buildHelix(sequence.length, new Vector3(0, 0, 0), new Vector3(1, 0, 0),
+            undefined, new FastaSequenceProvider(sequence.toUpperCase()));
+
+        if (!strand) {
+            throw new Error("Failed to build DNA strand from sequence: " + sequence);
+        }
+
+        const cgStructure = new CgStructure(GlobalIdGenerator.generateId(), name);
+        cgStructure.addNaStrand(strand);
+        cgStructure.addNaStrand(dnaFactory.buildComplementaryHelix(strand));
+
+        return cgStructure;
+    });
+}
+
+/**
+ * Builds coarse-grained peptide with the given (one-letter) sequence.
+ * The structure of the peptide is only a crude approximation.
+ *
+ * @param sequence one-letter amino acid sequence
+ * @param name name of the structure
+ * @returns new coarse-grained structure
+ */
+export function buildPeptide(sequence: string, name: string = "Peptide"): CgStructure {
+    const chain = new ProteinFactory().buildPeptideFromSequence(sequence.toUpperCase());
+
+    if (!chain) {
+        throw new Error("Failed to build amino acid chain from sequence: " + sequence);
+    }
+
+    const cgStructure = new CgStructure(GlobalIdGenerator.generateId(), name);
+    cgStructure.addAaChain(chain);
+
+    return cgStructure;
+}
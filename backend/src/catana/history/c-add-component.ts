@@ -1,16 +1,19 @@
 import Command from "./command";
 import Stage from "../../stage/stage";
 import Component from "../../component/component";
+import { getCurrentComponent } from "./history-utils";
 
 /**
  * This command keeps track of the added components,
  * its "do" therefore performs nothing and serves just for "undo"
- * purpose.
+ * purpose. When undone, the components are detached from the stage
+ * (without being disposed) so that they can be added back on "redo".
  */
 export class AddComponentCommand extends Command {
 
     private _stage: Stage;
     private _components: Array<Component>;
+    private _detachedComponents: Array<[Component, boolean]> = [];
 
     constructor(stage: Stage, components: Array<Component>) {
         super();
@@ -22,20 +25,49 @@ export class AddComponentCommand extends Command {
     public do() { }
 
     public undo() {
-        if (!this._components || this._components.length === 0) {
+        this._components = this._components.map(c => getCurrentComponent(c));
+
+        // Components already removed from the stage by other means are not tracked anymore
+        const componentsToDetach = this._components.filter(c => this._stage.compList.indexOf(c) >= 0);
+        if (componentsToDetach.length === 0) {
             this.error_cannotUndo();
             return;
         }
-        for (let i = 0; i < this._components.length; ++i) {
-            this._stage.removeComponent(this._components[i]);
+
+        for (let i = 0; i < componentsToDetach.length; ++i) {
+            this._detachedComponents.push([componentsToDetach[i], componentsToDetach[i].visible]);
+            this._stage.removeComponent(componentsToDetach[i], false);
+        }
+    }
+
+    public redo() {
+        if (this._detachedComponents.length === 0) {
+            this.error_cannotRedo();
+            return;
+        }
+
+        for (let i = 0; i < this._detachedComponents.length; ++i) {
+            const [component, visible] = this._detachedComponents[i];
+            this._stage.addComponent(component);
+            component.setVisibility(visible);
         }
-        this._components = new Array(0);
+        this._detachedComponents = [];
+    }
+
+    public get components(): Component[] {
+        return this._components.map(c => getCurrentComponent(c));
+    }
+
+    public dispose() {
+        // Detached components will not be added back anymore
+        this._detachedComponents.forEach(x => x[0].dispose());
+        this._detachedComponents = [];
     }
 
     get name(): string {
-        return "Added " + this._components.length + " component" + (this._components.length === 1 ? ": " : "s: ") + 
+        return "Added " + this._components.length + " component" + (this._components.length === 1 ? ": " : "s: ") +
         this._components.map(x => x.name).join(", ");
     }
 }
 
-export default AddComponentCommand;
\ No newline at end of file
+export default AddComponentCommand;
@@ -0,0 +1,47 @@
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import { NucleobaseType } from "../data_model/types_declarations/monomer-types";
+import { assignScaffoldSequence, ScaffoldSequenceParameters, ScaffoldSequenceResult } from "../nanomodeling/scaffold-sequence";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command applies a sequence to the scaffold strand
+ * and makes the paired staples complementary to it.
+ */
+export class ApplyScaffoldSequenceCommand extends CgStructureEditCommand {
+
+    private readonly _scaffold: CgNucleicAcidStrand;
+    private readonly _sequence: NucleobaseType[];
+    private readonly _params: Partial<ScaffoldSequenceParameters>;
+
+    private _result: ScaffoldSequenceResult | null = null;
+
+    /**
+     * @param scaffold scaffold strand
+     * @param sequence scaffold sequence
+     * @param params assignment parameters (start nucleotide, filler base)
+     */
+    constructor(scaffold: CgNucleicAcidStrand, sequence: NucleobaseType[], params: Partial<ScaffoldSequenceParameters> = {}) {
+        super([scaffold.parentStructure]);
+
+        this._scaffold = scaffold;
+        this._sequence = sequence;
+        this._params = params;
+    }
+
+    /**
+     * @returns statistics of the assignment (null if the command was not done yet)
+     */
+    public get result(): ScaffoldSequenceResult | null {
+        return this._result;
+    }
+
+    protected edit() {
+        this._result = assignScaffoldSequence(this._scaffold, this._sequence, this._params);
+    }
+
+    get name(): string {
+        return "Applied scaffold sequence to " + this._scaffold.name;
+    }
+}
+
+export default ApplyScaffoldSequenceCommand;
@@ -0,0 +1,64 @@
+import StructureComponent from "../../component/structure-component";
+import Command from "./command";
+import { AtomicStructureSnapshot } from "./structure-snapshot";
+
+/**
+ * Base class for commands keeping track of modifications of all-atom structures.
+ * As these modifications are often asynchronous (e.g., they need to load amino acid templates first),
+ * the command is expected to be created before the modification starts (storing the original state
+ * of the structure) and done once the modification is finished (storing the modified state).
+ * Undo/redo then restores the stored states.
+ */
+export abstract class AtomicStructureEditCommand extends Command {
+
+    private readonly _component: StructureComponent;
+
+    private _before: AtomicStructureSnapshot;
+    private _after: AtomicStructureSnapshot | null = null;
+
+    /**
+     * @param component component whose structure is going to be modified
+     */
+    constructor(component: StructureComponent) {
+        super();
+
+        this._component = component;
+        this._before = new AtomicStructureSnapshot(component.structure);
+    }
+
+    protected get component(): StructureComponent {
+        return this._component;
+    }
+
+    public do() {
+        if (this._after === null) {
+            this._after = new AtomicStructureSnapshot(this._component.structure);
+        } else {
+            this.restore(this._after);
+        }
+    }
+
+    public undo() {
+        this.restore(this._before);
+    }
+
+    public get memorySize(): number {
+        return this._before.memorySize + (this._after?.memorySize ?? 0);
+    }
+
+    public get components(): StructureComponent[] {
+        return [this._component];
+    }
+
+    public dispose() {
+        this._before.dispose();
+        this._after?.dispose();
+    }
+
+    private restore(snapshot: AtomicStructureSnapshot) {
+        snapshot.restore(this._component.structure);
+        this._component.rebuildRepresentations();
+    }
+}
+
+export default AtomicStructureEditCommand;
@@ -0,0 +1,47 @@
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import Lattice from "../nanomodeling/lattices/lattice";
+import { autoStaple, AutoStapleParameters, AutoStapleResult } from "../nanomodeling/auto-staple";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command generates staples (with crossovers) for the unpaired nucleotides
+ * of a scaffold aligned with a lattice.
+ */
+export class AutoStapleCommand extends CgStructureEditCommand {
+
+    private readonly _scaffold: CgNucleicAcidStrand;
+    private readonly _lattice: Lattice;
+    private readonly _params: Partial<AutoStapleParameters>;
+
+    private _result: AutoStapleResult | null = null;
+
+    /**
+     * @param scaffold scaffold strand
+     * @param lattice lattice to which the scaffold is aligned
+     * @param params generation parameters (staple length range, crossovers)
+     */
+    constructor(scaffold: CgNucleicAcidStrand, lattice: Lattice, params: Partial<AutoStapleParameters> = {}) {
+        super([scaffold.parentStructure]);
+
+        this._scaffold = scaffold;
+        this._lattice = lattice;
+        this._params = params;
+    }
+
+    /**
+     * @returns statistics of the generation (null if the command was not done yet)
+     */
+    public get result(): AutoStapleResult | null {
+        return this._result;
+    }
+
+    protected edit() {
+        this._result = autoStaple(this._scaffold, this._lattice, this._params);
+    }
+
+    get name(): string {
+        return "Generated staples for " + this._scaffold.name;
+    }
+}
+
+export default AutoStapleCommand;
@@ -0,0 +1,121 @@
+import Stage from "../../stage/stage";
+import CgStructureComponent from "../component/cg-structure-component";
+import CgStructure from "../data_model/cg-structure";
+import MultiObjectsStorage from "../utils/multi-objects-storage";
+import Command from "./command";
+import { CgStructureSnapshot } from "./structure-snapshot";
+
+/**
+ * Base class for commands modifying coarse-grained structures.
+ * The modification itself is performed by the {@link CgStructureEditCommand.edit} method
+ * when the command is done for the first time. The states of the structures before and after
+ * the modification are stored as snapshots (containing only the modified polymers)
+ * which are then restored when undoing/redoing the command.
+ */
+export abstract class CgStructureEditCommand extends Command {
+
+    private readonly _structures: CgStructure[];
+    private readonly _components: (CgStructureComponent | null)[];
+    private readonly _stage: Stage | undefined;
+
+    private _before: CgStructureSnapshot[] | null = null;
+    private _after: CgStructureSnapshot[] | null = null;
+
+    /**
+     * @param structures structures modified by this command
+     */
+    constructor(structures: (CgStructure | undefined)[]) {
+        super();
+
+        this._structures = structures.filter((s, i) => s !== undefined && structures.indexOf(s) === i) as CgStructure[];
+        this._components = this._structures.map(s => s.parentComponent);
+        this._stage = this._components.find(c => c !== null)?.stage;
+    }
+
+    /**
+     * Performs the modification of the structures
+     */
+    protected abstract edit(): void;
+
+    public do() {
+        if (this._after !== null) {
+            this.restore(this._after);
+            return;
+        }
+
+        this._before = this._structures.map(s => new CgStructureSnapshot(s));
+        this.edit();
+        this._after = this._structures.map(s => new CgStructureSnapshot(s));
+
+        for (let i = 0; i < this._structures.length; ++i) {
+            CgStructureSnapshot.dropUnchanged(this._before[i], this._after[i]);
+        }
+    }
+
+    public undo() {
+        if (this._before === null) {
+            this.error_cannotUndo();
+            return;
+        }
+
+        this.restore(this._before);
+    }
+
+    public redo() {
+        if (this._after === null) {
+            this.error_cannotRedo();
+            return;
+        }
+
+        this.restore(this._after);
+    }
+
+    public get memorySize(): number {
+        return [...(this._before ?? []), ...(this._after ?? [])].reduce((sum, s) => sum + s.memorySize, 0);
+    }
+
+    public get components(): CgStructureComponent[] {
+        return this._structures.map(s => s.parentComponent).filter(c => c !== null) as CgStructureComponent[];
+    }
+
+    public dispose() {
+        this._before?.forEach(s => s.dispose());
+        this._after?.forEach(s => s.dispose());
+    }
+
+    /**
+     * Restores the structures from the snapshots and updates their components.
+     * Structures which are empty after the restoration are removed from the stage (similarly
+     * to the removal of their last polymer) and components of the structures which became non-empty
+     * again are re-created.
+     */
+    private restore(snapshots: CgStructureSnapshot[]) {
+        for (let i = 0; i < this._structures.length; ++i) {
+            const structure = this._structures[i];
+            const oldComponent = this._components[i];
+
+            snapshots[i].restore(structure);
+
+            const component = structure.parentComponent;
+
+            if (structure.polymerCount === 0) {
+                component?.stage.removeComponent(component);
+            } else if (component) {
+                component.updateRepresentations({});
+            } else if (this._stage) {
+                const newComponent = this._stage.addComponentFromObject(new MultiObjectsStorage([structure]),
+                    oldComponent ? { name: oldComponent.name } : {})[0] as CgStructureComponent;
+
+                if (oldComponent) {
+                    newComponent.setPosition(oldComponent.position);
+                    newComponent.setRotation(oldComponent.quaternion);
+                }
+                this._stage.defaultFileRepresentation(newComponent);
+
+                this._components[i] = newComponent;
+            }
+        }
+    }
+}
+
+export default CgStructureEditCommand;
@@ -0,0 +1,43 @@
+import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
+import { getComplementaryBase, NucleobaseType } from "../data_model/types_declarations/monomer-types";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command changes the nucleobase type of a nucleotide
+ * and, optionally, of its paired nucleotide as well.
+ */
+export class ChangeNucleobaseTypeCommand extends CgStructureEditCommand {
+
+    private readonly _nucleotide: CgNucleotideProxy;
+    private readonly _nucleobaseType: NucleobaseType;
+    private readonly _changeAlsoComplementary: boolean;
+
+    /**
+     * @param nucleotide nucleotide to modify
+     * @param nucleobaseType new nucleobase type
+     * @param changeAlsoComplementary if true, the paired nucleotide (if any) gets the complementary type
+     */
+    constructor(nucleotide: CgNucleotideProxy, nucleobaseType: NucleobaseType, changeAlsoComplementary: boolean) {
+        super([nucleotide.parentStructure, nucleotide.pairedNucleotide?.parentStructure]);
+
+        this._nucleotide = nucleotide;
+        this._nucleobaseType = nucleobaseType;
+        this._changeAlsoComplementary = changeAlsoComplementary;
+    }
+
+    protected edit() {
+        const np = this._nucleotide;
+        np.nucleobaseType = this._nucleobaseType;
+
+        const compNp = np.pairedNucleotide;
+        if (this._changeAlsoComplementary && compNp) {
+            compNp.nucleobaseType = getComplementaryBase(this._nucleobaseType, np.parentStrand.naType);
+        }
+    }
+
+    get name(): string {
+        return "Changed nucleobase type";
+    }
+}
+
+export default ChangeNucleobaseTypeCommand;
@@ -0,0 +1,73 @@
+import Component from "../../component/component";
+import Command from "./command";
+
+/**
+ * This command groups several commands together so that they
+ * are undone/redone at once, as a single action.
+ */
+export class CommandGroup extends Command {
+
+    private readonly _name: string;
+    private readonly _commands: Command[];
+
+    /**
+     * @param name name of the group (i.e., of the multi-step action)
+     * @param commands commands (already done) belonging to this group
+     */
+    constructor(name: string, commands: Command[] = []) {
+        super();
+
+        this._name = name;
+        this._commands = commands;
+    }
+
+    /**
+     * @returns commands belonging to this group (in the order they were done)
+     */
+    public get commands(): Command[] {
+        return this._commands;
+    }
+
+    /**
+     * Adds new (already done) command to the group
+     */
+    public add(command: Command): void {
+        this._commands.push(command);
+    }
+
+    public do() {
+        this._commands.forEach(c => c.do());
+    }
+
+    public undo() {
+        for (let i = this._commands.length - 1; i >= 0; --i) {
+            this._commands[i].undo();
+        }
+    }
+
+    public redo() {
+        this._commands.forEach(c => c.redo());
+    }
+
+    public get memorySize(): number {
+        return this._commands.reduce((sum, c) => sum + c.memorySize, 0);
+    }
+
+    public get components(): Component[] {
+        const components: Component[] = [];
+        this._commands.forEach(c => c.components.forEach(x => {
+            if (components.indexOf(x) === -1) components.push(x);
+        }));
+        return components;
+    }
+
+    public dispose() {
+        this._commands.forEach(c => c.dispose());
+    }
+
+    get name(): string {
+        return this._name;
+    }
+}
+
+export default CommandGroup;
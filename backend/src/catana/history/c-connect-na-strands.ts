@@ -1,71 +1,55 @@
+import { Matrix4 } from "three";
 import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
-import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
 import { NucleicAcidStrandEnd } from "../data_model/types_declarations/polymer-types";
-import Command from "./command";
+import { appendCgStructuresShallow } from "../utils/catana-utils";
+import CgStructureEditCommand from "./c-cg-structure-edit";
 
 /**
  * This command connects two DNA strands into one in
  * the desired direction.
+ * If the strands belong to different structures, the structure of the target strand
+ * is appended to the structure of the start strand first (and its component is removed).
  */
-export class ConnectNaStrandsCommand extends Command {
-
-    private _startStrand: CgNucleicAcidStrand;
-    private _connectionEnd: NucleicAcidStrandEnd;
-    private _targetStrand: CgNucleicAcidStrand | null;
-
-    private _fivePrimeProxyIdx: number;
-    private _connFivePrimeNtGlobalId: number;
-
+export class ConnectNaStrandsCommand extends CgStructureEditCommand {
+
+    private readonly _startStrand: CgNucleicAcidStrand;
+    private readonly _connectionEnd: NucleicAcidStrandEnd;
+    private readonly _targetStrand: CgNucleicAcidStrand;
+    private readonly _targetTransformation: Matrix4 | undefined;
+
+    /**
+     * @param startStrand strand where the connection starts
+     * @param connEnd end of the start strand to connect
+     * @param targetStrand strand to connect to
+     * @param targetTransformation transformation applied to the target strand's structure when it is
+     * appended to the start strand's one (relevant only if the strands belong to different structures)
+     */
     constructor(startStrand: CgNucleicAcidStrand, connEnd: NucleicAcidStrandEnd,
-        targetStrand: CgNucleicAcidStrand) {
-        super();
+        targetStrand: CgNucleicAcidStrand, targetTransformation?: Matrix4) {
+        super([startStrand.parentStructure, targetStrand.parentStructure]);
 
         this._startStrand = startStrand;
         this._connectionEnd = connEnd;
         this._targetStrand = targetStrand;
+        this._targetTransformation = targetTransformation;
     }
 
-    public do() {
-        if (this._targetStrand === null || this._startStrand.length === 0
-            || this._targetStrand.length === 0) {
-            this.error_cannotRedo();
+    protected edit() {
+        const startStructure = this._startStrand.parentStructure;
+        const targetStructure = this._targetStrand.parentStructure;
+
+        if (!startStructure || !targetStructure || this._startStrand.length === 0 || this._targetStrand.length === 0) {
             return;
         }
 
-        let connFivePrimeProxy: CgNucleotideProxy;
-        if (this._connectionEnd === NucleicAcidStrandEnd.FIVE_PRIME) {
-            connFivePrimeProxy = this._targetStrand.threePrime!;
-        } else {
-            connFivePrimeProxy = this._startStrand.threePrime!;
+        if (startStructure !== targetStructure) {
+            appendCgStructuresShallow(startStructure, targetStructure, this._targetTransformation);
+            targetStructure.parentComponent?.stage.removeComponent(targetStructure.parentComponent);
         }
 
-        this._fivePrimeProxyIdx = connFivePrimeProxy.index;
-        this._connFivePrimeNtGlobalId = connFivePrimeProxy.globalId;
-
         this._startStrand.connectTo(this._targetStrand, this._connectionEnd);
         if (this._targetStrand !== this._startStrand) {
             this._targetStrand.parentStructure!.removeNaStrand(this._targetStrand);
-            this._targetStrand = null;
-        }
-    }
-
-    public undo() {
-        if (this._startStrand.parentStructure === undefined ||
-            this._startStrand.parentStructure!.naStrands.indexOf(this._startStrand) < 0 ||
-            this._fivePrimeProxyIdx >= this._startStrand.length ||
-            this._startStrand.getNucleotideProxy(this._fivePrimeProxyIdx)!
-                .globalId !== this._connFivePrimeNtGlobalId) {
-            this.error_cannotUndo();
-            return;
-        }
-
-        const newStr = this._startStrand.breakAfterNucleotide(this._startStrand.getNucleotideProxy(this._fivePrimeProxyIdx)!);
-        if (newStr !== undefined) {
-            this._startStrand.parentStructure!.addNaStrand(newStr);
-
-            if (newStr?.parentStructure!.parentComponent) {
-                newStr.parentStructure!.parentComponent.updateRepresentations({});
-            }
         }
     }
 
@@ -74,4 +58,4 @@ export class ConnectNaStrandsCommand extends Command {
     }
 }
 
-export default ConnectNaStrandsCommand;
\ No newline at end of file
+export default ConnectNaStrandsCommand;
@@ -0,0 +1,37 @@
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import DnaFactory from "../nanomodeling/dna-factory";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command creates a strand complementary to the given one
+ * and adds it to the strand's structure.
+ */
+export class CreateComplementaryStrandCommand extends CgStructureEditCommand {
+
+    private readonly _strand: CgNucleicAcidStrand;
+    private readonly _dnaFactory: DnaFactory;
+
+    /**
+     * @param strand strand to create the complementary strand for
+     * @param dnaFactory factory used to build the complementary strand
+     */
+    constructor(strand: CgNucleicAcidStrand, dnaFactory: DnaFactory) {
+        super([strand.parentStructure]);
+
+        this._strand = strand;
+        this._dnaFactory = dnaFactory;
+    }
+
+    protected edit() {
+        const newHelix = this._dnaFactory.buildComplementaryHelix(this._strand);
+        if (newHelix.length > 0) {
+            this._strand.parentStructure?.addNaStrand(newHelix);
+        }
+    }
+
+    get name(): string {
+        return "Created complementary strand to " + this._strand.name;
+    }
+}
+
+export default CreateComplementaryStrandCommand;
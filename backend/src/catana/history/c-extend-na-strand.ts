@@ -0,0 +1,56 @@
+import { Vector3 } from "three";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import { NucleicAcidStrandEnd } from "../data_model/types_declarations/polymer-types";
+import DnaFactory from "../nanomodeling/dna-factory";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command extends a nucleic acid strand (and, optionally,
+ * its complementary strand) at the given end.
+ */
+export class ExtendNaStrandCommand extends CgStructureEditCommand {
+
+    private readonly _strand: CgNucleicAcidStrand;
+    private readonly _strandEnd: NucleicAcidStrandEnd;
+    private readonly _numOfNucleotides: number;
+    private readonly _direction: Vector3 | undefined;
+    private readonly _extendDoubleStrand: boolean;
+    private readonly _dnaFactory: DnaFactory;
+
+    /**
+     * @param strand strand to extend
+     * @param strandEnd end of the strand to extend
+     * @param numOfNucleotides length of the extension
+     * @param direction direction of the extension (in the structure's coordinates)
+     * @param extendDoubleStrand if true, the complementary strand is extended as well
+     * @param dnaFactory factory used to generate the new nucleotides
+     */
+    constructor(strand: CgNucleicAcidStrand, strandEnd: NucleicAcidStrandEnd, numOfNucleotides: number,
+        direction: Vector3 | undefined, extendDoubleStrand: boolean, dnaFactory: DnaFactory) {
+        super([strand.parentStructure]);
+
+        this._strand = strand;
+        this._strandEnd = strandEnd;
+        this._numOfNucleotides = numOfNucleotides;
+        this._direction = direction?.clone();
+        this._extendDoubleStrand = extendDoubleStrand;
+        this._dnaFactory = dnaFactory;
+    }
+
+    protected edit() {
+        if (this._extendDoubleStrand) {
+            this._dnaFactory.extendDoubleHelix(this._strand, this._strandEnd,
+                this._numOfNucleotides, this._direction);
+        } else {
+            this._dnaFactory.extendHelix(this._strand, this._strandEnd,
+                this._numOfNucleotides, this._direction);
+        }
+    }
+
+    get name(): string {
+        return "Extended strand " + this._strand.name + " by " + this._numOfNucleotides +
+            (this._extendDoubleStrand ? " base pair" : " nucleotide") + (this._numOfNucleotides === 1 ? "" : "s");
+    }
+}
+
+export default ExtendNaStrandCommand;
@@ -0,0 +1,27 @@
+import StructureComponent from "../../component/structure-component";
+import AtomicStructureEditCommand from "./c-atomic-structure-edit";
+
+/**
+ * This command keeps track of an addition of amino acids
+ * to a chain of an all-atom structure.
+ */
+export class ProteinAddAminoAcidsCommand extends AtomicStructureEditCommand {
+
+    private readonly _aminoAcids: string[];
+
+    /**
+     * @param component component whose structure is going to be modified
+     * @param aminoAcids three-letter codes of the added amino acids
+     */
+    constructor(component: StructureComponent, aminoAcids: string[]) {
+        super(component);
+
+        this._aminoAcids = aminoAcids;
+    }
+
+    get name(): string {
+        return "Added amino acids (" + this._aminoAcids.join(", ") + ") to " + this.component.name;
+    }
+}
+
+export default ProteinAddAminoAcidsCommand;
@@ -0,0 +1,27 @@
+import StructureComponent from "../../component/structure-component";
+import AtomicStructureEditCommand from "./c-atomic-structure-edit";
+
+/**
+ * This command keeps track of a mutation of an amino acid
+ * of an all-atom structure.
+ */
+export class ProteinMutateAminoAcidCommand extends AtomicStructureEditCommand {
+
+    private readonly _aminoAcid: string;
+
+    /**
+     * @param component component whose structure is going to be modified
+     * @param aminoAcid three-letter code of the new amino acid
+     */
+    constructor(component: StructureComponent, aminoAcid: string) {
+        super(component);
+
+        this._aminoAcid = aminoAcid;
+    }
+
+    get name(): string {
+        return "Mutated amino acid of " + this.component.name + " to " + this._aminoAcid.toUpperCase();
+    }
+}
+
+export default ProteinMutateAminoAcidCommand;
@@ -0,0 +1,28 @@
+import StructureComponent from "../../component/structure-component";
+import { StructureElementType } from "../data_model/types_declarations/element-type";
+import AtomicStructureEditCommand from "./c-atomic-structure-edit";
+
+/**
+ * This command keeps track of a removal of an atom, residue or chain
+ * from an all-atom structure.
+ */
+export class ProteinRemoveCommand extends AtomicStructureEditCommand {
+
+    private readonly _removalType: StructureElementType;
+
+    /**
+     * @param component component whose structure is going to be modified
+     * @param removalType type of the removed element
+     */
+    constructor(component: StructureComponent, removalType: StructureElementType) {
+        super(component);
+
+        this._removalType = removalType;
+    }
+
+    get name(): string {
+        return "Removed " + StructureElementType[this._removalType].toLowerCase() + " from " + this.component.name;
+    }
+}
+
+export default ProteinRemoveCommand;
@@ -0,0 +1,30 @@
+import CgRelaxation from "../dynamics/relaxation/cg-relaxation";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command writes the positions computed by a (finished) coarse-grained relaxation
+ * into the relaxed structure.
+ */
+export class RelaxCgStructureCommand extends CgStructureEditCommand {
+
+    private readonly _relaxation: CgRelaxation;
+
+    /**
+     * @param relaxation relaxation whose current positions should be applied
+     */
+    constructor(relaxation: CgRelaxation) {
+        super([relaxation.structure]);
+
+        this._relaxation = relaxation;
+    }
+
+    protected edit() {
+        this._relaxation.applyPositions();
+    }
+
+    get name(): string {
+        return "Relaxed " + this._relaxation.structure.name;
+    }
+}
+
+export default RelaxCgStructureCommand;
@@ -0,0 +1,78 @@
+import CgAminoAcidProxy from "../data_model/proxy/cg-amino-acid-proxy";
+import CgNucleotideBondProxy from "../data_model/proxy/cg-nucleotide-bond-proxy";
+import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
+import { CgStructureElementType, StructureElementType } from "../data_model/types_declarations/element-type";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command removes a coarse-grained element, i.e., a residue
+ * (breaking its polymer into two) or the whole polymer.
+ * If a nucleotide bond is provided, the strand is broken at the bond
+ * or removed completely.
+ */
+export class RemoveCgElementCommand extends CgStructureEditCommand {
+
+    private readonly _element: CgNucleotideProxy | CgNucleotideBondProxy | CgAminoAcidProxy;
+    private readonly _removalType: CgStructureElementType;
+
+    /**
+     * @param element element identifying what should be removed
+     * @param removalType type of the removed element
+     */
+    constructor(element: CgNucleotideProxy | CgNucleotideBondProxy | CgAminoAcidProxy, removalType: CgStructureElementType) {
+        super([element instanceof CgNucleotideBondProxy ? element.parentStrand.parentStructure : element.parentStructure]);
+
+        this._element = element;
+        this._removalType = removalType;
+    }
+
+    protected edit() {
+        const element = this._element;
+
+        if (element instanceof CgNucleotideProxy) {
+            const parentStrand = element.parentStrand;
+            if (this._removalType === StructureElementType.RESIDUE) {
+                const strToAdd = parentStrand.breakAtNucleotide(element);
+                if (strToAdd !== undefined) {
+                    parentStrand.parentStructure!.addNaStrand(strToAdd);
+                }
+            } else {
+                parentStrand.parentStructure?.removeNaStrand(parentStrand);
+            }
+        } else if (element instanceof CgNucleotideBondProxy) {
+            const nts = element.nucleotides;
+            const parentStrand = nts[0]?.parentStrand;
+
+            if (this._removalType === StructureElementType.RESIDUE) {
+                if (parentStrand !== undefined) {
+                    const strToAdd = parentStrand.breakAfterNucleotide(nts[0]!);
+                    if (strToAdd !== undefined) {
+                        parentStrand.parentStructure!.addNaStrand(strToAdd);
+                    }
+                }
+            } else {
+                parentStrand?.parentStructure?.removeNaStrand(parentStrand);
+            }
+        } else {
+            const parentChain = element.parentChain;
+            if (this._removalType === StructureElementType.RESIDUE) {
+                const chainToAdd = parentChain.breakAtAminoAcid(element);
+                if (chainToAdd !== undefined) {
+                    parentChain.parentStructure!.addAaChain(chainToAdd);
+                }
+            } else {
+                parentChain.parentStructure?.removeAaChain(parentChain);
+            }
+        }
+    }
+
+    get name(): string {
+        const what = this._removalType === StructureElementType.RESIDUE ?
+            (this._element instanceof CgNucleotideBondProxy ? "bond" : "residue") :
+            (this._element instanceof CgAminoAcidProxy ? "chain" : "strand");
+
+        return "Removed coarse-grained " + what;
+    }
+}
+
+export default RemoveCgElementCommand;
@@ -0,0 +1,57 @@
+import CgStructure from "../data_model/cg-structure";
+import CgPolymer from "../data_model/cg-polymer";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import { MonomerType } from "../data_model/types_declarations/monomer-types";
+import { CatanaState } from "../actions/catana-state";
+import { DnaForm } from "../nanomodeling/dna-forms";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command sets the sequence of a polymer (and makes the paired nucleotides complementary to it).
+ * The geometry of a nucleic acid strand can be optionally recomputed according to the new sequence
+ * as a part of the same command.
+ */
+export class SetPolymerSequenceCommand extends CgStructureEditCommand {
+
+    private readonly _polymer: CgPolymer;
+    private readonly _sequence: MonomerType[];
+    private readonly _updateGeometry: boolean;
+    private readonly _dnaForm: DnaForm | undefined;
+
+    /**
+     * @param polymer polymer to modify
+     * @param sequence new sequence (repeated if shorter than the polymer)
+     * @param updateGeometry if true, the geometry of a nucleic acid strand is updated according to the new sequence
+     * @param dnaForm DNA form used to update the geometry (the current one of the DNA factory is used if not provided)
+     */
+    constructor(polymer: CgPolymer, sequence: MonomerType[], updateGeometry: boolean = false, dnaForm?: DnaForm) {
+        super([polymer.parentStructure, ...SetPolymerSequenceCommand.getPairedStructures(polymer)]);
+
+        this._polymer = polymer;
+        this._sequence = sequence;
+        this._updateGeometry = updateGeometry;
+        this._dnaForm = dnaForm;
+    }
+
+    protected edit() {
+        this._polymer.setSequence(this._sequence);
+
+        if (this._updateGeometry && this._polymer instanceof CgNucleicAcidStrand) {
+            CatanaState.dnaFactory.updateStrandGeometry(this._polymer, this._dnaForm);
+        }
+    }
+
+    get name(): string {
+        return "Changed sequence of " + this._polymer.name;
+    }
+
+    private static getPairedStructures(polymer: CgPolymer): (CgStructure | undefined)[] {
+        const structures = new Set<CgStructure | undefined>();
+        if (polymer instanceof CgNucleicAcidStrand) {
+            polymer.forEachNucleotide(nt => structures.add(nt.pairedNucleotide?.parentStructure));
+        }
+        return Array.from(structures);
+    }
+}
+
+export default SetPolymerSequenceCommand;
@@ -0,0 +1,69 @@
+import { Quaternion, Vector3 } from "three";
+import Component from "../../component/component";
+import Command from "./command";
+import { getCurrentComponent } from "./history-utils";
+
+/**
+ * This command keeps track of a component's placement change (translation and/or rotation).
+ * The component is expected to be already transformed when the command is done for the first time,
+ * its "do" therefore just (re)applies the new placement.
+ */
+export class TransformComponentCommand extends Command {
+
+    private _component: Component;
+
+    private readonly _oldPosition: Vector3;
+    private readonly _oldRotation: Quaternion;
+    private readonly _newPosition: Vector3;
+    private readonly _newRotation: Quaternion;
+
+    /**
+     * @param component transformed component
+     * @param oldPosition position of the component before the transformation
+     * @param oldRotation rotation of the component before the transformation
+     * @param newPosition position of the component after the transformation (the current one by default)
+     * @param newRotation rotation of the component after the transformation (the current one by default)
+     */
+    constructor(component: Component, oldPosition: Vector3, oldRotation: Quaternion,
+        newPosition: Vector3 = component.position, newRotation: Quaternion = component.quaternion) {
+        super();
+
+        this._component = component;
+        this._oldPosition = oldPosition.clone();
+        this._oldRotation = oldRotation.clone();
+        this._newPosition = newPosition.clone();
+        this._newRotation = newRotation.clone();
+    }
+
+    /**
+     * @returns true if the placement of the component actually changed
+     */
+    public get isTransformed(): boolean {
+        return !this._oldPosition.equals(this._newPosition) || !this._oldRotation.equals(this._newRotation);
+    }
+
+    public do() {
+        this.apply(this._newPosition, this._newRotation);
+    }
+
+    public undo() {
+        this.apply(this._oldPosition, this._oldRotation);
+    }
+
+    public get components(): Component[] {
+        return [getCurrentComponent(this._component)];
+    }
+
+    get name(): string {
+        return (this._oldRotation.equals(this._newRotation) ? "Moved " : "Rotated ") + this._component.name;
+    }
+
+    private apply(position: Vector3, rotation: Quaternion) {
+        this._component = getCurrentComponent(this._component);
+
+        this._component.setRotation(rotation);
+        this._component.setPosition(position);
+    }
+}
+
+export default TransformComponentCommand;
@@ -0,0 +1,35 @@
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import { CatanaState } from "../actions/catana-state";
+import { DnaForm } from "../nanomodeling/dna-forms";
+import CgStructureEditCommand from "./c-cg-structure-edit";
+
+/**
+ * This command recomputes the geometry of the strands (and their paired nucleotides)
+ * according to their current sequence.
+ */
+export class UpdateStrandGeometryCommand extends CgStructureEditCommand {
+
+    private readonly _strands: CgNucleicAcidStrand[];
+    private readonly _dnaForm: DnaForm | undefined;
+
+    /**
+     * @param strands strands to update
+     * @param dnaForm DNA form to use (the current one of the DNA factory is used if not provided)
+     */
+    constructor(strands: CgNucleicAcidStrand[], dnaForm?: DnaForm) {
+        super(strands.map(s => s.parentStructure));
+
+        this._strands = strands;
+        this._dnaForm = dnaForm;
+    }
+
+    protected edit() {
+        this._strands.forEach(s => CatanaState.dnaFactory.updateStrandGeometry(s, this._dnaForm));
+    }
+
+    get name(): string {
+        return "Updated geometry of " + (this._strands.length === 1 ? this._strands[0].name : this._strands.length + " strands");
+    }
+}
+
+export default UpdateStrandGeometryCommand;
@@ -1,55 +1,296 @@
 import Command from "./command";
+import CommandGroup from "./c-command-group";
 import {Signal} from "signals";
 
 type HistorySignals = {
-    commandDone: Signal
+    commandDone: Signal,
+    commandUndone: Signal,
+    commandRedone: Signal,
+    /**
+     * Dispatched every time the content of the history changes
+     */
+    changed: Signal
 }
 
 /**
  * Class for managing the undo-redo functionality.
- * 
- * @experimental
+ * The history is bounded, i.e., the oldest commands are discarded
+ * when the maximum number of commands or the memory limit is exceeded.
  */
 export class CatanaHistory {
 
+    /**
+     * Default maximum number of commands which can be undone
+     */
+    public static readonly DEFAULT_MAX_COMMANDS: number = 100;
+    /**
+     * Default maximum amount of memory (in bytes) occupied by the stored commands
+     */
+    public static readonly DEFAULT_MAX_MEMORY: number = 256 * 1024 * 1024;
+
     private _signals: HistorySignals;
-    private _last: Command | null = null;
 
-    constructor() {
+    private _undoStack: Command[] = [];
+    private _redoStack: Command[] = [];
+
+    private _openGroups: CommandGroup[] = [];
+    private _isExecuting: boolean = false;
+
+    private _maxCommands: number;
+    private _maxMemory: number;
+
+    /**
+     * @param maxCommands maximum number of commands which can be undone
+     * @param maxMemory maximum amount of memory (in bytes) occupied by the stored commands
+     */
+    constructor(maxCommands: number = CatanaHistory.DEFAULT_MAX_COMMANDS,
+        maxMemory: number = CatanaHistory.DEFAULT_MAX_MEMORY) {
         this._signals = {
-            commandDone: new Signal()
+            commandDone: new Signal(),
+            commandUndone: new Signal(),
+            commandRedone: new Signal(),
+            changed: new Signal()
         }
+
+        this._maxCommands = maxCommands;
+        this._maxMemory = maxMemory;
     }
 
     public get signals(): HistorySignals {
         return this._signals;
     }
 
+    /**
+     * @returns the most recently done command (i.e., the one to be undone next)
+     */
     public get last(): Command | null {
-        return this._last;
+        return this._undoStack.length > 0 ? this._undoStack[this._undoStack.length - 1] : null;
+    }
+
+    /**
+     * @returns true if there is a command to undo
+     */
+    public get canUndo(): boolean {
+        return this._undoStack.length > 0;
+    }
+
+    /**
+     * @returns true if there is a command to redo
+     */
+    public get canRedo(): boolean {
+        return this._redoStack.length > 0;
+    }
+
+    /**
+     * @returns true if the history is currently undoing/redoing a command
+     */
+    public get isExecuting(): boolean {
+        return this._isExecuting;
+    }
+
+    /**
+     * @returns approximate amount of memory (in bytes) occupied by the undoable and redoable commands
+     */
+    public get memorySize(): number {
+        return this._undoStack.reduce((sum, c) => sum + c.memorySize, 0) +
+            this._redoStack.reduce((sum, c) => sum + c.memorySize, 0);
+    }
+
+    public get maxCommands(): number {
+        return this._maxCommands;
+    }
+
+    public set maxCommands(val: number) {
+        this._maxCommands = Math.max(1, val);
+        this.trim();
+    }
+
+    public get maxMemory(): number {
+        return this._maxMemory;
+    }
+
+    public set maxMemory(val: number) {
+        this._maxMemory = Math.max(0, val);
+        this.trim();
     }
 
+    /**
+     * Executes the command and stores it in the history.
+     * Commands issued while the history undoes/redoes another command (e.g., as a reaction to signals)
+     * are executed but not stored as they are a consequence of the undone/redone command.
+     * If a group is open, the command becomes a part of it.
+     * Otherwise, the redo stack is cleared.
+     *
+     * @param c command to execute
+     */
     public do(c: Command) {
         c.do();
-        c.prev = this._last;
-        this._last = c;
+
+        if (this._isExecuting) {
+            return;
+        }
+
+        if (this._openGroups.length > 0) {
+            this._openGroups[this._openGroups.length - 1].add(c);
+        } else {
+            this.push(c);
+        }
+
         this._signals.commandDone.dispatch(c);
     }
 
+    /**
+     * Undoes the last command
+     */
     public undo() {
-        if (this._last) {
-            this._last.undo();
-            this._last = this._last.prev;
+        if (this._openGroups.length > 0) {
+            console.warn("Undo is not possible while a command group is open.");
+            return;
+        }
+
+        const c = this._undoStack.pop();
+        if (c) {
+            this.execute(() => c.undo());
+            this._redoStack.push(c);
+            this._signals.commandUndone.dispatch(c);
+            this._signals.changed.dispatch();
         }
     }
 
+    /**
+     * Redoes the last undone command
+     */
+    public redo() {
+        if (this._openGroups.length > 0) {
+            console.warn("Redo is not possible while a command group is open.");
+            return;
+        }
+
+        const c = this._redoStack.pop();
+        if (c) {
+            this.execute(() => c.redo());
+            this._undoStack.push(c);
+            this._signals.commandRedone.dispatch(c);
+            this._signals.changed.dispatch();
+        }
+    }
+
+    /**
+     * Undoes or redoes commands until the given one becomes the most recently done command
+     *
+     * @param c undoable or redoable command; null to undo all commands
+     */
+    public goTo(c: Command | null) {
+        if (this._openGroups.length > 0) {
+            console.warn("Undo/redo is not possible while a command group is open.");
+            return;
+        }
+        if (c !== null && this._undoStack.indexOf(c) === -1 && this._redoStack.indexOf(c) === -1) {
+            console.warn("The command '" + c.name + "' is not a part of the history.");
+            return;
+        }
+        if (c === null || this._undoStack.indexOf(c) !== -1) {
+            while (this.last !== c) this.undo();
+        } else {
+            while (this.last !== c) this.redo();
+        }
+    }
+
+    /**
+     * Starts a group of commands, i.e., all commands done until the corresponding
+     * call of {@link CatanaHistory.endGroup} will be undone/redone together.
+     * Groups may be nested, the nested ones become part of the outer group.
+     *
+     * @param name name of the group
+     */
+    public beginGroup(name: string) {
+        this._openGroups.push(new CommandGroup(name));
+    }
+
+    /**
+     * Ends the most recently started group of commands and stores it in the history.
+     * Empty groups are discarded.
+     */
+    public endGroup() {
+        const group = this._openGroups.pop();
+        if (group === undefined) {
+            console.warn("There is no command group to end.");
+            return;
+        }
+
+        if (group.commands.length === 0) {
+            return;
+        }
+
+        if (this._openGroups.length > 0) {
+            this._openGroups[this._openGroups.length - 1].add(group);
+        } else {
+            this.push(group);
+        }
+    }
+
+    /**
+     * Removes all commands from the history
+     */
+    public clear() {
+        this._undoStack.forEach(c => c.dispose());
+        this._redoStack.forEach(c => c.dispose());
+        this._undoStack = [];
+        this._redoStack = [];
+        this._signals.changed.dispatch();
+    }
+
+    /**
+     * Executes a callback on each undoable command, starting with the most recent one
+     */
     public forEachCommand(callback: (command: Command) => void) {
-        let c: Command | null = this._last;
-        while (c) {
-            callback(c);
-            c = c.prev;
+        for (let i = this._undoStack.length - 1; i >= 0; --i) {
+            callback(this._undoStack[i]);
+        }
+    }
+
+    /**
+     * Executes a callback on each redoable command, starting with the one to be redone next
+     */
+    public forEachUndoneCommand(callback: (command: Command) => void) {
+        for (let i = this._redoStack.length - 1; i >= 0; --i) {
+            callback(this._redoStack[i]);
+        }
+    }
+
+    private push(c: Command) {
+        this._redoStack.forEach(x => x.dispose());
+        this._redoStack = [];
+
+        this._undoStack.push(c);
+        this.trim();
+
+        this._signals.changed.dispatch();
+    }
+
+    private execute(fun: () => void) {
+        this._isExecuting = true;
+        try {
+            fun();
+        } finally {
+            this._isExecuting = false;
+        }
+    }
+
+    /**
+     * Discards the oldest commands until the limits are satisfied.
+     * The most recent command is always kept.
+     */
+    private trim() {
+        let memory = this.memorySize;
+
+        while (this._undoStack.length > 1 &&
+            (this._undoStack.length > this._maxCommands || memory > this._maxMemory)) {
+            const c = this._undoStack.shift()!;
+            memory -= c.memorySize;
+            c.dispose();
         }
     }
 }
 
-export default CatanaHistory;
\ No newline at end of file
+export default CatanaHistory;
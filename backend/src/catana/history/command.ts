@@ -1,3 +1,8 @@
+import Component from "../../component/component";
+
+/**
+ * Base class of all commands, i.e., undoable actions managed by the {@link CatanaHistory}
+ */
 export abstract class Command {
     // Abstract methods
     public abstract do(): void;
@@ -8,10 +13,34 @@ export abstract class Command {
 
     // Implementations --------------------------------------------------
 
-    public prev: Command | null;
+    /**
+     * Re-executes the command after it has been undone.
+     * By default, the command is simply done again.
+     */
+    public redo(): void {
+        this.do();
+    }
+
+    /**
+     * @returns approximate amount of memory (in bytes) occupied by the data
+     * this command stores to be able to undo/redo itself
+     */
+    public get memorySize(): number {
+        return 0;
+    }
+
+    /**
+     * @returns components affected by this command (e.g., to highlight them in the user interface)
+     */
+    public get components(): Component[] {
+        return [];
+    }
 
-    constructor(c?: Command) {
-        this.prev = c ? c : null;
+    /**
+     * Releases the data stored by this command.
+     * Called by the history when the command is discarded and thus cannot be undone/redone anymore.
+     */
+    public dispose(): void {
     }
 
     protected error_cannotRedo(): void {
@@ -23,4 +52,4 @@ export abstract class Command {
     }
 }
 
-export default Command;
\ No newline at end of file
+export default Command;
@@ -0,0 +1,17 @@
+import Component from "../../component/component";
+import CgStructureComponent from "../component/cg-structure-component";
+
+/**
+ * Components of coarse-grained structures may be re-created by the commands
+ * (e.g., when undoing a removal of the last polymer of a structure).
+ * This function therefore returns the current component of the given component's structure.
+ *
+ * @param component component referenced by a command
+ * @returns the component currently representing the same data
+ */
+export function getCurrentComponent(component: Component): Component {
+    if (component instanceof CgStructureComponent && component.cgStructure.parentComponent) {
+        return component.cgStructure.parentComponent;
+    }
+    return component;
+}
@@ -0,0 +1,233 @@
+import Store from "../../store/store";
+import Structure from "../../structure/structure";
+import { appendStructures, duplicateStructure } from "../../structure/structure-utils";
+import CgAminoAcidChain from "../data_model/cg-amino-acid-chain";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import CgPolymer from "../data_model/cg-polymer";
+import CgStructure from "../data_model/cg-structure";
+
+/**
+ * @returns approximate amount of memory (in bytes) occupied by the store's fields
+ */
+function getStoreMemorySize(store: Store): number {
+    return store._fields.reduce((sum, field) => sum + (store[field[0]]?.byteLength ?? 0), 0);
+}
+
+/**
+ * Creates a detached copy of the polymer keeping its global ID as well as the global IDs of its monomers
+ */
+function copyPolymer(polymer: CgPolymer): CgPolymer {
+    let copy: CgPolymer;
+
+    if (polymer instanceof CgNucleicAcidStrand) {
+        const strand = new CgNucleicAcidStrand(polymer.globalId, polymer.name, polymer.naType, undefined, polymer.length);
+        strand.isCircular = polymer.isCircular;
+        strand.isScaffold = polymer.isScaffold;
+        copy = strand;
+    } else {
+        copy = new CgAminoAcidChain(polymer.globalId, polymer.name, undefined, polymer.length);
+    }
+
+    copy.copyFrom(polymer, 0, polymer.length);
+    copy.customColor = polymer.customColor?.clone();
+
+    return copy;
+}
+
+/**
+ * @returns true if both polymers store the same data
+ */
+function polymersEqual(a: CgPolymer, b: CgPolymer): boolean {
+    if (a.constructor !== b.constructor || a.name !== b.name || a.length !== b.length ||
+        a.customColor?.getHex() !== b.customColor?.getHex()) {
+        return false;
+    }
+
+    if (a instanceof CgNucleicAcidStrand && b instanceof CgNucleicAcidStrand &&
+        (a.isCircular !== b.isCircular || a.isScaffold !== b.isScaffold || a.naType !== b.naType)) {
+        return false;
+    }
+
+    const storeA = a.monomerStore;
+    const storeB = b.monomerStore;
+
+    return storeA._fields.every(field => {
+        const arrA = storeA[field[0]];
+        const arrB = storeB[field[0]];
+        const count = a.length * field[1];
+
+        for (let i = 0; i < count; ++i) {
+            if (arrA[i] !== arrB[i]) {
+                return false;
+            }
+        }
+        return true;
+    });
+}
+
+/**
+ * Snapshot of the polymers of a coarse-grained structure.
+ * The snapshot stores the order of the polymers (identified by their global IDs) and copies of their data.
+ * Copies of polymers which are the same in two related snapshots (e.g., before and after a modification)
+ * can be dropped using {@link CgStructureSnapshot.dropUnchanged}. When restoring such snapshot,
+ * the polymers currently present in the structure are used instead.
+ */
+export class CgStructureSnapshot {
+    private readonly _naStrandIds: number[];
+    private readonly _aaChainIds: number[];
+    private readonly _storedPolymers: Map<number, CgPolymer>;
+
+    /**
+     * @param structure structure whose current state should be stored
+     */
+    constructor(structure: CgStructure) {
+        this._naStrandIds = structure.naStrands.map(s => s.globalId);
+        this._aaChainIds = structure.aaChains.map(c => c.globalId);
+        this._storedPolymers = new Map<number, CgPolymer>();
+
+        structure.forEachPolymer(p => this._storedPolymers.set(p.globalId, copyPolymer(p)));
+    }
+
+    /**
+     * @returns number of polymers the structure had when the snapshot was taken
+     */
+    public get polymerCount(): number {
+        return this._naStrandIds.length + this._aaChainIds.length;
+    }
+
+    /**
+     * @returns approximate amount of memory (in bytes) occupied by this snapshot
+     */
+    public get memorySize(): number {
+        let result = 0;
+        this._storedPolymers.forEach(p => result += getStoreMemorySize(p.monomerStore));
+        return result;
+    }
+
+    /**
+     * Removes copies of polymers which are stored in both snapshots with the same data.
+     * Both snapshots must be taken from the same structure.
+     */
+    public static dropUnchanged(first: CgStructureSnapshot, second: CgStructureSnapshot): void {
+        first._storedPolymers.forEach((polymer, id) => {
+            const other = second._storedPolymers.get(id);
+
+            if (other !== undefined && polymersEqual(polymer, other)) {
+                polymer.dispose();
+                other.dispose();
+                first._storedPolymers.delete(id);
+                second._storedPolymers.delete(id);
+            }
+        });
+    }
+
+    /**
+     * Restores the stored state of the given structure.
+     * Polymers without a stored copy are taken from the current state of the structure.
+     *
+     * @param structure structure to restore (the one the snapshot was taken from)
+     */
+    public restore(structure: CgStructure): void {
+        const currentPolymers = new Map<number, CgPolymer>();
+        structure.forEachPolymer(p => currentPolymers.set(p.globalId, p));
+
+        const takePolymer = (id: number): CgPolymer | undefined => {
+            const stored = this._storedPolymers.get(id);
+            if (stored !== undefined) {
+                return copyPolymer(stored);
+            }
+
+            const current = currentPolymers.get(id);
+            if (current === undefined) {
+                console.error("Polymer " + id + " cannot be restored as it is not present in structure " + structure.name);
+                return undefined;
+            }
+
+            currentPolymers.delete(id);
+            return current;
+        };
+
+        const naStrands = this._naStrandIds.map(takePolymer).filter(p => p !== undefined) as CgNucleicAcidStrand[];
+        const aaChains = this._aaChainIds.map(takePolymer).filter(p => p !== undefined) as CgAminoAcidChain[];
+
+        // Polymers which are not part of the restored state are disposed
+        currentPolymers.forEach(p => p.dispose());
+
+        structure.removeAllPolymers(false);
+        structure.addNaStrands(...naStrands);
+        structure.addAaChains(aaChains);
+    }
+
+    /**
+     * Releases the stored data
+     */
+    public dispose(): void {
+        this._storedPolymers.forEach(p => p.dispose());
+        this._storedPolymers.clear();
+    }
+}
+
+/**
+ * Snapshot of an all-atom structure
+ */
+export class AtomicStructureSnapshot {
+    private _structure: Structure | null;
+
+    /**
+     * @param structure structure whose current state should be stored
+     */
+    constructor(structure: Structure) {
+        this._structure = duplicateStructure(structure);
+    }
+
+    /**
+     * @returns approximate amount of memory (in bytes) occupied by this snapshot
+     */
+    public get memorySize(): number {
+        const s = this._structure;
+        if (!s) {
+            return 0;
+        }
+
+        return [s.atomStore, s.bondStore, s.residueStore, s.chainStore, s.modelStore]
+            .reduce((sum, store) => sum + getStoreMemorySize(store), 0);
+    }
+
+    /**
+     * Restores the stored state of the given structure.
+     * The structure object is kept (only its data are replaced), so the references to it remain valid.
+     *
+     * @param structure structure to restore (the one the snapshot was taken from)
+     */
+    public restore(structure: Structure): void {
+        if (!this._structure) {
+            return;
+        }
+
+        const header = structure.header;
+        const extraData = structure.extraData;
+        const unitcell = structure.unitcell;
+        const frames = structure.frames;
+        const boxes = structure.boxes;
+        const biomolDict = Object.assign({}, this._structure.biomolDict);
+
+        structure.init(structure.name, structure.path);
+
+        structure.header = header;
+        structure.extraData = extraData;
+        structure.unitcell = unitcell;
+        structure.frames = frames;
+        structure.boxes = boxes;
+        structure.biomolDict = biomolDict;
+
+        appendStructures(structure, this._structure);
+    }
+
+    /**
+     * Releases the stored data
+     */
+    public dispose(): void {
+        this._structure?.dispose();
+        this._structure = null;
+    }
+}
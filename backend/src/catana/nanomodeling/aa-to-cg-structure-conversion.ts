@@ -1,4 +1,4 @@
-import { Structure } from "../../catana";
+import Structure from "../../structure/structure";
 import { DnaType } from "../../structure/structure-constants";
 import { duplicateStructure } from "../../structure/structure-utils";
 import CgAminoAcidChain from "../data_model/cg-amino-acid-chain";
@@ -1,4 +1,5 @@
-import { Filter, Structure } from "../../catana";
+import Filter from "../../filtering/filter";
+import Structure from "../../structure/structure";
 import CgStructure from "../data_model/cg-structure";
 import { Matrix4, Quaternion, Vector3 } from "three";
 import { AminoAcidStructuresMap, AminoAcidStructuresProvider } from "./structure-providers/amino-acid-structures-provider";
@@ -0,0 +1,554 @@
+import { Matrix4, Vector3 } from "three";
+import { Log } from "../../globals";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import GlobalIdGenerator from "../utils/global-id-generator";
+import Lattice from "./lattices/lattice";
+import LatticeLocator from "./lattices/lattice-locator";
+import { buildComplementaryDomain, copyDomainNucleotides } from "./nanostructure-utils";
+
+/**
+ * Parameters of the automatic staple generation
+ */
+export interface AutoStapleParameters {
+    /**
+     * Minimal length of the staples. Shorter staple fragments are merged with the neighbouring ones if possible.
+     */
+    minLength: number,
+    /**
+     * Maximal length of the staples
+     */
+    maxLength: number,
+    /**
+     * Length preferred when breaking the staples (the middle of the allowed range by default)
+     */
+    preferredLength: number,
+    /**
+     * If false, no crossovers are placed and the staples stay on their helices
+     */
+    crossovers: boolean
+}
+
+/**
+ * Outcome of the automatic staple generation
+ */
+export interface AutoStapleResult {
+    /**
+     * New staple strands (already added to the structure of the scaffold)
+     */
+    staples: CgNucleicAcidStrand[],
+    /**
+     * Number of staple crossovers between neighbouring helices
+     */
+    crossoverCount: number,
+    /**
+     * Number of staples shorter than the minimal length (which could not be merged with other ones)
+     */
+    shortStapleCount: number,
+    /**
+     * Number of unpaired scaffold nucleotides which are not aligned with the lattice and thus got no staple
+     */
+    unalignedScaffoldNucleotides: number
+}
+
+/**
+ * Position of a staple nucleotide in the lattice and its connectivity
+ */
+interface StapleSlot {
+    helix: number,
+    depth: number,
+    domain: StapleDomain,
+    indexInDomain: number,
+    prev: StapleSlot | null,
+    next: StapleSlot | null,
+    isCrossover: boolean
+}
+
+/**
+ * Continuous part of a staple complementary to the scaffold on one helix.
+ * Slots are ordered in the 5' to 3' direction of the staple.
+ */
+interface StapleDomain {
+    helix: number,
+    isFiveToThree: boolean,
+    strand: CgNucleicAcidStrand,
+    slots: StapleSlot[]
+}
+
+/**
+ * Connected staple slots (ordered in the 5' to 3' direction)
+ */
+interface StaplePath {
+    slots: StapleSlot[],
+    isCircular: boolean
+}
+
+interface LatticeHelix {
+    row: number,
+    col: number,
+    center: Vector3,
+    neighbours: number[]
+}
+
+/**
+ * Generates staples for the unpaired nucleotides of a scaffold routed across the cells of the given lattice.
+ *
+ * The staples are complementary to the scaffold and antiparallel to it. Staple double crossovers
+ * between neighbouring helices are placed at the positions where the backbones of both staples
+ * point towards each other, assuming the number of base-pairs per turn of the lattice
+ * (10.5 for the honeycomb lattice and 10.67 for the square one). For example, crossovers between
+ * two honeycomb helices are thus separated by 21 base-pairs.
+ * The resulting staple paths are then broken into staples of the requested length,
+ * avoiding breaks next to the crossovers. Staple fragments shorter than the minimal length
+ * are merged with the staples continuing on the neighbouring positions.
+ *
+ * @param scaffold scaffold strand (must be a part of a coarse-grained structure)
+ * @param lattice lattice to which the scaffold is aligned
+ * @param params generation parameters
+ * @returns the new staples and statistics of the generation
+ */
+export function autoStaple(scaffold: CgNucleicAcidStrand, lattice: Lattice,
+    params: Partial<AutoStapleParameters> = {}): AutoStapleResult {
+    const minLength = Math.max(1, params.minLength ?? 18);
+    const maxLength = Math.max(minLength, params.maxLength ?? 60);
+    const preferredLength = Math.min(maxLength, Math.max(minLength, params.preferredLength ?? Math.round((minLength + maxLength) / 2)));
+
+    const result: AutoStapleResult = {
+        staples: [],
+        crossoverCount: 0,
+        shortStapleCount: 0,
+        unalignedScaffoldNucleotides: 0
+    };
+
+    const structure = scaffold.parentStructure;
+    if (!structure) {
+        Log.warn("Staples can be generated only for scaffolds being a part of a structure.");
+        return result;
+    }
+
+    const matrix = structure.parentComponent?.matrix ?? new Matrix4();
+    const helices: LatticeHelix[] = [];
+    const domains = createDomains(scaffold, lattice, matrix, helices, result);
+
+    findNeighbours(helices, lattice.cellDiameter);
+
+    if (params.crossovers ?? true) {
+        result.crossoverCount = placeCrossovers(domains, helices, lattice, matrix);
+    }
+
+    let paths = tracePaths(domains);
+    if (mergeShortPaths(paths, helices, minLength)) {
+        paths = tracePaths(domains);
+    }
+
+    paths.forEach(path => {
+        splitPath(path.slots, path.isCircular, minLength, maxLength, preferredLength).forEach(slots => {
+            const staple = new CgNucleicAcidStrand(GlobalIdGenerator.generateId(), structure.generateChainName(),
+                scaffold.naType, structure, slots.length);
+
+            // Copy continuous runs of nucleotides from the domain strands
+            let runStart = 0;
+            for (let i = 1; i <= slots.length; ++i) {
+                if (i === slots.length || slots[i].domain !== slots[runStart].domain ||
+                    slots[i].indexInDomain !== slots[i - 1].indexInDomain + 1) {
+                    copyDomainNucleotides(staple, slots[runStart].domain.strand, slots[runStart].indexInDomain, i - runStart);
+                    runStart = i;
+                }
+            }
+
+            structure.addNaStrand(staple);
+            result.staples.push(staple);
+
+            if (slots.length < minLength) {
+                ++result.shortStapleCount;
+            }
+        });
+    });
+
+    scaffold.isScaffold = true;
+
+    return result;
+}
+
+/**
+ * Maps the unpaired scaffold nucleotides to the lattice and builds complementary nucleotides
+ * for each continuous part of the scaffold on a helix
+ */
+function createDomains(scaffold: CgNucleicAcidStrand, lattice: Lattice, matrix: Matrix4, helices: LatticeHelix[],
+    result: AutoStapleResult): StapleDomain[] {
+    const locator = new LatticeLocator(lattice);
+    const rotation = new Matrix4().extractRotation(matrix);
+    const helixIndices = new Map<string, number>();
+    const helixNucleotides = new Map<string, { helix: number, isFiveToThree: boolean, depths: Map<number, number> }>();
+
+    scaffold.forEachNucleotide((nt, i) => {
+        if (nt.pairedNucleotide) {
+            return;
+        }
+
+        const loc = locator.locate(nt.nucleobaseCenter.applyMatrix4(matrix), nt.baseNormal.applyMatrix4(rotation));
+        if (!loc) {
+            ++result.unalignedScaffoldNucleotides;
+            return;
+        }
+
+        const cellKey = loc.row + ":" + loc.col;
+        if (!helixIndices.has(cellKey)) {
+            helixIndices.set(cellKey, helices.length);
+            helices.push({ row: loc.row, col: loc.col, center: lattice.getPosition(loc.row, loc.col), neighbours: [] });
+        }
+
+        // Staples run antiparallel to the scaffold
+        const key = cellKey + ":" + loc.isFiveToThree;
+        if (!helixNucleotides.has(key)) {
+            helixNucleotides.set(key, { helix: helixIndices.get(cellKey)!, isFiveToThree: !loc.isFiveToThree, depths: new Map() });
+        }
+        helixNucleotides.get(key)!.depths.set(loc.depth, i);
+    });
+
+    const domains: StapleDomain[] = [];
+
+    helixNucleotides.forEach(h => {
+        const depths = Array.from(h.depths.keys()).sort((a, b) => a - b);
+
+        let runStart = 0;
+        for (let i = 1; i <= depths.length; ++i) {
+            if (i === depths.length || depths[i] !== depths[i - 1] + 1) {
+                const runDepths = depths.slice(runStart, i);
+                if (!h.isFiveToThree) {
+                    runDepths.reverse();
+                }
+                domains.push(createDomain(scaffold, h.helix, h.isFiveToThree, runDepths, h.depths));
+                runStart = i;
+            }
+        }
+    });
+
+    return domains;
+}
+
+function createDomain(scaffold: CgNucleicAcidStrand, helix: number, isFiveToThree: boolean, depths: number[],
+    scaffoldIndices: Map<number, number>): StapleDomain {
+    const strand = buildComplementaryDomain(scaffold, depths.map(depth => scaffoldIndices.get(depth)!), scaffold.parentStructure);
+    const domain: StapleDomain = { helix: helix, isFiveToThree: isFiveToThree, strand: strand, slots: [] };
+
+    depths.forEach((depth, i) => {
+        const slot: StapleSlot = {
+            helix: helix, depth: depth, domain: domain, indexInDomain: i,
+            prev: i > 0 ? domain.slots[i - 1] : null, next: null, isCrossover: false
+        };
+        if (slot.prev) {
+            slot.prev.next = slot;
+        }
+        domain.slots.push(slot);
+    });
+
+    return domain;
+}
+
+function findNeighbours(helices: LatticeHelix[], cellDiameter: number): void {
+    for (let i = 0; i < helices.length; ++i) {
+        for (let j = i + 1; j < helices.length; ++j) {
+            const dist = helices[i].center.distanceTo(helices[j].center);
+            if (Math.abs(dist - cellDiameter) < 0.1 * cellDiameter) {
+                helices[i].neighbours.push(j);
+                helices[j].neighbours.push(i);
+            }
+        }
+    }
+}
+
+/**
+ * Places double crossovers between antiparallel staple domains on neighbouring helices.
+ * The phase of the staple backbone on each helix is fitted to the actual geometry of the staple nucleotides
+ * while its change along the helix follows the number of base-pairs per turn of the lattice.
+ *
+ * @returns number of placed crossovers
+ */
+function placeCrossovers(domains: StapleDomain[], helices: LatticeHelix[], lattice: Lattice, matrix: Matrix4): number {
+    const normal = lattice.getNormal();
+    const colAxis = lattice.getColumnAxis();
+    const rowAxis = normal.clone().cross(colAxis);
+    const planeAngle = (v: Vector3) => Math.atan2(v.dot(rowAxis), v.dot(colAxis));
+    const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+
+    const twist = 2 * Math.PI / lattice.basePairsPerTurn;
+    const tolerance = twist / 4;
+
+    // Phase of the staple backbone for each helix and staple direction
+    const sums = new Map<string, [number, number]>();
+    domains.forEach(d => {
+        const key = d.helix + ":" + d.isFiveToThree;
+        const sum = sums.get(key) ?? [0, 0];
+        d.slots.forEach(slot => {
+            const bb = d.strand.getNucleotideProxy(slot.indexInDomain)!.backboneCenter.applyMatrix4(matrix);
+            const phase = planeAngle(bb.sub(helices[d.helix].center)) - slot.depth * twist;
+            sum[0] += Math.sin(phase);
+            sum[1] += Math.cos(phase);
+        });
+        sums.set(key, sum);
+    });
+    const getPhase = (d: StapleDomain) => {
+        const sum = sums.get(d.helix + ":" + d.isFiveToThree)!;
+        return Math.atan2(sum[0], sum[1]);
+    };
+
+    const domainsOnHelix: StapleDomain[][] = helices.map(() => []);
+    domains.forEach(d => domainsOnHelix[d.helix].push(d));
+
+    const slotAt = (d: StapleDomain, depth: number): StapleSlot | undefined => {
+        const idx = d.isFiveToThree ? depth - d.slots[0].depth : d.slots[0].depth - depth;
+        return d.slots[idx];
+    };
+
+    let count = 0;
+
+    helices.forEach((helix, helixIdx) => helix.neighbours.filter(n => n > helixIdx).forEach(neighbour => {
+        const angle = planeAngle(helices[neighbour].center.clone().sub(helix.center));
+
+        domainsOnHelix[helixIdx].forEach(dA => domainsOnHelix[neighbour].forEach(dB => {
+            if (dA.isFiveToThree === dB.isFiveToThree) {
+                return;
+            }
+
+            const phaseA = getPhase(dA);
+            const phaseB = getPhase(dB);
+            const depthsA = dA.slots.map(s => s.depth);
+            const depthsB = dB.slots.map(s => s.depth);
+
+            // Crossovers leave at least two nucleotides of each domain on both sides
+            const from = Math.max(Math.min(...depthsA), Math.min(...depthsB)) + 1;
+            const to = Math.min(Math.max(...depthsA), Math.max(...depthsB)) - 2;
+
+            for (let depth = from; depth <= to; ++depth) {
+                // Deviations of both staple backbones from the direction towards the other helix
+                // (the crossover lies between the base positions "depth" and "depth + 1")
+                const devA = wrapAngle(phaseA + (depth + 0.5) * twist - angle);
+                const devB = wrapAngle(phaseB + (depth + 0.5) * twist - angle - Math.PI);
+
+                if (Math.abs(devA + devB) / 2 > tolerance || Math.max(Math.abs(devA), Math.abs(devB)) > 2 * tolerance) {
+                    continue;
+                }
+
+                // Slots are ordered in the 5' to 3' direction of the staple: a1 -> a2 and b1 -> b2
+                const [a1, a2] = dA.isFiveToThree ? [slotAt(dA, depth)!, slotAt(dA, depth + 1)!] : [slotAt(dA, depth + 1)!, slotAt(dA, depth)!];
+                const [b1, b2] = dB.isFiveToThree ? [slotAt(dB, depth)!, slotAt(dB, depth + 1)!] : [slotAt(dB, depth + 1)!, slotAt(dB, depth)!];
+
+                if ([a1, a2, b1, b2].some(s => s.isCrossover || s.next?.isCrossover || s.prev?.isCrossover)) {
+                    continue;
+                }
+
+                link(a1, b2);
+                link(b1, a2);
+                count += 2;
+            }
+        }));
+    }));
+
+    return count;
+}
+
+function link(from: StapleSlot, to: StapleSlot): void {
+    from.next = to;
+    to.prev = from;
+    if (from.helix !== to.helix) {
+        from.isCrossover = true;
+        to.isCrossover = true;
+    }
+}
+
+/**
+ * @returns staple paths formed by the connected slots (circular ones included)
+ */
+function tracePaths(domains: StapleDomain[]): StaplePath[] {
+    const paths: StaplePath[] = [];
+    const visited = new Set<StapleSlot>();
+
+    const follow = (start: StapleSlot): StapleSlot[] => {
+        const slots: StapleSlot[] = [];
+        for (let s: StapleSlot | null = start; s !== null && !visited.has(s); s = s.next) {
+            visited.add(s);
+            slots.push(s);
+        }
+        return slots;
+    };
+
+    domains.forEach(d => d.slots.forEach(s => {
+        if (s.prev === null) {
+            paths.push({ slots: follow(s), isCircular: false });
+        }
+    }));
+
+    domains.forEach(d => d.slots.forEach(s => {
+        if (!visited.has(s)) {
+            paths.push({ slots: follow(s), isCircular: true });
+        }
+    }));
+
+    return paths;
+}
+
+/**
+ * Connects the 3' ends of too short linear paths to the 5' ends of other paths continuing
+ * on the next base position of the same helix or on the same base position of a neighbouring helix
+ * (e.g., next to a scaffold crossover). Starts of the short paths are connected similarly.
+ *
+ * @returns true if some paths were merged
+ */
+function mergeShortPaths(paths: StaplePath[], helices: LatticeHelix[], minLength: number): boolean {
+    const ends = new Map<string, StapleSlot>();
+    const key = (helix: number, depth: number, isFiveToThree: boolean) => helix + ":" + depth + ":" + isFiveToThree;
+    const pathOf = new Map<StapleSlot, StaplePath>();
+
+    paths.filter(p => !p.isCircular).forEach(p => {
+        const first = p.slots[0];
+        const last = p.slots[p.slots.length - 1];
+        ends.set(key(first.helix, first.depth, first.domain.isFiveToThree), first);
+        ends.set(key(last.helix, last.depth, last.domain.isFiveToThree), last);
+        pathOf.set(first, p);
+        pathOf.set(last, p);
+    });
+
+    // Candidate partners of a path end: next position on the same helix, same position on the neighbouring helices
+    const candidates = (slot: StapleSlot, forward: boolean): StapleSlot[] => {
+        const dir = slot.domain.isFiveToThree;
+        const step = (dir === forward) ? 1 : -1;
+        const result = [ends.get(key(slot.helix, slot.depth + step, dir))];
+        helices[slot.helix].neighbours.forEach(n => result.push(ends.get(key(n, slot.depth, !dir))));
+        return result.filter(s => s !== undefined && s !== slot &&
+            (forward ? s.prev === null : s.next === null)) as StapleSlot[];
+    };
+
+    let merged = false;
+    const shortPaths = paths.filter(p => !p.isCircular && p.slots.length < minLength)
+        .sort((a, b) => a.slots.length - b.slots.length);
+
+    shortPaths.forEach(p => {
+        if (p.slots.length >= minLength) {
+            return;
+        }
+
+        const first = p.slots[0];
+        const last = p.slots[p.slots.length - 1];
+        const options = [
+            ...candidates(last, true).map(s => [last, s]),
+            ...candidates(first, false).map(s => [s, first])
+        ].filter(([from, to]) => pathOf.get(from) !== pathOf.get(to));
+
+        if (options.length === 0) {
+            return;
+        }
+
+        // Merge with the shortest partner
+        const other = (o: StapleSlot[]) => pathOf.get(o[0] === last ? o[1] : o[0])!;
+        const [from, to] = options.reduce((a, b) => other(a).slots.length <= other(b).slots.length ? a : b);
+        const partner = other([from, to]);
+
+        link(from, to);
+        merged = true;
+
+        const joined = {
+            slots: from === last ? [...p.slots, ...partner.slots] : [...partner.slots, ...p.slots],
+            isCircular: false
+        };
+        [joined.slots[0], joined.slots[joined.slots.length - 1]].forEach(s => pathOf.set(s, joined));
+        [from, to].forEach(s => pathOf.delete(s));
+        p.slots = joined.slots;
+        partner.slots = joined.slots;
+    });
+
+    return merged;
+}
+
+/**
+ * Splits the path into staples whose lengths are in the given range and as close as possible
+ * to the preferred length (dynamic programming). Breaks next to the crossovers are not allowed.
+ * If the path cannot be split like this, the range constraints are relaxed.
+ */
+function splitPath(slots: StapleSlot[], isCircular: boolean, minLength: number, maxLength: number,
+    preferredLength: number): StapleSlot[][] {
+    const n = slots.length;
+    const isCrossoverEdge = (i: number) => {
+        const a = slots[(i + n) % n];
+        const b = slots[(i + 1 + n) % n];
+        return a.helix !== b.helix;
+    };
+    // Break between slots i - 1 and i
+    const canBreakAt = (i: number) => !isCrossoverEdge(i - 2) && !isCrossoverEdge(i - 1) && !isCrossoverEdge(i);
+
+    if (!isCircular) {
+        return splitLinear(slots, i => i === 0 || i === n || canBreakAt(i), minLength, maxLength, preferredLength);
+    }
+
+    // Circular paths are opened at one of the possible break positions
+    const starts: number[] = [];
+    for (let i = 0; i < n && starts.length < maxLength; ++i) {
+        if (canBreakAt(i)) {
+            starts.push(i);
+        }
+    }
+    if (starts.length === 0) {
+        starts.push(0);
+    }
+
+    let best: { pieces: StapleSlot[][], cost: number } | undefined = undefined;
+    starts.forEach(start => {
+        const rotated = [...slots.slice(start), ...slots.slice(0, start)];
+        const costRef = { cost: 0 };
+        const pieces = splitLinear(rotated, i => i === 0 || i === n || canBreakAt((i + start) % n),
+            minLength, maxLength, preferredLength, costRef);
+        if (best === undefined || costRef.cost < best.cost) {
+            best = { pieces: pieces, cost: costRef.cost };
+        }
+    });
+
+    return best!.pieces;
+}
+
+function splitLinear(slots: StapleSlot[], canBreakAt: (i: number) => boolean, minLength: number, maxLength: number,
+    preferredLength: number, costRef: { cost: number } = { cost: 0 }): StapleSlot[][] {
+    const n = slots.length;
+    const penalty = 1e6;
+    const lengthCost = (len: number) => (len - preferredLength) * (len - preferredLength) +
+        (len < minLength ? penalty : 0) + (len > maxLength ? penalty * (1 + len - maxLength) : 0);
+
+    const solve = (window: number) => {
+        const cost = new Array<number>(n + 1).fill(Infinity);
+        const from = new Array<number>(n + 1).fill(-1);
+        cost[0] = 0;
+
+        for (let i = 1; i <= n; ++i) {
+            if (!canBreakAt(i)) {
+                continue;
+            }
+            for (let j = Math.max(0, i - window); j < i; ++j) {
+                if (cost[j] === Infinity) {
+                    continue;
+                }
+                const c = cost[j] + lengthCost(i - j);
+                if (c < cost[i]) {
+                    cost[i] = c;
+                    from[i] = j;
+                }
+            }
+        }
+        return { cost: cost, from: from };
+    };
+
+    let sol = solve(maxLength);
+    if (sol.cost[n] === Infinity || sol.cost[n] >= penalty) {
+        // No split within the allowed range exists, so longer staples are allowed as well
+        const relaxed = solve(n);
+        if (relaxed.cost[n] < sol.cost[n]) {
+            sol = relaxed;
+        }
+    }
+
+    costRef.cost = sol.cost[n];
+
+    const pieces: StapleSlot[][] = [];
+    for (let i = n; i > 0; i = sol.from[i]) {
+        pieces.unshift(slots.slice(sol.from[i], i));
+    }
+
+    return pieces;
+}
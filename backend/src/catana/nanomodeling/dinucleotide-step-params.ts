@@ -0,0 +1,73 @@
+import { NucleobaseType } from "../data_model/types_declarations/monomer-types";
+import { InterBaseRigidbodyParams } from "./dna-forms";
+
+/**
+ * Inter-base parameters of dinucleotide steps.
+ * Keys are the one-letter codes of the two bases in the 5' to 3' direction (e.g., "AG").
+ */
+export type DinucleotideStepTable = { [step: string]: InterBaseRigidbodyParams };
+
+/**
+ * Creates parameters of a dinucleotide step (angles in degrees, distances in Angstroms)
+ */
+function step(shift: number, slide: number, rise: number, tilt: number, roll: number, twist: number): InterBaseRigidbodyParams {
+    return {
+        baseShift: shift,
+        baseSlide: slide,
+        baseRise: rise,
+        baseTilt: tilt,
+        baseRoll: roll,
+        baseTwist: twist
+    };
+}
+
+/**
+ * Adds the steps complementary to the given ones. Step XY read on the complementary strand
+ * has the same parameters except for shift and tilt which change their sign.
+ */
+function completeStepTable(table: DinucleotideStepTable): DinucleotideStepTable {
+    const complement: { [base: string]: string } = { A: "T", T: "A", C: "G", G: "C" };
+    const result: DinucleotideStepTable = Object.assign({}, table);
+
+    Object.keys(table).forEach(key => {
+        const complKey = complement[key[1]] + complement[key[0]];
+        if (!result[complKey]) {
+            const p = table[key];
+            result[complKey] = Object.assign({}, p, { baseShift: -p.baseShift, baseTilt: -p.baseTilt });
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Average dinucleotide step parameters observed in protein-DNA crystal complexes, taken from:
+ * "Olson et al., DNA sequence-dependent deformability deduced from protein-DNA crystal complexes", PNAS 1998
+ * https://doi.org/10.1073/pnas.95.19.11163
+ */
+export const Olson1998StepParams: DinucleotideStepTable = completeStepTable({
+    AA: step(-0.03, -0.08, 3.27, -1.4, 0.7, 35.1),
+    AC: step(0.13, -0.58, 3.36, -0.1, 0.7, 31.5),
+    AG: step(0.09, -0.25, 3.34, -1.7, 4.5, 31.9),
+    AT: step(0.00, -0.59, 3.31, 0.0, 1.1, 29.3),
+    CA: step(0.09, 0.53, 3.37, 0.5, 4.7, 37.3),
+    CC: step(-0.05, -0.22, 3.42, -0.1, 3.6, 32.9),
+    CG: step(0.00, 0.41, 3.39, 0.0, 5.4, 36.1),
+    GA: step(-0.28, 0.09, 3.38, -1.5, 1.9, 36.3),
+    GC: step(0.00, -0.38, 3.40, 0.0, 0.3, 33.6),
+    TA: step(0.00, 0.05, 3.36, 0.0, 3.3, 37.8)
+});
+
+/**
+ * Looks up the parameters of the dinucleotide step. Uracil is treated as thymine.
+ *
+ * @param table dinucleotide step table
+ * @param first nucleobase at the 5' side of the step
+ * @param second nucleobase at the 3' side of the step
+ * @returns parameters of the step or undefined if the table does not contain it (e.g., for unknown bases)
+ */
+export function getDinucleotideStepParams(table: DinucleotideStepTable, first: NucleobaseType,
+    second: NucleobaseType): InterBaseRigidbodyParams | undefined {
+    const code = (nb: NucleobaseType) => nb === NucleobaseType.U ? NucleobaseType.T : nb;
+    return table[code(first) + code(second)];
+}
@@ -1,6 +1,7 @@
 import { MathUtils, Matrix4, Quaternion, Vector3 } from "three";
-import { BDnaIdealisticForm, DnaForm } from "./dna-forms";
-import { CgStructure, Log } from "../../catana";
+import { BDnaIdealisticForm, DnaForm, InterBaseRigidbodyParams } from "./dna-forms";
+import { Log } from "../../globals";
+import CgStructure from "../data_model/cg-structure";
 import { getComplementaryBase, NucleobaseType } from "../data_model/types_declarations/monomer-types";
 import { NucleicAcidSequenceProvider } from "./sequence-providers/nucleic-acid-sequence-provider";
 import { RandomNaSequenceProvider } from "./sequence-providers/random-na-sequence-provider";
@@ -12,6 +13,18 @@ import GlobalIdGenerator from "../utils/global-id-generator";
 import NucleicAcidStrandCreator from "./nucleic-acid-strand-creator";
 import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
 import { computeHelicalAxis } from "./nucleic-acid-utils";
+import Lattice from "./lattices/lattice";
+import { getDinucleotideStepParams } from "./dinucleotide-step-params";
+
+/**
+ * Positional data of a nucleotide
+ */
+type NucleotideGeometry = {
+    nbCenter: Vector3,
+    bbCenter: Vector3,
+    baseNormal: Vector3,
+    hydrogenFaceDir: Vector3
+}
 
 /**
  * Class serving for the creation of coarse-grained DNA structures
@@ -53,6 +66,15 @@ class DnaFactory {
         this._ntSequence = sp;
     }
 
+    /**
+     * @returns distance (in Angstroms) between consecutive base-pairs along the helical axis of the current DNA form
+     */
+    public get helicalAxisRise(): number {
+        const baseParams = this.dnaForm.defaultBaseParams;
+        const axisTilt = (MathUtils.degToRad(baseParams.baseRoll) * 0.5) / Math.sin(MathUtils.degToRad(baseParams.baseTwist * 0.5));
+        return baseParams.baseRise * Math.cos(axisTilt) + baseParams.baseSlide * Math.sin(axisTilt);
+    }
+
     /**
      * Builds a DNA helix of given length and directionality.
      * The calling function must decide if the returing strand is supposed to be
@@ -213,26 +235,10 @@ class DnaFactory {
     public buildComplementaryNucleotide(nt: CgNucleotideProxy, sourceNtStrand: CgNucleicAcidStrand,
         newNtStrand: CgNucleicAcidStrand, newNtStrandIdx: number): CgNucleotideProxy {
         const newNbType = getComplementaryBase(nt.nucleobaseType, sourceNtStrand.naType);
-
-        const newRefStructure = NucleicAcidStructuresProvider.nucleicAcidStructures
-            .get(sourceNtStrand.naType)?.get(newNbType)!;
-
-        const currRefStructure = NucleicAcidStructuresProvider.nucleicAcidStructures
-            .get(sourceNtStrand.naType)?.get(nt.nucleobaseType)!;
-
-        const baseNormal = nt.baseNormal.clone().applyAxisAngle(nt.hydrogenFaceDir, MathUtils.degToRad(-this._dnaForm.defaultComplBaseParams.propeller)).normalize().negate();
-        const hydrogenFaceDir = nt.hydrogenFaceDir.clone().negate();
-
-        const currBasis = new Matrix4().makeBasis(nt.baseShortAxis, nt.hydrogenFaceDir, nt.baseNormal);
-        const currOrigin = nt.nucleobaseCenter.sub(currRefStructure.originToBaseCenter.clone().applyMatrix4(currBasis));
-        const currToNewRotation = new Matrix4().makeRotationAxis(nt.baseShortAxis, Math.PI);
-
-        const newOrToBb = newRefStructure.originToBackboneCenter.clone().applyMatrix4(currBasis).applyMatrix4(currToNewRotation);
-        const newOrToNb = newRefStructure.originToBaseCenter.clone().applyMatrix4(currBasis).applyMatrix4(currToNewRotation);
+        const g = this.getComplementaryGeometry(nt, sourceNtStrand.naType, newNbType);
 
         const newNt = newNtStrand.insertNucleotide(newNtStrandIdx, GlobalIdGenerator.generateId(), newNbType,
-            currOrigin.clone().add(newOrToNb), currOrigin.clone().add(newOrToBb),
-            baseNormal, hydrogenFaceDir);
+            g.nbCenter, g.bbCenter, g.baseNormal, g.hydrogenFaceDir);
 
         newNt.pairedNucleotide = nt;
         nt.pairedNucleotide = newNt;
@@ -389,6 +395,133 @@ class DnaFactory {
             backboneCenter, strandOriginBaseZ, strandOriginBaseY);
     }
 
+    /**
+     * Creates new nucleotide located in the given lattice cell.
+     * 
+     * @param lattice lattice defining the location of the helix
+     * @param row row index of the lattice cell
+     * @param col column index of the lattice cell
+     * @param depth position along the helix (in base-pair steps), may be fractional
+     * @param initialTwist helical twist (in radians) at depth zero
+     * @param isFiveToThree true if the parent strand goes in the direction of the lattice normal
+     * @param nbType nucleobase type
+     * @param parentStrand parent strand of the new nucleotide (nucleotide is appended at its 3' end)
+     * @param globalId global ID of the new nucleotide
+     * @param baseTwist twist (in degrees) between consecutive base-pairs (the DNA form's one is used if not provided)
+     * @returns proxy referencing the newly created nucleotide
+     */
+    public buildLatticeNucleotide(lattice: Lattice, row: number, col: number, depth: number, initialTwist: number,
+        isFiveToThree: boolean, nbType: NucleobaseType, parentStrand: CgNucleicAcidStrand, globalId?: number,
+        baseTwist?: number): CgNucleotideProxy {
+        return this.buildAxisNucleotide(lattice.getPosition(row, col), lattice.getNormal(), lattice.getColumnAxis(),
+            depth, initialTwist, isFiveToThree, nbType, parentStrand, globalId, baseTwist);
+    }
+
+    /**
+     * Creates new nucleotide located on the given helical axis.
+     * 
+     * @param axisOrigin position of the helical axis at depth zero
+     * @param axisDirection direction of the helical axis
+     * @param referenceDir direction perpendicular to the helical axis from which the helical twist is measured
+     * @param depth position along the helix (in base-pair steps), may be fractional
+     * @param initialTwist helical twist (in radians) at depth zero
+     * @param isFiveToThree true if the parent strand goes in the direction of the helical axis
+     * @param nbType nucleobase type
+     * @param parentStrand parent strand of the new nucleotide (nucleotide is appended at its 3' end)
+     * @param globalId global ID of the new nucleotide
+     * @param baseTwist twist (in degrees) between consecutive base-pairs (the DNA form's one is used if not provided)
+     * @returns proxy referencing the newly created nucleotide
+     */
+    public buildAxisNucleotide(axisOrigin: Vector3, axisDirection: Vector3, referenceDir: Vector3, depth: number,
+        initialTwist: number, isFiveToThree: boolean, nbType: NucleobaseType, parentStrand: CgNucleicAcidStrand,
+        globalId?: number, baseTwist?: number): CgNucleotideProxy {
+        const baseParams = this.dnaForm.defaultBaseParams;
+        const axisDir = axisDirection.clone().normalize();
+        let desiredNormal: Vector3 = axisDir.clone();
+        let initAngleOffset = 0;
+
+        if (!isFiveToThree) {
+            desiredNormal.negate();
+
+            const naType = parentStrand.naType;
+            const naMap = NucleicAcidStructuresProvider.nucleicAcidStructures.get(naType)!;
+
+            const currRefStructure = naMap.get(nbType)!;
+            const complRefStructure = naMap.get(getComplementaryBase(nbType, naType))!;
+
+            initAngleOffset = Math.PI - currRefStructure.originToC1.angleTo(complRefStructure.originToC1);
+        }
+
+        // TODO Does not really support different DNA geometries and their parameters ... probably related to the positional data being created "ad hoc"
+        // in this case while being generated step-by-step (reusing position of neighbours) during regular building of helices
+
+        const currentTwistVct = referenceDir.clone().projectOnPlane(axisDir).normalize().applyAxisAngle(axisDir,
+            initialTwist + Math.PI + initAngleOffset + MathUtils.degToRad(depth * (baseTwist ?? baseParams.baseTwist)));
+
+        const cellOrigin = axisOrigin.clone().add(
+            axisDir.clone().multiplyScalar(depth * this.helicalAxisRise)).
+            add(currentTwistVct.clone().multiplyScalar(baseParams.baseSlide));
+
+        desiredNormal.applyAxisAngle(currentTwistVct, MathUtils.degToRad(this.dnaForm.defaultComplBaseParams.propeller * 0.5)).normalize();
+
+        return this.buildNucleotideFromParameters(cellOrigin, desiredNormal, currentTwistVct,
+            nbType, parentStrand, NucleicAcidStrandEnd.THREE_PRIME, globalId);
+    }
+
+    /**
+     * Recomputes the geometry of the strand according to its current sequence (e.g., after calling
+     * {@link CgNucleicAcidStrand.setSequence}) using the inter-base parameters of the DNA form.
+     * If the form contains dinucleotide step parameters, the sequence-dependent geometry (e.g., the intrinsic
+     * curvature of A-tracts) is reproduced.
+     * The strand is processed in continuous stacked segments (e.g., the parts between crossovers),
+     * each of them keeping the position of its first nucleotide. Paired nucleotides are moved together with the strand.
+     * 
+     * @param strand strand to update
+     * @param dnaForm DNA form to use (the current one is used if not provided)
+     * @returns number of the updated segments
+     */
+    public updateStrandGeometry(strand: CgNucleicAcidStrand, dnaForm?: DnaForm): number {
+        const currDnaForm = dnaForm ?? this.dnaForm;
+        const nucleotides = Array.from({ length: strand.length }, (v, i) => strand.getNucleotideProxy(i)!);
+        const maxStackingDist = 2 * currDnaForm.defaultBaseParams.baseRise;
+
+        // Segment breaks are determined before any nucleotide is moved
+        const isStacked = nucleotides.map((nt, i) => i > 0 &&
+            nt.baseNormal.angleTo(nucleotides[i - 1].baseNormal) < Math.PI / 4 &&
+            nt.nucleobaseCenter.distanceTo(nucleotides[i - 1].nucleobaseCenter) < maxStackingDist);
+
+        let frame = new Matrix4();
+        let segments = 0;
+
+        nucleotides.forEach((nt, i) => {
+            if (!isStacked[i]) {
+                frame = this.getBasePairFrame(nt, strand.naType, currDnaForm);
+                ++segments;
+                return;
+            }
+
+            frame = frame.clone().multiply(this.getStepTransformation(
+                this.getStepParams(currDnaForm, nucleotides[i - 1].nucleobaseType, nt.nucleobaseType)));
+
+            const g = this.getFrameGeometry(frame, nt.nucleobaseType, strand.naType, currDnaForm);
+            nt.nucleobaseCenter = g.nbCenter;
+            nt.backboneCenter = g.bbCenter;
+            nt.baseNormal = g.baseNormal;
+            nt.hydrogenFaceDir = g.hydrogenFaceDir;
+
+            const pair = nt.pairedNucleotide;
+            if (pair) {
+                const pg = this.getComplementaryGeometry(nt, strand.naType, pair.nucleobaseType, currDnaForm);
+                pair.nucleobaseCenter = pg.nbCenter;
+                pair.backboneCenter = pg.bbCenter;
+                pair.baseNormal = pg.baseNormal;
+                pair.hydrogenFaceDir = pg.hydrogenFaceDir;
+            }
+        });
+
+        return segments;
+    }
+
     /**
      * Generates given number of nucleotides starting at a template nucleotide.
      * 
@@ -410,6 +543,11 @@ class DnaFactory {
         const nsm = NucleicAcidStructuresProvider.nucleicAcidStructures.get(parentStrand.naType)!;
         const currDnaForm = dnaForm ?? this.dnaForm;
 
+        if (currDnaForm.stepParams) {
+            return this.generateNucleotidesFromSteps(count, templateNucleotide, parentStrand, endToExtend,
+                sequenceProvider, currDnaForm, overrideHelicalAxis);
+        }
+
         const dir = endToExtend === NucleicAcidStrandEnd.THREE_PRIME ? 1 : -1;
         const insertToStrand = (endToExtend === NucleicAcidStrandEnd.THREE_PRIME ?
             parentStrand.insertNewThreePrimeNucleotide :
@@ -489,6 +627,149 @@ class DnaFactory {
 
         return parentStrand;
     }
+
+    /**
+     * Generates given number of nucleotides starting at a template nucleotide, looking up the inter-base
+     * parameters of each dinucleotide step. The base-pair reference frames are built in the same way
+     * as in 3DNA (Lu & Olson, 2003), i.e., rotating around the hinge axis of the middle step frame.
+     * 
+     * @see generateNucleotidesFromTemplate
+     */
+    private generateNucleotidesFromSteps(count: number, templateNucleotide: CgNucleotideProxy, parentStrand: CgNucleicAcidStrand,
+        endToExtend: NucleicAcidStrandEnd, sequenceProvider: NucleicAcidSequenceProvider, dnaForm: DnaForm,
+        overrideHelicalAxis?: Vector3): CgNucleicAcidStrand {
+        const isThreePrime = endToExtend === NucleicAcidStrandEnd.THREE_PRIME;
+        const insertToStrand = (isThreePrime ?
+            parentStrand.insertNewThreePrimeNucleotide :
+            parentStrand.insertNewFivePrimeNucleotide).bind(parentStrand);
+
+        let frame = this.getBasePairFrame(templateNucleotide, parentStrand.naType, dnaForm);
+
+        if (overrideHelicalAxis) {
+            const axis = overrideHelicalAxis.clone().normalize();
+            const baseZ = new Vector3().setFromMatrixColumn(frame, 2);
+
+            // Helical axis is always expected to point in 5' to 3' direction
+            if (!isThreePrime && axis.dot(baseZ) < 0) {
+                axis.negate();
+            }
+
+            const origin = new Vector3().setFromMatrixPosition(frame);
+            frame = new Matrix4().makeRotationFromQuaternion(new Quaternion().setFromUnitVectors(baseZ, axis))
+                .multiply(frame.setPosition(0, 0, 0)).setPosition(origin);
+        }
+
+        let lastNbType = templateNucleotide.nucleobaseType;
+
+        for (let i = 0; i < count; ++i) {
+            const nbType = sequenceProvider.getNext();
+
+            if (isThreePrime) {
+                frame = frame.clone().multiply(this.getStepTransformation(this.getStepParams(dnaForm, lastNbType, nbType)));
+            } else {
+                frame = frame.clone().multiply(new Matrix4().getInverse(
+                    this.getStepTransformation(this.getStepParams(dnaForm, nbType, lastNbType))));
+            }
+
+            const g = this.getFrameGeometry(frame, nbType, parentStrand.naType, dnaForm);
+            insertToStrand(GlobalIdGenerator.generateId(), nbType, g.nbCenter, g.bbCenter, g.baseNormal, g.hydrogenFaceDir);
+
+            lastNbType = nbType;
+        }
+
+        return parentStrand;
+    }
+
+    /**
+     * @returns inter-base parameters of the given dinucleotide step
+     */
+    private getStepParams(dnaForm: DnaForm, first: NucleobaseType, second: NucleobaseType): InterBaseRigidbodyParams {
+        return (dnaForm.stepParams && getDinucleotideStepParams(dnaForm.stepParams, first, second)) ?? dnaForm.defaultBaseParams;
+    }
+
+    /**
+     * @returns transformation from the reference frame of a base-pair to the frame of the following one
+     */
+    private getStepTransformation(params: InterBaseRigidbodyParams): Matrix4 {
+        const twist = MathUtils.degToRad(params.baseTwist);
+        const tilt = MathUtils.degToRad(params.baseTilt);
+        const roll = MathUtils.degToRad(params.baseRoll);
+        const bend = Math.sqrt(tilt * tilt + roll * roll);
+        const phase = Math.atan2(tilt, roll);
+
+        const rotation = new Matrix4().makeRotationZ(twist * 0.5 - phase)
+            .multiply(new Matrix4().makeRotationY(bend))
+            .multiply(new Matrix4().makeRotationZ(twist * 0.5 + phase));
+        const middleFrame = new Matrix4().makeRotationZ(twist * 0.5 - phase)
+            .multiply(new Matrix4().makeRotationY(bend * 0.5))
+            .multiply(new Matrix4().makeRotationZ(phase));
+
+        return rotation.setPosition(new Vector3(params.baseShift, params.baseSlide, params.baseRise).applyMatrix4(middleFrame));
+    }
+
+    /**
+     * @returns reference frame of the base-pair to which the given nucleotide belongs (without the propeller twist).
+     * The frame follows the 3DNA convention, i.e., its y-axis points towards the backbone of the given nucleotide
+     * and its z-axis in the 5' to 3' direction of the nucleotide's strand.
+     */
+    private getBasePairFrame(nt: CgNucleotideProxy, naType: NucleicAcidType, dnaForm: DnaForm): Matrix4 {
+        const refStructure = NucleicAcidStructuresProvider.nucleicAcidStructures.get(naType)!.get(nt.nucleobaseType)!;
+        const hydrogenFaceDir = nt.hydrogenFaceDir.clone().normalize();
+        const baseNormal = nt.baseNormal.clone().applyAxisAngle(hydrogenFaceDir,
+            MathUtils.degToRad(-dnaForm.defaultComplBaseParams.propeller * 0.5)).projectOnPlane(hydrogenFaceDir).normalize();
+        const baseShortAxis = hydrogenFaceDir.clone().cross(baseNormal);
+
+        const ntBasis = new Matrix4().makeBasis(baseShortAxis, hydrogenFaceDir, baseNormal);
+        const origin = nt.nucleobaseCenter.sub(refStructure.originToBaseCenter.clone().applyMatrix4(ntBasis));
+
+        return new Matrix4().makeBasis(baseShortAxis.negate(), hydrogenFaceDir.negate(), baseNormal).setPosition(origin);
+    }
+
+    /**
+     * @returns positional data of a nucleotide placed in the given base-pair reference frame
+     */
+    private getFrameGeometry(frame: Matrix4, nbType: NucleobaseType, naType: NucleicAcidType, dnaForm: DnaForm): NucleotideGeometry {
+        const refStructure = NucleicAcidStructuresProvider.nucleicAcidStructures.get(naType)!.get(nbType)!;
+        // Basis of the nucleotide is the base-pair frame rotated so that the y-axis points towards the paired base
+        const ntBasis = frame.clone().multiply(new Matrix4().makeRotationZ(Math.PI));
+        const hydrogenFaceDir = new Vector3().setFromMatrixColumn(ntBasis, 1).normalize();
+        const baseNormal = new Vector3().setFromMatrixColumn(ntBasis, 2)
+            .applyAxisAngle(hydrogenFaceDir, MathUtils.degToRad(dnaForm.defaultComplBaseParams.propeller * 0.5)).normalize();
+
+        return {
+            nbCenter: refStructure.originToBaseCenter.clone().applyMatrix4(ntBasis),
+            bbCenter: refStructure.originToBackboneCenter.clone().applyMatrix4(ntBasis),
+            baseNormal: baseNormal,
+            hydrogenFaceDir: hydrogenFaceDir
+        };
+    }
+
+    /**
+     * @returns positional data of a nucleotide complementary to the given one
+     */
+    private getComplementaryGeometry(nt: CgNucleotideProxy, naType: NucleicAcidType, newNbType: NucleobaseType,
+        dnaForm: DnaForm = this._dnaForm): NucleotideGeometry {
+        const naMap = NucleicAcidStructuresProvider.nucleicAcidStructures.get(naType)!;
+        const newRefStructure = naMap.get(newNbType)!;
+        const currRefStructure = naMap.get(nt.nucleobaseType)!;
+
+        const baseNormal = nt.baseNormal.clone().applyAxisAngle(nt.hydrogenFaceDir, MathUtils.degToRad(-dnaForm.defaultComplBaseParams.propeller)).normalize().negate();
+        const hydrogenFaceDir = nt.hydrogenFaceDir.clone().negate();
+
+        const currBasis = new Matrix4().makeBasis(nt.baseShortAxis, nt.hydrogenFaceDir, nt.baseNormal);
+        const currOrigin = nt.nucleobaseCenter.sub(currRefStructure.originToBaseCenter.clone().applyMatrix4(currBasis));
+        const currToNewRotation = new Matrix4().makeRotationAxis(nt.baseShortAxis, Math.PI);
+
+        const newOrToBb = newRefStructure.originToBackboneCenter.clone().applyMatrix4(currBasis).applyMatrix4(currToNewRotation);
+        const newOrToNb = newRefStructure.originToBaseCenter.clone().applyMatrix4(currBasis).applyMatrix4(currToNewRotation);
+
+        return {
+            nbCenter: currOrigin.clone().add(newOrToNb),
+            bbCenter: currOrigin.clone().add(newOrToBb),
+            baseNormal: baseNormal,
+            hydrogenFaceDir: hydrogenFaceDir
+        };
+    }
 }
 
 export default DnaFactory;
\ No newline at end of file
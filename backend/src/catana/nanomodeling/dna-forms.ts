@@ -8,6 +8,8 @@
 * for example, due to the XYZ base axis being computed slightly differently.
 */
 
+import { DinucleotideStepTable, Olson1998StepParams } from "./dinucleotide-step-params";
+
 /**
  * Inter-base params are applied onto individual bases when assembling
  * the nucleic acid single strand
@@ -95,7 +97,12 @@ export interface DnaForm {
     /**
      * Intra-base parameters
      */
-    defaultComplBaseParams: IntraBaseRigidbodyParams
+    defaultComplBaseParams: IntraBaseRigidbodyParams,
+    /**
+     * If provided, the inter-base parameters are looked up for each dinucleotide step
+     * (the default ones are used for the steps missing in the table)
+     */
+    stepParams?: DinucleotideStepTable
 }
 
 /**
@@ -170,4 +177,16 @@ export const ADnaForm: DnaForm = {
         propeller: -11.8,
         opening: 0.6
     }
-}
\ No newline at end of file
+}
+
+/**
+* Sequence-dependent B-DNA form using the dinucleotide step parameters
+* from Olson et al., 1998 (see {@link Olson1998StepParams}).
+* Default parameters (used, e.g., by the lattices or for unknown bases) are the ones of the idealistic B-DNA.
+*/
+export const BDnaSequenceDependentForm: DnaForm = {
+    doubleHelixDiameter: 20,
+    defaultBaseParams: BDnaIdealisticForm.defaultBaseParams,
+    defaultComplBaseParams: BDnaIdealisticForm.defaultComplBaseParams,
+    stepParams: Olson1998StepParams
+}
@@ -0,0 +1,366 @@
+import { MathUtils, Vector3 } from "three";
+import Structure from "../../structure/structure";
+import CgStructure from "../data_model/cg-structure";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
+import NucleicAcidStructuresProvider from "./structure-providers/nucleic-acid-structures-provider";
+import { convertAllAtomStructureToCoarseGrained } from "./aa-to-cg-structure-conversion";
+import { autoDetectBasePairs } from "./nucleic-acid-utils";
+import { escapeCsvValue } from "./staple-list";
+
+/**
+ * Parameters describing the relative position of the two bases of a base-pair (3DNA convention)
+ */
+export interface BasePairParameters {
+    /**
+     * Index of the base-pair within its helix
+     */
+    index: number,
+    /**
+     * Base-pair name (e.g., "A-T", the base of the first strand is the first one)
+     */
+    name: string,
+    /**
+     * Index of the nucleotide of the first strand (counted from its 5' end)
+     */
+    nucleotideIndex: number,
+    // Translations (Angstroms)
+    shear: number,
+    stretch: number,
+    stagger: number,
+    // Rotations (degrees)
+    buckle: number,
+    propeller: number,
+    opening: number,
+    /**
+     * Minor groove width (Angstroms) or null if the base-pair is too close to the helix end
+     */
+    minorGrooveWidth: number | null,
+    /**
+     * Major groove width (Angstroms) or null if the base-pair is too close to the helix end
+     */
+    majorGrooveWidth: number | null
+}
+
+/**
+ * Parameters describing the relative position of two consecutive base-pairs (3DNA convention)
+ */
+export interface BasePairStepParameters {
+    /**
+     * Index of the step within its helix (step i connects base-pairs i and i + 1)
+     */
+    index: number,
+    /**
+     * Step name (e.g., "AG/CT", the bases of the first strand are in the 5' to 3' direction)
+     */
+    name: string,
+    // Translations (Angstroms)
+    shift: number,
+    slide: number,
+    rise: number,
+    // Rotations (degrees)
+    tilt: number,
+    roll: number,
+    twist: number,
+    /**
+     * Angle (degrees) between the local helical axis of this step and of the previous one
+     * (null for the first step of the helix)
+     */
+    axisBend: number | null
+}
+
+/**
+ * Helical parameters of one continuous double-stranded region
+ */
+export interface HelixParameters {
+    /**
+     * Name of the first strand of the helix
+     */
+    strandName: string,
+    /**
+     * Name of the second (complementary) strand of the helix
+     */
+    complementaryStrandName: string,
+    basePairs: BasePairParameters[],
+    steps: BasePairStepParameters[]
+}
+
+/**
+ * Reference frame of a base or a base-pair
+ */
+interface ReferenceFrame {
+    origin: Vector3,
+    x: Vector3,
+    y: Vector3,
+    z: Vector3
+}
+
+/**
+ * Van der Waals diameter of the phosphate group subtracted from the backbone distances
+ * when computing the groove widths (as done by 3DNA)
+ */
+const PHOSPHATE_DIAMETER = 5.8;
+
+/**
+ * Maximal offset (in base-pairs) of the backbones considered when computing the groove widths
+ */
+const MAX_GROOVE_OFFSET = 4;
+
+/**
+ * Computes 3DNA-like helical parameters of all double-stranded regions of the structure,
+ * i.e., base-pair parameters (shear, stretch, stagger, buckle, propeller, opening),
+ * base-pair step parameters (shift, slide, rise, tilt, roll, twist), bending of the local helical axis,
+ * and groove widths.
+ * The parameters are computed from the coarse-grained representation of the nucleotides,
+ * all-atom structures are therefore converted first (and their base-pairs detected).
+ * The groove widths are measured between the backbone centers (instead of phosphorus atoms as in 3DNA).
+ *
+ * @see Lu & Olson, "3DNA: a software package for the analysis, rebuilding and visualization
+ * of three-dimensional nucleic acid structures", Nucleic Acids Research, 2003
+ *
+ * @param structure structure to analyze
+ * @returns parameters of the individual helices
+ * @throws Throws an error if an all-atom structure cannot be converted to the coarse-grained one
+ */
+export function computeHelicalParameters(structure: CgStructure | Structure): HelixParameters[] {
+    if (structure instanceof CgStructure) {
+        return computeCgHelicalParameters(structure);
+    }
+
+    const cgStructure = convertAllAtomStructureToCoarseGrained(structure);
+    autoDetectBasePairs(cgStructure);
+    const result = computeCgHelicalParameters(cgStructure);
+    cgStructure.dispose();
+
+    return result;
+}
+
+/**
+ * Creates a CSV table with the base-pair and step parameters of the given helices.
+ * Each line corresponds to one base-pair and contains also the parameters of the step
+ * to the following base-pair (if any).
+ */
+export function createHelicalParametersCsv(helices: HelixParameters[]): string {
+    const header = ["Helix", "Strand", "Complementary strand", "Base-pair", "Nucleotide", "Name",
+        "Shear", "Stretch", "Stagger", "Buckle", "Propeller", "Opening",
+        "Step", "Shift", "Slide", "Rise", "Tilt", "Roll", "Twist", "Axis bend",
+        "Minor groove", "Major groove"];
+    const format = (v: number | null | undefined) => v === null || v === undefined ? "" : v.toFixed(2);
+
+    const lines = [header.map(escapeCsvValue).join(",")];
+    helices.forEach((h, hi) => {
+        h.basePairs.forEach((bp, i) => {
+            const s: BasePairStepParameters | undefined = h.steps[i];
+            lines.push([
+                (hi + 1).toString(), h.strandName, h.complementaryStrandName,
+                (bp.index + 1).toString(), (bp.nucleotideIndex + 1).toString(), bp.name,
+                format(bp.shear), format(bp.stretch), format(bp.stagger),
+                format(bp.buckle), format(bp.propeller), format(bp.opening),
+                s ? s.name : "", format(s?.shift), format(s?.slide), format(s?.rise),
+                format(s?.tilt), format(s?.roll), format(s?.twist), format(s?.axisBend),
+                format(bp.minorGrooveWidth), format(bp.majorGrooveWidth)
+            ].map(escapeCsvValue).join(","));
+        });
+    });
+
+    return lines.join("\n") + "\n";
+}
+
+function computeCgHelicalParameters(structure: CgStructure): HelixParameters[] {
+    const result: HelixParameters[] = [];
+    const visited = new Set<number>();
+
+    // Longer strands (e.g., scaffolds) are preferred as the first strands of the helices
+    const strands = structure.naStrands.slice().sort((a, b) => b.length - a.length);
+
+    strands.forEach(strand => {
+        let helix: [CgNucleotideProxy, CgNucleotideProxy][] = [];
+
+        for (let i = 0; i <= strand.length; ++i) {
+            const nt = i < strand.length ? strand.getNucleotideProxy(i)! : null;
+            const pair = nt && !visited.has(nt.globalId) ? nt.pairedNucleotide : null;
+            const last = helix[helix.length - 1];
+            const isContinuation = pair && last && pair.parentStrand === last[1].parentStrand &&
+                pair.index === last[1].index - 1;
+
+            if (helix.length > 0 && !isContinuation) {
+                result.push(analyzeHelix(strand, helix));
+                helix = [];
+            }
+
+            if (nt && pair) {
+                helix.push([nt, pair]);
+                visited.add(nt.globalId);
+                visited.add(pair.globalId);
+            }
+        }
+    });
+
+    return result;
+}
+
+function analyzeHelix(strand: CgNucleicAcidStrand, pairs: [CgNucleotideProxy, CgNucleotideProxy][]): HelixParameters {
+    const bpFrames: ReferenceFrame[] = [];
+    const basePairs: BasePairParameters[] = [];
+    const steps: BasePairStepParameters[] = [];
+    const complStrand = pairs[0][1].parentStrand;
+
+    pairs.forEach(([nt1, nt2], i) => {
+        const [p, frame] = computeStepParameters(getBaseFrame(nt2, strand, true), getBaseFrame(nt1, strand, false));
+        bpFrames.push(frame);
+        basePairs.push({
+            index: i,
+            name: nt1.nucleobaseType + "-" + nt2.nucleobaseType,
+            nucleotideIndex: nt1.index,
+            shear: p[0],
+            stretch: p[1],
+            stagger: p[2],
+            buckle: p[3],
+            propeller: p[4],
+            opening: p[5],
+            minorGrooveWidth: null,
+            majorGrooveWidth: null
+        });
+    });
+
+    let lastAxis: Vector3 | null = null;
+
+    for (let i = 0; i < pairs.length - 1; ++i) {
+        const [p] = computeStepParameters(bpFrames[i], bpFrames[i + 1]);
+        const axis = getLocalHelicalAxis(bpFrames[i], bpFrames[i + 1]);
+
+        steps.push({
+            index: i,
+            name: pairs[i][0].nucleobaseType + pairs[i + 1][0].nucleobaseType + "/" +
+                pairs[i + 1][1].nucleobaseType + pairs[i][1].nucleobaseType,
+            shift: p[0],
+            slide: p[1],
+            rise: p[2],
+            tilt: p[3],
+            roll: p[4],
+            twist: p[5],
+            axisBend: lastAxis ? MathUtils.radToDeg(lastAxis.angleTo(axis)) : null
+        });
+
+        lastAxis = axis;
+    }
+
+    const bb1 = pairs.map(p => p[0].backboneCenter);
+    const bb2 = pairs.map(p => p[1].backboneCenter);
+
+    for (let i = MAX_GROOVE_OFFSET; i < pairs.length - MAX_GROOVE_OFFSET; ++i) {
+        // In a right-handed double helix, the minor groove lies between the backbone of the first strand
+        // going in the 3' direction and the backbone of the second strand going in its 5' direction
+        basePairs[i].minorGrooveWidth = getGrooveWidth(bb1, bb2, i, 1);
+        basePairs[i].majorGrooveWidth = getGrooveWidth(bb1, bb2, i, -1);
+    }
+
+    return {
+        strandName: strand.name,
+        complementaryStrandName: complStrand.name,
+        basePairs: basePairs,
+        steps: steps
+    };
+}
+
+/**
+ * @returns reference frame of the nucleotide's base in the 3DNA convention w.r.t. the first strand of the helix,
+ * i.e., with the y-axis pointing towards its backbone and the z-axis in its 5' to 3' direction.
+ * The frame of a base of the second strand is flipped (rotated by 180 degrees around the x-axis).
+ */
+function getBaseFrame(nt: CgNucleotideProxy, firstStrand: CgNucleicAcidStrand, isFlipped: boolean): ReferenceFrame {
+    const refStructure = NucleicAcidStructuresProvider.nucleicAcidStructures.get(firstStrand.naType)!.get(nt.nucleobaseType)!;
+    const baseNormal = nt.baseNormal.clone().normalize();
+    const hydrogenFaceDir = nt.hydrogenFaceDir.clone().projectOnPlane(baseNormal).normalize();
+    const baseShortAxis = hydrogenFaceDir.clone().cross(baseNormal);
+
+    const origin = nt.nucleobaseCenter
+        .sub(baseShortAxis.clone().multiplyScalar(refStructure.originToBaseCenter.x))
+        .sub(hydrogenFaceDir.clone().multiplyScalar(refStructure.originToBaseCenter.y))
+        .sub(baseNormal.clone().multiplyScalar(refStructure.originToBaseCenter.z));
+
+    return {
+        origin: origin,
+        x: baseShortAxis.negate(),
+        y: isFlipped ? hydrogenFaceDir : hydrogenFaceDir.negate(),
+        z: isFlipped ? baseNormal.negate() : baseNormal
+    };
+}
+
+/**
+ * Computes the parameters of the rigid-body transformation between two reference frames
+ * and their middle frame in the same way as 3DNA (El Hassan & Calladine, 1995),
+ * i.e., the frames are first rotated around their hinge axis to make their z-axes parallel.
+ *
+ * @returns [shift, slide, rise, tilt, roll, twist] (or the corresponding base-pair parameters) and the middle frame
+ */
+function computeStepParameters(f1: ReferenceFrame, f2: ReferenceFrame): [number[], ReferenceFrame] {
+    const gamma = f1.z.angleTo(f2.z);
+    let hinge = f1.z.clone().cross(f2.z);
+
+    if (hinge.lengthSq() < 1e-12) {
+        // Parallel z-axes, the hinge axis may be arbitrary
+        hinge = f1.y.clone();
+    }
+    hinge.normalize();
+
+    const y1 = f1.y.clone().applyAxisAngle(hinge, gamma * 0.5);
+    const y2 = f2.y.clone().applyAxisAngle(hinge, -gamma * 0.5);
+
+    const mz = f1.z.clone().applyAxisAngle(hinge, gamma * 0.5).normalize();
+    const my = y1.clone().add(y2).normalize();
+    const mx = my.clone().cross(mz).normalize();
+
+    const twist = signedAngle(y1, y2, mz);
+    const phase = signedAngle(hinge, my, mz);
+    const d = f2.origin.clone().sub(f1.origin);
+
+    const params = [
+        d.dot(mx),
+        d.dot(my),
+        d.dot(mz),
+        MathUtils.radToDeg(gamma * Math.sin(phase)),
+        MathUtils.radToDeg(gamma * Math.cos(phase)),
+        MathUtils.radToDeg(twist)
+    ];
+
+    return [params, {
+        origin: f1.origin.clone().add(f2.origin).multiplyScalar(0.5),
+        x: mx,
+        y: my,
+        z: mz
+    }];
+}
+
+/**
+ * @returns local helical axis of the step between the given base-pair frames (3DNA definition)
+ */
+function getLocalHelicalAxis(f1: ReferenceFrame, f2: ReferenceFrame): Vector3 {
+    const axis = f2.x.clone().sub(f1.x).cross(f2.y.clone().sub(f1.y));
+    const meanZ = f1.z.clone().add(f2.z);
+
+    if (axis.lengthSq() < 1e-12) {
+        return meanZ.normalize();
+    }
+
+    return axis.dot(meanZ) < 0 ? axis.negate().normalize() : axis.normalize();
+}
+
+/**
+ * @returns the shortest distance between the backbones of the two strands around the given base-pair,
+ * on the side of the base-pair given by the direction (1 for the 3' direction of the first strand, -1 for the 5' one),
+ * reduced by the phosphate diameter
+ */
+function getGrooveWidth(bb1: Vector3[], bb2: Vector3[], bpIdx: number, dir: number): number {
+    let minDist = Infinity;
+    for (let a = 1; a <= MAX_GROOVE_OFFSET; ++a) {
+        for (let b = Math.max(1, a - 1); b <= Math.min(MAX_GROOVE_OFFSET, a + 1); ++b) {
+            minDist = Math.min(minDist, bb1[bpIdx + a * dir].distanceTo(bb2[bpIdx - b * dir]));
+        }
+    }
+    return minDist - PHOSPHATE_DIAMETER;
+}
+
+function signedAngle(a: Vector3, b: Vector3, axis: Vector3): number {
+    return Math.atan2(a.clone().cross(b).dot(axis), a.dot(b));
+}
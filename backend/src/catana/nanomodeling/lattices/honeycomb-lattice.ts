@@ -16,6 +16,11 @@ export class HoneycombLattice extends Lattice {
         return LatticeType.HONEYCOMB;
     }
 
+    public get basePairsPerTurn(): number {
+        // 21 base-pairs per 2 turns
+        return 10.5;
+    }
+
     protected get hoffset(): number {
         return this._hoffset;
     }
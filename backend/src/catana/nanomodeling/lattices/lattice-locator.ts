@@ -0,0 +1,151 @@
+import { Vector3 } from "three";
+import { CatanaState } from "../../actions/catana-state";
+import Lattice from "./lattice";
+
+/**
+ * Position of a nucleotide expressed in lattice coordinates
+ */
+export interface LatticeLocation {
+    row: number,
+    col: number,
+    /**
+     * Base position along the lattice normal (counted in base-pair steps from the lattice plane)
+     */
+    depth: number,
+    /**
+     * True if the nucleotide's strand runs in the direction of the lattice normal
+     */
+    isFiveToThree: boolean
+}
+
+/**
+ * Maps nucleotides to the cells of a lattice and to base positions along the lattice normal.
+ * Lattice cells are hashed by their in-plane coordinates to speed up the look-up.
+ */
+export default class LatticeLocator {
+    /**
+     * Maximal distance (relative to the cell diameter) of a nucleobase center from the cell center
+     */
+    private static readonly cellTolerance = 0.5;
+    /**
+     * Maximal distance (in base-pair steps) of a nucleotide from the closest base position
+     */
+    private static readonly depthTolerance = 0.25;
+    /**
+     * Minimal cosine of the angle between the base normal and the lattice normal
+     */
+    private static readonly normalTolerance = 0.7;
+
+    private readonly _cellHash = new Map<string, [number, number, Vector3][]>();
+    private readonly _normal: Vector3;
+    private readonly _colAxis: Vector3;
+    private readonly _rowAxis: Vector3;
+    private readonly _origin: Vector3;
+    private readonly _rise: number;
+    private readonly _cellDiameter: number;
+
+    private _lastFailureReason: string = "";
+
+    /**
+     * @param lattice lattice to which the nucleotides are mapped
+     */
+    public constructor(lattice: Lattice) {
+        this._normal = lattice.getNormal();
+        this._colAxis = lattice.getColumnAxis();
+        this._rowAxis = lattice.getRowAxis();
+        this._origin = lattice.getPosition(0, 0);
+        this._rise = CatanaState.dnaFactory.dnaForm.defaultBaseParams.baseRise;
+        this._cellDiameter = lattice.cellDiameter;
+
+        for (let row = 0; row < lattice.height; ++row) {
+            for (let col = 0; col < lattice.width; ++col) {
+                const pos = lattice.getPosition(row, col);
+                const rel = pos.clone().sub(this._origin);
+                const key = this.hashKey(Math.floor(rel.dot(this._colAxis) / this._cellDiameter),
+                    Math.floor(rel.dot(this._rowAxis) / this._cellDiameter));
+
+                if (!this._cellHash.has(key)) {
+                    this._cellHash.set(key, []);
+                }
+                this._cellHash.get(key)!.push([row, col, pos]);
+            }
+        }
+    }
+
+    /**
+     * Reason why the last call of {@link LatticeLocator.locate} failed
+     */
+    public get lastFailureReason(): string {
+        return this._lastFailureReason;
+    }
+
+    /**
+     * @param nucleobaseCenter nucleobase center (in world coordinates)
+     * @param baseNormal base normal (in world coordinates)
+     * @returns lattice location of the nucleotide, or null if it is not aligned with the lattice
+     * (see {@link LatticeLocator.lastFailureReason})
+     */
+    public locate(nucleobaseCenter: Vector3, baseNormal: Vector3): LatticeLocation | null {
+        const normalDot = baseNormal.clone().normalize().dot(this._normal);
+        const cell = this.findCell(nucleobaseCenter);
+
+        if (Math.abs(normalDot) < LatticeLocator.normalTolerance) {
+            this._lastFailureReason = "is not parallel to the lattice normal";
+            return null;
+        } else if (!cell) {
+            this._lastFailureReason = "is not located in any lattice cell";
+            return null;
+        }
+
+        const depth = nucleobaseCenter.clone().sub(cell[2]).dot(this._normal) / this._rise;
+        const roundedDepth = Math.round(depth);
+
+        if (Math.abs(depth - roundedDepth) > LatticeLocator.depthTolerance) {
+            this._lastFailureReason = "does not lie at a lattice base position";
+            return null;
+        }
+
+        return {
+            row: cell[0],
+            col: cell[1],
+            depth: roundedDepth,
+            isFiveToThree: normalDot > 0
+        };
+    }
+
+    /**
+     * @param position position (in world coordinates)
+     * @returns row and column of the lattice cell containing the position (regardless of its depth),
+     * or null if there is no such cell
+     */
+    public locateCell(position: Vector3): { row: number, col: number } | null {
+        const cell = this.findCell(position);
+        return cell ? { row: cell[0], col: cell[1] } : null;
+    }
+
+    private findCell(pos: Vector3): [number, number, Vector3] | undefined {
+        const rel = pos.clone().sub(this._origin);
+        const x = Math.floor(rel.dot(this._colAxis) / this._cellDiameter);
+        const y = Math.floor(rel.dot(this._rowAxis) / this._cellDiameter);
+        let closest: [number, number, Vector3] | undefined = undefined;
+        let closestDist = LatticeLocator.cellTolerance * this._cellDiameter;
+
+        for (let i = -1; i <= 1; ++i) {
+            for (let j = -1; j <= 1; ++j) {
+                this._cellHash.get(this.hashKey(x + i, y + j))?.forEach(cell => {
+                    const dist = pos.clone().sub(cell[2]).projectOnPlane(this._normal).length();
+                    if (dist < closestDist) {
+                        closest = cell;
+                        closestDist = dist;
+                    }
+                });
+            }
+        }
+
+        return closest;
+    }
+
+    private hashKey(x: number, y: number): string {
+        return x + ":" + y;
+    }
+}
@@ -44,6 +44,12 @@ export abstract class Lattice {
     protected abstract getY(rowIndex: number, colIndex: number): number;
     public abstract resizeFromLengths(widthLength: number, heightLength: number): void;
     public abstract get latticeType(): LatticeType;
+
+    /**
+     * Number of base-pairs per helical turn for which the crossover positions
+     * between neighbouring cells of this lattice are designed
+     */
+    public abstract get basePairsPerTurn(): number;
     
     protected getZ(depth: number): number {
         return CatanaState.dnaFactory.dnaForm.defaultBaseParams.baseRise * depth;
@@ -209,6 +215,13 @@ export abstract class Lattice {
     public get cellDiameter(): number {
         return this._cellDiameter;
     }
+
+    /**
+     * @returns transformation of the lattice (applied before the transformation of its parent component)
+     */
+    public get matrix(): Matrix4 {
+        return this._matrix;
+    }
 }
 
 export default Lattice;
\ No newline at end of file
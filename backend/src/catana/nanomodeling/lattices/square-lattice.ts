@@ -4,6 +4,11 @@ export class SquareLattice extends Lattice {
     public get latticeType(): LatticeType {
         return LatticeType.SQUARE;
     }
+
+    public get basePairsPerTurn(): number {
+        // 32 base-pairs per 3 turns
+        return 32 / 3;
+    }
     
     protected getX(rowIndex: number, colIndex: number): number {
         return colIndex * this.cellDiameter;
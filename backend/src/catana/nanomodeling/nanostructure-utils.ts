@@ -0,0 +1,71 @@
+import { Vector3 } from "three";
+import CgStructure from "../data_model/cg-structure";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
+import { NucleicAcidType } from "../data_model/types_declarations/polymer-types";
+import { NucleobaseType } from "../data_model/types_declarations/monomer-types";
+import { CatanaState } from "../actions/catana-state";
+
+/**
+ * Creates a function returning the angle of the backbone of a probe nucleotide
+ * (built at depth zero with zero initial twist) around the helical axis.
+ * Generators of nanostructures subtract this angle from the desired backbone angle
+ * to get the initial twist of the nucleotides they build.
+ * The angles are computed once for each strand direction and nucleobase type.
+ *
+ * @param buildProbe builds the probe nucleotide (of the given direction and type) into the given strand
+ * @param getAngle computes the angle from the backbone center of the probe nucleotide
+ * @returns function computing the angle for the given strand direction and nucleobase type
+ */
+export function createProbeAngleGetter(
+    buildProbe: (isFiveToThree: boolean, nbType: NucleobaseType, probe: CgNucleicAcidStrand) => CgNucleotideProxy,
+    getAngle: (backboneCenter: Vector3) => number): (isFiveToThree: boolean, nbType: NucleobaseType) => number {
+    const cache = new Map<string, number>();
+
+    return (isFiveToThree: boolean, nbType: NucleobaseType) => {
+        const key = isFiveToThree + nbType;
+        let angle = cache.get(key);
+        if (angle === undefined) {
+            const probe = new CgNucleicAcidStrand(-1, "probe", NucleicAcidType.DNA, undefined, 1);
+            angle = getAngle(buildProbe(isFiveToThree, nbType, probe).backboneCenter);
+            probe.dispose();
+            cache.set(key, angle);
+        }
+        return angle;
+    };
+}
+
+/**
+ * Builds a strand (a staple domain) complementary to the given scaffold nucleotides.
+ * The domain is not added to the structure, staples are assembled
+ * from parts of the domains using {@link copyDomainNucleotides}.
+ *
+ * @param scaffold scaffold strand
+ * @param scaffoldIndices indices of the scaffold nucleotides in the 5' to 3' order of the domain
+ * @param structure structure the staples will belong to
+ * @returns domain strand
+ */
+export function buildComplementaryDomain(scaffold: CgNucleicAcidStrand, scaffoldIndices: number[],
+    structure: CgStructure | undefined): CgNucleicAcidStrand {
+    const domain = new CgNucleicAcidStrand(-1, "staple-domain", scaffold.naType, structure, scaffoldIndices.length);
+
+    scaffoldIndices.forEach((scaffoldIdx, i) => {
+        CatanaState.dnaFactory.buildComplementaryNucleotide(scaffold.getNucleotideProxy(scaffoldIdx)!, scaffold, domain, i);
+    });
+
+    return domain;
+}
+
+/**
+ * Appends the given part of the domain (see {@link buildComplementaryDomain}) to the 3' end of the staple.
+ * Domains must not be disposed once their nucleotides are copied as disposing them
+ * would remove the base-pairs of the scaffold.
+ *
+ * @param staple staple strand
+ * @param domain domain strand
+ * @param from index of the first copied nucleotide of the domain
+ * @param count number of copied nucleotides
+ */
+export function copyDomainNucleotides(staple: CgNucleicAcidStrand, domain: CgNucleicAcidStrand, from: number, count: number): void {
+    staple.insertFrom(domain, staple.length, from, count);
+}
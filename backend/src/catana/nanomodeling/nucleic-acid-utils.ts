@@ -13,7 +13,7 @@ import { Log } from "../../globals";
 /**
  * Multiplier to use when converting from oxDNA units to Angstroms
  */
-const oxDnaUnitsToAngst = 8.518;
+export const oxDnaUnitsToAngst = 8.518;
 
 /**
  * Computes the normal of the base plane (follows the computation described in the UNF format documentation).
@@ -222,6 +222,39 @@ export function computeHelicalAxis(srcNt: CgNucleotideProxy): Vector3 {
     return srcNt.baseNormal.clone();
 }
 
+/**
+ * Computes the nucleobase center of an oxDNA nucleotide in the oxDNA geometry (as used by oxView)
+ *
+ * @param position center of mass (oxDNA units)
+ * @param a1 vector pointing from the backbone towards the nucleobase
+ * @returns nucleobase center in Angstroms
+ */
+export function getOxDnaNucleobaseCenter(position: ArrayLike<number>, a1: ArrayLike<number>): Vector3 {
+    return new Vector3().fromArray(position as number[])
+        .add(new Vector3().fromArray(a1 as number[]).normalize().multiplyScalar(0.4))
+        .multiplyScalar(oxDnaUnitsToAngst);
+}
+
+/**
+ * Computes the backbone center of an oxDNA nucleotide in the oxDNA geometry (as used by oxView)
+ *
+ * @param position center of mass (oxDNA units)
+ * @param a1 vector pointing from the backbone towards the nucleobase
+ * @param a3 vector normal to the nucleobase plane
+ * @param naType type of the nucleic acid (oxRNA uses different offsets)
+ * @returns backbone center in Angstroms
+ */
+export function getOxDnaBackboneCenter(position: ArrayLike<number>, a1: ArrayLike<number>, a3: ArrayLike<number>,
+    naType: NucleicAcidType): Vector3 {
+    const a1Vec = new Vector3().fromArray(a1 as number[]).normalize();
+    const a3Vec = new Vector3().fromArray(a3 as number[]).normalize();
+    const offset = naType === NucleicAcidType.DNA ?
+        a1Vec.clone().multiplyScalar(-0.34).add(a3Vec.clone().cross(a1Vec).multiplyScalar(0.3408)) :
+        a1Vec.clone().multiplyScalar(-0.4).add(a3Vec.clone().multiplyScalar(0.2));
+
+    return new Vector3().fromArray(position as number[]).add(offset).multiplyScalar(oxDnaUnitsToAngst);
+}
+
 /**
  * Returns boolean determining whether the provided structure is stored in oxDNA geometry or not.
  * The information is deduced from the properties of the (D)(R)NA geometry. 
@@ -341,12 +374,16 @@ function transformNucleotideCentroidsToOxDna(nucl: CgNucleotideProxy, naType: Nu
  * @remark This method may result in positional inaccuracies and is expected to be called only once for the given structure. 
  * 
  * @param cgStructure structure to be transformed
+ * @param detectBasePairs if false, the existing base-pairs are used instead of detecting new ones
+ *  (useful when converting consecutive configurations of one structure)
  */
-export function transformStructureFromOxDnaGeometry(cgStructure: CgStructure): void {
-    Log.info("Converting from oxDNA geometry and detecting base-pairs ...");
+export function transformStructureFromOxDnaGeometry(cgStructure: CgStructure, detectBasePairs: boolean = true): void {
+    if (detectBasePairs) {
+        Log.info("Converting from oxDNA geometry and detecting base-pairs ...");
 
-    // We will need base-pair information for the transformation procedure
-    cgStructure.generateBasePairs();
+        // We will need base-pair information for the transformation procedure
+        cgStructure.generateBasePairs();
+    }
 
     cgStructure.forEachNaStrand(transformStrandFromOxDnaGeometry);
 }
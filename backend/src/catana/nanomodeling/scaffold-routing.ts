@@ -0,0 +1,285 @@
+import { Vector3 } from "three";
+import { CatanaState } from "../actions/catana-state";
+import CgStructure from "../data_model/cg-structure";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import { NucleicAcidType } from "../data_model/types_declarations/polymer-types";
+import GlobalIdGenerator from "../utils/global-id-generator";
+import Lattice from "./lattices/lattice";
+import { createProbeAngleGetter } from "./nanostructure-utils";
+
+/**
+ * Cell of a lattice identified by its row and column
+ */
+export interface LatticeCell {
+    row: number,
+    col: number
+}
+
+/**
+ * Parameters of the scaffold routing generation
+ */
+export interface ScaffoldRoutingParameters {
+    /**
+     * Length of the helices (in base-pairs). The helices may be shortened by less than one helical turn
+     * at their ends so that the scaffold crossovers are placed at phase-correct positions.
+     */
+    helixLength: number,
+    /**
+     * If true, the scaffold is cyclic (the last helix is connected back to the first one)
+     */
+    isCircular: boolean,
+    /**
+     * Length of the scaffold sequence intended for the design (used only to report the unused or missing bases)
+     */
+    scaffoldLength: number,
+    /**
+     * Name of the generated structure
+     */
+    name: string
+}
+
+/**
+ * Outcome of the scaffold routing generation
+ */
+export interface ScaffoldRoutingResult {
+    /**
+     * Structure containing the generated scaffold (null if the routing failed)
+     */
+    structure: CgStructure | null,
+    /**
+     * Generated scaffold strand (null if the routing failed)
+     */
+    scaffold: CgNucleicAcidStrand | null,
+    /**
+     * Lattice cells in the order in which the scaffold goes through them
+     */
+    cells: LatticeCell[],
+    /**
+     * Number of scaffold crossovers
+     */
+    crossoverCount: number,
+    /**
+     * Number of bases of the scaffold sequence left unused by the routing
+     */
+    unusedBases: number,
+    /**
+     * Number of scaffold nucleotides exceeding the length of the scaffold sequence
+     */
+    missingBases: number,
+    /**
+     * Reason of the failure (if the routing failed)
+     */
+    error?: string
+}
+
+/**
+ * Maximal number of steps of the search for the helix order
+ */
+const MAX_ROUTE_SEARCH_STEPS = 100000;
+
+/**
+ * Generates a continuous scaffold going through the given lattice cells.
+ * The scaffold snakes through the helices (alternating their direction) in an order in which consecutive
+ * helices are neighbours in the lattice. The cells are visited in the given order if possible,
+ * otherwise a different order is searched for.
+ *
+ * Each helix is twisted so that the scaffold backbones of neighbouring helices point towards each other
+ * every helical turn (10.5 base-pairs for the honeycomb lattice and 10.67 for the square one).
+ * Scaffold crossovers are then placed at such a position within the last turn of each helix.
+ *
+ * @param lattice lattice containing the cells
+ * @param cells cells to route the scaffold through
+ * @param params generation parameters
+ * @returns new structure with the scaffold and statistics of the routing
+ */
+export function generateScaffoldRouting(lattice: Lattice, cells: LatticeCell[],
+    params: Partial<ScaffoldRoutingParameters> = {}): ScaffoldRoutingResult {
+    const helixLength = Math.round(params.helixLength ?? 64);
+    const isCircular = params.isCircular ?? true;
+    const turnLength = Math.ceil(lattice.basePairsPerTurn);
+
+    const result: ScaffoldRoutingResult = {
+        structure: null,
+        scaffold: null,
+        cells: [],
+        crossoverCount: 0,
+        unusedBases: 0,
+        missingBases: 0
+    };
+
+    const uniqueCells = cells.filter((c, i) => cells.findIndex(o => o.row === c.row && o.col === c.col) === i);
+
+    if (uniqueCells.length === 0 || (isCircular && uniqueCells.length < 2)) {
+        result.error = "At least " + (isCircular ? 2 : 1) + " lattice cells must be selected.";
+        return result;
+    } else if (helixLength < 2 * turnLength) {
+        result.error = "Helix length must be at least " + (2 * turnLength) + " base-pairs.";
+        return result;
+    }
+
+    const route = findRoute(lattice, uniqueCells, isCircular);
+    if (!route) {
+        result.error = "Selected cells cannot be connected by a " + (isCircular ? "cyclic" : "continuous") + " scaffold path.";
+        return result;
+    }
+
+    result.cells = route;
+
+    const normal = lattice.getNormal();
+    const colAxis = lattice.getColumnAxis();
+    const rowAxis = normal.clone().cross(colAxis);
+    const planeAngle = (v: Vector3) => Math.atan2(v.dot(rowAxis), v.dot(colAxis));
+    const wrapAngle = (a: number) => Math.atan2(Math.sin(a), Math.cos(a));
+    const twist = 2 * Math.PI / lattice.basePairsPerTurn;
+
+    // Scaffold backbone of the forward helices points in the direction of the column axis at depth zero,
+    // the one of the reverse helices in the opposite direction, i.e., neighbouring backbones face each other
+    // every helical turn. Helices going in the direction of the lattice normal are the ones with even index.
+    const backboneAngle = (helixIdx: number, depth: number) => (helixIdx % 2 === 0 ? 0 : Math.PI) + depth * twist;
+
+    const crossoverDepth = (helixIdx: number): number => {
+        const from = route[helixIdx];
+        const to = route[(helixIdx + 1) % route.length];
+        const target = planeAngle(lattice.getPosition(to.row, to.col).sub(lattice.getPosition(from.row, from.col)));
+        const isForward = helixIdx % 2 === 0;
+
+        let best = isForward ? helixLength - 1 : 0;
+        let bestDev = Infinity;
+        for (let i = 0; i < turnLength; ++i) {
+            const depth = isForward ? helixLength - 1 - i : i;
+            const dev = Math.abs(wrapAngle(backboneAngle(helixIdx, depth) - target));
+            if (dev < bestDev - 1e-6) {
+                bestDev = dev;
+                best = depth;
+            }
+        }
+        return best;
+    };
+
+    const crossovers = route.map((c, i) => (isCircular || i < route.length - 1) ? crossoverDepth(i) : -1);
+    result.crossoverCount = crossovers.filter(d => d >= 0).length;
+
+    const structure = new CgStructure(GlobalIdGenerator.generateId(), params.name ?? "Scaffold");
+    const scaffold = new CgNucleicAcidStrand(GlobalIdGenerator.generateId(), structure.generateChainName(),
+        NucleicAcidType.DNA, structure, route.length * helixLength);
+    scaffold.isScaffold = true;
+    scaffold.isCircular = isCircular;
+
+    const baseTwist = 360 / lattice.basePairsPerTurn;
+    const seqProv = CatanaState.dnaFactory.sequenceProvider;
+    const getProbeAngle = createProbeAngleGetter(
+        (isFiveToThree, nbType, probe) => CatanaState.dnaFactory.buildLatticeNucleotide(lattice, 0, 0, 0, 0,
+            isFiveToThree, nbType, probe, -1, baseTwist),
+        backbone => planeAngle(backbone.sub(lattice.getPosition(0, 0))));
+
+    route.forEach((cell, i) => {
+        const isForward = i % 2 === 0;
+        const start = i > 0 ? crossovers[i - 1] : (isCircular ? crossovers[route.length - 1] : 0);
+        const end = crossovers[i] >= 0 ? crossovers[i] : (isForward ? helixLength - 1 : 0);
+        const step = isForward ? 1 : -1;
+
+        for (let depth = start; depth !== end + step; depth += step) {
+            const nbType = seqProv.getNext();
+            const initialTwist = backboneAngle(i, 0) - getProbeAngle(isForward, nbType);
+            CatanaState.dnaFactory.buildLatticeNucleotide(lattice, cell.row, cell.col, depth, initialTwist,
+                isForward, nbType, scaffold, undefined, baseTwist);
+        }
+    });
+
+    structure.addNaStrand(scaffold);
+
+    result.structure = structure;
+    result.scaffold = scaffold;
+
+    if (params.scaffoldLength !== undefined) {
+        result.unusedBases = Math.max(0, params.scaffoldLength - scaffold.length);
+        result.missingBases = Math.max(0, scaffold.length - params.scaffoldLength);
+    }
+
+    return result;
+}
+
+/**
+ * @returns human-readable summary of the routing outcome
+ */
+export function getScaffoldRoutingSummary(result: ScaffoldRoutingResult): string {
+    if (!result.scaffold) {
+        return "Scaffold routing failed: " + result.error;
+    }
+
+    let summary = "Scaffold of " + result.scaffold.length + " nt routed through " + result.cells.length +
+        " helices with " + result.crossoverCount + " crossovers.";
+    if (result.unusedBases > 0) {
+        summary += " " + result.unusedBases + " bases of the scaffold sequence are left unused.";
+    } else if (result.missingBases > 0) {
+        summary += " Scaffold sequence is " + result.missingBases + " bases short.";
+    }
+    return summary;
+}
+
+/**
+ * Finds an order of the cells in which the consecutive cells are neighbours in the lattice
+ * (depth-first search preferring the given order of the cells).
+ *
+ * @returns ordered cells or null if there is no such order
+ */
+function findRoute(lattice: Lattice, cells: LatticeCell[], isCircular: boolean): LatticeCell[] | null {
+    if (cells.length === 0 || (isCircular && cells.length % 2 !== 0)) {
+        // Helices of a cyclic scaffold alternate their direction, so their number must be even
+        return null;
+    }
+
+    const positions = cells.map(c => lattice.getPosition(c.row, c.col, 0, false));
+    const neighbours = cells.map((c, i) => cells.map((o, j) => j)
+        .filter(j => j !== i && Math.abs(positions[i].distanceTo(positions[j]) - lattice.cellDiameter) < 0.1 * lattice.cellDiameter));
+
+    const order: number[] = [];
+    const visited = new Set<number>();
+    let steps = 0;
+
+    const search = (): boolean => {
+        if (++steps > MAX_ROUTE_SEARCH_STEPS) {
+            return false;
+        }
+
+        const last = order[order.length - 1];
+        if (order.length === cells.length) {
+            return !isCircular || neighbours[last].indexOf(order[0]) >= 0;
+        }
+
+        // Cells following in the given order are tried first, the others are ordered by the number of their free neighbours
+        const candidates = neighbours[last].filter(j => !visited.has(j)).sort((a, b) => {
+            if (a === last + 1 || b === last + 1) {
+                return a === last + 1 ? -1 : 1;
+            }
+            const freeA = neighbours[a].filter(j => !visited.has(j)).length;
+            const freeB = neighbours[b].filter(j => !visited.has(j)).length;
+            return freeA !== freeB ? freeA - freeB : a - b;
+        });
+
+        for (const next of candidates) {
+            order.push(next);
+            visited.add(next);
+            if (search()) {
+                return true;
+            }
+            order.pop();
+            visited.delete(next);
+        }
+
+        return false;
+    };
+
+    // Cyclic route can start anywhere, linear one is searched for starting from each of the cells
+    for (let start = 0; start < (isCircular ? 1 : cells.length); ++start) {
+        order.push(start);
+        visited.add(start);
+        if (search()) {
+            return order.map(i => cells[i]);
+        }
+        order.pop();
+        visited.delete(start);
+    }
+
+    return null;
+}
@@ -0,0 +1,169 @@
+import type CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import type CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
+import { getComplementaryBase, NucleobaseType, oneLetterCodeToNucleobaseType } from "../data_model/types_declarations/monomer-types";
+import { NucleicAcidType } from "../data_model/types_declarations/polymer-types";
+
+/**
+ * Scaffold sequence available in Catana
+ */
+export interface ScaffoldSequenceRecord {
+    name: string,
+    description: string,
+    length: number,
+    /**
+     * Path to the FASTA file containing the sequence
+     */
+    path: string
+}
+
+/**
+ * Scaffold sequences provided together with Catana builds.
+ * A record is listed only if its FASTA file is shipped in catana_data/scaffolds.
+ */
+export const BuiltInScaffolds: ScaffoldSequenceRecord[] = [];
+
+/**
+ * Parameters of the scaffold sequence assignment
+ */
+export interface ScaffoldSequenceParameters {
+    /**
+     * Index (counted from the 5' end) of the scaffold nucleotide receiving the first base of the sequence.
+     * The sequence continues towards the 3' end and, after reaching it, from the 5' end.
+     */
+    startIndex: number,
+    /**
+     * Base assigned to the scaffold nucleotides not covered by the sequence
+     * and to the staple nucleotides without a scaffold counterpart
+     */
+    fillerBase: NucleobaseType
+}
+
+/**
+ * Outcome of the scaffold sequence assignment
+ */
+export interface ScaffoldSequenceResult {
+    /**
+     * Number of scaffold nucleotides which received the filler base as the sequence was too short
+     */
+    scaffoldFilled: number,
+    /**
+     * Number of sequence bases not used as the scaffold was too short
+     */
+    sequenceUnused: number,
+    /**
+     * Number of staple strands paired with the scaffold
+     */
+    staplesCount: number,
+    /**
+     * Number of unpaired staple nucleotides which received the filler base
+     */
+    staplesFilled: number
+}
+
+/**
+ * Parses the content of a FASTA file containing one nucleic acid sequence.
+ * Header (">") and comment (";") lines and whitespace are ignored.
+ */
+export function parseFastaSequence(text: string): NucleobaseType[] {
+    return text.split(/\r?\n/)
+        .filter(line => !line.startsWith(">") && !line.startsWith(";"))
+        .join("")
+        .replace(/\s/g, "")
+        .split("")
+        .map(c => oneLetterCodeToNucleobaseType(c));
+}
+
+/**
+ * @returns built-in scaffold with the given name (case insensitive), undefined if there is none
+ */
+export function getBuiltInScaffold(name: string): ScaffoldSequenceRecord | undefined {
+    return BuiltInScaffolds.find(s => s.name.toLowerCase() === name.toLowerCase());
+}
+
+/**
+ * Checks the sequence loaded for a built-in scaffold, i.e., that it has the expected length
+ * and consists of the four DNA bases only.
+ *
+ * @throws Throws an error describing the problem if the sequence is not valid
+ */
+export function validateBuiltInScaffoldSequence(scaffold: ScaffoldSequenceRecord, sequence: NucleobaseType[]): void {
+    if (sequence.length !== scaffold.length) {
+        throw new Error("Scaffold " + scaffold.name + " has " + sequence.length + " nt but " + scaffold.length + " nt were expected.");
+    }
+
+    const invalidIdx = sequence.findIndex(nb => nb !== NucleobaseType.A && nb !== NucleobaseType.C &&
+        nb !== NucleobaseType.G && nb !== NucleobaseType.T);
+    if (invalidIdx >= 0) {
+        throw new Error("Scaffold " + scaffold.name + " contains an invalid base at position " + (invalidIdx + 1) + ".");
+    }
+}
+
+/**
+ * @param scaffold name of a built-in scaffold or a custom (FASTA) sequence
+ * @returns length of the scaffold sequence (without loading the built-in ones)
+ */
+export function getScaffoldSequenceLength(scaffold: string): number {
+    return getBuiltInScaffold(scaffold.trim())?.length ?? parseFastaSequence(scaffold).length;
+}
+
+/**
+ * Replaces thymine with uracil (or vice versa) so that the base matches the given nucleic acid type
+ * (e.g., when a DNA scaffold is paired with RNA staples)
+ */
+function convertThymineUracil(nbType: NucleobaseType, naType: NucleicAcidType): NucleobaseType {
+    if (naType === NucleicAcidType.DNA) {
+        return nbType === NucleobaseType.U ? NucleobaseType.T : nbType;
+    }
+    return nbType === NucleobaseType.T ? NucleobaseType.U : nbType;
+}
+
+/**
+ * Applies the sequence to the scaffold strand and propagates the complementary bases
+ * to all staple nucleotides paired with it (see {@link ScaffoldSequenceParameters} for details).
+ * Unpaired nucleotides of the staples receive the filler base.
+ *
+ * @param scaffold scaffold strand
+ * @param sequence scaffold sequence
+ * @param params assignment parameters
+ * @returns statistics of the assignment
+ */
+export function assignScaffoldSequence(scaffold: CgNucleicAcidStrand, sequence: NucleobaseType[],
+    params: Partial<ScaffoldSequenceParameters> = {}): ScaffoldSequenceResult {
+    const fillerBase = params.fillerBase ?? NucleobaseType.T;
+    const length = scaffold.length;
+    const start = length > 0 ? ((Math.round(params.startIndex ?? 0) % length) + length) % length : 0;
+
+    const staples = new Set<CgNucleicAcidStrand>();
+    let scaffoldFilled = 0;
+
+    scaffold.forEachNucleotide((nt: CgNucleotideProxy, i: number) => {
+        const seqIdx = (i - start + length) % length;
+        const nbType = seqIdx < sequence.length ? sequence[seqIdx] : fillerBase;
+        if (seqIdx >= sequence.length) {
+            ++scaffoldFilled;
+        }
+
+        nt.nucleobaseType = nbType;
+        const pair = nt.pairedNucleotide;
+        if (pair && pair.parentStrand !== scaffold) {
+            const naType = pair.parentStrand.naType;
+            pair.nucleobaseType = getComplementaryBase(convertThymineUracil(nbType, naType), naType);
+            staples.add(pair.parentStrand);
+        }
+    });
+
+    let staplesFilled = 0;
+    staples.forEach(staple => staple.forEachNucleotide((nt: CgNucleotideProxy) => {
+        if (nt.pairedNucleotide === null) {
+            nt.nucleobaseType = fillerBase;
+            ++staplesFilled;
+        }
+    }));
+
+    return {
+        scaffoldFilled: scaffoldFilled,
+        sequenceUnused: Math.max(0, sequence.length - length),
+        staplesCount: staples.size,
+        staplesFilled: staplesFilled
+    };
+}
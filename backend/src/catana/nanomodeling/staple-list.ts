@@ -0,0 +1,158 @@
+import { getGcContent } from "../utils/catana-sequence-analysis";
+
+/**
+ * Staple exported to the staple order sheet
+ */
+export interface StapleRecord {
+    name: string,
+    /**
+     * Sequence written 5' to 3' using one-letter codes
+     */
+    sequence: string,
+    /**
+     * Name of the pool the staple belongs to
+     */
+    pool: string,
+    /**
+     * Location of the 5' end (e.g., "3[45]" for the lattice cell 3, base 45), empty if it is not known
+     */
+    fivePrimeLocation: string,
+    /**
+     * Location of the 3' end, empty if it is not known
+     */
+    threePrimeLocation: string
+}
+
+/**
+ * Dimensions of the supported well plates
+ */
+export const PlateFormats = {
+    "96": { rows: 8, columns: 12 },
+    "384": { rows: 16, columns: 24 }
+};
+
+export type PlateFormat = keyof typeof PlateFormats;
+
+/**
+ * Order in which the wells of a plate are filled,
+ * i.e., A1, A2, ... ("row") or A1, B1, ... ("column")
+ */
+export type WellOrder = "row" | "column";
+
+/**
+ * Parameters of the plate/well assignment
+ */
+export interface StaplePlateParameters {
+    plateFormat: PlateFormat,
+    wellOrder: WellOrder,
+    /**
+     * If true, each pool starts on a new plate
+     */
+    newPlatePerPool: boolean
+}
+
+/**
+ * Well of a plate assigned to a staple
+ */
+export interface StapleWell {
+    /**
+     * Index of the well counted over all plates (i.e., the order in which the wells are filled)
+     */
+    index: number,
+    /**
+     * Plate number starting from 1
+     */
+    plate: number,
+    /**
+     * Well name (e.g., "A1")
+     */
+    well: string
+}
+
+const CsvHeader = ["Pool", "Plate", "Well", "Name", "Sequence", "Length", "GC content (%)", "5' end", "3' end"];
+
+/**
+ * @param index index of the well counted over all plates of the given format
+ * @param format plate format
+ * @param order order in which the wells are filled
+ * @returns plate and well corresponding to the index
+ */
+export function getStapleWell(index: number, format: PlateFormat = "96", order: WellOrder = "column"): StapleWell {
+    const dims = PlateFormats[format];
+    const perPlate = dims.rows * dims.columns;
+    const inPlate = index % perPlate;
+    const row = order === "row" ? Math.floor(inPlate / dims.columns) : inPlate % dims.rows;
+    const col = order === "row" ? inPlate % dims.columns : Math.floor(inPlate / dims.rows);
+
+    return {
+        index: index,
+        plate: Math.floor(index / perPlate) + 1,
+        well: String.fromCharCode("A".charCodeAt(0) + row) + (col + 1)
+    };
+}
+
+/**
+ * Assigns plates and wells to the staples.
+ * The staples are filled into the plates pool by pool, in the order of the first appearance of each pool.
+ *
+ * @returns wells in the same order as the given staples
+ */
+export function assignStapleWells(staples: StapleRecord[], params: Partial<StaplePlateParameters> = {}): StapleWell[] {
+    const format = params.plateFormat ?? "96";
+    const order = params.wellOrder ?? "column";
+    const perPlate = PlateFormats[format].rows * PlateFormats[format].columns;
+
+    const pools: string[] = [];
+    staples.forEach(s => {
+        if (pools.indexOf(s.pool) === -1) {
+            pools.push(s.pool);
+        }
+    });
+
+    const wells: StapleWell[] = new Array(staples.length);
+    let index = 0;
+    pools.forEach(pool => {
+        if (params.newPlatePerPool !== false && index % perPlate !== 0) {
+            index += perPlate - index % perPlate;
+        }
+        staples.forEach((s, i) => {
+            if (s.pool === pool) {
+                wells[i] = getStapleWell(index++, format, order);
+            }
+        });
+    });
+
+    return wells;
+}
+
+/**
+ * Creates the CSV staple order sheet.
+ * Rows are sorted by plates and wells (in the order in which the wells are filled).
+ */
+export function createStapleCsv(staples: StapleRecord[], params: Partial<StaplePlateParameters> = {}): string {
+    const wells = assignStapleWells(staples, params);
+    const rows = staples.map((s, i) => ({ staple: s, well: wells[i] }));
+    rows.sort((a, b) => a.well.index - b.well.index);
+
+    const lines = [CsvHeader.map(escapeCsvValue).join(",")];
+    rows.forEach(r => {
+        const s = r.staple;
+        lines.push([
+            s.pool,
+            "Plate " + r.well.plate,
+            r.well.well,
+            s.name,
+            s.sequence,
+            s.sequence.length.toString(),
+            (getGcContent(s.sequence) * 100).toFixed(1),
+            s.fivePrimeLocation,
+            s.threePrimeLocation
+        ].map(escapeCsvValue).join(","));
+    });
+
+    return lines.join("\n") + "\n";
+}
+
+export function escapeCsvValue(value: string): string {
+    return /[",\n\r]/.test(value) ? "\"" + value.replace(/"/g, "\"\"") + "\"" : value;
+}
@@ -4,7 +4,7 @@ import { exportFilteringAsNewStructure, transformAtoms } from "../../../structur
 import { SpecificDnaNucleobaseType, nucleobaseTypeToPdbResidueCode, NucleobaseType, SpecificRnaNucleobaseType, isPurineNucleobase } from "../../data_model/types_declarations/monomer-types";
 import { computeBaseNormal, computeBaseShortAxis, computeBaseHydrogenFaceDir } from "../nucleic-acid-utils";
 import { NucleicAcidType } from "../../data_model/types_declarations/polymer-types";
-import { Filter } from "../../../catana";
+import Filter from "../../../filtering/filter";
 
 import dtdaPdbString from "./pdb_structures/deoxyribonucleotides/DTDA.pdb";
 import dcdgPdbString from "./pdb_structures/deoxyribonucleotides/DCDG.pdb";
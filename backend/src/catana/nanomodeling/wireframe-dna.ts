@@ -0,0 +1,648 @@
+import { Vector3 } from "three";
+import { CatanaState } from "../actions/catana-state";
+import CgStructure from "../data_model/cg-structure";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import { NucleicAcidType } from "../data_model/types_declarations/polymer-types";
+import { NucleobaseType } from "../data_model/types_declarations/monomer-types";
+import GlobalIdGenerator from "../utils/global-id-generator";
+import NucleicAcidStructuresProvider from "./structure-providers/nucleic-acid-structures-provider";
+import { buildComplementaryDomain, copyDomainNucleotides, createProbeAngleGetter } from "./nanostructure-utils";
+
+/**
+ * Triangle mesh to convert (e.g., the surface of a SurfaceComponent).
+ * If no index is provided, every three consecutive positions form a triangle.
+ */
+export interface WireframeMesh {
+    position: ArrayLike<number>,
+    index?: ArrayLike<number>
+}
+
+/**
+ * Parameters of the wireframe DNA generation
+ */
+export interface WireframeDnaParameters {
+    /**
+     * Scale (Angstroms per mesh unit) applied to the mesh. If not provided, the mesh is scaled
+     * so that the shortest edge gets the minimal number of helical turns.
+     */
+    scale: number,
+    /**
+     * Minimal length of the edges (in helical turns)
+     */
+    minEdgeTurns: number,
+    /**
+     * Number of base-pairs per helical turn used to round the edge lengths
+     */
+    basePairsPerTurn: number,
+    /**
+     * Distance between the axes of the two helices of each edge (in Angstroms)
+     */
+    helixDistance: number,
+    /**
+     * Minimal number of unpaired nucleotides (poly-T) linking the staples across the vertices
+     */
+    minVertexLinker: number,
+    /**
+     * Staples longer than this length are broken once more in the middle of their vertex domain
+     */
+    maxStapleLength: number,
+    /**
+     * If true, the edges shared by two coplanar triangles are removed. This recovers the polygonal faces
+     * of triangulated meshes (e.g., quads of OBJ files) but removes also the edges of planar tilings.
+     */
+    mergeCoplanarFaces: boolean,
+    /**
+     * Length of the scaffold sequence intended for the design (used only to report the unused or missing bases)
+     */
+    scaffoldLength: number,
+    /**
+     * Name of the generated structure
+     */
+    name: string
+}
+
+/**
+ * Outcome of the wireframe DNA generation
+ */
+export interface WireframeDnaResult {
+    /**
+     * Structure containing the scaffold and the staples (null if the generation failed)
+     */
+    structure: CgStructure | null,
+    /**
+     * Cyclic scaffold strand (null if the generation failed)
+     */
+    scaffold: CgNucleicAcidStrand | null,
+    /**
+     * Staple strands
+     */
+    staples: CgNucleicAcidStrand[],
+    /**
+     * Number of the mesh vertices
+     */
+    vertexCount: number,
+    /**
+     * Length (in base-pairs) of each edge
+     */
+    edgeLengths: number[],
+    /**
+     * Scale (Angstroms per mesh unit) applied to the mesh
+     */
+    scale: number,
+    /**
+     * Number of scaffold crossovers (placed in the middle of the edges not belonging to the spanning tree)
+     */
+    scaffoldCrossoverCount: number,
+    /**
+     * Number of staple crossovers between the two helices of the edges
+     */
+    stapleCrossoverCount: number,
+    /**
+     * Number of bases of the scaffold sequence left unused by the design
+     */
+    unusedBases: number,
+    /**
+     * Number of scaffold nucleotides exceeding the length of the scaffold sequence
+     */
+    missingBases: number,
+    /**
+     * Reason of the failure (if the generation failed)
+     */
+    error?: string
+}
+
+interface MeshVertex {
+    position: Vector3,
+    normal: Vector3,
+    /**
+     * Incident edges ordered counter-clockwise around the vertex normal
+     */
+    edges: number[]
+}
+
+/**
+ * Edge of the mesh realized by two antiparallel helices. Helix 0 carries the scaffold going from
+ * the "from" vertex to the "to" vertex, helix 1 carries the scaffold going back.
+ */
+interface MeshEdge {
+    from: number,
+    to: number,
+    normal: Vector3,
+    isTreeEdge: boolean,
+    length: number,
+    direction: Vector3,
+    offset: Vector3,
+    axisStart: Vector3,
+    scaffoldIndices: [number[], number[]],
+    domains: CgNucleicAcidStrand[],
+    stapleCrossover: number
+}
+
+/**
+ * Continuous part of the scaffold on one helix
+ */
+interface ScaffoldSegment {
+    edge: number,
+    helix: number,
+    start: number,
+    end: number,
+    linkerNormal: Vector3
+}
+
+/**
+ * Part of a staple: either nucleotides copied from a staple domain or unpaired linker nucleotides
+ */
+interface StaplePiece {
+    domain: CgNucleicAcidStrand | null,
+    from: number,
+    count: number,
+    linkerStart?: Vector3,
+    linkerEnd?: Vector3,
+    linkerNormal?: Vector3
+}
+
+/**
+ * Maximal distance (in Angstroms) between the backbones of consecutive nucleotides
+ * not requiring additional unpaired nucleotides in between
+ */
+const MAX_BACKBONE_STEP = 7;
+
+/**
+ * Converts a polyhedral mesh to a DNA wireframe nanostructure (in a way similar to DAEDALUS and vHelix).
+ *
+ * Each edge of the mesh is realized by two antiparallel helices lying next to each other in the surface of the mesh.
+ * The edge lengths are rounded to whole helical turns (e.g., 31, 42 or 52 base-pairs).
+ * A cyclic scaffold is routed along a spanning tree of the mesh: it goes through the tree edges and back
+ * on their two helices and enters the remaining edges from both ends, crossing over between the helices
+ * in their middle. The scaffold turns at the vertices always to the next edge around the vertex,
+ * so that it does not cross itself.
+ * Staples are complementary to the scaffold and form a double crossover between the helices of each edge.
+ * The staples spanning the vertices contain unpaired poly-T linkers.
+ *
+ * @param mesh triangle mesh to convert
+ * @param params generation parameters
+ * @returns new structure with the scaffold and the staples and statistics of the generation
+ */
+export function generateWireframeDna(mesh: WireframeMesh, params: Partial<WireframeDnaParameters> = {}): WireframeDnaResult {
+    const minEdgeTurns = Math.max(2, Math.round(params.minEdgeTurns ?? 3));
+    const bpPerTurn = params.basePairsPerTurn ?? 10.5;
+    const helixDistance = params.helixDistance ?? 20;
+    const minVertexLinker = Math.max(0, Math.round(params.minVertexLinker ?? 1));
+    const maxStapleLength = params.maxStapleLength ?? 60;
+
+    const result: WireframeDnaResult = {
+        structure: null,
+        scaffold: null,
+        staples: [],
+        vertexCount: 0,
+        edgeLengths: [],
+        scale: params.scale ?? 1,
+        scaffoldCrossoverCount: 0,
+        stapleCrossoverCount: 0,
+        unusedBases: 0,
+        missingBases: 0
+    };
+
+    const vertices: MeshVertex[] = [];
+    const edges: MeshEdge[] = [];
+    extractGraph(mesh, params.mergeCoplanarFaces ?? true, vertices, edges);
+
+    if (edges.length === 0) {
+        result.error = "The mesh contains no edges.";
+        return result;
+    } else if (!findSpanningTree(vertices, edges)) {
+        result.error = "The mesh must be connected.";
+        return result;
+    }
+
+    result.vertexCount = vertices.length;
+
+    // Helices are shortened at the vertices so that they do not collide with the helices of the neighbouring edges
+    const clearance = (e: number, v: number): number => {
+        const vertEdges = vertices[v].edges;
+        const dir = edgeDirectionFrom(vertices, edges[e], v);
+        let minAngle = Math.PI;
+        if (vertEdges.length > 1) {
+            const idx = vertEdges.indexOf(e);
+            [vertEdges[(idx + 1) % vertEdges.length], vertEdges[(idx + vertEdges.length - 1) % vertEdges.length]].forEach(o => {
+                minAngle = Math.min(minAngle, dir.angleTo(edgeDirectionFrom(vertices, edges[o], v)));
+            });
+        }
+        return helixDistance * 0.5 / Math.tan(Math.max(minAngle, Math.PI / 18) * 0.5) + helixDistance * 0.5;
+    };
+
+    const rise = CatanaState.dnaFactory.helicalAxisRise;
+    const turnLength = bpPerTurn * rise;
+    const clearances = edges.map((e, i) => [clearance(i, e.from), clearance(i, e.to)]);
+    const meshLengths = edges.map(e => vertices[e.from].position.distanceTo(vertices[e.to].position));
+
+    if (params.scale === undefined) {
+        result.scale = Math.max(...edges.map((e, i) => (minEdgeTurns * turnLength + clearances[i][0] + clearances[i][1]) / meshLengths[i]));
+    }
+
+    edges.forEach((e, i) => {
+        const available = meshLengths[i] * result.scale - clearances[i][0] - clearances[i][1];
+        const turns = Math.max(minEdgeTurns, Math.round(available / turnLength));
+        e.length = Math.floor(turns * bpPerTurn + 1e-6);
+
+        const start = vertices[e.from].position.clone().addScaledVector(e.direction, clearances[i][0] / result.scale);
+        const end = vertices[e.to].position.clone().addScaledVector(e.direction, -clearances[i][1] / result.scale);
+        e.axisStart = start.add(end).multiplyScalar(0.5 * result.scale).addScaledVector(e.direction, -(e.length - 1) * 0.5 * rise);
+    });
+
+    result.edgeLengths = edges.map(e => e.length);
+
+    const structure = new CgStructure(GlobalIdGenerator.generateId(), params.name ?? "Wireframe");
+    const scaffold = buildScaffold(structure, vertices, edges, bpPerTurn, helixDistance);
+    structure.addNaStrand(scaffold);
+
+    result.scaffoldCrossoverCount = 2 * edges.filter(e => !e.isTreeEdge).length;
+    result.stapleCrossoverCount = 2 * edges.length;
+    result.staples = buildStaples(structure, scaffold, vertices, edges, minVertexLinker, maxStapleLength);
+
+    result.structure = structure;
+    result.scaffold = scaffold;
+
+    if (params.scaffoldLength !== undefined) {
+        result.unusedBases = Math.max(0, params.scaffoldLength - scaffold.length);
+        result.missingBases = Math.max(0, scaffold.length - params.scaffoldLength);
+    }
+
+    return result;
+}
+
+/**
+ * @returns human-readable summary of the wireframe generation outcome
+ */
+export function getWireframeDnaSummary(result: WireframeDnaResult): string {
+    if (!result.scaffold) {
+        return "Wireframe generation failed: " + result.error;
+    }
+
+    let summary = "Wireframe of " + result.vertexCount + " vertices and " + result.edgeLengths.length +
+        " edges (" + Math.min(...result.edgeLengths) + "-" + Math.max(...result.edgeLengths) + " bp) with a scaffold of " +
+        result.scaffold.length + " nt and " + result.staples.length + " staples.";
+    if (result.unusedBases > 0) {
+        summary += " " + result.unusedBases + " bases of the scaffold sequence are left unused.";
+    } else if (result.missingBases > 0) {
+        summary += " Scaffold sequence is " + result.missingBases + " bases short.";
+    }
+    return summary;
+}
+
+/**
+ * Extracts the vertices and edges of the mesh.
+ * Vertices sharing the same position are merged (meshes often duplicate them for each face).
+ */
+function extractGraph(mesh: WireframeMesh, mergeCoplanarFaces: boolean,
+    vertices: MeshVertex[], edges: MeshEdge[]): void {
+    const positions: Vector3[] = [];
+    for (let i = 0; i + 2 < mesh.position.length; i += 3) {
+        positions.push(new Vector3(mesh.position[i], mesh.position[i + 1], mesh.position[i + 2]));
+    }
+
+    const minCorner = positions.reduce((m, p) => m.min(p), new Vector3(Infinity, Infinity, Infinity));
+    const maxCorner = positions.reduce((m, p) => m.max(p), new Vector3(-Infinity, -Infinity, -Infinity));
+    const tolerance = Math.max(1e-6, 1e-5 * minCorner.distanceTo(maxCorner));
+
+    const vertexIds = new Map<string, number>();
+    const welded = positions.map(p => {
+        const key = Math.round(p.x / tolerance) + ":" + Math.round(p.y / tolerance) + ":" + Math.round(p.z / tolerance);
+        if (!vertexIds.has(key)) {
+            vertexIds.set(key, vertices.length);
+            vertices.push({ position: p, normal: new Vector3(), edges: [] });
+        }
+        return vertexIds.get(key)!;
+    });
+
+    const edgeFaces = new Map<string, Vector3[]>();
+    const triangleCount = Math.floor((mesh.index?.length ?? positions.length) / 3);
+
+    for (let t = 0; t < triangleCount; ++t) {
+        const ids = [0, 1, 2].map(k => welded[mesh.index ? mesh.index[3 * t + k] : 3 * t + k]);
+        const [a, b, c] = ids.map(id => vertices[id].position);
+        const areaNormal = b.clone().sub(a).cross(c.clone().sub(a));
+
+        if (ids[0] === ids[1] || ids[1] === ids[2] || ids[0] === ids[2] || areaNormal.lengthSq() === 0) {
+            continue;
+        }
+
+        const normal = areaNormal.clone().normalize();
+        ids.forEach((id, k) => {
+            vertices[id].normal.add(areaNormal);
+
+            const other = ids[(k + 1) % 3];
+            const key = Math.min(id, other) + ":" + Math.max(id, other);
+            if (!edgeFaces.has(key)) {
+                edgeFaces.set(key, []);
+            }
+            edgeFaces.get(key)!.push(normal);
+        });
+    }
+
+    edgeFaces.forEach((normals, key) => {
+        if (mergeCoplanarFaces && normals.length === 2 && normals[0].dot(normals[1]) > 1 - 1e-4) {
+            return;
+        }
+
+        const [from, to] = key.split(":").map(Number);
+        const direction = vertices[to].position.clone().sub(vertices[from].position).normalize();
+        const normal = normals.reduce((sum, n) => sum.add(n), new Vector3());
+        let offset = direction.clone().cross(normal);
+        if (offset.lengthSq() < 1e-8) {
+            offset = getPerpendicular(direction);
+        }
+
+        vertices[from].edges.push(edges.length);
+        vertices[to].edges.push(edges.length);
+        edges.push({
+            from: from, to: to, normal: normal.normalize(), isTreeEdge: false, length: 0,
+            direction: direction, offset: offset.normalize(), axisStart: new Vector3(),
+            scaffoldIndices: [[], []], domains: [], stapleCrossover: 0
+        });
+    });
+
+    // Remove the vertices not belonging to any edge (e.g., the ones inside of merged faces)
+    const used = vertices.filter(v => v.edges.length > 0);
+    const newIds = new Map(used.map((v, i) => [vertices.indexOf(v), i]));
+    edges.forEach(e => {
+        e.from = newIds.get(e.from)!;
+        e.to = newIds.get(e.to)!;
+    });
+    vertices.length = 0;
+    vertices.push(...used);
+
+    vertices.forEach(v => {
+        if (v.normal.lengthSq() === 0) {
+            v.normal.set(0, 0, 1);
+        }
+        v.normal.normalize();
+
+        // Order the edges counter-clockwise around the vertex normal
+        const ref = getPerpendicular(v.normal);
+        const refY = v.normal.clone().cross(ref);
+        const angle = (e: number) => {
+            const dir = edgeDirectionFrom(vertices, edges[e], vertices.indexOf(v));
+            return Math.atan2(dir.dot(refY), dir.dot(ref));
+        };
+        const angles = new Map(v.edges.map(e => [e, angle(e)]));
+        v.edges.sort((a, b) => angles.get(a)! - angles.get(b)!);
+    });
+}
+
+/**
+ * Marks the edges of a breadth-first spanning tree
+ * @returns true if the mesh is connected
+ */
+function findSpanningTree(vertices: MeshVertex[], edges: MeshEdge[]): boolean {
+    const visited = new Set<number>([0]);
+    const queue = [0];
+
+    while (queue.length > 0) {
+        const v = queue.shift()!;
+        vertices[v].edges.forEach(e => {
+            const other = edges[e].from === v ? edges[e].to : edges[e].from;
+            if (!visited.has(other)) {
+                visited.add(other);
+                edges[e].isTreeEdge = true;
+                queue.push(other);
+            }
+        });
+    }
+
+    return visited.size === vertices.length;
+}
+
+/**
+ * Builds the scaffold going along the spanning tree (see {@link generateWireframeDna})
+ */
+function buildScaffold(structure: CgStructure, vertices: MeshVertex[], edges: MeshEdge[],
+    bpPerTurn: number, helixDistance: number): CgNucleicAcidStrand {
+    const segments: ScaffoldSegment[] = [];
+
+    const visit = (v: number, parentEdge: number) => {
+        const vertEdges = vertices[v].edges;
+        const first = parentEdge >= 0 ? vertEdges.indexOf(parentEdge) + 1 : 0;
+
+        for (let k = 0; k < vertEdges.length; ++k) {
+            const e = vertEdges[(first + k) % vertEdges.length];
+            if (e === parentEdge) {
+                continue;
+            }
+
+            const edge = edges[e];
+            const isFrom = edge.from === v;
+            const last = edge.length - 1;
+            const middle = Math.floor(last / 2);
+            const normal = vertices[v].normal;
+
+            if (edge.isTreeEdge) {
+                segments.push({ edge: e, helix: isFrom ? 0 : 1, start: isFrom ? 0 : last, end: isFrom ? last : 0, linkerNormal: normal });
+                visit(isFrom ? edge.to : edge.from, e);
+                segments.push({
+                    edge: e, helix: isFrom ? 1 : 0, start: isFrom ? last : 0, end: isFrom ? 0 : last,
+                    linkerNormal: vertices[isFrom ? edge.to : edge.from].normal
+                });
+            } else if (isFrom) {
+                segments.push({ edge: e, helix: 0, start: 0, end: middle, linkerNormal: normal });
+                segments.push({ edge: e, helix: 1, start: middle, end: 0, linkerNormal: edge.normal });
+            } else {
+                segments.push({ edge: e, helix: 1, start: last, end: middle + 1, linkerNormal: normal });
+                segments.push({ edge: e, helix: 0, start: middle + 1, end: last, linkerNormal: edge.normal });
+            }
+        }
+    };
+
+    visit(0, -1);
+
+    const scaffold = new CgNucleicAcidStrand(GlobalIdGenerator.generateId(), structure.generateChainName(),
+        NucleicAcidType.DNA, structure, edges.reduce((sum, e) => sum + 2 * e.length, 0));
+    scaffold.isScaffold = true;
+    scaffold.isCircular = true;
+
+    const seqProv = CatanaState.dnaFactory.sequenceProvider;
+    const twist = 2 * Math.PI / bpPerTurn;
+    const getProbeAngle = createProbeAngleGetter(
+        (isFiveToThree, nbType, probe) => CatanaState.dnaFactory.buildAxisNucleotide(new Vector3(), new Vector3(0, 0, 1),
+            new Vector3(1, 0, 0), 0, 0, isFiveToThree, nbType, probe, -1),
+        backbone => Math.atan2(backbone.y, backbone.x));
+
+    segments.forEach(seg => {
+        const edge = edges[seg.edge];
+        const isFiveToThree = seg.helix === 0;
+        const middle = Math.floor((edge.length - 1) / 2);
+        const origin = edge.axisStart.clone().addScaledVector(edge.offset, (isFiveToThree ? 0.5 : -0.5) * helixDistance);
+
+        // Scaffold backbones of both helices point towards each other in the middle of the edge
+        const targetAngle = isFiveToThree ? Math.PI : 0;
+
+        const segStrand = new CgNucleicAcidStrand(-1, "scaffold-segment", NucleicAcidType.DNA, undefined,
+            Math.abs(seg.end - seg.start) + 1);
+        const step = seg.end >= seg.start ? 1 : -1;
+
+        for (let depth = seg.start; depth !== seg.end + step; depth += step) {
+            const nbType = seqProv.getNext();
+            const initialTwist = targetAngle - getProbeAngle(isFiveToThree, nbType) - middle * twist;
+            CatanaState.dnaFactory.buildAxisNucleotide(origin, edge.direction, edge.offset, depth, initialTwist,
+                isFiveToThree, nbType, segStrand, undefined, 360 / bpPerTurn);
+        }
+
+        if (scaffold.length > 0) {
+            insertLinker(scaffold, scaffold.threePrime!.backboneCenter, segStrand.fivePrime!.backboneCenter,
+                seg.linkerNormal, 0, () => seqProv.getNext());
+        }
+
+        for (let i = 0; i < segStrand.length; ++i) {
+            edge.scaffoldIndices[seg.helix][seg.start + i * step] = scaffold.length + i;
+        }
+        scaffold.insertFrom(segStrand, scaffold.length, 0, segStrand.length);
+        segStrand.dispose();
+    });
+
+    // Close the cycle at the root vertex
+    insertLinker(scaffold, scaffold.threePrime!.backboneCenter, scaffold.fivePrime!.backboneCenter,
+        vertices[0].normal, 0, () => seqProv.getNext());
+
+    return scaffold;
+}
+
+/**
+ * Builds the staples complementary to the scaffold. Staples of each vertex form a ring going around the vertex
+ * through the vertex linkers and the staple crossovers of the edges. The rings are broken
+ * in the middle of the helices going towards the vertex (and in the middle of the ones going away from it
+ * if the staples would be too long).
+ */
+function buildStaples(structure: CgStructure, scaffold: CgNucleicAcidStrand, vertices: MeshVertex[], edges: MeshEdge[],
+    minVertexLinker: number, maxStapleLength: number): CgNucleicAcidStrand[] {
+    edges.forEach(edge => {
+        const last = edge.length - 1;
+        const middle = Math.floor(last / 2);
+
+        // Staple on the helix 0 goes in the opposite direction of the edge, the one on helix 1 in the direction of the edge
+        edge.domains = [0, 1].map(helix => buildComplementaryDomain(scaffold,
+            Array.from({ length: edge.length }, (_, i) => edge.scaffoldIndices[helix][helix === 0 ? last - i : i]), structure));
+
+        // Staple crossover (between the depths d and d + 1) is placed where the staple backbones are the closest
+        const backbone = (helix: number, depth: number) =>
+            edge.domains[helix].getNucleotideProxy(helix === 0 ? last - depth : depth)!.backboneCenter;
+        let bestDist = Infinity;
+        for (let d = Math.max(1, middle - 6); d <= Math.min(last - 2, middle + 6); ++d) {
+            const dist = backbone(0, d).distanceTo(backbone(1, d)) + backbone(0, d + 1).distanceTo(backbone(1, d + 1));
+            if (dist < bestDist - 1e-6) {
+                bestDist = dist;
+                edge.stapleCrossover = d;
+            }
+        }
+    });
+
+    const staples: CgNucleicAcidStrand[] = [];
+
+    vertices.forEach((vertex, v) => {
+        // Parts of the staple ring: the domain going away from the vertex and the ones going towards it
+        const away: StaplePiece[] = [];
+        const towards: StaplePiece[] = [];
+
+        for (let k = vertex.edges.length - 1; k >= 0; --k) {
+            const edge = edges[vertex.edges[k]];
+            const d = edge.stapleCrossover;
+            if (edge.from === v) {
+                away.push({ domain: edge.domains[1], from: 0, count: d + 1 });
+                towards.push({ domain: edge.domains[0], from: edge.length - 1 - d, count: d + 1 });
+            } else {
+                away.push({ domain: edge.domains[0], from: 0, count: edge.length - 1 - d });
+                towards.push({ domain: edge.domains[1], from: d + 1, count: edge.length - 1 - d });
+            }
+        }
+
+        const backbone = (piece: StaplePiece, index: number) => piece.domain!.getNucleotideProxy(index)!.backboneCenter;
+        const halves = (piece: StaplePiece): [StaplePiece, StaplePiece] => {
+            const half = Math.floor(piece.count / 2);
+            return [
+                { domain: piece.domain, from: piece.from, count: half },
+                { domain: piece.domain, from: piece.from + half, count: piece.count - half }
+            ];
+        };
+
+        // Each staple starts in the middle of the domain going towards the vertex,
+        // continues through the vertex linker to the next edge and back through its staple crossover
+        towards.forEach((curr, k) => {
+            const nextIdx = (k + 1) % towards.length;
+            const linkerStart = backbone(curr, curr.from + curr.count - 1);
+            const linkerEnd = backbone(away[nextIdx], away[nextIdx].from);
+            const linker: StaplePiece = {
+                domain: null, from: 0, count: Math.max(minVertexLinker, getLinkerLength(linkerStart, linkerEnd)),
+                linkerStart: linkerStart, linkerEnd: linkerEnd, linkerNormal: vertex.normal
+            };
+            const pieces = [halves(curr)[1], linker, away[nextIdx], halves(towards[nextIdx])[0]];
+
+            if (pieces.reduce((sum, p) => sum + p.count, 0) > maxStapleLength) {
+                const [awayStart, awayEnd] = halves(away[nextIdx]);
+                staples.push(createStaple(structure, [pieces[0], pieces[1], awayStart]));
+                staples.push(createStaple(structure, [awayEnd, pieces[3]]));
+            } else {
+                staples.push(createStaple(structure, pieces));
+            }
+        });
+    });
+
+    return staples;
+}
+
+function createStaple(structure: CgStructure, pieces: StaplePiece[]): CgNucleicAcidStrand {
+    const staple = new CgNucleicAcidStrand(GlobalIdGenerator.generateId(), structure.generateChainName(),
+        NucleicAcidType.DNA, structure, pieces.reduce((sum, p) => sum + p.count, 0));
+
+    pieces.forEach(p => {
+        if (p.domain) {
+            copyDomainNucleotides(staple, p.domain, p.from, p.count);
+        } else {
+            insertLinker(staple, p.linkerStart!, p.linkerEnd!, p.linkerNormal!, p.count, () => NucleobaseType.T);
+        }
+    });
+
+    structure.addNaStrand(staple);
+    return staple;
+}
+
+/**
+ * Appends unpaired nucleotides evenly distributed on the line between the two backbone positions
+ *
+ * @param minCount minimal number of nucleotides to append (more are appended if the positions are too far apart)
+ */
+function insertLinker(strand: CgNucleicAcidStrand, start: Vector3, end: Vector3, normal: Vector3, minCount: number,
+    nbTypeProvider: () => NucleobaseType): void {
+    const count = Math.max(minCount, getLinkerLength(start, end));
+    const direction = end.clone().sub(start).normalize();
+    let hydrogenFaceDir = normal.clone().projectOnPlane(direction);
+    if (hydrogenFaceDir.lengthSq() < 1e-8) {
+        hydrogenFaceDir = getPerpendicular(direction);
+    }
+    hydrogenFaceDir.normalize();
+
+    for (let i = 0; i < count; ++i) {
+        const nbType = nbTypeProvider();
+        const ref = NucleicAcidStructuresProvider.nucleicAcidStructures.get(strand.naType)!.get(nbType)!;
+        const backboneCenter = start.clone().lerp(end, (i + 1) / (count + 1));
+        const nucleobaseCenter = backboneCenter.clone().addScaledVector(hydrogenFaceDir,
+            ref.originToBaseCenter.distanceTo(ref.originToBackboneCenter));
+
+        strand.insertNewThreePrimeNucleotide(GlobalIdGenerator.generateId(), nbType, nucleobaseCenter,
+            backboneCenter, direction.clone(), hydrogenFaceDir.clone());
+    }
+}
+
+/**
+ * @returns number of unpaired nucleotides needed to bridge the two backbone positions
+ */
+function getLinkerLength(start: Vector3, end: Vector3): number {
+    return Math.max(0, Math.ceil(start.distanceTo(end) / MAX_BACKBONE_STEP) - 1);
+}
+
+function edgeDirectionFrom(vertices: MeshVertex[], edge: MeshEdge, vertex: number): Vector3 {
+    const other = edge.from === vertex ? edge.to : edge.from;
+    return vertices[other].position.clone().sub(vertices[vertex].position).normalize();
+}
+
+function getPerpendicular(v: Vector3): Vector3 {
+    return v.clone().cross(Math.abs(v.x) < 0.9 ? new Vector3(1, 0, 0) : new Vector3(0, 1, 0)).normalize();
+}
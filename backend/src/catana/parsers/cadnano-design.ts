@@ -0,0 +1,348 @@
+/**
+ * Lattice types supported by cadnano 2
+ */
+export type CadnanoLatticeType = "square" | "honeycomb";
+
+/**
+ * Data of a single cadnano virtual helix ("vstrand")
+ */
+export interface CadnanoVirtualHelix {
+    num: number,
+    row: number,
+    col: number,
+    /**
+     * Scaffold connectivity, one [prevHelix, prevIdx, nextHelix, nextIdx] record per base index
+     */
+    scaf: number[][],
+    /**
+     * Staple connectivity, one [prevHelix, prevIdx, nextHelix, nextIdx] record per base index
+     */
+    stap: number[][],
+    /**
+     * Number of inserted bases ("loops") at each base index
+     */
+    loop: number[],
+    /**
+     * Skipped base indices are marked with -1
+     */
+    skip: number[],
+    /**
+     * [5' base index, color] records of staples starting on this helix
+     */
+    stapColors: number[][]
+}
+
+/**
+ * Content of a cadnano 2 design file
+ */
+export interface CadnanoDesign {
+    name: string,
+    /**
+     * Lattice type detected from the design (undefined if it cannot be determined unambiguously)
+     */
+    latticeType: CadnanoLatticeType | undefined,
+    /**
+     * Number of base positions of each virtual helix
+     */
+    helixLength: number,
+    helices: Map<number, CadnanoVirtualHelix>
+}
+
+/**
+ * Single base of a strand traced through the cadnano design
+ */
+export interface CadnanoBase {
+    helixNum: number,
+    baseIndex: number,
+    /**
+     * Position along the helix (in base indices). Inserted bases ("loops") are placed
+     * at fractional positions between their base index and the following one.
+     */
+    depth: number,
+    /**
+     * True if the strand runs towards increasing base indices at this base
+     */
+    isForward: boolean
+}
+
+/**
+ * Strand traced through the cadnano design (in 5' to 3' order)
+ */
+export interface CadnanoStrandPath {
+    bases: CadnanoBase[],
+    isScaffold: boolean,
+    isCircular: boolean,
+    /**
+     * Color stored in the design for this strand (if any)
+     */
+    color: number | undefined
+}
+
+/**
+ * Reads cadnano 2 JSON data into a {@link CadnanoDesign}
+ *
+ * @param json parsed content of the cadnano file
+ * @returns design data
+ * @throws Error if the data do not look like a cadnano 2 design
+ */
+export function readCadnanoDesign(json: any): CadnanoDesign {
+    if (!json || !Array.isArray(json.vstrands)) {
+        throw new Error("The JSON data are not a cadnano 2 design (\"vstrands\" record not found).");
+    }
+
+    const helices = new Map<number, CadnanoVirtualHelix>();
+    let helixLength = 0;
+
+    json.vstrands.forEach((vs: any) => {
+        const scaf: number[][] = vs.scaf ?? [];
+        const stap: number[][] = vs.stap ?? [];
+        const length = Math.max(scaf.length, stap.length);
+
+        helices.set(vs.num, {
+            num: vs.num,
+            row: vs.row,
+            col: vs.col,
+            scaf: scaf,
+            stap: stap,
+            loop: vs.loop ?? new Array(length).fill(0),
+            skip: vs.skip ?? new Array(length).fill(0),
+            stapColors: vs.stap_colors ?? []
+        });
+
+        helixLength = Math.max(helixLength, length);
+    });
+
+    return {
+        name: json.name ?? "cadnano-design",
+        latticeType: detectCadnanoLatticeType(helixLength),
+        helixLength: helixLength,
+        helices: helices
+    };
+}
+
+/**
+ * Detects the lattice type from the helix length. cadnano 2 extends the helices
+ * in steps of 32 bases on the square lattice and 21 bases on the honeycomb one.
+ *
+ * @param helixLength number of base positions of the virtual helices
+ * @returns detected lattice type or undefined if the length does not determine it
+ */
+export function detectCadnanoLatticeType(helixLength: number): CadnanoLatticeType | undefined {
+    const isSquare = helixLength % 32 === 0;
+    const isHoneycomb = helixLength % 21 === 0;
+
+    if (isSquare !== isHoneycomb) {
+        return isSquare ? "square" : "honeycomb";
+    }
+
+    return undefined;
+}
+
+/**
+ * Determines whether the scaffold or staple strand runs towards increasing
+ * base indices on the given helix. cadnano places the scaffold 5' to 3' on even helices.
+ *
+ * @param helixNum number of the virtual helix
+ * @param isScaffold true for scaffold, false for staples
+ * @returns true if the strand goes in the direction of increasing base indices
+ */
+export function isCadnanoStrandForward(helixNum: number, isScaffold: boolean): boolean {
+    return (helixNum % 2 === 0) === isScaffold;
+}
+
+/**
+ * Traces all scaffold and staple strands of the design
+ *
+ * @param design cadnano design
+ * @returns scaffold strands followed by staple strands
+ */
+export function traceCadnanoStrands(design: CadnanoDesign): CadnanoStrandPath[] {
+    return [
+        ...traceCadnanoStrandsOfType(design, true),
+        ...traceCadnanoStrandsOfType(design, false)
+    ];
+}
+
+/**
+ * Traces scaffold or staple strands of the design.
+ * Linear strands are traced from their 5' ends, the remaining occupied
+ * bases then belong to circular strands.
+ *
+ * @param design cadnano design
+ * @param isScaffold true to trace scaffold strands, false to trace staples
+ * @returns traced strands
+ */
+export function traceCadnanoStrandsOfType(design: CadnanoDesign, isScaffold: boolean): CadnanoStrandPath[] {
+    const result: CadnanoStrandPath[] = [];
+    const visited = new Set<string>();
+    const getRecord = (helixNum: number, idx: number): number[] | undefined => {
+        const helix = design.helices.get(helixNum);
+        return helix ? (isScaffold ? helix.scaf : helix.stap)[idx] : undefined;
+    };
+    const isOccupied = (rec: number[] | undefined): boolean => !!rec && rec.some(x => x !== -1);
+
+    const trace = (startHelix: number, startIdx: number, isCircular: boolean) => {
+        const path: CadnanoStrandPath = {
+            bases: [],
+            isScaffold: isScaffold,
+            isCircular: isCircular,
+            color: undefined
+        };
+
+        let helixNum = startHelix;
+        let idx = startIdx;
+
+        while (true) {
+            const key = helixNum + ":" + idx;
+            const rec = getRecord(helixNum, idx);
+
+            if (visited.has(key) || !isOccupied(rec)) {
+                break;
+            }
+
+            visited.add(key);
+            appendBases(design.helices.get(helixNum)!, idx, isScaffold, path.bases);
+
+            helixNum = rec![2];
+            idx = rec![3];
+
+            if (helixNum < 0 || idx < 0) {
+                break;
+            }
+        }
+
+        if (!isScaffold) {
+            const startColor = design.helices.get(startHelix)!.stapColors.find(x => x[0] === startIdx);
+            path.color = startColor ? startColor[1] : undefined;
+        }
+
+        if (path.bases.length > 0) {
+            result.push(path);
+        }
+    };
+
+    // Linear strands start at bases without predecessor
+    design.helices.forEach(helix => {
+        const arr = isScaffold ? helix.scaf : helix.stap;
+        for (let i = 0; i < arr.length; ++i) {
+            if (isOccupied(arr[i]) && arr[i][0] === -1) {
+                trace(helix.num, i, false);
+            }
+        }
+    });
+
+    // Whatever remains unvisited must be a part of a circular strand
+    design.helices.forEach(helix => {
+        const arr = isScaffold ? helix.scaf : helix.stap;
+        for (let i = 0; i < arr.length; ++i) {
+            if (isOccupied(arr[i]) && !visited.has(helix.num + ":" + i)) {
+                trace(helix.num, i, true);
+            }
+        }
+    });
+
+    return result;
+}
+
+/**
+ * Appends the bases located at the given base index to the path,
+ * respecting skips and insertions ("loops")
+ */
+function appendBases(helix: CadnanoVirtualHelix, idx: number, isScaffold: boolean, bases: CadnanoBase[]): void {
+    if (helix.skip[idx] === -1) {
+        return;
+    }
+
+    const isForward = isCadnanoStrandForward(helix.num, isScaffold);
+    const insertions = Math.max(helix.loop[idx] ?? 0, 0);
+    const depths: number[] = [idx];
+
+    for (let k = 1; k <= insertions; ++k) {
+        depths.push(idx + k / (insertions + 1));
+    }
+
+    if (!isForward) {
+        depths.reverse();
+    }
+
+    depths.forEach(d => bases.push({
+        helixNum: helix.num,
+        baseIndex: idx,
+        depth: d,
+        isForward: isForward
+    }));
+}
+
+/**
+ * Creates cadnano 2 JSON data from the given strands.
+ * Bases sharing the same base index are written as insertions ("loops")
+ * and base indices skipped by a strand running along a helix are written as skips.
+ *
+ * @param name name of the design
+ * @param helixLength number of base positions of each virtual helix
+ * @param helices virtual helices to be written (cadnano places the scaffold 5' to 3' on even ones)
+ * @param paths scaffold and staple strands referencing the given helices
+ * @returns object which can be serialized to a cadnano 2 JSON file
+ */
+export function createCadnanoJson(name: string, helixLength: number,
+    helices: Pick<CadnanoVirtualHelix, "num" | "row" | "col">[], paths: CadnanoStrandPath[]): any {
+    const emptyRecords = () => Array.from({ length: helixLength }, () => [-1, -1, -1, -1]);
+    const vstrands = new Map<number, any>();
+
+    helices.forEach(helix => vstrands.set(helix.num, {
+        stap_colors: [],
+        num: helix.num,
+        scafLoop: [],
+        stap: emptyRecords(),
+        skip: new Array(helixLength).fill(0),
+        scaf: emptyRecords(),
+        stapLoop: [],
+        col: helix.col,
+        loop: new Array(helixLength).fill(0),
+        row: helix.row
+    }));
+
+    paths.forEach(path => {
+        const positions: [number, number][] = [];
+        let insertions = 0;
+
+        path.bases.forEach(base => {
+            const vs = vstrands.get(base.helixNum);
+            const last = positions[positions.length - 1];
+
+            if (last && last[0] === base.helixNum && last[1] === base.baseIndex) {
+                vs.loop[base.baseIndex] = Math.max(vs.loop[base.baseIndex], ++insertions);
+                return;
+            }
+
+            if (last && last[0] === base.helixNum) {
+                const step = Math.sign(base.baseIndex - last[1]);
+                for (let i = last[1] + step; i !== base.baseIndex; i += step) {
+                    vs.skip[i] = -1;
+                    positions.push([base.helixNum, i]);
+                }
+            }
+
+            insertions = 0;
+            positions.push([base.helixNum, base.baseIndex]);
+        });
+
+        const noPosition = [-1, -1];
+        positions.forEach((pos, i) => {
+            const prev = i > 0 ? positions[i - 1] : (path.isCircular ? positions[positions.length - 1] : noPosition);
+            const next = i < positions.length - 1 ? positions[i + 1] : (path.isCircular ? positions[0] : noPosition);
+            const vs = vstrands.get(pos[0]);
+
+            (path.isScaffold ? vs.scaf : vs.stap)[pos[1]] = [prev[0], prev[1], next[0], next[1]];
+        });
+
+        if (!path.isScaffold && path.color !== undefined && positions.length > 0) {
+            vstrands.get(positions[0][0]).stap_colors.push([positions[0][1], path.color]);
+        }
+    });
+
+    return {
+        name: name,
+        vstrands: Array.from(vstrands.values())
+    };
+}
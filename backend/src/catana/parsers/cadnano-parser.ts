@@ -1,32 +1,51 @@
+import { Color, Matrix4, Quaternion, Vector3 } from "three";
 import Parser, { ParserParameters } from "../../parser/parser";
 import Streamer from "../../streamer/streamer";
-import UnfParser from "./unf-parser";
-import StringStreamer from "../../streamer/string-streamer";
 import { ParserParametersRegistry, ParserRegistry } from "../../globals";
+import { CatanaState } from "../actions/catana-state";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import CgStructure from "../data_model/cg-structure";
+import { getComplementaryBase, NucleobaseType } from "../data_model/types_declarations/monomer-types";
+import { NucleicAcidType } from "../data_model/types_declarations/polymer-types";
+import { HoneycombLattice } from "../nanomodeling/lattices/honeycomb-lattice";
+import Lattice from "../nanomodeling/lattices/lattice";
+import { SquareLattice } from "../nanomodeling/lattices/square-lattice";
+import NucleicAcidStructuresProvider from "../nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import GlobalIdGenerator from "../utils/global-id-generator";
+import MultiObjectsStorage from "../utils/multi-objects-storage";
+import { CadnanoBase, CadnanoDesign, CadnanoStrandPath, readCadnanoDesign, traceCadnanoStrands } from "./cadnano-design";
 
 /**
  * Cadnano parser parameters
  */
 interface CadnanoParserParameters extends ParserParameters {
+    /**
+     * "square", "honeycomb" or "auto" (lattice type is detected from the length of the helices)
+     */
     latticeType: string,
     originAtCenterOfMass: boolean
 }
 
 /**
- * Parser parsing cadnano JSON files.
- * More precisely, the parser forwards the input data to the Catana server,
- * where cadnano to UNF parsing is performed, and the outcomes of this parsing
- * are then processed by {@link UnfParser}.
+ * Parser parsing cadnano 2 JSON files (both square and honeycomb lattice designs).
+ * The scaffold and staple strands are converted to a coarse-grained structure placed
+ * on a Catana lattice. As cadnano does not store sequences, the scaffold sequence is generated by the
+ * sequence provider of {@link CatanaState.dnaFactory} and the staples are made complementary to it.
  */
 class CadnanoParser extends Parser {
+    /**
+     * Color used for scaffold strands (the default one in cadnano)
+     */
+    private static readonly scaffoldColor = 0x0066cc;
+
+    public sceneData: MultiObjectsStorage;
 
     private readonly latticeType: string;
     private readonly originAtCenterOfMass: boolean;
 
     constructor(streamer: Streamer, params?: Partial<CadnanoParserParameters>) {
         super(streamer, params || {});
-        this.sceneData = null;
-        this.latticeType = params?.latticeType || "square";
+        this.latticeType = params?.latticeType || "auto";
         this.originAtCenterOfMass = params?.originAtCenterOfMass ?? false;
     }
 
@@ -43,54 +62,207 @@ class CadnanoParser extends Parser {
     }
 
     parse(): Promise<any> {
-        const latticeType = this.latticeType;
-        return this.streamer.read().then(() => {
-            let data = this.streamer.asText();
+        // Reference nucleotide structures are needed to build the coarse-grained nucleotides
+        return NucleicAcidStructuresProvider.loadStructures().then(() => super.parse());
+    }
 
-            // TODO FIXME This is not a nice solution but it is necessary for some reason in some cases...
-            if (typeof data !== "string") {
-                data = JSON.stringify(data);
-            }
+    _parse(): void {
+        this.sceneData = new MultiObjectsStorage();
 
-            return fetch("THIS_WAS_REMOVED", { // NOTE: THIS URL WAS REMOVED FROM THE PUBLIC SOURCE CODE
-                method: "POST",
-                body: JSON.stringify({
-                    cadnano: data,
-                    lattice_type: latticeType
-                }),
-                headers: {
-                    //"Content-Type": "application/json"
-                    "Content-Type": "text/plain"
-                }
+        let data = this.streamer.isBinary() ? this.streamer.asText() : this.streamer.data;
+        if (typeof data === "string") {
+            data = JSON.parse(data);
+        }
+
+        const design = readCadnanoDesign(data);
+        const paths = traceCadnanoStrands(design);
+        const latticeType = this.latticeType === "auto" ? (design.latticeType ?? "square") : this.latticeType;
+
+        const lattice = this.createLattice(design, paths, latticeType);
+        const appendedIdx = this.sceneData.storedObjects.push(lattice) - 1;
+        this.sceneData.setComponentTransformation(appendedIdx, new Vector3(0, 0, 0), new Quaternion(0, 0, 0, 1));
+        this.sceneData.setComponentVisibility(appendedIdx, false);
+
+        const nbTypes = this.assignSequence(paths);
+        const baseTwist = 360 / lattice.basePairsPerTurn;
+        const phases = this.computeHelixPhases(design, paths, nbTypes, lattice, baseTwist);
+
+        const cgStructure = new CgStructure(GlobalIdGenerator.generateId(), design.name);
+        const idMaps: Map<string, number>[] = [new Map(), new Map()];
+
+        paths.forEach((path, i) => {
+            const strand = new CgNucleicAcidStrand(GlobalIdGenerator.generateId(), cgStructure.generateChainName(),
+                NucleicAcidType.DNA, cgStructure, path.bases.length);
+
+            strand.isScaffold = path.isScaffold;
+            strand.isCircular = path.isCircular;
+            strand.customColor = path.color !== undefined ? new Color(path.color) :
+                (path.isScaffold ? new Color(CadnanoParser.scaffoldColor) : strand.customColor);
+
+            path.bases.forEach((base, j) => {
+                const helix = design.helices.get(base.helixNum)!;
+                const nt = CatanaState.dnaFactory.buildLatticeNucleotide(lattice, helix.row, helix.col,
+                    this.getDepth(design, base), phases.get(base.helixNum) ?? 0, this.isFiveToThree(base),
+                    nbTypes[i][j], strand, undefined, baseTwist);
+
+                idMaps[path.isScaffold ? 0 : 1].set(this.getPositionKey(base), nt.globalId);
             });
-        }).then((response) => {
-            // Here, we can use the result of the response from the server!
-            if (!response.ok || response.body === null) {
-                // TODO handle errors
-                //console.error("Problem with POST request");
-                //console.warn("JSON could not be converted. Possibly, it wasn't recognized as Cadnano. Falling back to default JSON parser");
-                //return super.parse();
-                throw "JSON could not be converted. Possibly, it wasn't recognized as Cadnano. Falling back to default JSON parser"; // TODO better message (not necessarily "conversion"...)
-
-            } else {
-                return response.json();
+
+            cgStructure.addNaStrand(strand);
+        });
+
+        // Scaffold and staple bases occupying the same helix position form base-pairs
+        idMaps[0].forEach((scafId, key) => {
+            const stapId = idMaps[1].get(key);
+            if (stapId !== undefined) {
+                cgStructure.getNucleotideProxy(scafId)!.pairId = stapId;
+                cgStructure.getNucleotideProxy(stapId)!.pairId = scafId;
+            }
+        });
+
+        this.sceneData.storedObjects.push(cgStructure);
+    }
+
+    /**
+     * Creates lattice covering all helices of the design
+     */
+    private createLattice(design: CadnanoDesign, paths: CadnanoStrandPath[], latticeType: string): Lattice {
+        const LatClass = latticeType === "honeycomb" ? HoneycombLattice : SquareLattice;
+        let maxRow = 0;
+        let maxCol = 0;
+
+        design.helices.forEach(helix => {
+            maxRow = Math.max(maxRow, helix.row);
+            maxCol = Math.max(maxCol, helix.col);
+        });
+
+        const lattice = new LatClass(maxCol + 1, maxRow + 1,
+            CatanaState.dnaFactory.dnaForm.doubleHelixDiameter, new Matrix4());
+
+        if (this.originAtCenterOfMass) {
+            const com = new Vector3(0, 0, 0);
+            let count = 0;
+
+            paths.forEach(path => path.bases.forEach(base => {
+                const helix = design.helices.get(base.helixNum)!;
+                com.add(lattice.getPosition(helix.row, helix.col, this.getDepth(design, base)));
+                ++count;
+            }));
+
+            if (count > 0) {
+                lattice.moveOriginToNewLocation(com.divideScalar(count));
+            }
+        }
+
+        return lattice;
+    }
+
+    /**
+     * Generates scaffold sequence and makes the staples complementary to it.
+     * Staple bases without a scaffold counterpart get a generated base as well.
+     *
+     * @returns array of nucleobase types for each base of each path
+     */
+    private assignSequence(paths: CadnanoStrandPath[]): NucleobaseType[][] {
+        const seqProv = CatanaState.dnaFactory.sequenceProvider;
+        const scaffoldTypes = new Map<string, NucleobaseType>();
+
+        return paths.map(path => path.bases.map(base => {
+            if (path.isScaffold) {
+                const nbType = seqProv.getNext();
+                scaffoldTypes.set(this.getPositionKey(base), nbType);
+                return nbType;
             }
-        }, reason => console.error(reason))
-            .then((responseObject) => {
-                if (!responseObject || !responseObject.succeeded) {
-                    throw "JSON conversion did not succeed. Message:" + responseObject.message; // TODO better message (not necessarily "conversion"...)
+
+            const scafType = scaffoldTypes.get(this.getPositionKey(base));
+            return scafType !== undefined ? getComplementaryBase(scafType, NucleicAcidType.DNA) : seqProv.getNext();
+        }));
+    }
+
+    /**
+     * Computes the initial twist of each helix so that the backbones of crossing-over nucleotides
+     * point towards the neighbouring helix. The crossover positions in cadnano are designed for this
+     * to happen, so the twists are fitted to all crossovers of the given helix (circular mean).
+     *
+     * @returns map of helix numbers and their initial twist (in radians)
+     */
+    private computeHelixPhases(design: CadnanoDesign, paths: CadnanoStrandPath[], nbTypes: NucleobaseType[][],
+        lattice: Lattice, baseTwist: number): Map<number, number> {
+        const normal = lattice.getNormal();
+        const colAxis = lattice.getColumnAxis();
+        const rowAxis = normal.clone().cross(colAxis);
+        const planeAngle = (v: Vector3) => Math.atan2(v.dot(rowAxis), v.dot(colAxis));
+
+        // Angle of the backbone (w.r.t. the column axis) of a nucleotide at depth zero and initial twist zero
+        const backboneAngles = new Map<string, number>();
+        const getBackboneAngle = (isFiveToThree: boolean, nbType: NucleobaseType): number => {
+            const key = isFiveToThree + nbType;
+            let angle = backboneAngles.get(key);
+            if (angle === undefined) {
+                const probe = new CgNucleicAcidStrand(-1, "probe", NucleicAcidType.DNA, undefined, 1);
+                const nt = CatanaState.dnaFactory.buildLatticeNucleotide(lattice, 0, 0, 0, 0, isFiveToThree, nbType,
+                    probe, -1, baseTwist);
+                angle = planeAngle(nt.backboneCenter.sub(lattice.getPosition(0, 0)));
+                probe.dispose();
+                backboneAngles.set(key, angle);
+            }
+            return angle;
+        };
+
+        const sums = new Map<number, [number, number]>();
+        const addSample = (base: CadnanoBase, nbType: NucleobaseType, towards: CadnanoBase) => {
+            const helix = design.helices.get(base.helixNum)!;
+            const other = design.helices.get(towards.helixNum)!;
+            const target = planeAngle(lattice.getPosition(other.row, other.col).sub(lattice.getPosition(helix.row, helix.col)));
+            const phase = target - getBackboneAngle(this.isFiveToThree(base), nbType) -
+                this.getDepth(design, base) * baseTwist * Math.PI / 180;
+
+            const sum = sums.get(base.helixNum) ?? [0, 0];
+            sum[0] += Math.sin(phase);
+            sum[1] += Math.cos(phase);
+            sums.set(base.helixNum, sum);
+        };
+
+        paths.forEach((path, i) => {
+            const count = path.bases.length;
+            const lastIdx = path.isCircular ? count : count - 1;
+
+            for (let j = 0; j < lastIdx; ++j) {
+                const curr = path.bases[j];
+                const next = path.bases[(j + 1) % count];
+
+                if (curr.helixNum !== next.helixNum) {
+                    addSample(curr, nbTypes[i][j], next);
+                    addSample(next, nbTypes[i][(j + 1) % count], curr);
                 }
-                return new UnfParser(new StringStreamer(responseObject.unf), {
-                    originAtCenterOfMass: this.originAtCenterOfMass
-                }).parse();
-
-            }).then((sceneData) => {
-                this.sceneData = sceneData;
-                this._beforeParse();
-                this._parse();
-                this._afterParse();
-                return sceneData;
-            });
+            }
+        });
+
+        const phases = new Map<number, number>();
+        sums.forEach((sum, helixNum) => phases.set(helixNum, Math.atan2(sum[0], sum[1])));
+
+        return phases;
+    }
+
+    /**
+     * Returns position of the base along the lattice normal.
+     *
+     * cadnano's row axis points downwards (Qt scene coordinates) while Catana lattice rows grow upwards.
+     * Base indices are therefore flipped as well, so that the design is rotated instead of mirrored.
+     */
+    private getDepth(design: CadnanoDesign, base: CadnanoBase): number {
+        return design.helixLength - 1 - base.depth;
+    }
+
+    /**
+     * @returns true if the strand goes in the direction of the lattice normal at the given base
+     */
+    private isFiveToThree(base: CadnanoBase): boolean {
+        return !base.isForward;
+    }
+
+    private getPositionKey(base: CadnanoBase): string {
+        return base.helixNum + ":" + base.depth;
     }
 }
 
@@ -100,6 +272,7 @@ ParserParametersRegistry.add("json", {
         name: "Lattice type",
         type: "select",
         options: {
+            auto: "Auto-detect",
             square: "Square",
             honeycomb: "Honeycomb"
         }
@@ -111,4 +284,4 @@ ParserParametersRegistry.add("json", {
     }
 });
 
-export default CadnanoParser;
\ No newline at end of file
+export default CadnanoParser;
@@ -0,0 +1,346 @@
+/**
+ * Strand stored in an oxDNA topology
+ */
+export interface OxDnaTopologyStrand {
+    /**
+     * One-letter codes of the nucleobases in 5' to 3' order
+     */
+    sequence: string[],
+    isRna: boolean,
+    isCircular: boolean,
+    /**
+     * Indices of the nucleotides in the configuration file (in 5' to 3' order)
+     */
+    nucleotideIndices: number[]
+}
+
+/**
+ * Content of an oxDNA topology file
+ */
+export interface OxDnaTopology {
+    nucleotideCount: number,
+    strands: OxDnaTopologyStrand[]
+}
+
+/**
+ * Single nucleotide record of an oxDNA configuration (all values in oxDNA units)
+ */
+export interface OxDnaNucleotideConf {
+    /**
+     * Center of mass
+     */
+    position: number[],
+    /**
+     * Unit vector pointing from the backbone towards the nucleobase (hydrogen-bonding direction)
+     */
+    a1: number[],
+    /**
+     * Unit vector normal to the nucleobase plane (pointing in the 5' to 3' direction in helices)
+     */
+    a3: number[],
+    velocity: number[],
+    angularVelocity: number[]
+}
+
+/**
+ * Content of an oxDNA configuration file
+ */
+export interface OxDnaConfiguration {
+    time: number,
+    box: number[],
+    /**
+     * Total, potential and kinetic energy
+     */
+    energy: number[],
+    nucleotides: OxDnaNucleotideConf[]
+}
+
+/**
+ * Nucleobase codes used by oxDNA when the base is given by a number
+ */
+const oxDnaNumericBases = ["A", "G", "C", "T"];
+
+const reWhitespace = /\s+/;
+
+/**
+ * Parses oxDNA topology. Both the classic format (one line per nucleotide listing its 3' and 5' neighbours)
+ * and the new-style format (one line per strand with the sequence in 5' to 3' direction) are supported.
+ *
+ * @param text content of the topology file
+ * @returns parsed topology
+ * @throws Error if the topology is malformed
+ */
+export function parseOxDnaTopology(text: string): OxDnaTopology {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0 && !l.startsWith("#"));
+
+    if (lines.length === 0) {
+        throw new Error("oxDNA topology is empty.");
+    }
+
+    const header = lines[0].split(reWhitespace);
+    const nucleotideCount = parseInt(header[0]);
+    const strandCount = parseInt(header[1]);
+
+    if (isNaN(nucleotideCount) || isNaN(strandCount)) {
+        throw new Error("Invalid oxDNA topology header: " + lines[0]);
+    }
+
+    const strands = header[2] === "5->3" ?
+        parseNewStyleTopology(lines.slice(1)) :
+        parseClassicTopology(lines.slice(1), nucleotideCount);
+
+    if (strands.length !== strandCount) {
+        throw new Error("oxDNA topology header declares " + strandCount + " strands but " + strands.length + " were found.");
+    }
+
+    return {
+        nucleotideCount: nucleotideCount,
+        strands: strands
+    };
+}
+
+/**
+ * Checks whether the text starts with an oxDNA topology header ("N S" or "N S 5->3").
+ * Used to distinguish oxDNA topologies from GROMACS ones as both use the .top extension.
+ *
+ * @param text content of the topology file
+ * @returns true if the header corresponds to an oxDNA topology
+ */
+export function isOxDnaTopology(text: string): boolean {
+    const firstLine = text.split(/\r?\n/, 64).map(l => l.trim()).find(l => l.length > 0 && !l.startsWith("#"));
+    return firstLine !== undefined && /^\d+\s+\d+(\s+5->3)?$/.test(firstLine);
+}
+
+function parseClassicTopology(lines: string[], nucleotideCount: number): OxDnaTopologyStrand[] {
+    if (lines.length !== nucleotideCount) {
+        throw new Error("oxDNA topology header declares " + nucleotideCount + " nucleotides but " + lines.length + " were found.");
+    }
+
+    const strandIds: number[] = [];
+    const bases: string[] = [];
+    const threePrimeNeighbours: number[] = [];
+    const fivePrimeNeighbours: number[] = [];
+    const strandToNucleotides = new Map<number, number[]>();
+
+    lines.forEach((line, i) => {
+        const values = line.split(reWhitespace);
+        const strandId = parseInt(values[0]);
+
+        strandIds.push(strandId);
+        bases.push(parseOxDnaBase(values[1]));
+        threePrimeNeighbours.push(parseInt(values[2]));
+        fivePrimeNeighbours.push(parseInt(values[3]));
+
+        if (!strandToNucleotides.has(strandId)) {
+            strandToNucleotides.set(strandId, []);
+        }
+        strandToNucleotides.get(strandId)!.push(i);
+    });
+
+    const result: OxDnaTopologyStrand[] = [];
+
+    strandToNucleotides.forEach(nucleotides => {
+        // Linear strands are traced from their 5' end, circular ones from any nucleotide
+        const fivePrime = nucleotides.find(i => fivePrimeNeighbours[i] < 0);
+        const indices: number[] = [];
+        const visited = new Set<number>();
+        let curr = fivePrime ?? nucleotides[0];
+
+        while (curr >= 0 && !visited.has(curr)) {
+            visited.add(curr);
+            indices.push(curr);
+            curr = threePrimeNeighbours[curr];
+        }
+
+        if (indices.length !== nucleotides.length) {
+            throw new Error("oxDNA topology of strand " + strandIds[nucleotides[0]] + " is not continuous.");
+        }
+
+        const sequence = indices.map(i => bases[i]);
+
+        result.push({
+            sequence: sequence,
+            isRna: sequence.includes("U"),
+            isCircular: fivePrime === undefined,
+            nucleotideIndices: indices
+        });
+    });
+
+    return result;
+}
+
+function parseNewStyleTopology(lines: string[]): OxDnaTopologyStrand[] {
+    const result: OxDnaTopologyStrand[] = [];
+    let nextIndex = 0;
+
+    lines.forEach(line => {
+        const values = line.split(reWhitespace);
+        const params = new Map<string, string>();
+
+        values.slice(1).forEach(v => {
+            const keyVal = v.split("=");
+            params.set(keyVal[0].toLowerCase(), (keyVal[1] ?? "").toLowerCase());
+        });
+
+        // Custom nucleobases are written in parentheses, e.g., "AC(X)G"
+        const sequence = (values[0].match(/\([^)]*\)|./g) ?? [])
+            .map(x => x.startsWith("(") ? parseOxDnaBase(x.slice(1, -1)) : x.toUpperCase());
+
+        result.push({
+            sequence: sequence,
+            isRna: params.has("type") ? params.get("type") === "rna" : sequence.includes("U"),
+            isCircular: params.get("circular") === "true",
+            nucleotideIndices: sequence.map(() => nextIndex++)
+        });
+    });
+
+    return result;
+}
+
+/**
+ * Converts nucleobase stored in the topology to its one-letter code.
+ * Numeric bases are converted using the oxDNA convention, unknown ones are converted to "N".
+ */
+function parseOxDnaBase(base: string): string {
+    const numericBase = parseInt(base);
+
+    if (!isNaN(numericBase)) {
+        return oxDnaNumericBases[((numericBase % 4) + 4) % 4];
+    }
+
+    const upperBase = base.toUpperCase();
+    return ["A", "C", "G", "T", "U"].includes(upperBase) ? upperBase : "N";
+}
+
+/**
+ * Writes oxDNA topology.
+ * In the classic format, the nucleotides of each strand are listed from the 3' end to the 5' end
+ * (the usual ordering of the oxDNA tools), in the new-style format, they are listed from the 5' end to the 3' end.
+ *
+ * @param strands strands to be written (only sequence, type and circularity are used)
+ * @param newStyle if true, the new-style topology format is written
+ * @returns content of the topology file
+ */
+export function writeOxDnaTopology(strands: Pick<OxDnaTopologyStrand, "sequence" | "isRna" | "isCircular">[],
+    newStyle: boolean = false): string {
+    const nucleotideCount = strands.reduce((sum, s) => sum + s.sequence.length, 0);
+    const lines: string[] = [];
+
+    if (newStyle) {
+        lines.push(nucleotideCount + " " + strands.length + " 5->3");
+
+        strands.forEach(s => {
+            lines.push(s.sequence.join("") + " type=" + (s.isRna ? "RNA" : "DNA") +
+                (s.isCircular ? " circular=true" : ""));
+        });
+    } else {
+        lines.push(nucleotideCount + " " + strands.length);
+
+        let offset = 0;
+        strands.forEach((s, strandIdx) => {
+            const length = s.sequence.length;
+
+            for (let i = 0; i < length; ++i) {
+                const threePrime = i > 0 ? offset + i - 1 : (s.isCircular ? offset + length - 1 : -1);
+                const fivePrime = i < length - 1 ? offset + i + 1 : (s.isCircular ? offset : -1);
+
+                lines.push((strandIdx + 1) + " " + s.sequence[length - 1 - i] + " " + threePrime + " " + fivePrime);
+            }
+
+            offset += length;
+        });
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Parses oxDNA configuration. If the file contains more configurations (trajectory), the first one is parsed.
+ *
+ * @param text content of the configuration file
+ * @returns parsed configuration
+ * @throws Error if the configuration is malformed
+ */
+export function parseOxDnaConfiguration(text: string): OxDnaConfiguration {
+    const lines = text.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+    const result: OxDnaConfiguration = {
+        time: 0,
+        box: [0, 0, 0],
+        energy: [0, 0, 0],
+        nucleotides: []
+    };
+
+    let headerLines = 0;
+
+    for (const line of lines) {
+        if (line.startsWith("t")) {
+            if (headerLines > 0) {
+                // Start of the next configuration
+                break;
+            }
+            result.time = parseFloat(line.split("=")[1]);
+            ++headerLines;
+        } else if (line.startsWith("b")) {
+            result.box = line.split("=")[1].trim().split(reWhitespace).map(parseFloat);
+            ++headerLines;
+        } else if (line.startsWith("E")) {
+            result.energy = line.split("=")[1].trim().split(reWhitespace).map(parseFloat);
+            ++headerLines;
+        } else {
+            const values = line.split(reWhitespace).map(parseFloat);
+
+            if (values.length < 9 || values.some(v => isNaN(v))) {
+                throw new Error("Invalid oxDNA configuration line: " + line);
+            }
+
+            result.nucleotides.push({
+                position: values.slice(0, 3),
+                a1: values.slice(3, 6),
+                a3: values.slice(6, 9),
+                velocity: values.length >= 12 ? values.slice(9, 12) : [0, 0, 0],
+                angularVelocity: values.length >= 15 ? values.slice(12, 15) : [0, 0, 0]
+            });
+        }
+    }
+
+    return result;
+}
+
+/**
+ * Finds the configurations stored in an oxDNA trajectory (i.e., a file with one configuration after another)
+ * so that they can be parsed lazily one at a time with {@link parseOxDnaConfiguration}.
+ *
+ * @param text content of the trajectory file
+ * @returns character ranges [start, end) of the individual configurations
+ */
+export function indexOxDnaTrajectory(text: string): [number, number][] {
+    const starts: number[] = [];
+    const reTimeLine = /^[ \t]*t[ \t]*=/gm;
+    let match: RegExpExecArray | null;
+
+    while ((match = reTimeLine.exec(text)) !== null) {
+        starts.push(match.index);
+    }
+
+    return starts.map((start, i) => [start, i + 1 < starts.length ? starts[i + 1] : text.length]);
+}
+
+/**
+ * Writes oxDNA configuration
+ *
+ * @param conf configuration to be written
+ * @returns content of the configuration file
+ */
+export function writeOxDnaConfiguration(conf: OxDnaConfiguration): string {
+    const lines: string[] = [
+        "t = " + conf.time,
+        "b = " + conf.box.join(" "),
+        "E = " + conf.energy.join(" ")
+    ];
+
+    conf.nucleotides.forEach(nt => {
+        lines.push([...nt.position, ...nt.a1, ...nt.a3, ...nt.velocity, ...nt.angularVelocity].join(" "));
+    });
+
+    return lines.join("\n") + "\n";
+}
@@ -0,0 +1,127 @@
+import { Vector3 } from "three";
+import Parser, { ParserParameters } from "../../parser/parser";
+import Streamer from "../../streamer/streamer";
+import { ParserRegistry } from "../../globals";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import CgStructure from "../data_model/cg-structure";
+import { oneLetterCodeToNucleobaseType } from "../data_model/types_declarations/monomer-types";
+import { NucleicAcidType } from "../data_model/types_declarations/polymer-types";
+import { getOxDnaBackboneCenter, getOxDnaNucleobaseCenter, transformStructureFromOxDnaGeometry } from "../nanomodeling/nucleic-acid-utils";
+import NucleicAcidStructuresProvider from "../nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import GlobalIdGenerator from "../utils/global-id-generator";
+import MultiObjectsStorage from "../utils/multi-objects-storage";
+import TopParser from "../../parser/top-parser";
+import { isOxDnaTopology, parseOxDnaConfiguration, parseOxDnaTopology } from "./oxdna-format";
+
+/**
+ * oxDNA parser parameters
+ */
+export interface OxDnaParserParameters extends ParserParameters {
+    /**
+     * Content of the configuration (.dat / .conf) file belonging to the parsed topology
+     */
+    configuration: string
+}
+
+/**
+ * Parser processing oxDNA topology (.top) files together with their configuration files.
+ * Classic as well as new-style topologies are supported. The configuration must be
+ * provided via the "configuration" parameter as the positions are not stored in the topology.
+ * Nucleotides are converted from the oxDNA geometry to the Catana one and the base-pairs are detected
+ * as they are not stored by oxDNA.
+ * As GROMACS topologies share the .top extension, files without an oxDNA header are passed to the {@link TopParser}.
+ *
+ * @see https://lorenzo-rovigatti.github.io/oxDNA/configurations.html
+ */
+class OxDnaParser extends Parser {
+    public sceneData: MultiObjectsStorage;
+
+    private readonly configuration: string | undefined;
+    private readonly params: Partial<OxDnaParserParameters>;
+    private topologyText: string = "";
+
+    constructor(streamer: Streamer, params?: Partial<OxDnaParserParameters>) {
+        super(streamer, params || {});
+        this.configuration = params?.configuration;
+        this.params = params || {};
+    }
+
+    get type() {
+        return "oxdna";
+    }
+
+    get __objName() {
+        return "sceneData";
+    }
+
+    parse(): Promise<any> {
+        // The streamer is read only once, its content is used both to detect the topology type and to parse it
+        return this.streamer.read().then(() => {
+            this.topologyText = this.streamer.asText();
+            if (!isOxDnaTopology(this.topologyText)) {
+                return OxDnaParser.parseReadData(new TopParser(this.streamer, this.params));
+            }
+            // Reference nucleotide structures are needed for the conversion from oxDNA geometry
+            return NucleicAcidStructuresProvider.loadStructures().then(() => OxDnaParser.parseReadData(this));
+        });
+    }
+
+    _parse(): void {
+        if (this.configuration === undefined) {
+            throw new Error("oxDNA configuration file must be provided together with the topology.");
+        }
+
+        this.sceneData = new MultiObjectsStorage();
+
+        const topology = parseOxDnaTopology(this.topologyText);
+        const conf = parseOxDnaConfiguration(this.configuration);
+
+        if (conf.nucleotides.length !== topology.nucleotideCount) {
+            throw new Error("oxDNA topology contains " + topology.nucleotideCount +
+                " nucleotides but the configuration contains " + conf.nucleotides.length + ".");
+        }
+
+        const cgStructure = new CgStructure(GlobalIdGenerator.generateId(), this.name || "oxDNA structure");
+
+        topology.strands.forEach(topStrand => {
+            const naType = topStrand.isRna ? NucleicAcidType.RNA : NucleicAcidType.DNA;
+            const strand = new CgNucleicAcidStrand(GlobalIdGenerator.generateId(), cgStructure.generateChainName(),
+                naType, cgStructure, topStrand.sequence.length);
+
+            topStrand.nucleotideIndices.forEach((ntIdx, i) => {
+                const nt = conf.nucleotides[ntIdx];
+
+                strand.insertNewThreePrimeNucleotide(GlobalIdGenerator.generateId(),
+                    oneLetterCodeToNucleobaseType(topStrand.sequence[i]),
+                    getOxDnaNucleobaseCenter(nt.position, nt.a1),
+                    getOxDnaBackboneCenter(nt.position, nt.a1, nt.a3, naType),
+                    new Vector3().fromArray(nt.a3).normalize(),
+                    new Vector3().fromArray(nt.a1).normalize());
+            });
+
+            strand.isCircular = topStrand.isCircular;
+            cgStructure.addNaStrand(strand);
+        });
+
+        transformStructureFromOxDnaGeometry(cgStructure);
+
+        this.sceneData.storedObjects.push(cgStructure);
+    }
+
+    /**
+     * Performs the parsing steps of Parser.parse on the data already read by the streamer of the parser
+     *
+     * @returns parsed object
+     */
+    private static parseReadData(parser: Parser): any {
+        parser._beforeParse();
+        parser._parse();
+        parser._afterParse();
+        return parser[parser.__objName];
+    }
+}
+
+// Replaces the registration of the TopParser which is used as a fallback for GROMACS topologies
+ParserRegistry.add("top", OxDnaParser);
+
+export default OxDnaParser;
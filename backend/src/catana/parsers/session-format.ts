@@ -0,0 +1,187 @@
+/**
+ * Identification of the Catana session files ('format' value in the root of the session JSON)
+ */
+export const SessionFormatName = "catana-session";
+
+/**
+ * Version of the session format written by Catana.
+ * Files with the same major version can be read.
+ */
+export const SessionFormatVersion = "1.0";
+
+/**
+ * Extension of the Catana session files
+ */
+export const SessionExtension = "catana";
+
+/**
+ * Stored representation of a component
+ */
+export interface SessionRepresentationData {
+    type: string,
+    name: string,
+    filter: string,
+    /**
+     * Serializable representation parameters (including the visibility)
+     */
+    params: { [k: string]: any },
+    /**
+     * Color-filter pairs of a filter-based color scheme (see ColormakerRegistry.addFilterScheme)
+     * if the representation is colored by such a user-defined scheme
+     */
+    colorDataList?: any[]
+}
+
+/**
+ * Stored annotation of a component
+ */
+export interface SessionAnnotationData {
+    position: number[],
+    content: string,
+    offsetX: number,
+    offsetY: number,
+    visible: boolean,
+    applyFog: boolean
+}
+
+/**
+ * Stored lattice (see Lattice class)
+ */
+export interface SessionLatticeData {
+    latticeType: "square" | "honeycomb",
+    width: number,
+    height: number,
+    cellDiameter: number,
+    matrix: number[]
+}
+
+/**
+ * Stored shape (see Shape class). Only the geometry primitives
+ * (spheres, boxes, arrows, ...) are stored, custom buffers are not.
+ */
+export interface SessionShapeData {
+    name: string,
+    params: { [k: string]: any },
+    /**
+     * Per-primitive data arrays, i.e., the content of Shape._primitiveData
+     */
+    primitives: { [k: string]: any[] }
+}
+
+export type SessionComponentType = "structure" | "cg-structure" | "lattice" | "shape";
+
+/**
+ * Stored component together with its data
+ */
+export interface SessionComponentData {
+    type: SessionComponentType,
+    name: string,
+    visible: boolean,
+    locked: boolean,
+    position: number[],
+    quaternion: number[],
+    scale: number,
+    representations: SessionRepresentationData[],
+    annotations: SessionAnnotationData[],
+    /**
+     * UNF file content (untransformed) for structures, lattice or shape data otherwise
+     */
+    data: string | SessionLatticeData | SessionShapeData
+}
+
+/**
+ * Stored script loaded by the plugin manager
+ */
+export interface SessionScriptData {
+    name: string,
+    scope: string,
+    type: "js" | "jspy",
+    source: string,
+    attachedToUpdate: boolean
+}
+
+/**
+ * Content of a Catana session file
+ */
+export interface SessionData {
+    format: string,
+    version: string,
+    creationDate: string,
+    /**
+     * Serializable stage parameters (see Stage.getParameters)
+     */
+    stageParameters: { [k: string]: any },
+    /**
+     * Scene orientation matrix (see ViewerControls.getOrientation)
+     */
+    cameraOrientation: number[],
+    components: SessionComponentData[],
+    /**
+     * Records of the loaded plugins (see IPluginRecord)
+     */
+    plugins: any[],
+    scripts: SessionScriptData[]
+}
+
+/**
+ * Parses and validates the content of a Catana session file
+ *
+ * @param text content of the session file
+ * @returns session data (missing optional fields are filled with defaults)
+ */
+export function parseSessionData(text: string): SessionData {
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch (e) {
+        throw new Error("Catana session is not a valid JSON file: " + e);
+    }
+
+    if (json === null || typeof json !== "object" || json.format !== SessionFormatName) {
+        throw new Error("This is not a Catana session file.");
+    }
+    if (String(json.version).split(".")[0] !== SessionFormatVersion.split(".")[0]) {
+        throw new Error("Unsupported version of Catana session: " + json.version);
+    }
+    if (!Array.isArray(json.components)) {
+        throw new Error("Catana session does not contain any components.");
+    }
+
+    json.components.forEach((c: any, i: number) => {
+        if (["structure", "cg-structure", "lattice", "shape"].indexOf(c.type) === -1) {
+            throw new Error("Unknown type of session component " + i + ": " + c.type);
+        }
+        if (c.data === undefined || (typeof c.data === "string") !== (c.type === "structure" || c.type === "cg-structure")) {
+            throw new Error("Invalid data of session component " + i + " (" + c.type + ").");
+        }
+    });
+
+    return {
+        format: json.format,
+        version: String(json.version),
+        creationDate: json.creationDate ?? "",
+        stageParameters: json.stageParameters ?? {},
+        cameraOrientation: Array.isArray(json.cameraOrientation) && json.cameraOrientation.length === 16
+            ? json.cameraOrientation : [],
+        components: json.components.map((c: any) => ({
+            type: c.type,
+            name: c.name ?? "",
+            visible: c.visible ?? true,
+            locked: c.locked ?? false,
+            position: c.position ?? [0, 0, 0],
+            quaternion: c.quaternion ?? [0, 0, 0, 1],
+            scale: c.scale ?? 1,
+            representations: (c.representations ?? []).map((r: any) => ({
+                type: r.type,
+                name: r.name ?? r.type,
+                filter: r.filter ?? "",
+                params: r.params ?? {},
+                colorDataList: r.colorDataList
+            })),
+            annotations: c.annotations ?? [],
+            data: c.data
+        })),
+        plugins: json.plugins ?? [],
+        scripts: json.scripts ?? []
+    };
+}
@@ -0,0 +1,52 @@
+import Parser from "../../parser/parser";
+import StringStreamer from "../../streamer/string-streamer";
+import { ParserRegistry } from "../../globals";
+import CatanaSession from "../utils/catana-session";
+import MultiObjectsStorage from "../utils/multi-objects-storage";
+import UnfParser from "./unf-parser";
+import { parseSessionData, SessionExtension } from "./session-format";
+
+/**
+ * Parser processing Catana session files.
+ * The structures embedded in the session (stored as UNF) are parsed as well.
+ * The resulting CatanaSession is restored on the stage when added via Stage.addComponentFromObject.
+ *
+ * @see CatanaSessionWriter
+ */
+class CatanaSessionParser extends Parser {
+    public sceneData: CatanaSession;
+
+    get type() {
+        return SessionExtension;
+    }
+
+    get __objName() {
+        return "sceneData";
+    }
+
+    parse(): Promise<any> {
+        return this.streamer.read().then(() => {
+            const data = parseSessionData(this.streamer.asText());
+
+            return Promise.all(data.components.map(c => {
+                if (typeof c.data !== "string") {
+                    return Promise.resolve(undefined);
+                }
+                // Structures are stored untransformed and with the original sequences,
+                // the component transformations are stored in the session itself
+                return new UnfParser(new StringStreamer(c.data), {
+                    name: c.name,
+                    overrideAnyNbTypeToRandom: false,
+                    originAtCenterOfMass: false
+                }).parse() as Promise<MultiObjectsStorage>;
+            })).then(structures => {
+                this.sceneData = new CatanaSession(data, structures);
+                return this.sceneData;
+            });
+        });
+    }
+}
+
+ParserRegistry.add(SessionExtension, CatanaSessionParser);
+
+export default CatanaSessionParser;
@@ -1,6 +1,8 @@
-import { Color, Euler, MathUtils, Matrix4, Quaternion, Vector3 } from 'three';
+import { Color, Euler, Matrix4, Quaternion, Vector3 } from 'three';
 import { ParserRegistry } from '../../globals';
-import { Log, RandomNaSequenceProvider, Structure } from '../../catana';
+import { Log } from '../../globals';
+import Structure from '../../structure/structure';
+import { RandomNaSequenceProvider } from '../nanomodeling/sequence-providers/random-na-sequence-provider';
 import Parser, { ParserParameters } from "../../parser/parser"
 import PdbParser from '../../parser/pdb-parser';
 import Streamer from "../../streamer/streamer";
@@ -11,7 +13,7 @@ import CgNucleicAcidStrand from '../data_model/cg-nucleic-acid-strand';
 import CgStructure from '../data_model/cg-structure';
 import CgNucleotideProxy from '../data_model/proxy/cg-nucleotide-proxy';
 import { getComplementaryBase, NucleobaseType, oneLetterCodeToNucleobaseType, threeLetterCodeToAminoAcidType } from '../data_model/types_declarations/monomer-types';
-import { NucleicAcidStrandEnd, stringToNucleicAcidType } from '../data_model/types_declarations/polymer-types';
+import { stringToNucleicAcidType } from '../data_model/types_declarations/polymer-types';
 import { HoneycombLattice } from '../nanomodeling/lattices/honeycomb-lattice';
 import Lattice from '../nanomodeling/lattices/lattice';
 import { SquareLattice } from '../nanomodeling/lattices/square-lattice';
@@ -19,7 +21,6 @@ import GlobalIdGenerator from '../utils/global-id-generator';
 import MultiObjectsStorage, { VisualizationProperties } from "../utils/multi-objects-storage";
 import UnitsConverter, { AngularUnits, LengthUnits, stringToUnitType } from '../utils/units-converter';
 import { defaults } from '../../utils';
-import NucleicAcidStructuresProvider from '../nanomodeling/structure-providers/nucleic-acid-structures-provider';
 import { isStructureInOxDnaGeometry, transformStructureFromOxDnaGeometry } from '../nanomodeling/nucleic-acid-utils';
 
 /**
@@ -179,7 +180,7 @@ class UnfParser extends Parser {
                     stringToNucleicAcidType(jsonStrand.naType), newCgStruc,
                     jsonStrand.nucleotides.length);
 
-                newNaStrand.customColor = new Color(jsonStrand.color);
+                newNaStrand.customColor = jsonStrand.color ? new Color(jsonStrand.color) : undefined;
                 newNaStrand.isScaffold = jsonStrand.isScaffold ?? false;
 
                 let currNuclId = jsonStrand.fivePrimeId as number;
@@ -251,7 +252,7 @@ class UnfParser extends Parser {
             jsonStructure.aaChains.forEach((jsonChain: any) => {
                 const newAaChain = new CgAminoAcidChain(jsonChain.id, jsonChain.chainName ?? newCgStruc.generateChainName(),
                     newCgStruc, jsonChain.aminoAcids.length);
-                newAaChain.customColor = new Color(jsonChain.color);
+                newAaChain.customColor = jsonChain.color ? new Color(jsonChain.color) : undefined;
 
                 let currAaId = jsonChain.nTerm as number;
                 let currAa: any;
@@ -384,47 +385,13 @@ class UnfParser extends Parser {
         const row: number = vhelix.latticePosition[0];
         const col: number = vhelix.latticePosition[1];
         const depth: number = cell.number;
-        let desiredNormal: Vector3 = lattice.getNormal();
         const isFiveToThree = cell.fiveToThreeNts.indexOf(globalId) >= 0;
-        let initAngleOffset = 0;
-
-        if (!isFiveToThree) {
-            desiredNormal.negate();
-
-            const naType = parentStrand.naType;
-            const naMap = NucleicAcidStructuresProvider.nucleicAcidStructures.get(naType)!;
-
-            const currRefStructure = naMap.get(nbType)!;
-            const complRefStructure = naMap.get(getComplementaryBase(nbType, naType))!;
-
-            initAngleOffset = Math.PI - currRefStructure.originToC1.angleTo(complRefStructure.originToC1);
-        }
-
-        // TODO Does not really support different DNA geometries and their parameters ... probably related to the positional data being created "ad hoc"
-        // in this case while being generated step-by-step (reusing position of neighbours) during regular building of helices
 
         // TODO Insertions/deletions are ignored...
 
-        const initialTwistRad = angUnitsConv.convert(vhelix.initialAngle, undefined, AngularUnits.RAD) +
-            Math.PI + initAngleOffset;
-
-        const currentTwistVct = lattice.getColumnAxis().applyAxisAngle(lattice.getNormal(),
-            initialTwistRad + MathUtils.degToRad(
-                depth * CatanaState.dnaFactory.dnaForm.defaultBaseParams.baseTwist));
-
-        const axisTilt = (MathUtils.degToRad(CatanaState.dnaFactory.dnaForm.defaultBaseParams.baseRoll) * 0.5) / Math.sin(MathUtils.degToRad(CatanaState.dnaFactory.dnaForm.defaultBaseParams.baseTwist * 0.5));
-        const helAxisRise = CatanaState.dnaFactory.dnaForm.defaultBaseParams.baseRise * Math.cos(axisTilt) + CatanaState.dnaFactory.dnaForm.defaultBaseParams.baseSlide * Math.sin(axisTilt);
-
-        const cellOrigin = lattice.getPosition(row, col).add(
-            lattice.getNormal().multiplyScalar(depth * helAxisRise)).
-            add(currentTwistVct.clone().multiplyScalar(CatanaState.dnaFactory.dnaForm.defaultBaseParams.baseSlide));
-
-        desiredNormal.applyAxisAngle(currentTwistVct, MathUtils.degToRad(CatanaState.dnaFactory.dnaForm.defaultComplBaseParams.propeller * 0.5)).normalize();
-
-        const newNucleotide = CatanaState.dnaFactory.buildNucleotideFromParameters(cellOrigin, desiredNormal, currentTwistVct,
-            nbType, parentStrand, NucleicAcidStrandEnd.THREE_PRIME, globalId);
-
-        return newNucleotide;
+        return CatanaState.dnaFactory.buildLatticeNucleotide(lattice, row, col, depth,
+            angUnitsConv.convert(vhelix.initialAngle, undefined, AngularUnits.RAD),
+            isFiveToThree, nbType, parentStrand, globalId);
     }
 
     private getVisProperties(unfJson: any, id: number): VisualizationProperties | undefined {
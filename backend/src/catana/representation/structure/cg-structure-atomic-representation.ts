@@ -90,6 +90,12 @@ export class CgStructureAtomicRepresentation extends CgStructureRepresentation {
     }
 
     public update(what?: any) {
+        if (what && what.position && !what.model && !what.color) {
+            // Atoms are not regenerated for individual trajectory frames,
+            // the representation keeps showing the structure it was built from
+            return;
+        }
+
         // TODO tailor the 'what' parameter
         super.update(what);
         if (this.atomicRepresentation) {
@@ -3,16 +3,18 @@ import Buffer from "../../../buffer/buffer";
 import { CgMonomerProxy } from "../../../catana";
 import { CoarseGrainedRepresentationRegistry, ColormakerRegistry } from "../../../globals";
 import { RepresentationParameters } from "../../../representation/representation";
+import { FilteringTest } from "../../../filtering/filtering-test";
 import RadiusFactory from "../../../utils/radius-factory";
 import Viewer from "../../../viewer/viewer";
 import CgAminoAcidChain from "../../data_model/cg-amino-acid-chain";
 import CgNucleicAcidStrand from "../../data_model/cg-nucleic-acid-strand";
 import CgStructure from "../../data_model/cg-structure";
+import CgNucleotideProxy from "../../data_model/proxy/cg-nucleotide-proxy";
 import BufferCreator from "../../geometry/buffer-creator";
-import NucleicAcidStructuresProvider from "../../nanomodeling/structure-providers/nucleic-acid-structures-provider";
+import NucleicAcidStructuresProvider, { ReferenceStructureData } from "../../nanomodeling/structure-providers/nucleic-acid-structures-provider";
 import { CgAminoAcidPicker } from "../../picker/cg-amino-acid-picker";
 import { CgNucleotidePicker } from "../../picker/cg-nucleotide-picker";
-import { CgStructureRepresentation } from "./cg-structure-representation";
+import { CgStructureRepresentation, CgStructureUpdateFields } from "./cg-structure-representation";
 
 export class DoubleStrandRepresentationConstants {
     public static BP_SPHERE_RADIUS = 10.0;
@@ -43,10 +45,50 @@ export class CgStructureDoubleStrandRepresentation extends CgStructureRepresenta
         super.init(params);
     }
 
-    // TODO Add update(...) implementation for faster update of the representation
+    /**
+     * If only the positions need to be updated (and the set of visualized monomers did not change),
+     * updates the existing buffers. Otherwise, performs the regular update of CgStructureRepresentation.
+     */
+    public update(what?: CgStructureUpdateFields) {
+        if (what && what.position && !what.model && !what.color && this.bufferList.length === 2) {
+            const test = this._filter.cgMonomerTest;
+            const naPositions: number[] = [];
+            const aaPositions: number[] = [];
+
+            this.cgStructure.forEachNaStrand(strand => {
+                const strMap = NucleicAcidStructuresProvider.nucleicAcidStructures.get(strand.naType);
+
+                strand.forEachNucleotide(np => {
+                    if (this.includeNaSphere(np, test)) {
+                        naPositions.push(...this.getNaSpherePosition(np, strMap?.get(np.nucleobaseType)).toArray());
+                    }
+                });
+            });
+
+            this.cgStructure.forEachAaChain(chain => {
+                chain.forEachAminoAcid(aa => {
+                    if (this.includeMonomer(aa, test)) {
+                        aaPositions.push(...aa.position.toArray());
+                    }
+                });
+            });
+
+            const naBuffer = this.bufferList[0];
+            const aaBuffer = this.bufferList[1];
+
+            if (naPositions.length === naBuffer.size * 3 && aaPositions.length === aaBuffer.size * 3) {
+                naBuffer.setAttributes({ position: new Float32Array(naPositions) });
+                aaBuffer.setAttributes({ position: new Float32Array(aaPositions) });
+                return;
+            }
+        }
+
+        super.update(what);
+    }
 
     protected createBuffers(): Buffer[] {
         const buffers: Array<Buffer> = new Array<Buffer>();
+        const test = this._filter.cgMonomerTest;
         const colormaker = ColormakerRegistry.getScheme(this.getColorParams());
         const radiusFactory = new RadiusFactory();
 
@@ -63,9 +105,6 @@ export class CgStructureDoubleStrandRepresentation extends CgStructureRepresenta
         const aaPickerMonCounts: number[] = [];
 
         const ntMap = NucleicAcidStructuresProvider.nucleicAcidStructures;
-        const nbBasis: Matrix4 = new Matrix4();
-        let nbHydrAxis: Vector3 = new Vector3();
-        let nbNormal: Vector3 = new Vector3();
 
         // Precompute the size of the buffers        
         let nSpheres: number = 0;
@@ -74,9 +113,7 @@ export class CgStructureDoubleStrandRepresentation extends CgStructureRepresenta
             let included: number = 0;
 
             strand.forEachNucleotide(np => {
-                let pair = np.pairedNucleotide;
-
-                if ((this.includeMonomer(np) || (pair && this.includeMonomer(pair)) && (!pair || np.globalId > pair.globalId))) {
+                if (this.includeNaSphere(np, test)) {
                     ++included;
                 }
             });
@@ -101,7 +138,7 @@ export class CgStructureDoubleStrandRepresentation extends CgStructureRepresenta
             let included: number = 0;
 
             chain.forEachAminoAcid(aa => {
-                if (this.includeMonomer(aa)) {
+                if (this.includeMonomer(aa, test)) {
                     ++included;
                 }
             });
@@ -129,27 +166,9 @@ export class CgStructureDoubleStrandRepresentation extends CgStructureRepresenta
             strand.forEachNucleotide(np => {
                 let pair = np.pairedNucleotide;
 
-                if ((this.includeMonomer(np) || (pair && this.includeMonomer(pair)) && (!pair || np.globalId > pair.globalId))) {
+                if (this.includeNaSphere(np, test)) {
                     const j = i * 3;
-
-                    np.baseNormalToVector(nbNormal);
-                    np.hydrogenFaceDirToVector(nbHydrAxis);
-
-                    nbBasis.makeBasis(np.baseShortAxis, nbHydrAxis, nbNormal);
-
-                    const refData = strMap?.get(np.nucleobaseType);
-                    let pos: Vector3;
-
-                    if (pair) {
-                        if (refData) {
-                            const nbcToOr = refData.originToBaseCenter.clone().applyMatrix4(nbBasis).negate();
-                            pos = np.nucleobaseCenter.add(nbcToOr);
-                        } else {
-                            pos = np.nucleobaseCenter.clone().add(pair.nucleobaseCenter).multiplyScalar(0.5);
-                        }
-                    } else {
-                        pos = np.backboneCenter;
-                    }
+                    const pos = this.getNaSpherePosition(np, strMap?.get(np.nucleobaseType));
 
                     naSpheres.position[j] = pos.x;
                     naSpheres.position[j + 1] = pos.y;
@@ -181,7 +200,7 @@ export class CgStructureDoubleStrandRepresentation extends CgStructureRepresenta
         i = 0;
         this.cgStructure.forEachAaChain(chain => {
             chain.forEachAminoAcid(aa => {
-                if (this.includeMonomer(aa)) {
+                if (this.includeMonomer(aa, test)) {
                     const pos = aa.position;
                     const j = i * 3;
 
@@ -220,11 +239,41 @@ export class CgStructureDoubleStrandRepresentation extends CgStructureRepresenta
         return "double-strand";
     }
 
-    private includeMonomer(mon: CgMonomerProxy): boolean {
+    /**
+     * @returns true if the nucleotide is visualized by its own sphere
+     * (paired nucleotides share one sphere referring to one of them)
+     */
+    private includeNaSphere(np: CgNucleotideProxy, test: FilteringTest): boolean {
+        const pair = np.pairedNucleotide;
+        return this.includeMonomer(np, test) || (pair !== null && this.includeMonomer(pair, test)) && (!pair || np.globalId > pair.globalId);
+    }
+
+    /**
+     * @returns center of the sphere representing the nucleotide (and its pair)
+     */
+    private getNaSpherePosition(np: CgNucleotideProxy, refData?: ReferenceStructureData): Vector3 {
+        const pair = np.pairedNucleotide;
+
+        if (pair) {
+            if (refData) {
+                const nbBasis = new Matrix4().makeBasis(np.baseShortAxis, np.hydrogenFaceDir, np.baseNormal);
+                const nbcToOr = refData.originToBaseCenter.clone().applyMatrix4(nbBasis).negate();
+                return np.nucleobaseCenter.add(nbcToOr);
+            }
+            return np.nucleobaseCenter.clone().add(pair.nucleobaseCenter).multiplyScalar(0.5);
+        }
+
+        return np.backboneCenter;
+    }
+
+    /**
+     * @param test monomer test of the filter (shared by all monomers of one update)
+     */
+    private includeMonomer(mon: CgMonomerProxy, test: FilteringTest): boolean {
         return this._filter.isAllFilter() ||
-            !this._filter.cgMonomerTest
+            !test
             // Only double equality (==) below is intentional
-            || (this._filter.cgMonomerTest && this._filter.cgMonomerTest(mon) == true);
+            || (test && test(mon) == true);
     }
 }
 
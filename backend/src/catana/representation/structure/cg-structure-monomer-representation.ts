@@ -71,6 +71,7 @@ export class CgStructureMonomerRepresentation extends CgStructureRepresentation
     private updateMonomerSets(_monomerSetDict?: MonomerSetDict, _filter?: Filter) {
         const monomerSetDict = _monomerSetDict || this._monomerSetDict;
         const filter = _filter || this._filter;
+        const test = filter.cgMonomerTest;
         this.cgStructure.forEachPolymer((p) => {
             let monomerSet = monomerSetDict.get(p.globalId);
 
@@ -85,7 +86,7 @@ export class CgStructureMonomerRepresentation extends CgStructureRepresentation
                 monomerSet.clearAll();
             } else {
                 p.forEachMonomer((mp, i) => {
-                    if (!filter.cgMonomerTest || filter.cgMonomerTest(mp)) {
+                    if (!test || test(mp)) {
                         monomerSet!.set(i);
                     } else {
                         monomerSet!.clear(i);
@@ -137,10 +138,16 @@ export class CgStructureMonomerRepresentation extends CgStructureRepresentation
     }
 
     /**
-     * If only the color needs to be updated, performs a faster type of update
+     * If only the color or the positions need to be updated, performs a faster type of update
      * If not, perform the regular update of CgStructureRepresentation
      */
     public update(what?: CgStructureUpdateFields) {
+        if (what && what.position && !what.model && !what.color && this.bufferList.length === 6) {
+            // Monomer sets are kept as they are so that the buffer sizes do not change
+            this.updatePositions();
+            return;
+        }
+
         this.updateMonomerSets();
 
         if (what && what.color && !what.model) {
@@ -266,6 +273,118 @@ export class CgStructureMonomerRepresentation extends CgStructureRepresentation
         }
     }
 
+    /**
+     * Updates the positional data of the existing buffers (e.g., when a new trajectory frame is shown)
+     */
+    private updatePositions() {
+        const boxWidth = MonomerRepresentationConstants.BOX_WIDTH;
+        const tmpVec = new Vector3();
+
+        let nSpheres: number = 0;
+        let nCylinders: number = 0;
+
+        const sumSizes = (pol: CgPolymer) => {
+            const monomerSet = this._monomerSetDict.get(pol.globalId);
+            if (monomerSet && pol.length > 0) {
+                nSpheres += monomerSet.getSize();
+                nCylinders += CgStructureMonomerRepresentation.getNumberOfCylinders(pol, monomerSet);
+            }
+        };
+
+        this.cgStructure.forEachNaStrand(sumSizes);
+
+        const naBbPositions = new Float32Array(nSpheres * 3);
+        const naNbPositions = new Float32Array(nSpheres * 3);
+        const naHeightAxes = new Float32Array(nSpheres * 3);
+        const naDepthAxes = new Float32Array(nSpheres * 3);
+        const naSegmentPositions1 = new Float32Array(nCylinders * 3);
+        const naSegmentPositions2 = new Float32Array(nCylinders * 3);
+
+        nSpheres = 0;
+        nCylinders = 0;
+        this.cgStructure.forEachAaChain(sumSizes);
+
+        const aaPositions = new Float32Array(nSpheres * 3);
+        const aaSegmentPositions1 = new Float32Array(nCylinders * 3);
+        const aaSegmentPositions2 = new Float32Array(nCylinders * 3);
+
+        let i = 0;
+        let cylinder_i = 0;
+
+        const setPositions = (positions: Float32Array, segmentPositions1: Float32Array, segmentPositions2: Float32Array,
+            getPosition: (pol: CgPolymer, index: number) => Vector3) =>
+            (polymer: CgPolymer) => {
+                const monomerSet = this._monomerSetDict.get(polymer.globalId);
+                if (polymer.length <= 0 || monomerSet === undefined) { return; }
+
+                let lastIndex: null | number = null;
+
+                for (let index = 0; index < polymer.length; ++index) {
+                    if (!monomerSet.isSet(index)) {
+                        continue;
+                    }
+                    const j = i * 3;
+
+                    getPosition(polymer, index).toArray(positions, j);
+
+                    if (index - 1 === lastIndex) {
+                        CgStructureMonomerRepresentation.copyForSegment(
+                            positions, segmentPositions1, segmentPositions2, j, cylinder_i * 3);
+                        ++cylinder_i;
+                    }
+
+                    lastIndex = index;
+                    ++i;
+                }
+
+                if (CgStructureMonomerRepresentation.includeCyclicBond(polymer, monomerSet)) {
+                    const cylinder_j = cylinder_i * 3;
+                    getPosition(polymer, polymer.length - 1).toArray(segmentPositions1, cylinder_j);
+                    getPosition(polymer, 0).toArray(segmentPositions2, cylinder_j);
+                    ++cylinder_i;
+                }
+            };
+
+        this.cgStructure.forEachNaStrand(setPositions(naBbPositions, naSegmentPositions1, naSegmentPositions2,
+            (pol, index) => (pol as CgNucleicAcidStrand).nucleotideStore.getBackboneCenter(index, tmpVec)));
+
+        // Nucleobase boxes are not connected, so only the monomer loop is needed
+        i = 0;
+        this.cgStructure.forEachNaStrand(strand => {
+            const monomerSet = this._monomerSetDict.get(strand.globalId);
+            if (strand.length <= 0 || monomerSet === undefined) { return; }
+
+            const nucleotide = strand.getMonomerProxyTemplate();
+
+            for (let index = 0; index < strand.length; ++index) {
+                if (!monomerSet.isSet(index)) {
+                    continue;
+                }
+                const j = i * 3;
+                nucleotide.index = index;
+
+                nucleotide.nucleobaseCenterToVector(tmpVec).toArray(naNbPositions, j);
+                tmpVec.copy(nucleotide.baseShortAxis).normalize().multiplyScalar(boxWidth).toArray(naHeightAxes, j);
+                tmpVec.copy(nucleotide.baseNormal).normalize().toArray(naDepthAxes, j);
+
+                ++i;
+            }
+        });
+
+        i = 0;
+        cylinder_i = 0;
+        this.cgStructure.forEachAaChain(setPositions(aaPositions, aaSegmentPositions1, aaSegmentPositions2,
+            (pol, index) => (pol as CgAminoAcidChain).aminoAcidStore.getAlphaCarbonLocation(index, tmpVec)));
+
+        // Buffer order corresponds to the one of createBuffers
+        this.bufferList[0].setAttributes({ position1: naSegmentPositions1, position2: naSegmentPositions2 });
+        this.bufferList[1].setAttributes({ position: naBbPositions });
+        this.bufferList[2].setAttributes({ position: naNbPositions, heightAxis: naHeightAxes, depthAxis: naDepthAxes });
+        this.bufferList[3].setAttributes({ position1: naBbPositions, position2: naNbPositions });
+        this.bufferList[4].setAttributes({ position1: aaSegmentPositions1, position2: aaSegmentPositions2 });
+        this.bufferList[5].setAttributes({ position: aaPositions });
+    }
+
     public setFilter(filterStr: string, silent?: boolean): void {
         super.setFilter(filterStr, silent);
         this.updateMonomerSets();
@@ -7,8 +7,12 @@ import Buffer from "../../../buffer/buffer";
 
 export interface CgStructureUpdateFields {
     model?: boolean,
-    color?: boolean
-    // TODO Add also position (e.g., RB dynamics can strongly benefit from that)
+    color?: boolean,
+    /**
+     * Only the positions of the monomers changed (e.g., new trajectory frame).
+     * Representations supporting it update their buffers in place instead of rebuilding them.
+     */
+    position?: boolean
 }
 
 /**
@@ -78,6 +78,16 @@ export class CgStructureTubeRepresentation extends CgStructureRepresentation {
 
                 this.bufferList[i].setAttributes(bufferData);
             }
+        } else if (what && what.position && !what.model && this.bufferList.length === this._polymerViews.length) {
+            // Polymer views are kept as they are so that the buffer sizes do not change
+            for (let i = 0; i < this._polymerViews.length; ++i) {
+                const spline = this.getSpline(this._polymerViews[i]);
+
+                this.bufferList[i].setAttributes(Object.assign({},
+                    spline.getSubdividedPosition(),
+                    spline.getSubdividedOrientation(),
+                    this.getSubdividedSize(spline)));
+            }
         } else {
             super.update();
         }
@@ -87,6 +97,12 @@ export class CgStructureTubeRepresentation extends CgStructureRepresentation {
         return new CgSpline(cgPolymerView, this.getSplineParams());
     }
 
+    protected getSubdividedSize(spline: CgSpline) {
+        return spline.getSubdividedSize({
+            scale: 0.5
+        });
+    }
+
     protected getSplineParams(params?: Partial<CgTubeRepresentationParameters>): SplineParameters {
         return Object.assign({
             subdiv: this.subdiv,
@@ -108,9 +124,7 @@ export class CgStructureTubeRepresentation extends CgStructureRepresentation {
             const subOri = spline.getSubdividedOrientation();
             const subCol = spline.getSubdividedColor(this.getColorParams());
             const subPick = spline.getSubdividedPicking();
-            const subSize = spline.getSubdividedSize({
-                scale: 0.5
-            });
+            const subSize = this.getSubdividedSize(spline);
 
             buffers.push(
                 new TubeMeshBuffer(
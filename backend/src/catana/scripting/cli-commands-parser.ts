@@ -1,21 +1,27 @@
 import { Stage } from "../../catana";
+import { autoLoad } from "../../loader/loader-utils";
 import JSPyScript from "./jspyscript";
 import ScriptingApi from "./scripting-api";
+import { parseScriptArguments, runJsPyScript, ScriptExitCode, ScriptRunResult, splitCommandLine } from "./script-runner";
 
 /**
  * List of special CLI-only commands
  */
 enum CLICommands {
+    RUN,
     HELP,
     LIST
 }
 
 const CommandsRegexps: { [id in CLICommands]: string } = {
+    [CLICommands.RUN]: "^run\\s+(.+)",
     [CLICommands.HELP]: "help(.*)",
     [CLICommands.LIST]: "list"
 }
 
 const CommandsDescriptions: { [id in CLICommands]: string } = {
+    [CLICommands.RUN]: "Runs JSPython script (loaded script name, file URL or path) with named arguments, " +
+        "e.g., 'run design.jspy seq=ACGT n=5', and prints its return value and log as JSON.",
     [CLICommands.HELP]: "Lists all available commands.",
     [CLICommands.LIST]: "Lists all components loaded in the scene and their UUID."
 }
@@ -85,6 +91,8 @@ class CLICommandsParser {
                 }
 
                 resolve(result);
+            } else if (commandToExecute === CommandsRegexps[CLICommands.RUN]) {
+                this.runScriptCommand(commandString).then(resolve, reject);
             } else if (commandToExecute === CommandsRegexps[CLICommands.LIST]) {
                 let result = "UUID | component name\n";
                 this._stage.compList.forEach(comp => {
@@ -96,6 +104,37 @@ class CLICommandsParser {
             }
         });
     }
+
+    /**
+     * Executes the "run" command. The command resolves with the JSON describing the result
+     * (see {@link ScriptRunResult}) if the script succeeded and rejects with it otherwise.
+     */
+    private runScriptCommand(commandString: string): Promise<string> {
+        const tokens = splitCommandLine(commandString);
+        const scriptName = tokens[1];
+
+        let namedArgs: { [name: string]: any };
+        try {
+            namedArgs = parseScriptArguments(tokens.slice(2));
+        } catch (e) {
+            return Promise.reject(e.message);
+        }
+
+        const loadedScript = this._stage.pluginManager.getScriptByFullName(scriptName);
+        const scriptPromise: Promise<unknown> = loadedScript !== undefined ?
+            Promise.resolve(loadedScript) :
+            autoLoad(scriptName, { ext: "jspy" });
+
+        return scriptPromise.then(script => {
+            if (!(script instanceof JSPyScript)) {
+                return Promise.reject("Not a JSPython script: " + scriptName);
+            }
+            return runJsPyScript(script.scriptBody, { stage: this._stage, namedArgs: namedArgs });
+        }).then((result: ScriptRunResult) => {
+            const json = JSON.stringify(result, null, 2);
+            return result.exitCode === ScriptExitCode.SUCCESS ? json : Promise.reject(json);
+        });
+    }
 }
 
 export default CLICommandsParser;
\ No newline at end of file
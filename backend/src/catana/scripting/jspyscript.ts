@@ -1,8 +1,13 @@
 import { Interpreter, jsPython } from "jspython-interpreter";
-import { Stage } from "../../catana";
+import Stage from "../../stage/stage";
 import { IScript } from "../../script";
 import ScriptingApi from "./scripting-api";
 
+/**
+ * Names of the variables predefined in the context of every JSPython script
+ */
+export const JSPyScriptReservedVariables = ["stage", "__this", "args", "True", "False", "None", "global"];
+
 /**
  * Class for executing scripts written in JSPython.
  * @see https://www.jspython.dev/
@@ -38,8 +43,35 @@ export default class JSPyScript implements IScript {
         this._interpreter.addFunction("str", str);
     }
 
-    public run(stage: Stage, args?: any[]): Promise<unknown> {
+    /**
+     * @returns code of the script
+     */
+    public get scriptBody(): string {
+        return this._scriptBody;
+    }
+
+    /**
+     * Makes the given function callable from the script
+     *
+     * @param name name of the function in the script
+     * @param func function to be called
+     */
+    public addFunction(name: string, func: (...args: any[]) => any): void {
+        this._interpreter.addFunction(name, func);
+    }
+
+    /**
+     * Executes the script
+     *
+     * @param stage the stage context (undefined when running headless)
+     * @param args optional arguments for the script (accessible as "args")
+     * @param namedArgs optional named arguments accessible as variables of the script
+     * (they cannot override the predefined variables, e.g., "stage" or "args")
+     * @returns promise resolving to the value returned by the script
+     */
+    public run(stage: Stage | undefined, args?: any[], namedArgs?: { [name: string]: any }): Promise<unknown> {
         const context = {
+            ...namedArgs,
             stage: stage,
             __this: this,
             args: args ?? [],
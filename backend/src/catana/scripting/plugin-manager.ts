@@ -195,6 +195,20 @@ export default class PluginManager implements IUpdateable {
         });
     }
 
+    /**
+     * Adds the record of a plugin whose scripts are added separately (e.g., when restoring a session).
+     * Unlike {@link addPluginFromFile}, neither the dependencies nor the scripts are retrieved
+     * and the init script is not executed.
+     */
+    public addPluginRecord(plugin: IPluginRecord): void {
+        if (this.getPlugin(plugin.name) !== undefined) {
+            this.removePlugin(plugin.name);
+            Log.warn("Replacing plugin with the same name.");
+        }
+        this._loadedPlugins.push(plugin);
+        this.signals.pluginAdded.dispatch();
+    }
+
     /**
      * Adds new script loaded from file or URL
      */
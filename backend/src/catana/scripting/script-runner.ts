@@ -0,0 +1,155 @@
+import Stage from "../../stage/stage";
+import { toJsonValue } from "../utils/json-utils";
+import JSPyScript, { JSPyScriptReservedVariables } from "./jspyscript";
+import ScriptingApi from "./scripting-api";
+
+/**
+ * Exit codes of the script execution
+ */
+export enum ScriptExitCode {
+    SUCCESS = 0,
+    SCRIPT_ERROR = 1,
+    INVALID_INPUT = 2
+}
+
+/**
+ * Result of the script execution (see {@link runJsPyScript}).
+ * All values are JSON-compatible, i.e., the result can be directly stringified.
+ */
+export interface ScriptRunResult {
+    /**
+     * Exit code reflecting the success of the execution
+     */
+    exitCode: ScriptExitCode;
+    /**
+     * Value returned by the script (null if nothing was returned or the execution failed)
+     */
+    returnValue: any;
+    /**
+     * Messages logged by the script via {@link ScriptingApi.log}
+     */
+    log: any[];
+    /**
+     * Error message in case of failure
+     */
+    error?: string;
+}
+
+export interface ScriptRunParams {
+    /**
+     * Stage the script is executed with (undefined when running headless)
+     */
+    stage?: Stage;
+    /**
+     * Named arguments accessible as variables of the script
+     */
+    namedArgs?: { [name: string]: any };
+    /**
+     * Additional functions callable from the script
+     */
+    functions?: { [name: string]: (...args: any[]) => any };
+}
+
+/**
+ * Runs JSPython script and captures its return value and logged messages.
+ * Since the log is captured via {@link ScriptingApi.signals}, messages logged by scripts
+ * running concurrently are captured as well.
+ *
+ * @example
+ * runJsPyScript("log('Hello ' + name)\nreturn len(name)", { namedArgs: { name: "Catana" } })
+ *   .then(result => console.log(JSON.stringify(result)));
+ * // {"exitCode":0,"returnValue":6,"log":["Hello Catana"]}
+ *
+ * @param scriptBody code of the script
+ * @param params execution parameters
+ * @returns promise resolving to the result of the execution (never rejected)
+ */
+export function runJsPyScript(scriptBody: string, params: ScriptRunParams = {}): Promise<ScriptRunResult> {
+    const log: any[] = [];
+    const onLog = (message: any) => log.push(toJsonValue(message, true) ?? null);
+
+    for (const name in params.namedArgs) {
+        if (!isValidArgumentName(name)) {
+            return Promise.resolve({
+                exitCode: ScriptExitCode.INVALID_INPUT,
+                returnValue: null,
+                log: log,
+                error: "Invalid script argument name: " + name
+            });
+        }
+    }
+
+    const script = new JSPyScript(scriptBody);
+    for (const name in params.functions) {
+        script.addFunction(name, params.functions[name]);
+    }
+
+    ScriptingApi.signals.messageLogged.add(onLog);
+
+    return script.run(params.stage, [], params.namedArgs).then(value => {
+        return {
+            exitCode: ScriptExitCode.SUCCESS,
+            returnValue: toJsonValue(value, true) ?? null,
+            log: log
+        };
+    }, reason => {
+        return {
+            exitCode: ScriptExitCode.SCRIPT_ERROR,
+            returnValue: null,
+            log: log,
+            error: reason && reason.message !== undefined ? reason.message : String(reason)
+        };
+    }).then((result: ScriptRunResult) => {
+        ScriptingApi.signals.messageLogged.remove(onLog);
+        return result;
+    });
+}
+
+/**
+ * Splits the command line into whitespace-separated arguments.
+ * Quotes can be used for values containing whitespace (e.g., name="Jane Doe" or 'a b').
+ * Only the quotes enclosing a quoted part are removed, so the other kind of quotes
+ * can be used inside of it (e.g., "O'Brien").
+ *
+ * @param commandLine command line to split
+ * @returns arguments without the enclosing quotes
+ */
+export function splitCommandLine(commandLine: string): string[] {
+    return (commandLine.match(/(?:[^\s"']+|"[^"]*"|'[^']*')+/g) || [])
+        .map(t => t.replace(/"([^"]*)"|'([^']*)'/g, (m, doubleQuoted, singleQuoted) => doubleQuoted ?? singleQuoted));
+}
+
+/**
+ * Parses named script arguments in the form "name=value".
+ * Values are parsed as JSON if possible (e.g., "n=5", "flag=true", "pos=[1,2,3]"),
+ * otherwise they are kept as strings (e.g., "seq=ACGT").
+ *
+ * @param args arguments to parse
+ * @returns object mapping the argument names to their values
+ * @throws error if some argument is not in the expected form
+ */
+export function parseScriptArguments(args: string[]): { [name: string]: any } {
+    const result: { [name: string]: any } = {};
+
+    for (const arg of args) {
+        const sepIdx = arg.indexOf("=");
+        const name = arg.substring(0, sepIdx);
+
+        if (sepIdx < 0 || !isValidArgumentName(name)) {
+            throw new Error("Invalid script argument: " + arg + " (expected name=value)");
+        }
+
+        const value = arg.substring(sepIdx + 1);
+        try {
+            result[name] = JSON.parse(value);
+        } catch (e) {
+            result[name] = value;
+        }
+    }
+
+    return result;
+}
+
+function isValidArgumentName(name: string): boolean {
+    return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && JSPyScriptReservedVariables.indexOf(name) < 0;
+}
@@ -169,6 +169,26 @@ export function getApiFunctionsList(): [string, string, (...args: any) => any][]
             ScriptingApi.createPeptide,
             "Creates peptide with the given sequence."
         ],
+        [
+            ScriptingApi.applyScaffoldSequence,
+            "Applies (built-in or custom) scaffold sequence to the scaffold strand and makes the paired staples complementary."
+        ],
+        [
+            ScriptingApi.autoStaple,
+            "Generates staples with crossovers for the scaffold strand aligned with a lattice."
+        ],
+        [
+            ScriptingApi.routeScaffold,
+            "Generates a scaffold snaking through the given lattice cells with phase-correct scaffold crossovers."
+        ],
+        [
+            ScriptingApi.updateStrandGeometry,
+            "Recomputes the geometry of nucleic acid strands according to their sequence (e.g., curvature of A-tracts)."
+        ],
+        [
+            ScriptingApi.computeHelicalParameters,
+            "Computes 3DNA-like helical parameters of the double-stranded regions of given component."
+        ],
         [
             ScriptingApi.addSphere,
             "Adds sphere object defined by position, color, and radius."
@@ -249,6 +269,10 @@ export function getApiFunctionsList(): [string, string, (...args: any) => any][]
             ScriptingApi.convertCgComponentToAa,
             "Converts given coarse-grained component to an all-atom one."
         ],
+        [
+            ScriptingApi.convertMeshToWireframeDna,
+            "Converts the polyhedral mesh of given surface component to a DNA wireframe nanostructure."
+        ],
         [
             ScriptingApi.setBackgroundColor,
             "Sets new background color (hexadecimal string) for this scene"
@@ -265,10 +289,26 @@ export function getApiFunctionsList(): [string, string, (...args: any) => any][]
             ScriptingApi.downloadPdb,
             "Downloads given structure (component) as *.pdb file with the provided name."
         ],
+        [
+            ScriptingApi.downloadCif,
+            "Downloads given structure (component) as *.cif (PDBx/mmCIF) file with the provided name."
+        ],
         [
             ScriptingApi.downloadUnf,
             "Downloads given components as *.unf file with the provided name."
         ],
+        [
+            ScriptingApi.downloadStaples,
+            "Downloads staples of given components as *.csv order sheet with plate and well assignment."
+        ],
+        [
+            ScriptingApi.downloadHelicalParameters,
+            "Downloads helical parameters (base-pair and step parameters, axis bending, groove widths) of given component as *.csv file."
+        ],
+        [
+            ScriptingApi.downloadGltf,
+            "Downloads visible components of the scene as *.glb (or *.gltf) file with the provided name."
+        ],
         [
             ScriptingApi.downloadScreenshot,
             "Downloads screenshot from the current point of view."
@@ -1,8 +1,51 @@
-import { addComponentFromSequence, AtomGenerationLimit, AtomProxy, CatanaState, CgMonomerProxy, CgPolymer, CgStructure, CgStructureComponent, ChainProxy, Color, Component, convertAaStrucCompToCgStrucComp, convertCgStrucCompToAaStrucComp, download, duplicateComponentContainingStructure, Euler, Log, Matrix4, MultiObjectsStorage, PdbWriter, PickingProxy, RepresentationElement, ResidueProxy, Shape, Stage, Structure, StructureComponent, UnfWriter, Vector3 } from "../../catana";
+import { Color, Euler, Matrix4, Vector3 } from "three";
+import { Signal } from "signals";
+import { Log } from "../../globals";
+import { download } from "../../utils";
+import Stage from "../../stage/stage";
+import Component from "../../component/component";
+import StructureComponent from "../../component/structure-component";
+import SurfaceComponent from "../../component/surface-component";
+import RepresentationElement from "../../component/representation-element";
+import PickingProxy from "../../controls/picking-proxy";
+import Shape from "../../geometry/shape";
+import Structure from "../../structure/structure";
+import AtomProxy from "../../proxy/atom-proxy";
+import ChainProxy from "../../proxy/chain-proxy";
+import ResidueProxy from "../../proxy/residue-proxy";
+import PdbWriter from "../../writer/pdb-writer";
+import MmcifWriter from "../../writer/mmcif-writer";
+import { CatanaState } from "../actions/catana-state";
+import CgStructureComponent from "../component/cg-structure-component";
+import LatticeComponent from "../component/lattice-component";
+import CgStructure from "../data_model/cg-structure";
+import CgPolymer from "../data_model/cg-polymer";
+import CgMonomerProxy from "../data_model/proxy/cg-monomer-proxy";
+import { AtomGenerationLimit } from "../nanomodeling/atom-generation";
+import { getGltfScene } from "../geometry/gltf-scene";
+import {
+    convertAaStrucCompToCgStrucComp, convertCgStrucCompToAaStrucComp, convertSurfaceCompToWireframeDna, duplicateComponentContainingStructure
+} from "../utils/catana-utils";
+import MultiObjectsStorage from "../utils/multi-objects-storage";
+import UnfWriter from "../writer/unf-writer";
+import GltfWriter from "../writer/gltf-writer";
+import StapleListWriter, { StaplePoolGrouping } from "../writer/staple-list-writer";
+import HelicalParametersWriter from "../writer/helical-parameters-writer";
+import { computeHelicalParameters, HelixParameters } from "../nanomodeling/helical-parameters";
 import Annotation from "../../component/annotation";
 import { degToRad, radToDeg } from "../../math/math-utils";
 import BufferCreator from "../geometry/buffer-creator";
-import { getFastaRecordForStructure } from "../utils/catana-sequence-utils";
+import { addComponentFromSequence, getFastaRecordForStructure, loadScaffoldSequence } from "../utils/catana-sequence-utils";
+import ApplyScaffoldSequenceCommand from "../history/c-apply-scaffold-sequence";
+import AutoStapleCommand from "../history/c-auto-staple";
+import UpdateStrandGeometryCommand from "../history/c-update-strand-geometry";
+import { BDnaSequenceDependentForm } from "../nanomodeling/dna-forms";
+import { generateScaffoldRouting, getScaffoldRoutingSummary } from "../nanomodeling/scaffold-routing";
+import { getScaffoldSequenceLength } from "../nanomodeling/scaffold-sequence";
+import Lattice from "../nanomodeling/lattices/lattice";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import { PlateFormat, WellOrder } from "../nanomodeling/staple-list";
+import { oneLetterCodeToNucleobaseType } from "../data_model/types_declarations/monomer-types";
 import GlobalIdGenerator from "../utils/global-id-generator";
 import { PluginUIElemTypeRecord } from "./plugin-ui";
 import { getApiFunctionsList } from "./scripting-api-funcslist";
@@ -35,6 +78,14 @@ export default abstract class ScriptingApi {
     private static _lastPickProxyLftClick: PickingProxy | undefined;
     private static _lastPickProxyHover: PickingProxy | undefined;
 
+    /**
+     * Signals of the scripting API
+     * - messageLogged: dispatched with the message when {@link ScriptingApi.log} is called
+     */
+    public static readonly signals: { messageLogged: Signal } = {
+        messageLogged: new Signal()
+    };
+
     /**
      * Initializes the class data
      * 
@@ -69,6 +120,7 @@ export default abstract class ScriptingApi {
      */
     public static log(message: any): void {
         Log.log(message);
+        ScriptingApi.signals.messageLogged.dispatch(message);
     }
 
     /**
@@ -123,6 +175,28 @@ export default abstract class ScriptingApi {
         pdbWriter.download(name);
     }
 
+    /**
+     * Downloads given structure (component) as *.cif (PDBx/mmCIF) file with the provided name.
+     * In contrast to PDB files, there are no limits on the number of atoms and on the length of chain names.
+     * For coarse-grained components, the atomistic structure is generated first.
+     * 
+     * @param name name of the file to download (without extension)
+     * @param comp structure component (UUID, name, or object reference) referencing the structure to download
+     */
+    public static downloadCif(name: string, comp: string | Component): void {
+        const c = ScriptingApi.getComponentReference(comp);
+
+        if (c instanceof StructureComponent) {
+            new MmcifWriter(c.structure).download(name);
+        } else if (c instanceof CgStructureComponent) {
+            c.cgStructure.buildAtomicStructure().then(s => {
+                new MmcifWriter(s).download(name);
+            }, e => Log.error(e));
+        } else {
+            Log.error("No structure component to export.");
+        }
+    }
+
     /**
      * Downloads given components as *.unf file with the provided name.
      * 
@@ -135,6 +209,104 @@ export default abstract class ScriptingApi {
         unfWriter.download(name);
     }
 
+    /**
+     * Downloads staples (non-scaffold strands) of the given components as a *.csv order sheet
+     * with the provided name. Each staple is assigned a plate and a well.
+     * 
+     * @example
+     * ScriptingApi.downloadStaples("staples", ["hextube"], "color", "96", "column", "Lattice")
+     * 
+     * @param name name of the file to download (without extension)
+     * @param cgComps coarse-grained components (UUIDs, names, or object references) whose staples should be exported
+     * @param grouping staples are divided into pools by their color ("color"), by their component ("component"), or not at all ("none")
+     * @param plateFormat well plate format ("96" or "384")
+     * @param wellOrder order in which the wells are filled ("row" for A1, A2, ... or "column" for A1, B1, ...)
+     * @param lattice lattice (UUID, name, or object reference) used to describe the locations of the staple ends
+     */
+    public static downloadStaples(name: string, cgComps: (string | Component)[], grouping: StaplePoolGrouping = "none",
+        plateFormat: PlateFormat = "96", wellOrder: WellOrder = "column", lattice?: string | Component): void {
+        const comps = cgComps.map(c => ScriptingApi.getComponentReference(c))
+            .filter(c => c instanceof CgStructureComponent) as CgStructureComponent[];
+        if (comps.length === 0) {
+            Log.error("No coarse-grained components to export staples from.");
+            return;
+        }
+
+        const latticeComp = lattice !== undefined ? ScriptingApi.getComponentReference(lattice) : undefined;
+        if (lattice !== undefined && !(latticeComp instanceof LatticeComponent)) {
+            Log.warn("Lattice not found, locations of the staple ends will not be exported.");
+        }
+
+        const stapleListWriter = new StapleListWriter(comps, {
+            grouping: grouping,
+            plateFormat: plateFormat,
+            wellOrder: wellOrder,
+            lattice: latticeComp instanceof LatticeComponent ? latticeComp : undefined
+        });
+        stapleListWriter.download(name);
+    }
+
+    /**
+     * Downloads 3DNA-like helical parameters (base-pair and base-pair step parameters, helical axis bending,
+     * and groove widths) of the double-stranded regions of the given component as a *.csv file.
+     *
+     * @example
+     * ScriptingApi.downloadHelicalParameters("dsdna-analysis", "dsDNA");
+     *
+     * @param name name of the file to download (without extension)
+     * @param comp structure component (UUID, name, or object reference) to analyze
+     */
+    public static downloadHelicalParameters(name: string, comp: string | Component): void {
+        const c = ScriptingApi.getComponentReference(comp);
+        if (!(c instanceof CgStructureComponent || c instanceof StructureComponent)) {
+            Log.error("Helical parameters can be computed only for structure components.");
+            return;
+        }
+
+        try {
+            new HelicalParametersWriter(c).download(name);
+        } catch (e) {
+            Log.error("Helical parameters could not be computed: " + e);
+        }
+    }
+
+    /**
+     * Computes 3DNA-like helical parameters of the double-stranded regions of the given component.
+     *
+     * @example
+     * const helices = ScriptingApi.computeHelicalParameters("dsDNA");
+     * console.log(helices[0].steps.map(s => s.twist));
+     *
+     * @param comp structure component (UUID, name, or object reference) to analyze
+     * @returns parameters of the individual helices (base-pairs and base-pair steps), or null if they could not be computed
+     */
+    public static computeHelicalParameters(comp: string | Component): HelixParameters[] | null {
+        const c = ScriptingApi.getComponentReference(comp);
+        if (!(c instanceof CgStructureComponent || c instanceof StructureComponent)) {
+            Log.error("Helical parameters can be computed only for structure components.");
+            return null;
+        }
+
+        try {
+            return computeHelicalParameters(c instanceof CgStructureComponent ? c.cgStructure : c.structure);
+        } catch (e) {
+            Log.error("Helical parameters could not be computed: " + e);
+            return null;
+        }
+    }
+
+    /**
+     * Downloads the visible components of the scene as a glTF 2.0 file (e.g., for Blender or AR/VR viewers).
+     * Every component is exported as a node (with its transformation) containing its visible representations.
+     * 
+     * @param name name of the file to download (without extension)
+     * @param binary if true, binary *.glb file is downloaded, otherwise *.gltf file with embedded data
+     */
+    public static downloadGltf(name: string, binary: boolean = true): void {
+        const gltfWriter = new GltfWriter(getGltfScene(ScriptingApi._stage), { binary: binary });
+        gltfWriter.download(name);
+    }
+
     /**
      * Downloads screenshot from the current point of view.
      * 
@@ -1003,6 +1175,197 @@ export default abstract class ScriptingApi {
         });
     }
 
+    /**
+     * Applies scaffold sequence to the scaffold strand of the component and makes
+     * the staples paired with it complementary. Unpaired staple nucleotides,
+     * as well as scaffold nucleotides not covered by the sequence, receive the filler base.
+     *
+     * @example
+     * ScriptingApi.applyScaffoldSequence("hextube", ">scaffold\nAATGCTACTACTATTAGTAGAATTGATGCC", 10).then(ok => console.log(ok));
+     *
+     * @param comp target component's UUID, name, or object reference
+     * @param scaffold name of a built-in scaffold (see BuiltInScaffolds) or a custom (FASTA) sequence
+     * @param startIndex index (counted from the 5' end) of the scaffold nucleotide receiving the first base of the sequence
+     * @param fillerBase base assigned to the unpaired positions
+     * @param strandName name of the scaffold strand; if not provided, the strand marked as scaffold (or the longest one) is used
+     * @returns promise resolving to true if the sequence was applied, false otherwise
+     */
+    public static applyScaffoldSequence(comp: string | Component, scaffold: string, startIndex: number = 0,
+        fillerBase: string = "T", strandName?: string): Promise<boolean> {
+        const c = ScriptingApi.getComponentReference(comp);
+        if (!(c instanceof CgStructureComponent)) {
+            Log.error("Scaffold sequence can be applied only to coarse-grained components.");
+            return Promise.resolve(false);
+        }
+
+        const strands = c.cgStructure.naStrands;
+        const strand = strandName !== undefined ? strands.find(s => s.name === strandName) :
+            (strands.find(s => s.isScaffold) ?? strands.reduce((a, b) => a && a.length >= b.length ? a : b, strands[0]));
+        if (!strand) {
+            Log.error("Scaffold strand not found.");
+            return Promise.resolve(false);
+        }
+
+        return loadScaffoldSequence(scaffold).then(seq => {
+            ScriptingApi._stage.catanaHistory.do(new ApplyScaffoldSequenceCommand(strand, seq, {
+                startIndex: startIndex,
+                fillerBase: oneLetterCodeToNucleobaseType(fillerBase)
+            }));
+            c.updateRepresentations({});
+            return true;
+        }, e => {
+            Log.error("Scaffold sequence could not be loaded: " + e);
+            return false;
+        });
+    }
+
+    /**
+     * Generates staples for the unpaired nucleotides of the scaffold strand aligned with a lattice.
+     * Staple crossovers are placed according to the twist of the lattice and the staples
+     * are broken into the given length range.
+     *
+     * @example
+     * const staples = ScriptingApi.autoStaple("design", "Lattice", 18, 60);
+     *
+     * @param comp target component's UUID, name, or object reference
+     * @param lattice lattice (UUID, name, or object reference) to which the scaffold is aligned; if not provided, the first lattice in the scene is used
+     * @param minLength minimal length of the staples
+     * @param maxLength maximal length of the staples
+     * @param strandName name of the scaffold strand; if not provided, the strand marked as scaffold (or the longest one) is used
+     * @returns generated staples, or null if they could not be generated
+     */
+    public static autoStaple(comp: string | Component, lattice?: string | Component, minLength: number = 18,
+        maxLength: number = 60, strandName?: string): CgNucleicAcidStrand[] | null {
+        const c = ScriptingApi.getComponentReference(comp);
+        if (!(c instanceof CgStructureComponent)) {
+            Log.error("Staples can be generated only for coarse-grained components.");
+            return null;
+        }
+
+        const latticeComp = lattice !== undefined ? ScriptingApi.getComponentReference(lattice) :
+            ScriptingApi._stage.compList.find(lc => lc instanceof LatticeComponent);
+        if (!(latticeComp instanceof LatticeComponent)) {
+            Log.error("Lattice not found.");
+            return null;
+        }
+
+        const strands = c.cgStructure.naStrands;
+        const strand = strandName !== undefined ? strands.find(s => s.name === strandName) :
+            (strands.find(s => s.isScaffold) ?? strands.reduce((a, b) => a && a.length >= b.length ? a : b, strands[0]));
+        if (!strand) {
+            Log.error("Scaffold strand not found.");
+            return null;
+        }
+
+        const command = new AutoStapleCommand(strand, latticeComp.object as Lattice, {
+            minLength: minLength,
+            maxLength: maxLength
+        });
+        ScriptingApi._stage.catanaHistory.do(command);
+        c.updateRepresentations({});
+
+        const result = command.result!;
+        if (result.unalignedScaffoldNucleotides > 0) {
+            Log.warn(result.unalignedScaffoldNucleotides + " scaffold nucleotides are not aligned with the lattice.");
+        }
+
+        return result.staples;
+    }
+
+    /**
+     * Generates a scaffold snaking through the given cells of a lattice, with scaffold crossovers
+     * at phase-correct positions. The numbers of bases of the scaffold sequence left unused by the routing
+     * (or missing to cover it) are logged.
+     *
+     * @example
+     * const comp = ScriptingApi.routeScaffold("Lattice", [[0, 0], [0, 1], [1, 1], [1, 0]], 84, true);
+     *
+     * @param lattice lattice (UUID, name, or object reference) containing the cells
+     * @param cells [row, column] pairs of the lattice cells to route the scaffold through
+     * @param helixLength length of the helices (in base-pairs)
+     * @param isCircular if true, the scaffold will be cyclic
+     * @param scaffold name of a built-in scaffold (see BuiltInScaffolds) or a custom (FASTA) sequence intended for the design
+     * @returns reference to the component containing the generated scaffold, or null if it could not be generated
+     */
+    public static routeScaffold(lattice: string | Component, cells: number[][], helixLength: number,
+        isCircular: boolean = true, scaffold?: string): CgStructureComponent | null {
+        const latticeComp = ScriptingApi.getComponentReference(lattice);
+        if (!(latticeComp instanceof LatticeComponent)) {
+            Log.error("Lattice not found.");
+            return null;
+        }
+
+        const result = generateScaffoldRouting(latticeComp.object as Lattice, cells.map(c => ({ row: c[0], col: c[1] })), {
+            helixLength: helixLength,
+            isCircular: isCircular,
+            scaffoldLength: scaffold !== undefined ? getScaffoldSequenceLength(scaffold) : undefined,
+            name: "Scaffold_" + ScriptingApi._stage.compList.length
+        });
+
+        if (!result.structure) {
+            Log.error("Scaffold routing failed: " + result.error);
+            return null;
+        }
+
+        Log.info(getScaffoldRoutingSummary(result));
+
+        const comp = ScriptingApi._stage.addComponentFromObject(new MultiObjectsStorage([result.structure]))[0] as CgStructureComponent;
+        ScriptingApi._stage.defaultFileRepresentation(comp);
+
+        return comp;
+    }
+
+    /**
+     * Recomputes the geometry of the nucleic acid strands according to their current sequence,
+     * e.g., to reproduce the intrinsic curvature of A-tracts after the sequence was changed.
+     * Paired nucleotides are moved together with the strands.
+     *
+     * @example
+     * ScriptingApi.updateStrandGeometry("dsDNA", "A");
+     *
+     * @param comp target component's UUID, name, or object reference
+     * @param strandName name of the strand to update; if not provided, all strands are updated
+     * (strands fully paired with the already updated ones are skipped)
+     * @param sequenceDependent if true, sequence-dependent B-DNA form (dinucleotide step parameters) is used,
+     * otherwise the current DNA form of the DNA factory is used
+     * @returns number of the updated strands
+     */
+    public static updateStrandGeometry(comp: string | Component, strandName?: string, sequenceDependent: boolean = true): number {
+        const c = ScriptingApi.getComponentReference(comp);
+        if (!(c instanceof CgStructureComponent)) {
+            Log.error("Strand geometry can be updated only for coarse-grained components.");
+            return 0;
+        }
+
+        let strands: CgNucleicAcidStrand[];
+        if (strandName !== undefined) {
+            strands = c.cgStructure.naStrands.filter(s => s.name === strandName);
+        } else {
+            // Longer strands (e.g., scaffolds) determine the geometry of their partners
+            const updated = new Set<CgNucleicAcidStrand>();
+            strands = c.cgStructure.naStrands.slice().sort((a, b) => b.length - a.length).filter(s => {
+                let isFullyPaired = true;
+                s.forEachNucleotide(nt => {
+                    const pair = nt.pairedNucleotide;
+                    isFullyPaired = isFullyPaired && pair !== null && updated.has(pair.parentStrand);
+                });
+                updated.add(s);
+                return !isFullyPaired;
+            });
+        }
+
+        if (strands.length === 0) {
+            Log.error("Strand not found.");
+            return 0;
+        }
+
+        ScriptingApi._stage.catanaHistory.do(new UpdateStrandGeometryCommand(strands,
+            sequenceDependent ? BDnaSequenceDependentForm : undefined));
+        c.updateRepresentations({});
+
+        return strands.length;
+    }
+
     /**
      * Adds colored sphere object to the scene.
      * For addition of multiple spheres, it is recommended to prefer the {@link addSpheres} function.
@@ -1295,6 +1658,35 @@ export default abstract class ScriptingApi {
         );
     }
 
+    /**
+     * Converts the polyhedral mesh of given surface component (e.g., loaded from an OBJ or PLY file)
+     * to a DNA wireframe nanostructure. Each mesh edge is realized by two helices with lengths rounded
+     * to whole helical turns, the scaffold is routed along a spanning tree of the mesh,
+     * and the staples spanning the vertices contain poly-T linkers.
+     * 
+     * @example
+     * ScriptingApi.convertMeshToWireframeDna("tetrahedron", 0, 4);
+     * 
+     * @param comp surface component's UUID, name, or object reference
+     * @param scale Angstroms per mesh unit (if zero, the mesh is scaled so that the shortest edge has the minimal length)
+     * @param minEdgeTurns minimal length of the edges (in helical turns)
+     * @param scaffold name of a built-in scaffold (see BuiltInScaffolds) or a custom (FASTA) sequence intended for the design
+     * @returns promise resolving with newly created component
+     */
+    public static convertMeshToWireframeDna(comp: string | Component, scale: number = 0, minEdgeTurns: number = 3,
+        scaffold?: string): Promise<CgStructureComponent> {
+        const surfaceComp = ScriptingApi.getComponentReference(comp);
+        if (!(surfaceComp instanceof SurfaceComponent)) {
+            return Promise.reject(new Error("Surface component not found."));
+        }
+
+        return convertSurfaceCompToWireframeDna(ScriptingApi._stage, surfaceComp, {
+            scale: scale > 0 ? scale : undefined,
+            minEdgeTurns: minEdgeTurns,
+            scaffoldLength: scaffold !== undefined ? getScaffoldSequenceLength(scaffold) : undefined
+        });
+    }
+
     /**
      * Returns reference to the last object (instance of {@link PickingProxy}) that was 
      * clicked with the left mouse button.
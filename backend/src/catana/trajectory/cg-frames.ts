@@ -0,0 +1,334 @@
+import { Vector3 } from "three";
+import type CgStructure from "../data_model/cg-structure";
+import { NucleicAcidType } from "../data_model/types_declarations/polymer-types";
+import {
+    getOxDnaBackboneCenter, getOxDnaNucleobaseCenter, oxDnaUnitsToAngst, transformStructureFromOxDnaGeometry
+} from "../nanomodeling/nucleic-acid-utils";
+import { indexOxDnaTrajectory, OxDnaTopology, parseOxDnaConfiguration, parseOxDnaTopology } from "../parsers/oxdna-format";
+import FileStreamer from "../../streamer/file-streamer";
+
+/**
+ * Single frame of a coarse-grained trajectory
+ */
+export interface CgFrame {
+    /**
+     * Frame data in the layout described by {@link getCgFrame}
+     */
+    coords: Float32Array,
+    /**
+     * Simulation box stored as a row-major 3x3 matrix (in Angstroms)
+     */
+    box?: ArrayLike<number>
+}
+
+/**
+ * Computes the number of values of a single frame of the given structure
+ */
+export function getCgFrameSize(cgStructure: CgStructure): number {
+    let size = 0;
+    cgStructure.forEachNaStrand(s => size += s.length * 12);
+    cgStructure.forEachAaChain(c => size += c.length * 3);
+    return size;
+}
+
+/**
+ * Stores the current positional data of the structure in a frame array.
+ * For each nucleic acid strand, the nucleobase centers, backbone centers, base normals
+ * and hydrogen face directions are stored one after another (as blocks of "length * 3" values).
+ * They are followed by the C-alpha positions of every amino acid chain.
+ * As all data are stored as triplets, frames can be interpolated like atomic coordinates.
+ *
+ * @param cgStructure structure whose data should be stored
+ * @param coords array to store the data to (allocated if not provided)
+ * @returns array with the frame data
+ */
+export function getCgFrame(cgStructure: CgStructure, coords?: Float32Array): Float32Array {
+    const result = coords ?? new Float32Array(getCgFrameSize(cgStructure));
+    let offset = 0;
+
+    cgStructure.forEachNaStrand(s => {
+        const store = s.nucleotideStore;
+        const n = s.length * 3;
+        for (const arr of [store.nbCenter, store.bbCenter, store.baseNormal, store.hydrogenFaceDir]) {
+            result.set(arr.subarray(0, n), offset);
+            offset += n;
+        }
+    });
+
+    cgStructure.forEachAaChain(c => {
+        const n = c.length * 3;
+        result.set(c.aminoAcidStore.caPosition.subarray(0, n), offset);
+        offset += n;
+    });
+
+    return result;
+}
+
+/**
+ * Writes the frame data (see {@link getCgFrame}) to the structure.
+ * The monomer stores are modified directly so that the atomistic data are not marked dirty.
+ * Direction vectors are normalized as interpolated frames do not have to contain unit vectors.
+ *
+ * @param cgStructure structure to be updated
+ * @param coords frame data
+ */
+export function setCgFrame(cgStructure: CgStructure, coords: Float32Array): void {
+    let offset = 0;
+
+    cgStructure.forEachNaStrand(s => {
+        const store = s.nucleotideStore;
+        const n = s.length * 3;
+
+        store.nbCenter.set(coords.subarray(offset, offset + n));
+        store.bbCenter.set(coords.subarray(offset + n, offset + 2 * n));
+        store.baseNormal.set(coords.subarray(offset + 2 * n, offset + 3 * n));
+        store.hydrogenFaceDir.set(coords.subarray(offset + 3 * n, offset + 4 * n));
+        offset += 4 * n;
+
+        normalizeTriplets(store.baseNormal, n);
+        normalizeTriplets(store.hydrogenFaceDir, n);
+    });
+
+    cgStructure.forEachAaChain(c => {
+        const n = c.length * 3;
+        c.aminoAcidStore.caPosition.set(coords.subarray(offset, offset + n));
+        offset += n;
+    });
+}
+
+function normalizeTriplets(arr: Float32Array, n: number): void {
+    for (let i = 0; i < n; i += 3) {
+        const len = Math.hypot(arr[i], arr[i + 1], arr[i + 2]);
+        if (len > 0) {
+            arr[i] /= len;
+            arr[i + 1] /= len;
+            arr[i + 2] /= len;
+        }
+    }
+}
+
+/**
+ * Source of coarse-grained trajectory frames (the coarse-grained counterpart of NGL's Frames)
+ */
+export abstract class CgFrames {
+    timeOffset: number = 0;
+    deltaTime: number = 1;
+
+    constructor(readonly name: string, readonly path: string) {
+    }
+
+    get type() {
+        return "CgFrames";
+    }
+
+    /**
+     * Number of frames
+     */
+    abstract get frameCount(): number;
+
+    /**
+     * Number of values of a single frame (see {@link getCgFrameSize}), undefined if not known
+     */
+    abstract get frameSize(): number | undefined;
+
+    /**
+     * @param i frame index
+     * @returns promise resolving to the data of the given frame, in the layout of the structure the frames belong to
+     */
+    abstract getFrame(i: number): Promise<CgFrame>;
+}
+
+/**
+ * Frames stored in memory, e.g., recorded with {@link getCgFrame}
+ */
+export class InMemoryCgFrames extends CgFrames {
+    readonly frames: CgFrame[] = [];
+
+    get type() {
+        return "InMemoryCgFrames";
+    }
+
+    get frameCount(): number {
+        return this.frames.length;
+    }
+
+    get frameSize(): number | undefined {
+        return this.frames.length > 0 ? this.frames[0].coords.length : undefined;
+    }
+
+    getFrame(i: number): Promise<CgFrame> {
+        return Promise.resolve(this.frames[i]);
+    }
+
+    /**
+     * Records the current state of the structure as a new frame
+     */
+    addFrame(cgStructure: CgStructure): void {
+        this.frames.push({ coords: getCgFrame(cgStructure) });
+    }
+}
+
+/**
+ * Size of the chunks in which the oxDNA trajectory files are indexed
+ */
+const trajectoryChunkSize = 16 * 1024 * 1024;
+
+/**
+ * Reads the given byte range of the blob. Each byte is converted to one character
+ * so that the character indices correspond to the byte offsets (oxDNA files are ASCII).
+ */
+function readBlobRange(blob: Blob, start: number, end: number): Promise<string> {
+    const streamer = new FileStreamer(blob.slice(start, end), { binary: true });
+    return streamer.read().then(() => streamer.asText());
+}
+
+/**
+ * Finds the configurations stored in an oxDNA trajectory file without keeping its whole content in memory
+ * (see {@link indexOxDnaTrajectory})
+ *
+ * @param trajectory trajectory file
+ * @returns promise resolving to the byte ranges [start, end) of the individual configurations
+ */
+function indexOxDnaTrajectoryBlob(trajectory: Blob): Promise<[number, number][]> {
+    const starts: number[] = [];
+
+    const indexChunk = (offset: number): Promise<void> => {
+        if (offset >= trajectory.size) {
+            return Promise.resolve();
+        }
+        return readBlobRange(trajectory, offset, offset + trajectoryChunkSize).then(text => {
+            // Only complete lines are indexed, the last partial line is read again as a part of the next chunk
+            const end = offset + text.length >= trajectory.size ? text.length : text.lastIndexOf("\n") + 1;
+            if (end === 0) {
+                throw new Error("oxDNA trajectory contains a line longer than " + trajectoryChunkSize + " bytes.");
+            }
+            indexOxDnaTrajectory(text.substring(0, end)).forEach(r => starts.push(offset + r[0]));
+            return indexChunk(offset + end);
+        });
+    };
+
+    return indexChunk(0).then(() =>
+        starts.map((start, i) => [start, i + 1 < starts.length ? starts[i + 1] : trajectory.size] as [number, number]));
+}
+
+/**
+ * Frames of an oxDNA trajectory (a sequence of configurations) belonging to a structure
+ * loaded from the corresponding oxDNA topology. The trajectory file is not read into memory at once,
+ * only the byte ranges of the configurations are stored and each configuration is read and parsed when requested.
+ * The configurations are converted from the oxDNA geometry using the base-pairs of the structure.
+ * Use {@link OxDnaCgFrames.load} to create the frames from a trajectory file.
+ */
+export class OxDnaCgFrames extends CgFrames {
+    private readonly _trajectory: Blob;
+    private readonly _ranges: [number, number][];
+    private readonly _topology: OxDnaTopology;
+    private readonly _scratch: CgStructure;
+
+    /**
+     * @param cgStructure structure the trajectory belongs to (loaded from the given topology)
+     * @param topology content of the oxDNA topology file
+     * @param trajectory oxDNA trajectory file
+     * @param ranges byte ranges [start, end) of the configurations in the trajectory file
+     * @param name name of the trajectory
+     * @throws Error if the topology does not match the structure
+     */
+    constructor(cgStructure: CgStructure, topology: string, trajectory: Blob, ranges: [number, number][],
+        name: string = "oxDNA trajectory") {
+        super(name, name);
+
+        this._topology = parseOxDnaTopology(topology);
+        this._trajectory = trajectory;
+        this._ranges = ranges;
+
+        const strands = cgStructure.naStrands;
+        if (strands.length !== this._topology.strands.length ||
+            strands.some((s, i) => s.length !== this._topology.strands[i].nucleotideIndices.length)) {
+            throw new Error("oxDNA topology does not match the strands of the structure.");
+        }
+
+        // Frames are converted in a copy so that the displayed structure is not modified
+        this._scratch = cgStructure.clone();
+    }
+
+    /**
+     * Indexes the trajectory file and creates the frames. The time offset and the time step
+     * are read from the first two configurations.
+     *
+     * @param cgStructure structure the trajectory belongs to (loaded from the given topology)
+     * @param topology content of the oxDNA topology file
+     * @param trajectory oxDNA trajectory file
+     * @param name name of the trajectory
+     * @returns promise resolving to the frames, rejected if the topology does not match the structure
+     */
+    public static load(cgStructure: CgStructure, topology: string, trajectory: Blob,
+        name: string = "oxDNA trajectory"): Promise<OxDnaCgFrames> {
+        return indexOxDnaTrajectoryBlob(trajectory).then(ranges => {
+            const frames = new OxDnaCgFrames(cgStructure, topology, trajectory, ranges, name);
+            if (ranges.length < 2) {
+                return frames;
+            }
+            return Promise.all([frames.readConfiguration(0), frames.readConfiguration(1)]).then(([c0, c1]) => {
+                const t0 = parseOxDnaConfiguration(c0).time;
+                frames.deltaTime = parseOxDnaConfiguration(c1).time - t0;
+                frames.timeOffset = t0;
+                return frames;
+            });
+        });
+    }
+
+    get type() {
+        return "OxDnaCgFrames";
+    }
+
+    get frameCount(): number {
+        return this._ranges.length;
+    }
+
+    get frameSize(): number {
+        return getCgFrameSize(this._scratch);
+    }
+
+    getFrame(i: number): Promise<CgFrame> {
+        return this.readConfiguration(i).then(text => this.convertConfiguration(i, text));
+    }
+
+    private readConfiguration(i: number): Promise<string> {
+        const range = this._ranges[i];
+        return readBlobRange(this._trajectory, range[0], range[1]);
+    }
+
+    private convertConfiguration(i: number, text: string): CgFrame {
+        const conf = parseOxDnaConfiguration(text);
+
+        if (conf.nucleotides.length !== this._topology.nucleotideCount) {
+            throw new Error("oxDNA configuration " + i + " contains " + conf.nucleotides.length +
+                " nucleotides but the topology contains " + this._topology.nucleotideCount + ".");
+        }
+
+        const nbCenter = new Vector3();
+        const bbCenter = new Vector3();
+        const a1 = new Vector3();
+        const a3 = new Vector3();
+
+        this._scratch.naStrands.forEach((strand, si) => {
+            const store = strand.nucleotideStore;
+            const naType = strand.naType === NucleicAcidType.RNA ? NucleicAcidType.RNA : NucleicAcidType.DNA;
+
+            this._topology.strands[si].nucleotideIndices.forEach((ntIdx, j) => {
+                const nt = conf.nucleotides[ntIdx];
+                store.setNucleobaseCenter(j, nbCenter.copy(getOxDnaNucleobaseCenter(nt.position, nt.a1)));
+                store.setBackboneCenter(j, bbCenter.copy(getOxDnaBackboneCenter(nt.position, nt.a1, nt.a3, naType)));
+                store.setBaseNormal(j, a3.fromArray(nt.a3).normalize());
+                store.setHydrogenFaceDir(j, a1.fromArray(nt.a1).normalize());
+            });
+        });
+
+        transformStructureFromOxDnaGeometry(this._scratch, false);
+
+        const b = conf.box.map(x => x * oxDnaUnitsToAngst);
+        return {
+            coords: getCgFrame(this._scratch),
+            box: [b[0], 0, 0, 0, b[1], 0, 0, 0, b[2]]
+        };
+    }
+}
@@ -0,0 +1,110 @@
+import { Log } from "../../globals";
+import Structure from "../../structure/structure";
+import Trajectory, { TrajectoryParameters } from "../../trajectory/trajectory";
+import TrajectoryPlayer from "../../trajectory/trajectory-player";
+import { defaults } from "../../utils";
+import CgStructure from "../data_model/cg-structure";
+import { CgFrames, getCgFrame, getCgFrameSize, setCgFrame } from "./cg-frames";
+
+/**
+ * Trajectory of a coarse-grained structure. Frames are streamed into the nucleotide and amino acid stores
+ * of the structure (see {@link setCgFrame}), so the regular trajectory player, interpolation
+ * and frame-range loading can be used. Superposition and periodic boundary handling are not supported.
+ */
+class CgTrajectory extends Trajectory {
+    cgStructure: CgStructure;
+    frames: CgFrames;
+    path: string;
+
+    constructor(frames: CgFrames, cgStructure: CgStructure, params: Partial<TrajectoryParameters> = {}) {
+        const p = Object.assign({}, params, {
+            timeOffset: defaults(params.timeOffset, frames.timeOffset),
+            deltaTime: defaults(params.deltaTime, frames.deltaTime),
+            centerPbc: false,
+            removePbc: false,
+            removePeriodicity: false,
+            superpose: false
+        });
+
+        // The atomistic structure is not used, the CG one is set below
+        super("", undefined as unknown as Structure, p);
+
+        this.name = frames.name;
+        this.path = frames.path;
+        this.frames = frames;
+
+        this.setCgStructure(cgStructure);
+        this._loadFrameCount();
+        this.setPlayer(new TrajectoryPlayer(this));
+    }
+
+    get type() {
+        return "cg-frames";
+    }
+
+    /**
+     * Sets the coarse-grained structure to which the frames are written
+     */
+    setCgStructure(cgStructure: CgStructure) {
+        const frameSize = this.frames.frameSize;
+        if (frameSize !== undefined && frameSize !== getCgFrameSize(cgStructure)) {
+            throw new Error("Trajectory frames do not match the structure " + cgStructure.name + ".");
+        }
+
+        this.cgStructure = cgStructure;
+        this.atomCount = cgStructure.monomerCount;
+        this.backboneIndices = [];
+        this.filteringIndices = [];
+        this.structureCoords = getCgFrame(cgStructure);
+
+        this._resetCache();
+        this._saveInitialCoords();
+        this.setFrame(this.currentFrame);
+    }
+
+    setStructure(structure: Structure) {
+        Log.warn("CgTrajectory: atomistic structures are not supported, use setCgStructure instead");
+    }
+
+    setFilter(string: string) {
+        Log.warn("CgTrajectory: superposition is not supported");
+        return this;
+    }
+
+    setParameters(params: Partial<TrajectoryParameters> = {}) {
+        super.setParameters(Object.assign({}, params, {
+            centerPbc: false,
+            removePbc: false,
+            removePeriodicity: false,
+            superpose: false
+        }));
+    }
+
+    _saveInitialCoords() {
+        this.initialCoords = new Float32Array(this.structureCoords);
+    }
+
+    _makeAtomIndices() {
+    }
+
+    _loadFrame(i: number, callback?: Function) {
+        this.frames.getFrame(i).then(frame => {
+            // Frames are copied as the cache must not share data with the frames source
+            this._process(i, frame.box as ArrayLike<number>, new Float32Array(frame.coords), this.frames.frameCount);
+
+            if (typeof callback === "function") {
+                callback();
+            }
+        }, e => Log.error("CgTrajectory: frame " + i + " could not be loaded: " + e));
+    }
+
+    _loadFrameCount() {
+        this._setFrameCount(this.frames.frameCount);
+    }
+
+    _applyCoords(coords: Float32Array, frame?: number) {
+        setCgFrame(this.cgStructure, coords);
+    }
+}
+
+export default CgTrajectory;
@@ -0,0 +1,129 @@
+import StructureComponent from "../../component/structure-component";
+import MultipleAlignment from "../../align/multiple-alignment";
+import { SubstitutionMatrix } from "../../align/alignment";
+import CgStructureComponent from "../component/cg-structure-component";
+import { CgAminoAcidChain } from "../data_model/cg-amino-acid-chain";
+import { monomerTypeToOneLetterCode } from "../data_model/types_declarations/monomer-types";
+
+/**
+ * Protein chain taking part in a multiple sequence alignment
+ */
+export interface MsaSequence {
+    component: StructureComponent | CgStructureComponent,
+    /**
+     * Chain name (all-atom structures) or amino acid chain name (coarse-grained structures)
+     */
+    chainName: string,
+    /**
+     * Amino acid chain (coarse-grained structures only)
+     */
+    polymer?: CgAminoAcidChain,
+    /**
+     * Residue index (all-atom structures) or monomer index within the chain (coarse-grained structures)
+     * of every sequence position
+     */
+    residueIndices: number[],
+    /**
+     * One-letter sequence
+     */
+    sequence: string
+}
+
+/**
+ * Result of {@link alignProteinSequences}
+ */
+export interface StructureMsa {
+    sequences: MsaSequence[],
+    /**
+     * Aligned sequences (one row per sequence, gaps denoted by "-")
+     */
+    rows: string[],
+    /**
+     * Conservation (between 0 and 1) of every alignment column
+     */
+    conservation: number[]
+}
+
+/**
+ * Customizable parameters of the multiple sequence alignment
+ */
+export interface MsaParams {
+    gapPenalty: number,
+    gapExtensionPenalty: number,
+    substMatrix: SubstitutionMatrix
+}
+
+/**
+ * @param component all-atom or coarse-grained structure component
+ * @returns protein chains of the component
+ */
+export function getProteinSequences(component: StructureComponent | CgStructureComponent): MsaSequence[] {
+    const result: MsaSequence[] = [];
+
+    if (component instanceof StructureComponent) {
+        component.structure.eachChain(cp => {
+            const residueIndices: number[] = [];
+            let sequence = "";
+
+            cp.eachResidue(rp => {
+                if (rp.isProtein()) {
+                    residueIndices.push(rp.index);
+                    sequence += rp.getResname1();
+                }
+            });
+
+            if (sequence.length > 0) {
+                result.push({ component, chainName: cp.chainname, residueIndices, sequence });
+            }
+        });
+    } else {
+        component.cgStructure.forEachAaChain(chain => {
+            if (chain.length === 0) return;
+            result.push({
+                component,
+                chainName: chain.name,
+                polymer: chain,
+                residueIndices: chain.sequence.map((_, i) => i),
+                sequence: chain.sequence.map(t => monomerTypeToOneLetterCode(t)).join("")
+            });
+        });
+    }
+
+    return result;
+}
+
+/**
+ * Computes progressive multiple sequence alignment (see {@link MultipleAlignment}) of the given protein chains
+ *
+ * @param sequences protein chains to be aligned (e.g., obtained via {@link getProteinSequences})
+ * @param params alignment parameters
+ * @returns alignment together with the conservation of the alignment columns
+ */
+export function alignProteinSequences(sequences: MsaSequence[], params: Partial<MsaParams> = {}): StructureMsa {
+    const msa = new MultipleAlignment(sequences.map(s => s.sequence),
+        params.gapPenalty ?? -10, params.gapExtensionPenalty ?? -1, params.substMatrix ?? "blosum62");
+    msa.calc();
+
+    return {
+        sequences: sequences,
+        rows: msa.rows,
+        conservation: msa.conservation
+    };
+}
+
+/**
+ * @param msa multiple sequence alignment
+ * @param row index of the aligned sequence
+ * @param column alignment column
+ * @returns residue (or monomer) index of the given sequence in the given alignment column, or -1 in case of a gap
+ */
+export function getMsaResidueIndex(msa: StructureMsa, row: number, column: number): number {
+    const aligned = msa.rows[row];
+    if (aligned[column] === "-") return -1;
+
+    let position = 0;
+    for (let i = 0; i < column; ++i) {
+        if (aligned[i] !== "-") ++position;
+    }
+    return msa.sequences[row].residueIndices[position];
+}
@@ -0,0 +1,327 @@
+import type CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+
+/**
+ * Experimental conditions used for the melting temperature computation
+ */
+export interface SequenceAnalysisParameters {
+    /**
+     * Total strand concentration (M)
+     */
+    oligoConcentration: number,
+    /**
+     * Concentration of monovalent cations (M)
+     */
+    naConcentration: number,
+    /**
+     * Concentration of Mg2+ ions (M)
+     */
+    mgConcentration: number,
+    /**
+     * Minimal number of unpaired nucleotides in a hairpin loop
+     */
+    minHairpinLoop: number
+}
+
+/**
+ * Default conditions roughly corresponding to a DNA origami folding buffer
+ */
+export const SequenceAnalysisDefaultParameters: SequenceAnalysisParameters = {
+    oligoConcentration: 100e-9,
+    naConcentration: 0.05,
+    mgConcentration: 0.0125,
+    minHairpinLoop: 3
+};
+
+/**
+ * Sequence to be analyzed
+ */
+export interface SequenceAnalysisInput {
+    name: string,
+    /**
+     * Sequence written 5' to 3' using one-letter codes
+     */
+    sequence: string,
+    /**
+     * Indices of the (intended) binding partners which are excluded from the off-target search
+     */
+    partners?: number[]
+}
+
+/**
+ * Result of the sequence analysis of one strand
+ */
+export interface SequenceAnalysisResult {
+    name: string,
+    length: number,
+    /**
+     * Fraction (0-1) of G and C bases
+     */
+    gcContent: number,
+    /**
+     * Nearest-neighbour melting temperature (°C) of the strand bound to its full complement,
+     * NaN if it cannot be computed (e.g., for sequences containing unknown bases)
+     */
+    meltingTemperature: number,
+    /**
+     * Length of the longest run of identical bases
+     */
+    longestRun: number,
+    longestRunBase: string,
+    /**
+     * Number of base pairs of the longest hairpin stem
+     */
+    hairpinStem: number,
+    /**
+     * Length of the longest stretch complementary to another copy of the same strand
+     */
+    selfDimer: number,
+    /**
+     * Length of the longest stretch complementary to any other (non-partner) strand
+     */
+    offTarget: number,
+    /**
+     * Name of the strand with the longest off-target complementarity (empty if there is none)
+     */
+    offTargetStrand: string
+}
+
+/**
+ * Unified nearest-neighbour parameters [dH (kcal/mol), dS (cal/(K*mol))] of DNA duplexes in 1 M NaCl
+ * taken from SantaLucia, PNAS 95 (1998). Remaining steps are obtained through their complements.
+ */
+const NearestNeighbourParams: { [step: string]: [number, number] } = {
+    "AA": [-7.9, -22.2],
+    "AT": [-7.2, -20.4],
+    "TA": [-7.2, -21.3],
+    "CA": [-8.5, -22.7],
+    "GT": [-8.4, -22.4],
+    "CT": [-7.8, -21.0],
+    "GA": [-8.2, -22.2],
+    "CG": [-10.6, -27.2],
+    "GC": [-9.8, -24.4],
+    "GG": [-8.0, -19.9]
+};
+
+const InitiationGcParams: [number, number] = [0.1, -2.8];
+const InitiationAtParams: [number, number] = [2.3, 4.1];
+const SymmetryEntropy = -1.4;
+const GasConstant = 1.987;
+
+const Complements: { [base: string]: string } = { "A": "T", "T": "A", "U": "A", "G": "C", "C": "G" };
+
+/**
+ * Converts the sequence to upper case DNA one-letter codes (uracil is treated as thymine)
+ */
+function normalizeSequence(sequence: string): string {
+    return sequence.toUpperCase().replace(/U/g, "T");
+}
+
+function getReverseComplement(sequence: string): string {
+    let result = "";
+    for (let i = sequence.length - 1; i >= 0; --i) {
+        result += Complements[sequence[i]] ?? "N";
+    }
+    return result;
+}
+
+/**
+ * @returns fraction (0-1) of G and C bases in the sequence
+ */
+export function getGcContent(sequence: string): number {
+    if (sequence.length === 0) {
+        return 0;
+    }
+    const gc = sequence.toUpperCase().split("").filter(c => c === "G" || c === "C").length;
+    return gc / sequence.length;
+}
+
+/**
+ * Computes the melting temperature of the duplex formed by the sequence and its full complement
+ * using the nearest-neighbour model (SantaLucia, 1998). The salt correction of the entropy uses
+ * the Na+ equivalent concentration [Na+] + 120 * sqrt([Mg2+]) (in mM) proposed by von Ahsen et al. (2001).
+ * RNA sequences are approximated by their DNA counterparts.
+ *
+ * @param sequence sequence written 5' to 3'
+ * @param params experimental conditions
+ * @returns melting temperature in °C, NaN if the sequence is shorter than two bases or contains unknown bases
+ */
+export function getMeltingTemperature(sequence: string, params: Partial<SequenceAnalysisParameters> = {}): number {
+    const p = Object.assign({}, SequenceAnalysisDefaultParameters, params);
+    const seq = normalizeSequence(sequence);
+
+    if (seq.length < 2 || /[^ACGT]/.test(seq)) {
+        return NaN;
+    }
+
+    let dH = 0;
+    let dS = 0;
+
+    for (let i = 0; i < seq.length - 1; ++i) {
+        const step = seq.substr(i, 2);
+        const nn = NearestNeighbourParams[step] ?? NearestNeighbourParams[getReverseComplement(step)];
+        dH += nn[0];
+        dS += nn[1];
+    }
+
+    for (const terminal of [seq[0], seq[seq.length - 1]]) {
+        const init = terminal === "G" || terminal === "C" ? InitiationGcParams : InitiationAtParams;
+        dH += init[0];
+        dS += init[1];
+    }
+
+    const selfComplementary = seq === getReverseComplement(seq);
+    if (selfComplementary) {
+        dS += SymmetryEntropy;
+    }
+
+    const naEquivalent = p.naConcentration + 120 * Math.sqrt(p.mgConcentration * 1000) / 1000;
+    dS += 0.368 * (seq.length - 1) * Math.log(naEquivalent);
+
+    const x = selfComplementary ? 1 : 4;
+    return 1000 * dH / (dS + GasConstant * Math.log(p.oligoConcentration / x)) - 273.15;
+}
+
+/**
+ * @returns the longest run of identical bases
+ */
+export function getLongestRun(sequence: string): { base: string, length: number } {
+    const seq = sequence.toUpperCase();
+    let best = { base: "", length: 0 };
+    let runLength = 0;
+
+    for (let i = 0; i < seq.length; ++i) {
+        runLength = i > 0 && seq[i] === seq[i - 1] ? runLength + 1 : 1;
+        if (runLength > best.length) {
+            best = { base: seq[i], length: runLength };
+        }
+    }
+
+    return best;
+}
+
+/**
+ * @param sequence sequence written 5' to 3'
+ * @param minLoop minimal number of unpaired nucleotides in the loop
+ * @returns number of base pairs of the longest stem of a hairpin the strand can form with itself
+ */
+export function getHairpinStem(sequence: string, minLoop: number = SequenceAnalysisDefaultParameters.minHairpinLoop): number {
+    const seq = normalizeSequence(sequence);
+    const n = seq.length;
+    let best = 0;
+
+    // Pairs (i, j) with the same i + j lie on one stem.
+    // They are traversed from the loop outwards while counting the consecutive complementary pairs.
+    for (let sum = 1; sum < 2 * n - 2; ++sum) {
+        let run = 0;
+        for (let i = Math.floor((sum - 1) / 2); i >= 0; --i) {
+            const j = sum - i;
+            if (j >= n) {
+                break;
+            }
+            if (j - i - 1 < minLoop) {
+                continue;
+            }
+            run = Complements[seq[i]] === seq[j] ? run + 1 : 0;
+            best = Math.max(best, run);
+        }
+    }
+
+    return best;
+}
+
+/**
+ * @returns length of the longest stretch of the first sequence complementary (antiparallel) to a stretch of the second one
+ */
+export function getLongestComplementarity(sequenceA: string, sequenceB: string): number {
+    // Longest common substring of the first sequence and the reverse complement of the second one
+    const a = normalizeSequence(sequenceA);
+    const b = getReverseComplement(normalizeSequence(sequenceB));
+    let prev = new Uint32Array(b.length + 1);
+    let curr = new Uint32Array(b.length + 1);
+    let best = 0;
+
+    for (let i = 1; i <= a.length; ++i) {
+        for (let j = 1; j <= b.length; ++j) {
+            curr[j] = a[i - 1] === b[j - 1] && b[j - 1] !== "N" ? prev[j - 1] + 1 : 0;
+            best = Math.max(best, curr[j]);
+        }
+        [prev, curr] = [curr, prev];
+    }
+
+    return best;
+}
+
+/**
+ * Analyzes the given sequences. Off-target complementarity of each sequence is computed against
+ * all other sequences except its partners.
+ *
+ * @param sequences sequences to be analyzed
+ * @param params experimental conditions
+ * @returns analysis results in the same order as the given sequences
+ */
+export function analyzeSequences(sequences: SequenceAnalysisInput[],
+    params: Partial<SequenceAnalysisParameters> = {}): SequenceAnalysisResult[] {
+    const p = Object.assign({}, SequenceAnalysisDefaultParameters, params);
+
+    return sequences.map((s, i) => {
+        const run = getLongestRun(s.sequence);
+        let offTarget = 0;
+        let offTargetStrand = "";
+
+        sequences.forEach((other, j) => {
+            if (i === j || (s.partners && s.partners.indexOf(j) !== -1)) {
+                return;
+            }
+            const compl = getLongestComplementarity(s.sequence, other.sequence);
+            if (compl > offTarget) {
+                offTarget = compl;
+                offTargetStrand = other.name;
+            }
+        });
+
+        return {
+            name: s.name,
+            length: s.sequence.length,
+            gcContent: getGcContent(s.sequence),
+            meltingTemperature: getMeltingTemperature(s.sequence, p),
+            longestRun: run.length,
+            longestRunBase: run.base,
+            hairpinStem: getHairpinStem(s.sequence, p.minHairpinLoop),
+            selfDimer: getLongestComplementarity(s.sequence, s.sequence),
+            offTarget: offTarget,
+            offTargetStrand: offTargetStrand
+        };
+    });
+}
+
+/**
+ * Analyzes sequences of the given nucleic acid strands.
+ * Strands paired with each other (e.g., the scaffold and its staples) are not considered as off-targets.
+ *
+ * @param strands strands to be analyzed
+ * @param params experimental conditions
+ * @returns analysis results in the same order as the given strands
+ */
+export function analyzeStrandSequences(strands: CgNucleicAcidStrand[],
+    params: Partial<SequenceAnalysisParameters> = {}): SequenceAnalysisResult[] {
+    const inputs: SequenceAnalysisInput[] = strands.map(strand => {
+        const partners = new Set<number>();
+        strand.forEachNucleotide(nt => {
+            const pair = nt.pairedNucleotide;
+            if (pair) {
+                const idx = strands.indexOf(pair.parentStrand);
+                if (idx !== -1) {
+                    partners.add(idx);
+                }
+            }
+        });
+
+        return {
+            name: strand.name,
+            sequence: strand.sequence.join(""),
+            partners: Array.from(partners)
+        };
+    });
+
+    return analyzeSequences(inputs, params);
+}
@@ -7,8 +7,10 @@ import { Log } from "../../globals";
 import StructureComponent from "../../component/structure-component";
 import CgStructureComponent from "../component/cg-structure-component";
 import Filter from "../../filtering/filter";
-import { monomerTypeToOneLetterCode } from "../data_model/types_declarations/monomer-types";
+import { monomerTypeToOneLetterCode, NucleobaseType } from "../data_model/types_declarations/monomer-types";
 import { Component } from "../../catana";
+import { autoLoad } from "../../loader/loader-utils";
+import { getBuiltInScaffold, parseFastaSequence, validateBuiltInScaffoldSequence } from "../nanomodeling/scaffold-sequence";
 
 export const PROTEIN_VALUES_THREE_LETTER = [
     "ALA", "ARG", "ASN", "ASP",
@@ -241,4 +243,26 @@ function getFastaHeaderLine(strucName: string, chainName: string, chainLen: numb
     return ">" + strucName + "|Chain " + chainName + "|Len " + chainLen + "\n";
 }
 
+/**
+ * Retrieves the scaffold sequence
+ *
+ * @param scaffold name of a built-in scaffold (see BuiltInScaffolds)
+ * or the sequence itself (plain or FASTA-formatted)
+ * @returns promise resolving to the scaffold sequence (rejected if the sequence of a built-in scaffold
+ * cannot be loaded or has unexpected length)
+ */
+export function loadScaffoldSequence(scaffold: string): Promise<NucleobaseType[]> {
+    const builtIn = getBuiltInScaffold(scaffold.trim());
+    if (!builtIn) {
+        return Promise.resolve(parseFastaSequence(scaffold));
+    }
 
+    return autoLoad(builtIn.path, { ext: "txt" }).then((text: { data: string }) => {
+        const seq = parseFastaSequence(text.data);
+        validateBuiltInScaffoldSequence(builtIn, seq);
+        return seq;
+    }, () => {
+        throw new Error("Sequence of the built-in scaffold " + builtIn.name + " is not available (" + builtIn.path +
+            " could not be loaded).");
+    });
+}
@@ -0,0 +1,206 @@
+import { Matrix4, Quaternion, Vector3 } from "three";
+import type Stage from "../../stage/stage";
+import Component from "../../component/component";
+import Shape, { Primitives } from "../../geometry/shape";
+import { ColormakerRegistry, Log } from "../../globals";
+import { Lattice } from "../nanomodeling/lattices/lattice";
+import { SquareLattice } from "../nanomodeling/lattices/square-lattice";
+import { HoneycombLattice } from "../nanomodeling/lattices/honeycomb-lattice";
+import {
+    SessionComponentData,
+    SessionData,
+    SessionLatticeData,
+    SessionRepresentationData,
+    SessionShapeData
+} from "../parsers/session-format";
+import MultiObjectsStorage from "./multi-objects-storage";
+
+/**
+ * Parsed Catana session which can be restored on the stage.
+ * Instances are created by the CatanaSessionParser, i.e., when a session file is loaded via Stage.loadFile,
+ * the session is restored automatically (see Stage.addComponentFromObject).
+ * Embedded scripts are not run unless {@link CatanaSession.runAttachedScripts} is enabled (see Stage.loadSession).
+ */
+export class CatanaSession {
+    private readonly _data: SessionData;
+    private readonly _structures: (MultiObjectsStorage | undefined)[];
+
+    /**
+     * If true, the scripts which were attached to the update loop when the session was saved are attached again.
+     * As this runs the code embedded in the session file, it should be enabled only after the user confirmed it.
+     * Otherwise, the scripts are only restored and can be run manually.
+     */
+    public runAttachedScripts: boolean = false;
+
+    /**
+     * @param data session data
+     * @param structures parsed UNF data of the session components
+     * (at the same index as the corresponding component; undefined for non-structure components)
+     */
+    public constructor(data: SessionData, structures: (MultiObjectsStorage | undefined)[]) {
+        this._data = data;
+        this._structures = structures;
+    }
+
+    public get type(): string {
+        return "Catana Session";
+    }
+
+    public get data(): SessionData {
+        return this._data;
+    }
+
+    /**
+     * Names of the scripts which were attached to the update loop when the session was saved
+     */
+    public get attachedScriptNames(): string[] {
+        return this._data.scripts.filter(s => s.attachedToUpdate).map(s => s.name);
+    }
+
+    /**
+     * Creates the components stored in the session and restores
+     * the camera, stage parameters, plugins and scripts
+     *
+     * @param stage stage where the session should be restored
+     * @returns newly created components
+     */
+    public restore(stage: Stage): Component[] {
+        const components: Component[] = [];
+
+        // The added components are undone together
+        stage.catanaHistory.beginGroup("Restore session");
+        this._data.components.forEach((c, i) => {
+            try {
+                components.push(...this.restoreComponent(stage, c, this._structures[i]));
+            } catch (e) {
+                Log.error("Session component '" + c.name + "' could not be restored: " + e);
+            }
+        });
+        stage.catanaHistory.endGroup();
+
+        stage.setParameters(this._data.stageParameters);
+        if (this._data.cameraOrientation.length === 16) {
+            stage.viewerControls.orient(new Matrix4().fromArray(this._data.cameraOrientation));
+        }
+
+        this.restoreScripts(stage);
+
+        return components;
+    }
+
+    private restoreComponent(stage: Stage, data: SessionComponentData,
+        structures: MultiObjectsStorage | undefined): Component[] {
+        let objects: any[];
+
+        if (data.type === "structure" || data.type === "cg-structure") {
+            objects = structures?.storedObjects ?? [];
+        } else if (data.type === "lattice") {
+            objects = [CatanaSession.createLattice(data.data as SessionLatticeData)];
+        } else {
+            objects = [CatanaSession.createShape(data.data as SessionShapeData)];
+        }
+
+        const components: Component[] = [];
+        for (const o of objects) {
+            // Objects are added one by one (i.e., not as a MultiObjectsStorage)
+            // so that the representations stored in UNF are not created.
+            const comp = stage.addComponentFromObject(o, { name: data.name })[0];
+
+            comp.setPosition(new Vector3().fromArray(data.position));
+            comp.setRotation(new Quaternion().fromArray(data.quaternion));
+            comp.setScale(data.scale);
+
+            data.representations.forEach(r => CatanaSession.restoreRepresentation(comp, r));
+            data.annotations.forEach(a => comp.addAnnotation(new Vector3().fromArray(a.position), a.content, {
+                offsetX: a.offsetX,
+                offsetY: a.offsetY,
+                visible: a.visible,
+                applyFog: a.applyFog
+            }));
+
+            comp.setVisibility(data.visible);
+            comp.setLocked(data.locked);
+            components.push(comp);
+        }
+
+        return components;
+    }
+
+    private restoreScripts(stage: Stage): void {
+        const pluginManager = stage.pluginManager;
+
+        this._data.plugins.forEach(p => {
+            if (p && typeof p.name === "string" && pluginManager.getPlugin(p.name) === undefined) {
+                pluginManager.addPluginRecord(p);
+            }
+        });
+
+        this._data.scripts.forEach(s => {
+            const existing = pluginManager.loadedScripts.find(x => x.name === s.name && x.scope === s.scope);
+            if (existing) {
+                Log.warn("Script '" + existing.getFullName() + "' is already loaded and will not be restored.");
+                return;
+            }
+
+            pluginManager.addScript(pluginManager.getScriptInstance(s.source, s.type), s.name, s.scope);
+            if (s.attachedToUpdate) {
+                const record = pluginManager.loadedScripts.find(x => x.name === s.name && x.scope === s.scope);
+                if (!record) {
+                    return;
+                }
+                if (this.runAttachedScripts) {
+                    pluginManager.attachToUpdate(record.uuid);
+                } else {
+                    Log.info("Script '" + record.getFullName() + "' was restored but not attached to the update loop.");
+                }
+            }
+        });
+    }
+
+    private static restoreRepresentation(comp: Component, data: SessionRepresentationData): void {
+        const reprElem = comp.addRepresentation(data.type, data.params);
+        if (!reprElem) {
+            Log.warn("Representation '" + data.type + "' could not be restored for component '" + comp.name + "'.");
+            return;
+        }
+
+        reprElem.setName(data.name);
+        if (data.filter) {
+            reprElem.setFilter(data.filter);
+        }
+        if (data.colorDataList) {
+            reprElem.setColor(ColormakerRegistry.addFilterScheme(data.colorDataList as any));
+        }
+    }
+
+    private static createLattice(data: SessionLatticeData): Lattice {
+        const matrix = new Matrix4().fromArray(data.matrix);
+        return data.latticeType === "square"
+            ? new SquareLattice(data.width, data.height, data.cellDiameter, matrix)
+            : new HoneycombLattice(data.width, data.height, data.cellDiameter, matrix);
+    }
+
+    private static createShape(data: SessionShapeData): Shape {
+        const shape = new Shape(data.name, data.params);
+
+        Primitives.forEach(P => {
+            const keys = Object.keys(P.fields).concat("name").map(f => P.getShapeKey(f));
+            keys.forEach(k => {
+                const values = data.primitives[k];
+                if (Array.isArray(values)) {
+                    // Missing names are stored as null
+                    shape._primitiveData[k] = values.map(v => v === null ? undefined : v);
+                }
+            });
+
+            const count = shape._primitiveData[P.getShapeKey("name")].length;
+            for (let i = 0; i < count; ++i) {
+                P.expandBoundingBox(shape.boundingBox, P.objectFromShape(shape, i));
+            }
+        });
+
+        return shape;
+    }
+}
+
+export default CatanaSession;
@@ -1,10 +1,12 @@
 import StructureComponent from "../../component/structure-component";
-import { Component, getDataInfo, Structure } from "../../catana";
+import Component from "../../component/component";
+import { DatasourceRegistry, Log } from "../../globals";
+import Structure from "../../structure/structure";
 import Stage from "../../stage/stage";
 import { appendStructures } from "../../structure/structure-utils";
 import Representation from "../../representation/representation";
 import RepresentationElement from "../../component/representation-element";
-import { Matrix3, Matrix4, OrthographicCamera, PerspectiveCamera, Vector2, Vector3 } from "three";
+import { Matrix3, Matrix4, OrthographicCamera, PerspectiveCamera, Quaternion, Vector2, Vector3 } from "three";
 import CgStructure from "../data_model/cg-structure";
 import GlobalIdGenerator from "./global-id-generator";
 import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
@@ -13,6 +15,9 @@ import CgStructureComponent from "../component/cg-structure-component";
 import MultiObjectsStorage from "./multi-objects-storage";
 import { ComponentParameters } from "../../component/component";
 import { convertAllAtomStructureToCoarseGrained } from "../nanomodeling/aa-to-cg-structure-conversion";
+import { generateWireframeDna, getWireframeDnaSummary, WireframeDnaParameters } from "../nanomodeling/wireframe-dna";
+import SurfaceComponent from "../../component/surface-component";
+import { computeSuperposition, SuperpositionParameters, SuperpositionResult } from "../../align/align-utils";
 
 export const EPSLON = 0.001;
 
@@ -166,6 +171,51 @@ export function duplicateComponentContainingStructure(stage: Stage, component: S
     return newComp;
 }
 
+/**
+ * Superposes the structure of one component onto the structure of another one.
+ * The superposition is computed in world space (i.e., the component transformations are taken into account)
+ * and applied to the placement (position and rotation) of the component, so its structural data remain untouched.
+ *
+ * @param component component to be superposed
+ * @param target component onto which the other one is superposed
+ * @param params superposition parameters (the component matrices are used as the world transformations)
+ * @returns world-space transformation together with the RMSD and the number of aligned pairs
+ */
+export function superposeComponents(component: StructureComponent | CgStructureComponent, target: StructureComponent | CgStructureComponent,
+    params: Partial<SuperpositionParameters> = {}): SuperpositionResult {
+    const getStructure = (c: StructureComponent | CgStructureComponent) => c instanceof StructureComponent ? c.structure : c.cgStructure;
+
+    const result = computeSuperposition(getStructure(component), getStructure(target),
+        Object.assign({}, params, { matrix1: component.matrix, matrix2: target.matrix }));
+
+    applyWorldTransformation(component, result.matrix);
+
+    return result;
+}
+
+/**
+ * Applies a rigid world-space transformation to the component by updating its position and rotation
+ *
+ * @param component component to be transformed
+ * @param matrix rigid transformation (rotation and translation)
+ */
+export function applyWorldTransformation(component: Component, matrix: Matrix4): void {
+    // Component matrix equals transform * T(position + center) * R * S * T(-center) (see Component.updateMatrix),
+    // so the transformation is expressed in the frame of the "transform" matrix and merged with the position and rotation
+    const localMatrix = new Matrix4().getInverse(component.transform).multiply(matrix).multiply(component.transform);
+
+    const translation = new Vector3();
+    const rotation = new Quaternion();
+    localMatrix.decompose(translation, rotation, new Vector3());
+
+    const center = component.getCenterUntransformed(new Vector3()) as Vector3;
+    const position = component.position.clone().add(center).applyQuaternion(rotation).add(translation).sub(center);
+
+    component.setRotation(rotation.multiply(component.quaternion));
+    component.setPosition(position);
+    component.updateRepresentationMatrices();
+}
+
 /**
  * @returns current cursor style being used by the document body
  */
@@ -196,7 +246,7 @@ export function setCursorTypeUrl(newStyleUrl: string): void {
  * @param newStyle style to set
  */
 export function setCursorTypeCustom(newStyle: "change" | "remove" | "plus"): void {
-    setCursorTypeUrl(getDataInfo("catana://cursors/" + newStyle + ".cur").src as string);
+    setCursorTypeUrl(DatasourceRegistry.get("catana").getUrl("catana://cursors/" + newStyle + ".cur"));
 }
 
 /**
@@ -621,6 +671,39 @@ export function convertCgStrucCompToAaStrucComp(stage: Stage, component: CgStruc
     });
 }
 
+/**
+ * Converts the polyhedral mesh of given surface component to a DNA wireframe nanostructure
+ * (see {@link generateWireframeDna}). The surface component is kept.
+ * 
+ * @param stage stage instance
+ * @param component surface component to convert
+ * @param params parameters of the wireframe generation
+ * @returns promise resolving with the newly created coarse-grained structure component
+ */
+export function convertSurfaceCompToWireframeDna(stage: Stage, component: SurfaceComponent,
+    params: Partial<WireframeDnaParameters> = {}): Promise<CgStructureComponent> {
+    return new Promise((resolve, reject) => {
+        try {
+            const result = generateWireframeDna(component.surface, Object.assign({ name: component.name + "_wireframe" }, params));
+            if (!result.structure) {
+                reject(new Error(getWireframeDnaSummary(result)));
+                return;
+            }
+
+            Log.info(getWireframeDnaSummary(result));
+
+            const c = stage.addComponentFromObject(new MultiObjectsStorage([result.structure]))[0] as CgStructureComponent;
+            c.setPosition(component.position);
+            c.setRotation(component.quaternion);
+
+            stage.defaultFileRepresentation(c);
+            resolve(c);
+        } catch (e) {
+            reject(e);
+        }
+    });
+}
+
 /**
  * Converts given all-atom structure component to coarse-grained structure component.
  * Old component is removed during the process.
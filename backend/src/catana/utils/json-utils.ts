@@ -0,0 +1,76 @@
+import { Color, Vector3 } from "three";
+import CgStructure from "../data_model/cg-structure";
+import Structure from "../../structure/structure";
+import Component from "../../component/component";
+
+/**
+ * Converts the value to its JSON-compatible counterpart.
+ * Numbers, strings, booleans, arrays (including typed arrays) and plain objects are converted recursively.
+ * Values which cannot be converted (undefined, functions, non-finite numbers, cyclic references, ...)
+ * are omitted from objects and replaced by null in arrays, as done by JSON.stringify.
+ *
+ * @param value value to be converted
+ * @param convertInstances if true, class instances are converted as well: vectors to arrays,
+ * colors to hexadecimal strings, components and structures to short descriptions, sets to arrays,
+ * maps and other objects to plain objects with their own properties.
+ * Otherwise, class instances cannot be converted.
+ * @returns JSON-compatible value or undefined if the value cannot be converted
+ */
+export function toJsonValue(value: any, convertInstances: boolean = false): any {
+    return convertValue(value, convertInstances, new Set());
+}
+
+function convertValue(value: any, convertInstances: boolean, visited: Set<any>): any {
+    if (value === null || typeof value === "string" || typeof value === "boolean") {
+        return value;
+    } else if (typeof value === "number") {
+        return isFinite(value) ? value : undefined;
+    } else if (typeof value !== "object" || visited.has(value)) {
+        return undefined;
+    }
+
+    const isPlain = Array.isArray(value) || ArrayBuffer.isView(value) || Object.getPrototypeOf(value) === Object.prototype;
+    if (!isPlain && !convertInstances) {
+        return undefined;
+    } else if (value instanceof Vector3) {
+        return value.toArray();
+    } else if (value instanceof Color) {
+        return "#" + value.getHexString();
+    } else if (value instanceof Component) {
+        return { type: value.type, name: value.name, uuid: value.uuid };
+    } else if (value instanceof Structure) {
+        return {
+            type: "structure", name: value.name, chainCount: value.chainStore.count,
+            residueCount: value.residueStore.count, atomCount: value.atomCount
+        };
+    } else if (value instanceof CgStructure) {
+        return {
+            type: "cg-structure", name: value.name, polymerCount: value.polymerCount,
+            monomerCount: value.monomerCount
+        };
+    }
+
+    visited.add(value);
+
+    let result: any;
+    if (Array.isArray(value) || ArrayBuffer.isView(value) || value instanceof Set) {
+        result = Array.from(value as ArrayLike<any>, v => convertValue(v, convertInstances, visited) ?? null);
+    } else if (value instanceof Map) {
+        result = {};
+        value.forEach((v, k) => setProperty(result, String(k), convertValue(v, convertInstances, visited)));
+    } else if (!isPlain && typeof value.toJSON === "function") {
+        result = convertValue(value.toJSON(), convertInstances, visited);
+    } else {
+        result = {};
+        Object.keys(value).forEach(k => setProperty(result, k, convertValue(value[k], convertInstances, visited)));
+    }
+
+    visited.delete(value);
+    return result;
+}
+
+function setProperty(obj: { [k: string]: any }, key: string, value: any): void {
+    if (value !== undefined) {
+        obj[key] = value;
+    }
+}
@@ -0,0 +1,140 @@
+import {
+    BufferAttribute,
+    Color,
+    DoubleSide,
+    InstancedBufferAttribute,
+    InstancedBufferGeometry,
+    Mesh,
+    ShaderMaterial,
+    Vector3
+} from "three";
+import {
+    WgRendCollisionShaderMode,
+    WgRendCollisionShaderRadiusMode
+} from "../webgpu/shaders/wg-rend-collision-shader";
+
+export interface CollisionMarkersParameters {
+    mode: WgRendCollisionShaderMode;
+    color: string;
+    opacity: number;
+    lenience: number;
+    radius: WgRendCollisionShaderRadiusMode | number;
+    thickness: number;
+}
+
+/**
+ * Camera-facing markers (O or X) drawn at the positions of colliding elements
+ * WebGL counterpart of WgRendCollisionShader, used when the collisions are detected on the CPU
+ */
+export class CollisionMarkers extends Mesh {
+
+    private readonly params: CollisionMarkersParameters;
+    private readonly markerGeometry: InstancedBufferGeometry;
+    private readonly markerMaterial: ShaderMaterial;
+
+    public constructor(params: CollisionMarkersParameters) {
+        const geometry = new InstancedBufferGeometry();
+        geometry.setAttribute("position", new BufferAttribute(new Float32Array([
+            1, 1, 0,
+            -1, 1, 0,
+            1, -1, 0,
+            -1, -1, 0
+        ]), 3));
+        geometry.setIndex([0, 1, 2, 2, 1, 3]);
+        geometry.setAttribute("center", new InstancedBufferAttribute(new Float32Array(0), 3));
+        geometry.setAttribute("radius", new InstancedBufferAttribute(new Float32Array(0), 1));
+        geometry.instanceCount = 0;
+
+        const material = new ShaderMaterial({
+            side: DoubleSide,
+            uniforms: {
+                uColor: { value: new Color(params.color) },
+                uOpacity: { value: params.opacity },
+                uMode: { value: params.mode },
+                uThickness: { value: params.thickness }
+            },
+            transparent: true,
+            depthTest: false,
+            depthWrite: false,
+            lights: false,
+            vertexShader: `
+        attribute vec3 center;
+        attribute float radius;
+
+        varying vec2 vOffset;
+
+        void main() {
+            vOffset = position.xy;
+            vec4 mvPosition = modelViewMatrix * vec4(center, 1.0);
+            mvPosition.xy += position.xy * radius * 1.41421356237;
+            gl_Position = projectionMatrix * mvPosition;
+        }
+        `,
+            fragmentShader: `
+        uniform vec3 uColor;
+        uniform float uOpacity;
+        uniform int uMode;
+        uniform float uThickness;
+
+        varying vec2 vOffset;
+
+        void main() {
+            float length2 = dot(vOffset, vOffset);
+            if (length2 > 1.0) discard;
+            if (uMode == 0) {
+                float inner = 1.0 - uThickness;
+                if (length2 < inner * inner) discard;
+            } else if (abs(abs(vOffset.x) - abs(vOffset.y)) >= uThickness) {
+                discard;
+            }
+            gl_FragColor = vec4(uColor, uOpacity);
+        }
+        `
+        });
+
+        super(geometry, material);
+        this.frustumCulled = false;
+        this.params = Object.assign({}, params);
+        this.markerGeometry = geometry;
+        this.markerMaterial = material;
+    }
+
+    /**
+     * Sets the rendering parameters of the markers
+     * Changing the radius or the lenience requires the markers to be updated (see update())
+     */
+    public setParameters(params: Partial<CollisionMarkersParameters>) {
+        Object.assign(this.params, params);
+        const uniforms = this.markerMaterial.uniforms;
+        if (params.color !== undefined) uniforms.uColor.value.set(params.color);
+        if (params.opacity !== undefined) uniforms.uOpacity.value = params.opacity;
+        if (params.mode !== undefined) uniforms.uMode.value = params.mode;
+        if (params.thickness !== undefined) uniforms.uThickness.value = params.thickness;
+    }
+
+    /**
+     * Places one marker at each of the colliding elements
+     * @param forEachCollision Function iterating over the position and radius of all colliding elements
+     */
+    public update(forEachCollision: (callback: (position: Vector3, radius: number) => void) => void) {
+        const centers: number[] = [];
+        const radii: number[] = [];
+        const lenience = this.params.radius === WgRendCollisionShaderRadiusMode.COVALENT_WITH_LENIENCE_ADJUSTMENT
+            ? this.params.lenience * 0.5 : 0;
+        forEachCollision((position, radius) => {
+            centers.push(position.x, position.y, position.z);
+            radii.push(this.params.radius < 0 ? Math.max(0, radius) - lenience : this.params.radius);
+        });
+
+        this.markerGeometry.setAttribute("center", new InstancedBufferAttribute(new Float32Array(centers), 3));
+        this.markerGeometry.setAttribute("radius", new InstancedBufferAttribute(new Float32Array(radii), 1));
+        this.markerGeometry.instanceCount = radii.length;
+    }
+
+    public dispose() {
+        this.markerGeometry.dispose();
+        this.markerMaterial.dispose();
+    }
+}
+
+export default CollisionMarkers;
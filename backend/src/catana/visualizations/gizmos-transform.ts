@@ -20,7 +20,9 @@ import {
 import Stage from "../../stage/stage";
 
 export type GizmoSignals = {
-    materialChanged: Signal
+    materialChanged: Signal,
+    dragStarted: Signal,
+    dragEnded: Signal
 };
 
 export enum GizmoMode {
@@ -86,7 +88,9 @@ export class GizmosTransform extends Renderable {
         super();
 
         this._signals = {
-            materialChanged: new Signal()
+            materialChanged: new Signal(),
+            dragStarted: new Signal(),
+            dragEnded: new Signal()
         };
 
         for (let i = 0; i < 3; ++i) {
@@ -306,6 +310,7 @@ export class GizmosTransform extends Renderable {
                 draggingDirectionNdc: new Vector2(startDirNdc.x, startDirNdc.y),
                 rotationAngleMultiplier: camDir.dot(axisVector) > 0 ? -1 : 1
             };
+            this._signals.dragStarted.dispatch();
         }
         return true;
     }
@@ -316,6 +321,7 @@ export class GizmosTransform extends Renderable {
     public upLeft(x: number, y: number, s: Stage): boolean {
         if (this.draggingData) {
             this.draggingData = null;
+            this._signals.dragEnded.dispatch();
             return true;
         }
         return false;
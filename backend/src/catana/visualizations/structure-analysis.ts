@@ -8,9 +8,25 @@ import Structure from "../../structure/structure";
 import CgStructure from "../data_model/cg-structure";
 import D3Chart from "./d3_extensions/d3-chart";
 import { nucleicAcidTypeToString } from "../data_model/types_declarations/polymer-types";
+import { computeHelicalParameters, HelixParameters } from "../nanomodeling/helical-parameters";
+import { Log } from "../../globals";
 
 type AcceptedComponents = StructureComponent | CgStructureComponent;
 
+/**
+ * Plotted helical parameters: [property name, label, unit]
+ */
+const basePairChartParams: [string, string, string][] = [
+    ["shear", "Shear", "Å"], ["stretch", "Stretch", "Å"], ["stagger", "Stagger", "Å"],
+    ["buckle", "Buckle", "deg"], ["propeller", "Propeller", "deg"], ["opening", "Opening", "deg"],
+    ["minorGrooveWidth", "Minor groove width", "Å"], ["majorGrooveWidth", "Major groove width", "Å"]
+];
+const stepChartParams: [string, string, string][] = [
+    ["shift", "Shift", "Å"], ["slide", "Slide", "Å"], ["rise", "Rise", "Å"],
+    ["tilt", "Tilt", "deg"], ["roll", "Roll", "deg"], ["twist", "Twist", "deg"],
+    ["axisBend", "Helical axis bend", "deg"]
+];
+
 /**
  * Class generating plots for analysis of structural data
  */
@@ -41,6 +57,8 @@ export default class StructureAnalysis {
         if (structure instanceof CgStructure) {
            this.createCgStrandsCharts(structure).forEach(x => this._container.append(x.node));
         }
+
+        this.createHelicalParametersCharts(structure).forEach(x => this._container.append(x.node));
     }
 
     private createResiduesChart(structure: Structure | CgStructure): BarChart {
@@ -141,4 +159,53 @@ export default class StructureAnalysis {
 
         return res;
     }
+
+    /**
+     * Creates charts of the helical parameters of all double-stranded regions.
+     * The values of the individual helices follow each other, separated by gaps.
+     */
+    private createHelicalParametersCharts(structure: Structure | CgStructure): D3Chart[] {
+        let helices: HelixParameters[];
+        try {
+            helices = computeHelicalParameters(structure);
+        } catch (e) {
+            Log.warn("Helical parameters could not be computed: " + e);
+            return [];
+        }
+
+        const basePairData: any[] = [];
+        const stepData: any[] = [];
+
+        helices.forEach((h, hi) => {
+            const prefix = "Helix " + (hi + 1) + " (" + h.strandName + "/" + h.complementaryStrandName + "): ";
+            h.basePairs.forEach(bp => basePairData.push(Object.assign({ idx: basePairData.length, label: prefix + bp.name }, bp)));
+            h.steps.forEach(st => stepData.push(Object.assign({ idx: stepData.length, label: prefix + st.name }, st)));
+
+            // Entries without values break the lines between the helices
+            basePairData.push({ idx: basePairData.length, label: "" });
+            stepData.push({ idx: stepData.length, label: "" });
+        });
+
+        const createChart = (data: any[], param: [string, string, string], xLabel: string): LineChart | null => {
+            const y = (d: any) => d[param[0]] ?? NaN;
+            const yDomain = d3.extent(data.map(y).filter(v => !isNaN(v))) as [number, number];
+            if (yDomain[0] === undefined) {
+                return null;
+            }
+
+            return new LineChart(data, {
+                x: (d: any) => d.idx,
+                y: y,
+                yDomain: yDomain[0] === yDomain[1] ? [yDomain[0] - 1, yDomain[1] + 1] : yDomain,
+                title: (d: any) => d.label + "\n" + (isNaN(y(d)) ? "" : y(d).toFixed(2) + " " + param[2]),
+                yLabel: param[1] + " (" + param[2] + ") per " + xLabel,
+                color: StructureAnalysis.defaultChartColor
+            });
+        };
+
+        return [
+            ...basePairChartParams.map(p => createChart(basePairData, p, "base-pair")),
+            ...stepChartParams.map(p => createChart(stepData, p, "base-pair step"))
+        ].filter(c => c !== null) as D3Chart[];
+    }
 }
\ No newline at end of file
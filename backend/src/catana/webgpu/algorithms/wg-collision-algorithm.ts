@@ -19,19 +19,15 @@ import WgRendCollisionShader, {
 } from "../shaders/wg-rend-collision-shader";
 import WgRenderTarget from "../wg-render-target";
 import StructureComponent from "../../../component/structure-component";
-import CgStructureComponent from "../../component/cg-structure-component";
-import Structure from "../../../structure/structure";
 import RadiusFactory from "../../../utils/radius-factory";
+import CollisionAlgorithm, {
+    AtomicComponent,
+    CollisionAlgorithmCollisionParameters,
+    ComponentObject
+} from "../../dynamics/collision-algorithm";
 
 type Camera = PerspectiveCamera | OrthographicCamera;
 
-type AtomicComponent = StructureComponent | CgStructureComponent;
-
-export interface ComponentObject {
-    readonly c: AtomicComponent;
-    readonly s: Structure;
-}
-
 interface Grid {
     box: Box3,
     binSize: Vector3;
@@ -48,10 +44,6 @@ interface ComponentData {
     error: number
 }
 
-export interface WgCollisionAlgorithmCollisionParameters {
-    lenience: number
-}
-
 export interface WgCollisionAlgorithmRenderingParameters {
     camera: Camera;
     target: WgRenderTarget;
@@ -107,7 +99,7 @@ interface TransformData {
  *   - RENDER pet atom: Based on atom positions and the result of the collision detection,
  *                      render the atoms that do collide
  */
-export default class WgCollisionAlgorithm extends WgAlgorithm {
+export default class WgCollisionAlgorithm extends WgAlgorithm implements CollisionAlgorithm {
 
     private readonly debug?: string;
     //private readonly elemRadius: number;
@@ -153,7 +145,7 @@ export default class WgCollisionAlgorithm extends WgAlgorithm {
 
     // Collision params
     private collisionShader: WgCompCollisionGlobalShader;
-    //private collisionParams: WgCollisionAlgorithmCollisionParameters;
+    //private collisionParams: CollisionAlgorithmCollisionParameters;
 
     private ranOnce: boolean = false;
 
@@ -177,7 +169,7 @@ export default class WgCollisionAlgorithm extends WgAlgorithm {
      *                        of the results of the collision detection algorithm
      * @param debug The name of the debug context
      */
-    public constructor(context: WgContext, comps: ComponentObject[], collisionParams: WgCollisionAlgorithmCollisionParameters, renderingParams?: WgCollisionAlgorithmRenderingParameters, debug?: string) {
+    public constructor(context: WgContext, comps: ComponentObject[], collisionParams: CollisionAlgorithmCollisionParameters, renderingParams?: WgCollisionAlgorithmRenderingParameters, debug?: string) {
         super(context);
 
         const timeStart = performance.now();
@@ -401,7 +393,7 @@ export default class WgCollisionAlgorithm extends WgAlgorithm {
         return passes;
     }
 
-    private createCollideGlobalPasses(collisionParams: WgCollisionAlgorithmCollisionParameters): WgPass[] {
+    private createCollideGlobalPasses(collisionParams: CollisionAlgorithmCollisionParameters): WgPass[] {
 
         const passes: WgPass[] = [];
 
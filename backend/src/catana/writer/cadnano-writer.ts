@@ -0,0 +1,255 @@
+import { Log } from "../../globals";
+import Writer from "../../writer/writer";
+import CgStructureComponent from "../component/cg-structure-component";
+import LatticeComponent from "../component/lattice-component";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import Lattice, { LatticeType } from "../nanomodeling/lattices/lattice";
+import LatticeLocator, { LatticeLocation } from "../nanomodeling/lattices/lattice-locator";
+import { CadnanoStrandPath, CadnanoVirtualHelix, createCadnanoJson } from "../parsers/cadnano-design";
+
+/**
+ * Customizable parameters for the cadnano writer
+ */
+export interface CadnanoWriterParams {
+    /**
+     * Name of the exported design ('name' value in the root of the cadnano file)
+     */
+    designName: string
+}
+
+/**
+ * Structure to be exported together with its transformation (e.g., a coarse-grained structure component)
+ */
+export type CadnanoExportedStructure = Pick<CgStructureComponent, "cgStructure" | "matrix" | "quaternion">;
+
+/**
+ * Strand which could not be exported together with the reason why
+ */
+export interface CadnanoSkippedStrand {
+    structureName: string,
+    strandName: string,
+    reason: string
+}
+
+/**
+ * Strand whose all nucleotides were successfully mapped to the lattice
+ */
+interface LatticeStrand {
+    structureName: string,
+    strand: CgNucleicAcidStrand,
+    nucleotides: LatticeLocation[]
+}
+
+/**
+ * Writer exporting lattice-based DNA designs as cadnano 2 JSON files.
+ * Nucleotides of the exported strands are mapped to the cells of the given lattice and to base indices
+ * along the lattice normal. Strands which are not aligned with the lattice are skipped
+ * and listed in {@link CadnanoWriter.skippedStrands} after the data are generated.
+ */
+export default class CadnanoWriter extends Writer {
+    public readonly mimeType = "text/plain";
+    public readonly defaultName = "design";
+    public readonly defaultExt = "json";
+
+    private readonly _lattice: Lattice;
+    private readonly _structuresToExport: CadnanoExportedStructure[];
+    private readonly _designName: string;
+
+    private _skippedStrands: CadnanoSkippedStrand[];
+
+    /**
+     * @param lattice lattice (or lattice component) to which the exported strands are aligned
+     * @param structuresToExport coarse-grained structure components to be exported
+     * @param params writer parameters
+     */
+    public constructor(lattice: Lattice | LatticeComponent, structuresToExport: CadnanoExportedStructure[],
+        params: Partial<CadnanoWriterParams> = {}) {
+        super();
+
+        this._lattice = lattice instanceof Lattice ? lattice : lattice.object as Lattice;
+        this._structuresToExport = structuresToExport;
+        this._designName = params.designName ?? "Nanostructure";
+        this._skippedStrands = [];
+    }
+
+    /**
+     * Strands which were not exported during the last call of {@link CadnanoWriter.getData}
+     */
+    public get skippedStrands(): CadnanoSkippedStrand[] {
+        return this._skippedStrands;
+    }
+
+    /** @override */
+    public getData(): string {
+        this._skippedStrands = [];
+
+        const strands = this.mapStrandsToLattice();
+        const idxIncreasesAlongNormal = this.determineIndexDirection(strands);
+        const exportedStrands = this.removeConflictingStrands(strands, idxIncreasesAlongNormal);
+
+        this._skippedStrands.forEach(x => Log.warn("cadnano export: strand " + x.strandName +
+            " of " + x.structureName + " was skipped because " + x.reason));
+
+        return JSON.stringify(this.createJson(exportedStrands, idxIncreasesAlongNormal));
+    }
+
+    /**
+     * Maps nucleotides of all exported strands to the lattice cells
+     */
+    private mapStrandsToLattice(): LatticeStrand[] {
+        const result: LatticeStrand[] = [];
+        const locator = new LatticeLocator(this._lattice);
+
+        this._structuresToExport.forEach(comp => {
+            const cgStructure = comp.cgStructure;
+
+            cgStructure.forEachNaStrand(strand => {
+                if (strand.length === 0) {
+                    return;
+                }
+
+                const nucleotides: LatticeLocation[] = [];
+                let reason: string | undefined = undefined;
+
+                strand.forEachNucleotide(nt => {
+                    if (reason !== undefined) {
+                        return;
+                    }
+
+                    const location = locator.locate(nt.nucleobaseCenter.applyMatrix4(comp.matrix),
+                        nt.baseNormal.applyQuaternion(comp.quaternion));
+
+                    if (location) {
+                        nucleotides.push(location);
+                    } else {
+                        reason = "nucleotide " + nt.index + " " + locator.lastFailureReason;
+                    }
+                });
+
+                if (reason !== undefined) {
+                    this.skipStrand(cgStructure.name, strand, reason);
+                } else {
+                    result.push({
+                        structureName: cgStructure.name,
+                        strand: strand,
+                        nucleotides: nucleotides
+                    });
+                }
+            });
+        });
+
+        return result;
+    }
+
+    /**
+     * cadnano places the scaffold 5' to 3' (towards increasing base indices) on the helices with even parity.
+     * The direction of base indices is therefore chosen to match the polarity of as many nucleotides as possible.
+     *
+     * @returns true if the base indices should increase in the direction of the lattice normal
+     */
+    private determineIndexDirection(strands: LatticeStrand[]): boolean {
+        let matching = 0;
+
+        strands.forEach(s => s.nucleotides.forEach(nt => {
+            if (this.isForward(nt, false) === this.isForwardOnHelix(nt, s.strand.isScaffold)) {
+                ++matching;
+            } else {
+                --matching;
+            }
+        }));
+
+        return matching < 0;
+    }
+
+    /**
+     * Removes strands with the wrong polarity and strands occupying already occupied base positions
+     */
+    private removeConflictingStrands(strands: LatticeStrand[], idxIncreasesAlongNormal: boolean): LatticeStrand[] {
+        const occupied = new Set<string>();
+
+        return strands.filter(s => {
+            const isScaffold = s.strand.isScaffold;
+
+            if (s.nucleotides.some(nt => this.isForward(nt, idxIncreasesAlongNormal) !== this.isForwardOnHelix(nt, isScaffold))) {
+                this.skipStrand(s.structureName, s.strand, "its direction does not match the polarity of the cadnano helix");
+                return false;
+            }
+
+            const keys = s.nucleotides.map(nt => isScaffold + ":" + nt.row + ":" + nt.col + ":" + nt.depth);
+
+            if (keys.some(k => occupied.has(k)) || new Set(keys).size !== keys.length) {
+                this.skipStrand(s.structureName, s.strand, "it occupies already occupied base positions");
+                return false;
+            }
+
+            keys.forEach(k => occupied.add(k));
+            return true;
+        });
+    }
+
+    /**
+     * Creates cadnano JSON object from the lattice-mapped strands
+     */
+    private createJson(strands: LatticeStrand[], idxIncreasesAlongNormal: boolean): any {
+        const step = this._lattice.latticeType === LatticeType.HONEYCOMB ? 21 : 32;
+        const cells = new Map<string, Pick<CadnanoVirtualHelix, "num" | "row" | "col">>();
+        let minDepth = Infinity;
+        let maxDepth = -Infinity;
+
+        strands.forEach(s => s.nucleotides.forEach(nt => {
+            cells.set(nt.row + ":" + nt.col, { num: -1, row: nt.row, col: nt.col });
+            minDepth = Math.min(minDepth, nt.depth);
+            maxDepth = Math.max(maxDepth, nt.depth);
+        }));
+
+        // Helices with even parity get even numbers, the other ones odd numbers
+        const helices = Array.from(cells.values()).sort((a, b) => a.row - b.row || a.col - b.col);
+        const parityCounters = [0, 1];
+        helices.forEach(h => {
+            const parity = (h.row + h.col) % 2;
+            h.num = parityCounters[parity];
+            parityCounters[parity] += 2;
+        });
+
+        const helixLength = Math.max(1, Math.ceil((maxDepth - minDepth + 1) / step)) * step;
+
+        const paths: CadnanoStrandPath[] = strands.map(s => ({
+            bases: s.nucleotides.map(nt => {
+                const idx = idxIncreasesAlongNormal ? nt.depth - minDepth : maxDepth - nt.depth;
+                return {
+                    helixNum: cells.get(nt.row + ":" + nt.col)!.num,
+                    baseIndex: idx,
+                    depth: idx,
+                    isForward: this.isForward(nt, idxIncreasesAlongNormal)
+                };
+            }),
+            isScaffold: s.strand.isScaffold,
+            isCircular: s.strand.isCircular,
+            color: !s.strand.isScaffold && s.strand.customColor ? s.strand.customColor.getHex() : undefined
+        }));
+
+        return createCadnanoJson(this._designName, helixLength, helices, paths);
+    }
+
+    /**
+     * @returns true if the nucleotide's strand runs towards increasing base indices
+     */
+    private isForward(nt: LatticeLocation, idxIncreasesAlongNormal: boolean): boolean {
+        return nt.isFiveToThree === idxIncreasesAlongNormal;
+    }
+
+    /**
+     * @returns true if cadnano expects the scaffold/staple to run towards increasing base indices in the nucleotide's cell
+     */
+    private isForwardOnHelix(nt: LatticeLocation, isScaffold: boolean): boolean {
+        return ((nt.row + nt.col) % 2 === 0) === isScaffold;
+    }
+
+    private skipStrand(structureName: string, strand: CgNucleicAcidStrand, reason: string): void {
+        this._skippedStrands.push({
+            structureName: structureName,
+            strandName: strand.name,
+            reason: reason
+        });
+    }
+}
@@ -0,0 +1,300 @@
+import { Matrix4 } from "three";
+import Writer from "../../writer/writer";
+import type { GltfNode, GltfPrimitive, GltfPrimitiveMode } from "../geometry/gltf-scene";
+
+/**
+ * Customizable parameters for the glTF writer
+ */
+export interface GltfWriterParams {
+    /**
+     * If set to true, binary glTF (GLB) is written.
+     * Otherwise, JSON glTF with the binary data embedded as a data URI is written.
+     */
+    binary: boolean,
+    /**
+     * Name of the generator stored in the asset description
+     */
+    generator: string
+}
+
+// https://registry.khronos.org/glTF/specs/2.0/glTF-2.0.html
+const GlbMagic = 0x46546C67; // "glTF"
+const GlbVersion = 2;
+const GlbChunkTypeJson = 0x4E4F534A; // "JSON"
+const GlbChunkTypeBin = 0x004E4942; // "BIN\0"
+
+const ComponentTypeFloat = 5126;
+const ComponentTypeUnsignedInt = 5125;
+const TargetArrayBuffer = 34962;
+const TargetElementArrayBuffer = 34963;
+
+const PrimitiveModes: { [mode in GltfPrimitiveMode]: number } = {
+    "points": 0,
+    "lines": 1,
+    "triangles": 4
+};
+
+/**
+ * Writer exporting a scene (see {@link getGltfScene}) as a glTF 2.0 file.
+ * Each scene node becomes a glTF node (with its transformation and children)
+ * and its primitives form the glTF mesh of the node. Colors are stored per vertex
+ * and the opacity, metalness and roughness are stored in the (PBR) materials.
+ *
+ * @example
+ * new GltfWriter(getGltfScene(stage)).download("scene");
+ */
+export default class GltfWriter extends Writer {
+    public readonly mimeType: string;
+    public readonly defaultName = "scene";
+    public readonly defaultExt: string;
+
+    private readonly _nodes: GltfNode[];
+    private readonly _binary: boolean;
+    private readonly _generator: string;
+
+    private _json: any;
+    private _chunks: ArrayBufferView[];
+    private _byteLength: number;
+
+    /**
+     * @param nodes root nodes of the scene to be exported
+     * @param params writer parameters
+     */
+    public constructor(nodes: GltfNode[], params: Partial<GltfWriterParams> = {}) {
+        super();
+
+        this._nodes = nodes;
+        this._binary = params.binary ?? true;
+        this._generator = params.generator ?? "Catana";
+
+        this.mimeType = this._binary ? "model/gltf-binary" : "model/gltf+json";
+        this.defaultExt = this._binary ? "glb" : "gltf";
+    }
+
+    /**
+     * @returns GLB file content (if binary output is enabled) or the JSON glTF file content
+     * @override
+     */
+    public getData(): ArrayBuffer | string {
+        this.processScene();
+
+        const bin = this.getBinaryData();
+
+        if (!this._binary) {
+            if (bin.byteLength > 0) {
+                this._json.buffers[0].uri = "data:application/octet-stream;base64," + toBase64(bin);
+            }
+            return JSON.stringify(this._json);
+        }
+
+        const json = encodeUtf8(JSON.stringify(this._json));
+        const jsonLength = align4(json.length);
+        const binLength = align4(bin.byteLength);
+        const totalLength = 12 + 8 + jsonLength + (binLength > 0 ? 8 + binLength : 0);
+
+        const result = new ArrayBuffer(totalLength);
+        const view = new DataView(result);
+        const bytes = new Uint8Array(result);
+
+        view.setUint32(0, GlbMagic, true);
+        view.setUint32(4, GlbVersion, true);
+        view.setUint32(8, totalLength, true);
+
+        view.setUint32(12, jsonLength, true);
+        view.setUint32(16, GlbChunkTypeJson, true);
+        bytes.set(json, 20);
+        // JSON chunk is padded with spaces
+        bytes.fill(0x20, 20 + json.length, 20 + jsonLength);
+
+        if (binLength > 0) {
+            const binOffset = 20 + jsonLength;
+            view.setUint32(binOffset, binLength, true);
+            view.setUint32(binOffset + 4, GlbChunkTypeBin, true);
+            bytes.set(bin, binOffset + 8);
+        }
+
+        return result;
+    }
+
+    private processScene(): void {
+        this._chunks = [];
+        this._byteLength = 0;
+        this._json = {
+            asset: { version: "2.0", generator: this._generator },
+            scene: 0,
+            scenes: [{ nodes: [] }],
+            nodes: [],
+            meshes: [],
+            materials: [],
+            accessors: [],
+            bufferViews: [],
+            buffers: []
+        };
+
+        const materialIndices = new Map<string, number>();
+        this._json.scenes[0].nodes = this._nodes.map(n => this.processNode(n, materialIndices));
+
+        if (this._byteLength > 0) {
+            this._json.buffers.push({ byteLength: this._byteLength });
+        }
+
+        // Empty arrays are not allowed by the specification
+        for (const key of ["meshes", "materials", "accessors", "bufferViews", "buffers"]) {
+            if (this._json[key].length === 0) {
+                delete this._json[key];
+            }
+        }
+    }
+
+    private processNode(node: GltfNode, materialIndices: Map<string, number>): number {
+        const index = this._json.nodes.length;
+        const jsonNode: any = { name: node.name };
+        this._json.nodes.push(jsonNode);
+
+        if (node.matrix && !node.matrix.equals(new Matrix4())) {
+            jsonNode.matrix = node.matrix.toArray();
+        }
+
+        const primitives = node.primitives.filter(p => p.position.length > 0);
+        if (primitives.length > 0) {
+            jsonNode.mesh = this._json.meshes.length;
+            this._json.meshes.push({
+                name: node.name,
+                primitives: primitives.map(p => this.processPrimitive(p, materialIndices))
+            });
+        }
+
+        if (node.children.length > 0) {
+            jsonNode.children = node.children.map(c => this.processNode(c, materialIndices));
+        }
+
+        return index;
+    }
+
+    private processPrimitive(prim: GltfPrimitive, materialIndices: Map<string, number>): any {
+        const attributes: { [name: string]: number } = {
+            POSITION: this.addAccessor(prim.position, "VEC3", TargetArrayBuffer, true)
+        };
+
+        if (prim.normal) {
+            attributes.NORMAL = this.addAccessor(prim.normal, "VEC3", TargetArrayBuffer);
+        }
+        if (prim.color) {
+            attributes.COLOR_0 = this.addAccessor(prim.color, "VEC3", TargetArrayBuffer);
+        }
+
+        const result: any = {
+            attributes: attributes,
+            mode: PrimitiveModes[prim.mode],
+            material: this.getMaterial(prim, materialIndices)
+        };
+
+        if (prim.index) {
+            result.indices = this.addAccessor(prim.index, "SCALAR", TargetElementArrayBuffer);
+        }
+
+        return result;
+    }
+
+    private getMaterial(prim: GltfPrimitive, materialIndices: Map<string, number>): number {
+        const key = [prim.opacity, prim.metalness, prim.roughness].join("_");
+        const existing = materialIndices.get(key);
+        if (existing !== undefined) {
+            return existing;
+        }
+
+        const material: any = {
+            pbrMetallicRoughness: {
+                baseColorFactor: [1, 1, 1, prim.opacity],
+                metallicFactor: prim.metalness,
+                roughnessFactor: prim.roughness
+            },
+            doubleSided: true
+        };
+        if (prim.opacity < 1) {
+            material.alphaMode = "BLEND";
+        }
+
+        const index: number = this._json.materials.length;
+        this._json.materials.push(material);
+        materialIndices.set(key, index);
+
+        return index;
+    }
+
+    private addAccessor(data: Float32Array | Uint32Array, type: "SCALAR" | "VEC3", target: number, storeBounds: boolean = false): number {
+        const itemSize = type === "VEC3" ? 3 : 1;
+
+        this._json.bufferViews.push({
+            buffer: 0,
+            byteOffset: this._byteLength,
+            byteLength: data.byteLength,
+            target: target
+        });
+        this._chunks.push(data);
+        // All data are 4-byte types, so the views remain aligned
+        this._byteLength += data.byteLength;
+
+        const accessor: any = {
+            bufferView: this._json.bufferViews.length - 1,
+            componentType: data instanceof Float32Array ? ComponentTypeFloat : ComponentTypeUnsignedInt,
+            count: data.length / itemSize,
+            type: type
+        };
+
+        if (storeBounds) {
+            const min = [Infinity, Infinity, Infinity];
+            const max = [-Infinity, -Infinity, -Infinity];
+            for (let i = 0; i < data.length; i += 3) {
+                for (let j = 0; j < 3; ++j) {
+                    min[j] = Math.min(min[j], data[i + j]);
+                    max[j] = Math.max(max[j], data[i + j]);
+                }
+            }
+            accessor.min = min;
+            accessor.max = max;
+        }
+
+        this._json.accessors.push(accessor);
+        return this._json.accessors.length - 1;
+    }
+
+    private getBinaryData(): Uint8Array {
+        const result = new Uint8Array(this._byteLength);
+        let offset = 0;
+        for (const chunk of this._chunks) {
+            result.set(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength), offset);
+            offset += chunk.byteLength;
+        }
+        return result;
+    }
+}
+
+function align4(n: number): number {
+    return Math.ceil(n / 4) * 4;
+}
+
+function encodeUtf8(str: string): Uint8Array {
+    const bytes: number[] = [];
+    for (const ch of str) {
+        const c = ch.codePointAt(0)!;
+        if (c < 0x80) {
+            bytes.push(c);
+        } else if (c < 0x800) {
+            bytes.push(0xC0 | (c >> 6), 0x80 | (c & 0x3F));
+        } else if (c < 0x10000) {
+            bytes.push(0xE0 | (c >> 12), 0x80 | ((c >> 6) & 0x3F), 0x80 | (c & 0x3F));
+        } else {
+            bytes.push(0xF0 | (c >> 18), 0x80 | ((c >> 12) & 0x3F), 0x80 | ((c >> 6) & 0x3F), 0x80 | (c & 0x3F));
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; ++i) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return btoa(binary);
+}
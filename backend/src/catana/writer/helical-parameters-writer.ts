@@ -0,0 +1,31 @@
+import Writer from "../../writer/writer";
+import StructureComponent from "../../component/structure-component";
+import CgStructureComponent from "../component/cg-structure-component";
+import { computeHelicalParameters, createHelicalParametersCsv } from "../nanomodeling/helical-parameters";
+
+/**
+ * Writer exporting the helical parameters (base-pair and base-pair step parameters, axis bending,
+ * and groove widths) of the double-stranded regions of a structure as a CSV file.
+ */
+export default class HelicalParametersWriter extends Writer {
+    public readonly mimeType = "text/csv";
+    public readonly defaultName = "helical-parameters";
+    public readonly defaultExt = "csv";
+
+    private readonly _component: StructureComponent | CgStructureComponent;
+
+    /**
+     * @param component component whose structure will be analyzed
+     */
+    public constructor(component: StructureComponent | CgStructureComponent) {
+        super();
+        this._component = component;
+    }
+
+    /** @override */
+    public getData(): string {
+        const structure = this._component instanceof CgStructureComponent ?
+            this._component.cgStructure : this._component.structure;
+        return createHelicalParametersCsv(computeHelicalParameters(structure));
+    }
+}
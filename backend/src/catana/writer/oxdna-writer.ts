@@ -0,0 +1,204 @@
+import { Box3, Vector3 } from "three";
+import Writer from "../../writer/writer";
+import { download } from "../../utils";
+import CgStructureComponent from "../component/cg-structure-component";
+import CgStructure from "../data_model/cg-structure";
+import { monomerTypeToOneLetterCode } from "../data_model/types_declarations/monomer-types";
+import { NucleicAcidType } from "../data_model/types_declarations/polymer-types";
+import { isStructureInOxDnaGeometry, oxDnaUnitsToAngst, transformStructureToOxDnaGeometry } from "../nanomodeling/nucleic-acid-utils";
+import { OxDnaConfiguration, OxDnaTopologyStrand, writeOxDnaConfiguration, writeOxDnaTopology } from "../parsers/oxdna-format";
+
+/**
+ * Customizable parameters for the oxDNA writer
+ */
+export interface OxDnaWriterParams {
+    /**
+     * If set to true, the new-style topology format (sequences listed in 5' to 3' direction) is written
+     */
+    newStyleTopology: boolean,
+    /**
+     * Size of the simulation box (in Angstroms).
+     * If not provided, the box is computed from the bounding box of the exported structures.
+     */
+    boxSize: Vector3,
+    /**
+     * If set to true, the base-pairs are written as mutual trap forces file when downloading the data
+     */
+    exportBasePairForces: boolean
+}
+
+/**
+ * Writer exporting nucleic acid strands of coarse-grained structures as oxDNA topology and configuration files.
+ * The {@link OxDnaWriter.getData} method returns the configuration, the topology is available
+ * via {@link OxDnaWriter.getTopology}, and {@link OxDnaWriter.download} downloads both of them.
+ * Amino acid chains are not exported.
+ *
+ * @see https://lorenzo-rovigatti.github.io/oxDNA/configurations.html
+ */
+export default class OxDnaWriter extends Writer {
+    public readonly mimeType = "text/plain";
+    public readonly defaultName = "nanostructure";
+    public readonly defaultExt = "dat";
+
+    /**
+     * Padding (in Angstroms) around the structures used when computing the box size
+     */
+    private static readonly boxPadding = 100;
+
+    private readonly _structuresToExport: CgStructureComponent[];
+    private readonly _newStyleTopology: boolean;
+    private readonly _boxSize: Vector3 | undefined;
+    private readonly _exportBasePairForces: boolean;
+
+    private _topologyStrands: Pick<OxDnaTopologyStrand, "sequence" | "isRna" | "isCircular">[];
+    private _configuration: OxDnaConfiguration;
+    private _basePairs: [number, number][];
+
+    /**
+     * @param structuresToExport coarse-grained structure components to be exported
+     * @param params writer parameters
+     */
+    public constructor(structuresToExport: CgStructureComponent[], params: Partial<OxDnaWriterParams> = {}) {
+        super();
+
+        this._structuresToExport = structuresToExport;
+        this._newStyleTopology = params.newStyleTopology ?? false;
+        this._boxSize = params.boxSize;
+        this._exportBasePairForces = params.exportBasePairForces ?? true;
+    }
+
+    /**
+     * @returns content of the configuration file
+     * @override
+     */
+    public getData(): string {
+        this.processStructuresToExport();
+        return writeOxDnaConfiguration(this._configuration);
+    }
+
+    /**
+     * @returns content of the topology file
+     */
+    public getTopology(): string {
+        this.processStructuresToExport();
+        return writeOxDnaTopology(this._topologyStrands, this._newStyleTopology);
+    }
+
+    /**
+     * Returns external forces file with mutual traps between paired nucleotides
+     * (usually used to preserve base-pairs during relaxation)
+     *
+     * @returns content of the forces file
+     */
+    public getBasePairForces(): string {
+        this.processStructuresToExport();
+
+        return this._basePairs.map(pair => [[pair[0], pair[1]], [pair[1], pair[0]]].map(p =>
+            "{\ntype = mutual_trap\nparticle = " + p[0] + "\nref_particle = " + p[1] +
+            "\nstiff = 0.09\nr0 = 1.2\nPBC = 1\n}\n").join("")).join("");
+    }
+
+    /**
+     * Downloads topology (.top) and configuration (.dat) files,
+     * accompanied by the base-pair forces file if requested
+     *
+     * @override
+     */
+    public download(name?: string): void {
+        const fileName = name ?? this.defaultName;
+
+        download(new Blob([this.getTopology()], { type: this.mimeType }), fileName + ".top");
+        download(new Blob([writeOxDnaConfiguration(this._configuration)], { type: this.mimeType }), fileName + "." + this.defaultExt);
+
+        if (this._exportBasePairForces && this._basePairs.length > 0) {
+            download(new Blob([this.getBasePairForces()], { type: this.mimeType }), fileName + "_forces.txt");
+        }
+    }
+
+    /**
+     * Goes through the structures to be exported and collects the oxDNA data
+     */
+    private processStructuresToExport(): void {
+        this._topologyStrands = [];
+        this._basePairs = [];
+        this._configuration = {
+            time: 0,
+            box: [0, 0, 0],
+            energy: [0, 0, 0],
+            nucleotides: []
+        };
+
+        const idToIndex = new Map<number, number>();
+        const pairs: [number, number][] = [];
+        const boundingBox = new Box3();
+
+        this._structuresToExport.forEach(comp => {
+            // The export works on a transformed copy so the original structure is not modified
+            const cgStructure: CgStructure = comp.cgStructure.clone();
+            cgStructure.transform(comp.matrix);
+
+            if (!isStructureInOxDnaGeometry(cgStructure)) {
+                transformStructureToOxDnaGeometry(cgStructure);
+            }
+
+            cgStructure.forEachNaStrand(strand => {
+                if (strand.length === 0) {
+                    return;
+                }
+
+                const indices = Array.from({ length: strand.length }, (x, i) => i);
+
+                // Classic topology lists the nucleotides from the 3' end to the 5' end
+                if (!this._newStyleTopology) {
+                    indices.reverse();
+                }
+
+                indices.forEach(i => {
+                    const nt = strand.getNucleotideProxy(i)!;
+
+                    idToIndex.set(nt.globalId, this._configuration.nucleotides.length);
+
+                    if (nt.pairId >= 0) {
+                        pairs.push([nt.globalId, nt.pairId]);
+                    }
+
+                    const a1 = nt.hydrogenFaceDir.clone().normalize();
+                    const com = nt.nucleobaseCenter.clone().divideScalar(oxDnaUnitsToAngst).sub(a1.clone().multiplyScalar(0.4));
+                    boundingBox.expandByPoint(com);
+
+                    this._configuration.nucleotides.push({
+                        position: com.toArray(),
+                        a1: a1.toArray(),
+                        a3: nt.baseNormal.clone().normalize().toArray(),
+                        velocity: [0, 0, 0],
+                        angularVelocity: [0, 0, 0]
+                    });
+                });
+
+                this._topologyStrands.push({
+                    sequence: strand.sequence.map(x => monomerTypeToOneLetterCode(x)),
+                    isRna: strand.naType === NucleicAcidType.RNA,
+                    isCircular: strand.isCircular
+                });
+            });
+
+            cgStructure.dispose();
+        });
+
+        pairs.forEach(pair => {
+            const idx1 = idToIndex.get(pair[0]);
+            const idx2 = idToIndex.get(pair[1]);
+
+            // Each pair is stored only once
+            if (idx1 !== undefined && idx2 !== undefined && idx1 < idx2) {
+                this._basePairs.push([idx1, idx2]);
+            }
+        });
+
+        const boxSize = this._boxSize ?
+            this._boxSize.clone().divideScalar(oxDnaUnitsToAngst) :
+            boundingBox.getSize(new Vector3()).addScalar(2 * OxDnaWriter.boxPadding / oxDnaUnitsToAngst);
+
+        this._configuration.box = boxSize.toArray();
+    }
+}
@@ -0,0 +1,205 @@
+import Writer from "../../writer/writer";
+import type Stage from "../../stage/stage";
+import Component from "../../component/component";
+import StructureComponent from "../../component/structure-component";
+import ShapeComponent from "../../component/shape-component";
+import RepresentationElement from "../../component/representation-element";
+import Annotation from "../../component/annotation";
+import StructureRepresentation from "../../representation/structure-representation";
+import JSScript from "../../script";
+import { ColormakerRegistry, Log } from "../../globals";
+import CgStructureComponent from "../component/cg-structure-component";
+import LatticeComponent from "../component/lattice-component";
+import { Lattice, LatticeType } from "../nanomodeling/lattices/lattice";
+import JSPyScript from "../scripting/jspyscript";
+import UnfWriter from "./unf-writer";
+import {
+    SessionAnnotationData,
+    SessionComponentData,
+    SessionData,
+    SessionExtension,
+    SessionFormatName,
+    SessionFormatVersion,
+    SessionRepresentationData,
+    SessionScriptData
+} from "../parsers/session-format";
+import { toJsonValue } from "../utils/json-utils";
+
+/**
+ * Writer exporting the current state of the stage as a Catana session, i.e., a single JSON file
+ * storing the components (all-atom and coarse-grained structures, lattices and shapes) including
+ * their placement, representations and annotations, the camera orientation, the stage parameters,
+ * and the loaded plugins and scripts. The structures are stored as (embedded) UNF files.
+ *
+ * Components of other types (e.g., surfaces or volumes) and shapes' custom buffers are not stored.
+ *
+ * @see CatanaSessionParser
+ */
+export default class CatanaSessionWriter extends Writer {
+    public readonly mimeType = "application/json";
+    public readonly defaultName = "session";
+    public readonly defaultExt = SessionExtension;
+
+    private readonly _stage: Stage;
+
+    /**
+     * @param stage stage whose state will be exported
+     */
+    public constructor(stage: Stage) {
+        super();
+        this._stage = stage;
+    }
+
+    /** @override */
+    public getData(): string {
+        return JSON.stringify(this.getSessionData());
+    }
+
+    /**
+     * @returns object with the same structure as the session JSON
+     */
+    public getSessionData(): SessionData {
+        const components: SessionComponentData[] = [];
+        this._stage.eachComponent(c => {
+            if (c.backendOnly) return;
+            const data = this.getComponentData(c);
+            if (data) {
+                components.push(data);
+            } else {
+                Log.warn("Component '" + c.name + "' of type '" + c.type + "' cannot be stored in a session.");
+            }
+        });
+
+        return {
+            format: SessionFormatName,
+            version: SessionFormatVersion,
+            creationDate: new Date().toISOString(),
+            stageParameters: toJsonValue(Object.assign({}, this._stage.getParameters())) ?? {},
+            cameraOrientation: this._stage.viewerControls.getOrientation().toArray(),
+            components: components,
+            plugins: this._stage.pluginManager.loadedPlugins.map(p => toJsonValue(Object.assign({}, p))),
+            scripts: this.getScriptsData()
+        };
+    }
+
+    private getComponentData(c: Component): SessionComponentData | null {
+        let type: SessionComponentData["type"];
+        let data: SessionComponentData["data"];
+
+        if (c instanceof StructureComponent || c instanceof CgStructureComponent) {
+            type = c instanceof StructureComponent ? "structure" : "cg-structure";
+            data = new UnfWriter([c], {
+                strucName: c.name,
+                applyComponentTransformations: false
+            }).getData();
+        } else if (c instanceof LatticeComponent) {
+            const lattice: Lattice = c.object;
+            type = "lattice";
+            data = {
+                latticeType: lattice.latticeType === LatticeType.SQUARE ? "square" : "honeycomb",
+                width: lattice.width,
+                height: lattice.height,
+                cellDiameter: lattice.cellDiameter,
+                matrix: lattice.matrix.toArray()
+            };
+        } else if (c instanceof ShapeComponent) {
+            const shape = c.shape;
+            if (shape.bufferList.length > 0) {
+                Log.warn("Custom buffers and meshes of shape '" + c.name + "' cannot be stored in a session.");
+            }
+            const primitives: { [k: string]: any[] } = {};
+            Object.keys(shape._primitiveData).forEach(k => {
+                // Primitives added without a name have undefined name which would invalidate the whole array
+                primitives[k] = toJsonValue(shape._primitiveData[k].map((v: any) => v === undefined ? null : v)) ?? [];
+            });
+            type = "shape";
+            data = {
+                name: shape.name,
+                params: toJsonValue(Object.assign({}, shape.parameters)) ?? {},
+                primitives: primitives
+            };
+        } else {
+            return null;
+        }
+
+        return {
+            type: type,
+            name: c.name,
+            visible: c.visible,
+            locked: c.locked,
+            position: c.position.toArray(),
+            quaternion: c.quaternion.toArray(),
+            scale: c.scale.x,
+            representations: c.reprList.map(r => this.getRepresentationData(c, r)),
+            annotations: c.annotationList.map(a => CatanaSessionWriter.getAnnotationData(a)),
+            data: data
+        };
+    }
+
+    private getRepresentationData(c: Component, r: RepresentationElement): SessionRepresentationData {
+        const params = toJsonValue(Object.assign({}, r.getParameters())) ?? {};
+        delete params.matrix;
+        params.visible = r.getVisibility();
+
+        const result: SessionRepresentationData = {
+            type: r.repr.type,
+            name: r.name,
+            filter: r.repr instanceof StructureRepresentation ? r.repr.filterString : "",
+            params: params
+        };
+
+        // User-defined color schemes are registered under random IDs, so they have to be stored
+        // as well. This is possible only for the filter-based ones (see also UnfWriter).
+        const scheme = r.repr.getColorParams().scheme;
+        if (scheme && ColormakerRegistry.userSchemes[scheme.toLowerCase()] !== undefined) {
+            const structParams = c instanceof StructureComponent ? { structure: c.structure } :
+                c instanceof CgStructureComponent ? { cgStructure: c.cgStructure } : {};
+            const dataList = ColormakerRegistry.getScheme(Object.assign({ scheme: scheme }, structParams))?.parameters?.dataList;
+            if (dataList) {
+                result.colorDataList = toJsonValue(dataList);
+            } else {
+                Log.warn("Color scheme of representation '" + r.name + "' of '" + c.name + "' cannot be stored in a session.");
+            }
+            delete params.colorScheme;
+        }
+
+        return result;
+    }
+
+    private getScriptsData(): SessionScriptData[] {
+        const scripts: SessionScriptData[] = [];
+        this._stage.pluginManager.loadedScripts.forEach(s => {
+            let type: SessionScriptData["type"];
+            let source: string;
+            if (s.script instanceof JSPyScript) {
+                type = "jspy";
+                source = s.script.scriptBody;
+            } else if (s.script instanceof JSScript) {
+                type = "js";
+                source = s.script.functionBody;
+            } else {
+                Log.warn("Script '" + s.getFullName() + "' cannot be stored in a session.");
+                return;
+            }
+            scripts.push({
+                name: s.name,
+                scope: s.scope,
+                type: type,
+                source: source,
+                attachedToUpdate: s.attachedToUpdate
+            });
+        });
+        return scripts;
+    }
+
+    private static getAnnotationData(a: Annotation): SessionAnnotationData {
+        return {
+            position: a.position.toArray(),
+            content: a.element.innerText,
+            offsetX: a.offsetX,
+            offsetY: a.offsetY,
+            visible: a.visible,
+            applyFog: a.applyFog
+        };
+    }
+}
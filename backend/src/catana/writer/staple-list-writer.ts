@@ -0,0 +1,115 @@
+import Writer from "../../writer/writer";
+import CgStructureComponent from "../component/cg-structure-component";
+import LatticeComponent from "../component/lattice-component";
+import CgNucleicAcidStrand from "../data_model/cg-nucleic-acid-strand";
+import CgNucleotideProxy from "../data_model/proxy/cg-nucleotide-proxy";
+import Lattice from "../nanomodeling/lattices/lattice";
+import LatticeLocator from "../nanomodeling/lattices/lattice-locator";
+import { createStapleCsv, StaplePlateParameters, StapleRecord } from "../nanomodeling/staple-list";
+
+/**
+ * Criterion used to divide the staples into pools:
+ * - "none": all staples belong to one pool
+ * - "color": staples with the same custom color form one pool
+ * - "component": staples of the same component form one pool
+ */
+export type StaplePoolGrouping = "none" | "color" | "component";
+
+/**
+ * Customizable parameters for the staple list writer
+ */
+export interface StapleListWriterParams extends StaplePlateParameters {
+    /**
+     * Lattice (or lattice component) used to describe the locations of the staple ends (helix[base]).
+     * If not provided, the locations are left empty.
+     */
+    lattice: Lattice | LatticeComponent | undefined,
+    grouping: StaplePoolGrouping
+}
+
+/**
+ * Structure whose staples are exported together with its name and transformation
+ * (e.g., a coarse-grained structure component)
+ */
+export type StapleListExportedStructure = Pick<CgStructureComponent, "name" | "cgStructure" | "matrix" | "quaternion">;
+
+/**
+ * Writer exporting staple order sheets of DNA origami designs as CSV files.
+ * All non-scaffold nucleic acid strands of the exported structures are listed together with their sequence,
+ * length, GC content, location of their ends on the lattice and the assigned plate and well.
+ *
+ * @see FastaWriter for the export of the sequences only
+ */
+export default class StapleListWriter extends Writer {
+    public readonly mimeType = "text/csv";
+    public readonly defaultName = "staples";
+    public readonly defaultExt = "csv";
+
+    private readonly _structuresToExport: StapleListExportedStructure[];
+    private readonly _params: Partial<StapleListWriterParams>;
+
+    /**
+     * @param structuresToExport coarse-grained structure components whose staples will be exported
+     * @param params writer parameters
+     */
+    public constructor(structuresToExport: StapleListExportedStructure[], params: Partial<StapleListWriterParams> = {}) {
+        super();
+        this._structuresToExport = structuresToExport;
+        this._params = params;
+    }
+
+    /** @override */
+    public getData(): string {
+        return createStapleCsv(this.getStaples(), this._params);
+    }
+
+    /**
+     * @returns records of all exported staples
+     */
+    public getStaples(): StapleRecord[] {
+        const grouping = this._params.grouping ?? "none";
+        const lattice = this._params.lattice instanceof Lattice ? this._params.lattice :
+            this._params.lattice?.object as Lattice | undefined;
+        const locator = lattice ? new LatticeLocator(lattice) : undefined;
+        const prefixNames = this._structuresToExport.length > 1;
+        const staples: StapleRecord[] = [];
+
+        this._structuresToExport.forEach(comp => {
+            const getLocation = (nt: CgNucleotideProxy | null): string => {
+                if (!locator || !lattice || !nt) {
+                    return "";
+                }
+                const loc = locator.locate(nt.nucleobaseCenter.applyMatrix4(comp.matrix),
+                    nt.baseNormal.applyQuaternion(comp.quaternion));
+                return loc ? lattice.getIndex(loc.row, loc.col) + "[" + loc.depth + "]" : "";
+            };
+
+            comp.cgStructure.forEachNaStrand(strand => {
+                if (strand.isScaffold || strand.length === 0) {
+                    return;
+                }
+
+                staples.push({
+                    name: prefixNames ? comp.name + "_" + strand.name : strand.name,
+                    sequence: strand.sequence.join(""),
+                    pool: StapleListWriter.getPool(strand, comp, grouping),
+                    fivePrimeLocation: getLocation(strand.fivePrime),
+                    threePrimeLocation: getLocation(strand.threePrime)
+                });
+            });
+        });
+
+        return staples;
+    }
+
+    private static getPool(strand: CgNucleicAcidStrand, comp: StapleListExportedStructure, grouping: StaplePoolGrouping): string {
+        switch (grouping) {
+            case "color":
+                return strand.customColor ? "#" + strand.customColor.getHexString() : "No color";
+            case "component":
+                return comp.name;
+            default:
+                return "Staples";
+        }
+    }
+}
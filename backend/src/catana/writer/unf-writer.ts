@@ -1,7 +1,8 @@
 import md5 from "blueimp-md5";
 import { Euler, Matrix4, Quaternion, Vector3 } from "three";
 import StructureComponent from "../../component/structure-component";
-import { PdbWriter, Structure } from "../../catana";
+import PdbWriter from "../../writer/pdb-writer";
+import Structure from "../../structure/structure";
 import Writer from "../../writer/writer";
 import CgStructureComponent from "../component/cg-structure-component";
 import CgStructure from "../data_model/cg-structure";
@@ -27,9 +28,20 @@ export interface UnfWriterParams {
      * Determines whether the global IDs should be renumbered when exporting the file or not.
      * If set to true, the IDs will start at zero and will be sequentially increased for each new exported object.
      */
-    renumberIds: boolean
+    renumberIds: boolean,
+    /**
+     * Determines whether the positions of the exported structures should be transformed
+     * by the transformations of their components (true by default).
+     * If set to false, the untransformed (local) positions are exported.
+     */
+    applyComponentTransformations: boolean
 }
 
+/**
+ * Objects which can be exported to UNF
+ */
+export type UnfExportable = StructureComponent | CgStructureComponent | Structure | CgStructure;
+
 /**
  * Writer exporting UNF files
  * @see [Unified Nanotechnology Format](https://github.com/barisicgroup/unf)
@@ -40,20 +52,23 @@ export default class UnfWriter extends Writer {
     public readonly defaultExt = "unf";
     public readonly exportedUnfVersion = "1.0.0";
 
-    private readonly _structuresToExport: (StructureComponent | CgStructureComponent)[];
+    private readonly _structuresToExport: UnfExportable[];
     private readonly _unfObject: any;
 
     private _includedStructuresData: string;
     private _idGenerator: number;
     private _renumberIds: boolean;
+    private _applyComponentTransformations: boolean;
     private _idMap: Map<number, number>;
     private _idToVisProp: Map<number, VisualizationProperties>;
 
     /**
-     * @param structuresToExport structure components to be exported
+     * @param structuresToExport structure components to be exported.
+     * Structures not encapsulated in a component (e.g., when running headless) are exported
+     * without any transformation and visualization properties.
      * @param params writer parameters
      */
-    public constructor(structuresToExport: (StructureComponent | CgStructureComponent)[], params: Partial<UnfWriterParams> = {}) {
+    public constructor(structuresToExport: UnfExportable[], params: Partial<UnfWriterParams> = {}) {
         super();
 
         const renumberIds = params.renumberIds ?? false;
@@ -61,6 +76,7 @@ export default class UnfWriter extends Writer {
         const aName = params.authorName ?? "Catana";
 
         this._renumberIds = renumberIds;
+        this._applyComponentTransformations = params.applyComponentTransformations ?? true;
         this._idMap = new Map();
         this._idToVisProp = new Map();
 
@@ -134,12 +150,20 @@ export default class UnfWriter extends Writer {
      * Goes through structures to be exported and appends them to the internal UNF object
      */
     private processStructuresToExport(): void {
+        const transform = this._applyComponentTransformations;
         this._structuresToExport.forEach(strucComp => {
-            if (strucComp instanceof StructureComponent) {
-                this.appendAllAtomStructure(strucComp, strucComp.structure, strucComp.position,
-                    new Euler().setFromQuaternion(strucComp.quaternion));
+            if (strucComp instanceof Structure) {
+                this.appendAllAtomStructure(undefined, strucComp, new Vector3(), new Euler());
+            } else if (strucComp instanceof CgStructure) {
+                this.appendCoarseGrainedStructure(undefined, strucComp, new Matrix4(), new Quaternion());
+            } else if (strucComp instanceof StructureComponent) {
+                this.appendAllAtomStructure(strucComp, strucComp.structure,
+                    transform ? strucComp.position : new Vector3(),
+                    new Euler().setFromQuaternion(transform ? strucComp.quaternion : new Quaternion()));
             } else {
-                this.appendCoarseGrainedStructure(strucComp, strucComp.cgStructure, strucComp.matrix, strucComp.quaternion);
+                this.appendCoarseGrainedStructure(strucComp, strucComp.cgStructure,
+                    transform ? strucComp.matrix : new Matrix4(),
+                    transform ? strucComp.quaternion : new Quaternion());
             }
         });
     }
@@ -147,7 +171,7 @@ export default class UnfWriter extends Writer {
     /**
      * Appends all-atom structure to the UNF data
      */
-    private appendAllAtomStructure(comp: StructureComponent, structure: Structure, position: Vector3, rotation: Euler): void {
+    private appendAllAtomStructure(comp: StructureComponent | undefined, structure: Structure, position: Vector3, rotation: Euler): void {
         const externalFileId = this._idGenerator++;
         const moleculeId = this._idGenerator++;
         const structureName = structure.name;
@@ -175,7 +199,9 @@ export default class UnfWriter extends Writer {
 
         this._unfObject.molecules.others.push(moleculeRecord);
 
-        this.addNewVisProperty(moleculeId, comp);
+        if (comp) {
+            this.addNewVisProperty(moleculeId, comp);
+        }
 
         // Modify included files string
         this._includedStructuresData +=
@@ -185,7 +211,7 @@ export default class UnfWriter extends Writer {
     /**
      * Appends coarse-grained structure to the UNF data
      */
-    private appendCoarseGrainedStructure(comp: CgStructureComponent, cgStructure: CgStructure, matrix: Matrix4, rotation: Quaternion): void {
+    private appendCoarseGrainedStructure(comp: CgStructureComponent | undefined, cgStructure: CgStructure, matrix: Matrix4, rotation: Quaternion): void {
         const newStructure: any = {}
         newStructure.id = this.getGlobalId(cgStructure.globalId);
         newStructure.name = cgStructure.name;
@@ -267,7 +293,9 @@ export default class UnfWriter extends Writer {
             newStructure.aaChains.push(newAaChain);
         });
 
-        this.addNewVisProperty(newStructure.id, comp);
+        if (comp) {
+            this.addNewVisProperty(newStructure.id, comp);
+        }
 
         this._unfObject.structures.push(newStructure);
     }
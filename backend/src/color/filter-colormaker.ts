@@ -8,6 +8,7 @@ import { Color } from 'three'
 
 import { ColormakerRegistry } from '../globals'
 import Filter from '../filtering/filter'
+import { FilteringTest } from '../filtering/filtering-test'
 import Colormaker, { ColormakerParameters } from './colormaker'
 import AtomProxy from '../proxy/atom-proxy'
 import Structure from '../structure/structure'
@@ -22,6 +23,7 @@ export type FilterSchemeData = [ any, string, ColormakerParameters|undefined ]
 class FilterColormaker extends Colormaker {
   colormakerList: any[] = []  // TODO
   filterList: Filter[] = []
+  cgMonomerTestList: FilteringTest[] = [] // Catana addition
 
   constructor (params: ({ structure: Structure } | { cgStructure: CgStructure }) & { dataList: FilterSchemeData[] } & Partial<ColormakerParameters>) {
     super(params)
@@ -47,6 +49,10 @@ class FilterColormaker extends Colormaker {
       this.colormakerList.push(ColormakerRegistry.getScheme(params as { scheme: string } & ColormakerParameters))
       this.filterList.push(new Filter(filt))
     })
+
+    // Catana addition
+    // One monomer test per filter is used for all monomers colored by this colormaker
+    this.cgMonomerTestList = this.filterList.map(f => f.cgMonomerTest);
   }
 
   atomColor (a: AtomProxy) {
@@ -63,7 +69,7 @@ class FilterColormaker extends Colormaker {
   // Catana addition
   monomerColor(m: CgMonomerProxy): number {
     for (let i = 0, n = this.filterList.length; i < n; ++i) {
-      const test = this.filterList[ i ].cgMonomerTest;
+      const test = this.cgMonomerTestList[ i ];
       if (test && test(m)) {
         return this.colormakerList[i].monomerColor(m);
       }
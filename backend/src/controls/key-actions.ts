@@ -48,6 +48,20 @@ class KeyActions {
     stage.setParameters({ sampleLevel: p.sampleLevel === -1 ? 0 : -1 })
   }
 
+  /**
+   * Catana addition: Undo the last modelling action
+   */
+  static undo (stage: Stage) {
+    stage.catanaHistory.undo()
+  }
+
+  /**
+   * Catana addition: Redo the last undone modelling action
+   */
+  static redo (stage: Stage) {
+    stage.catanaHistory.redo()
+  }
+
   /**
    * Catana addition: Used to trigger keyDown events and test if default keyDown events may be fired
    * @return true if default keyDown events should be BLOCKED
@@ -65,7 +79,10 @@ export const KeyActionPresets = {
     //[ 'k', KeyActions.toggleRock ],
     //[ 'p', KeyActions.toggleAnimations ],
     //[ 'a', KeyActions.toggleAntialiasing ],
-    [ 'r', KeyActions.autoView ]
+    [ 'r', KeyActions.autoView ],
+    [ 'Ctrl+z', KeyActions.undo ],
+    [ 'Ctrl+y', KeyActions.redo ],
+    [ 'Ctrl+Z', KeyActions.redo ]
   ] as KeyActionPreset
 }
 
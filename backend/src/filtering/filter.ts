@@ -29,13 +29,11 @@ class Filter {
   residueTest: FilteringTest
   chainTest: FilteringTest
   modelTest: FilteringTest
-  cgMonomerTest: FilteringTest; // Catana addition
 
   atomOnlyTest: FilteringTest
   residueOnlyTest: FilteringTest
   chainOnlyTest: FilteringTest
   modelOnlyTest: FilteringTest
-  cgMonomerOnlyTest: FilteringTest; // Catana addition
 
   /**
    * Create Selection
@@ -51,6 +49,23 @@ class Filter {
 
   get type () { return 'selection' }
 
+  // Catana addition
+  /**
+   * Test of coarse-grained monomers. A new test is created on every access as the proximity grids ('within')
+   * and lattice locators ('helix') are computed once per test, i.e., one test should be used for one evaluation pass.
+   */
+  get cgMonomerTest (): FilteringTest {
+    return makeCgMonomerTest(this.filter);
+  }
+
+  // Catana addition
+  /**
+   * Test of coarse-grained monomers ignoring the atom-only rules (created on every access, see cgMonomerTest)
+   */
+  get cgMonomerOnlyTest (): FilteringTest {
+    return makeCgMonomerTest(this.filter, true);
+  }
+
   setString (string?: string, silent?: boolean) {
     if (string === undefined) string = this.string || ''
     if (string === this.string) return
@@ -69,13 +84,11 @@ class Filter {
     this.residueTest = makeResidueTest(filter)
     this.chainTest = makeChainTest(filter)
     this.modelTest = makeModelTest(filter)
-    this.cgMonomerTest = makeCgMonomerTest(filter); // Catana addition
 
     this.atomOnlyTest = makeAtomTest(filter, true)
     this.residueOnlyTest = makeResidueTest(filter, true)
     this.chainOnlyTest = makeChainTest(filter, true)
     this.modelOnlyTest = makeModelTest(filter, true)
-    this.cgMonomerOnlyTest = makeCgMonomerTest(filter, true); // Catana addition
 
     if (!silent) {
       this.signals.stringChanged.dispatch(this.string)
@@ -55,6 +55,7 @@ for (let id_str in Keywords) {
 for (let key_str in kwd) {
     const key: kwd = Number(key_str);
     if (!isNaN(key)) { // If key is a number
+        if (key === kwd.FIVEEND || key === kwd.THREEEND) continue; // Suggested as 5END and 3END (see Keywords)
         key_str = kwd[key];
         KwdsGeneral[key_str] = key_str;
         KwdsGeneralDescriptions[key_str] = MoreKeywordDescriptions[key];
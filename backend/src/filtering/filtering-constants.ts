@@ -28,7 +28,13 @@ export enum kwd {
   POLARH = 20,
   NONE = 21,
   SCAFFOLD = 22,
-  STAPLE = 23
+  STAPLE = 23,
+  PAIRED = 24,
+  UNPAIRED = 25,
+  CROSSOVER = 26,
+  NICK = 27,
+  FIVEEND = 28,
+  THREEEND = 29
 }
 
 export const FilterAllKeyword = [ '*', '', 'ALL' ]
@@ -38,6 +44,11 @@ export const AtomOnlyKeywords = [
   kwd.BACKBONE, kwd.SIDECHAIN, kwd.BONDED, kwd.RING, kwd.AROMATICRING, kwd.METAL, kwd.POLARH
 ]
 
+// Catana addition: keywords describing the topology of coarse-grained nucleic acid strands
+export const CgOnlyKeywords = [
+  kwd.SCAFFOLD, kwd.STAPLE, kwd.PAIRED, kwd.UNPAIRED, kwd.CROSSOVER, kwd.NICK, kwd.FIVEEND, kwd.THREEEND
+]
+
 export const ChainKeywords = [
   kwd.POLYMER, kwd.WATER
 ]
@@ -89,7 +100,12 @@ export enum k {
   CHAIN,
   INSCODE,
   INSCODE_NEGATE,
-  INSCODE_NEGATE2
+  INSCODE_NEGATE2,
+  FIVE_PRIME_END, // Catana addition
+  THREE_PRIME_END, // Catana addition
+  STRANDLENGTH, // Catana addition
+  WITHIN, // Catana addition
+  OF // Catana addition
 }
 
 export const Keywords: {[id in k]: string} = {
@@ -126,7 +142,12 @@ export const Keywords: {[id in k]: string} = {
   [k.CHAIN]: ":",
   [k.INSCODE]: "^",
   [k.INSCODE_NEGATE]: "-",
-  [k.INSCODE_NEGATE2]: "--"
+  [k.INSCODE_NEGATE2]: "--",
+  [k.FIVE_PRIME_END]: "5END",
+  [k.THREE_PRIME_END]: "3END",
+  [k.STRANDLENGTH]: "STRANDLENGTH",
+  [k.WITHIN]: "WITHIN",
+  [k.OF]: "OF"
 }
 
 // From the NGL Viewer manual: http://nglviewer.org/ngl/api/manual/selection-language.html
@@ -164,7 +185,12 @@ export const KeywordDescriptions: {[id in k]: string} = {
   [k.CHAIN]: "Chain name (e.g.: ':A')",
   [k.INSCODE]: "Insertion code (e.g.: '^A' or '^B' etc. or '^' for residues with no insertion code)",
   [k.INSCODE_NEGATE]: "", // TODO
-  [k.INSCODE_NEGATE2]: "" // TODO
+  [k.INSCODE_NEGATE2]: "", // TODO
+  [k.FIVE_PRIME_END]: "Nucleotides at the 5' end of a strand",
+  [k.THREE_PRIME_END]: "Nucleotides at the 3' end of a strand",
+  [k.STRANDLENGTH]: "Strands compared by their number of nucleotides (e.g.: 'strandlength > 40' or 'strandlength 32')",
+  [k.WITHIN]: "Monomers within the given distance (in Angstroms) of a selection (e.g.: 'within 10 of :A' or 'within 5 of ( scaffold and 5end )')",
+  [k.OF]: "Separates the distance and the selection of 'within' (e.g.: 'within 10 of :A')"
 }
 
 // TODO Many keywords missing here! Maybe find out what they mean and complete the list?
@@ -175,7 +201,7 @@ export const MoreKeywordDescriptions: {[id in kwd]: string} = {
   [kwd.DNA]: "",
   [kwd.POLYMER]: "",
   [kwd.WATER]: "",
-  [kwd.HELIX]: "",
+  [kwd.HELIX]: "Helices of secondary structure, or the given lattice helix of a DNA origami design (e.g.: 'helix 3')",
   [kwd.SHEET]: "",
   [kwd.TURN]: "not helix and not sheet",
   [kwd.BACKBONE]: "",
@@ -192,5 +218,11 @@ export const MoreKeywordDescriptions: {[id in kwd]: string} = {
   [kwd.POLARH]: "", // TODO?
   [kwd.NONE]: "",
   [kwd.SCAFFOLD]: "",
-  [kwd.STAPLE]: ""
+  [kwd.STAPLE]: "",
+  [kwd.PAIRED]: "Nucleotides with a base pair",
+  [kwd.UNPAIRED]: "Nucleotides without a base pair",
+  [kwd.CROSSOVER]: "Nucleotides taking part in a crossover between two helices",
+  [kwd.NICK]: "Strand ends separated from another strand end by a nick (i.e., both are paired to consecutive nucleotides)",
+  [kwd.FIVEEND]: "Nucleotides at the 5' end of a strand (same as '5end')",
+  [kwd.THREEEND]: "Nucleotides at the 3' end of a strand (same as '3end')"
 }
\ No newline at end of file
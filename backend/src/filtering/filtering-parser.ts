@@ -4,7 +4,7 @@
  * @private
  */
 
-import { FilteringRule, FilteringOperator } from './filtering-test'
+import { FilteringRule, FilteringOperator, FilteringComparison } from './filtering-test'
 import {
   kwd, FilterAllKeyword,
   SmallResname, NucleophilicResname, HydrophobicResname, AromaticResname,
@@ -12,6 +12,8 @@ import {
   PolarResname, NonpolarResname, CyclicResname, AliphaticResname, Keywords, k
 } from './filtering-constants'
 
+const StrandLengthRegex = /^(<=|>=|!=|<|>|=)?(\d+)$/
+
 function parseFilt(string: string) {
   let retFilter: FilteringRule = {
     operator: undefined,
@@ -130,6 +132,61 @@ function parseFilt(string: string) {
       // Log.log( "chunk", c, j, filter );
     }
 
+    // Catana addition: handle keywords of coarse-grained nanostructures
+
+    if (cu === Keywords[k.FIVE_PRIME_END]) {
+      pushRule({ keyword: kwd.FIVEEND })
+      continue
+    }
+
+    if (cu === Keywords[k.THREE_PRIME_END]) {
+      pushRule({ keyword: kwd.THREEEND })
+      continue
+    }
+
+    if (cu === kwd[kwd.HELIX] && i + 1 < chunks.length && /^\d+$/.test(chunks[i + 1])) {
+      pushRule({ latticeHelix: parseInt(chunks[++i]) })
+      continue
+    }
+
+    if (cu.startsWith(Keywords[k.STRANDLENGTH])) {
+      // The comparison may be written with or without spaces (e.g., 'strandlength > 40' or 'strandlength>40')
+      let expr = cu.substr(Keywords[k.STRANDLENGTH].length)
+      while (!StrandLengthRegex.test(expr) && i + 1 < chunks.length && expr.length < 3) {
+        expr += chunks[++i]
+      }
+      const match = expr.match(StrandLengthRegex)
+      if (!match) {
+        throw new Error(Keywords[k.STRANDLENGTH].toLowerCase() + ' must be followed by an integer, optionally preceded by a comparison operator')
+      }
+      pushRule({ strandlength: [ (match[1] || '=') as FilteringComparison, parseInt(match[2]) ] })
+      continue
+    }
+
+    if (cu === Keywords[k.WITHIN]) {
+      const distance = parseFloat(chunks[++i])
+      if (isNaN(distance) || (chunks[++i] || '').toUpperCase() !== Keywords[k.OF]) {
+        throw new Error(Keywords[k.WITHIN].toLowerCase() + ' must be followed by a distance and ' + Keywords[k.OF].toLowerCase())
+      }
+      if (distance <= 0 || !isFinite(distance)) {
+        throw new Error(Keywords[k.WITHIN].toLowerCase() + ' distance must be a positive number')
+      }
+      // The selection is either one chunk or a whole parenthesized expression
+      const start = ++i
+      if (chunks[start] === Keywords[k.PAR_L]) {
+        let depth = 0
+        for (; i < chunks.length; ++i) {
+          if (chunks[i] === Keywords[k.PAR_L]) ++depth
+          else if (chunks[i] === Keywords[k.PAR_R] && --depth === 0) break
+        }
+      }
+      if (start >= chunks.length || i >= chunks.length) {
+        throw new Error('missing or incomplete selection after ' + Keywords[k.OF].toLowerCase())
+      }
+      pushRule({ within: { distance, rule: parseFilt(chunks.slice(start, i + 1).join(' ')) } })
+      continue
+    }
+
     // handle keyword attributes
 
     // ensure `cu` is not a number before testing if it is in the
@@ -5,7 +5,7 @@
  */
 
 import { binarySearchIndexOf, rangeInSortedArray } from '../utils'
-import { kwd, AtomOnlyKeywords, ChainKeywords } from './filtering-constants'
+import { kwd, AtomOnlyKeywords, ChainKeywords, CgOnlyKeywords } from './filtering-constants'
 
 import AtomProxy from '../proxy/atom-proxy'
 import ResidueProxy from '../proxy/residue-proxy'
@@ -13,6 +13,11 @@ import ChainProxy from '../proxy/chain-proxy'
 import ModelProxy from '../proxy/model-proxy'
 import CgMonomerProxy from "../catana/data_model/proxy/cg-monomer-proxy";
 import CgNucleicAcidStrand from '../catana/data_model/cg-nucleic-acid-strand'
+import type CgNucleotideProxy from '../catana/data_model/proxy/cg-nucleotide-proxy'
+import type CgStructure from '../catana/data_model/cg-structure'
+import type LatticeComponent from '../catana/component/lattice-component'
+import type LatticeLocator from '../catana/nanomodeling/lattices/lattice-locator'
+import type { Vector3 } from 'three'
 
 // Catana addition: CgMonomerProxy
 export type ProxyEntity = AtomProxy | ResidueProxy | ChainProxy | ModelProxy | CgMonomerProxy
@@ -21,6 +26,7 @@ type FilterFn = (s: FilteringRule) => boolean
 export type FilteringTest = false | ((e: ProxyEntity) => boolean | -1)
 
 export type FilteringOperator = 'AND' | 'OR'
+export type FilteringComparison = '<' | '<=' | '>' | '>=' | '=' | '!=' // Catana addition
 export interface FilteringRule {
   keyword?: any
   atomname?: string
@@ -35,6 +41,9 @@ export interface FilteringRule {
   model?: number
   scaffold?: boolean
   staple?: boolean
+  strandlength?: [FilteringComparison, number] // Catana addition
+  within?: { distance: number, rule: FilteringRule } // Catana addition
+  latticeHelix?: number // Catana addition
 
   error?: string
   rules?: FilteringRule[]
@@ -192,21 +201,117 @@ function modelTestFn(m: ModelProxy, s: FilteringRule) {
 }
 
 // Catana addition
-function cgMonomerTestFn(m: CgMonomerProxy, s: FilteringRule) {
+// Data computed once per monomer test (see makeCgMonomerTest) and shared by its evaluations within one pass
+interface CgTestCache {
+  grids: Map<object, Map<CgStructure, Map<string, Vector3[]>>>
+  lattices: Map<object, [LatticeComponent, LatticeLocator][]>
+}
+
+// Catana addition
+function compare(value: number, comparison: [FilteringComparison, number]): boolean {
+  const ref = comparison[1]
+  switch (comparison[0]) {
+    case '<': return value < ref
+    case '<=': return value <= ref
+    case '>': return value > ref
+    case '>=': return value >= ref
+    case '!=': return value !== ref
+    default: return value === ref
+  }
+}
+
+// Catana addition
+// Monomers matching the rule are hashed into a grid with cells as large as the distance
+function isWithin(m: CgMonomerProxy, structure: CgStructure, within: { distance: number, rule: FilteringRule },
+  cache: CgTestCache): boolean {
+  const d = within.distance
+  const cellKey = (x: number, y: number, z: number) => x + ':' + y + ':' + z
+
+  let grids = cache.grids.get(within)
+  if (!grids) {
+    grids = new Map()
+    cache.grids.set(within, grids)
+  }
+  let grid = grids.get(structure)
+  if (!grid) {
+    const g = new Map<string, Vector3[]>()
+    const test = makeCgMonomerTest(within.rule)
+    if (test !== false) {
+      structure.forEachMonomer(mp => {
+        if (!test(mp)) return
+        const p = mp.position.clone()
+        const key = cellKey(Math.floor(p.x / d), Math.floor(p.y / d), Math.floor(p.z / d))
+        if (!g.has(key)) g.set(key, [])
+        g.get(key)!.push(p)
+      })
+    }
+    grids.set(structure, g)
+    grid = g
+  }
+
+  const p = m.position
+  const x = Math.floor(p.x / d)
+  const y = Math.floor(p.y / d)
+  const z = Math.floor(p.z / d)
+  for (let i = -1; i <= 1; ++i) {
+    for (let j = -1; j <= 1; ++j) {
+      for (let k = -1; k <= 1; ++k) {
+        const cell = grid.get(cellKey(x + i, y + j, z + k))
+        if (cell && cell.some(q => q.distanceToSquared(p) <= d * d)) return true
+      }
+    }
+  }
+  return false
+}
+
+// Catana addition
+// The helix index is given by the first lattice (in the stage) containing the nucleotide
+function getLatticeHelix(nt: CgNucleotideProxy, structure: CgStructure, cache: CgTestCache): number {
+  const comp = structure.parentComponent
+  if (!comp) return -1
+
+  let lattices = cache.lattices.get(comp.stage)
+  if (!lattices) {
+    lattices = comp.stage.compList.filter(c => c.type === 'lattice')
+      .map(c => [c as LatticeComponent, (c as LatticeComponent).createLocator()] as [LatticeComponent, LatticeLocator])
+    cache.lattices.set(comp.stage, lattices)
+  }
+  const pos = nt.nucleobaseCenter.clone().applyMatrix4(comp.matrix)
+  for (const [latticeComp, locator] of lattices) {
+    const cell = locator.locateCell(pos)
+    if (cell) return latticeComp.object.getIndex(cell.row, cell.col)
+  }
+  return -1
+}
+
+// Catana addition
+function cgMonomerTestFn(m: CgMonomerProxy, s: FilteringRule, cache: CgTestCache) {
   if (s.resname === undefined && s.chainname === undefined && s.resno === undefined &&
+    s.strandlength === undefined && s.within === undefined && s.latticeHelix === undefined &&
     (s.keyword === undefined || AtomOnlyKeywords.includes(s.keyword))
   ) return -1;
 
+  const polymer = m.getParentPolymer();
+
   if (s.keyword !== undefined) {
-    if (s.keyword === kwd.PROTEIN && !m.getParentPolymer().isProtein()) return false;
-    if (s.keyword === kwd.NUCLEIC && !m.getParentPolymer().isNucleic()) return false;
-    if (s.keyword === kwd.RNA && !m.getParentPolymer().isRna()) return false;
-    if (s.keyword === kwd.DNA && !m.getParentPolymer().isDna()) return false;
+    if (s.keyword === kwd.PROTEIN && !polymer.isProtein()) return false;
+    if (s.keyword === kwd.NUCLEIC && !polymer.isNucleic()) return false;
+    if (s.keyword === kwd.RNA && !polymer.isRna()) return false;
+    if (s.keyword === kwd.DNA && !polymer.isDna()) return false;
 
-    if (m.getParentPolymer().isNucleic()) {
-      const str = m.getParentPolymer() as CgNucleicAcidStrand;
+    if (CgOnlyKeywords.includes(s.keyword)) {
+      if (!polymer.isNucleic()) return false;
+
+      const str = polymer as CgNucleicAcidStrand;
+      const nt = m as CgNucleotideProxy;
       if (s.keyword === kwd.SCAFFOLD && !str.isScaffold) return false;
       if (s.keyword === kwd.STAPLE && str.isScaffold) return false;
+      if (s.keyword === kwd.PAIRED && !nt.pairedNucleotide) return false;
+      if (s.keyword === kwd.UNPAIRED && nt.pairedNucleotide) return false;
+      if (s.keyword === kwd.CROSSOVER && !nt.isInCrossover()) return false;
+      if (s.keyword === kwd.NICK && !nt.isAtNick()) return false;
+      if (s.keyword === kwd.FIVEEND && !nt.isFivePrime()) return false;
+      if (s.keyword === kwd.THREEEND && !nt.isThreePrime()) return false;
     }
   }
 
@@ -218,7 +323,7 @@ function cgMonomerTestFn(m: CgMonomerProxy, s: FilteringRule) {
     }
   }
 
-  if (s.chainname !== undefined && s.chainname !== m.getParentPolymer().name) return false;
+  if (s.chainname !== undefined && s.chainname !== polymer.name) return false;
 
   if (s.resno !== undefined) {
     if (Array.isArray(s.resno) && s.resno.length === 2) {
@@ -232,6 +337,21 @@ function cgMonomerTestFn(m: CgMonomerProxy, s: FilteringRule) {
     }
   }
 
+  if (s.strandlength !== undefined) {
+    if (!polymer.isNucleic() || !compare(polymer.length, s.strandlength)) return false;
+  }
+
+  if (s.within !== undefined) {
+    const structure = m.parentStructure;
+    if (!structure || !isWithin(m, structure, s.within, cache)) return false;
+  }
+
+  if (s.latticeHelix !== undefined) {
+    const structure = m.parentStructure;
+    if (!structure || !polymer.isNucleic() ||
+      getLatticeHelix(m as CgNucleotideProxy, structure, cache) !== s.latticeHelix) return false;
+  }
+
   return true;
 }
 
@@ -426,10 +546,15 @@ function makeCgMonomerTest(filt: FilteringRule, cgMonomerOnly = false) {
       if (s.resname !== undefined) return true;
       if (s.chainname !== undefined) return true;
       if (s.resno !== undefined) return true;
+      if (s.strandlength !== undefined) return true;
+      if (s.within !== undefined) return true;
+      if (s.latticeHelix !== undefined) return true;
       return false;
     });
   }
-  return makeTest(filteredSelection, cgMonomerTestFn);
+  // Proximity grids and lattice locators are built on first use and reused by the following evaluations of this test
+  const cache: CgTestCache = { grids: new Map(), lattices: new Map() };
+  return makeTest(filteredSelection, (m: CgMonomerProxy, s: FilteringRule) => cgMonomerTestFn(m, s, cache));
 }
 
 export {
@@ -20,7 +20,7 @@ import { TextBufferParameters } from '../buffer/text-buffer'
 
 const tmpBox = new Box3()
 
-const Primitives = [
+export const Primitives = [  // Catana modification: exported
   ArrowPrimitive, BoxPrimitive, ConePrimitive, CylinderPrimitive,
   EllipsoidPrimitive, OctahedronPrimitive, SpherePrimitive, TetrahedronPrimitive,
   TextPrimitive, TorusPrimitive, PointPrimitive, WidelinePrimitive
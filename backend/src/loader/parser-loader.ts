@@ -21,7 +21,8 @@ export interface ParserParams {
 
   // Catana addition
   latticeType?: string,
-  originAtCenterOfMass?: boolean
+  originAtCenterOfMass?: boolean,
+  configuration?: string
 }
 
 /**
@@ -46,7 +47,8 @@ class ParserLoader extends Loader {
 
       // Catana addition
       latticeType: params.latticeType,
-      originAtCenterOfMass: params.originAtCenterOfMass
+      originAtCenterOfMass: params.originAtCenterOfMass,
+      configuration: params.configuration
     }
   }
 
@@ -17,7 +17,7 @@ import {
   assignResidueTypeBonds, assignSecondaryStructure, buildUnitcellAssembly,
   calculateBonds, calculateSecondaryStructure
 } from '../structure/structure-utils'
-import { Structure } from '../catana';
+import Structure from '../structure/structure';
 import StructureBuilder from '../structure/structure-builder';
 import { NumberArray } from '../types';
 
@@ -19,7 +19,7 @@ import {
 } from '../structure/structure-utils'
 import Streamer from '../streamer/streamer';
 import { NumberArray } from '../types';
-import { Structure } from '../catana';
+import Structure from '../structure/structure';
 
 // PDB helix record encoding
 const HelixTypes: {[k: number]: string} = {
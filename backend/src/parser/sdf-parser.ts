@@ -5,7 +5,7 @@
  */
 
 import { Debug, Log, ParserRegistry } from '../globals'
-import { Structure } from '../catana'
+import Structure from '../structure/structure'
 import { assignResidueTypeBonds } from '../structure/structure-utils'
 import StructureParser from './structure-parser'
 
@@ -42,6 +42,7 @@ class JSScript implements IScript {
 
   readonly dir: string
   readonly fn: Function
+  readonly functionBody: string  // Catana addition
 
   readonly type = 'Script'
 
@@ -53,6 +54,7 @@ class JSScript implements IScript {
    */
   constructor(functionBody: string, readonly name: string, readonly path: string) {
     this.dir = path.substring(0, path.lastIndexOf('/') + 1)
+    this.functionBody = functionBody
 
     try {
       /* eslint-disable no-new-func */
@@ -55,6 +55,10 @@ class KeyBehavior {
     } else {
       pressedKey = String.fromCharCode(event.which || event.keyCode);
     }
+    // Catana addition: Key combinations with Ctrl (or Cmd) are reported as "Ctrl+<key>", e.g., "Ctrl+z"
+    if ((event.ctrlKey || event.metaKey) && pressedKey !== "Control" && pressedKey !== "Meta") {
+      pressedKey = "Ctrl+" + pressedKey;
+    }
     this.controls.run(pressedKey);
   }
 
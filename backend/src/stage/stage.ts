@@ -52,6 +52,8 @@ import CatanaVisManager from "../catana/visualizations/catana-vis-manager";
 import { initialize as initializeCatanaGlobals } from "../catana/catana-globals";
 import CgStructureComponent from '../catana/component/cg-structure-component'
 import MultiObjectsStorage from '../catana/utils/multi-objects-storage'
+import CatanaSession from '../catana/utils/catana-session'
+import { SessionExtension } from '../catana/parsers/session-format'
 import CgStructure from '../catana/data_model/cg-structure'
 import { CgNucleotideBondComponent } from '../catana/component/cg-nucleotide-bond-component'
 import { NaStrandCreatorComponent } from '../catana/component/cg-na-strand-creator-component'
@@ -643,6 +645,47 @@ class Stage {
     return promise.then(onLoadFn, onErrorFn)
   }
 
+  /**
+   * Loads a Catana session, i.e., restores the components, camera, plugins and scripts stored in it
+   *
+   * @param path - either a URL or an object containing the session file
+   * @param clear - if true, all components and the undo/redo history are removed before the session is restored
+   * @param confirmScripts - called with the names of the scripts which were attached to the update loop
+   *                         when the session was saved; the scripts are run only if the returned Promise resolves to true.
+   *                         If not provided, the scripts are restored without being run.
+   * @return A Promise object that resolves to the restored components
+   */
+  loadSession(path: string | File | Blob, clear: boolean = true,
+    confirmScripts?: (scriptNames: string[]) => Promise<boolean>): Promise<Component[]> {
+    if (clear) {
+      this.removeAllComponents()
+      this.catanaHistory.clear()
+    }
+
+    const name = getFileInfo(path).name
+    this.tasks.increment()
+    this.log(`loading session '${name}'`)
+
+    return autoLoad(path, { ext: SessionExtension }).then((session: CatanaSession) => {
+      const scriptNames = session.attachedScriptNames
+      const confirmation = confirmScripts && scriptNames.length > 0 ? confirmScripts(scriptNames) : Promise.resolve(false)
+
+      return confirmation.then(confirmed => {
+        session.runAttachedScripts = confirmed
+        this.log(`loaded '${name}'`)
+        return this.addComponentFromObject(session)
+      })
+    }).then((components: Component[]) => {
+      this.tasks.decrement()
+      return components
+    }, (e: Error | string) => {
+      this.tasks.decrement()
+      const errorMsg = `error loading session: '${e}'`
+      this.log(errorMsg)
+      throw errorMsg
+    })
+  }
+
   /**
    * Loads and executes given script 
    */
@@ -692,7 +735,7 @@ class Stage {
    * --
    * Modified during the Catana development to return array of components and not just one component
    */
-  addComponentFromObject(object: Structure | Surface | Volume | Shape | MultiObjectsStorage, params: Partial<ComponentParameters> = {}): Component[] {
+  addComponentFromObject(object: Structure | Surface | Volume | Shape | MultiObjectsStorage | CatanaSession, params: Partial<ComponentParameters> = {}): Component[] {
     let getCompForObj = function (globalThis: any, obj: any): Component {
       const CompClass = ComponentRegistry.get(obj.type);
 
@@ -705,6 +748,10 @@ class Stage {
       throw new Error("There is no component for the given object type: " + object.type);
     };
 
+    if (object instanceof CatanaSession) {
+      return object.restore(this);
+    }
+
     if (object instanceof MultiObjectsStorage) {
       const components: Component[] = [];
 
@@ -722,15 +769,22 @@ class Stage {
 
   /**
    * Remove the given component
+   * Modified during the Catana development to allow removing the component without disposing it
+   * (so it can be added back later, e.g., when undoing its removal)
    * @param  {Component} component - the component to remove
+   * @param  {Boolean} dispose - if false, the component is only hidden and detached from the stage
    * @return {undefined}
    */
-  removeComponent(component: Component) {
+  removeComponent(component: Component, dispose: boolean = true) {
     const idx = this.compList.indexOf(component)
     if (idx !== -1) {
       this.compList.splice(idx, 1)
       this.removeUpdateable(component);
-      component.dispose()
+      if (dispose) {
+        component.dispose()
+      } else {
+        component.setVisibility(false)
+      }
       this.signals.componentRemoved.dispatch(component)
     }
   }
@@ -439,7 +439,7 @@ class Trajectory {
       coords = interpolateLerp(fc[ i ], fc[ ip ], t)
     }
 
-    this.structure.updatePosition(coords)
+    this._applyCoords(coords)
     this._currentFrame = i
     this.signals.frameChanged.dispatch(i)
   }
@@ -522,15 +522,10 @@ class Trajectory {
 
     if (i === -1) {
       if (this.structureCoords) {
-        this.structure.updatePosition(this.structureCoords)
+        this._applyCoords(this.structureCoords, i)
       }
     } else {
-      this.structure.updatePosition(this.frameCache[ i ])
-    }
-
-    this.structure.trajectory = {
-      name: this.trajPath,
-      frame: i
+      this._applyCoords(this.frameCache[ i ], i)
     }
 
     this._currentFrame = i
@@ -538,6 +533,24 @@ class Trajectory {
     this.signals.frameChanged.dispatch(i)
   }
 
+  // Catana addition
+  /**
+   * Writes the coordinates to the underlying structure.
+   * Allows subclasses (e.g., coarse-grained trajectories) to store the coordinates elsewhere.
+   * @param {Float32Array} coords - the coordinates
+   * @param {Integer} [frame] - the frame index, undefined for interpolated coordinates
+   */
+  _applyCoords (coords: Float32Array, frame?: number) {
+    this.structure.updatePosition(coords)
+
+    if (frame !== undefined) {
+      this.structure.trajectory = {
+        name: this.trajPath,
+        frame: frame
+      }
+    }
+  }
+
   _doSuperpose (x: Float32Array) {
     const n = this.filteringIndices.length * 3
 
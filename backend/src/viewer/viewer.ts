@@ -1412,6 +1412,11 @@ export default class Viewer {
     this._catanaRendering.select(this._catanaSelection, color);
     this.requestRender();
   }
+  public selectComponents(components: Component[], color?: number) {
+    this._catanaSelection.selectComponents(components);
+    this._catanaRendering.select(this._catanaSelection, color);
+    this.requestRender();
+  }
   public selectFiltered(...objs: { c: Component, r: StructureRepresentation | CgStructureRepresentation | RepresentationElement, f: string }[]) {
     return this.selectFilteredCol(undefined, ...objs);
   }
@@ -0,0 +1,322 @@
+/**
+ * @file Mmcif Writer
+ * @private
+ */
+
+import { sprintf } from 'sprintf-js'
+
+import Writer from './writer'
+import { defaults } from '../utils'
+import Structure from '../structure/structure'
+import ResidueProxy from '../proxy/residue-proxy'
+import { getChainname } from '../structure/structure-utils'
+
+// http://mmcif.wwpdb.org/dictionaries/mmcif_pdbx_v50.dic/Index/
+
+const AtomSiteFields = [
+  'group_PDB', 'id', 'type_symbol', 'label_atom_id', 'label_alt_id', 'label_comp_id',
+  'label_asym_id', 'label_entity_id', 'label_seq_id', 'pdbx_PDB_ins_code',
+  'Cartn_x', 'Cartn_y', 'Cartn_z', 'occupancy', 'B_iso_or_equiv',
+  'auth_seq_id', 'auth_asym_id', 'pdbx_PDB_model_num'
+]
+
+// Maximal length of lines containing polymer sequences
+const SequenceLineLength = 80
+
+export interface MmcifWriterParams {
+  renumberSerial: boolean
+}
+
+type EntityType = 'polymer' | 'non-polymer' | 'water'
+
+interface MmcifEntity {
+  id: number
+  type: EntityType
+  description: string
+  polymerType: string
+  sequence: string
+  strandIds: string[]
+}
+
+/**
+ * Continuous part of a chain belonging to a single entity,
+ * i.e., a polymer, a ligand residue, or the waters of the chain
+ */
+interface MmcifSegment {
+  asymId: string
+  authAsymId: string
+  entity: MmcifEntity
+  residueIndices: number[]
+}
+
+/**
+ * Create a PDBx/mmCIF file from a Structure object.
+ * In contrast to the PDB format, there are no limits on the number of atoms
+ * and on the length of the chain names, so the writer is suitable for large assemblies.
+ * Every chain is written as one or more asymmetric units (polymer, ligands and waters),
+ * each of them referencing an entity. Polymers with identical sequences share the entity.
+ */
+export default class MmcifWriter extends Writer {
+  readonly mimeType = 'text/plain'
+  readonly defaultName = 'structure'
+  readonly defaultExt = 'cif'
+
+  renumberSerial: boolean
+
+  structure: Structure
+  private _records: string[]
+  private _entities: MmcifEntity[]
+  private _segments: MmcifSegment[][]
+
+  /**
+   * @param  {Structure} structure - the structure object
+   * @param  {Object} params - parameters
+   */
+  constructor (structure: Structure, params?: Partial<MmcifWriterParams>) {
+    super()
+
+    const p = Object.assign({}, params)
+
+    this.renumberSerial = defaults(p.renumberSerial, true)
+
+    this.structure = structure
+    this._records = []
+    this._entities = []
+    this._segments = []
+  }
+
+  private get _dataName () {
+    const name = (this.structure.id || this.structure.name || 'structure').replace(/\s+/g, '_')
+    return name.length > 0 ? name : 'structure'
+  }
+
+  private _writeRecords () {
+    this._records.length = 0
+
+    this._collectSegments()
+
+    this._records.push('data_' + this._dataName)
+    this._records.push('#')
+
+    this._writeHeader()
+    this._writeEntities()
+    this._writeAsymmetricUnits()
+    this._writeAtoms()
+  }
+
+  private _collectSegments () {
+    const entityMap = new Map<string, MmcifEntity>()
+    const filter = this.structure.getFilter()
+
+    this._entities = []
+    this._segments = []
+
+    this.structure.eachModel(mp => {
+      // Entities are assigned once all residues of the segments are known
+      const segments: Omit<MmcifSegment, 'entity'>[] = []
+      let current: Omit<MmcifSegment, 'entity'> | undefined
+      let currentKey = ''
+
+      mp.eachChain(cp => {
+        current = undefined
+
+        cp.eachResidue(rp => {
+          let atomCount = 0
+          rp.eachAtom(() => { atomCount += 1 }, filter)
+          if (atomCount === 0) return
+
+          const type = this._getEntityType(rp)
+          const key = type === 'non-polymer' ? type + ':' + rp.resname : type
+
+          // Every ligand residue forms its own asymmetric unit
+          if (!current || currentKey !== key || type === 'non-polymer') {
+            current = {
+              asymId: getChainname(segments.length),
+              authAsymId: cp.chainname || getChainname(segments.length),
+              residueIndices: []
+            }
+            currentKey = key
+            segments.push(current)
+          }
+          current.residueIndices.push(rp.index)
+        }, filter)
+      }, filter)
+
+      this._segments.push(segments.map(seg => {
+        const rp = this.structure.getResidueProxy(seg.residueIndices[0])
+        const type = this._getEntityType(rp)
+        const polymerType = type === 'polymer' ? this._getPolymerType(rp) : ''
+        const sequence = type === 'polymer' ? this._getSequence(seg.residueIndices) : ''
+        const key = type + ':' + (type === 'polymer' ? polymerType + ':' + sequence : rp.resname)
+
+        let entity = entityMap.get(key)
+        if (!entity) {
+          const description = this.structure.entityList.length > 0 && rp.entity ? rp.entity.description : ''
+          entity = {
+            id: this._entities.length + 1,
+            type: type,
+            description: description || (type === 'polymer' ? '' : rp.resname),
+            polymerType: polymerType,
+            sequence: sequence,
+            strandIds: []
+          }
+          entityMap.set(key, entity)
+          this._entities.push(entity)
+        }
+
+        if (!entity.strandIds.includes(seg.authAsymId)) {
+          entity.strandIds.push(seg.authAsymId)
+        }
+        return Object.assign({ entity: entity }, seg)
+      }))
+    })
+  }
+
+  private _getEntityType (rp: ResidueProxy): EntityType {
+    if (rp.isWater()) return 'water'
+    return rp.isPolymer() ? 'polymer' : 'non-polymer'
+  }
+
+  private _getPolymerType (rp: ResidueProxy) {
+    if (rp.isProtein()) return 'polypeptide(L)'
+    if (rp.isDna()) return 'polydeoxyribonucleotide'
+    if (rp.isRna()) return 'polyribonucleotide'
+    return 'other'
+  }
+
+  private _getSequence (residueIndices: number[]) {
+    const rp = this.structure.getResidueProxy()
+    return residueIndices.map(i => {
+      rp.index = i
+      return rp.getResname1()
+    }).join('')
+  }
+
+  private _writeHeader () {
+    this._records.push('_entry.id ' + quote(this._dataName))
+    this._records.push('#')
+
+    if (this.structure.title || this.structure.name) {
+      this._records.push('_struct.entry_id ' + quote(this._dataName))
+      this._records.push('_struct.title ' + quote(this.structure.title || this.structure.name))
+      this._records.push('#')
+    }
+  }
+
+  private _writeEntities () {
+    if (this._entities.length === 0) return
+
+    this._writeLoop('entity', ['id', 'type', 'pdbx_description'],
+      this._entities.map(e => [e.id, e.type, e.description]))
+
+    const polymers = this._entities.filter(e => e.type === 'polymer')
+    if (polymers.length === 0) return
+
+    this._records.push('loop_')
+    this._records.push('_entity_poly.entity_id')
+    this._records.push('_entity_poly.type')
+    this._records.push('_entity_poly.pdbx_seq_one_letter_code_can')
+    this._records.push('_entity_poly.pdbx_strand_id')
+
+    polymers.forEach(e => {
+      this._records.push(e.id + ' ' + quote(e.polymerType))
+
+      // Sequences are written as text fields so that they can span multiple lines
+      for (let i = 0; i < e.sequence.length; i += SequenceLineLength) {
+        this._records.push((i === 0 ? ';' : '') + e.sequence.substring(i, i + SequenceLineLength))
+      }
+      this._records.push(';')
+
+      this._records.push(quote(e.strandIds.join(',')))
+    })
+    this._records.push('#')
+  }
+
+  private _writeAsymmetricUnits () {
+    const segments = this._segments[0] || []
+    if (segments.length === 0) return
+
+    this._writeLoop('struct_asym', ['id', 'entity_id'],
+      segments.map(seg => [seg.asymId, seg.entity.id]))
+  }
+
+  private _writeAtoms () {
+    this._records.push('loop_')
+    AtomSiteFields.forEach(field => this._records.push('_atom_site.' + field))
+
+    const filter = this.structure.getFilter()
+    const rp = this.structure.getResidueProxy()
+    let ia = 1
+
+    this._segments.forEach((segments, modelIndex) => {
+      segments.forEach(seg => {
+        const isPolymer = seg.entity.type === 'polymer'
+
+        seg.residueIndices.forEach((ri, seqIdx) => {
+          rp.index = ri
+          rp.eachAtom(ap => {
+            this._records.push(sprintf(
+              '%-6s %d %s %s %s %s %s %d %s %s %.3f %.3f %.3f %.2f %.2f %d %s %d',
+
+              ap.hetero ? 'HETATM' : 'ATOM',
+              this.renumberSerial ? ia : ap.serial,
+              quote(ap.element || '?'),
+              quote(ap.atomname),
+              quote(ap.altloc || '.'),
+              quote(ap.resname),
+              seg.asymId,
+              seg.entity.id,
+              isPolymer ? (seqIdx + 1).toString() : '.',
+              quote(ap.inscode || '?'),
+              ap.x, ap.y, ap.z,
+              defaults(ap.occupancy, 1.0),
+              defaults(ap.bfactor, 0.0),
+              ap.resno,
+              quote(seg.authAsymId),
+              modelIndex + 1
+            ))
+
+            ia += 1
+          }, filter)
+        })
+      })
+    })
+
+    this._records.push('#')
+  }
+
+  private _writeLoop (category: string, fields: string[], rows: (string | number)[][]) {
+    this._records.push('loop_')
+    fields.forEach(field => this._records.push('_' + category + '.' + field))
+    rows.forEach(row => {
+      this._records.push(row.map(value => quote(value.toString())).join(' '))
+    })
+    this._records.push('#')
+  }
+
+  /**
+   * Get string containing the PDBx/mmCIF file data
+   * @return {String} mmCIF file
+   */
+  getData () {
+    this._writeRecords()
+    return this._records.join('\n') + '\n'
+  }
+}
+
+/**
+ * Quotes the value if it contains whitespaces, quotes, or starts with a character reserved by the CIF syntax
+ */
+function quote (value: string) {
+  if (value.length === 0) return '?'
+
+  if (/\s/.test(value)) {
+    return value.includes("'") ? '"' + value + '"' : "'" + value + "'"
+  }
+
+  if (/^[_#$;[\]]/.test(value) || value.includes("'") || value.includes('"')) {
+    return value.includes('"') ? "'" + value + "'" : '"' + value + '"'
+  }
+
+  return value
+}
@@ -10,7 +10,7 @@ import Writer from './writer'
 import { defaults, ensureArray } from '../utils'
 import Structure from '../structure/structure'
 import AtomProxy from '../proxy/atom-proxy'
-import { Assembly } from '../catana'
+import Assembly from '../symmetry/assembly'
 
 // http://www.wwpdb.org/documentation/file-format
 
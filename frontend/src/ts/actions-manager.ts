@@ -12,7 +12,7 @@ import {
     CgNucleicAcidCreateState,
     CgNucleicAcidCreateComplementaryState,
     CgNucleicAcidExtendState,
-    CgRemoveState, CreateLatticeState, MoveState,
+    CgRemoveState, CgScaffoldRoutingState, CreateLatticeState, MoveState,
     ProteinAddAminoAcidsState,
     ProteinMutateAminoAcidState,
     ProteinRemoveState
@@ -27,7 +27,8 @@ const CG_ACTIONS = [
     "CG_CHANGE_NUCLEOBASE_TYPE",
     "CG_REMOVE",
     "CG_CREATE_SQ_LATTICE",
-    "CG_CREATE_HC_LATTICE"
+    "CG_CREATE_HC_LATTICE",
+    "CG_ROUTE_SCAFFOLD"
 ] as const;
 
 const AA_ACTIONS = [
@@ -55,6 +56,7 @@ const NAME_TO_STATE_CONSTR: { [type in AnyAction]: StateConstr } = {
     "CG_REMOVE": CgRemoveState,
     "CG_CREATE_SQ_LATTICE": CreateLatticeState,
     "CG_CREATE_HC_LATTICE": CreateLatticeState,
+    "CG_ROUTE_SCAFFOLD": CgScaffoldRoutingState,
 
     // All-atom actions
     "AA_ADD_AMINO_ACID": ProteinAddAminoAcidsState,
@@ -97,6 +99,7 @@ class ActionsManager {
         "CG_REMOVE": (t) => this._createButton("CG_REMOVE", IconType.REMOVE, "Remove", t, () => new CgRemoveState(this.modellingOptionsPanel.getSelectedCgRemovalType())),
         "CG_CREATE_SQ_LATTICE": (t) => this._createButton("CG_CREATE_SQ_LATTICE", IconType.SQUARE_LATTICE, "Create square lattice", t, () => new CreateLatticeState(false)),
         "CG_CREATE_HC_LATTICE": (t) => this._createButton("CG_CREATE_HC_LATTICE", IconType.HONEYCOMB_LATTICE, "Create honeycomb lattice", t, () => new CreateLatticeState(true)),
+        "CG_ROUTE_SCAFFOLD": (t) => this._createButton("CG_ROUTE_SCAFFOLD", IconType.ROUTE_SCAFFOLD, "Route scaffold through lattice cells", t, () => new CgScaffoldRoutingState()),
 
         // All-atom actions
         "AA_ADD_AMINO_ACID": (t) => this._createButton("AA_ADD_AMINO_ACID", IconType.ADD_AMINO_ACID, "Add amino acid", t, () => {
@@ -0,0 +1,263 @@
+import { CgStructureComponent, Component, Log, Stage, StructureComponent, UnfWriter } from "catana-backend";
+import LocalStorage, { IndexedDbStorage } from "./local-storage";
+
+/**
+ * Content of the scene stored by the autosave
+ */
+export interface AutosaveSnapshot {
+    /**
+     * ID of the Catana session (i.e., browser tab) which created the snapshot
+     */
+    sessionId: string,
+    date: string,
+    componentNames: string[],
+    /**
+     * UNF file containing all structures of the scene
+     */
+    data: string
+}
+
+/**
+ * Snapshots are stored under [session ID, timestamp] keys
+ */
+type AutosaveSnapshotKey = [string, number];
+
+/**
+ * Periodically stores all (all-atom and coarse-grained) structures of the scene into IndexedDB
+ * so that they can be recovered if Catana is not closed properly (e.g., when the browser tab crashes).
+ * Snapshots are taken only if the scene changed since the last one. Only the newest
+ * {@link Autosave.MAX_SNAPSHOTS} snapshots are kept and the ones larger than {@link Autosave.MAX_SNAPSHOT_SIZE} are skipped.
+ *
+ * Every Catana tab is an independent session with its own ID. A running session regularly refreshes its heartbeat
+ * in the local storage and removes it together with its snapshots when the tab is closed properly.
+ * Sessions whose heartbeat is older than {@link Autosave.SESSION_TIMEOUT} are considered to be crashed.
+ */
+class Autosave {
+
+    public static readonly MAX_SNAPSHOTS: number = 3;
+    /**
+     * Maximum size of one snapshot (in characters of the UNF file)
+     */
+    public static readonly MAX_SNAPSHOT_SIZE: number = 64 * 1024 * 1024;
+    public static readonly DEFAULT_INTERVAL: number = 5;
+    /**
+     * Available intervals (in minutes) between the snapshots, 0 disables the autosave
+     */
+    public static readonly INTERVAL_OPTIONS: number[] = [0, 1, 2, 5, 10, 30];
+    /**
+     * Interval (in milliseconds) in which running sessions refresh their heartbeat
+     */
+    public static readonly HEARTBEAT_INTERVAL: number = 15 * 1000;
+    /**
+     * Time (in milliseconds) after which a session without a refreshed heartbeat is considered to be crashed.
+     * It is longer than one minute as browsers throttle the timers of background tabs.
+     */
+    public static readonly SESSION_TIMEOUT: number = 90 * 1000;
+
+    private static readonly snapshots = new IndexedDbStorage<AutosaveSnapshot>("CatanaAutosave");
+    private static readonly intervalStorage = new LocalStorage<number>("StorageKey_AutosaveInterval");
+    /**
+     * Last heartbeat (timestamp) of each session which was not closed properly yet
+     */
+    private static readonly sessionsStorage = new LocalStorage<{ [sessionId: string]: number }>("StorageKey_AutosaveSessions");
+
+    private readonly stage: Stage;
+    private readonly sessionId: string;
+
+    private intervalId: number | null = null;
+    private dirty: boolean = false;
+    private saving: boolean = false;
+
+    public constructor(stage: Stage) {
+        this.stage = stage;
+        this.sessionId = Date.now().toString(36) + "-" + Math.random().toString(36).substring(2);
+
+        this.heartbeat();
+        window.setInterval(() => this.heartbeat(), Autosave.HEARTBEAT_INTERVAL);
+        window.addEventListener("beforeunload", () => this.close());
+
+        const setDirty = () => this.dirty = true;
+        stage.signals.componentAdded.add(setDirty);
+        stage.signals.componentRemoved.add(setDirty);
+        stage.catanaHistory.signals.commandDone.add(setDirty);
+        stage.catanaHistory.signals.changed.add(setDirty);
+
+        this.restartTimer();
+        Autosave.removeOrphanedSnapshots();
+    }
+
+    /**
+     * Interval between the snapshots in minutes (0 if the autosave is disabled)
+     */
+    public get interval(): number {
+        return Autosave.intervalStorage.get(Autosave.DEFAULT_INTERVAL);
+    }
+
+    public set interval(minutes: number) {
+        Autosave.intervalStorage.set(Math.max(0, minutes));
+        this.restartTimer();
+    }
+
+    /**
+     * @returns the newest snapshot of the sessions which were not closed properly, undefined if there is none
+     */
+    public getRecoverableSnapshot(): Promise<AutosaveSnapshot | undefined> {
+        if (!IndexedDbStorage.isSupported) {
+            return Promise.resolve(undefined);
+        }
+
+        const crashedSessions = this.getCrashedSessions();
+        if (crashedSessions.length === 0) {
+            return Promise.resolve(undefined);
+        }
+
+        return Autosave.getSnapshotKeys()
+            .then(keys => {
+                const crashedKeys = keys.filter(k => crashedSessions.includes(k[0]));
+                if (crashedKeys.length === 0) {
+                    // Crashed sessions without any snapshot have nothing to recover
+                    crashedSessions.forEach(id => Autosave.removeSession(id));
+                    return undefined;
+                }
+                crashedKeys.sort((a, b) => a[1] - b[1]);
+                return Autosave.snapshots.get(crashedKeys[crashedKeys.length - 1]);
+            })
+            .catch(e => {
+                console.warn("Autosave snapshots could not be read: " + e);
+                return undefined;
+            });
+    }
+
+    /**
+     * Loads the structures stored in the snapshot
+     */
+    public restore(snapshot: AutosaveSnapshot): Promise<Component[]> {
+        return this.stage.loadFile(new File([snapshot.data], "autosave.unf"), { defaultRepresentation: true });
+    }
+
+    /**
+     * Removes all crashed sessions and their snapshots.
+     * Should be called once the user decided whether to recover the snapshot (see getRecoverableSnapshot).
+     */
+    public discardRecoverableSnapshots(): Promise<void> {
+        return Promise.all(this.getCrashedSessions().map(id => Autosave.removeSnapshots(id)
+            .then(() => Autosave.removeSession(id))))
+            .then(() => { }, e => console.warn("Autosave snapshots could not be removed: " + e));
+    }
+
+    /**
+     * Stores the current structures if the scene changed since the last snapshot
+     */
+    public save(): Promise<void> {
+        if (!this.dirty || this.saving || !IndexedDbStorage.isSupported) {
+            return Promise.resolve();
+        }
+
+        const comps = this.stage.compList.filter((c): c is StructureComponent | CgStructureComponent =>
+            !c.backendOnly && (c instanceof StructureComponent || c instanceof CgStructureComponent));
+        this.dirty = false;
+        if (comps.length === 0) {
+            return Promise.resolve();
+        }
+
+        const data = new UnfWriter(comps).getData();
+        if (data.length > Autosave.MAX_SNAPSHOT_SIZE) {
+            Log.warn("The scene is too large to be autosaved.");
+            return Promise.resolve();
+        }
+
+        this.saving = true;
+        const key: AutosaveSnapshotKey = [this.sessionId, Date.now()];
+        return Autosave.snapshots.set(key, {
+            sessionId: this.sessionId,
+            date: new Date().toLocaleString(),
+            componentNames: comps.map(c => c.name),
+            data: data
+        })
+            .then(() => this.rotate())
+            .catch(e => {
+                this.dirty = true;
+                console.warn("Autosave failed: " + e);
+            })
+            .finally(() => this.saving = false);
+    }
+
+    private restartTimer() {
+        if (this.intervalId !== null) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        if (this.interval > 0) {
+            this.intervalId = window.setInterval(() => this.save(), this.interval * 60 * 1000);
+        }
+    }
+
+    private heartbeat() {
+        const sessions = Autosave.sessionsStorage.get({});
+        sessions[this.sessionId] = Date.now();
+        Autosave.sessionsStorage.set(sessions);
+    }
+
+    /**
+     * Marks the session as closed properly. The removal of the snapshots may not finish before the page is unloaded,
+     * the remaining ones are removed by the next session (see removeOrphanedSnapshots).
+     */
+    private close() {
+        Autosave.removeSession(this.sessionId);
+        if (IndexedDbStorage.isSupported) {
+            Autosave.removeSnapshots(this.sessionId).catch(() => { });
+        }
+    }
+
+    private getCrashedSessions(): string[] {
+        const sessions = Autosave.sessionsStorage.get({});
+        const now = Date.now();
+        return Object.keys(sessions).filter(id => id !== this.sessionId && now - sessions[id] > Autosave.SESSION_TIMEOUT);
+    }
+
+    /**
+     * Removes the oldest snapshots of this session so that at most {@link Autosave.MAX_SNAPSHOTS} are kept
+     */
+    private rotate(): Promise<void> {
+        return Autosave.getSnapshotKeys().then(keys => {
+            // Keys of one session differ in the timestamps only, i.e., the oldest snapshots come first
+            const ownKeys = keys.filter(k => k[0] === this.sessionId);
+            const toRemove = ownKeys.slice(0, Math.max(0, ownKeys.length - Autosave.MAX_SNAPSHOTS));
+            return Promise.all(toRemove.map(k => Autosave.snapshots.remove(k))).then(() => { });
+        });
+    }
+
+    private static getSnapshotKeys(): Promise<AutosaveSnapshotKey[]> {
+        return Autosave.snapshots.keys().then(keys => keys.filter((k): k is AutosaveSnapshotKey =>
+            Array.isArray(k) && k.length === 2 && typeof k[0] === "string" && typeof k[1] === "number"));
+    }
+
+    private static removeSnapshots(sessionId: string): Promise<void> {
+        return Autosave.getSnapshotKeys().then(keys => Promise.all(keys.filter(k => k[0] === sessionId)
+            .map(k => Autosave.snapshots.remove(k))).then(() => { }));
+    }
+
+    private static removeSession(sessionId: string) {
+        const sessions = Autosave.sessionsStorage.get({});
+        delete sessions[sessionId];
+        Autosave.sessionsStorage.set(sessions);
+    }
+
+    /**
+     * Removes the snapshots which do not belong to any known session (e.g., if the session was closed
+     * before all of its snapshots were removed) as well as the snapshots stored in an unknown format
+     */
+    private static removeOrphanedSnapshots() {
+        if (!IndexedDbStorage.isSupported) {
+            return;
+        }
+        const sessions = Autosave.sessionsStorage.get({});
+        Autosave.snapshots.keys()
+            .then(keys => Promise.all(keys
+                .filter(k => !Array.isArray(k) || typeof k[0] !== "string" || sessions[k[0]] === undefined)
+                .map(k => Autosave.snapshots.remove(k))))
+            .catch(e => console.warn("Autosave snapshots could not be removed: " + e));
+    }
+}
+
+export default Autosave;
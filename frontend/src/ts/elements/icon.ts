@@ -30,7 +30,7 @@ export enum IconType {
     OPEN, SAVE,
     LIGHTING, CAMERA,
     QUESTION_CIRCLE, INFO_CIRCLE, MANUAL, BUG,
-    UNDO, APP,
+    UNDO, REDO, APP,
     SETTINGS,
     LAYOUT,
     SELECT_ARROW,
@@ -66,7 +66,9 @@ export enum IconType {
     CARET_DOWN,
     CARET_UP,
     CODE,
-    PLUGIN_EXTENSION
+    PLUGIN_EXTENSION,
+    ROUTE_SCAFFOLD,
+    WIREFRAME
 }
 
 // fa fa-* for Font Awesome
@@ -125,6 +127,7 @@ const icon2str: { [type in IconType]: string } = {
     [IconType.MANUAL]: "fa fa-book-open",
     [IconType.BUG]: "fa fa-bug",
     [IconType.UNDO]: "fa fa-undo",
+    [IconType.REDO]: "fa fa-redo",
     [IconType.APP]: "bi-app",
     [IconType.SETTINGS]: "fa fa-wrench",
     [IconType.LAYOUT]: "bi-grid-1x2",
@@ -161,7 +164,9 @@ const icon2str: { [type in IconType]: string } = {
     [IconType.CARET_DOWN]: "bi bi-caret-down-square-fill",
     [IconType.CARET_UP]: "bi bi-caret-up-square-fill",
     [IconType.CODE]: "bi bi-braces",
-    [IconType.PLUGIN_EXTENSION]: "fa fa-puzzle-piece"
+    [IconType.PLUGIN_EXTENSION]: "fa fa-puzzle-piece",
+    [IconType.ROUTE_SCAFFOLD]: "fa fa-wave-square",
+    [IconType.WIREFRAME]: "fa fa-project-diagram"
 };
 
 class Icon extends Element {
@@ -140,7 +140,7 @@ class CollisionModal extends MovableModalBox {
             .addCallback(CallbackType.INPUT, () => updateParams({color: color.getValue()}));
         const opacity = new Slider(0, 255, 255, 1)
             //.addCallback(CallbackType.INPUT, () => updateParams({opacity: opacity.getValueNormalized()}));
-            .addCallback(CallbackType.INPUT, () => Globals.stage.catanaCollision!.domElement.style.opacity = "" + opacity.getValueNormalized());
+            .addCallback(CallbackType.INPUT, () => Globals.stage.catanaCollision!.setOpacity(opacity.getValueNormalized()));
         const thickness = new Slider(1, 1000, 200, 1)
             .addCallback(CallbackType.INPUT, () => updateParams({thickness: thickness.getValueNormalized()}));
         const box = new Checkbox(true)
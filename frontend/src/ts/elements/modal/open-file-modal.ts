@@ -1,3 +1,4 @@
+import { OxDnaParserParameters, StageLoadFileParams } from "catana-backend";
 import ModalBox from "./modal-box";
 import CATANA from "../../catana-instance";
 import Button from "../button";
@@ -6,6 +7,7 @@ import Globals from "../../globals";
 import TextElement from "../text-element";
 import Input from "../input";
 import FormDialog from "../complex/form-dialog";
+import Dialog from "../complex/dialog";
 import Select from "../select";
 import TitledPanel from "../complex/titled-panel";
 import Panel, { PanelOrientation } from "../panel";
@@ -20,6 +22,17 @@ const AVAILABLE_EXTENSIONS = CATANA.flatten([
     CATANA.DecompressorRegistry.names
 ], []);
 
+// oxDNA configurations are not imported on their own but together with their topology (.top) files
+const OXDNA_CONFIGURATION_EXTENSIONS = ["dat", "conf", "oxdna"];
+
+function getFileExtension(file: File): string {
+    return (file.name.split('.').pop() || "").toLowerCase();
+}
+
+function getFileBaseName(file: File): string {
+    return file.name.substring(0, file.name.lastIndexOf('.'));
+}
+
 class OpenFileModal extends ModalBox {
 
     private readonly dbSelect: Select;
@@ -94,11 +107,27 @@ class OpenFileModal extends ModalBox {
     }
 
     private createDropArea(): FileDropArea {
-        const fda = new FileDropArea("Choose files or drag them here", AVAILABLE_EXTENSIONS)
+        const fda = new FileDropArea("Choose files or drag them here", AVAILABLE_EXTENSIONS.concat(OXDNA_CONFIGURATION_EXTENSIONS))
             .addCallback(CallbackType.CHANGE, () => {
                 const files = fda.getFiles();
                 if (files) {
-                    new CATANA.Queue(this.processUploadedFile, Array.from(files));
+                    const fileList = Array.from(files);
+                    const configurations = fileList.filter(f => OXDNA_CONFIGURATION_EXTENSIONS.includes(getFileExtension(f)));
+                    const topologyToConfiguration = new Map<File, File>();
+
+                    // Topology is paired with the configuration of the same name (or with the only one provided)
+                    fileList.filter(f => getFileExtension(f) === "top").forEach(top => {
+                        const conf = configurations.find(c => getFileBaseName(c) === getFileBaseName(top)) ??
+                            (configurations.length === 1 ? configurations[0] : undefined);
+                        if (conf) {
+                            topologyToConfiguration.set(top, conf);
+                        }
+                    });
+
+                    const pairedConfigurations = Array.from(topologyToConfiguration.values());
+                    new CATANA.Queue((file: File, callback: () => void) =>
+                        this.processUploadedFile(file, callback, topologyToConfiguration.get(file)),
+                        fileList.filter(f => !pairedConfigurations.includes(f)));
                     this.hide();
                 }
             });
@@ -181,9 +210,63 @@ class OpenFileModal extends ModalBox {
         this.hide();
     }
 
-    private processUploadedFile(file: File, callback: () => void) {
-        const ext = (file.name.split('.').pop() || "").toLowerCase();
-        if (AVAILABLE_EXTENSIONS.includes(ext)) {
+    private processUploadedFile(file: File, callback: () => void, oxDnaConfiguration?: File) {
+        const ext = getFileExtension(file);
+        // Topologies without a configuration are loaded as GROMACS ones
+        if (ext === "top" && oxDnaConfiguration) {
+            Globals.animatedLoader?.show();
+            oxDnaConfiguration.text()
+                .then(conf => {
+                    const params: Partial<StageLoadFileParams & OxDnaParserParameters> = { defaultRepresentation: true, configuration: conf };
+                    return Globals.stage!.loadFile(file, params);
+                })
+                .then(comps => {
+                    if (comps.length > 0) {
+                        comps[0].autoView();
+                    }
+                }, e => CATANA.Log.error(e))
+                .finally(() => {
+                    Globals.animatedLoader?.hide();
+                    callback();
+                });
+        } else if (ext === CATANA.SessionExtension) {
+            // Session replaces the current content of the stage (including the camera), so no auto-view is done
+            // Scripts embedded in the session are run only if the user explicitly allows it
+            const _confirmScripts = (scriptNames: string[]) => {
+                Globals.animatedLoader?.hide();
+                const dialog = new Dialog("Run session scripts: " + file.name, "Run scripts");
+                dialog.add(new TextElement("The session contains scripts which were running when it was saved: " +
+                    scriptNames.join(", ") + ". Run them only if you trust the source of the session. " +
+                    "Otherwise, close this dialog and the scripts will be restored without being run."));
+                return dialog.show().wait().finally(() => Globals.animatedLoader?.show());
+            };
+            const _load = () => {
+                Globals.animatedLoader?.show();
+                Globals.stage!.loadSession(file, true, _confirmScripts)
+                    .catch(e => CATANA.Log.error(e))
+                    .finally(() => {
+                        Globals.animatedLoader?.hide();
+                        callback();
+                    });
+            };
+
+            if (Globals.stage!.compList.some(c => !c.backendOnly)) {
+                const dialog = new Dialog("Open session: " + file.name, "Replace the current scene");
+                dialog.add(new TextElement("Opening a session removes all current components and clears the undo history."));
+                dialog.show().wait().then(confirmed => {
+                    if (confirmed) {
+                        _load();
+                    } else {
+                        callback();
+                    }
+                });
+            } else {
+                _load();
+            }
+        } else if (OXDNA_CONFIGURATION_EXTENSIONS.includes(ext)) {
+            CATANA.Log.error("oxDNA configuration " + file.name + " must be imported together with its topology (.top) file.");
+            callback();
+        } else if (AVAILABLE_EXTENSIONS.includes(ext)) {
             const _load = function (parameters = {}) {
                 const p = Object.assign({ defaultRepresentation: true }, parameters);
                 Globals.animatedLoader?.show();
@@ -199,7 +282,7 @@ class OpenFileModal extends ModalBox {
             const requiredParameters = CATANA.getParserParameters(ext);
             if (Object.keys(requiredParameters).length > 0) {
                 const title = "Import " + ext + ": " + file.name;
-                const confirmText = "Convert to UNF remotely and import";
+                const confirmText = "Import";
                 const dialog = new FormDialog(title, confirmText, requiredParameters);
                 document.body.appendChild(dialog.dom);
                 dialog.show().wait().then(confirmed => {
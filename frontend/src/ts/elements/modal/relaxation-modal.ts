@@ -10,10 +10,15 @@ import {
     Structure,
     StructureComponent,
     mergeStructures,
-    PdbWriter
+    PdbWriter,
+    CgRelaxation,
+    CgRelaxationProgress,
+    RelaxCgStructureCommand
 } from "catana-backend";
 import {IconType} from "../icon";
 import CatanaServer from "../../networking/networking";
+import Progress from "../progress";
+import Globals from "../../globals";
 
 type Type = "aa" | "cg";
 
@@ -26,6 +31,12 @@ class RelaxationModal extends MovableModalBox {
 
     private readonly radiosPanel: RadioGroupPanel;
     private readonly componentsSelect: ComponentsSelect;
+    private readonly localButton: Button;
+    private readonly progress: Progress;
+    private readonly status: TextElement;
+
+    private relaxation: CgRelaxation | null = null;
+    private stopRequested: boolean = false;
 
     public constructor() {
         super("Relaxation", false, IconType.RELAXATION);
@@ -33,7 +44,8 @@ class RelaxationModal extends MovableModalBox {
         const table = new SimpleFormTable();
 
         { // Type
-            this.radiosPanel = new RadioGroupPanel(Object.keys(typeMap));
+            this.radiosPanel = new RadioGroupPanel(Object.keys(typeMap), 1)
+                .addCallback(CallbackType.CLICK, () => this.updateLocalButton());
             table.addRow([new TextElement("Type"), this.radiosPanel]);
         }
 
@@ -77,10 +89,77 @@ class RelaxationModal extends MovableModalBox {
         button.setText("_____________");
         button.setEnabled(false, "This feature is currently disabled");
 
-        this.add(table, button);
+        // Local (in-browser) relaxation of coarse-grained structures
+        this.localButton = new Button("Relax locally").addCallback(CallbackType.CLICK, () => {
+            if (this.relaxation) {
+                this.stopRequested = true;
+                this.relaxation.stop();
+                return;
+            }
+            const components = this.componentsSelect.getComponents()
+                .filter(c => c instanceof CgStructureComponent) as CgStructureComponent[];
+            if (components.length === 0) {
+                this.status.setText("Select at least one coarse-grained structure to relax it locally.");
+                return;
+            }
+            this.relaxLocally(components);
+        });
+        this.progress = new Progress(RelaxationModal.MAX_ITERATIONS, 0);
+        this.progress.hide();
+        this.status = new TextElement();
+        this.updateLocalButton();
+
+        this.add(table, button, this.localButton, this.progress, this.status);
+    }
+
+    private updateLocalButton() {
+        if (this.relaxation) return;
+        const isCg = this.radiosPanel.getValue() === "Coarse-grained";
+        this.localButton.setEnabled(isCg, isCg ? undefined : "Only coarse-grained structures can be relaxed locally");
+    }
+
+    /**
+     * Relaxes the given components one after another and writes the relaxed positions
+     * back into their structures (undoable)
+     */
+    private async relaxLocally(components: CgStructureComponent[]) {
+        this.stopRequested = false;
+        this.localButton.setText("Stop");
+        this.progress.show();
+
+        for (const c of components) {
+            if (this.stopRequested) break;
+
+            const relaxation = new CgRelaxation(c.cgStructure);
+            this.relaxation = relaxation;
+            relaxation.signals.progress.add((p: CgRelaxationProgress) => {
+                this.progress.setValue(p.iteration);
+                this.status.setText(c.name + ": " + RelaxationModal.formatProgress(p));
+            });
+
+            try {
+                const result = await relaxation.run(RelaxationModal.MAX_ITERATIONS);
+                if (relaxation.isUpToDate) {
+                    Globals.stage.catanaHistory.do(new RelaxCgStructureCommand(relaxation));
+                    c.updateRepresentations({});
+                    this.status.setText(c.name + " relaxed: " + RelaxationModal.formatProgress(result));
+                } else {
+                    this.status.setText(c.name + " was modified during the relaxation. The result was discarded.");
+                }
+            } catch (e) {
+                console.error("Relaxation of " + c.name + " failed: " + e);
+                this.status.setText("Relaxation of " + c.name + " failed.");
+            }
+        }
+
+        this.relaxation = null;
+        this.localButton.setText("Relax locally");
+        this.progress.hide();
+        this.updateLocalButton();
     }
 
     public dispose(): this {
+        this.relaxation?.stop();
         super.dispose();
         this.componentsSelect.dispose();
         return this;
@@ -88,6 +167,13 @@ class RelaxationModal extends MovableModalBox {
 
     // STATIC ----------------------------------------------------------------------------------------------------------
 
+    private static readonly MAX_ITERATIONS = 2000;
+
+    private static formatProgress(p: CgRelaxationProgress): string {
+        return "iteration " + p.iteration + ", energy " + p.energy.toFixed(1) + ", " +
+            p.overstretchedBonds + " overstretched bond(s), " + p.clashes + " clash(es)";
+    }
+
     //private static readonly URL = /relax_new";
     private static readonly SERVER = new CatanaServer();
 
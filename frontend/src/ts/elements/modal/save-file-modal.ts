@@ -1,8 +1,15 @@
 import {
+    CadnanoWriter,
+    CatanaSessionWriter,
     CgStructureComponent, duplicateComponentContainingStructure,
     FastaWriter,
+    getGltfScene,
+    GltfWriter,
     mergeComponentsContainingStructureIntoOne,
+    MmcifWriter,
+    OxDnaWriter,
     PdbWriter,
+    StapleListWriter,
     Structure, transformStructureToOxDnaGeometry,
     UnfWriter
 } from "catana-backend";
@@ -17,6 +24,7 @@ import TextElement from "../text-element";
 import ImageElement from "../image-element";
 import TabsMenu from "../complex/tabs-menu";
 import Input from "../input";
+import Select from "../select";
 import { ComponentsSelect } from "../specialized/component/component";
 import Table, {SimpleFormTable} from "../complex/table";
 import { IconType } from "../icon";
@@ -31,11 +39,12 @@ class SaveFileModal extends ModalBox {
 
         const defaultExportFileName = "catana_export";
 
-        // PDB Export Panel
+        // PDB / mmCIF Export Panel
         const pdbExportPanel = new Panel(PanelOrientation.VERTICAL);
         let pdbAvailableStructuresSelect: ComponentsSelect;
         {
             const mergeToOneOnExportCheckbox = new Checkbox(true);
+            const fileFormatSelect = new Select({ "pdb": "PDB", "cif": "PDBx/mmCIF" });
             pdbAvailableStructuresSelect = new ComponentsSelect(
                 [
                     "structure",
@@ -94,6 +103,10 @@ class SaveFileModal extends ModalBox {
 
                 const exportName = pdbExportNameInput.getValue().length > 0 ? pdbExportNameInput.getValue() : defaultExportFileName;
 
+                // mmCIF files are not limited in the number of atoms and the length of chain names
+                const createWriter = (structure: Structure) => fileFormatSelect.getValue() === "cif" ?
+                    new MmcifWriter(structure) : new PdbWriter(structure);
+
                 if (mergeToOneOnExportCheckbox.isChecked() && structureCompsToExport.length > 1) {
                     const newName = structureCompsToExport
                         .map(x => x.name)
@@ -103,8 +116,7 @@ class SaveFileModal extends ModalBox {
                         const mergedComp = mergeComponentsContainingStructureIntoOne(Globals.stage!, newName, false, true,
                             compToStrucResolver, comp => { }, ...structureCompsToExport);
 
-                        const pdbWriter = new PdbWriter(mergedComp.structure);
-                        pdbWriter.download(exportName);
+                        createWriter(mergedComp.structure).download(exportName);
                         mergedComp.dispose();
                     });
                 } else {
@@ -112,8 +124,7 @@ class SaveFileModal extends ModalBox {
                         // TODO Individual export now ignores translation/rotation
                         for (let i = 0; i < structureCompsToExport.length; ++i) {
                             const currStructure = compToStrucResolver(structureCompsToExport[i]);
-                            const pdbWriter = new PdbWriter(currStructure);
-                            pdbWriter.download(exportName);
+                            createWriter(currStructure).download(exportName);
                         }
                     });
                 }
@@ -123,6 +134,7 @@ class SaveFileModal extends ModalBox {
             const optionsTable = SaveFileModal.createTable(
                 ["Select structures to export", pdbAvailableStructuresSelect],
                 ["Merge to one file on export", mergeToOneOnExportCheckbox],
+                ["File format", fileFormatSelect],
                 ["File name", pdbExportNameInput]);
 
             pdbExportPanel.add(optionsTable);
@@ -248,6 +260,171 @@ class SaveFileModal extends ModalBox {
             fastaExportPanel.add(exportAsFastaButton);
         }
 
+        // oxDNA export panel
+        const oxDnaExportPanel = new Panel(PanelOrientation.VERTICAL);
+        {
+            const oxDnaStructuresSelect = new ComponentsSelect(["cg-structure"], undefined, true);
+            const newStyleTopologyCheckbox = new Checkbox(false);
+            const basePairForcesCheckbox = new Checkbox(true);
+            const oxDnaExportNameInput = new Input("", "", defaultExportFileName);
+            const exportAsOxDnaButton = new Button("Export selected structure(s)");
+
+            exportAsOxDnaButton.addCallback(CallbackType.CLICK, () => {
+                const structureCompsToExport = oxDnaStructuresSelect.getComponents();
+                if (structureCompsToExport.length === 0) { return; }
+
+                const exportName = oxDnaExportNameInput.getValue().length > 0 ? oxDnaExportNameInput.getValue() : defaultExportFileName;
+
+                const oxDnaWriter = new OxDnaWriter(structureCompsToExport as unknown as any, {
+                    newStyleTopology: newStyleTopologyCheckbox.isChecked(),
+                    exportBasePairForces: basePairForcesCheckbox.isChecked()
+                });
+                oxDnaWriter.download(exportName);
+            });
+
+            const optionsTable = SaveFileModal.createTable(
+                ["Select structures to export", oxDnaStructuresSelect],
+                ["New-style topology", newStyleTopologyCheckbox],
+                ["Export base-pairs as mutual traps", basePairForcesCheckbox],
+                ["File name", oxDnaExportNameInput]);
+
+            oxDnaExportPanel.add(optionsTable);
+            oxDnaExportPanel.add(exportAsOxDnaButton);
+        }
+
+        // cadnano export panel
+        const cadnanoExportPanel = new Panel(PanelOrientation.VERTICAL);
+        {
+            const cadnanoLatticeSelect = new ComponentsSelect(["lattice"]);
+            const cadnanoStructuresSelect = new ComponentsSelect(["cg-structure"], undefined, true);
+            const cadnanoExportNameInput = new Input("", "", defaultExportFileName);
+            const skippedStrandsText = new TextElement();
+            const exportAsCadnanoButton = new Button("Export selected structure(s)");
+
+            exportAsCadnanoButton.addCallback(CallbackType.CLICK, () => {
+                const latticeComps = cadnanoLatticeSelect.getComponents();
+                const structureCompsToExport = cadnanoStructuresSelect.getComponents();
+                if (latticeComps.length === 0 || structureCompsToExport.length === 0) { return; }
+
+                const exportName = cadnanoExportNameInput.getValue().length > 0 ? cadnanoExportNameInput.getValue() : defaultExportFileName;
+
+                const cadnanoWriter = new CadnanoWriter(latticeComps[0] as unknown as any, structureCompsToExport as unknown as any, {
+                    designName: exportName
+                });
+                cadnanoWriter.download(exportName);
+
+                const skipped = cadnanoWriter.skippedStrands;
+                skippedStrandsText.setText(skipped.length === 0 ? "" :
+                    "Skipped strands (not aligned to the lattice): " +
+                    skipped.map(x => x.structureName + "/" + x.strandName + " (" + x.reason + ")").join(", "));
+            });
+
+            const optionsTable = SaveFileModal.createTable(
+                ["Lattice", cadnanoLatticeSelect],
+                ["Select structures to export", cadnanoStructuresSelect],
+                ["File name", cadnanoExportNameInput]);
+
+            cadnanoExportPanel.add(optionsTable);
+            cadnanoExportPanel.add(exportAsCadnanoButton);
+            cadnanoExportPanel.add(skippedStrandsText);
+        }
+
+        // Staple list export panel
+        const staplesExportPanel = new Panel(PanelOrientation.VERTICAL);
+        {
+            const staplesStructuresSelect = new ComponentsSelect(["cg-structure"], undefined, true);
+            const useLatticeCheckbox = new Checkbox(false);
+            const staplesLatticeSelect = new ComponentsSelect(["lattice"]);
+            const groupingSelect = new Select({ "none": "None", "color": "By color", "component": "By component" });
+            const plateFormatSelect = new Select({ "96": "96-well plate", "384": "384-well plate" });
+            const wellOrderSelect = new Select({ "column": "By columns (A1, B1, ...)", "row": "By rows (A1, A2, ...)" });
+            const newPlatePerPoolCheckbox = new Checkbox(true);
+            const staplesExportNameInput = new Input("", "", "staples");
+            const exportStaplesButton = new Button("Export staples of selected structure(s)");
+
+            exportStaplesButton.addCallback(CallbackType.CLICK, () => {
+                const structureCompsToExport = staplesStructuresSelect.getComponents();
+                if (structureCompsToExport.length === 0) { return; }
+
+                const latticeComps = useLatticeCheckbox.isChecked() ? staplesLatticeSelect.getComponents() : [];
+                const exportName = staplesExportNameInput.getValue().length > 0 ? staplesExportNameInput.getValue() : "staples";
+
+                const stapleListWriter = new StapleListWriter(structureCompsToExport as unknown as any, {
+                    lattice: latticeComps.length > 0 ? latticeComps[0] as unknown as any : undefined,
+                    grouping: groupingSelect.getValue() as any,
+                    plateFormat: plateFormatSelect.getValue() as any,
+                    wellOrder: wellOrderSelect.getValue() as any,
+                    newPlatePerPool: newPlatePerPoolCheckbox.isChecked()
+                });
+                stapleListWriter.download(exportName);
+            });
+
+            const optionsTable = SaveFileModal.createTable(
+                ["Select structures to export", staplesStructuresSelect],
+                ["Describe staple ends using lattice", useLatticeCheckbox],
+                ["Lattice", staplesLatticeSelect],
+                ["Group staples into pools", groupingSelect],
+                ["Plate format", plateFormatSelect],
+                ["Fill wells", wellOrderSelect],
+                ["Start each pool on a new plate", newPlatePerPoolCheckbox],
+                ["File name", staplesExportNameInput]);
+
+            staplesExportPanel.add(new TextElement("Exports the staples (non-scaffold strands) as a CSV order sheet " +
+                "with the sequence, length, GC content, and plate and well of each staple."));
+            staplesExportPanel.add(optionsTable);
+            staplesExportPanel.add(exportStaplesButton);
+        }
+
+        // glTF export panel
+        const gltfExportPanel = new Panel(PanelOrientation.VERTICAL);
+        {
+            const binaryCheckbox = new Checkbox(true);
+            const sphereSegmentsInput = new Input("12", "number");
+            const radialSegmentsInput = new Input("10", "number");
+            const gltfExportNameInput = new Input("", "", "catana_scene");
+            const exportGltfButton = new Button("Export scene");
+
+            exportGltfButton.addCallback(CallbackType.CLICK, () => {
+                const exportName = gltfExportNameInput.getValue().length > 0 ? gltfExportNameInput.getValue() : "catana_scene";
+                const nodes = getGltfScene(Globals.stage!, {
+                    sphereSegments: Math.max(3, parseInt(sphereSegmentsInput.getValue()) || 12),
+                    radialSegments: Math.max(3, parseInt(radialSegmentsInput.getValue()) || 10)
+                });
+                new GltfWriter(nodes, { binary: binaryCheckbox.isChecked() }).download(exportName);
+            });
+
+            const optionsTable = SaveFileModal.createTable(
+                ["Binary file (GLB)", binaryCheckbox],
+                ["Sphere segments", sphereSegmentsInput],
+                ["Cylinder segments", radialSegmentsInput],
+                ["File name", gltfExportNameInput]);
+
+            gltfExportPanel.add(new TextElement("Exports the visible components with their representations and colors " +
+                "as a glTF 2.0 scene (e.g., for Blender or AR/VR viewers). Spheres and cylinders are converted to meshes."));
+            gltfExportPanel.add(optionsTable);
+            gltfExportPanel.add(exportGltfButton);
+        }
+
+        // Session export panel
+        const sessionExportPanel = new Panel(PanelOrientation.VERTICAL);
+        {
+            const sessionExportNameInput = new Input("", "", "catana_session");
+            const exportSessionButton = new Button("Save session");
+
+            exportSessionButton.addCallback(CallbackType.CLICK, () => {
+                const exportName = sessionExportNameInput.getValue().length > 0 ? sessionExportNameInput.getValue() : "catana_session";
+                new CatanaSessionWriter(Globals.stage!).download(exportName);
+            });
+
+            const optionsTable = SaveFileModal.createTable(
+                ["File name", sessionExportNameInput]);
+
+            sessionExportPanel.add(new TextElement("Stores all structures, lattices and shapes together with " +
+                "their representations and annotations, the camera, and the loaded plugins and scripts."));
+            sessionExportPanel.add(optionsTable);
+            sessionExportPanel.add(exportSessionButton);
+        }
+
         // Screenshot export panel
         const screenshotExportPanel = new Panel(PanelOrientation.VERTICAL);
         {
@@ -310,9 +487,14 @@ class SaveFileModal extends ModalBox {
         }
 
         this.add(new TabsMenu()
-            .addTab("PDB", pdbExportPanel)
+            .addTab("PDB / mmCIF", pdbExportPanel)
             .addTab("UNF", unfExportPanel)
             .addTab("FASTA", fastaExportPanel)
+            .addTab("oxDNA", oxDnaExportPanel)
+            .addTab("cadnano", cadnanoExportPanel)
+            .addTab("Staples", staplesExportPanel)
+            .addTab("glTF", gltfExportPanel)
+            .addTab("Session", sessionExportPanel)
             .addTab("Screenshot", screenshotExportPanel));
 
         document.body.appendChild(this.dom);
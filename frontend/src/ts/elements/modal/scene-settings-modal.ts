@@ -9,6 +9,7 @@ import {SimpleFormTable} from "../complex/table";
 import TextElement from "../text-element";
 import { IconType } from "../icon";
 import {Color} from "catana-backend";
+import Autosave from "../../autosave";
 
 class SceneSettingsModal extends MovableModalBox {
     public constructor(icon?: IconType) {
@@ -50,11 +51,20 @@ class SceneSettingsModal extends MovableModalBox {
             Globals.stage.viewer.requestRender();
         });
 
+        const autosaveOptions = {};
+        Autosave.INTERVAL_OPTIONS.forEach(x => autosaveOptions[x.toString()] = x === 0 ? "disabled" : x + " min");
+        const autosaveSelect = new Select(autosaveOptions);
+        autosaveSelect.setValue(Globals.autosave.interval.toString());
+        autosaveSelect.addCallback(CallbackType.CHANGE, () => {
+            Globals.autosave.interval = parseInt(autosaveSelect.getValue());
+        });
+
         this.add(new SimpleFormTable()
             .addRow([new TextElement("Background color:"), sceneBackgroundColorPicker])
             .addRow([new TextElement("Graphics quality:"), sceneQualitySelect])
             .addRow([new TextElement("Show grid:"), gridHelperCheckbox])
             .addRow([new TextElement("Show origin axes:"), originAxesCheckbox])
+            .addRow([new TextElement("Autosave interval:"), autosaveSelect])
             .addRow([new TextElement("Debug mode:"), debugCheckbox]));
 
         Globals.stage.signals.parametersChanged.add(() => {
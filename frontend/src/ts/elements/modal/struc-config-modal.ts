@@ -6,7 +6,7 @@ import { IconText, IconType } from "../icon";
 import { SequenceEditor } from "../specialized/sequence-editor";
 import Button from "../button";
 import CATANA from "../../catana-instance";
-import { BDnaIdealisticForm, BDnaForm, DnaForm, AtomGenerationLimit, Log } from "catana-backend";
+import { BDnaIdealisticForm, BDnaForm, BDnaSequenceDependentForm, DnaForm, AtomGenerationLimit, Log } from "catana-backend";
 import Select from "../select";
 import TextElement from "../text-element";
 import Input from "../input";
@@ -25,7 +25,10 @@ class StrucConfigModal extends ModalBox {
             [BDnaIdealisticForm, "Idealistic B-DNA", "Default Catana DNA geometry. Well-supported by all of Catana features."],
             [BDnaForm, "B-DNA (Experimental)", "DNA geometry with more realistic B-DNA parameters, resulting in more significant major and minor grooves, for example." +
                 " Support of this geometry is in an experimental stage, and some Catana features (e.g., UNF import and DNA strand extension) may not behave well with it." +
-                " However, this geometry is well-suited for ssDNA and dsDNA created from scratch."]
+                " However, this geometry is well-suited for ssDNA and dsDNA created from scratch."],
+            [BDnaSequenceDependentForm, "Sequence-dependent B-DNA", "Idealistic B-DNA with rise, twist, roll, tilt, slide, and shift" +
+                " of each dinucleotide step taken from Olson et al. (1998), reproducing the intrinsic curvature of the sequence (e.g., of A-tracts)." +
+                " The geometry of a strand is recomputed also when its sequence is changed."]
         ];
 
         const dnaFormSelect = new Select(dnaForms.map(x => x[1]));
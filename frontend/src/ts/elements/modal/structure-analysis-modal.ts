@@ -1,14 +1,17 @@
 import MovableModalBox from "./movable-modal-box";
 import { IconType } from "../icon";
-import { Component, StructureAnalysis } from "catana-backend";
+import { analyzeStrandSequences, CgStructureComponent, Component, ScriptingApi, StructureAnalysis } from "catana-backend";
 import { ComponentsSelect } from "../specialized/component/component";
 import Button from "../button";
 import { CallbackType } from "../element";
 import Panel from "../panel";
+import TextElement from "../text-element";
+import SequenceAnalysisTable from "../specialized/sequence-analysis-table";
 
 class StructureAnalysisModal extends MovableModalBox {
     private _strucAnalysis: StructureAnalysis | null = null;
     private _analysisContent: Panel;
+    private _sequenceAnalysisContent: Panel;
 
     public constructor(icon?: IconType) {
         super("Structure Analysis", false, icon);
@@ -27,6 +30,7 @@ class StructureAnalysisModal extends MovableModalBox {
         const showAnalysisButton = new Button("Show (Reload) analysis");
 
         this._analysisContent = new Panel();
+        this._sequenceAnalysisContent = new Panel();
 
         showAnalysisButton.addCallback(CallbackType.CLICK, () => {
             const comps = structuresSelect.getComponents();
@@ -36,8 +40,19 @@ class StructureAnalysisModal extends MovableModalBox {
             }
         });
 
+        const downloadHelicalParamsButton = new Button("Download helical parameters (CSV)");
+        downloadHelicalParamsButton.addCallback(CallbackType.CLICK, () => {
+            const comps = structuresSelect.getComponents();
+
+            if (comps.length > 0) {
+                ScriptingApi.downloadHelicalParameters(comps[0].name + "_helical-parameters", comps[0]);
+            }
+        });
+
         this.add(structuresSelect);
         this.add(showAnalysisButton);
+        this.add(downloadHelicalParamsButton);
+        this.add(this._sequenceAnalysisContent);
         this.add(this._analysisContent);
     }
 
@@ -47,6 +62,14 @@ class StructureAnalysisModal extends MovableModalBox {
         }
 
         this._strucAnalysis = new StructureAnalysis(this._analysisContent.dom, comp as any);
+
+        this._sequenceAnalysisContent.clear();
+        if (comp instanceof CgStructureComponent && comp.cgStructure.naStrandsCount > 0) {
+            const results = analyzeStrandSequences(comp.cgStructure.naStrands);
+            this._sequenceAnalysisContent.add(
+                new TextElement("Sequence design check (strands paired with each other are not considered off-targets):"),
+                new SequenceAnalysisTable(results));
+        }
     }
 }
 
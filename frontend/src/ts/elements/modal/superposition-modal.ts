@@ -1,4 +1,6 @@
-import {CgStructureComponent, Component, Quaternion, Structure, StructureComponent} from "catana-backend";
+import {
+    CgStructureComponent, Component, Log, Quaternion, Structure, StructureComponent, SuperpositionResult
+} from "catana-backend";
 
 import CATANA from "../../catana-instance";
 import {CallbackType} from "../element";
@@ -11,37 +13,20 @@ import Table, {SimpleFormTable} from "../complex/table";
 import Element from "../element";
 import MovableModalBox from "./movable-modal-box";
 
-const ALIGNMENT_MODES = ["Structural superposing", "Principal axes", "Component placement"] as const;
+const ALIGNMENT_MODES = ["Structural superposing", "Shape superposing (coarse-grained)", "Principal axes", "Component placement"] as const;
 type Mode = typeof ALIGNMENT_MODES[number];
-const ALIGNMENT_FUNCTIONS: { [mode in Mode]: (src: Component, srcStruct: Structure, dst: Component, dstStruct: Structure) => void } = {
+type AlignmentFunction = (src: Component, srcStruct: Structure, dst: Component, dstStruct: Structure) => SuperpositionResult | void;
+const ALIGNMENT_FUNCTIONS: { [mode in Mode]: AlignmentFunction } = {
     "Structural superposing": (src: Component, srcStruct: Structure, dst: Component, dstStruct: Structure) => {
-        // TODO This is not very nice solution but gets the superposition
-        //      working consistently (from visuals/export perspective)
-        src.setPosition([0, 0, 0]);
-        src.setRotation([0, 0, 0]);
-
-        dst.setPosition([0, 0, 0]);
-        dst.setRotation([0, 0, 0]);
-
-        CATANA.superpose(srcStruct, dstStruct, true);
-
-        // Trying to make superposition work when the components are translated/rotated
-        // but it was not working very well .. :/
-        // ---
-        // Note: using component.setTransform is not very desired atm
-        // as it may not work well with other functions working purely with
-        // position/rotation, etc.
-        // ==
-        /*const translation = new CATANA.Vector3();
-        translation.setFromMatrixPosition(spMatrix);
-        console.log(spMatrix);
-        // Considering that superposition does not perform scale transformations
-        const quatRotation = new CATANA.Quaternion().setFromRotationMatrix(spMatrix);
-
-        component.setPosition(component.position.clone().add(translation));
-        component.setRotation(component.quaternion.clone().multiply(quatRotation));*/
-
-        (src as any).rebuildRepresentations();
+        return CATANA.superposeComponents(src as StructureComponent | CgStructureComponent,
+            dst as StructureComponent | CgStructureComponent, { align: true });
+    },
+    "Shape superposing (coarse-grained)": (src: Component, srcStruct: Structure, dst: Component, dstStruct: Structure) => {
+        if (!(src instanceof CgStructureComponent) || !(dst instanceof CgStructureComponent)) {
+            Log.error("Shape superposing is available only for coarse-grained structures.");
+            return;
+        }
+        return CATANA.superposeComponents(src, dst, { sequenceIndependent: true });
     },
     "Principal axes": (src: Component, srcStruct: Structure, dst: Component, dstStruct: Structure) => {
         const srcPc = srcStruct.getPrincipalAxes();
@@ -90,6 +75,9 @@ class SuperpositionModal extends MovableModalBox {
         table.addRow([new TextElement("Align with"), availableStructuresSelect]);
         table.addRow([new TextElement("Alignment mode"), alignmentMode]);
 
+        const resultText = new TextElement("-");
+        table.addRow([new TextElement("Result"), resultText]);
+
         const superposeButton = new Button("Align");
         this.add(table, superposeButton)
 
@@ -112,7 +100,19 @@ class SuperpositionModal extends MovableModalBox {
                 dstStruct = dst.cgStructure;
             }
 
-            ALIGNMENT_FUNCTIONS[alignmentMode.getValue()](src, srcStruct, dst, dstStruct);
+            try {
+                const result = ALIGNMENT_FUNCTIONS[alignmentMode.getValue()](src, srcStruct, dst, dstStruct);
+                if (result) {
+                    const text = "RMSD " + result.rmsd.toFixed(2) + " \u212B over " + result.pairCount + " pairs";
+                    resultText.setText(text);
+                    Log.info("Superposition of " + src.name + " onto " + dst.name + ": " + text);
+                } else {
+                    resultText.setText("-");
+                }
+            } catch (e) {
+                resultText.setText("Failed: " + (e as Error).message);
+                Log.error("Superposition failed: " + (e as Error).message);
+            }
         });
     }
 }
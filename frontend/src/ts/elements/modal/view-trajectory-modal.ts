@@ -1,7 +1,10 @@
 import MovableModalBox from "./movable-modal-box";
 import { IconButton, IconToggle, IconType } from "../icon";
 import { ComponentsSelect } from "../specialized/component/component";
-import { autoLoad, download, duplicateComponentContainingStructure, Frames, Log, TrajectoryElement, TrajectoryPlayer } from "catana-backend";
+import {
+    autoLoad, CgStructureComponent, download, duplicateComponentContainingStructure, Frames, Log, OxDnaCgFrames,
+    TrajectoryElement, TrajectoryPlayer
+} from "catana-backend";
 import Button from "../button";
 import { flatten, ParserRegistry, StructureComponent } from "catana-backend";
 import Element, { CallbackType } from "../element";
@@ -17,11 +20,19 @@ const AVAILABLE_EXTENSIONS = flatten([
     ParserRegistry.getTrajectoryExtensions()
 ], []);
 
+/**
+ * Extensions of oxDNA trajectories which can be played for coarse-grained structures
+ */
+const OXDNA_TRAJECTORY_EXTENSIONS = ["dat", "conf", "oxdna"];
+
+type TrajectoryComponent = StructureComponent | CgStructureComponent;
+
 /**
  * Modal box enabling to play MD trajectories.
+ * Coarse-grained structures can play oxDNA trajectories (requiring the topology the structure was loaded from).
  */
 class ViewTrajectoryModal extends MovableModalBox {
-    private _selStructureComp: StructureComponent | undefined;
+    private _selStructureComp: TrajectoryComponent | undefined;
     private _trajectoryComponent: TrajectoryElement;
     private _trajectoryControls: TrajectoryControls;
     private _trajectoryPlayer: TrajectoryPlayer;
@@ -31,29 +42,33 @@ class ViewTrajectoryModal extends MovableModalBox {
 
         const table = new SimpleFormTable();
 
-        const componentSelect = new ComponentsSelect(["structure"], undefined, false);
-        const fileInput = this.getFileInput();
+        const componentSelect = new ComponentsSelect(["structure", "cg-structure"], undefined, false);
+        const fileInput = this.getFileInput("." + AVAILABLE_EXTENSIONS.concat(OXDNA_TRAJECTORY_EXTENSIONS).join(",."));
+        const topologyInput = this.getFileInput(".top");
         const viewButton = new Button("Load trajectory");
         this._trajectoryControls = new TrajectoryControls();
         this._trajectoryControls?.setVisible(false);
 
         table.addRow([new TextElement("Trajectory structure"), componentSelect]);
         table.addRow([new TextElement("Trajectory file"), fileInput]);
+        table.addRow([new TextElement("oxDNA topology (coarse-grained only)"), topologyInput]);
 
         viewButton.addCallback(CallbackType.CLICK, () => {
             this.removeLoadedTrajectory();
             const selComps = componentSelect.getComponents();
             if (selComps.length > 0) {
-                this._selStructureComp = selComps[0] as StructureComponent;
+                this._selStructureComp = selComps[0] as TrajectoryComponent;
                 const trajFiles = fileInput.dom.files;
                 if (trajFiles && trajFiles.length > 0) {
                     const trajFile = trajFiles.item(0);
-                    if (trajFile) {
+                    if (!trajFile) {
+                        Log.error("Trajectory file not selected or invalid.");
+                    } else if (this._selStructureComp instanceof CgStructureComponent) {
+                        this.loadCgTrajectory(this._selStructureComp, trajFile, topologyInput.dom.files?.item(0));
+                    } else {
                         autoLoad(trajFile).then(frames => {
                             this.addLoadedTrajectory(frames as any);
                         });
-                    } else {
-                        Log.error("Trajectory file not selected or invalid.");
                     }
                 } else {
                     Log.error("You must select a trajectory file!");
@@ -81,15 +96,31 @@ class ViewTrajectoryModal extends MovableModalBox {
         this._trajectoryControls?.setVisible(false);
     }
 
-    private getFileInput(): Element<HTMLInputElement> {
+    private getFileInput(accept: string): Element<HTMLInputElement> {
         const input = new Element<HTMLInputElement>(document.createElement("input"));
         input.dom.type = "file";
-        input.dom.accept = "." + AVAILABLE_EXTENSIONS.join(",.");
+        input.dom.accept = accept;
         return input;
     }
 
-    private addLoadedTrajectory(frames: Frames): void {
-        this._trajectoryComponent = this._selStructureComp!.addTrajectory(frames);
+    private loadCgTrajectory(comp: CgStructureComponent, trajFile: File, topologyFile?: File | null): void {
+        if (!topologyFile) {
+            Log.error("oxDNA trajectories of coarse-grained structures must be loaded together with their topology file.");
+            return;
+        }
+
+        // The trajectory is not read at once as it may be very large, frames are read from the file on demand
+        topologyFile.text()
+            .then(topology => OxDnaCgFrames.load(comp.cgStructure, topology, trajFile, trajFile.name))
+            .then(frames => this.addLoadedTrajectory(frames))
+            .catch(e => Log.error(e));
+    }
+
+    private addLoadedTrajectory(frames: Frames | OxDnaCgFrames): void {
+        const comp = this._selStructureComp!;
+        this._trajectoryComponent = comp instanceof CgStructureComponent ?
+            comp.addTrajectory(frames as OxDnaCgFrames) :
+            comp.addTrajectory(frames as Frames);
         Log.info(`Loaded ${this._trajectoryComponent.trajectory.frameCount} trajectory frames for ${this._selStructureComp!.name}`);
 
         this._trajectoryPlayer = new TrajectoryPlayer(this._trajectoryComponent.trajectory, {
@@ -123,7 +154,7 @@ class TrajectoryControls extends Panel {
     private _downloadFrameScreenshot: Button;
 
     private _currPlayer: TrajectoryPlayer;
-    private _strucComp: StructureComponent;
+    private _strucComp: TrajectoryComponent;
 
     public constructor() {
         super(PanelOrientation.VERTICAL);
@@ -186,7 +217,7 @@ class TrajectoryControls extends Panel {
         );
     }
 
-    public update(player: TrajectoryPlayer, strucComp: StructureComponent): void {
+    public update(player: TrajectoryPlayer, strucComp: TrajectoryComponent): void {
         this._currPlayer = player;
         this._strucComp = strucComp;
 
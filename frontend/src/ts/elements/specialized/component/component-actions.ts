@@ -5,7 +5,10 @@ import Globals from "../../../globals";
 import SuperpositionModal from "../../modal/superposition-modal";
 import MergeModal from "../../modal/merge-modal";
 import CATANA from "../../../catana-instance";
-import { CgStructureComponent, Component, StructureComponent, convertCgStrucCompToAaStrucComp, convertAaStrucCompToCgStrucComp } from "catana-backend";
+import {
+    CgStructureComponent, Component, StructureComponent, SurfaceComponent, convertCgStrucCompToAaStrucComp,
+    convertAaStrucCompToCgStrucComp, convertSurfaceCompToWireframeDna, Log
+} from "catana-backend";
 import { ToggleState } from "../../toggle";
 
 export default class ComponentActions extends Panel {
@@ -74,6 +77,19 @@ export default class ComponentActions extends Panel {
                 }), 16);
             });
         }
+        const convertToWireframeButton = new IconButton(IconType.WIREFRAME, "Convert to DNA wireframe"); {
+            convertToWireframeButton.addCallback(CallbackType.CLICK, () => {
+                if (!(component instanceof SurfaceComponent)) {
+                    return;
+                }
+
+                Globals.animatedLoader?.show();
+                setTimeout(() => convertSurfaceCompToWireframeDna(Globals.stage!, component).catch(e => Log.error(e.message)).finally(() => {
+                    Globals.tooltip?.deactivate();
+                    Globals.animatedLoader?.hide();
+                }), 16);
+            });
+        }
         const superposeButton = new IconButton(IconType.SUPERPOSE, "Align with..."); {
             superposeButton.addCallback(CallbackType.CLICK, () => superpositionModal.show());
         }
@@ -114,6 +130,8 @@ export default class ComponentActions extends Panel {
         } else if (component.type === "cg-structure") {
             this.add(convertToAaButton);
             this.add(autoDetectBpButton);
+        } else if (component.type === "surface") {
+            this.add(convertToWireframeButton);
         }
 
         if (component.type.endsWith("structure")) {
@@ -1,21 +1,29 @@
 import {
+    alignProteinSequences,
     CgMonomerProxy,
     CgPolymer,
     CgStructureComponent,
     ColormakerRegistry,
     Component,
+    ConservationColorMaker,
     FastaSequenceProvider,
+    getMsaResidueIndex,
+    getProteinSequences,
     Log,
     Representation,
     RepresentationElement,
     ResidueProxy,
+    ScriptingApi,
+    SetPolymerSequenceCommand,
+    setConservationAlignment,
     StructureComponent,
+    StructureMsa,
     threeLetterToOneLetter
 } from "catana-backend";
 
 import Panel, {PanelOrientation} from "../../panel";
 import Select from "../../select";
-import {SequenceEditor, SequenceElement, SequenceProcessorImportDialog} from "../sequence-editor";
+import {AutoStapleDialog, ScaffoldSequenceDialog, SequenceEditor, SequenceElement, SequenceProcessorImportDialog} from "../sequence-editor";
 import CATANA from "../../../catana-instance";
 import Element, {CallbackType} from "../../element";
 import Table, {TableType} from "../../complex/table";
@@ -24,6 +32,7 @@ import TextElement from "../../text-element";
 import Globals from "../../../globals";
 import Checkbox from "../../checkbox";
 import Button from "../../button";
+import {ComponentsSelect} from "./component";
 
 type FilterObject = { c: Component, r: RepresentationElement, f: string };
 
@@ -70,6 +79,11 @@ class ComponentSequence extends Panel {
     private readonly editor: SequenceEditor;
     private readonly setSequenceButton: Button;
     private readonly seqImportDialog: SequenceProcessorImportDialog;
+    private readonly scaffoldSequenceButton: Button;
+    private readonly scaffoldSequenceDialog: ScaffoldSequenceDialog;
+    private readonly autoStapleButton: Button;
+    private readonly autoStapleDialog: AutoStapleDialog;
+    private readonly msaPanel: MultipleSequenceAlignmentPanel;
 
     private representations: { [name: string]: Representation } = {};
     private polymer: null | CgPolymer = null;
@@ -125,7 +139,9 @@ class ComponentSequence extends Panel {
                         seqArr.push(seqProv.get(i));
                     }
 
-                    this.polymer.setSequence(seqArr);
+                    // Sequence-dependent geometry is updated in the same (undoable) step
+                    const updateGeometry = this.polymer.isNucleic() && !!CATANA.CatanaState.dnaFactory.dnaForm.stepParams;
+                    Globals.stage.catanaHistory.do(new SetPolymerSequenceCommand(this.polymer, seqArr, updateGeometry));
                     _c.updateRepresentations({});
 
                     this.seqImportDialog.hide();
@@ -137,9 +153,39 @@ class ComponentSequence extends Panel {
             });
         });
 
+        // Create scaffold sequence dialog and button
+        this.scaffoldSequenceDialog = new ScaffoldSequenceDialog(IconType.SET_STRAND_SEQUENCE);
+        document.body.appendChild(this.scaffoldSequenceDialog.dom);
+        this.scaffoldSequenceButton = new IconButton(IconType.SET_STRAND_SEQUENCE, "Apply scaffold sequence");
+        this.scaffoldSequenceButton.addCallback(CallbackType.CLICK, () => {
+            this.scaffoldSequenceDialog.show().wait().then((settings) => {
+                if (!this.polymer || !settings || settings.scaffold.length === 0) return;
+                ScriptingApi.applyScaffoldSequence(_c, settings.scaffold, settings.startIndex,
+                    settings.fillerBase, this.polymer.name).then(ok => {
+                    if (ok) Log.info("Scaffold sequence applied");
+                });
+                this.scaffoldSequenceDialog.hide();
+            });
+        });
+        this.autoStapleDialog = new AutoStapleDialog(IconType.MAGIC);
+        document.body.appendChild(this.autoStapleDialog.dom);
+        this.autoStapleButton = new IconButton(IconType.MAGIC, "Generate staples");
+        this.autoStapleButton.addCallback(CallbackType.CLICK, () => {
+            this.autoStapleDialog.show().wait().then((settings) => {
+                if (!this.polymer || !settings || !settings.lattice) return;
+                const staples = ScriptingApi.autoStaple(_c, settings.lattice, settings.minLength,
+                    settings.maxLength, this.polymer.name);
+                if (staples) Log.info(staples.length + " staples generated");
+                this.autoStapleDialog.hide();
+            });
+        });
+
         // Create editor
         this.editor = this.createEditor();
 
+        // Create multiple sequence alignment panel
+        this.msaPanel = new MultipleSequenceAlignmentPanel(c, this.text);
+
         // Set up signals
         const s = c instanceof StructureComponent ? c.structure : c.cgStructure;
         this.refreshedCallback = () => {
@@ -154,11 +200,11 @@ class ComponentSequence extends Panel {
         let elems: Element<HTMLElement>[] = [optionsTable, locateOnClickPanel];
 
         if (_c instanceof CgStructureComponent) {
-            elems.push(this.setSequenceButton);
+            elems.push(this.setSequenceButton, this.scaffoldSequenceButton, this.autoStapleButton);
         }
 
         const scrollableContent = new Panel(PanelOrientation.VERTICAL)
-            .add(...elems, this.editor);
+            .add(...elems, this.editor, this.msaPanel);
         this.add(scrollableContent, this.text);
     }
 
@@ -195,6 +241,9 @@ class ComponentSequence extends Panel {
         const s = c instanceof StructureComponent ? c.structure : c.cgStructure;
         s.signals.refreshed.remove(this.refreshedCallback);
         this.seqImportDialog.dispose();
+        this.scaffoldSequenceDialog.dispose();
+        this.autoStapleDialog.dispose();
+        this.msaPanel.dispose();
         super.dispose();
 
         return this;
@@ -325,8 +374,12 @@ class ComponentSequence extends Panel {
             if (this.polymer && (this.polymer as CgPolymer).isNucleic()) {
                 this.setSequenceButton.setEnabled(true);
                 this.setSequenceButton.setText(this.setStrandSeqDefText + ` (${(this.polymer as any).isScaffold ? "scaffold" : "staple"})`);
+                this.scaffoldSequenceButton.setEnabled(true);
+                this.autoStapleButton.setEnabled(true);
             } else {
                 this.setSequenceButton.setEnabled(false);
+                this.scaffoldSequenceButton.setEnabled(false);
+                this.autoStapleButton.setEnabled(false);
             }
         }
 
@@ -397,4 +450,145 @@ class ComponentSequence extends Panel {
     }
 }
 
+/**
+ * Panel computing a multiple sequence alignment of the protein chains of a component
+ * and of other (all-atom or coarse-grained) structure components.
+ * Hovering over an alignment column highlights and selects the aligned residues of all components.
+ */
+class MultipleSequenceAlignmentPanel extends Panel {
+    private readonly component: StructureComponent | CgStructureComponent;
+    private readonly text: TextElement;
+    private readonly componentsSelect: ComponentsSelect;
+    private readonly colorButton: Button;
+    private readonly rowsPanel: Panel;
+
+    private msa: null | StructureMsa = null;
+    private editors: SequenceEditor[] = [];
+
+    public constructor(component: StructureComponent | CgStructureComponent, text: TextElement) {
+        super(PanelOrientation.VERTICAL);
+        this.component = component;
+        this.text = text;
+
+        this.componentsSelect = new ComponentsSelect(["structure", "cg-structure"], undefined, true, [component]);
+
+        const alignButton = new IconButton(IconType.SUPERPOSE, "Align protein chains");
+        alignButton.addCallback(CallbackType.CLICK, () => this.align());
+
+        this.colorButton = new IconButton(IconType.COLORING, "Color by conservation");
+        this.colorButton.addCallback(CallbackType.CLICK, () => this.colorByConservation());
+        this.colorButton.setEnabled(false);
+
+        this.rowsPanel = new Panel(PanelOrientation.VERTICAL);
+
+        const optionsTable = new Table<[Icon, Element]>(2, TableType.FORM, false, false, [0, 1]);
+        optionsTable.addRow([new Icon(IconType.SUPERPOSE), this.componentsSelect]);
+
+        this.add(new TextElement("Multiple sequence alignment"), optionsTable, alignButton, this.colorButton, this.rowsPanel);
+    }
+
+    public dispose(): this {
+        this.componentsSelect.dispose();
+        super.dispose();
+        return this;
+    }
+
+    private align() {
+        const components = [this.component, ...this.componentsSelect.getComponents()
+            .map(c => ComponentSequence.ensureSupported(c))
+            .filter((c): c is StructureComponent | CgStructureComponent => c !== null)];
+
+        const sequences = components.map(c => getProteinSequences(c)).reduce((a, b) => a.concat(b), []);
+        if (sequences.length < 2) {
+            Log.error("At least two protein chains are needed for a multiple sequence alignment");
+            return;
+        }
+
+        this.msa = alignProteinSequences(sequences);
+        this.updateRows();
+        this.colorButton.setEnabled(true);
+        Log.info("Aligned " + sequences.length + " protein chains (" + this.msa.rows[0].length + " columns)");
+    }
+
+    private colorByConservation() {
+        if (!this.msa) return;
+        setConservationAlignment(this.msa);
+
+        const components = new Set(this.msa.sequences.map(s => s.component));
+        components.forEach(c => c.eachRepresentation(reprElem => reprElem.setColor("conservation")));
+    }
+
+    private updateRows() {
+        const msa = this.msa;
+        this.rowsPanel.clear();
+        this.editors = [];
+        if (!msa) return;
+
+        const colormaker = ColormakerRegistry.getScheme({ scheme: "conservation" }) as ConservationColorMaker;
+
+        let highlighted: SequenceElement[] = [];
+        const unselect = () => {
+            highlighted.forEach(e => e.setHighlighted(false));
+            highlighted = [];
+            this.text.setText("-");
+            this.text.setHighlighted(false);
+            Globals.stage.viewer.unselect();
+        };
+
+        msa.rows.forEach((row, i) => {
+            const seq = msa.sequences[i];
+            const editor = new SequenceEditor(false, false, true, false)
+                .addOnElementHoveredCallback(e => {
+                    unselect();
+                    const column = e.sequenceIndex!;
+                    this.editors.forEach(ed => ed.forEachElement(el => {
+                        if (el.sequenceIndex === column) {
+                            el.setHighlighted(true);
+                            highlighted.push(el);
+                        }
+                    }));
+                    this.text.setText("Column: " + (column + 1) + " | Conservation: " + msa.conservation[column].toFixed(2));
+                    this.text.setHighlighted(true);
+                    Globals.stage.viewer.selectFiltered(...this.getSelectionObjects(column));
+                })
+                .addCallback(CallbackType.MOUSELEAVE, () => unselect());
+
+            editor.insert(row.split("").map((char, column) => new SequenceElement(char, column)));
+            editor.setElementColorFunction(e => {
+                if (e.getValue() === "-") return "";
+                return colorHexToCss(colormaker.conservationColor(msa.conservation[e.sequenceIndex!]));
+            });
+
+            this.editors.push(editor);
+            this.rowsPanel.add(new TextElement(seq.component.name + " : " + seq.chainName), editor);
+        });
+    }
+
+    private getSelectionObjects(column: number): FilterObject[] {
+        const msa = this.msa;
+        if (!msa) return [];
+
+        const objs: FilterObject[] = [];
+        msa.sequences.forEach((seq, row) => {
+            const index = getMsaResidueIndex(msa, row, column);
+            if (index < 0) return;
+
+            let resno: number;
+            if (seq.polymer) {
+                const proxy = seq.polymer.proxyAtIndex(index);
+                if (!proxy) return;
+                resno = proxy.residueNumber;
+            } else {
+                resno = new ResidueProxy((seq.component as StructureComponent).structure, index).resno;
+            }
+
+            const filter = ":" + seq.chainName + " AND " + resno;
+            seq.component.eachRepresentation(reprElem => {
+                objs.push({ c: seq.component, r: reprElem, f: filter });
+            });
+        });
+        return objs;
+    }
+}
+
 export default ComponentSequence;
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { CatanaHistory, Command } from "catana-backend";
+import Panel, { PanelOrientation } from "../panel";
+import { IconButton, IconType } from "../icon";
+import { ButtonType } from "../button";
+import TextElement from "../text-element";
+import { CallbackType } from "../element";
+import Globals from "../../globals";
+
+/**
+ * Lists the commands stored in the Catana history (the oldest one first).
+ * Clicking an entry undoes/redoes the commands until the clicked one is the most recently done one.
+ * Hovering over an entry highlights the components affected by the corresponding command.
+ */
+class HistoryPanel extends Panel {
+
+    private readonly history: CatanaHistory;
+    private readonly undoButton: IconButton;
+    private readonly redoButton: IconButton;
+    private readonly entries: Panel;
+
+    private readonly updateFun: () => void;
+
+    public constructor() {
+        super(PanelOrientation.VERTICAL);
+        this.addClass("HistoryPanel");
+
+        this.history = Globals.stage.catanaHistory;
+
+        this.undoButton = new IconButton(IconType.UNDO, undefined, ButtonType.MINI)
+            .setTitle("Undo")
+            .addCallback(CallbackType.CLICK, () => this.history.undo());
+        this.redoButton = new IconButton(IconType.REDO, undefined, ButtonType.MINI)
+            .setTitle("Redo")
+            .addCallback(CallbackType.CLICK, () => this.history.redo());
+        const bar = new Panel(PanelOrientation.HORIZONTAL).addClass("HistoryPanelBar")
+            .add(this.undoButton, this.redoButton);
+
+        this.entries = new Panel(PanelOrientation.VERTICAL).addClass("HistoryPanelEntries");
+
+        this.add(bar, this.entries);
+
+        // 'changed' is dispatched whenever a command is stored, undone or redone
+        this.updateFun = () => this.update();
+        this.history.signals.changed.add(this.updateFun);
+
+        this.update();
+    }
+
+    public dispose() {
+        this.history.signals.changed.remove(this.updateFun);
+        return super.dispose();
+    }
+
+    /**
+     * Rebuilds the list of entries based on the current content of the history
+     */
+    public update() {
+        this.entries.clear();
+
+        const done: Command[] = [];
+        const undone: Command[] = [];
+        this.history.forEachCommand(c => done.unshift(c));
+        this.history.forEachUndoneCommand(c => undone.push(c));
+
+        const initial = this.createEntry("Initial state", null);
+        initial.setHighlighted(done.length === 0);
+        this.entries.add(initial);
+
+        let current: TextElement = initial;
+        for (const c of done) {
+            const entry = this.createEntry(c.name, c);
+            if (c === this.history.last) {
+                entry.setHighlighted(true);
+                current = entry;
+            }
+            this.entries.add(entry);
+        }
+        for (const c of undone) {
+            this.entries.add(this.createEntry(c.name, c).addClass("undone"));
+        }
+
+        current.dom.scrollIntoView({ block: "nearest" });
+
+        this.undoButton.setEnabled(this.history.canUndo);
+        this.redoButton.setEnabled(this.history.canRedo);
+    }
+
+    private createEntry(name: string, command: Command | null): TextElement {
+        const entry = new TextElement(name).addClass("HistoryPanelEntry").setTitle(name);
+        entry.addCallback(CallbackType.CLICK, () => {
+            Globals.stage.viewer.unselect();
+            this.history.goTo(command);
+        });
+        if (command) {
+            entry.addCallback(CallbackType.MOUSEENTER, () => Globals.stage.viewer.selectComponents(command.components));
+            entry.addCallback(CallbackType.MOUSELEAVE, () => Globals.stage.viewer.unselect());
+        }
+        return entry;
+    }
+}
+
+export default HistoryPanel;
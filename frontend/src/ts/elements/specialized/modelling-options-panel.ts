@@ -13,6 +13,7 @@ import CATANA from "../../catana-instance";
 import { IconText, IconType } from "../icon";
 import {SimpleFormTable} from "../complex/table";
 import Checkbox from "../checkbox";
+import Globals from "../../globals";
 
 class ModellingOptionsPanel extends Panel {
 
@@ -35,6 +36,12 @@ class ModellingOptionsPanel extends Panel {
     private readonly changeComplementCheckbox: Checkbox;
     private readonly labelExtendDoubleStrand: TextElement;
     private readonly extendDoubleStrand: Checkbox;
+    private readonly labelHelixLength: TextElement;
+    private readonly fieldHelixLength: Input;
+    private readonly labelCircular: TextElement;
+    private readonly circularCheckbox: Checkbox;
+    private readonly labelScaffold: TextElement;
+    private readonly scaffoldSelect: Select;
 
     private state: null | CatanaState;
 
@@ -104,6 +111,19 @@ class ModellingOptionsPanel extends Panel {
         this.labelExtendDoubleStrand = new TextElement("Extend double strand");
         this.extendDoubleStrand = new Checkbox(false);
 
+        // Scaffold routing UI elements
+        const scaffolds: { [id: string]: string } = { "": "None" };
+        for (const sc of CATANA.BuiltInScaffolds) scaffolds[sc.name] = sc.name + " (" + sc.length + " nt)";
+        this.labelHelixLength = new TextElement("Helix length (bp):");
+        this.fieldHelixLength = new Input("64", "number");
+        this.fieldHelixLength.addCallback(CallbackType.INPUT, () => this.updateScaffoldRoutingState());
+        this.labelCircular = new TextElement("Cyclic scaffold");
+        this.circularCheckbox = new Checkbox(true);
+        this.circularCheckbox.addCallback(CallbackType.CHANGE, () => this.updateScaffoldRoutingState());
+        this.labelScaffold = new TextElement("Scaffold:");
+        this.scaffoldSelect = new Select(scaffolds);
+        this.scaffoldSelect.addCallback(CallbackType.CHANGE, () => this.updateScaffoldRoutingState());
+
         this.panelDirectionSelectorCircle = new DirectionSelectorCirclePanel(directionSelectorCircle);
 
         // Table
@@ -113,6 +133,9 @@ class ModellingOptionsPanel extends Panel {
         table.addRow([this.labelCount, this.fieldCount]);
         table.addRow([this.labelChangeComplement, this.changeComplementCheckbox]);
         table.addRow([this.labelExtendDoubleStrand, this.extendDoubleStrand]);
+        table.addRow([this.labelHelixLength, this.fieldHelixLength]);
+        table.addRow([this.labelCircular, this.circularCheckbox]);
+        table.addRow([this.labelScaffold, this.scaffoldSelect]);
 
         this.state = null;
 
@@ -122,6 +145,8 @@ class ModellingOptionsPanel extends Panel {
                 this.state.add();
             } else if (this.state instanceof CATANA.CgNucleicAcidExtendState) {
                 this.state.extend();
+            } else if (this.state instanceof CATANA.CgScaffoldRoutingState) {
+                this.state.generate(Globals.stage);
             } else {
                 console.warn("DesignOptionsPanel button clicked with invalid state (see state below)");
                 console.warn(this.state);
@@ -168,6 +193,15 @@ class ModellingOptionsPanel extends Panel {
         return selIdx !== null ? (selIdx as StructureElementType) : undefined;
     }
 
+    private updateScaffoldRoutingState() {
+        if (this.state instanceof CATANA.CgScaffoldRoutingState) {
+            const helixLength = parseInt(this.fieldHelixLength.getValue());
+            if (!isNaN(helixLength)) this.state.helixLength = helixLength;
+            this.state.isCircular = this.circularCheckbox.isChecked();
+            this.state.scaffold = this.scaffoldSelect.getValue();
+        }
+    }
+
     public getCount(): number {
         return parseInt(this.fieldCount.getValue());
     }
@@ -238,6 +272,13 @@ class ModellingOptionsPanel extends Panel {
         this.labelExtendDoubleStrand.setVisible(false);
         this.extendDoubleStrand.setVisible(false);
 
+        this.labelHelixLength.setVisible(false);
+        this.fieldHelixLength.setVisible(false);
+        this.labelCircular.setVisible(false);
+        this.circularCheckbox.setVisible(false);
+        this.labelScaffold.setVisible(false);
+        this.scaffoldSelect.setVisible(false);
+
         // So that the children element already have some size
         // This is necessary so that the DirectionSelectorCircle is drawn
         this.setVisible(true);
@@ -309,6 +350,17 @@ class ModellingOptionsPanel extends Panel {
             this.panelTerminus.setVisible(true);
 
             this.aaRemovalType.setVisible(true);
+        } else if (state instanceof CATANA.CgScaffoldRoutingState) {
+            this.labelHelixLength.setVisible(true);
+            this.fieldHelixLength.setVisible(true);
+            this.labelCircular.setVisible(true);
+            this.circularCheckbox.setVisible(true);
+            this.labelScaffold.setVisible(true);
+            this.scaffoldSelect.setVisible(true);
+            this.updateScaffoldRoutingState();
+
+            this.button.setText("Generate scaffold");
+            this.button.setVisible(true);
         }
         else {
             this.setVisible(false);
@@ -201,7 +201,7 @@ export class RepresentationColoringPanel extends Panel {
 
         // TODO: HOT FIX! Remove this eventually
         if (component instanceof CgStructureComponent && representation.getType && representation.getType() === "atomic") {
-            for (const schemeToRemove of ["cg-custom", "crossover", "direction gradient"]) {
+            for (const schemeToRemove of ["cg-custom", "crossover", "direction gradient", "melting temperature"]) {
                 const index = schemeOptions.indexOf(schemeToRemove);
                 if (index !== -1) {
                     schemeOptions.splice(index, 1);
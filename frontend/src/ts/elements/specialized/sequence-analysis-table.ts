@@ -0,0 +1,93 @@
+import { SequenceAnalysisResult } from "catana-backend";
+import Panel, { PanelOrientation } from "../panel";
+import Table, { TableType } from "../complex/table";
+import TextElement from "../text-element";
+import { CallbackType } from "../element";
+
+type Column = {
+    name: string,
+    title: string,
+    value: (r: SequenceAnalysisResult) => number | string,
+    text: (r: SequenceAnalysisResult) => string
+};
+
+const COLUMNS: Column[] = [
+    { name: "Strand", title: "Strand name", value: r => r.name, text: r => r.name },
+    { name: "Length", title: "Number of nucleotides", value: r => r.length, text: r => r.length.toString() },
+    {
+        name: "GC (%)", title: "GC content",
+        value: r => r.gcContent, text: r => (r.gcContent * 100).toFixed(1)
+    },
+    {
+        name: "Tm (°C)", title: "Nearest-neighbour melting temperature",
+        value: r => isNaN(r.meltingTemperature) ? -Infinity : r.meltingTemperature,
+        text: r => isNaN(r.meltingTemperature) ? "-" : r.meltingTemperature.toFixed(1)
+    },
+    {
+        name: "Run", title: "Longest run of identical bases",
+        value: r => r.longestRun, text: r => r.longestRun + (r.longestRunBase ? " (" + r.longestRunBase + ")" : "")
+    },
+    { name: "Hairpin", title: "Base pairs of the longest hairpin stem", value: r => r.hairpinStem, text: r => r.hairpinStem.toString() },
+    {
+        name: "Self-dimer", title: "Longest stretch complementary to another copy of the strand",
+        value: r => r.selfDimer, text: r => r.selfDimer.toString()
+    },
+    {
+        name: "Off-target", title: "Longest stretch complementary to another (non-partner) strand",
+        value: r => r.offTarget, text: r => r.offTarget + (r.offTargetStrand ? " (" + r.offTargetStrand + ")" : "")
+    }
+];
+
+/**
+ * Table listing the results of the sequence analysis (one strand per row).
+ * Clicking a column header sorts the rows by that column (clicking it again reverses the order).
+ */
+class SequenceAnalysisTable extends Panel {
+
+    private readonly results: SequenceAnalysisResult[];
+
+    private sortColumn: number = -1;
+    private sortAscending: boolean = true;
+
+    public constructor(results: SequenceAnalysisResult[]) {
+        super(PanelOrientation.VERTICAL);
+        this.addClass("SequenceAnalysisTable");
+        this.results = results.slice();
+        this.update();
+    }
+
+    private sortBy(column: number) {
+        this.sortAscending = column === this.sortColumn ? !this.sortAscending : true;
+        this.sortColumn = column;
+
+        const value = COLUMNS[column].value;
+        const sign = this.sortAscending ? 1 : -1;
+        this.results.sort((a, b) => {
+            const va = value(a);
+            const vb = value(b);
+            return sign * (va < vb ? -1 : va > vb ? 1 : 0);
+        });
+
+        this.update();
+    }
+
+    private update() {
+        this.clear();
+
+        const table = new Table(COLUMNS.length, TableType.LIST, false, false, COLUMNS.map(() => 1));
+        table.addRow(COLUMNS.map((c, i) => {
+            const arrow = i === this.sortColumn ? (this.sortAscending ? " ▲" : " ▼") : "";
+            return new TextElement(c.name + arrow)
+                .addClass("SequenceAnalysisHeader")
+                .setTitle(c.title + " (click to sort)")
+                .addCallback(CallbackType.CLICK, () => this.sortBy(i));
+        }));
+        for (const r of this.results) {
+            table.addRow(COLUMNS.map(c => new TextElement(c.text(r))));
+        }
+
+        this.add(table);
+    }
+}
+
+export default SequenceAnalysisTable;
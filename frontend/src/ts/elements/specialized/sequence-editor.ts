@@ -4,6 +4,7 @@ import {
     CgStructureComponent,
     ChainProxy,
     Component,
+    LatticeComponent,
     Representation,
     ResidueProxy,
     StructureComponent
@@ -18,6 +19,8 @@ import Panel, { PanelOrientation } from "../panel";
 import TextElement from "../text-element";
 import Select from "../select";
 import TitledPanel from "../complex/titled-panel";
+import { SimpleFormTable } from "../complex/table";
+import Input from "../input";
 import { IconButton, IconType } from "../icon";
 import { ModalBoxLayer } from "../modal/modal-box";
 
@@ -510,6 +513,181 @@ export class SequenceProcessorImportDialog extends MovableModalBox {
     }
 }
 
+/**
+ * Settings of the scaffold sequence assignment chosen in the {@link ScaffoldSequenceDialog}.
+ * 'scaffold' is either the name of a built-in scaffold or a custom DNA sequence.
+ */
+export type ScaffoldSequenceSettings = { scaffold: string, startIndex: number, fillerBase: string };
+
+export class ScaffoldSequenceDialog extends MovableModalBox {
+
+    private static readonly CUSTOM = "custom";
+
+    private readonly applyCallbacks: ((settings: ScaffoldSequenceSettings) => void)[];
+    private readonly scaffoldSelect: Select;
+    private readonly startIndexInput: Input;
+    private readonly fillerSelect: Select;
+    private readonly processor: SequenceProcessor;
+
+    public constructor(icon?: IconType) {
+        super("Apply scaffold sequence", false, icon);
+        this.addClass("Dialog");
+        this.layer = ModalBoxLayer.OVERLAY;
+
+        const scaffolds: { [id: string]: string } = {};
+        for (const s of CATANA.BuiltInScaffolds) scaffolds[s.name] = s.description + " (" + s.length + " nt)";
+        scaffolds[ScaffoldSequenceDialog.CUSTOM] = "Custom sequence";
+
+        this.processor = new SequenceProcessor("", false, true);
+        this.scaffoldSelect = new Select(scaffolds).addCallback(CallbackType.CHANGE, () => {
+            this.processor.setVisible(this.scaffoldSelect.getValue() === ScaffoldSequenceDialog.CUSTOM);
+        });
+        this.processor.setVisible(this.scaffoldSelect.getValue() === ScaffoldSequenceDialog.CUSTOM);
+        this.startIndexInput = new Input("0", "number");
+        this.fillerSelect = new Select(["T", "A", "C", "G"]);
+
+        const table = new SimpleFormTable();
+        table.addRow([new TextElement("Scaffold:"), this.scaffoldSelect]);
+        table.addRow([new TextElement("Start nucleotide index:"), this.startIndexInput]);
+        table.addRow([new TextElement("Filler base:"), this.fillerSelect]);
+
+        const apply = new Button("Apply").addCallback(CallbackType.CLICK, () => {
+            const settings = this.getSettings();
+            for (const c of this.applyCallbacks) c(settings);
+        });
+        const bottomBar = new Panel(PanelOrientation.HORIZONTAL).addClass("DialogBottomBar").add(apply);
+
+        this.add(table, this.processor, bottomBar);
+        this.applyCallbacks = [];
+    }
+
+    /**
+     * @returns promise resolved with the chosen settings once 'Apply' is clicked, or with null if the dialog is closed
+     */
+    public wait(): Promise<ScaffoldSequenceSettings | null> {
+        const scope = this;
+        return new Promise((resolve) => {
+            const _finish = function (settings: ScaffoldSequenceSettings | null) {
+                {
+                    const index = scope.closeCallbacks.indexOf(closeCallback);
+                    if (index !== -1) {
+                        scope.closeCallbacks.splice(index, 1);
+                    }
+                }
+                {
+                    const index = scope.applyCallbacks.indexOf(applyCallback);
+                    if (index !== -1) {
+                        scope.applyCallbacks.splice(index, 1);
+                    }
+                }
+                resolve(settings);
+            }
+
+            const closeCallback = () => _finish(null);
+            const applyCallback = (settings: ScaffoldSequenceSettings) => _finish(settings);
+
+            scope.applyCallbacks.push(applyCallback);
+            scope.addOnCloseCallback(closeCallback);
+        });
+    }
+
+    private getSettings(): ScaffoldSequenceSettings {
+        const name = this.scaffoldSelect.getValue();
+        const startIndex = parseInt(this.startIndexInput.getValue());
+        return {
+            scaffold: name === ScaffoldSequenceDialog.CUSTOM ? this.processor.getDnaSequence() : name,
+            startIndex: isNaN(startIndex) ? 0 : startIndex,
+            fillerBase: this.fillerSelect.getValue()
+        };
+    }
+}
+
+/**
+ * Settings of the automatic staple generation chosen in the {@link AutoStapleDialog}.
+ * 'lattice' is the UUID of the lattice component to which the scaffold is aligned.
+ */
+export type AutoStapleSettings = { lattice: string, minLength: number, maxLength: number };
+
+export class AutoStapleDialog extends MovableModalBox {
+
+    private readonly applyCallbacks: ((settings: AutoStapleSettings) => void)[];
+    private readonly latticeSelect: Select;
+    private readonly minLengthInput: Input;
+    private readonly maxLengthInput: Input;
+
+    public constructor(icon?: IconType) {
+        super("Generate staples", false, icon);
+        this.addClass("Dialog");
+        this.layer = ModalBoxLayer.OVERLAY;
+
+        this.latticeSelect = new Select();
+        this.minLengthInput = new Input("18", "number");
+        this.maxLengthInput = new Input("60", "number");
+
+        const table = new SimpleFormTable();
+        table.addRow([new TextElement("Lattice:"), this.latticeSelect]);
+        table.addRow([new TextElement("Minimal staple length:"), this.minLengthInput]);
+        table.addRow([new TextElement("Maximal staple length:"), this.maxLengthInput]);
+
+        const apply = new Button("Generate").addCallback(CallbackType.CLICK, () => {
+            const settings = this.getSettings();
+            for (const c of this.applyCallbacks) c(settings);
+        });
+        const bottomBar = new Panel(PanelOrientation.HORIZONTAL).addClass("DialogBottomBar").add(apply);
+
+        this.add(table, bottomBar);
+        this.applyCallbacks = [];
+
+        this.addOnShowCallback(() => {
+            const lattices: { [id: string]: string } = {};
+            Globals.stage?.compList.forEach(c => {
+                if (c instanceof LatticeComponent) lattices[c.uuid] = c.name;
+            });
+            this.latticeSelect.updateOptions(lattices);
+        });
+    }
+
+    /**
+     * @returns promise resolved with the chosen settings once 'Generate' is clicked, or with null if the dialog is closed
+     */
+    public wait(): Promise<AutoStapleSettings | null> {
+        const scope = this;
+        return new Promise((resolve) => {
+            const _finish = function (settings: AutoStapleSettings | null) {
+                {
+                    const index = scope.closeCallbacks.indexOf(closeCallback);
+                    if (index !== -1) {
+                        scope.closeCallbacks.splice(index, 1);
+                    }
+                }
+                {
+                    const index = scope.applyCallbacks.indexOf(applyCallback);
+                    if (index !== -1) {
+                        scope.applyCallbacks.splice(index, 1);
+                    }
+                }
+                resolve(settings);
+            }
+
+            const closeCallback = () => _finish(null);
+            const applyCallback = (settings: AutoStapleSettings) => _finish(settings);
+
+            scope.applyCallbacks.push(applyCallback);
+            scope.addOnCloseCallback(closeCallback);
+        });
+    }
+
+    private getSettings(): AutoStapleSettings {
+        const minLength = parseInt(this.minLengthInput.getValue());
+        const maxLength = parseInt(this.maxLengthInput.getValue());
+        return {
+            lattice: this.latticeSelect.getValue(),
+            minLength: isNaN(minLength) ? 18 : minLength,
+            maxLength: isNaN(maxLength) ? 60 : maxLength
+        };
+    }
+}
+
 export class SequenceProcessor extends Panel {
 
     private readonly messageInput: TextElement;
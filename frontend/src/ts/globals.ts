@@ -9,6 +9,7 @@ import { FilteringModalBox } from "./elements/specialized/filtering";
 import LayoutManager from "./layout/layout-manager";
 import BugModal from "./elements/modal/bug-modal";
 import ActionsManager from "./actions-manager";
+import Autosave from "./autosave";
 
 class Globals {
     static stage: Stage;
@@ -19,6 +20,7 @@ class Globals {
     static tooltip: null | Tooltip;
     static filteringModalBox: FilteringModalBox;
     static bugReport: BugModal;
+    static autosave: Autosave;
     static rollbar: any | undefined; // Reference to bug-reporting Rollbar.com API
 
     static readonly data: Data<any> = new Data<any>();
@@ -1,7 +1,6 @@
-import Element, { CallbackType } from "../elements/element";
-import Icon, { IconButton, IconType } from "../elements/icon";
+import Element from "../elements/element";
+import Icon, { IconType } from "../elements/icon";
 import {ButtonType} from "../elements/button";
-import TextArea from "../elements/text-area";
 import MainPanel from "./main-panel";
 import Globals from "../globals";
 import { PanelOrientation } from "../elements/panel";
@@ -15,8 +14,6 @@ class LeftBar extends MainPanel {
     public constructor() {
         super(PanelOrientation.VERTICAL);
 
-        const stage = Globals.stage!;
-
         this._aaElements.push(
             new Icon(IconType.STRUCTURE),
             ...Globals.actionsManager.allAtom.map(v => {
@@ -33,30 +30,6 @@ class LeftBar extends MainPanel {
         //regBut(IconType.TRANSFORM_TRANSLATE, "Move", this._commonElements, () => new CATANA.MoveState("translate"));
         //regBut(IconType.TRANSFORM_ROTATE, "Rotate", this._commonElements, () => new CATANA.MoveState("rotate"));
 
-        {
-            const buttonUndo = new IconButton(IconType.UNDO, "Undo");
-            const textHistoryList = new TextArea("");
-            textHistoryList.setEditable(false);
-            { // Functions
-                const updateHistoryListFun = () => {
-                    let str = "";
-                    let i = 1;
-                    stage.catanaHistory.forEachCommand((command) => {
-                        str += "(" + i + ") " + command.name + "\n";
-                        ++i;
-                    });
-                    textHistoryList.setValue(str.substring(0, str.length - 1));
-                };
-                buttonUndo.addCallback(CallbackType.CLICK, () => {
-                    stage.catanaHistory.undo();
-                    updateHistoryListFun();
-                });
-                stage.catanaHistory.signals.commandDone.add((command) => {
-                    updateHistoryListFun();
-                });
-            } // Functions
-        }
-
         for (const list of [this.cgElements, this.aaElements, this.commonElements]) {
             for (const element of list) {
                 this.start.add(element);
@@ -2,6 +2,7 @@ import MainPanel from "./main-panel";
 import Globals from "../globals";
 import {ComponentsManager} from "../elements/specialized/component/component";
 import {PanelOrientation} from "../elements/panel";
+import HistoryPanel from "../elements/specialized/history-panel";
 
 class RightBar extends MainPanel {
     public constructor() {
@@ -10,11 +11,13 @@ class RightBar extends MainPanel {
         const signals = Globals.stage!.signals;
 
         const componentsManager = new ComponentsManager();
+        const historyPanel = new HistoryPanel();
 
         componentsManager.tree.dom.setAttribute("data-header-text", "Workspace");
         componentsManager.options.dom.setAttribute("data-header-text", "Inspector");
+        historyPanel.dom.setAttribute("data-header-text", "History");
 
-        this.start.add(componentsManager.tree);
+        this.start.add(componentsManager.tree, historyPanel);
         this.end.add(componentsManager.options);
 
         signals.componentAdded.add((component) => {
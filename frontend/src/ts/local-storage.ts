@@ -24,4 +24,61 @@ class LocalStorage<T> {
     }
 }
 
-export default LocalStorage;
\ No newline at end of file
+export default LocalStorage;
+
+/**
+ * Asynchronous key-value storage backed by IndexedDB.
+ * Unlike LocalStorage, it is suitable for large data (e.g., whole structures)
+ * as the browsers allow to store hundreds of megabytes in it.
+ */
+export class IndexedDbStorage<T> {
+
+    private static readonly STORE_NAME = "data";
+
+    private readonly name: string;
+    private dbPromise: Promise<IDBDatabase> | null = null;
+
+    public constructor(name: string) {
+        this.name = name;
+    }
+
+    public static get isSupported(): boolean {
+        return window.indexedDB !== undefined;
+    }
+
+    public get(key: IDBValidKey): Promise<T | undefined> {
+        return this.request("readonly", store => store.get(key));
+    }
+
+    public set(key: IDBValidKey, value: T): Promise<void> {
+        return this.request("readwrite", store => store.put(value, key)).then(() => { });
+    }
+
+    public remove(key: IDBValidKey): Promise<void> {
+        return this.request("readwrite", store => store.delete(key));
+    }
+
+    public keys(): Promise<IDBValidKey[]> {
+        return this.request("readonly", store => store.getAllKeys());
+    }
+
+    private request<R>(mode: IDBTransactionMode, fun: (store: IDBObjectStore) => IDBRequest): Promise<R> {
+        return this.open().then(db => new Promise<R>((resolve, reject) => {
+            const request = fun(db.transaction(IndexedDbStorage.STORE_NAME, mode).objectStore(IndexedDbStorage.STORE_NAME));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (this.dbPromise === null) {
+            this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+                const request = window.indexedDB.open(this.name, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(IndexedDbStorage.STORE_NAME);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.dbPromise;
+    }
+}
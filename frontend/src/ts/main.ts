@@ -15,6 +15,7 @@ import Icon, { IconType } from "./elements/icon";
 import BugModal from "./elements/modal/bug-modal";
 import ActionsManager from "./actions-manager";
 import { setLastSessionPlugins } from "./util";
+import Autosave from "./autosave";
 
 const localStorage_firstTimeVisit = new LocalStorage<boolean>("StorageKey_FirstTimeVisit");
 
@@ -70,6 +71,41 @@ function initConnectionStatusListeners(): void {
   });
 }
 
+function initAutosaveRecovery(): void {
+  let dialogShown = false;
+  const offerRecovery = () => Globals.autosave.getRecoverableSnapshot().then(snapshot => {
+    if (!snapshot || dialogShown) return;
+    dialogShown = true;
+
+    const dialog = new Dialog("Restore previous session?", "Restore");
+    dialog.add(
+      new TextElement("It seems that Catana was not closed properly last time."),
+      new TextElement("Would you like to restore the structures autosaved on " + snapshot.date + "?"),
+      new TextElement("(" + snapshot.componentNames.join(", ") + ")"));
+    dialog.show().wait().then(confirmed => {
+      if (confirmed) {
+        Globals.animatedLoader?.show();
+        Globals.autosave.restore(snapshot)
+          .then(comps => {
+            if (comps.length > 0) {
+              Globals.stage.autoView();
+            }
+          }, e => Log.error(e))
+          .finally(() => {
+            Globals.animatedLoader?.hide();
+            Globals.autosave.discardRecoverableSnapshots();
+          });
+      } else {
+        Globals.autosave.discardRecoverableSnapshots();
+      }
+    });
+  });
+
+  offerRecovery();
+  // A session which crashed just before this one was started is recognized only after its heartbeat expires
+  window.setTimeout(offerRecovery, Autosave.SESSION_TIMEOUT);
+}
+
 function onBeforeUnload(): void {
   const plugins = Globals.stage.pluginManager.loadedPlugins;
   setLastSessionPlugins(plugins.map(x => x.name));
@@ -80,6 +116,7 @@ export function init(stage: Stage, rollbar: object | undefined) {
 
   Globals.stage = stage;
   Globals.rollbar = rollbar;
+  Globals.autosave = new Autosave(stage);
   Globals.body = new Element(document.body);
   Globals.actionsManager = new ActionsManager();
   Globals.layoutManager = new LayoutManager(Globals.body);
@@ -90,6 +127,7 @@ export function init(stage: Stage, rollbar: object | undefined) {
   initTooltip();
   initFilteringModalBox(stage);
   initConnectionStatusListeners();
+  initAutosaveRecovery();
 
   // Finish viewport setup
   if (stage.viewer.renderer) {